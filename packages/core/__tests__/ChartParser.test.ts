@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { ChartParser, XmlUtils } from '../src/parser';
+
+const NS_C = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+
+const parse = (plotArea: string, chart = ''): ReturnType<ChartParser['parse']> => new ChartParser().parse(XmlUtils.parse(
+  `<c:chartSpace xmlns:c="${NS_C}" xmlns:a="${NS_A}"><c:chart>${chart}<c:plotArea>${plotArea}</c:plotArea></c:chart></c:chartSpace>`,
+));
+
+const numCache = (values: Array<number | null>): string => {
+  const points = values.map((v, i) => (v === null ? '' : `<c:pt idx="${i}"><c:v>${v}</c:v></c:pt>`)).join('');
+  return `<c:numCache><c:ptCount val="${values.length}"/>${points}</c:numCache>`;
+};
+
+const strCache = (values: string[]): string => {
+  const points = values.map((v, i) => `<c:pt idx="${i}"><c:v>${v}</c:v></c:pt>`).join('');
+  return `<c:strCache><c:ptCount val="${values.length}"/>${points}</c:strCache>`;
+};
+
+describe('ChartParser', () => {
+  it('读取条形图的系列、缓存数据、颜色、坐标轴和图例', () => {
+    const chart = parse(
+      '<c:barChart><c:barDir val="bar"/><c:grouping val="stacked"/>'
+      + `<c:ser><c:idx val="0"/><c:tx><c:strRef><c:f>Sheet1!$B$1</c:f>${strCache(['销量'])}</c:strRef></c:tx>`
+      + '<c:spPr><a:solidFill><a:schemeClr val="accent2"/></a:solidFill></c:spPr>'
+      + '<c:dPt><c:idx val="1"/><c:spPr><a:solidFill><a:srgbClr val="ff0000"/></a:solidFill></c:spPr></c:dPt>'
+      + `<c:cat><c:strRef><c:f>Sheet1!$A$2:$A$4</c:f>${strCache(['一月', '二月', '三月'])}</c:strRef></c:cat>`
+      + `<c:val><c:numRef><c:f>Sheet1!$B$2:$B$4</c:f>${numCache([10, null, 30])}</c:numRef></c:val>`
+      + '</c:ser><c:axId val="1"/><c:axId val="2"/></c:barChart>'
+      + '<c:catAx><c:axId val="1"/><c:scaling><c:orientation val="maxMin"/></c:scaling><c:delete val="0"/><c:axPos val="l"/></c:catAx>'
+      + '<c:valAx><c:axId val="2"/><c:scaling><c:orientation val="minMax"/><c:max val="50"/><c:min val="0"/></c:scaling>'
+      + '<c:delete val="0"/><c:axPos val="b"/><c:majorGridlines/><c:numFmt formatCode="0.0" sourceLinked="0"/>'
+      + '<c:majorUnit val="10"/></c:valAx>',
+      '<c:autoTitleDeleted val="0"/>',
+    );
+
+    expect(chart).toMatchObject({ type: 'bar', grouping: 'stacked', title: '销量', legendPosition: 'none' });
+    expect(chart?.series).toEqual([{
+      type: 'bar',
+      name: '销量',
+      values: 'Sheet1!$B$2:$B$4',
+      valueCache: [10, null, 30],
+      categories: 'Sheet1!$A$2:$A$4',
+      categoryCache: ['一月', '二月', '三月'],
+      fill: { rgb: 'ED7D31' },
+      pointColors: { 1: { rgb: 'FF0000' } },
+    }]);
+    expect(chart?.axes).toEqual([
+      { id: '1', type: 'category', deleted: false, majorGridlines: false, position: 'l', reversed: true },
+      { id: '2', type: 'value', deleted: false, majorGridlines: true, position: 'b', min: 0, max: 50, majorUnit: 10, numFmt: '0.0' },
+    ]);
+  });
+
+  it('多个图表组识别为组合图，富文本标题按段落换行', () => {
+    const chart = parse(
+      '<c:barChart><c:barDir val="col"/><c:ser><c:idx val="0"/><c:val><c:numLit><c:ptCount val="2"/>'
+      + '<c:pt idx="0"><c:v>1</c:v></c:pt><c:pt idx="1"><c:v>2</c:v></c:pt></c:numLit></c:val></c:ser></c:barChart>'
+      + '<c:lineChart><c:ser><c:idx val="1"/><c:spPr><a:ln w="38100"><a:solidFill><a:srgbClr val="00FF00"/></a:solidFill></a:ln></c:spPr>'
+      + '<c:val><c:numRef><c:f>Sheet1!$C$1:$C$2</c:f></c:numRef></c:val><c:smooth val="1"/></c:ser></c:lineChart>',
+      '<c:title><c:tx><c:rich><a:p><a:r><a:t>第一行</a:t></a:r></a:p><a:p><a:r><a:t>第二</a:t></a:r><a:r><a:t>行</a:t></a:r></a:p></c:rich></c:tx></c:title>'
+      + '<c:legend><c:legendPos val="t"/></c:legend>',
+    );
+
+    expect(chart?.type).toBe('combo');
+    expect(chart?.title).toBe('第一行\n第二行');
+    expect(chart?.legendPosition).toBe('top');
+    expect(chart?.series.map(series => series.type)).toEqual(['column', 'line']);
+    expect(chart?.series[0].valueCache).toEqual([1, 2]);
+    expect(chart?.series[1]).toMatchObject({ line: { width: 3, color: { rgb: '00FF00' } }, smooth: true, valueCache: [] });
+  });
+
+  it('散点图读取 X 值，marker 样式不连线', () => {
+    const chart = parse(
+      '<c:scatterChart><c:scatterStyle val="marker"/><c:ser><c:idx val="0"/>'
+      + `<c:xVal><c:numRef><c:f>Sheet1!$A$1:$A$2</c:f>${numCache([1.5, 2.5])}</c:numRef></c:xVal>`
+      + `<c:yVal><c:numRef><c:f>Sheet1!$B$1:$B$2</c:f>${numCache([3, 4])}</c:numRef></c:yVal>`
+      + '</c:ser></c:scatterChart>',
+    );
+
+    expect(chart?.series[0]).toMatchObject({ type: 'scatter', xValueCache: [1.5, 2.5], valueCache: [3, 4], line: { width: 0 } });
+  });
+
+  it('没有可识别的图表组时返回 null', () => {
+    expect(parse('<c:layout/>')).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { ConditionalFormatUtils } from '../src/utils';
+import type { Cell, ConditionalCellFormat, ConditionalFormatRule, Sheet } from '../src/types';
+
+const RANGES = ['A1:A5'];
+
+/**
+ * 构建 A 列依次为指定数值的工作表
+ */
+function createSheet(values: number[], rules: ConditionalFormatRule[]): Sheet {
+  const cells = new Map<string, Cell>(values.map((value, row) => [
+    `A${row + 1}`,
+    { address: `A${row + 1}`, row, col: 0, value, type: 'number', text: String(value) },
+  ]));
+  return { cells, conditionalFormats: rules } as unknown as Sheet;
+}
+
+/**
+ * 计算 A 列各单元格的条件格式
+ */
+function getColumnFormats(sheet: Sheet, rowCount: number): Array<ConditionalCellFormat | null> {
+  return Array.from({ length: rowCount }, (_, row) => ConditionalFormatUtils.getCellFormat(sheet, row, 0));
+}
+
+describe('ConditionalFormatUtils', () => {
+  it('单元格值条件应用差异格式，范围外和不满足条件的单元格返回 null', () => {
+    const sheet = createSheet([1, 2, 3, 4, 5], [{
+      type: 'cellIs',
+      priority: 1,
+      ranges: RANGES,
+      operator: 'between',
+      formula: ['2', '4'],
+      style: { font: { bold: true, color: { rgb: 'FF9C0006' } }, fill: { type: 'pattern', pattern: 'solid', fgColor: { rgb: 'FFFFC7CE' } } },
+    }]);
+
+    expect(getColumnFormats(sheet, 6)).toEqual([
+      null,
+      { fontColor: '#9C0006', bold: true, fill: '#FFC7CE' },
+      { fontColor: '#9C0006', bold: true, fill: '#FFC7CE' },
+      { fontColor: '#9C0006', bold: true, fill: '#FFC7CE' },
+      null,
+      null,
+    ]);
+    expect(ConditionalFormatUtils.isInRange(sheet, 4, 0)).toBe(true);
+    expect(ConditionalFormatUtils.isInRange(sheet, 5, 0)).toBe(false);
+  });
+
+  it('优先级高的规则设置的属性生效，stopIfTrue 之后不再应用其他规则', () => {
+    const red = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { rgb: 'FFFF0000' } };
+    const green = { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { rgb: 'FF00FF00' } };
+    const sheet = createSheet([1, 2, 3, 4, 5], [
+      { type: 'top10', priority: 2, ranges: RANGES, rank: 2, style: { fill: green, font: { italic: true } } },
+      { type: 'cellIs', priority: 1, ranges: RANGES, operator: 'greaterThan', formula: ['4'], style: { fill: red }, stopIfTrue: true },
+    ]);
+
+    expect(getColumnFormats(sheet, 5).slice(2)).toEqual([
+      null,
+      { fill: '#00FF00', italic: true },
+      { fill: '#FF0000' },
+    ]);
+  });
+
+  it('色阶在最小值和最大值之间插值', () => {
+    const sheet = createSheet([1, 2, 3, 4, 5], [{
+      type: 'colorScale',
+      priority: 1,
+      ranges: RANGES,
+      colorScale: { cfvo: [{ type: 'min' }, { type: 'max' }], color: [{ rgb: 'FFFFFFFF' }, { rgb: 'FF000000' }] },
+    }]);
+
+    expect(getColumnFormats(sheet, 5).map(format => format?.fill)).toEqual([
+      '#FFFFFF', '#BFBFBF', '#808080', '#404040', '#000000',
+    ]);
+  });
+
+  it('数据条长度默认在 10% 到 90% 之间', () => {
+    const sheet = createSheet([1, 2, 3, 4, 5], [{
+      type: 'dataBar',
+      priority: 1,
+      ranges: RANGES,
+      dataBar: { cfvo: [{ type: 'min' }, { type: 'max' }], color: { rgb: 'FF638EC6' }, showValue: false },
+    }]);
+    const formats = getColumnFormats(sheet, 5);
+
+    expect(formats[0]).toEqual({
+      dataBar: { length: 0.1, color: '#638EC6', gradient: true, rightToLeft: false },
+      hideValue: true,
+    });
+    expect(formats.map(format => format?.dataBar?.length)).toEqual([
+      0.1, expect.closeTo(0.3), 0.5, expect.closeTo(0.7), 0.9,
+    ]);
+  });
+
+  it('图标集按百分比阈值选择图标', () => {
+    const sheet = createSheet([1, 2, 3, 4, 5], [{
+      type: 'iconSet',
+      priority: 1,
+      ranges: RANGES,
+      iconSet: {
+        iconSet: '3Arrows',
+        cfvo: [{ type: 'percent', val: '0' }, { type: 'percent', val: '33' }, { type: 'percent', val: '67' }],
+      },
+    }]);
+
+    expect(getColumnFormats(sheet, 5).map(format => format?.icon?.shape)).toEqual([
+      'arrowDown', 'arrowDown', 'arrowRight', 'arrowUp', 'arrowUp',
+    ]);
+  });
+});
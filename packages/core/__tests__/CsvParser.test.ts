@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { ExcelParser, CsvParser } from '../src/parser';
+import type { Workbook } from '../src/types';
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+const parse = (data: Uint8Array, fileName = 'data.csv', options = {}): Promise<Workbook> => (
+  new ExcelParser({ fileName, ...options }).parse(data)
+);
+
+/**
+ * 按行列出工作表的单元格值
+ */
+const values = (workbook: Workbook): unknown[][] => {
+  const rows: unknown[][] = [];
+  workbook.sheets[0].cells.forEach(cell => {
+    (rows[cell.row] ??= [])[cell.col] = cell.value;
+  });
+  return rows;
+};
+
+describe('CsvParser', () => {
+  it('检测分隔符和引号', async () => {
+    expect(values(await parse(encode('a,b,c\n1,"x, y","say ""hi"""\n')))).toEqual([
+      ['a', 'b', 'c'],
+      [1, 'x, y', 'say "hi"'],
+    ]);
+    expect(values(await parse(encode('a\tb\n1\t2\n'), 'data.tsv'))).toEqual([['a', 'b'], [1, 2]]);
+    expect(values(await parse(encode('a|b\n1|"2|3"\n')))).toEqual([['a', 'b'], [1, '2|3']]);
+  });
+
+  it('分号分隔的文件按逗号作小数点识别数字', async () => {
+    expect(values(await parse(encode('a;b;c\n1.234,5;3,14;12,5%\n')))).toEqual([
+      ['a', 'b', 'c'],
+      [1234.5, 3.14, 0.125],
+    ]);
+    // 样本中的数字明确使用点作小数点时以样本为准
+    expect(values(await parse(encode('a;b\n3.14;2.5\n')))).toEqual([['a', 'b'], [3.14, 2.5]]);
+  });
+
+  it('按 BOM 识别编码，没有 BOM 时依次尝试 UTF-8 和 GB18030', async () => {
+    expect(values(await parse(encode('\uFEFF名称,数量\n苹果,3\n')))).toEqual([['名称', '数量'], ['苹果', 3]]);
+
+    const utf16 = new Uint8Array([0xff, 0xfe, ...new Uint8Array(new Uint16Array([...'名称,1\n'].map(ch => ch.charCodeAt(0))).buffer)]);
+    expect(values(await parse(utf16))).toEqual([['名称', 1]]);
+
+    // "你好,1\n" 的 GB18030 编码
+    const gb18030 = new Uint8Array([0xc4, 0xe3, 0xba, 0xc3, 0x2c, 0x31, 0x0a]);
+    expect(values(await parse(gb18030))).toEqual([['你好', 1]]);
+  });
+
+  it('识别布尔值、日期和带前导零的编号', async () => {
+    const workbook = await parse(encode('flag,date,id\ntrue,2024-01-15,007\nFALSE,,42\n'));
+    const cells = workbook.sheets[0].cells;
+
+    expect(cells.get('A2')?.value).toBe(true);
+    expect(cells.get('A3')?.value).toBe(false);
+    expect(cells.get('A3')?.text).toBe('FALSE');
+    expect(cells.get('B2')?.value).toEqual(new Date(2024, 0, 15));
+    expect(cells.get('C2')?.value).toBe('007');
+    expect(cells.get('C3')?.value).toBe(42);
+  });
+
+  it('没有 CSV 扩展名时只把可打印文本识别为 CSV，ZIP 和复合文档不识别为 CSV', () => {
+    expect(CsvParser.isCsv(encode('a,b\n1,2\n'))).toBe(true);
+    expect(CsvParser.isCsv(encode('名称,数量\n'))).toBe(true);
+    expect(CsvParser.isCsv(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]))).toBe(false);
+    expect(CsvParser.isCsv(new Uint8Array([0x50, 0x4b, 0x03, 0x04]), 'data.csv')).toBe(false);
+    expect(CsvParser.isCsv(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]), 'data.csv')).toBe(false);
+    expect(CsvParser.isCsv(new Uint8Array(0), 'empty.csv')).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { DataValidationUtils } from '../src/utils';
+import type { Cell, DataValidation, DefinedName, Sheet } from '../src/types';
+
+/**
+ * 构建 A 列依次为指定文本的工作表
+ */
+function createSheet(
+  name: string,
+  index: number,
+  values: string[] = [],
+  dataValidations: DataValidation[] = [],
+): Sheet {
+  const cells = new Map<string, Cell>(values.map((text, row) => [
+    `A${row + 1}`,
+    { address: `A${row + 1}`, row, col: 0, value: text, type: 'string', text },
+  ]));
+  return { name, index, cells, dataValidations } as unknown as Sheet;
+}
+
+/**
+ * 创建列表验证
+ */
+function list(formula1: string, ranges = ['B1:B10']): DataValidation {
+  return { type: 'list', ranges, formula1 };
+}
+
+describe('DataValidationUtils', () => {
+  it('按单元格查找数据验证规则', () => {
+    const validation = list('"a,b"', ['B1:B3', 'D1']);
+    const sheet = createSheet('Sheet1', 0, [], [validation]);
+
+    expect(DataValidationUtils.getValidation(sheet, 2, 1)).toBe(validation);
+    expect(DataValidationUtils.getValidation(sheet, 0, 3)).toBe(validation);
+    expect(DataValidationUtils.getValidation(sheet, 3, 1)).toBeNull();
+  });
+
+  it('解析逗号分隔的列表和单元格范围，空单元格不作为选项', () => {
+    const sheet = createSheet('Sheet1', 0, ['一', '', '三']);
+    const workbook = { sheets: [sheet], definedNames: [] };
+
+    expect(DataValidationUtils.getListValues(list('" a ,b,,""c"""'), sheet, workbook)).toEqual(['a', 'b', '"c"']);
+    expect(DataValidationUtils.getListValues(list('$A$1:$A$3'), sheet, workbook)).toEqual(['一', '三']);
+    expect(DataValidationUtils.getListValues(list('INDIRECT("A1")'), sheet, workbook)).toBeNull();
+    expect(DataValidationUtils.getListValues({ type: 'whole', ranges: ['B1'], formula1: '1' }, sheet, workbook))
+      .toBeNull();
+  });
+
+  it('读取其他工作表和定义名称，工作表级名称优先', () => {
+    const sheet = createSheet('Sheet1', 0);
+    const lists = createSheet('My Lists', 1, ['x', 'y', 'z']);
+    const definedNames: DefinedName[] = [
+      { name: 'Choices', ref: '\'My Lists\'!$A$1:$A$3' },
+      { name: 'choices', ref: '\'My Lists\'!$A$2', scope: '0' },
+      { name: 'Alias', ref: 'Choices' },
+    ];
+    const workbook = { sheets: [sheet, lists], definedNames };
+
+    expect(DataValidationUtils.getListValues(list('\'My Lists\'!$A$1:$A$2'), sheet, workbook)).toEqual(['x', 'y']);
+    expect(DataValidationUtils.getListValues(list('CHOICES'), sheet, workbook)).toEqual(['y']);
+    expect(DataValidationUtils.getListValues(list('Alias'), lists, workbook)).toEqual(['x', 'y', 'z']);
+  });
+
+  it('来源工作表尚未解析时不设置选项，解析后补全', () => {
+    const validation = list('Lists!A1:A2');
+    const sheet = createSheet('Sheet1', 0, [], [validation]);
+    const lists = createSheet('Lists', 1, ['是', '否']);
+    lists.parseState = 'pending';
+    const workbook = { sheets: [sheet, lists], definedNames: [] };
+
+    DataValidationUtils.resolveListValues(workbook);
+    expect(validation.listValues).toBeUndefined();
+    expect(DataValidationUtils.getReferencedSheets(sheet, workbook)).toEqual(['Lists']);
+
+    lists.parseState = 'parsed';
+    DataValidationUtils.resolveListValues(workbook);
+    expect(validation.listValues).toEqual(['是', '否']);
+    expect(DataValidationUtils.getReferencedSheets(sheet, workbook)).toEqual([]);
+  });
+});
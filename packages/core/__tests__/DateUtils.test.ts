@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { DateUtils } from '../src/utils';
+
+describe('DateUtils', () => {
+  it('1900 日期系统的序列号转为本地时间字段一致的日期', () => {
+    expect(DateUtils.excelSerialToDate(1)).toEqual(new Date(1900, 0, 1));
+    expect(DateUtils.excelSerialToDate(59)).toEqual(new Date(1900, 1, 28));
+    expect(DateUtils.excelSerialToDate(61)).toEqual(new Date(1900, 2, 1));
+    expect(DateUtils.excelSerialToDate(45306.75)).toEqual(new Date(2024, 0, 15, 18, 0, 0));
+  });
+
+  it('不存在的 1900-02-29 转为 1900-02-28', () => {
+    expect(DateUtils.excelSerialToDate(60)).toEqual(new Date(1900, 1, 28));
+  });
+
+  it('1904 日期系统以 1904-01-01 为序列号 0', () => {
+    expect(DateUtils.excelSerialToDate(0, true)).toEqual(new Date(1904, 0, 1));
+    expect(DateUtils.excelSerialToDate(43844.5, true)).toEqual(new Date(2024, 0, 15, 12, 0, 0));
+  });
+
+  it('日期转序列号与序列号转日期互逆', () => {
+    for (const serial of [1, 59, 61, 45306.25]) {
+      expect(DateUtils.dateToExcelSerial(DateUtils.excelSerialToDate(serial))).toBeCloseTo(serial, 8);
+    }
+    expect(DateUtils.dateToExcelSerial(new Date(2024, 0, 15), true)).toBe(43844);
+    expect(DateUtils.toDateSerial(new Date(2024, 0, 15, 18, 0, 0))).toBe(45306);
+  });
+});
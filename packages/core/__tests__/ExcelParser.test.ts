@@ -0,0 +1,724 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { ExcelParser, ParseError } from '../src/parser';
+import { createXlsx, rels, NS_MAIN, NS_R } from './helpers/xlsx';
+
+const NS_THREADED = 'http://schemas.microsoft.com/office/spreadsheetml/2018/threadedcomments';
+const REL_THREADED = 'http://schemas.microsoft.com/office/2017/10/relationships/threadedComment';
+const NS_XDR = 'http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_C = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const NS_X14 = 'http://schemas.microsoft.com/office/spreadsheetml/2009/9/main';
+const NS_XM = 'http://schemas.microsoft.com/office/excel/2006/main';
+const NS_VT = 'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes';
+
+// 1x1 像素的 PNG 图片
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const picture = (id: number, embed: string, xfrm = ''): string => (
+  `<xdr:pic><xdr:nvPicPr><xdr:cNvPr id="${id}" name="Picture ${id}" descr="logo ${id}"/><xdr:cNvPicPr/></xdr:nvPicPr>`
+  + `<xdr:blipFill><a:blip r:embed="${embed}"/></xdr:blipFill><xdr:spPr>${xfrm}</xdr:spPr></xdr:pic>`
+);
+
+const marker = (tag: string, col: number, colOff: number, row: number, rowOff: number): string => (
+  `<xdr:${tag}><xdr:col>${col}</xdr:col><xdr:colOff>${colOff}</xdr:colOff>`
+  + `<xdr:row>${row}</xdr:row><xdr:rowOff>${rowOff}</xdr:rowOff></xdr:${tag}>`
+);
+
+describe('ExcelParser', () => {
+  describe('批注', () => {
+    it('合并传统批注、VML 批注框和线程批注', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData><legacyDrawing r:id="rId2"/>',
+          rels: [
+            ['rId1', 'comments', '../comments1.xml'],
+            ['rId2', 'vmlDrawing', '../drawings/vmlDrawing1.vml'],
+            ['rId3', REL_THREADED, '../threadedComments/threadedComment1.xml'],
+          ],
+        }],
+        parts: {
+          'xl/comments1.xml': `<comments xmlns="${NS_MAIN}"><authors><author>Ann</author></authors><commentList>`
+            + '<comment ref="A1" authorId="0"><text><r><rPr><b/><sz val="9"/></rPr><t>Ann:</t></r>'
+            + '<r><t xml:space="preserve"> note</t></r></text></comment>'
+            + '<comment ref="B2" authorId="0"><text><t>[Threaded comment] placeholder</t></text></comment>'
+            + '</commentList></comments>',
+          'xl/drawings/vmlDrawing1.vml': '<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:x="urn:schemas-microsoft-com:office:excel">'
+            + '<v:shape id="_x0000_s1025"><x:ClientData ObjectType="Note"><x:Anchor>1, 15, 0, 2, 3, 15, 4, 4</x:Anchor>'
+            + '<x:Row>0</x:Row><x:Column>0</x:Column><x:Visible/></x:ClientData></v:shape>'
+            + '<v:shape id="_x0000_s1026"><x:ClientData ObjectType="Note"><br>'
+            + '<x:Row>1</x:Row><x:Column>1</x:Column></x:ClientData></v:shape></xml>',
+          'xl/persons/person.xml': '<personList xmlns="http://schemas.microsoft.com/office/spreadsheetml/2018/threadedcomments">'
+            + '<person displayName="Bob" id="{P1}"/><person displayName="Cai" id="{P2}"/></personList>',
+          'xl/threadedComments/threadedComment1.xml': `<ThreadedComments xmlns="${NS_THREADED}">`
+            + '<threadedComment ref="B2" dT="2024-01-15T08:30:00.00" personId="{P1}" id="{T1}" done="1"><text>Question</text></threadedComment>'
+            + '<threadedComment ref="B2" dT="2024-01-16T09:00:00.00" personId="{P2}" id="{T2}" parentId="{T1}"><text>Answer</text></threadedComment>'
+            + '</ThreadedComments>',
+        },
+      });
+      const sheet = (await new ExcelParser().parse(data)).sheets[0];
+
+      expect(sheet.comments.get('A1')).toMatchObject({
+        ref: 'A1',
+        author: 'Ann',
+        visible: true,
+        anchor: {
+          from: { col: 1, colOff: 15, row: 0, rowOff: 2 },
+          to: { col: 3, colOff: 15, row: 4, rowOff: 4 },
+        },
+      });
+      const text = sheet.comments.get('A1')?.text;
+      expect(Array.isArray(text) && text.map(run => [run.text, run.font?.bold])).toEqual([['Ann:', true], [' note', undefined]]);
+
+      // 线程批注替换传统批注的占位内容，回复按 parentId 归入线程
+      expect(sheet.comments.get('B2')).toMatchObject({
+        author: 'Bob',
+        text: 'Question',
+        threaded: true,
+        done: true,
+        visible: false,
+        replies: [{ id: '{T2}', author: 'Cai', text: 'Answer' }],
+      });
+      expect(sheet.comments.get('B2')?.date).toEqual(new Date('2024-01-15T08:30:00.00'));
+    });
+  });
+
+  describe('图片', () => {
+    it('按三种锚点读取图片位置、尺寸和变换，跳过外部链接的图片', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData/><drawing r:id="rId1"/>',
+          rels: [['rId1', 'drawing', '../drawings/drawing1.xml']],
+        }],
+        parts: {
+          'xl/drawings/drawing1.xml': `<xdr:wsDr xmlns:xdr="${NS_XDR}" xmlns:a="${NS_A}" xmlns:r="${NS_R}">`
+            + `<xdr:twoCellAnchor>${marker('from', 1, 9525, 2, 19050)}${marker('to', 4, 0, 8, 0)}`
+            + `${picture(2, 'rId1', '<a:xfrm rot="5400000" flipH="1"><a:off x="0" y="0"/><a:ext cx="952500" cy="476250"/></a:xfrm>')}`
+            + '<xdr:clientData/></xdr:twoCellAnchor>'
+            + `<xdr:oneCellAnchor>${marker('from', 0, 0, 10, 0)}<xdr:ext cx="190500" cy="95250"/>${picture(3, 'rId2')}`
+            + '<xdr:clientData/></xdr:oneCellAnchor>'
+            + `<xdr:absoluteAnchor><xdr:pos x="95250" y="190500"/><xdr:ext cx="285750" cy="285750"/>${picture(4, 'rId1')}`
+            + '<xdr:clientData/></xdr:absoluteAnchor>'
+            + `<xdr:oneCellAnchor>${marker('from', 0, 0, 0, 0)}<xdr:ext cx="9525" cy="9525"/>${picture(5, 'rId3')}`
+            + '<xdr:clientData/></xdr:oneCellAnchor>'
+            + '</xdr:wsDr>',
+          'xl/drawings/_rels/drawing1.xml.rels': rels([
+            ['rId1', 'image', '../media/image1.png'],
+            ['rId2', 'image', '../media/image2.JPG'],
+            ['rId3', 'image', 'https://example.com/logo.png', 'External'],
+          ]),
+          'xl/media/image1.png': Buffer.from(PNG, 'base64'),
+          'xl/media/image2.JPG': Buffer.from(PNG, 'base64'),
+        },
+      });
+      const sheet = (await new ExcelParser().parse(data)).sheets[0];
+
+      expect(sheet.images).toHaveLength(3);
+      const [twoCell, oneCell, absolute] = sheet.images;
+      expect(twoCell).toMatchObject({
+        type: 'png',
+        data: PNG,
+        filename: 'image1.png',
+        description: 'logo 2',
+        width: 100,
+        height: 50,
+        positionType: 'twoCell',
+        anchor: {
+          from: { col: 1, colOff: 1, row: 2, rowOff: 2 },
+          to: { col: 4, colOff: 0, row: 8, rowOff: 0 },
+        },
+        rotation: 90,
+        flipH: true,
+      });
+      expect(oneCell).toMatchObject({ type: 'jpeg', width: 20, height: 10, positionType: 'oneCell' });
+      expect(absolute).toMatchObject({ positionType: 'absolute', position: { x: 10, y: 20 }, width: 30, height: 30 });
+    });
+
+    it('关闭 parseImages 时不读取图片', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData/><drawing r:id="rId1"/>',
+          rels: [['rId1', 'drawing', '../drawings/drawing1.xml']],
+        }],
+        parts: {
+          'xl/drawings/drawing1.xml': `<xdr:wsDr xmlns:xdr="${NS_XDR}" xmlns:a="${NS_A}" xmlns:r="${NS_R}">`
+            + `<xdr:oneCellAnchor>${marker('from', 0, 0, 0, 0)}<xdr:ext cx="9525" cy="9525"/>${picture(2, 'rId1')}`
+            + '<xdr:clientData/></xdr:oneCellAnchor></xdr:wsDr>',
+          'xl/drawings/_rels/drawing1.xml.rels': rels([['rId1', 'image', '../media/image1.png']]),
+          'xl/media/image1.png': Buffer.from(PNG, 'base64'),
+        },
+      });
+
+      expect((await new ExcelParser({ parseImages: false }).parse(data)).sheets[0].images).toEqual([]);
+    });
+  });
+
+  describe('表格', () => {
+    it('读取表格列、汇总行、筛选、排序和样式', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData/><tableParts count="1"><tablePart r:id="rId1"/></tableParts>',
+          rels: [['rId1', 'table', '../tables/table1.xml']],
+        }],
+        parts: {
+          'xl/tables/table1.xml': `<table xmlns="${NS_MAIN}" id="2" name="Table1" displayName="Sales" ref="A1:B5" totalsRowCount="1">`
+            + '<autoFilter ref="A1:B4"><filterColumn colId="0"><filters><filter val="East"/></filters></filterColumn></autoFilter>'
+            + '<sortState ref="A2:B4"><sortCondition descending="1" ref="B2:B4"/></sortState>'
+            + '<tableColumns count="2"><tableColumn id="1" name="Region" totalsRowLabel="合计"/>'
+            + '<tableColumn id="2" name="Amount" totalsRowFunction="sum"/></tableColumns>'
+            + '<tableStyleInfo name="TableStyleMedium9" showFirstColumn="0" showLastColumn="1" showRowStripes="1" showColumnStripes="0"/>'
+            + '</table>',
+        },
+      });
+      const [table] = (await new ExcelParser().parse(data)).sheets[0].tables;
+
+      expect(table).toMatchObject({
+        id: 2,
+        name: 'Table1',
+        displayName: 'Sales',
+        ref: 'A1:B5',
+        headerRowCount: 1,
+        totalsRowCount: 1,
+        columns: [
+          { id: 1, name: 'Region', totalsRowLabel: '合计' },
+          { id: 2, name: 'Amount', totalsRowFunction: 'sum' },
+        ],
+        autoFilter: { ref: 'A1:B4' },
+        sortState: { ref: 'A2:B4', sortConditions: [{ ref: 'B2:B4', descending: true }] },
+        styleInfo: {
+          name: 'TableStyleMedium9',
+          showFirstColumn: false,
+          showLastColumn: true,
+          showRowStripes: true,
+          showColumnStripes: false,
+        },
+      });
+    });
+  });
+
+  describe('超链接', () => {
+    it('外部链接目标从工作表关系读取，区域链接作用于区域内的单元格', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData><row r="1"><c r="A1"><v>1</v></c><c r="B1"><v>2</v></c></row>'
+            + '<row r="2"><c r="A2"><v>3</v></c><c r="B2"><v>4</v></c></row></sheetData>'
+            + '<hyperlinks><hyperlink ref="A1" r:id="rId1" location="top" tooltip="打开" display="官网"/>'
+            + '<hyperlink ref="A2:B2" location="\'Other Sheet\'!C3"/>'
+            + '<hyperlink ref="D5" r:id="rId2"/></hyperlinks>',
+          rels: [
+            ['rId1', 'hyperlink', 'https://example.com/', 'External'],
+            ['rId2', 'hyperlink', 'mailto:someone@example.com', 'External'],
+          ],
+        }],
+      });
+      const sheet = (await new ExcelParser().parse(data)).sheets[0];
+
+      expect(sheet.hyperlinks.get('A1')).toEqual({
+        target: 'https://example.com/',
+        type: 'url',
+        tooltip: '打开',
+        display: '官网',
+        location: 'top',
+      });
+      expect(sheet.cells.get('A1')?.hyperlink).toBe(sheet.hyperlinks.get('A1'));
+      expect(sheet.hyperlinks.get('B2')).toMatchObject({ target: '\'Other Sheet\'!C3', type: 'internal' });
+      expect(sheet.cells.get('A2')?.hyperlink).toBe(sheet.hyperlinks.get('B2'));
+      expect(sheet.hyperlinks.get('D5')?.type).toBe('email');
+    });
+  });
+
+  describe('延迟解析', () => {
+    it('parse 只读取工作表列表，loadSheet 按需解析并写回工作表对象', async () => {
+      const data = await createXlsx({
+        sheets: [
+          { name: 'First', body: '<sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData>' },
+          { name: 'Second', body: '<sheetData><row r="2"><c r="B2" t="inlineStr"><is><t>延迟</t></is></c></row></sheetData>' },
+        ],
+      });
+      const parser = new ExcelParser({ lazySheets: true });
+      const workbook = await parser.parse(data);
+      const [first, second] = workbook.sheets;
+
+      expect(workbook.sheets.map(sheet => [sheet.name, sheet.parseState, sheet.cells.size])).toEqual([
+        ['First', 'pending', 0],
+        ['Second', 'pending', 0],
+      ]);
+
+      const loading = parser.loadSheet(second);
+      expect(second.parseState).toBe('parsing');
+      expect(await Promise.all([loading, parser.loadSheet(second)])).toEqual([second, second]);
+      expect(second.parseState).toBe('parsed');
+      expect(second.cells.get('B2')?.value).toBe('延迟');
+      expect(first.parseState).toBe('pending');
+
+      // 已解析的工作表直接返回
+      expect(await parser.loadSheet(second)).toBe(second);
+    });
+
+    it('未开启延迟解析时不设置 parseState', async () => {
+      const data = await createXlsx({ sheets: [{ name: 'Sheet1', body: '<sheetData/>' }] });
+      expect((await new ExcelParser().parse(data)).sheets[0].parseState).toBeUndefined();
+    });
+  });
+
+  describe('共享公式和数组公式', () => {
+    it('展开共享公式，数组公式区域内的单元格记录区域', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData>'
+            + '<row r="1"><c r="A1"><v>1</v></c><c r="B1"><f t="shared" ref="B1:B3" si="0">A1*2</f><v>2</v></c>'
+            + '<c r="C1" cm="1"><f t="array" ref="C1:C3">SORT(A1:A3)</f><v>1</v></c>'
+            + '<c r="D1"><f t="array" ref="D1:D2">A1:A2*10</f><v>10</v></c></row>'
+            + '<row r="2"><c r="A2"><v>2</v></c><c r="B2"><f t="shared" si="0"/><v>4</v></c>'
+            + '<c r="C2"><v>2</v></c><c r="D2"><v>20</v></c></row>'
+            + '<row r="3"><c r="A3"><v>3</v></c><c r="B3"><f t="shared" si="0"/><v>6</v></c><c r="C3"><v>3</v></c></row>'
+            + '</sheetData>',
+        }],
+        workbookRels: [['rIdMeta', 'sheetMetadata', 'metadata.xml']],
+        parts: {
+          'xl/metadata.xml': `<metadata xmlns="${NS_MAIN}" xmlns:xda="http://schemas.microsoft.com/office/spreadsheetml/2017/dynamicarray">`
+            + '<metadataTypes count="1"><metadataType name="XLDAPR" minSupportedVersion="120000"/></metadataTypes>'
+            + '<futureMetadata name="XLDAPR" count="1"><bk><extLst><ext uri="{bdbb8cdc-fa1e-496e-a857-3c3f30c029c3}">'
+            + '<xda:dynamicArrayProperties fDynamic="1" fCollapsed="0"/></ext></extLst></bk></futureMetadata>'
+            + '<cellMetadata count="1"><bk><rc t="1" v="0"/></bk></cellMetadata></metadata>',
+        },
+      });
+      const sheet = (await new ExcelParser().parse(data)).sheets[0];
+
+      expect(sheet.cells.get('B2')?.formula).toMatchObject({ text: 'A2*2', type: 'shared', si: 0 });
+      expect(sheet.cells.get('B3')?.formula?.text).toBe('A3*2');
+      expect(sheet.cells.get('C1')?.formula).toMatchObject({ type: 'array', range: 'C1:C3', dynamic: true });
+      expect(sheet.cells.get('C3')?.arrayRange).toBe('C1:C3');
+      expect(sheet.cells.get('D1')?.formula?.dynamic).toBe(false);
+      expect(sheet.cells.get('D2')?.arrayRange).toBe('D1:D2');
+    });
+  });
+
+
+  describe('保护', () => {
+    it('解析工作表和工作簿保护，未设置的操作按 OOXML 默认值', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData/><sheetProtection algorithmName="SHA-512" hashValue="aGFzaA==" saltValue="c2FsdA==" '
+            + 'spinCount="100000" sheet="1" objects="1" formatCells="0" sort="0"/>',
+        }],
+        workbook: '<workbookProtection workbookPassword="CC1A" lockStructure="1"/>',
+      });
+      const workbook = await new ExcelParser().parse(data);
+
+      expect(workbook.sheets[0].protection).toMatchObject({
+        password: 'aGFzaA==',
+        algorithmName: 'SHA-512',
+        sheet: true,
+        objects: true,
+        scenarios: false,
+        formatCells: false,
+        formatRows: true,
+        sort: false,
+        autoFilter: true,
+        selectLockedCells: false,
+      });
+      expect(workbook.protection).toEqual({
+        password: 'CC1A',
+        algorithmName: undefined,
+        lockStructure: true,
+        lockWindows: false,
+        lockRevision: false,
+      });
+    });
+  });
+
+
+  describe('打印设置', () => {
+    it('解析页边距、页面设置、页眉页脚、分页符以及定义名称中的打印区域和打印标题', async () => {
+      const data = await createXlsx({
+        sheets: [
+          { name: 'Sheet1', body: '<sheetData/>' },
+          {
+            name: 'Report 2',
+            body: '<sheetPr><pageSetUpPr fitToPage="1"/></sheetPr><sheetData/>'
+              + '<printOptions gridLines="1" horizontalCentered="1"/>'
+              + '<pageMargins left="0.5" right="0.5" top="1" bottom="1" header="0.4" footer="0.4"/>'
+              + '<pageSetup paperSize="9" orientation="landscape" fitToWidth="1" fitToHeight="0" '
+              + 'useFirstPageNumber="1" firstPageNumber="3"/>'
+              + '<headerFooter differentFirst="1"><oddHeader>&amp;C&amp;A</oddHeader>'
+              + '<oddFooter>&amp;L第 &amp;P 页，共 &amp;N 页</oddFooter><firstFooter>&amp;R封面</firstFooter></headerFooter>'
+              + '<rowBreaks count="2" manualBreakCount="2"><brk id="20" max="16383" man="1"/><brk id="40" max="16383" man="1"/></rowBreaks>'
+              + '<colBreaks count="1"><brk id="5" max="1048575" man="1"/></colBreaks>',
+          },
+        ],
+        workbook: '<definedNames>'
+          + '<definedName name="_xlnm.Print_Area" localSheetId="1">\'Report 2\'!$A$1:$F$40,\'Report 2\'!$H$1:$J$40</definedName>'
+          + '<definedName name="_xlnm.Print_Titles" localSheetId="1">\'Report 2\'!$A:$B,\'Report 2\'!$1:$2</definedName>'
+          + '</definedNames>',
+      });
+      const [first, second] = (await new ExcelParser().parse(data)).sheets;
+      const options = second.printOptions;
+
+      expect(first.printOptions).toBeUndefined();
+      expect(options).toMatchObject({
+        gridLines: true,
+        horizontalCentered: true,
+        orientation: 'landscape',
+        paperSize: 'a4',
+        paperSizeId: 9,
+        fitToPage: true,
+        fitToWidth: 1,
+        fitToHeight: 0,
+        firstPageNumber: 3,
+        margins: { left: 0.5, right: 0.5, top: 1, bottom: 1, header: 0.4, footer: 0.4 },
+        printArea: 'A1:F40,H1:J40',
+        printTitlesRow: '1:2',
+        printTitlesColumn: 'A:B',
+      });
+      expect(options?.header).toMatchObject({ oddHeader: '&C&A', differentFirst: true, scaleWithDoc: true });
+      expect(options?.footer).toMatchObject({ oddFooter: '&L第 &P 页，共 &N 页', firstFooter: '&R封面' });
+      expect(options?.rowBreaks).toEqual([
+        { index: 20, manual: true, min: 0, max: 16383 },
+        { index: 40, manual: true, min: 0, max: 16383 },
+      ]);
+      expect(options?.colBreaks).toEqual([{ index: 5, manual: true, min: 0, max: 1048575 }]);
+    });
+  });
+
+
+  describe('差异格式', () => {
+    it('解析差异格式并关联到条件格式规则', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData><row r="1"><c r="A1"><v>5</v></c></row></sheetData>'
+            + '<conditionalFormatting sqref="A1:A10">'
+            + '<cfRule type="cellIs" dxfId="1" priority="2" operator="greaterThan"><formula>3</formula></cfRule>'
+            + '<cfRule type="expression" dxfId="0" priority="1" stopIfTrue="1"><formula>MOD(ROW(),2)=0</formula></cfRule>'
+            + '</conditionalFormatting>',
+        }],
+        workbookRels: [['rIdStyles', 'styles', 'styles.xml']],
+        parts: {
+          'xl/styles.xml': `<styleSheet xmlns="${NS_MAIN}">`
+            + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+            + '<fills count="1"><fill><patternFill patternType="none"/></fill></fills>'
+            + '<borders count="1"><border/></borders>'
+            + '<cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellXfs>'
+            + '<dxfs count="2"><dxf><font><b val="0"/><i/><color rgb="FF9C0006"/></font>'
+            + '<fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf>'
+            + '<dxf><numFmt numFmtId="164" formatCode="0.00%"/>'
+            + '<border><left style="thin"><color rgb="FF000000"/></left></border></dxf></dxfs>'
+            + '</styleSheet>',
+        },
+      });
+      const workbook = await new ExcelParser().parse(data);
+      const [cellIs, expression] = workbook.sheets[0].conditionalFormats;
+
+      // 省略 patternType 的填充为纯色，颜色取自 bgColor；<b val="0"/> 表示取消粗体
+      expect(workbook.styles.dxfs[0]).toEqual({
+        font: { bold: false, italic: true, color: { rgb: 'FF9C0006' } },
+        fill: { type: 'pattern', pattern: 'solid', bgColor: { rgb: 'FFFFC7CE' }, fgColor: { rgb: 'FFFFC7CE' } },
+      });
+      expect(cellIs).toMatchObject({ type: 'cellIs', dxfId: 1, operator: 'greaterThan', formula: ['3'] });
+      expect(cellIs.style).toEqual({
+        numFmtId: 164,
+        numFmt: '0.00%',
+        border: { left: { style: 'thin', color: { rgb: 'FF000000' } } },
+      });
+      expect(expression).toMatchObject({ type: 'expression', stopIfTrue: true, dxfId: 0 });
+      expect(expression.style).toBe(workbook.styles.dxfs[0]);
+    });
+  });
+
+
+  describe('条件格式', () => {
+    it('解析文本、发生日期、前 N 项和平均值条件的属性', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData/><conditionalFormatting sqref="A1:A10 C1:C10">'
+            + '<cfRule type="containsText" priority="1" operator="containsText" text="ok"><formula>NOT(ISERROR(SEARCH("ok",A1)))</formula></cfRule>'
+            + '<cfRule type="timePeriod" priority="2" timePeriod="last7Days"/>'
+            + '<cfRule type="top10" priority="3" percent="1" bottom="1" rank="20"/>'
+            + '<cfRule type="aboveAverage" priority="4" aboveAverage="0" stdDev="1"/>'
+            + '</conditionalFormatting>',
+        }],
+      });
+      const rules = (await new ExcelParser().parse(data)).sheets[0].conditionalFormats;
+
+      expect(rules.map(rule => rule.ranges)).toEqual(Array(4).fill(['A1:A10', 'C1:C10']));
+      expect(rules[0]).toMatchObject({ type: 'containsText', text: 'ok' });
+      expect(rules[1]).toMatchObject({ type: 'timePeriod', timePeriod: 'last7Days' });
+      expect(rules[2]).toMatchObject({ rank: 20, percent: true, bottom: true });
+      expect(rules[3]).toMatchObject({ aboveAverage: false, equalAverage: false, stdDev: 1 });
+    });
+  });
+
+
+  describe('迷你图', () => {
+    it('解析 x14 扩展中的迷你图组、颜色和坐标轴设置', async () => {
+      const data = await createXlsx({
+        sheets: [{
+          name: 'Sheet1',
+          body: '<sheetData/>'
+            + `<extLst><ext uri="{05C60535-1F16-4fd2-B633-F4F36F0B64E0}" xmlns:x14="${NS_X14}">`
+            + `<x14:sparklineGroups xmlns:xm="${NS_XM}">`
+            + '<x14:sparklineGroup markers="1" high="1" displayEmptyCellsAs="gap" minAxisType="custom" manualMin="-2" '
+            + 'maxAxisType="group" lineWeight="1.5">'
+            + '<x14:colorSeries rgb="FF376092"/><x14:colorHigh theme="5"/>'
+            + '<x14:sparklines><x14:sparkline><xm:f>Sheet1!A1:D1</xm:f><xm:sqref>E1</xm:sqref></x14:sparkline>'
+            + '<x14:sparkline><xm:f>Sheet1!A2:D2</xm:f><xm:sqref>E2</xm:sqref></x14:sparkline></x14:sparklines>'
+            + '</x14:sparklineGroup>'
+            + '<x14:sparklineGroup type="column" dateAxis="1"><xm:f>Sheet1!A10:D10</xm:f>'
+            + '<x14:sparklines><x14:sparkline><xm:f>Data!A1:D1</xm:f><xm:sqref>E3</xm:sqref></x14:sparkline></x14:sparklines>'
+            + '</x14:sparklineGroup>'
+            + '<x14:sparklineGroup type="stacked"><x14:sparklines/></x14:sparklineGroup>'
+            + '</x14:sparklineGroups></ext></extLst>',
+        }],
+      });
+      const [line, column, ...rest] = (await new ExcelParser().parse(data)).sheets[0].sparklineGroups;
+
+      // 没有迷你图的组不保留
+      expect(rest).toEqual([]);
+      expect(line).toMatchObject({
+        type: 'line',
+        lineWeight: 1.5,
+        markers: true,
+        high: true,
+        low: false,
+        displayEmptyCellsAs: 'gap',
+        minAxisType: 'custom',
+        manualMin: -2,
+        maxAxisType: 'group',
+        colorSeries: { rgb: 'FF376092' },
+        colorHigh: { theme: 5 },
+        sparklines: [{ ref: 'Sheet1!A1:D1', location: 'E1' }, { ref: 'Sheet1!A2:D2', location: 'E2' }],
+      });
+      expect(line.manualMax).toBeUndefined();
+      expect(column).toMatchObject({
+        type: 'column',
+        displayEmptyCellsAs: 'zero',
+        dateRange: 'Sheet1!A10:D10',
+        sparklines: [{ ref: 'Data!A1:D1', location: 'E3' }],
+      });
+    });
+  });
+
+
+  describe('数据验证', () => {
+    const createValidationXlsx = (): Promise<Uint8Array> => createXlsx({
+      sheets: [
+        {
+          name: 'Sheet1',
+          body: '<sheetData/><dataValidations count="1">'
+            + '<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="A1:A5 C1">'
+            + '<formula1>"是,否"</formula1></dataValidation></dataValidations>'
+            + `<extLst><ext uri="{CCE6A557-97BC-4b89-ADB6-D9C93CAAB3DF}" xmlns:x14="${NS_X14}">`
+            + `<x14:dataValidations count="1" xmlns:xm="${NS_XM}">`
+            + '<x14:dataValidation type="list" allowBlank="1" showInputMessage="1" promptTitle="部门">'
+            + '<x14:formula1><xm:f>Lists!$A$1:$A$3</xm:f></x14:formula1><xm:sqref>B1:B10 D2</xm:sqref>'
+            + '</x14:dataValidation></x14:dataValidations></ext></extLst>',
+        },
+        {
+          name: 'Lists',
+          body: '<sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>销售</t></is></c></row>'
+            + '<row r="3"><c r="A3" t="inlineStr"><is><t>研发</t></is></c></row></sheetData>',
+        },
+      ],
+    });
+
+    it('解析 x14 扩展中的数据验证并把列表来源解析为选项', async () => {
+      const [list, external] = (await new ExcelParser().parse(await createValidationXlsx())).sheets[0].dataValidations;
+
+      expect(list).toMatchObject({ type: 'list', ranges: ['A1:A5', 'C1'], formula1: '"是,否"', listValues: ['是', '否'] });
+      expect(external).toMatchObject({
+        type: 'list',
+        ranges: ['B1:B10', 'D2'],
+        formula1: 'Lists!$A$1:$A$3',
+        promptTitle: '部门',
+        showInputMessage: true,
+        listValues: ['销售', '研发'],
+      });
+    });
+
+    it('延迟解析时来源工作表解析后补全选项', async () => {
+      const parser = new ExcelParser({ lazySheets: true });
+      const [sheet, lists] = (await parser.parse(await createValidationXlsx())).sheets;
+
+      await parser.loadSheet(sheet);
+      expect(sheet.dataValidations[1].listValues).toBeUndefined();
+      await parser.loadSheet(lists);
+      expect(sheet.dataValidations[1].listValues).toEqual(['销售', '研发']);
+    });
+  });
+
+
+  describe('恢复模式', () => {
+    const createBrokenXlsx = (): Promise<Uint8Array> => createXlsx({
+      sheets: [
+        {
+          name: 'Good',
+          body: '<sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData>',
+          rels: [['rId1', 'comments', '../comments1.xml']],
+        },
+        { name: 'Broken', body: '<sheetData><row r="1"><c r="A1"><v>1</v></row></sheetData>' },
+      ],
+      workbookRels: [['rIdStrings', 'sharedStrings', 'sharedStrings.xml']],
+      parts: { 'xl/sharedStrings.xml': `<sst xmlns="${NS_MAIN}"><si><t>x</sst>` },
+    });
+
+    it('默认在部件损坏时解析失败', async () => {
+      await expect(new ExcelParser().parse(await createBrokenXlsx())).rejects.toThrow();
+    });
+
+    it('跳过损坏和缺失的部件继续解析，并记录诊断信息', async () => {
+      const workbook = await new ExcelParser({ recover: true }).parse(await createBrokenXlsx());
+
+      expect(workbook.sheets.map(sheet => [sheet.name, sheet.cells.size])).toEqual([['Good', 1], ['Broken', 0]]);
+      expect(workbook.diagnostics).toEqual([
+        {
+          part: 'xl/sharedStrings.xml',
+          severity: 'error',
+          message: expect.any(String) as string,
+          skipped: '共享字符串 (引用共享字符串的单元格为空)',
+        },
+        { part: 'xl/comments1.xml', severity: 'warning', message: '找不到关系指向的部件', skipped: '批注' },
+        {
+          part: 'xl/worksheets/sheet2.xml',
+          severity: 'error',
+          message: expect.any(String) as string,
+          skipped: '工作表 Broken 的内容',
+        },
+      ]);
+    });
+
+    it('文件包正常时诊断信息为空', async () => {
+      const data = await createXlsx({ sheets: [{ name: 'Sheet1', body: '<sheetData/>' }] });
+      expect((await new ExcelParser({ recover: true }).parse(data)).diagnostics).toEqual([]);
+    });
+
+    it('文件包无法读取时记录致命诊断信息并抛出 ParseError', async () => {
+      const parser = new ExcelParser({ recover: true });
+      const error: unknown = await parser.parse(new Uint8Array([1, 2, 3])).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ParseError);
+      expect(error).toMatchObject({ name: 'ParseError', part: '(文件包)' });
+      expect((error as ParseError).diagnostics).toEqual([
+        { part: '(文件包)', severity: 'fatal', message: (error as ParseError).message },
+      ]);
+      expect((error as ParseError).message).toContain('无法读取 ZIP 文件包');
+    });
+
+    it('文件包诊断信息使用文件名，文件名为空时使用通用名称', async () => {
+      const data = new Uint8Array([1, 2, 3]);
+
+      await expect(new ExcelParser({ fileName: 'broken.xlsx' }).parse(data)).rejects.toMatchObject({ part: 'broken.xlsx' });
+      await expect(new ExcelParser({ fileName: '' }).parse(data)).rejects.toMatchObject({ part: '(文件包)' });
+    });
+
+    it('缺少工作簿部件时在 ParseError 中说明部件路径', async () => {
+      const zip = new JSZip();
+      zip.file('[Content_Types].xml', '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>');
+      const data = await zip.generateAsync({ type: 'uint8array' });
+
+      await expect(new ExcelParser({ recover: true }).parse(data)).rejects.toMatchObject({
+        name: 'ParseError',
+        part: 'xl/workbook.xml',
+        diagnostics: [{ part: 'xl/workbook.xml', severity: 'fatal', message: '无效的 Excel 文件：找不到 workbook.xml' }],
+      });
+    });
+  });
+
+  describe('工作表类型', () => {
+    it('图表工作表读取绘图中的图表，对话框工作表只保留标签', async () => {
+      const data = await createXlsx({
+        sheets: [
+          { name: 'Data', body: '<sheetData/>' },
+          {
+            name: 'Chart1',
+            type: 'chartsheet',
+            body: '<sheetViews><sheetView zoomScale="80" workbookViewId="0"/></sheetViews><drawing r:id="rId1"/>',
+            rels: [['rId1', 'drawing', '../drawings/drawing1.xml']],
+          },
+          { name: 'Dialog1', type: 'dialogsheet', body: '<sheetData/>' },
+        ],
+        parts: {
+          'xl/drawings/drawing1.xml': `<xdr:wsDr xmlns:xdr="${NS_XDR}" xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:c="${NS_C}">`
+            + '<xdr:absoluteAnchor><xdr:pos x="0" y="0"/><xdr:ext cx="8666163" cy="6293304"/>'
+            + '<xdr:graphicFrame><xdr:nvGraphicFramePr><xdr:cNvPr id="2" name="Chart 1"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>'
+            + `<xdr:xfrm/><a:graphic><a:graphicData uri="${NS_C}"><c:chart r:id="rId1"/></a:graphicData></a:graphic>`
+            + '</xdr:graphicFrame><xdr:clientData/></xdr:absoluteAnchor></xdr:wsDr>',
+          'xl/drawings/_rels/drawing1.xml.rels': rels([['rId1', 'chart', '../charts/chart1.xml']]),
+          'xl/charts/chart1.xml': `<c:chartSpace xmlns:c="${NS_C}"><c:chart><c:plotArea>`
+            + '<c:pieChart><c:ser><c:idx val="0"/><c:val><c:numRef><c:f>Data!$A$1:$A$3</c:f></c:numRef></c:val></c:ser>'
+            + '</c:pieChart></c:plotArea></c:chart></c:chartSpace>',
+        },
+      });
+      const [worksheet, chartsheet, dialog] = (await new ExcelParser().parse(data)).sheets;
+
+      expect([worksheet, chartsheet, dialog].map(sheet => [sheet.name, sheet.type])).toEqual([
+        ['Data', 'worksheet'],
+        ['Chart1', 'chartsheet'],
+        ['Dialog1', 'dialogsheet'],
+      ]);
+      expect(chartsheet.views[0]?.zoomScale).toBe(80);
+      expect(chartsheet.charts).toHaveLength(1);
+      expect(chartsheet.charts[0]).toMatchObject({ type: 'pie', series: [{ values: 'Data!$A$1:$A$3' }] });
+      expect(dialog.cells.size).toBe(0);
+    });
+  });
+
+
+  describe('文档属性和外部链接', () => {
+    it('解析核心属性、自定义属性和外部链接', async () => {
+      const data = await createXlsx({
+        sheets: [{ name: 'Sheet1', body: '<sheetData/>' }],
+        workbook: '<externalReferences><externalReference r:id="rIdLink1"/><externalReference r:id="rIdLink2"/>'
+          + '</externalReferences>',
+        workbookRels: [
+          ['rIdLink1', 'externalLink', 'externalLinks/externalLink1.xml'],
+          ['rIdLink2', 'externalLink', 'externalLinks/externalLink2.xml'],
+        ],
+        parts: {
+          'docProps/core.xml': '<cp:coreProperties '
+            + 'xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" '
+            + 'xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>季度报表</dc:title>'
+            + '<cp:category>财务</cp:category><cp:contentStatus>草稿</cp:contentStatus></cp:coreProperties>',
+          'docProps/custom.xml': '<Properties '
+            + 'xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" '
+            + `xmlns:vt="${NS_VT}">`
+            + '<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="2" name="项目"><vt:lpwstr>Alpha</vt:lpwstr></property>'
+            + '<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="3" name="版本"><vt:i4>3</vt:i4></property>'
+            + '<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="4" name="已审核"><vt:bool>true</vt:bool></property>'
+            + '<property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="5" name="截止">'
+            + '<vt:filetime>2024-01-15T08:30:00Z</vt:filetime></property>'
+            + '</Properties>',
+          'xl/externalLinks/externalLink1.xml': `<externalLink xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`
+            + '<externalBook r:id="rId1"><sheetNames><sheetName val="Budget"/><sheetName val="Actual"/></sheetNames>'
+            + '</externalBook></externalLink>',
+          'xl/externalLinks/_rels/externalLink1.xml.rels': rels([
+            ['rId1', 'externalLinkPath', 'file:///C:/Reports/Budget.xlsx', 'External'],
+          ]),
+          'xl/externalLinks/externalLink2.xml': `<externalLink xmlns="${NS_MAIN}">`
+            + '<ddeLink ddeService="Excel" ddeTopic="Prices"/></externalLink>',
+        },
+      });
+      const workbook = await new ExcelParser().parse(data);
+
+      expect(workbook.properties).toMatchObject({ title: '季度报表', category: '财务', contentStatus: '草稿' });
+      expect(workbook.properties.custom).toEqual([
+        { name: '项目', type: 'string', value: 'Alpha' },
+        { name: '版本', type: 'number', value: 3 },
+        { name: '已审核', type: 'boolean', value: true },
+        { name: '截止', type: 'date', value: new Date('2024-01-15T08:30:00Z') },
+      ]);
+      expect(workbook.externalLinks).toEqual([
+        { index: 1, target: 'file:///C:/Reports/Budget.xlsx', sheetNames: ['Budget', 'Actual'] },
+        { index: 2, target: 'Excel|Prices', sheetNames: [] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { ExcelParser } from '../src/parser';
+import { ExcelWriter } from '../src/writer';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_RELS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const NS_XDR = 'http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing';
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_C = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+
+// 1x1 像素的 PNG 图片
+const PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const rels = (items: Array<[string, string, string]>): string => {
+  const relationships = items.map(([id, type, target]) => `<Relationship Id="${id}" Type="${NS_R}/${type}" Target="${target}"/>`);
+  return `<Relationships xmlns="${NS_RELS}">${relationships.join('')}</Relationships>`;
+};
+
+const anchor = (col: number, row: number, toCol: number, toRow: number): string => (
+  `<xdr:from><xdr:col>${col}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${row}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>`
+  + `<xdr:to><xdr:col>${toCol}</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>${toRow}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>`
+);
+
+/**
+ * 创建包含图片、图表、批注、表格、迷你图和打印设置的 xlsx 文件
+ * @description 工作表名称 "Data[1]" 包含非法字符，写入时重命名，图表和迷你图中的引用随之改写
+ */
+async function createWorkbookPackage(): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Default Extension="png" ContentType="image/png"/>'
+    + '<Default Extension="vml" ContentType="application/vnd.openxmlformats-officedocument.vmlDrawing"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '<Override PartName="/xl/chartsheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.chartsheet+xml"/>'
+    + '<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>'
+    + '<Override PartName="/xl/drawings/drawing2.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>'
+    + '<Override PartName="/xl/charts/chart1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>'
+    + '<Override PartName="/xl/comments1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml"/>'
+    + '<Override PartName="/xl/tables/table1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml"/>'
+    + '</Types>');
+  zip.file('_rels/.rels', rels([['rId1', 'officeDocument', 'xl/workbook.xml']]));
+  zip.file('xl/workbook.xml', `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_R}"><sheets>`
+    + '<sheet name="Data[1]" sheetId="1" r:id="rId1"/><sheet name="Chart1" sheetId="2" r:id="rId2"/>'
+    + '</sheets></workbook>');
+  zip.file('xl/_rels/workbook.xml.rels', rels([
+    ['rId1', 'worksheet', 'worksheets/sheet1.xml'],
+    ['rId2', 'chartsheet', 'chartsheets/sheet1.xml'],
+  ]));
+
+  let rows = '<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c><c r="B1" t="inlineStr"><is><t>Qty</t></is></c></row>';
+  for (let r = 2; r <= 4; r++) {
+    rows += `<row r="${r}"><c r="A${r}" t="inlineStr"><is><t>n${r}</t></is></c><c r="B${r}"><v>${r * 2}</v></c></row>`;
+  }
+  zip.file('xl/worksheets/sheet1.xml', `<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`
+    + `<sheetData>${rows}</sheetData>`
+    + '<printOptions gridLines="1"/>'
+    + '<pageMargins left="0.5" right="0.5" top="1" bottom="1" header="0.4" footer="0.4"/>'
+    + '<pageSetup paperSize="9" orientation="landscape" firstPageNumber="3" useFirstPageNumber="1"/>'
+    + '<headerFooter differentFirst="1"><oddHeader>&amp;C&amp;A</oddHeader><oddFooter>&amp;P / &amp;N</oddFooter>'
+    + '<firstFooter>first</firstFooter></headerFooter>'
+    + '<rowBreaks count="1" manualBreakCount="1"><brk id="3" max="16383" man="1"/></rowBreaks>'
+    + '<drawing r:id="rId1"/><legacyDrawing r:id="rId3"/><tableParts count="1"><tablePart r:id="rId4"/></tableParts>'
+    + '<extLst><ext uri="{05C60535-1F16-4fd2-B633-F4F36F0B64E0}" xmlns:x14="http://schemas.microsoft.com/office/spreadsheetml/2009/9/main">'
+    + '<x14:sparklineGroups xmlns:xm="http://schemas.microsoft.com/office/excel/2006/main">'
+    + '<x14:sparklineGroup type="column" markers="1" lineWeight="1.5" displayEmptyCellsAs="gap"><x14:colorSeries rgb="FF376092"/>'
+    + '<x14:sparklines><x14:sparkline><xm:f>\'Data[1]\'!B2:B4</xm:f><xm:sqref>C1</xm:sqref></x14:sparkline></x14:sparklines>'
+    + '</x14:sparklineGroup></x14:sparklineGroups></ext></extLst>'
+    + '</worksheet>');
+  zip.file('xl/worksheets/_rels/sheet1.xml.rels', rels([
+    ['rId1', 'drawing', '../drawings/drawing1.xml'],
+    ['rId2', 'comments', '../comments1.xml'],
+    ['rId3', 'vmlDrawing', '../drawings/vmlDrawing1.vml'],
+    ['rId4', 'table', '../tables/table1.xml'],
+  ]));
+
+  zip.file('xl/drawings/drawing1.xml', `<xdr:wsDr xmlns:xdr="${NS_XDR}" xmlns:a="${NS_A}" xmlns:r="${NS_R}">`
+    + `<xdr:twoCellAnchor>${anchor(3, 1, 6, 8)}<xdr:pic><xdr:nvPicPr><xdr:cNvPr id="2" name="Picture 1"/><xdr:cNvPicPr/></xdr:nvPicPr>`
+    + '<xdr:blipFill><a:blip r:embed="rId1"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>'
+    + '<xdr:spPr><a:prstGeom prst="rect"/></xdr:spPr></xdr:pic><xdr:clientData/></xdr:twoCellAnchor>'
+    + '</xdr:wsDr>');
+  zip.file('xl/drawings/_rels/drawing1.xml.rels', rels([['rId1', 'image', '../media/image1.png']]));
+  zip.file('xl/media/image1.png', PNG, { base64: true });
+
+  zip.file('xl/chartsheets/sheet1.xml', `<chartsheet xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`
+    + '<sheetViews><sheetView workbookViewId="0"/></sheetViews><drawing r:id="rId1"/></chartsheet>');
+  zip.file('xl/chartsheets/_rels/sheet1.xml.rels', rels([['rId1', 'drawing', '../drawings/drawing2.xml']]));
+  zip.file('xl/drawings/drawing2.xml', `<xdr:wsDr xmlns:xdr="${NS_XDR}" xmlns:a="${NS_A}" xmlns:r="${NS_R}">`
+    + '<xdr:absoluteAnchor><xdr:pos x="0" y="0"/><xdr:ext cx="8666000" cy="6293000"/><xdr:graphicFrame macro="">'
+    + '<xdr:nvGraphicFramePr><xdr:cNvPr id="2" name="Chart 1"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr>'
+    + '<xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>'
+    + `<a:graphic><a:graphicData uri="${NS_C}"><c:chart xmlns:c="${NS_C}" r:id="rId1"/></a:graphicData></a:graphic>`
+    + '</xdr:graphicFrame><xdr:clientData/></xdr:absoluteAnchor></xdr:wsDr>');
+  zip.file('xl/drawings/_rels/drawing2.xml.rels', rels([['rId1', 'chart', '../charts/chart1.xml']]));
+  zip.file('xl/charts/chart1.xml', `<c:chartSpace xmlns:c="${NS_C}" xmlns:a="${NS_A}"><c:chart><c:plotArea><c:barChart>`
+    + '<c:barDir val="col"/><c:grouping val="clustered"/><c:ser><c:idx val="0"/><c:order val="0"/>'
+    + '<c:val><c:numRef><c:f>\'Data[1]\'!$B$2:$B$4</c:f></c:numRef></c:val></c:ser>'
+    + '<c:axId val="1"/><c:axId val="2"/></c:barChart></c:plotArea></c:chart></c:chartSpace>');
+
+  zip.file('xl/comments1.xml', `<comments xmlns="${NS_MAIN}"><authors><author>Ann</author></authors><commentList>`
+    + '<comment ref="A1" authorId="0"><text><r><rPr><b/><sz val="9"/></rPr><t>Ann:</t></r>'
+    + '<r><t xml:space="preserve"> header note</t></r></text></comment>'
+    + '</commentList></comments>');
+  zip.file('xl/drawings/vmlDrawing1.vml', '<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:x="urn:schemas-microsoft-com:office:excel">'
+    + '<v:shape id="_x0000_s1025"><x:ClientData ObjectType="Note"><x:Anchor>1, 15, 0, 2, 3, 15, 4, 4</x:Anchor>'
+    + '<x:Row>0</x:Row><x:Column>0</x:Column><x:Visible/></x:ClientData></v:shape></xml>');
+  zip.file('xl/tables/table1.xml', `<table xmlns="${NS_MAIN}" id="3" name="Sales" displayName="Sales" ref="A1:B4">`
+    + '<autoFilter ref="A1:B4"/><tableColumns count="2"><tableColumn id="1" name="Name"/><tableColumn id="2" name="Qty"/></tableColumns>'
+    + '<tableStyleInfo name="TableStyleMedium2" showFirstColumn="0" showLastColumn="0" showRowStripes="1" showColumnStripes="0"/>'
+    + '</table>');
+
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+describe('ExcelWriter', () => {
+  it('解析、写入再解析后保留图片、图表、批注、表格、迷你图和打印设置', async () => {
+    const parser = new ExcelParser();
+    const workbook = await parser.parse(await createWorkbookPackage());
+    const output = await new ExcelWriter({ source: parser.getPackageData() ?? undefined }).write(workbook);
+    const result = await new ExcelParser().parse(output);
+
+    expect(result.sheets.map(sheet => [sheet.name, sheet.type])).toEqual([
+      ['Data_1_', 'worksheet'],
+      ['Chart1', 'chartsheet'],
+    ]);
+    const [sheet, chartsheet] = result.sheets;
+    const original = workbook.sheets[0];
+
+    expect(sheet.cells.get('B4')?.value).toBe(8);
+    expect(sheet.printOptions).toEqual(original.printOptions);
+    // 表格 ID 在写入时重新编号
+    expect(sheet.tables).toEqual(original.tables.map(table => ({ ...table, id: 1 })));
+    expect(sheet.comments).toEqual(original.comments);
+    expect(sheet.images).toEqual(original.images);
+
+    // 引用改名工作表的迷你图和图表系列随之改写
+    expect(sheet.sparklineGroups).toEqual([{ ...original.sparklineGroups[0], sparklines: [{ ref: 'Data_1_!B2:B4', location: 'C1' }] }]);
+    expect(chartsheet.charts).toHaveLength(1);
+    expect(chartsheet.charts[0].series[0].values).toBe('Data_1_!$B$2:$B$4');
+  });
+
+  it('没有原文件包时不写入图表工作表和绘图', async () => {
+    const workbook = await new ExcelParser().parse(await createWorkbookPackage());
+    const result = await new ExcelParser().parse(await new ExcelWriter().write(workbook));
+
+    expect(result.sheets.map(sheet => sheet.name)).toEqual(['Data_1_']);
+    expect(result.sheets[0].images).toEqual([]);
+    expect(result.sheets[0].comments.size).toBe(1);
+  });
+
+  it('单元格文本中的控制字符编码为 _xHHHH_', async () => {
+    const workbook = await new ExcelParser().parse(await createWorkbookPackage());
+    const cells = workbook.sheets[0].cells;
+    const text = 'a\u0001b\u001Fc_x0041_';
+    cells.set('D1', { address: 'D1', row: 0, col: 3, value: text, type: 'string', text });
+    // 公式的字符串结果写在 v 元素中
+    cells.set('D2', { address: 'D2', row: 1, col: 3, value: 'x\u0007', type: 'string', text: 'x', formula: { text: 'CHAR(7)' } });
+
+    const zip = await JSZip.loadAsync(await new ExcelWriter().write(workbook));
+    const sharedStrings = await zip.file('xl/sharedStrings.xml')?.async('string');
+    const sheetXml = await zip.file('xl/worksheets/sheet1.xml')?.async('string');
+
+    expect(sharedStrings).toContain('<t>a_x0001_b_x001F_c_x005F_x0041_</t>');
+    expect(sheetXml).toContain('<c r="D2" t="str"><f>CHAR(7)</f><v>x_x0007_</v></c>');
+  });
+});
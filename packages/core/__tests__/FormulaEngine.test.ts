@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { FormulaEngine, type FormulaContext } from '../src/core/formula';
+
+/**
+ * 创建不引用单元格的计算上下文
+ */
+function createContext(date1904?: boolean): FormulaContext {
+  return {
+    getCellValue: () => '',
+    getRangeValues: () => [],
+    date1904,
+  };
+}
+
+describe('FormulaEngine', () => {
+  const engine = new FormulaEngine();
+
+  it('日期函数未指定日期系统时按 1900 日期系统换算', () => {
+    expect(engine.evaluate('=DATE(2024,1,15)', createContext()).value).toBe(45306);
+    expect(engine.evaluate('=YEAR(45306)', createContext()).value).toBe(2024);
+  });
+
+  it('日期函数按 1904 日期系统换算序列号', () => {
+    expect(engine.evaluate('=DATE(2024,1,15)', createContext(true)).value).toBe(43844);
+    expect(engine.evaluate('=DAY(43844)', createContext(true)).value).toBe(15);
+  });
+});
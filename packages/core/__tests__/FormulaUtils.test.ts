@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { FormulaUtils } from '../src/utils';
+import type { Cell, Sheet } from '../src/types';
+
+/**
+ * 构建只包含单元格的工作表
+ */
+function createSheet(cells: Cell[]): Sheet {
+  return { cells: new Map(cells.map(cell => [cell.address, cell])) } as unknown as Sheet;
+}
+
+describe('FormulaUtils', () => {
+  describe('shift', () => {
+    it('平移相对引用，绝对部分保持不变', () => {
+      expect(FormulaUtils.shift('A1+B2*2', 1, 2)).toBe('C2+D3*2');
+      expect(FormulaUtils.shift('$A1+A$1+$A$1', 2, 3)).toBe('$A3+D$1+$A$1');
+      expect(FormulaUtils.shift('SUM(A1:B3)', 3, 0)).toBe('SUM(A4:B6)');
+      expect(FormulaUtils.shift('A1', 0, 0)).toBe('A1');
+    });
+
+    it('平移整列和整行范围', () => {
+      expect(FormulaUtils.shift('SUM(A:C)', 5, 1)).toBe('SUM(B:D)');
+      expect(FormulaUtils.shift('SUM(1:3)+SUM($1:$2)', 2, 4)).toBe('SUM(3:5)+SUM($1:$2)');
+    });
+
+    it('字符串、带引号的工作表名和方括号中的内容不平移', () => {
+      expect(FormulaUtils.shift('"A1"&A1', 1, 0)).toBe('"A1"&A2');
+      expect(FormulaUtils.shift('"say ""B2"""&B2', 1, 0)).toBe('"say ""B2"""&B3');
+      expect(FormulaUtils.shift('\'Q1 A1\'!A1', 1, 1)).toBe('\'Q1 A1\'!B2');
+      expect(FormulaUtils.shift('Table1[[#This Row],[A1]]*A1', 1, 0)).toBe('Table1[[#This Row],[A1]]*A2');
+    });
+
+    it('函数名和工作表名中的类似引用的部分不平移', () => {
+      expect(FormulaUtils.shift('LOG10(A1)', 1, 0)).toBe('LOG10(A2)');
+      expect(FormulaUtils.shift('Sheet1!A1', 1, 0)).toBe('Sheet1!A2');
+      expect(FormulaUtils.shift('RATE2023*A1', 0, 1)).toBe('RATE2023*B1');
+    });
+
+    it('超出工作表范围的引用替换为 #REF!', () => {
+      expect(FormulaUtils.shift('A1+B2', -1, 0)).toBe('#REF!+B1');
+      expect(FormulaUtils.shift('XFD1', 0, 1)).toBe('#REF!');
+    });
+  });
+
+  describe('renameSheets', () => {
+    const renames = new Map([['sheet1', 'Sheet1 (2)'], ['data', 'Data_2']]);
+
+    it('重命名带引号和不带引号的工作表引用，新名称需要时加引号', () => {
+      expect(FormulaUtils.renameSheets('SUM(Sheet1!A1:B2)+data!C3', renames)).toBe('SUM(\'Sheet1 (2)\'!A1:B2)+Data_2!C3');
+      expect(FormulaUtils.renameSheets('\'Data\'!A1', renames)).toBe('Data_2!A1');
+      expect(FormulaUtils.renameSheets('SUM(Sheet1:Data!A1)', renames)).toBe('SUM(\'Sheet1 (2):Data_2\'!A1)');
+      expect(FormulaUtils.renameSheets('Other!A1', renames)).toBe('Other!A1');
+    });
+
+    it('字符串、外部工作簿引用和名称中的部分不重命名', () => {
+      expect(FormulaUtils.renameSheets('"Sheet1!A1"&Sheet1!A1', renames)).toBe('"Sheet1!A1"&\'Sheet1 (2)\'!A1');
+      expect(FormulaUtils.renameSheets('[1]Sheet1!A1+\'[2]Data\'!A1', renames)).toBe('[1]Sheet1!A1+\'[2]Data\'!A1');
+      expect(FormulaUtils.renameSheets('MySheet1!A1', renames)).toBe('MySheet1!A1');
+    });
+
+    it('名称不是普通标识符或与单元格引用混淆时加引号', () => {
+      expect(FormulaUtils.formatSheetReference(['数据'])).toBe('数据');
+      expect(FormulaUtils.formatSheetReference(['Q1 Data'])).toBe('\'Q1 Data\'');
+      expect(FormulaUtils.formatSheetReference(['A1'])).toBe('\'A1\'');
+      expect(FormulaUtils.formatSheetReference(['R1C1'])).toBe('\'R1C1\'');
+      expect(FormulaUtils.formatSheetReference(['TRUE'])).toBe('\'TRUE\'');
+      expect(FormulaUtils.formatSheetReference(['Bob\'s'])).toBe('\'Bob\'\'s\'');
+      expect(FormulaUtils.formatSheetReference(['Jan', 'Mar'])).toBe('Jan:Mar');
+    });
+  });
+
+  it('普通数组公式显示为 {=…}，动态数组公式不加花括号', () => {
+    expect(FormulaUtils.toDisplayText({ text: 'A1*2' })).toBe('=A1*2');
+    expect(FormulaUtils.toDisplayText({ text: 'A1:A3*2', type: 'array', range: 'B1:B3' })).toBe('{=A1:A3*2}');
+    expect(FormulaUtils.toDisplayText({ text: 'SORT(A1:A3)', type: 'array', range: 'B1:B3', dynamic: true }))
+      .toBe('=SORT(A1:A3)');
+  });
+
+  describe('数组公式区域', () => {
+    const anchor: Cell = {
+      address: 'B1', row: 0, col: 1, value: 1, type: 'number', text: '1',
+      formula: { text: 'SORT(A1:A3)', type: 'array', range: 'B1:B3', dynamic: true },
+      arrayRange: 'B1:B3',
+    };
+    const spilled: Cell = { address: 'B2', row: 1, col: 1, value: 2, type: 'number', text: '2', arrayRange: 'B1:B3' };
+    const plain: Cell = { address: 'C1', row: 0, col: 2, value: 3, type: 'number', text: '3', formula: { text: 'A1+1' } };
+    const sheet = createSheet([anchor, spilled, plain]);
+
+    it('区域内的单元格显示左上角单元格的公式', () => {
+      expect(FormulaUtils.getDisplayFormula(sheet, spilled)).toBe('=SORT(A1:A3)');
+      expect(FormulaUtils.getDisplayFormula(sheet, plain)).toBe('=A1+1');
+      expect(FormulaUtils.getDisplayFormula(sheet, { address: 'D1', row: 0, col: 3, value: 1, type: 'number', text: '1' }))
+        .toBeNull();
+    });
+
+    it('只返回动态数组的溢出区域', () => {
+      const range = { start: { row: 0, col: 1 }, end: { row: 2, col: 1 } };
+      expect(FormulaUtils.getSpillRange(sheet, 1, 1)).toEqual(range);
+      expect(FormulaUtils.getSpillRange(sheet, 0, 1)).toEqual(range);
+      expect(FormulaUtils.getSpillRange(sheet, 0, 2)).toBeNull();
+      expect(FormulaUtils.getSpillRange(sheet, 5, 5)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { HyperlinkUtils } from '../src/utils';
+
+describe('HyperlinkUtils', () => {
+  it('按目标地址识别链接类型', () => {
+    expect(HyperlinkUtils.classify('https://example.com/a?b=1')).toBe('url');
+    expect(HyperlinkUtils.classify('www.example.com')).toBe('url');
+    expect(HyperlinkUtils.classify('ftp://files.example.com')).toBe('url');
+    expect(HyperlinkUtils.classify('MAILTO:someone@example.com')).toBe('email');
+    expect(HyperlinkUtils.classify('#Sheet2!A1')).toBe('internal');
+    expect(HyperlinkUtils.classify('file:///C:/docs/report.xlsx')).toBe('file');
+    expect(HyperlinkUtils.classify('\\\\server\\share\\report.xlsx')).toBe('file');
+    expect(HyperlinkUtils.classify('docs/report.xlsx')).toBe('file');
+    expect(HyperlinkUtils.classify('C:\\docs\\report.xlsx')).toBe('file');
+  });
+
+  it('不在允许列表中的协议识别为 unsafe', () => {
+    expect(HyperlinkUtils.classify('javascript:alert(1)')).toBe('unsafe');
+    expect(HyperlinkUtils.classify(' JavaScript:alert(1)')).toBe('unsafe');
+    expect(HyperlinkUtils.classify('java\tscript:alert(1)')).toBe('unsafe');
+    expect(HyperlinkUtils.classify('vbscript:msgbox(1)')).toBe('unsafe');
+    expect(HyperlinkUtils.classify('data:text/html,<script>alert(1)</script>')).toBe('unsafe');
+    expect(HyperlinkUtils.classify('telnet://example.com')).toBe('unsafe');
+  });
+
+  it('解析内部位置中的工作表、单元格区域和定义名称', () => {
+    expect(HyperlinkUtils.parseLocation('Sheet1!A1')).toEqual({ sheetName: 'Sheet1', ref: 'A1' });
+    expect(HyperlinkUtils.parseLocation('#\'It\'\'s here\'!$b$2:$C$3')).toEqual({ sheetName: 'It\'s here', ref: 'B2:C3' });
+    expect(HyperlinkUtils.parseLocation('D4')).toEqual({ sheetName: undefined, ref: 'D4' });
+    expect(HyperlinkUtils.parseLocation('SalesTotal')).toEqual({ sheetName: undefined, name: 'SalesTotal' });
+  });
+
+  it('外部链接的 location 作为锚点拼接到地址后', () => {
+    expect(HyperlinkUtils.toUrl({ target: 'www.example.com', type: 'url' })).toBe('http://www.example.com');
+    expect(HyperlinkUtils.toUrl({ target: 'https://example.com/doc', type: 'url', location: 'part2' }))
+      .toBe('https://example.com/doc#part2');
+    expect(HyperlinkUtils.toUrl({ target: 'Sheet2!A1', type: 'internal', location: 'Sheet2!A1' })).toBe('Sheet2!A1');
+  });
+
+  it('不安全的链接不生成地址', () => {
+    expect(HyperlinkUtils.toUrl({ target: 'javascript:alert(1)', type: 'unsafe' })).toBe('');
+    expect(HyperlinkUtils.toUrl({ target: 'data:text/html,<b>x</b>', type: 'unsafe', location: 'a' })).toBe('');
+    // type 与 target 不一致时按地址判断
+    expect(HyperlinkUtils.toUrl({ target: 'javascript:alert(1)', type: 'url' })).toBe('');
+    expect(HyperlinkUtils.toUrl({ target: 'data:text/html,<b>x</b>', type: 'file' })).toBe('');
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { ImageUtils } from '../src/utils';
+
+describe('ImageUtils', () => {
+  it('按图片类型生成 Data URL', () => {
+    expect(ImageUtils.toDataUrl('png', 'AAAA')).toBe('data:image/png;base64,AAAA');
+    expect(ImageUtils.toDataUrl('jpeg', 'AAAA')).toBe('data:image/jpeg;base64,AAAA');
+    expect(ImageUtils.getMimeType('emf')).toBe('image/x-emf');
+  });
+
+  it('EMF、WMF 和 TIFF 不能由浏览器直接显示', () => {
+    expect(ImageUtils.isBrowserRenderable('png')).toBe(true);
+    expect(ImageUtils.isBrowserRenderable('gif')).toBe(true);
+    expect(ImageUtils.isBrowserRenderable('emf')).toBe(false);
+    expect(ImageUtils.isBrowserRenderable('wmf')).toBe(false);
+    expect(ImageUtils.isBrowserRenderable('tiff')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { ExcelParser } from '../src/parser';
+import type { Workbook } from '../src/types';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:of="urn:oasis:names:tc:opendocument:xmlns:of:1.2"',
+].join(' ');
+
+/**
+ * 构建只包含 mimetype 和 content.xml 的 ods 文件
+ */
+const createOds = async (table: string): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.spreadsheet', { compression: 'STORE' });
+  zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES} office:version="1.2">
+  <office:body><office:spreadsheet>${table}</office:spreadsheet></office:body>
+</office:document-content>`);
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+const parse = async (table: string): Promise<Workbook> => new ExcelParser().parse(await createOds(table));
+
+describe('OdsParser', () => {
+  it('展开重复的行列', async () => {
+    const workbook = await parse(`
+      <table:table table:name="重复">
+        <table:table-row table:number-rows-repeated="2">
+          <table:table-cell office:value-type="float" office:value="7" table:number-columns-repeated="3"><text:p>7</text:p></table:table-cell>
+        </table:table-row>
+        <table:table-row>
+          <table:table-cell table:number-columns-repeated="2"/>
+          <table:table-cell office:value-type="string"><text:p>末尾</text:p></table:table-cell>
+        </table:table-row>
+        <table:table-row table:number-rows-repeated="1048573">
+          <table:table-cell table:number-columns-repeated="1024"/>
+        </table:table-row>
+      </table:table>`);
+    const sheet = workbook.sheets[0];
+
+    expect(sheet.name).toBe('重复');
+    expect([...sheet.cells.keys()].sort()).toEqual(['A1', 'A2', 'B1', 'B2', 'C1', 'C2', 'C3']);
+    expect(sheet.cells.get('B2')?.value).toBe(7);
+    expect(sheet.cells.get('C3')?.value).toBe('末尾');
+    expect(sheet.dimension?.ref).toBe('A1:C3');
+  });
+
+  it('按跨行跨列属性合并单元格，覆盖的单元格不覆盖合并区域的值', async () => {
+    const workbook = await parse(`
+      <table:table table:name="合并">
+        <table:table-row>
+          <table:table-cell office:value-type="string" table:number-columns-spanned="2" table:number-rows-spanned="2"><text:p>标题</text:p></table:table-cell>
+          <table:covered-table-cell/>
+          <table:table-cell office:value-type="float" office:value="1"><text:p>1</text:p></table:table-cell>
+        </table:table-row>
+        <table:table-row>
+          <table:covered-table-cell table:number-columns-repeated="2"/>
+          <table:table-cell office:value-type="float" office:value="2"><text:p>2</text:p></table:table-cell>
+        </table:table-row>
+      </table:table>`);
+    const sheet = workbook.sheets[0];
+
+    expect(sheet.mergeCells).toEqual([{ ref: 'A1:B2', startRow: 0, startCol: 0, endRow: 1, endCol: 1 }]);
+    expect(sheet.cells.get('A1')).toMatchObject({ value: '标题', isMergeOrigin: true });
+    expect(sheet.cells.get('C1')?.value).toBe(1);
+    expect(sheet.cells.get('C2')?.value).toBe(2);
+  });
+
+  it('读取隐藏的行和各类单元格值', async () => {
+    const workbook = await parse(`
+      <table:table table:name="类型">
+        <table:table-row>
+          <table:table-cell office:value-type="percentage" office:value="0.25"><text:p>25%</text:p></table:table-cell>
+          <table:table-cell office:value-type="boolean" office:boolean-value="true"><text:p>TRUE</text:p></table:table-cell>
+          <table:table-cell office:value-type="date" office:date-value="2024-01-15"><text:p>2024-01-15</text:p></table:table-cell>
+        </table:table-row>
+        <table:table-row table:visibility="collapse">
+          <table:table-cell table:formula="of:=SUM([.A1:.A1])" office:value-type="float" office:value="0.25"><text:p>0.25</text:p></table:table-cell>
+        </table:table-row>
+      </table:table>`);
+    const sheet = workbook.sheets[0];
+
+    expect(sheet.cells.get('A1')?.value).toBe(0.25);
+    expect(sheet.cells.get('B1')?.value).toBe(true);
+    expect(sheet.cells.get('C1')?.value).toEqual(new Date(2024, 0, 15));
+    expect(sheet.cells.get('A2')).toMatchObject({ value: 0.25, formula: { text: 'SUM(A1:A1)' } });
+    expect(sheet.rows.get(1)?.hidden).toBe(true);
+    expect(sheet.rows.get(0)?.hidden).toBeFalsy();
+  });
+});
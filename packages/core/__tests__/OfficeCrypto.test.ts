@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ExcelParser, OfficeCrypto, PasswordError } from '../src/parser';
+
+// 密码为 secret 的 xlsx：Agile 加密 (SHA512，10 万次迭代) 和 Standard 加密 (AES-128)，Secret 工作表 A1 为 "机密"，B1 为 42
+const agile = new Uint8Array(readFileSync(resolve(__dirname, 'fixtures/encrypted.xlsx')));
+const standard = new Uint8Array(readFileSync(resolve(__dirname, 'fixtures/encrypted-standard.xlsx')));
+
+describe('OfficeCrypto', () => {
+  it('识别加密的 Office 文档', () => {
+    expect(OfficeCrypto.isEncrypted(agile)).toBe(true);
+    expect(OfficeCrypto.isEncrypted(standard)).toBe(true);
+    expect(OfficeCrypto.isEncrypted(readFileSync(resolve(__dirname, 'fixtures/basic.xls')))).toBe(false);
+  });
+
+  it('使用正确的密码解密 Agile 加密的工作簿', async () => {
+    const workbook = await new ExcelParser({ password: 'secret' }).parse(agile);
+    const sheet = workbook.sheets[0];
+
+    expect(sheet.name).toBe('Secret');
+    expect(sheet.cells.get('A1')?.value).toBe('机密');
+    expect(sheet.cells.get('B1')?.value).toBe(42);
+  });
+
+  it('使用正确的密码解密 Standard 加密的工作簿', async () => {
+    const decrypted = await OfficeCrypto.decrypt(standard, 'secret');
+    // 解密结果为 ZIP 包
+    expect(Array.from(decrypted.subarray(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+
+    const workbook = await new ExcelParser().parse(decrypted);
+    expect(workbook.sheets[0].cells.get('A1')?.value).toBe('机密');
+  });
+
+  it('密码错误或未提供密码时抛出 PasswordError', async () => {
+    const wrong = await OfficeCrypto.decrypt(agile, 'wrong').catch((e: unknown) => e);
+    expect(wrong).toBeInstanceOf(PasswordError);
+    expect(wrong).toMatchObject({ reason: 'incorrect', message: '密码错误' });
+
+    const missing = await new ExcelParser().parse(standard).catch((e: unknown) => e);
+    expect(missing).toBeInstanceOf(PasswordError);
+    expect(missing).toMatchObject({ reason: 'required' });
+  });
+});
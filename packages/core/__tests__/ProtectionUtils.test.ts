@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { ProtectionUtils, type ProtectionRangeSource } from '../src/utils';
+import type { Protection } from '../src/types';
+
+describe('ProtectionUtils', () => {
+  it('默认保护设置只允许选择单元格', () => {
+    const protection = ProtectionUtils.createSheetProtection();
+    expect(protection).toMatchObject({
+      sheet: true,
+      formatCells: true,
+      insertRows: true,
+      sort: true,
+      selectLockedCells: false,
+      selectUnlockedCells: false,
+    });
+    expect(ProtectionUtils.isSheetProtected(protection)).toBe(true);
+    expect(ProtectionUtils.isSheetProtected({ sheet: false })).toBe(false);
+    expect(ProtectionUtils.isSheetProtected(undefined)).toBe(false);
+  });
+
+  it('单元格未设置保护时默认锁定，工作表未受保护时不锁定', () => {
+    const protection = { sheet: true };
+    expect(ProtectionUtils.isCellLocked(protection, undefined)).toBe(true);
+    expect(ProtectionUtils.isCellLocked(protection, { locked: false })).toBe(false);
+    expect(ProtectionUtils.isCellLocked(undefined, { locked: true })).toBe(false);
+    expect(ProtectionUtils.isFormulaHidden(protection, { hidden: true })).toBe(true);
+    expect(ProtectionUtils.isFormulaHidden(protection, undefined)).toBe(false);
+  });
+
+  it('工作表受保护时只有明确设置为 false 的操作允许', () => {
+    const protection = { sheet: true, sort: false, insertRows: true };
+    expect(ProtectionUtils.isActionAllowed(protection, 'sort')).toBe(true);
+    expect(ProtectionUtils.isActionAllowed(protection, 'insertRows')).toBe(false);
+    expect(ProtectionUtils.isActionAllowed(protection, 'deleteRows')).toBe(false);
+    expect(ProtectionUtils.isActionAllowed(undefined, 'deleteRows')).toBe(true);
+    expect(ProtectionUtils.getActionMessage('insertRows')).toContain('插入行');
+  });
+
+  describe('isRangeLocked', () => {
+    // 样式 0 锁定 (默认)，样式 1 取消锁定
+    const styles: Protection[] = [{ locked: true }, { locked: false }];
+    const protection = { sheet: true };
+
+    function createSource(
+      cells: Array<[string, number]>,
+      rows: Array<[number, number]> = [],
+      columns: Array<[number, number]> = [],
+    ): ProtectionRangeSource<{ styleIndex: number }> {
+      return {
+        cells: new Map(cells.map(([address, styleIndex]) => [address, { styleIndex }])),
+        rows: new Map(rows.map(([row, styleIndex]) => [row, { styleIndex }])),
+        columns: new Map(columns.map(([col, styleIndex]) => [col, { styleIndex }])),
+        getCellProtection: (cell: { styleIndex: number }) => styles[cell.styleIndex],
+        getStyleProtection: (styleIndex: number) => styles[styleIndex],
+      };
+    }
+
+    it('小区域逐个检查单元格，空白单元格沿用行、列或默认样式', () => {
+      const range = { start: { row: 0, col: 0 }, end: { row: 0, col: 1 } };
+      const cells: Array<[string, number]> = [['A1', 1], ['C1', 1], ['D1', 1]];
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource(cells))).toBe(true);
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource(cells, [], [[1, 1]]))).toBe(false);
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource(cells, [[0, 1]], [[1, 0]]))).toBe(false);
+      expect(ProtectionUtils.isRangeLocked(undefined, range, createSource(cells))).toBe(false);
+    });
+
+    it('大区域检查区域内的每个单元格，而不只是前几行', () => {
+      const range = { start: { row: 0, col: 0 }, end: { row: 1048575, col: 16383 } };
+      const unlockedColumns = Array.from({ length: 16384 }, (_, col): [number, number] => [col, 1]);
+
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource([], [], unlockedColumns))).toBe(false);
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource([['B5000', 0]], [], unlockedColumns)))
+        .toBe(true);
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource([], [[200000, 0]], unlockedColumns)))
+        .toBe(true);
+      expect(ProtectionUtils.isRangeLocked(protection, range, createSource([], [], unlockedColumns.slice(1))))
+        .toBe(true);
+    });
+  });
+});
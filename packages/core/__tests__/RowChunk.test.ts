@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RowChunkCodec,
+  CHUNK_CELL_TYPES,
+  CHUNK_FORMULA_TYPES,
+  ROW_FLAG_HIDDEN,
+  ROW_FLAG_COLLAPSED,
+} from '../src/parser/RowChunk';
+import type { RawRow } from '../src/parser/WorksheetStreamReader';
+
+const rows: RawRow[] = [
+  {
+    attrs: { r: '2', ht: '18.5', hidden: '1', collapsed: 'true', outlineLevel: '1', s: '3' },
+    cells: [
+      { attrs: { r: 'A2', s: '1' }, v: '42' },
+      { attrs: { r: 'B2', t: 's' }, v: '007' },
+      { attrs: { r: 'AA2', t: 'inlineStr' }, is: '中文' },
+    ],
+  },
+  {
+    attrs: { r: '5' },
+    cells: [
+      { attrs: { r: 'C5', t: 'str', cm: '1' }, v: 'x', f: { text: 'A2&"x"', attrs: { t: 'array', ref: 'C5:C6' } } },
+      { attrs: { r: 'D5', t: 'unknown' }, f: { text: 'C5', attrs: { t: 'shared', si: '0' } } },
+    ],
+  },
+];
+
+describe('RowChunkCodec', () => {
+  it('将原始行编码为列式数据块', () => {
+    const chunk = RowChunkCodec.encode(rows);
+    const strings = RowChunkCodec.decodeStrings(chunk);
+    const string = (index: number): string | undefined => (index === -1 ? undefined : strings[index]);
+
+    expect(chunk.rowCount).toBe(2);
+    expect(chunk.cellCount).toBe(5);
+    expect([...chunk.rowIndexes]).toEqual([1, 4]);
+    expect(chunk.rowHeights[0]).toBe(18.5);
+    expect(chunk.rowHeights[1]).toBeNaN();
+    expect([...chunk.rowStyles]).toEqual([3, -1]);
+    expect([...chunk.rowFlags]).toEqual([ROW_FLAG_HIDDEN | ROW_FLAG_COLLAPSED, 0]);
+    expect([...chunk.rowOutlineLevels]).toEqual([1, 0]);
+    expect([...chunk.rowCellStarts]).toEqual([0, 3, 5]);
+
+    expect([...chunk.cellRows]).toEqual([1, 1, 1, 4, 4]);
+    expect([...chunk.cellCols]).toEqual([0, 1, 26, 2, 3]);
+    expect([...chunk.cellStyles]).toEqual([1, -1, -1, -1, -1]);
+    expect([...chunk.cellTypes].map(type => CHUNK_CELL_TYPES[type])).toEqual(['', 's', 'inlineStr', 'str', '']);
+    expect([...chunk.cellMetadata]).toEqual([-1, -1, -1, 1, -1]);
+
+    // 字符串形式与数值一致时按数值保存，否则 (如前导零) 保存原文
+    expect(chunk.cellNumbers[0]).toBe(42);
+    expect(chunk.cellValues[0]).toBe(-1);
+    expect(chunk.cellNumbers[1]).toBeNaN();
+    expect(string(chunk.cellValues[1])).toBe('007');
+    expect(string(chunk.cellInlineStrings[2])).toBe('中文');
+
+    expect(string(chunk.formulaTexts[3])).toBe('A2&"x"');
+    expect(CHUNK_FORMULA_TYPES[chunk.formulaTypes[3]]).toBe('array');
+    expect(string(chunk.formulaRefs[3])).toBe('C5:C6');
+    expect(CHUNK_FORMULA_TYPES[chunk.formulaTypes[4]]).toBe('shared');
+    expect(chunk.formulaShared[4]).toBe(0);
+    expect(string(chunk.formulaTexts[0])).toBeUndefined();
+  });
+
+  it('列出数据块中可转移的缓冲区', () => {
+    const chunk = RowChunkCodec.encode(rows);
+    const buffers = RowChunkCodec.getTransferables(chunk);
+
+    expect(buffers).toHaveLength(Object.values(chunk).filter(value => ArrayBuffer.isView(value)).length);
+    expect(buffers).toContain(chunk.strings.buffer);
+  });
+
+  it('无效的单元格地址抛出错误', () => {
+    expect(() => RowChunkCodec.encode([{ attrs: { r: '1' }, cells: [{ attrs: { r: '1A' } }] }])).toThrow('无效的单元格地址');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { SparklineUtils } from '../src/utils';
+import type { Cell, Sheet, SparklineGroup } from '../src/types';
+
+/**
+ * 构建第 1 行依次为指定数值的工作表
+ */
+function createSheet(name: string, values: Array<number | null>, sparklineGroups: SparklineGroup[] = []): Sheet {
+  const cells = new Map<string, Cell>();
+  values.forEach((value, col) => {
+    if (value !== null) {
+      const address = `${String.fromCharCode(65 + col)}1`;
+      cells.set(address, { address, row: 0, col, value, type: 'number', text: String(value) });
+    }
+  });
+  return { name, cells, rows: new Map(), columns: new Map(), sparklineGroups } as unknown as Sheet;
+}
+
+/**
+ * 创建只包含一个迷你图的迷你图组
+ */
+function createGroup(ref: string, location: string, options: Partial<SparklineGroup> = {}): SparklineGroup {
+  return {
+    type: 'line',
+    sparklines: [{ ref, location }],
+    lineWeight: 0.75,
+    displayEmptyCellsAs: 'zero',
+    minAxisType: 'individual',
+    maxAxisType: 'individual',
+    ...options,
+  };
+}
+
+describe('SparklineUtils', () => {
+  it('按所在单元格查找迷你图', () => {
+    const group = createGroup('Sheet1!A1:D1', 'E1');
+    const sheet = createSheet('Sheet1', [1, 2, 3, 4], [group]);
+
+    expect(SparklineUtils.getSparkline(sheet, 0, 4)).toEqual({ group, sparkline: group.sparklines[0] });
+    expect(SparklineUtils.getSparkline(sheet, 0, 5)).toBeNull();
+    expect(SparklineUtils.getShape(sheet, 1, 4)).toBeNull();
+  });
+
+  it('折线图按纵坐标轴范围计算数据点，高点使用高点颜色', () => {
+    const sheet = createSheet('Sheet1', [1, 3, 2, -1], [createGroup('Sheet1!A1:D1', 'E1', {
+      markers: true,
+      high: true,
+      displayXAxis: true,
+      minAxisType: 'custom',
+      manualMin: -2,
+      colorSeries: { rgb: 'FF376092' },
+      colorHigh: { rgb: 'FFFF0000' },
+    })]);
+    const shape = SparklineUtils.getShape(sheet, 0, 4);
+
+    expect(shape?.line?.color).toBe('#376092');
+    expect(shape?.line?.points.map(point => point && [point.x, point.y])).toEqual([
+      [0, 0.4],
+      [expect.closeTo(1 / 3), 0],
+      [expect.closeTo(2 / 3), expect.closeTo(0.2)],
+      [1, 0.8],
+    ]);
+    expect(shape?.markers.map(marker => marker.color)).toEqual(['#376092', '#FF0000', '#376092', '#376092']);
+    expect(shape?.axis?.y).toBeCloseTo(0.6);
+    expect(shape?.axis?.color).toBe('#000000');
+  });
+
+  it('以空距显示空单元格时断开折线', () => {
+    const sheet = createSheet('Sheet1', [1, null, 3], [createGroup('A1:C1', 'E1', { displayEmptyCellsAs: 'gap' })]);
+
+    expect(SparklineUtils.getShape(sheet, 0, 4)?.line?.points).toEqual([{ x: 0, y: 1 }, null, { x: 1, y: 0 }]);
+  });
+
+  it('盈亏图正值向上、负值向下，负点使用负值颜色', () => {
+    const sheet = createSheet('Sheet1', [2, -3], [createGroup('Sheet1!A1:B1', 'E1', {
+      type: 'stacked',
+      negative: true,
+      colorNegative: { rgb: 'FFC00000' },
+    })]);
+    const bars = SparklineUtils.getShape(sheet, 0, 4)?.bars;
+
+    expect(bars?.map(bar => [bar.y, bar.height, bar.color])).toEqual([
+      [0, 0.5, '#376092'],
+      [0.5, 0.5, '#C00000'],
+    ]);
+  });
+
+  it('其他工作表的数据通过 resolveSheet 读取', () => {
+    const sheet = createSheet('Sheet1', [], [createGroup('Data!A1:C1', 'E2', { type: 'column' })]);
+    const data = createSheet('Data', [2, 4, 1]);
+
+    expect(SparklineUtils.getReferencedSheets(sheet)).toEqual(['Data']);
+    expect(SparklineUtils.getShape(sheet, 1, 4)).toBeNull();
+
+    const bars = SparklineUtils.getShape(sheet, 1, 4, undefined, name => (name === 'Data' ? data : undefined))?.bars;
+    expect(bars?.map(bar => bar.height)).toEqual([expect.closeTo(1 / 3), 1, 0.05]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ColorUtils, TableStyleUtils } from '../src/utils';
+import type { Table } from '../src/types';
+
+const createTable = (styleInfo: Table['styleInfo'], totalsRowCount = 0): Table => ({
+  id: 1,
+  name: 'Sales',
+  displayName: 'Sales',
+  ref: 'B2:D6',
+  headerRowCount: 1,
+  totalsRowCount,
+  columns: [],
+  styleInfo,
+});
+
+describe('TableStyleUtils', () => {
+  it('识别内置样式名称', () => {
+    expect(TableStyleUtils.isBuiltInStyle('TableStyleMedium2')).toBe(true);
+    expect(TableStyleUtils.isBuiltInStyle('TableStyleLight21')).toBe(true);
+    expect(TableStyleUtils.isBuiltInStyle('TableStyleLight22')).toBe(false);
+    expect(TableStyleUtils.isBuiltInStyle('MyStyle')).toBe(false);
+  });
+
+  it('按单元格查找表格', () => {
+    const table = createTable({ name: 'TableStyleMedium2' });
+    expect(TableStyleUtils.findTable([table], 1, 1)).toBe(table);
+    expect(TableStyleUtils.findTable([table], 5, 3)).toBe(table);
+    expect(TableStyleUtils.findTable([table], 0, 1)).toBeNull();
+    expect(TableStyleUtils.findTable([table], 1, 4)).toBeNull();
+  });
+
+  it('叠加表头、行条纹和汇总行格式', () => {
+    const tables = [createTable({ name: 'TableStyleMedium2', showRowStripes: true }, 1)];
+    const accent1 = '#4472C4';
+    const stripe = `#${ColorUtils.applyTint('4472C4', 0.8)}`;
+
+    expect(TableStyleUtils.getCellFormat(tables, 1, 1)).toMatchObject({ fill: accent1, fontColor: '#FFFFFF', bold: true });
+    // 主体第一行为条纹行，第二行没有填充
+    expect(TableStyleUtils.getCellFormat(tables, 2, 2)?.fill).toBe(stripe);
+    expect(TableStyleUtils.getCellFormat(tables, 3, 2)?.fill).toBeUndefined();
+    expect(TableStyleUtils.getCellFormat(tables, 5, 2)).toMatchObject({ bold: true, borderTop: accent1 });
+    expect(TableStyleUtils.getCellFormat(tables, 0, 0)).toBeNull();
+  });
+
+  it('按工作簿主题颜色生成样式，未知样式不应用格式', () => {
+    const colors = {
+      dk1: '000000', lt1: 'FFFFFF', dk2: '44546A', lt2: 'E7E6E6',
+      accent1: '112233', accent2: 'ED7D31', accent3: 'A5A5A5', accent4: 'FFC000',
+      accent5: '5B9BD5', accent6: '70AD47', hlink: '0563C1', folHlink: '954F72',
+    };
+    expect(TableStyleUtils.getCellFormat([createTable({ name: 'TableStyleMedium2' })], 1, 1, colors)?.fill).toBe('#112233');
+    expect(TableStyleUtils.getCellFormat([createTable({ name: 'Custom' })], 1, 1)).toBeNull();
+  });
+});
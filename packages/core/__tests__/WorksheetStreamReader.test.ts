@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { WorksheetStreamReader, type RawRow } from '../src/parser/WorksheetStreamReader';
+
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+describe('WorksheetStreamReader', () => {
+  it('读取 sheetData 中的行和单元格，其余内容保留为 XML 骨架', () => {
+    const rows: RawRow[] = [];
+    const reader = new WorksheetStreamReader(chunk => rows.push(...chunk));
+    const xml = `<worksheet xmlns="${NS_MAIN}"><cols><col min="1" max="1" width="12"/></cols><sheetData>`
+      + '<row r="1" ht="20" customHeight="1"><c r="A1" s="2"><v>1.5</v></c><c r="B1" t="s"><v>0</v></c></row>'
+      + '<row r="3"><c r="A3"><f t="shared" ref="A3:A4" si="0">A1*2</f><v>3</v></c>'
+      + '<c r="B3" t="inlineStr"><is><r><t>富</t></r><r><t xml:space="preserve">文本 </t></r><rPh sb="0" eb="1"><t>フ</t></rPh></is></c></row>'
+      + '</sheetData><mergeCells count="1"><mergeCell ref="C1:D1"/></mergeCells></worksheet>';
+
+    // 分块写入模拟解压流
+    for (let i = 0; i < xml.length; i += 16) {
+      reader.write(xml.slice(i, i + 16));
+    }
+    reader.end();
+
+    expect(rows).toEqual([
+      {
+        attrs: { r: '1', ht: '20', customHeight: '1' },
+        cells: [{ attrs: { r: 'A1', s: '2' }, v: '1.5' }, { attrs: { r: 'B1', t: 's' }, v: '0' }],
+      },
+      {
+        attrs: { r: '3' },
+        cells: [
+          { attrs: { r: 'A3' }, f: { text: 'A1*2', attrs: { t: 'shared', ref: 'A3:A4', si: '0' } }, v: '3' },
+          { attrs: { r: 'B3', t: 'inlineStr' }, is: '富文本 ' },
+        ],
+      },
+    ]);
+    expect(reader.getSkeleton()).toBe(`<worksheet xmlns="${NS_MAIN}"><cols><col min="1" max="1" width="12"></col></cols>`
+      + '<sheetData></sheetData><mergeCells count="1"><mergeCell ref="C1:D1"></mergeCell></mergeCells></worksheet>');
+  });
+
+  it('每 1000 行输出一块', () => {
+    const chunks: number[] = [];
+    const reader = new WorksheetStreamReader(chunk => chunks.push(chunk.length));
+    let xml = '<worksheet><sheetData>';
+    for (let r = 1; r <= 2500; r++) {
+      xml += `<row r="${r}"><c r="A${r}"><v>${r}</v></c></row>`;
+    }
+    reader.write(`${xml}</sheetData></worksheet>`);
+    reader.end();
+
+    expect(chunks).toEqual([1000, 1000, 500]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ExcelParser, XlsParser } from '../src/parser';
+
+// 两个工作表的 BIFF8 文件：Data 包含文本、数字、日期、布尔值、合并单元格和隐藏列，Other 只有一个数字
+const data = new Uint8Array(readFileSync(resolve(__dirname, 'fixtures/basic.xls')));
+
+describe('XlsParser', () => {
+  it('按复合文档签名识别 xls 文件', () => {
+    expect(XlsParser.isXls(data)).toBe(true);
+    expect(XlsParser.isXls(new TextEncoder().encode('a,b\n1,2\n'))).toBe(false);
+  });
+
+  it('解析为与 xlsx 相同的工作簿结构', async () => {
+    const workbook = await new ExcelParser().parse(data);
+
+    expect(workbook.sheets.map(sheet => [sheet.name, sheet.type, sheet.state])).toEqual([
+      ['Data', 'worksheet', 'visible'],
+      ['Other', 'worksheet', 'visible'],
+    ]);
+    const sheet = workbook.sheets[0];
+    expect(sheet.dimension?.ref).toBe('A1:G7');
+
+    // 共享字符串 (含中文)、数字和布尔值
+    expect(sheet.cells.get('A1')?.value).toBe('Name');
+    expect(sheet.cells.get('A4')?.value).toBe('中文');
+    expect(sheet.cells.get('B2')?.value).toBe(3);
+    expect(sheet.cells.get('C4')?.value).toBe(-0.001);
+    expect(sheet.cells.get('B4')?.value).toBe(1000000);
+    expect(sheet.cells.get('E2')?.value).toBe(true);
+    expect(sheet.cells.get('E3')?.text).toBe('FALSE');
+
+    // 日期格式的数字转换为日期
+    const date = sheet.cells.get('D2');
+    expect(date?.type).toBe('date');
+    expect(date?.style?.numFmt).toBe('mm-dd-yy');
+    expect(date?.value).toEqual(new Date(2024, 0, 15));
+
+    expect(sheet.mergeCells.map(merge => merge.ref)).toEqual(['A6:C7']);
+    expect(sheet.cells.get('A6')?.isMerged).toBe(true);
+    expect(sheet.columns.get(1)?.hidden).toBe(true);
+
+    expect(workbook.sheets[1].cells.get('A1')?.value).toBe(4);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ExcelParser } from '../src/parser';
+
+// 与 basic.xls 内容相同的 xlsb 文件，另外在 Data!A6 上有外部超链接
+const data = new Uint8Array(readFileSync(resolve(__dirname, 'fixtures/basic.xlsb')));
+
+describe('XlsbParser', () => {
+  it('解析 BIFF12 记录流为与 xlsx 相同的工作簿结构', async () => {
+    const workbook = await new ExcelParser().parse(data);
+
+    expect(workbook.sheets.map(sheet => [sheet.name, sheet.type, sheet.state])).toEqual([
+      ['Data', 'worksheet', 'visible'],
+      ['Other', 'worksheet', 'visible'],
+    ]);
+    const sheet = workbook.sheets[0];
+    expect(sheet.dimension?.ref).toBe('A1:G7');
+
+    expect(sheet.cells.get('A1')?.value).toBe('Name');
+    expect(sheet.cells.get('A4')?.value).toBe('中文');
+    expect(sheet.cells.get('C2')?.value).toBe(1.25);
+    expect(sheet.cells.get('C4')?.value).toBe(-0.001);
+    expect(sheet.cells.get('E2')?.value).toBe(true);
+    expect(sheet.cells.get('E3')?.value).toBe(false);
+
+    // styles.bin 中的日期格式
+    const date = sheet.cells.get('D3');
+    expect(date?.type).toBe('date');
+    expect(date?.style?.numFmt).toBe('mm-dd-yy');
+    expect(date?.value).toEqual(new Date(2024, 5, 1));
+
+    expect(sheet.mergeCells.map(merge => merge.ref)).toEqual(['A6:C7']);
+    expect(sheet.columns.get(0)?.customWidth).toBe(true);
+    expect(sheet.columns.get(1)?.hidden).toBe(true);
+    expect(sheet.hyperlinks.get('A6')).toMatchObject({ target: 'https://example.com', type: 'url', tooltip: 'tip' });
+
+    expect(workbook.sheets[1].cells.get('A1')?.value).toBe(4);
+  });
+
+  it('延迟解析模式下按需读取工作表', async () => {
+    const parser = new ExcelParser({ lazySheets: true });
+    const workbook = await parser.parse(data);
+    expect(workbook.sheets[1].parseState).toBe('pending');
+
+    const sheet = await parser.loadSheet(workbook.sheets[1]);
+    expect(sheet.parseState).toBe('parsed');
+    expect(sheet.cells.get('A1')?.value).toBe(4);
+  });
+});
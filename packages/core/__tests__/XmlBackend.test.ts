@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { ExcelParser, DomXmlBackend, LiteXmlBackend, XmlUtils } from '../src/parser';
+import { createXlsx, NS_MAIN } from './helpers/xlsx';
+
+describe('LiteXmlBackend', () => {
+  const backend = new LiteXmlBackend();
+
+  it('构建只读元素树，提供解析器用到的 DOM 子集', () => {
+    const doc = backend.parse(`<x:root xmlns:x="${NS_MAIN}" a="1"><x:item id="i1">A<b>B</b></x:item><item id="i2"/></x:root>`);
+    const root = doc.documentElement;
+
+    expect([root.tagName, root.localName, root.prefix]).toEqual(['x:root', 'root', 'x']);
+    expect(root.getAttribute('a')).toBe('1');
+    expect(root.getAttribute('missing')).toBeNull();
+    expect(root.textContent).toBe('AB');
+    expect(Array.from(root.getElementsByTagName('x:item'), el => el.getAttribute('id'))).toEqual(['i1']);
+    // 选择器按本地名或完整名匹配
+    expect(Array.from(root.querySelectorAll('item'), el => el.getAttribute('id'))).toEqual(['i1', 'i2']);
+    expect(doc.querySelector('root')).toBe(root);
+    expect(XmlUtils.getChildren(root).map(el => el.localName)).toEqual(['item', 'item']);
+  });
+
+  it('格式错误时抛出异常', () => {
+    expect(() => backend.parse('<a><b></a>')).toThrow('XML 解析错误');
+    expect(() => backend.parse('<a>')).toThrow('未结束');
+    expect(() => backend.parse('<a/><b/>')).toThrow('多个根元素');
+    expect(() => backend.parse('<?xml version="1.0"?>')).toThrow('缺少根元素');
+  });
+
+  it('不支持的选择器抛出异常而不是返回空结果', () => {
+    const doc = backend.parse('<root><item a="1"/></root>');
+    expect(() => doc.querySelectorAll('root > item')).toThrow('只支持标签名选择器');
+    expect(() => doc.documentElement.querySelector('[a="1"]')).toThrow('只支持标签名选择器');
+    expect(doc.documentElement.querySelector(' item ')).not.toBeNull();
+  });
+
+  it('与 DOMParser 后端解析出相同的工作簿', async () => {
+    const data = await createXlsx({
+      sheets: [{
+        name: 'Sheet1',
+        body: '<dimension ref="A1:C2"/><cols><col min="1" max="2" width="15" customWidth="1"/></cols>'
+          + '<sheetData><row r="1" ht="24" customHeight="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c>'
+          + '<c r="C1"><f>1+1</f><v>2</v></c></row>'
+          + '<row r="2"><c r="A2" t="b"><v>1</v></c><c r="B2" t="inlineStr"><is><t>&lt;内联&gt;</t></is></c></row></sheetData>'
+          + '<mergeCells count="1"><mergeCell ref="A2:A3"/></mergeCells>',
+      }],
+      parts: {
+        'xl/sharedStrings.xml': `<sst xmlns="${NS_MAIN}"><si><t>文本</t></si>`
+          + '<si><r><rPr><b/><color rgb="FFFF0000"/></rPr><t>富</t></r><r><t>文本</t></r></si></sst>',
+      },
+    });
+
+    const lite = await new ExcelParser({ xmlBackend: new LiteXmlBackend() }).parse(data);
+    const dom = await new ExcelParser({ xmlBackend: new DomXmlBackend() }).parse(data);
+
+    expect(lite.sheets[0].cells.get('B2')?.value).toBe('<内联>');
+    expect(lite.sheets).toEqual(dom.sheets);
+  });
+});
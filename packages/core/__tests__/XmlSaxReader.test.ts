@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { XmlSaxReader } from '../src/parser';
+
+/**
+ * 按指定大小分块读取并记录事件
+ */
+const read = (xml: string, chunkSize = xml.length): string[] => {
+  const events: string[] = [];
+  const reader = new XmlSaxReader({
+    onOpenTag: (name, attrs) => events.push(`<${name}${Object.entries(attrs).map(([k, v]) => ` ${k}=${v}`).join('')}>`),
+    onCloseTag: name => events.push(`</${name}>`),
+    onText: text => events.push(text),
+  });
+  for (let i = 0; i < xml.length; i += chunkSize) {
+    reader.write(xml.slice(i, i + chunkSize));
+  }
+  reader.end();
+
+  // 同一段文本可能分多次回调，合并相邻的文本事件
+  return events.reduce<string[]>((merged, event) => {
+    const last = merged[merged.length - 1];
+    if (!event.startsWith('<') && last !== undefined && !last.startsWith('<')) {
+      merged[merged.length - 1] = last + event;
+    } else {
+      merged.push(event);
+    }
+    return merged;
+  }, []);
+};
+
+describe('XmlSaxReader', () => {
+  const xml = '<?xml version="1.0"?><!-- 注释 --><root a="1 &amp; 2" b=\'x>y\'><item/>'
+    + '<t>A &lt;B&gt; &#x4E2D;&#25991;</t><![CDATA[<raw>]]></root>';
+  const expected = ['<root a=1 & 2 b=x>y>', '<item>', '</item>', '<t>', 'A <B> 中文', '</t>', '<raw>', '</root>'];
+
+  it('输出标签、属性和解码后的文本，跳过声明和注释', () => {
+    expect(read(xml)).toEqual(expected);
+  });
+
+  it('标签、实体和 CDATA 被分块截断时等待后续数据', () => {
+    for (const size of [1, 2, 3, 7]) {
+      expect(read(xml, size)).toEqual(expected);
+    }
+  });
+
+  it('转义文本和属性值', () => {
+    expect(XmlSaxReader.escape('a<b>&"c"')).toBe('a&lt;b&gt;&amp;&quot;c&quot;');
+    expect(XmlSaxReader.decodeEntities('&apos;&quot;&unknown;')).toBe('\'"&unknown;');
+  });
+
+  it('超出 Unicode 范围的字符引用替换为 U+FFFD', () => {
+    expect(XmlSaxReader.decodeEntities('a&#x110000;b&#99999999;c&#x1F600;')).toBe('a\ufffdb\ufffdc😀');
+  });
+});
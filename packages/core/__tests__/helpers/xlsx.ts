@@ -0,0 +1,81 @@
+/**
+ * 测试用 xlsx 文件包
+ * @description 按工作表内容和附加部件在内存中构建最小的 xlsx 文件包
+ */
+import JSZip from 'jszip';
+
+export const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+export const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+export const NS_RELS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * 部件关系 [Id, 类型, 目标, 目标模式]
+ * @description 类型不是完整地址时按 officeDocument 关系类型补全 (如 comments)
+ */
+export type PartRelationship = [string, string, string, 'External'?];
+
+export interface XlsxSheet {
+  name: string;
+  /** 工作表类型，同时决定部件目录、根元素和关系类型 (默认为 worksheet) */
+  type?: 'worksheet' | 'chartsheet' | 'dialogsheet';
+  /** 根元素的内容 */
+  body: string;
+  /** 工作表部件的关系 */
+  rels?: PartRelationship[];
+}
+
+export interface XlsxOptions {
+  sheets: XlsxSheet[];
+  /** workbook 元素中 sheets 之后的内容 (如 definedNames) */
+  workbook?: string;
+  /** 工作表之外的工作簿关系 */
+  workbookRels?: PartRelationship[];
+  /** 其他部件 (以 ZIP 内路径为键) */
+  parts?: Record<string, string | Uint8Array>;
+}
+
+/**
+ * 生成关系部件内容
+ */
+export function rels(items: PartRelationship[]): string {
+  const relationships = items.map(([id, type, target, targetMode]) => {
+    const typeUri = type.includes('://') ? type : `${NS_R}/${type}`;
+    const mode = targetMode ? ` TargetMode="${targetMode}"` : '';
+    return `<Relationship Id="${id}" Type="${typeUri}" Target="${target}"${mode}/>`;
+  }).join('');
+  return `<Relationships xmlns="${NS_RELS}">${relationships}</Relationships>`;
+}
+
+/**
+ * 构建 xlsx 文件包，工作表依次保存为 xl/worksheets/sheetN.xml 等 (关系 ID 为 rIdN)
+ */
+export async function createXlsx(options: XlsxOptions): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '</Types>');
+  zip.file('_rels/.rels', rels([['rId1', 'officeDocument', 'xl/workbook.xml']]));
+
+  const sheetTypes = options.sheets.map(sheet => sheet.type ?? 'worksheet');
+  const sheetRels = sheetTypes.map((type, i): PartRelationship => [`rId${i + 1}`, type, `${type}s/sheet${i + 1}.xml`]);
+  const sheets = options.sheets.map((sheet, i) => `<sheet name="${sheet.name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`);
+  zip.file('xl/workbook.xml', `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`
+    + `<sheets>${sheets.join('')}</sheets>${options.workbook ?? ''}</workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', rels([...sheetRels, ...(options.workbookRels ?? [])]));
+
+  options.sheets.forEach((sheet, i) => {
+    const type = sheetTypes[i];
+    zip.file(`xl/${type}s/sheet${i + 1}.xml`, `<${type} xmlns="${NS_MAIN}" xmlns:r="${NS_R}">${sheet.body}</${type}>`);
+    if (sheet.rels) {
+      zip.file(`xl/${type}s/_rels/sheet${i + 1}.xml.rels`, rels(sheet.rels));
+    }
+  });
+
+  Object.entries(options.parts ?? {}).forEach(([path, content]) => {
+    zip.file(path, content);
+  });
+
+  return zip.generateAsync({ type: 'uint8array' });
+}
@@ -6,7 +6,7 @@ import terser from '@rollup/plugin-terser';
 
 const production = !process.env.ROLLUP_WATCH;
 
-export default {
+export default [{
   input: 'src/index.ts',
   output: [
     {
@@ -38,4 +38,24 @@ export default {
     production && terser()
   ],
   external: ['jszip', 'fflate']
-};
+}, {
+  // 解析 Worker 独立运行，依赖需打包进同一文件
+  input: 'src/worker.ts',
+  output: {
+    file: 'dist/worker.js',
+    format: 'iife',
+    sourcemap: true
+  },
+  plugins: [
+    resolve({
+      browser: true
+    }),
+    commonjs(),
+    typescript({
+      tsconfig: './tsconfig.json',
+      declaration: false,
+      declarationDir: undefined
+    }),
+    production && terser()
+  ]
+}];
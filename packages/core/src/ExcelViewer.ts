@@ -14,6 +14,9 @@ import type {
   LoadErrorEvent,
   SheetChangeEvent,
   CellClickEvent,
+  CellHoverEvent,
+  LinkClickEvent,
+  Hyperlink,
   SelectionChangeEvent,
   ScrollEvent,
   ZoomEvent,
@@ -23,13 +26,24 @@ import type {
 } from './types';
 import { DEFAULT_RENDER_OPTIONS, RENDER_THEMES } from './types';
 import { ExcelParser } from './parser/ExcelParser';
+import { ExcelWriter } from './writer/ExcelWriter';
+import { PasswordError } from './parser/OfficeCrypto';
 import { SheetRenderer } from './renderer/SheetRenderer';
 import { DomRenderer } from './renderer/DomRenderer';
+import { ChartRenderer } from './renderer/ChartRenderer';
+import { XmlUtils } from './parser/XmlUtils';
+import { HyperlinkUtils } from './utils/HyperlinkUtils';
+import { FormulaUtils } from './utils/FormulaUtils';
+import { ProtectionUtils } from './utils/ProtectionUtils';
+import { SparklineUtils } from './utils/SparklineUtils';
+import { DataValidationUtils } from './utils/DataValidationUtils';
 import { EventEmitter, type EventListener } from './events/EventEmitter';
 import { Toolbar } from './core/ui/Toolbar';
 import { FormulaBar } from './core/ui/FormulaBar';
 import { SpreadsheetToolbar, type ToolbarAction } from './core/ui/SpreadsheetToolbar';
 import { CellContextMenu, type CellInfo, type CellContextMenuAction } from './core/ui/CellContextMenu';
+import { Dialog } from './core/ui/Dialog';
+import { FileInfoPanel } from './core/ui/FileInfoPanel';
 
 /**
  * 渲染模式
@@ -62,7 +76,13 @@ export class ExcelViewer {
   private workbook: Workbook | null = null;
   private currentSheetIndex: number = 0;
 
-  private parser: ExcelParser;
+  private loadController: AbortController | null = null;
+  /** 当前工作簿的解析器 (延迟解析模式下用于按需解析工作表) */
+  private parser: ExcelParser | null = null;
+  /** 当前文件名 (下载时使用) */
+  private fileName: string | null = null;
+  /** 最近一次切换工作表的请求序号 */
+  private switchRequest = 0;
   private renderer: SheetRenderer | null = null;
   private domRenderer: DomRenderer | null = null;
   private renderMode: RenderMode = 'dom';
@@ -76,6 +96,8 @@ export class ExcelViewer {
   private sheetTabsElement: HTMLElement | null = null;
   private scrollContainer: HTMLElement | null = null;
   private scrollContent: HTMLElement | null = null;
+  /** 图表工作表和不支持预览的工作表 (对话框工作表、宏表) 的整页视图 */
+  private sheetViewElement: HTMLElement | null = null;
 
   // 工具栏和公式栏
   private toolbar: Toolbar | null = null;
@@ -86,11 +108,15 @@ export class ExcelViewer {
   // 右键菜单
   private cellContextMenu: CellContextMenu | null = null;
 
+  // 文件信息面板
+  private fileInfoPanel: FileInfoPanel | null = null;
+
   // 状态
   private isLoading: boolean = false;
   private isFullscreen: boolean = false;
   private selection: CellRange | null = null;
   private activeCell: CellAddress | null = null;
+  private hoverCell: CellAddress | null = null;
 
   // 滚动状态
   private scrollLeft: number = 0;
@@ -122,7 +148,6 @@ export class ExcelViewer {
       ...options.toolbar
     };
 
-    this.parser = new ExcelParser();
     this.emitter = new EventEmitter();
 
     // 注册事件回调
@@ -173,7 +198,8 @@ export class ExcelViewer {
         showFileBar: true,
         onAction: (action: ToolbarAction) => this.handleToolbarAction(action.id, action.value),
         onZoomChange: (zoom: number) => this.setZoom(zoom),
-        onOpenFile: () => this.emitOpenFileRequest()
+        onOpenFile: () => this.emitOpenFileRequest(),
+        onFileInfo: () => this.showFileInfo(),
       });
 
       // 创建公式栏
@@ -234,6 +260,21 @@ export class ExcelViewer {
 
     viewContainer.appendChild(this.scrollContainer);
 
+    // 创建整页视图 (覆盖在单元格区域上方)
+    this.sheetViewElement = document.createElement('div');
+    this.sheetViewElement.className = 'excel-viewer-sheet-view';
+    this.sheetViewElement.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: ${this.toolbarConfig.showSheetTabs ? '32px' : '0'};
+      display: none;
+      overflow: hidden;
+      background: ${this.getTheme().backgroundColor};
+    `;
+    viewContainer.appendChild(this.sheetViewElement);
+
     // 创建工作表标签
     if (this.toolbarConfig.showSheetTabs) {
       this.sheetTabsElement = this.createSheetTabs();
@@ -255,6 +296,8 @@ export class ExcelViewer {
         showRowHeaders: this.renderOptions.showRowColHeaders,
         showColHeaders: this.renderOptions.showRowColHeaders
       });
+      this.domRenderer.onLinkClick = (hyperlink, cell, event) => this.handleLinkClick(hyperlink, cell, event);
+      this.domRenderer.onActiveCellChange = (row, col) => this.updateFormulaBar(row, col);
     } else if (this.canvasElement) {
       this.renderer = new SheetRenderer(this.canvasElement, this.renderOptions);
     }
@@ -297,7 +340,7 @@ export class ExcelViewer {
 
     // 导出按钮
     if (this.toolbarConfig.showExport) {
-      const exportBtn = this.createButton('↓', '导出', () => this.showExportMenu());
+      const exportBtn = this.createButton('↓', '下载 xlsx', () => this.exportXlsx());
       toolbar.appendChild(exportBtn);
     }
 
@@ -419,6 +462,10 @@ export class ExcelViewer {
       const tab = document.createElement('button');
       tab.className = 'excel-viewer-sheet-tab';
       tab.textContent = sheet.name;
+      tab.dataset.sheetType = sheet.type;
+      if (sheet.parseState) {
+        tab.dataset.parseState = sheet.parseState;
+      }
       tab.style.cssText = `
         padding: 4px 16px;
         border: 1px solid #ccc;
@@ -429,9 +476,25 @@ export class ExcelViewer {
         font-size: 12px;
         white-space: nowrap;
         margin-bottom: -1px;
+        color: ${sheet.parseState === 'pending' ? '#888' : 'inherit'};
       `;
 
-      tab.addEventListener('click', () => this.switchSheet(index));
+      // 延迟解析状态标记
+      const indicator = sheet.parseState === 'parsing' ? '…' : sheet.parseState === 'error' ? '!' : '';
+      if (indicator) {
+        const mark = document.createElement('span');
+        mark.className = 'excel-viewer-sheet-tab-state';
+        mark.textContent = indicator;
+        mark.style.cssText = `margin-left: 4px; color: ${sheet.parseState === 'error' ? '#d32f2f' : '#888'};`;
+        tab.appendChild(mark);
+      }
+      if (sheet.parseState === 'parsing') {
+        tab.title = '正在解析...';
+      } else if (sheet.parseState === 'error') {
+        tab.title = '解析失败，点击重试';
+      }
+
+      tab.addEventListener('click', () => void this.switchSheet(index));
       this.sheetTabsElement!.appendChild(tab);
     });
   }
@@ -488,6 +551,24 @@ export class ExcelViewer {
     };
     this.canvasElement.addEventListener('contextmenu', handleContextMenu);
 
+    // 悬停事件
+    const handleMouseMove = (e: MouseEvent): void => {
+      const cell = this.getCellAtPoint(e.offsetX, e.offsetY);
+      if (cell) {
+        this.handleCellHover(cell.row, cell.col);
+      } else {
+        this.hoverCell = null;
+        this.renderer?.clearHoverCell();
+      }
+    };
+    this.canvasElement.addEventListener('mousemove', handleMouseMove);
+
+    const handleMouseLeave = (): void => {
+      this.hoverCell = null;
+      this.renderer?.clearHoverCell();
+    };
+    this.canvasElement.addEventListener('mouseleave', handleMouseLeave);
+
     // 尺寸变化
     this.resizeObserver = new ResizeObserver(() => {
       this.handleResize();
@@ -545,20 +626,51 @@ export class ExcelViewer {
    * 加载数据
    */
   async loadData(data: ArrayBuffer | Uint8Array | Blob | File): Promise<void> {
+    // 新的加载会取消尚未完成的加载
+    this.loadController?.abort();
+    const controller = new AbortController();
+    this.loadController = controller;
+
     this.isLoading = true;
     this.showLoading();
     const startTime = Date.now();
 
     try {
-      this.workbook = await this.parser.parse(data);
+      const { parser, workbook } = await this.parseWithPassword(data, controller.signal);
+      this.workbook = workbook;
+      this.parser = parser;
+      this.fileName = data instanceof File ? data.name : null;
       this.currentSheetIndex = this.workbook.activeSheet;
 
+      // 延迟解析模式下先解析活动工作表，以及其中迷你图和列表验证引用的工作表
+      const activeSheet = this.workbook.sheets[this.currentSheetIndex];
+      if (activeSheet) {
+        this.updateLoading(90, `解析工作表: ${activeSheet.name}`);
+        await parser.loadSheet(activeSheet);
+        for (const source of this.getPendingSources(activeSheet)) {
+          await parser.loadSheet(source);
+        }
+      }
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
+
       // 更新 UI
       this.updateSheetTabs();
       this.updateFileInfo();
       this.updateScrollSize();
       this.updateViewport();
 
+      // 主题颜色和表格样式依赖工作簿主题，空白单元格的保护设置依赖单元格样式，条件格式中的日期依赖日期系统，迷你图可以引用其他工作表的数据
+      this.domRenderer?.setWorkbookTheme(this.workbook.theme);
+      this.renderer?.setWorkbookTheme(this.workbook.theme);
+      this.domRenderer?.setCellStyles(this.workbook.styles.cellXfs);
+      this.domRenderer?.setDate1904(this.workbook.workbookProperties.date1904 ?? false);
+      this.renderer?.setDate1904(this.workbook.workbookProperties.date1904 ?? false);
+      const resolveSheet = this.findSheetByName.bind(this, this.workbook);
+      this.domRenderer?.setSheetResolver(resolveSheet);
+      this.renderer?.setSheetResolver(resolveSheet);
+
       // 设置当前工作表
       const currentSheet = this.workbook.sheets[this.currentSheetIndex];
       if (currentSheet) {
@@ -577,6 +689,7 @@ export class ExcelViewer {
           });
         }
       }
+      this.updateSheetView();
 
       this.hideLoading();
       this.isLoading = false;
@@ -586,9 +699,13 @@ export class ExcelViewer {
         type: 'load',
         timestamp: Date.now(),
         workbook: this.workbook,
-        loadTime
+        loadTime,
+        diagnostics: this.workbook.diagnostics ?? [],
       });
     } catch (error) {
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
       this.hideLoading();
       this.isLoading = false;
 
@@ -603,6 +720,53 @@ export class ExcelViewer {
     }
   }
 
+  /**
+   * 取消正在进行的加载
+   */
+  cancelLoad(): void {
+    this.loadController?.abort();
+  }
+
+  /**
+   * 解析文件，加密文件需要密码时弹出输入框，直到密码正确或用户取消
+   */
+  private async parseWithPassword(
+    data: ArrayBuffer | Uint8Array | Blob | File,
+    signal: AbortSignal,
+  ): Promise<{ parser: ExcelParser; workbook: Workbook }> {
+    let password: string | undefined;
+
+    for (;;) {
+      try {
+        const parser = new ExcelParser({
+          password,
+          signal,
+          workerUrl: this.options.workerUrl,
+          lazySheets: this.options.lazySheets,
+          recover: this.options.recover,
+          onProgress: (progress, message) => this.updateLoading(progress, message),
+        });
+        return { parser, workbook: await parser.parse(data) };
+      } catch (error) {
+        if (!(error instanceof PasswordError)) {
+          throw error;
+        }
+
+        this.hideLoading();
+        const value = await Dialog.prompt({
+          title: '文件已加密',
+          content: error.reason === 'incorrect' ? '密码错误，请重新输入' : '请输入打开此文件的密码',
+          inputType: 'password',
+        });
+        if (value === null) {
+          throw error;
+        }
+        password = value;
+        this.showLoading();
+      }
+    }
+  }
+
   /**
    * 更新文件信息
    */
@@ -613,6 +777,52 @@ export class ExcelViewer {
     }
   }
 
+  /**
+   * 显示文件信息面板 (文档属性、自定义属性、工作表统计、定义名称和外部链接)
+   */
+  showFileInfo(): void {
+    if (!this.workbook) {
+      return;
+    }
+    if (!this.fileInfoPanel) {
+      this.fileInfoPanel = new FileInfoPanel();
+    }
+    this.fileInfoPanel.show(this.workbook);
+  }
+
+  /**
+   * 将当前工作簿保存为 xlsx 文件 (包含编辑后的单元格、合并单元格和格式，图片和图表从原文件复制)
+   * @description 延迟解析模式下尚未解析的工作表先解析后再写入
+   */
+  async saveXlsx(): Promise<Uint8Array> {
+    if (!this.workbook) {
+      throw new Error('没有可保存的工作簿');
+    }
+    if (this.parser) {
+      for (const sheet of this.workbook.sheets) {
+        await this.parser.loadSheet(sheet);
+      }
+    }
+    // 从原文件包复制图片和图表
+    return new ExcelWriter({ source: this.parser?.getPackageData() ?? undefined }).write(this.workbook);
+  }
+
+  /**
+   * 下载当前工作簿为 xlsx 文件
+   * @param filename 文件名，默认使用加载的文件名 (扩展名替换为 .xlsx)
+   */
+  async downloadXlsx(filename?: string): Promise<void> {
+    const data = await this.saveXlsx();
+    const blob = new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename ?? `${(this.fileName ?? '未命名工作簿').replace(/\.[^.]+$/, '')}.xlsx`;
+    link.click();
+    // 部分浏览器 (如 Firefox) 在 click 返回后才开始读取 Blob，立即释放会导致下载失败
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
   /**
    * 更新滚动区域大小
    */
@@ -650,14 +860,39 @@ export class ExcelViewer {
 
   /**
    * 切换工作表
+   * @description 延迟解析模式下，未解析的工作表会先解析再切换
    */
-  switchSheet(index: number): void {
+  async switchSheet(index: number): Promise<void> {
     if (!this.workbook || index < 0 || index >= this.workbook.sheets.length) return;
+    const request = ++this.switchRequest;
     if (index === this.currentSheetIndex) return;
 
+    const workbook = this.workbook;
+    const sheet = workbook.sheets[index];
+
+    if (this.isSheetPending(sheet)) {
+      if (!(await this.loadSheet(sheet))) {
+        return;
+      }
+      // 解析期间加载了其他文件或切换到了其他工作表
+      if (this.workbook !== workbook || request !== this.switchRequest) {
+        return;
+      }
+    }
+
+    // 迷你图和列表验证引用的工作表尚未解析时先解析 (解析失败时迷你图和下拉列表不显示，不影响切换)
+    const sources = this.getPendingSources(sheet);
+    if (sources.length > 0) {
+      for (const source of sources) {
+        await this.loadSheet(source);
+      }
+      if (this.workbook !== workbook || request !== this.switchRequest) {
+        return;
+      }
+    }
+
     const previousIndex = this.currentSheetIndex;
     this.currentSheetIndex = index;
-    const sheet = this.workbook.sheets[index];
 
     if (this.renderMode === 'dom' && this.domRenderer) {
       this.domRenderer.setSheet(sheet);
@@ -676,6 +911,7 @@ export class ExcelViewer {
     this.updateScrollSize();
     this.updateViewport();
     this.updateSheetTabs();
+    this.updateSheetView();
     this.render();
 
     this.emit<SheetChangeEvent>({
@@ -687,6 +923,136 @@ export class ExcelViewer {
     });
   }
 
+  /**
+   * 更新整页视图
+   * @description 图表工作表以整页显示其中的图表，对话框工作表和宏表显示占位提示；普通工作表隐藏整页视图
+   */
+  private updateSheetView(): void {
+    const view = this.sheetViewElement;
+    const sheet = this.getCurrentSheet();
+    if (!view || !this.scrollContainer) {
+      return;
+    }
+
+    view.innerHTML = '';
+    if (!sheet || sheet.type === 'worksheet') {
+      view.style.display = 'none';
+      this.scrollContainer.style.visibility = '';
+      return;
+    }
+
+    view.style.display = 'block';
+    this.scrollContainer.style.visibility = 'hidden';
+
+    const chart = sheet.type === 'chartsheet' ? sheet.charts[0] : undefined;
+    if (chart) {
+      // 图表缩放到视图大小 (按设备像素比绘制，避免高分屏模糊)
+      const { width, height } = view.getBoundingClientRect();
+      const ratio = window.devicePixelRatio || 1;
+      const canvas = document.createElement('canvas');
+      canvas.className = 'excel-viewer-chartsheet';
+      if (chart.id) {
+        canvas.dataset.chartId = chart.id;
+      }
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+      canvas.style.cssText = 'display: block; width: 100%; height: 100%;';
+      view.appendChild(canvas);
+
+      const ctx = canvas.getContext('2d');
+      if (ctx && width > 0 && height > 0) {
+        ctx.scale(ratio, ratio);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        new ChartRenderer(ctx).render(chart, { x: 0, y: 0, width, height });
+      }
+      return;
+    }
+
+    const messages: Record<Exclude<Sheet['type'], 'worksheet'>, string> = {
+      chartsheet: '此图表工作表中没有可显示的图表',
+      dialogsheet: '对话框工作表 (Excel 5.0 对话框) 暂不支持预览',
+      macrosheet: '宏表 (Excel 4.0 宏) 暂不支持预览',
+    };
+    const placeholder = document.createElement('div');
+    placeholder.className = 'excel-viewer-sheet-placeholder';
+    placeholder.style.cssText = `
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 8px;
+      color: #888;
+      font-size: 14px;
+    `;
+    const title = document.createElement('div');
+    title.style.cssText = 'font-size: 16px; color: #555;';
+    title.textContent = sheet.name;
+    const message = document.createElement('div');
+    message.textContent = messages[sheet.type];
+    placeholder.append(title, message);
+    view.appendChild(placeholder);
+  }
+
+  /**
+   * 工作表是否尚未解析
+   */
+  private isSheetPending(sheet: Sheet): boolean {
+    return sheet.parseState !== undefined && sheet.parseState !== 'parsed';
+  }
+
+  /**
+   * 按名称查找工作表 (不区分大小写)
+   */
+  private findSheetByName(workbook: Workbook, name: string): Sheet | undefined {
+    const lowerName = name.toLowerCase();
+    return workbook.sheets.find((sheet) => sheet.name.toLowerCase() === lowerName);
+  }
+
+  /**
+   * 获取迷你图和列表验证引用的尚未解析的工作表
+   */
+  private getPendingSources(sheet: Sheet): Sheet[] {
+    if (!this.workbook) {
+      return [];
+    }
+    const workbook = this.workbook;
+    const names = new Set([
+      ...SparklineUtils.getReferencedSheets(sheet),
+      ...DataValidationUtils.getReferencedSheets(sheet, workbook),
+    ].map(name => name.toLowerCase()));
+    return [...names]
+      .map((name) => this.findSheetByName(workbook, name))
+      .filter((source): source is Sheet => source !== undefined && this.isSheetPending(source));
+  }
+
+  /**
+   * 按需解析工作表，解析期间在标签上显示状态
+   */
+  private async loadSheet(sheet: Sheet): Promise<boolean> {
+    if (!this.parser) {
+      return false;
+    }
+
+    const loading = this.parser.loadSheet(sheet);
+    this.updateSheetTabs();
+    try {
+      await loading;
+      return true;
+    } catch (error) {
+      this.emit<LoadErrorEvent>({
+        type: 'loadError',
+        timestamp: Date.now(),
+        error: error as Error,
+        message: (error as Error).message,
+      });
+      return false;
+    } finally {
+      this.updateSheetTabs();
+    }
+  }
+
   /**
    * 获取当前工作表
    */
@@ -728,6 +1094,7 @@ export class ExcelViewer {
       this.renderer.setSelection(row, col, row, col);
       this.render();
     }
+    this.updateFormulaBar(row, col);
 
     this.emit<CellClickEvent>({
       type: 'cellClick',
@@ -745,6 +1112,125 @@ export class ExcelViewer {
       selection: [this.selection],
       activeCell: this.activeCell
     });
+
+    // 处理超链接
+    const hyperlink = cell?.hyperlink ?? sheet?.hyperlinks.get(address);
+    if (cell && hyperlink) {
+      this.handleLinkClick(hyperlink, cell, event);
+    }
+  }
+
+  /**
+   * 处理超链接点击
+   * @description 内部链接切换工作表并定位到目标单元格，外部链接在新窗口打开，不安全的链接只触发 linkClick 事件
+   */
+  private handleLinkClick(hyperlink: Hyperlink, cell: Cell, event: MouseEvent): void {
+    this.emit<LinkClickEvent>({
+      type: 'linkClick',
+      timestamp: Date.now(),
+      hyperlink,
+      cell,
+      event,
+    });
+
+    if (hyperlink.type === 'internal') {
+      void this.navigateTo(hyperlink.location ?? hyperlink.target);
+      return;
+    }
+
+    const url = HyperlinkUtils.toUrl(hyperlink);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    }
+  }
+
+  /**
+   * 定位到内部位置 (如 "Sheet2!B3" 或定义名称)
+   * @returns 位置无法解析或目标工作表切换失败时返回 false
+   */
+  async navigateTo(location: string): Promise<boolean> {
+    if (!this.workbook) {
+      return false;
+    }
+
+    let target = HyperlinkUtils.parseLocation(location);
+
+    // 定义名称解析为其引用的区域
+    const name = target.name;
+    if (!target.ref && name) {
+      const definedName = this.workbook.definedNames.find(
+        (dn) => dn.name.toLowerCase() === name.toLowerCase(),
+      );
+      if (!definedName) {
+        return false;
+      }
+      target = HyperlinkUtils.parseLocation(definedName.ref);
+    }
+
+    const { sheetName, ref } = target;
+    if (!ref) {
+      return false;
+    }
+
+    const sheetIndex = sheetName
+      ? this.workbook.sheets.findIndex((sheet) => sheet.name.toLowerCase() === sheetName?.toLowerCase())
+      : this.currentSheetIndex;
+    if (sheetIndex < 0) {
+      return false;
+    }
+
+    let range: { start: CellAddress; end: CellAddress };
+    try {
+      range = XmlUtils.parseRange(ref);
+    } catch {
+      return false;
+    }
+    const { start, end } = range;
+    if (start.row < 0 || end.row < 0) {
+      return false;
+    }
+
+    // 目标工作表切换完成 (延迟解析模式下需要先解析) 后再定位
+    const sheet = this.workbook.sheets[sheetIndex];
+    await this.switchSheet(sheetIndex);
+    if (this.getCurrentSheet() !== sheet) {
+      return false;
+    }
+    this.revealRange(start, end);
+
+    return true;
+  }
+
+  /**
+   * 选中区域并滚动到其起始单元格
+   */
+  private revealRange(start: CellAddress, end: CellAddress): void {
+    this.selection = { start, end };
+    this.activeCell = { ...start };
+
+    if (this.renderMode === 'dom' && this.domRenderer) {
+      this.domRenderer.setSelection(start.row, start.col, end.row, end.col);
+      this.domRenderer.scrollToCell(start.row, start.col);
+    } else if (this.renderer) {
+      this.renderer.setSelection(start.row, start.col, end.row, end.col);
+      const position = this.renderer.getScrollPositionForCell(start.row, start.col);
+      if (this.scrollContainer) {
+        // 触发 scroll 事件后会同步视口并重新渲染
+        this.scrollContainer.scrollLeft = position.scrollLeft;
+        this.scrollContainer.scrollTop = position.scrollTop;
+      }
+      this.scrollLeft = this.scrollContainer?.scrollLeft ?? position.scrollLeft;
+      this.scrollTop = this.scrollContainer?.scrollTop ?? position.scrollTop;
+      this.updateViewport();
+      this.render();
+    }
+
+    this.emit<SelectionChangeEvent>({
+      type: 'selectionChange',
+      timestamp: Date.now(),
+      selection: [this.selection],
+      activeCell: this.activeCell,
+    });
   }
 
   /**
@@ -755,11 +1241,6 @@ export class ExcelViewer {
     const address = this.formatAddress(row, col);
     const cell = sheet?.cells.get(address) || null;
 
-    // 处理超链接
-    if (cell?.hyperlink) {
-      window.open(cell.hyperlink.target, '_blank');
-    }
-
     this.emit<CellClickEvent>({
       type: 'cellDoubleClick',
       timestamp: Date.now(),
@@ -771,6 +1252,37 @@ export class ExcelViewer {
     });
   }
 
+  /**
+   * 处理单元格悬停
+   */
+  private handleCellHover(row: number, col: number): void {
+    if (this.hoverCell?.row === row && this.hoverCell?.col === col) {
+      return;
+    }
+    this.hoverCell = { row, col };
+
+    // 显示批注浮层
+    this.renderer?.setHoverCell(row, col);
+
+    const address = this.formatAddress(row, col);
+    const sheet = this.getCurrentSheet();
+
+    // 超链接单元格显示手型光标
+    if (this.canvasElement) {
+      const isLink = Boolean(sheet?.cells.get(address)?.hyperlink ?? sheet?.hyperlinks.get(address));
+      this.canvasElement.style.cursor = isLink ? 'pointer' : '';
+    }
+
+    this.emit<CellHoverEvent>({
+      type: 'cellHover',
+      timestamp: Date.now(),
+      cell: sheet?.cells.get(address) ?? null,
+      address,
+      row,
+      col,
+    });
+  }
+
   /**
    * 处理单元格右键
    */
@@ -859,6 +1371,10 @@ export class ExcelViewer {
    * 处理尺寸变化
    */
   private handleResize(): void {
+    if (this.getCurrentSheet()?.type === 'chartsheet') {
+      this.updateSheetView();
+    }
+
     // DOM 渲染器不需要处理尺寸变化
     if (this.renderMode === 'dom') return;
 
@@ -968,11 +1484,12 @@ export class ExcelViewer {
   }
 
   /**
-   * 显示导出菜单
+   * 下载 xlsx 文件 (工具栏按钮)，失败时提示错误
    */
-  private showExportMenu(): void {
-    // TODO: 实现导出菜单
-    console.log('导出菜单');
+  private exportXlsx(): void {
+    this.downloadXlsx().catch((error: Error) => {
+      void Dialog.alert({ title: '保存失败', content: error.message });
+    });
   }
 
   /**
@@ -1013,7 +1530,9 @@ export class ExcelViewer {
    * 显示加载
    */
   private showLoading(): void {
-    if (!this.rootElement) return;
+    if (!this.rootElement || this.rootElement.querySelector('.excel-viewer-loading')) {
+      return;
+    }
 
     const loading = document.createElement('div');
     loading.className = 'excel-viewer-loading';
@@ -1032,13 +1551,25 @@ export class ExcelViewer {
     loading.innerHTML = `
       <div style="text-align: center;">
         <div style="width: 40px; height: 40px; border: 3px solid #e0e0e0; border-top-color: #2196f3; border-radius: 50%; animation: spin 1s linear infinite; margin: 0 auto;"></div>
-        <div style="margin-top: 12px; color: #666;">加载中...</div>
+        <div class="excel-viewer-loading-text" style="margin-top: 12px; color: #666;">加载中...</div>
+        <button class="excel-viewer-loading-cancel" style="margin-top: 12px; padding: 4px 16px; border: 1px solid #d0d0d0; border-radius: 4px; background: #fff; color: #333; cursor: pointer;">取消</button>
       </div>
       <style>@keyframes spin { to { transform: rotate(360deg); } }</style>
     `;
+    loading.querySelector('.excel-viewer-loading-cancel')?.addEventListener('click', () => this.cancelLoad());
     this.rootElement.appendChild(loading);
   }
 
+  /**
+   * 更新加载进度
+   */
+  private updateLoading(progress: number, message: string): void {
+    const text = this.rootElement?.querySelector('.excel-viewer-loading-text');
+    if (text) {
+      text.textContent = `${message} ${Math.round(progress)}%`;
+    }
+  }
+
   /**
    * 隐藏加载
    */
@@ -1132,6 +1663,11 @@ export class ExcelViewer {
         this.domRenderer.insertComment();
         break;
 
+      // 文件操作
+      case 'download':
+        this.exportXlsx();
+        break;
+
       // 筛选排序
       case 'filter':
         this.domRenderer.toggleFilter();
@@ -1170,7 +1706,7 @@ export class ExcelViewer {
   }
 
   private showInsertChartDialog(): void {
-    alert('图表功能开发中...');
+    this.domRenderer?.showInsertChartDialog();
   }
 
   /**
@@ -1180,7 +1716,7 @@ export class ExcelViewer {
     // 触发文件选择
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.xlsx,.xls,.xlsm,.xlsb,.csv';
+    input.accept = '.xlsx,.xls,.xlsm,.xlsb,.ods,.csv,.tsv';
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
@@ -1282,6 +1818,25 @@ export class ExcelViewer {
     // 实时更新预览
   }
 
+  /**
+   * 更新公式栏 (数组公式显示为 {=…}，受保护工作表中设置了隐藏的单元格不显示内容)
+   */
+  private updateFormulaBar(row: number, col: number): void {
+    if (!this.formulaBar) {
+      return;
+    }
+
+    const sheet = this.getCurrentSheet();
+    const address = this.formatAddress(row, col);
+    const cell = sheet?.cells.get(address);
+    this.formulaBar.setAddress(address);
+    if (!sheet || !cell || ProtectionUtils.isFormulaHidden(sheet.protection, cell.style?.protection)) {
+      this.formulaBar.setValue('');
+      return;
+    }
+    this.formulaBar.setValue(FormulaUtils.getDisplayFormula(sheet, cell) ?? cell.text);
+  }
+
   /**
    * 处理公式栏确认
    */
@@ -1335,6 +1890,7 @@ export class ExcelViewer {
 
     // 销毁右键菜单
     this.cellContextMenu?.destroy();
+    this.fileInfoPanel?.destroy();
 
     // 移除 DOM
     if (this.rootElement) {
@@ -1347,5 +1903,6 @@ export class ExcelViewer {
     this.toolbar = null;
     this.formulaBar = null;
     this.cellContextMenu = null;
+    this.fileInfoPanel = null;
   }
 }
@@ -29,6 +29,8 @@ import {
 import { SelectionManager } from './selection/SelectionManager';
 import { ContextMenu, createDefaultContextMenuItems, MenuItem } from './ui/ContextMenu';
 import { ClipboardManager } from './clipboard/ClipboardManager';
+import { Dialog } from './ui/Dialog';
+import { ProtectionUtils, type ProtectedAction } from '../utils/ProtectionUtils';
 
 type EventCallback = (event: SpreadsheetEvent) => void;
 
@@ -181,6 +183,9 @@ export class Spreadsheet implements CommandContext {
    */
   setCellValue(row: number, col: number, value: string): void {
     if (this.config.readonly) return;
+    if (!this.ensureCellsEditable({ start: { row, col }, end: { row, col } })) {
+      return;
+    }
     const command = new SetCellValueCommand(row, col, value);
     this.commandManager.execute(command);
   }
@@ -190,6 +195,10 @@ export class Spreadsheet implements CommandContext {
    */
   setCellsValue(changes: Array<{ row: number; col: number; value: string }>): void {
     if (this.config.readonly) return;
+    if (changes.some(({ row, col }) => this.isCellLocked(row, col))) {
+      this.showProtectionMessage(ProtectionUtils.LOCKED_CELL_MESSAGE);
+      return;
+    }
     const command = new SetCellsValueCommand(changes);
     this.commandManager.execute(command);
   }
@@ -218,6 +227,9 @@ export class Spreadsheet implements CommandContext {
     if (this.config.readonly) return;
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     const command = new ClearCellsCommand(bounds);
     this.commandManager.execute(command);
@@ -228,6 +240,9 @@ export class Spreadsheet implements CommandContext {
    */
   insertRow(index?: number, count = 1): void {
     if (this.config.readonly) return;
+    if (!this.ensureActionAllowed('insertRows')) {
+      return;
+    }
     const rowIndex = index ?? this.selectionManager.getActiveCell().row;
     const command = new InsertRowCommand(rowIndex, count);
     this.commandManager.execute(command);
@@ -238,6 +253,9 @@ export class Spreadsheet implements CommandContext {
    */
   deleteRow(index?: number, count = 1): void {
     if (this.config.readonly) return;
+    if (!this.ensureActionAllowed('deleteRows')) {
+      return;
+    }
     const rowIndex = index ?? this.selectionManager.getActiveCell().row;
     const command = new DeleteRowCommand(rowIndex, count);
     this.commandManager.execute(command);
@@ -248,6 +266,9 @@ export class Spreadsheet implements CommandContext {
    */
   insertCol(index?: number, count = 1): void {
     if (this.config.readonly) return;
+    if (!this.ensureActionAllowed('insertColumns')) {
+      return;
+    }
     const colIndex = index ?? this.selectionManager.getActiveCell().col;
     const command = new InsertColCommand(colIndex, count);
     this.commandManager.execute(command);
@@ -258,6 +279,9 @@ export class Spreadsheet implements CommandContext {
    */
   deleteCol(index?: number, count = 1): void {
     if (this.config.readonly) return;
+    if (!this.ensureActionAllowed('deleteColumns')) {
+      return;
+    }
     const colIndex = index ?? this.selectionManager.getActiveCell().col;
     const command = new DeleteColCommand(colIndex, count);
     this.commandManager.execute(command);
@@ -268,6 +292,9 @@ export class Spreadsheet implements CommandContext {
    */
   setRowHeight(index: number, height: number): void {
     if (this.config.readonly) return;
+    if (!this.ensureActionAllowed('formatRows')) {
+      return;
+    }
     const command = new SetRowHeightCommand(index, height);
     this.commandManager.execute(command);
   }
@@ -277,6 +304,9 @@ export class Spreadsheet implements CommandContext {
    */
   setColWidth(index: number, width: number): void {
     if (this.config.readonly) return;
+    if (!this.ensureActionAllowed('formatColumns')) {
+      return;
+    }
     const command = new SetColWidthCommand(index, width);
     this.commandManager.execute(command);
   }
@@ -298,6 +328,9 @@ export class Spreadsheet implements CommandContext {
     if (this.config.readonly) return;
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureCellsEditable(bounds)) {
+      return;
+    }
     this.clipboardManager.cut(bounds);
     this.emit('cut', { range: bounds });
   }
@@ -308,6 +341,16 @@ export class Spreadsheet implements CommandContext {
   paste(): void {
     if (this.config.readonly) return;
     const activeCell = this.selectionManager.getActiveCell();
+    const data = this.clipboardManager.getData();
+    if (data) {
+      const target = {
+        start: activeCell,
+        end: { row: activeCell.row + data.cells.length - 1, col: activeCell.col + (data.cells[0]?.length ?? 1) - 1 },
+      };
+      if (!this.ensureCellsEditable(target) || (data.isCut && !this.ensureCellsEditable(data.range))) {
+        return;
+      }
+    }
     this.clipboardManager.paste(activeCell.row, activeCell.col);
     this.emit('paste', { target: activeCell });
     this.render();
@@ -446,6 +489,54 @@ export class Spreadsheet implements CommandContext {
 
   // ========== 私有方法 ==========
 
+  /**
+   * 单元格是否被工作表保护锁定
+   */
+  private isCellLocked(row: number, col: number): boolean {
+    const sheet = this.getActiveSheet();
+    const cell = sheet.cells.get(this.formatAddress(row, col));
+    const style = cell?.styleIndex !== undefined ? this.workbook.styles[cell.styleIndex] : undefined;
+    return ProtectionUtils.isCellLocked(sheet.protection, style?.protection);
+  }
+
+  /**
+   * 检查区域内的单元格是否都可编辑，存在锁定单元格时提示并返回 false
+   */
+  private ensureCellsEditable(range: CellRange): boolean {
+    const sheet = this.getActiveSheet();
+    const locked = ProtectionUtils.isRangeLocked(sheet.protection, range, {
+      cells: sheet.cells,
+      rows: sheet.rows,
+      columns: sheet.cols,
+      getCellProtection: cell => (cell.styleIndex !== undefined ? this.workbook.styles[cell.styleIndex] : undefined)?.protection,
+      getStyleProtection: styleIndex => this.workbook.styles[styleIndex]?.protection,
+    });
+    if (locked) {
+      this.showProtectionMessage(ProtectionUtils.LOCKED_CELL_MESSAGE);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 检查工作表保护是否允许操作，不允许时提示并返回 false
+   */
+  private ensureActionAllowed(action: ProtectedAction): boolean {
+    if (ProtectionUtils.isActionAllowed(this.getActiveSheet().protection, action)) {
+      return true;
+    }
+    this.showProtectionMessage(ProtectionUtils.getActionMessage(action));
+    return false;
+  }
+
+  /**
+   * 显示工作表保护提示
+   */
+  private showProtectionMessage(message: string): void {
+    void Dialog.alert({ title: '工作表受保护', content: message });
+    this.emit('protectionBlocked', { message });
+  }
+
   private initUI(): void {
     this.container.style.cssText = `
       position: relative;
@@ -2,6 +2,7 @@
  * 公式引擎
  * 支持基本的 Excel 公式计算
  */
+import { DateUtils } from '../../utils/DateUtils';
 
 export interface FormulaContext {
   /** 获取单元格值 */
@@ -10,6 +11,8 @@ export interface FormulaContext {
   getRangeValues(range: string): any[][];
   /** 当前单元格地址 */
   currentCell?: string;
+  /** 是否使用 1904 日期系统 (取自 workbookProperties.date1904，日期函数据此换算序列号，默认 false) */
+  date1904?: boolean;
 }
 
 export interface FormulaResult {
@@ -152,36 +155,34 @@ export class FormulaEngine {
     this.register('VALUE', (args) => Number(args[0]) || 0);
 
     // 日期函数
-    this.register('TODAY', () => {
-      const today = new Date();
-      return this.dateToSerial(today);
+    this.register('TODAY', (_args, context) => {
+      return DateUtils.toDateSerial(new Date(), context.date1904 ?? false);
     });
 
-    this.register('NOW', () => {
-      const now = new Date();
-      return this.dateToSerial(now) + (now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds()) / 86400;
+    this.register('NOW', (_args, context) => {
+      return DateUtils.dateToExcelSerial(new Date(), context.date1904 ?? false);
     });
 
-    this.register('YEAR', (args) => {
-      const date = this.serialToDate(Number(args[0]));
+    this.register('YEAR', (args, context) => {
+      const date = DateUtils.excelSerialToDate(Number(args[0]), context.date1904 ?? false);
       return date.getFullYear();
     });
 
-    this.register('MONTH', (args) => {
-      const date = this.serialToDate(Number(args[0]));
+    this.register('MONTH', (args, context) => {
+      const date = DateUtils.excelSerialToDate(Number(args[0]), context.date1904 ?? false);
       return date.getMonth() + 1;
     });
 
-    this.register('DAY', (args) => {
-      const date = this.serialToDate(Number(args[0]));
+    this.register('DAY', (args, context) => {
+      const date = DateUtils.excelSerialToDate(Number(args[0]), context.date1904 ?? false);
       return date.getDate();
     });
 
-    this.register('DATE', (args) => {
+    this.register('DATE', (args, context) => {
       const year = Number(args[0]) || 1900;
       const month = Number(args[1]) || 1;
       const day = Number(args[2]) || 1;
-      return this.dateToSerial(new Date(year, month - 1, day));
+      return DateUtils.toDateSerial(new Date(year, month - 1, day), context.date1904 ?? false);
     });
 
     // 查找函数
@@ -530,22 +531,6 @@ export class FormulaEngine {
     if (Array.isArray(value)) return 'array';
     return 'string';
   }
-
-  /**
-   * 日期转序列号
-   */
-  private dateToSerial(date: Date): number {
-    const epoch = new Date(1899, 11, 30);
-    return Math.floor((date.getTime() - epoch.getTime()) / 86400000);
-  }
-
-  /**
-   * 序列号转日期
-   */
-  private serialToDate(serial: number): Date {
-    const epoch = new Date(1899, 11, 30);
-    return new Date(epoch.getTime() + serial * 86400000);
-  }
 }
 
 // 单例
@@ -2,6 +2,8 @@
  * 电子表格核心类型定义
  */
 
+import type { Protection, SheetProtection } from '../types';
+
 // ============ 基础类型 ============
 
 /** 单元格地址 */
@@ -119,6 +121,8 @@ export interface CellStyle {
   border?: Border;
   alignment?: Alignment;
   numberFormat?: string;
+  /** 保护设置 (工作表受保护时生效，未设置时默认锁定) */
+  protection?: Protection;
 }
 
 // ============ 工作表 ============
@@ -151,6 +155,8 @@ export interface SheetData {
   defaultColWidth: number;
   /** 选区 */
   selection: Selection;
+  /** 工作表保护 */
+  protection?: SheetProtection;
 }
 
 // ============ 工作簿 ============
@@ -190,7 +196,8 @@ export type SpreadsheetEventType =
   | 'redo'
   | 'zoom'
   | 'scroll'
-  | 'contextMenu';
+  | 'contextMenu'
+  | 'protectionBlocked';
 
 /** 事件数据基类 */
 export interface SpreadsheetEvent {
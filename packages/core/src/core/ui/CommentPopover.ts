@@ -0,0 +1,206 @@
+/**
+ * 批注浮层组件
+ * 鼠标悬停在带批注的单元格上时显示作者、内容和回复
+ */
+
+import type { Comment, RichText } from '../../types';
+
+export interface CommentPopoverOptions {
+  /** 浮层宽度 */
+  width?: number;
+  /** 最大高度 */
+  maxHeight?: number;
+  /** z-index */
+  zIndex?: number;
+}
+
+export class CommentPopover {
+  private element: HTMLElement | null = null;
+  private options: Required<CommentPopoverOptions>;
+  private currentComment: Comment | null = null;
+  private static styleInjected = false;
+
+  constructor(options: CommentPopoverOptions = {}) {
+    this.options = {
+      width: options.width ?? 240,
+      maxHeight: options.maxHeight ?? 320,
+      zIndex: options.zIndex ?? 9999,
+    };
+
+    CommentPopover.injectStyles();
+  }
+
+  private static injectStyles(): void {
+    if (CommentPopover.styleInjected) {
+      return;
+    }
+    CommentPopover.styleInjected = true;
+
+    const style = document.createElement('style');
+    style.id = 'excel-comment-popover-styles';
+    style.textContent = `
+      .excel-comment-popover {
+        position: fixed;
+        box-sizing: border-box;
+        padding: 8px 10px;
+        background: #fffde7;
+        border: 1px solid #c9b458;
+        border-radius: 2px;
+        box-shadow: 2px 2px 6px rgba(0, 0, 0, 0.2);
+        font-size: 12px;
+        line-height: 1.5;
+        color: #1f2937;
+        overflow-y: auto;
+        pointer-events: none;
+        white-space: pre-wrap;
+        word-break: break-word;
+      }
+
+      .excel-comment-popover.threaded {
+        background: #fff;
+        border-color: #d1d5db;
+        border-radius: 6px;
+      }
+
+      .excel-comment-author {
+        font-weight: 600;
+        margin-bottom: 2px;
+      }
+
+      .excel-comment-date {
+        font-weight: normal;
+        color: #9ca3af;
+        margin-left: 6px;
+      }
+
+      .excel-comment-reply {
+        margin-top: 6px;
+        padding-top: 6px;
+        border-top: 1px solid #e5e7eb;
+      }
+
+      .excel-comment-resolved {
+        margin-top: 6px;
+        color: #059669;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 在目标矩形旁显示批注
+   * @param comment 批注
+   * @param rect 单元格在视口中的位置
+   */
+  show(comment: Comment, rect: { left: number; top: number; right: number; bottom: number }): void {
+    if (this.currentComment !== comment) {
+      this.hide();
+      this.element = this.createElement(comment);
+      this.currentComment = comment;
+      document.body.appendChild(this.element);
+    }
+
+    const el = this.element;
+    if (!el) {
+      return;
+    }
+
+    // 默认显示在单元格右侧，超出视口时翻转到左侧
+    const popRect = el.getBoundingClientRect();
+    let left = rect.right + 6;
+    let top = rect.top;
+
+    if (left + popRect.width > window.innerWidth) {
+      left = rect.left - popRect.width - 6;
+    }
+    if (top + popRect.height > window.innerHeight) {
+      top = window.innerHeight - popRect.height - 6;
+    }
+
+    el.style.left = `${Math.max(0, left)}px`;
+    el.style.top = `${Math.max(0, top)}px`;
+  }
+
+  /**
+   * 隐藏批注
+   */
+  hide(): void {
+    if (this.element) {
+      this.element.remove();
+      this.element = null;
+    }
+    this.currentComment = null;
+  }
+
+  /**
+   * 是否可见
+   */
+  isVisible(): boolean {
+    return this.element !== null;
+  }
+
+  /**
+   * 销毁
+   */
+  destroy(): void {
+    this.hide();
+  }
+
+  private createElement(comment: Comment): HTMLElement {
+    const el = document.createElement('div');
+    el.className = `excel-comment-popover${comment.threaded ? ' threaded' : ''}`;
+    el.style.width = `${this.options.width}px`;
+    el.style.maxHeight = `${this.options.maxHeight}px`;
+    el.style.zIndex = String(this.options.zIndex);
+
+    el.appendChild(this.createEntry(comment.author, CommentPopover.getPlainText(comment.text), comment.date));
+
+    comment.replies?.forEach((reply) => {
+      const replyEl = this.createEntry(reply.author, reply.text, reply.date);
+      replyEl.classList.add('excel-comment-reply');
+      el.appendChild(replyEl);
+    });
+
+    if (comment.done) {
+      const resolved = document.createElement('div');
+      resolved.className = 'excel-comment-resolved';
+      resolved.textContent = '已解决';
+      el.appendChild(resolved);
+    }
+
+    return el;
+  }
+
+  private createEntry(author: string | undefined, text: string, date?: Date): HTMLElement {
+    const entry = document.createElement('div');
+
+    if (author) {
+      const authorEl = document.createElement('div');
+      authorEl.className = 'excel-comment-author';
+      authorEl.textContent = author;
+      if (date && !isNaN(date.getTime())) {
+        const dateEl = document.createElement('span');
+        dateEl.className = 'excel-comment-date';
+        dateEl.textContent = date.toLocaleString();
+        authorEl.appendChild(dateEl);
+      }
+      entry.appendChild(authorEl);
+    }
+
+    const textEl = document.createElement('div');
+    textEl.textContent = text;
+    entry.appendChild(textEl);
+
+    return entry;
+  }
+
+  /**
+   * 获取批注纯文本
+   */
+  static getPlainText(text: string | RichText): string {
+    if (typeof text === 'string') {
+      return text;
+    }
+    return text.map((run) => run.text).join('');
+  }
+}
@@ -508,7 +508,9 @@ export class Dialog {
               resolve(value);
             }
           }
-        ]
+        ],
+        // 通过关闭按钮、遮罩或 ESC 关闭时视为取消
+        onClose: () => resolve(null),
       });
 
       // 聚焦输入框
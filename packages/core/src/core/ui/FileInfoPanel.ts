@@ -0,0 +1,231 @@
+/**
+ * 文件信息面板
+ * 显示文档属性、自定义属性、工作表统计、定义名称和外部链接
+ */
+
+import type { CustomProperty, SheetType, Workbook } from '../../types';
+import { Dialog } from './Dialog';
+
+export interface FileInfoPanelOptions {
+  /** 面板宽度 */
+  width?: number;
+}
+
+/**
+ * 工作表类型名称
+ */
+const SHEET_TYPE_LABELS: Record<SheetType, string> = {
+  worksheet: '工作表',
+  chartsheet: '图表工作表',
+  dialogsheet: '对话框工作表',
+  macrosheet: '宏表',
+};
+
+export class FileInfoPanel {
+  private dialog: Dialog | null = null;
+  private options: Required<FileInfoPanelOptions>;
+  private static styleInjected = false;
+
+  constructor(options: FileInfoPanelOptions = {}) {
+    this.options = {
+      width: options.width ?? 560,
+    };
+
+    FileInfoPanel.injectStyles();
+  }
+
+  private static injectStyles(): void {
+    if (FileInfoPanel.styleInjected) {
+      return;
+    }
+    FileInfoPanel.styleInjected = true;
+
+    const style = document.createElement('style');
+    style.id = 'excel-file-info-styles';
+    style.textContent = `
+      .excel-file-info {
+        font-size: 13px;
+        color: #1f2937;
+      }
+
+      .excel-file-info-section + .excel-file-info-section {
+        margin-top: 16px;
+      }
+
+      .excel-file-info-heading {
+        margin: 0 0 6px;
+        font-size: 13px;
+        font-weight: 600;
+        color: #4b5563;
+      }
+
+      .excel-file-info-table {
+        width: 100%;
+        border-collapse: collapse;
+        table-layout: fixed;
+      }
+
+      .excel-file-info-table th,
+      .excel-file-info-table td {
+        padding: 4px 8px;
+        border-bottom: 1px solid #f3f4f6;
+        text-align: left;
+        vertical-align: top;
+        word-break: break-word;
+      }
+
+      .excel-file-info-table th {
+        width: 32%;
+        font-weight: normal;
+        color: #6b7280;
+      }
+
+      .excel-file-info-empty {
+        color: #9ca3af;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * 显示工作簿的文件信息
+   */
+  show(workbook: Workbook): void {
+    this.hide();
+    this.dialog = new Dialog({
+      title: '文件信息',
+      content: this.createContent(workbook),
+      width: this.options.width,
+      onClose: () => {
+        this.dialog = null;
+      },
+    });
+  }
+
+  /**
+   * 隐藏面板
+   */
+  hide(): void {
+    this.dialog?.close();
+    this.dialog = null;
+  }
+
+  /**
+   * 是否可见
+   */
+  isVisible(): boolean {
+    return this.dialog !== null;
+  }
+
+  /**
+   * 销毁
+   */
+  destroy(): void {
+    this.hide();
+  }
+
+  private createContent(workbook: Workbook): HTMLElement {
+    const { properties } = workbook;
+    const el = document.createElement('div');
+    el.className = 'excel-file-info';
+
+    el.appendChild(this.createSection('文档属性', [
+      ['标题', properties.title],
+      ['主题', properties.subject],
+      ['作者', properties.creator],
+      ['关键字', properties.keywords],
+      ['备注', properties.description],
+      ['类别', properties.category],
+      ['状态', properties.contentStatus],
+      ['公司', properties.company],
+      ['经理', properties.manager],
+      ['最后修改者', properties.lastModifiedBy],
+      ['创建时间', this.formatDate(properties.created)],
+      ['修改时间', this.formatDate(properties.modified)],
+      ['应用程序', [properties.application, properties.appVersion].filter(Boolean).join(' ')],
+    ]));
+
+    el.appendChild(this.createSection('自定义属性', (properties.custom ?? []).map((property) => [
+      property.name,
+      FileInfoPanel.formatCustomValue(property),
+    ])));
+
+    // 工作表统计 (按类型计数，隐藏的工作表单独计数)
+    const counts = new Map<SheetType, number>();
+    workbook.sheets.forEach((sheet) => counts.set(sheet.type, (counts.get(sheet.type) ?? 0) + 1));
+    const hiddenCount = workbook.sheets.filter((sheet) => sheet.state !== 'visible').length;
+    el.appendChild(this.createSection('工作表', [
+      ['总数', String(workbook.sheets.length)],
+      ...[...counts].map(([type, count]): [string, string] => [SHEET_TYPE_LABELS[type], String(count)]),
+      ['隐藏', hiddenCount > 0 ? String(hiddenCount) : undefined],
+    ]));
+
+    el.appendChild(this.createSection('定义名称', workbook.definedNames
+      .filter((definedName) => !definedName.hidden)
+      .map((definedName) => {
+        const scope = definedName.scope ? workbook.sheets[Number(definedName.scope)]?.name : undefined;
+        const name = definedName.name.replace(/^_xlnm\./, '');
+        return [scope ? `${name} (${scope})` : name, definedName.ref];
+      })));
+
+    el.appendChild(this.createSection('外部链接', (workbook.externalLinks ?? []).map((link) => [
+      `[${link.index}]`,
+      link.sheetNames.length > 0 ? `${link.target} (${link.sheetNames.join(', ')})` : link.target,
+    ])));
+
+    return el;
+  }
+
+  /**
+   * 创建信息分组，值为空的行不显示
+   */
+  private createSection(title: string, rows: Array<[string, string | undefined]>): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'excel-file-info-section';
+
+    const heading = document.createElement('h4');
+    heading.className = 'excel-file-info-heading';
+    heading.textContent = title;
+    section.appendChild(heading);
+
+    const visibleRows = rows.filter(([, value]) => value !== undefined && value !== '');
+    if (visibleRows.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'excel-file-info-empty';
+      empty.textContent = '无';
+      section.appendChild(empty);
+      return section;
+    }
+
+    const table = document.createElement('table');
+    table.className = 'excel-file-info-table';
+    for (const [label, value] of visibleRows) {
+      const tr = table.insertRow();
+      const th = document.createElement('th');
+      th.textContent = label;
+      const td = document.createElement('td');
+      td.textContent = value ?? '';
+      tr.append(th, td);
+    }
+    section.appendChild(table);
+    return section;
+  }
+
+  private formatDate(date: Date | undefined): string | undefined {
+    return date && !isNaN(date.getTime()) ? date.toLocaleString() : undefined;
+  }
+
+  /**
+   * 格式化自定义属性值
+   */
+  static formatCustomValue(property: CustomProperty): string {
+    switch (property.type) {
+      case 'boolean':
+        return property.value ? '是' : '否';
+      case 'date':
+        return property.value instanceof Date ? property.value.toLocaleString() : String(property.value);
+      default:
+        return String(property.value);
+    }
+  }
+}
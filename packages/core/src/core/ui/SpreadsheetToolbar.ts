@@ -29,6 +29,8 @@ export interface SpreadsheetToolbarOptions {
   onZoomChange?: (zoom: number) => void;
   /** 打开文件回调 */
   onOpenFile?: () => void;
+  /** 查看文件信息回调 */
+  onFileInfo?: () => void;
 }
 
 interface ToolbarGroup {
@@ -71,6 +73,7 @@ export class SpreadsheetToolbar {
       onAction: () => { },
       onZoomChange: () => { },
       onOpenFile: () => { },
+      onFileInfo: () => { },
       ...options
     };
     this.currentZoom = this.options.zoom;
@@ -165,6 +168,12 @@ export class SpreadsheetToolbar {
     });
     header.appendChild(openBtn);
 
+    // 文件信息按钮
+    const infoBtn = this.createHeaderButton('文件信息', 'info', () => {
+      this.options.onFileInfo?.();
+    });
+    header.appendChild(infoBtn);
+
     // 缩放控制
     const zoomControl = this.createZoomControl();
     header.appendChild(zoomControl);
@@ -177,6 +186,7 @@ export class SpreadsheetToolbar {
       gap: 4px;
     `;
 
+    actionsGroup.appendChild(this.createHeaderButton('下载', 'download', () => this.emitAction('download')));
     actionsGroup.appendChild(this.createHeaderButton('分享', 'share', () => this.emitAction('share')));
     actionsGroup.appendChild(this.createHeaderButton('打印', 'printer', () => this.emitAction('print')));
     actionsGroup.appendChild(this.createHeaderButton('全屏', 'maximize', () => this.emitAction('fullscreen')));
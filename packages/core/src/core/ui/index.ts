@@ -25,3 +25,9 @@ export type { DialogOptions, DialogButton, AlertOptions, ConfirmOptions, PromptO
 
 export { Dropdown, showMenu } from './Dropdown';
 export type { DropdownOptions, DropdownItem, PopupMenuOptions } from './Dropdown';
+
+export { CommentPopover } from './CommentPopover';
+export type { CommentPopoverOptions } from './CommentPopover';
+
+export { FileInfoPanel } from './FileInfoPanel';
+export type { FileInfoPanelOptions } from './FileInfoPanel';
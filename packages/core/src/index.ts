@@ -58,13 +58,25 @@ export type {
   // 批注
   Comment,
   CommentAnchor,
+  CommentReply,
 
   // 条件格式
   ConditionalFormatType,
   ConditionalOperator,
   DataBarDirection,
   IconSetType,
+  ConditionalTimePeriod,
   ConditionalFormatRule,
+  ConditionalIconShape,
+  ConditionalIcon,
+  ConditionalCellFormat,
+
+  // 迷你图
+  SparklineType,
+  SparklineAxisType,
+  SparklineEmptyCellsAs,
+  Sparkline,
+  SparklineGroup,
 
   // 数据验证
   DataValidationType,
@@ -82,6 +94,8 @@ export type {
   // 图表
   ChartType,
   ChartSeries,
+  ChartAxis,
+  ChartGrouping,
   Chart,
 
   // 图片
@@ -97,6 +111,7 @@ export type {
   TableStyleInfo,
   TableColumn,
   Table,
+  TableCellFormat,
   SortState,
 
   // 打印设置
@@ -105,27 +120,35 @@ export type {
   PageMargins,
   PrintOptions,
   HeaderFooter,
+  PageBreak,
 
   // 工作表视图
   SheetView,
 
   // 工作表保护
   SheetProtection,
+  WorkbookProtection,
 
   // 工作表
   SheetType,
   SheetState,
+  SheetParseState,
   Sheet,
 
   // 命名范围
   DefinedName,
 
+  // 外部链接
+  ExternalLink,
+
   // 样式表
   NumberFormat,
   Stylesheet,
 
   // 工作簿属性
   WorkbookProperties,
+  CustomPropertyType,
+  CustomProperty,
   DocumentProperties,
 
   // 主题
@@ -133,6 +156,10 @@ export type {
   ThemeFonts,
   Theme,
 
+  // 解析诊断
+  ParseDiagnosticSeverity,
+  ParseDiagnostic,
+
   // 工作簿
   Workbook,
 
@@ -171,16 +198,69 @@ export type {
 export { RENDER_THEMES, DEFAULT_RENDER_OPTIONS } from './types';
 
 // 解析器导出
-export { ExcelParser, type ParseOptions, type ParseProgressCallback } from './parser';
+export {
+  ExcelParser,
+  ChartParser,
+  XlsParser,
+  XlsbParser,
+  CsvParser,
+  OdsParser,
+  CfbReader,
+  OfficeCrypto,
+  PasswordError,
+  ParseError,
+  XmlSaxReader,
+  DomXmlBackend,
+  LiteXmlBackend,
+  type ParseOptions,
+  type ParseProgressCallback,
+  type CfbEntry,
+  type XlsbWorkbookInfo,
+  type OdsDocuments,
+  type SaxHandler,
+  type XmlBackend,
+} from './parser';
+
+// 写入器导出
+export { ExcelWriter, type WriteOptions } from './writer';
 
 // 渲染器导出
-export { SheetRenderer, DomRenderer, type Viewport, type DomRendererOptions } from './renderer';
+export {
+  SheetRenderer,
+  DomRenderer,
+  ChartRenderer,
+  type Viewport,
+  type DomRendererOptions,
+  type ChartBounds,
+} from './renderer';
 
 // 事件发射器导出
 export { EventEmitter, type EventListener } from './events';
 
 // 工具类导出
-export { ColorUtils, FormatUtils } from './utils';
+export {
+  ColorUtils,
+  FormatUtils,
+  type ParsedText,
+  type DecimalSeparator,
+  ImageUtils,
+  TableStyleUtils,
+  HyperlinkUtils,
+  FormulaUtils,
+  DateUtils,
+  ProtectionUtils,
+  type ProtectedAction,
+  type ProtectionRangeSource,
+  ConditionalFormatUtils,
+  SparklineUtils,
+  type SparklinePoint,
+  type SparklineBar,
+  type SparklineMarker,
+  type SparklineShape,
+  type SparklineSheetResolver,
+  DataValidationUtils,
+  type ValidationWorkbook,
+} from './utils';
 
 // 新版电子表格核心（v2）
 export { Spreadsheet } from './core';
@@ -0,0 +1,267 @@
+/**
+ * 复合文档读取器
+ * @description 读取 CFB (OLE2 复合文档) 容器，用于 xls 工作簿流和加密 xlsx 的 EncryptionInfo/EncryptedPackage 流
+ */
+
+/**
+ * 复合文档签名
+ */
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/**
+ * 特殊扇区编号
+ */
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECT = 0xffffffff;
+
+/**
+ * 目录项类型
+ */
+const ENTRY_STORAGE = 1;
+const ENTRY_STREAM = 2;
+const ENTRY_ROOT = 5;
+
+/**
+ * 目录项
+ */
+export interface CfbEntry {
+  /** 名称 */
+  name: string;
+  /** 类型 (1 存储, 2 流, 5 根) */
+  type: number;
+  /** 起始扇区 */
+  start: number;
+  /** 流大小 (字节) */
+  size: number;
+  /** 左兄弟 */
+  left: number;
+  /** 右兄弟 */
+  right: number;
+  /** 第一个子项 */
+  child: number;
+}
+
+/**
+ * 复合文档读取器
+ */
+export class CfbReader {
+  private data: Uint8Array;
+  private view: DataView;
+  private sectorSize = 512;
+  private miniSectorSize = 64;
+  private miniStreamCutoff = 4096;
+  private fat: number[] = [];
+  private miniFat: number[] = [];
+  private entries: CfbEntry[] = [];
+  private miniStream: Uint8Array = new Uint8Array(0);
+
+  constructor(data: ArrayBuffer | Uint8Array) {
+    this.data = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.view = new DataView(this.data.buffer, this.data.byteOffset, this.data.byteLength);
+
+    if (!CfbReader.isCfb(this.data)) {
+      throw new Error('无效的复合文档：文件签名不匹配');
+    }
+
+    this.readHeader();
+  }
+
+  /**
+   * 检测数据是否是复合文档
+   */
+  static isCfb(data: ArrayBuffer | Uint8Array): boolean {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (bytes.length < 512) {
+      return false;
+    }
+    return CFB_SIGNATURE.every((b, i) => bytes[i] === b);
+  }
+
+  /**
+   * 获取全部目录项
+   */
+  getEntries(): CfbEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * 按名称获取流内容 (不区分大小写，不存在时返回 null)
+   */
+  getStream(name: string): Uint8Array | null {
+    const lower = name.toLowerCase();
+    const entry = this.entries.find(e => e.type === ENTRY_STREAM && e.name.toLowerCase() === lower);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.size < this.miniStreamCutoff) {
+      return this.readMiniChain(entry.start, entry.size);
+    }
+    return this.readChain(entry.start, entry.size);
+  }
+
+  /**
+   * 读取文件头、FAT、目录和迷你流
+   */
+  private readHeader(): void {
+    const majorVersion = this.view.getUint16(0x1a, true);
+    if (majorVersion !== 3 && majorVersion !== 4) {
+      throw new Error(`不支持的复合文档版本: ${majorVersion}`);
+    }
+
+    this.sectorSize = 1 << this.view.getUint16(0x1e, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniStreamCutoff = this.view.getUint32(0x38, true);
+
+    const numFatSectors = this.view.getUint32(0x2c, true);
+    const firstDirSector = this.view.getUint32(0x30, true);
+    const firstMiniFatSector = this.view.getUint32(0x3c, true);
+    const numMiniFatSectors = this.view.getUint32(0x40, true);
+    let difatSector = this.view.getUint32(0x44, true);
+    const numDifatSectors = this.view.getUint32(0x48, true);
+
+    // DIFAT：文件头中的前 109 项，其余位于 DIFAT 扇区链
+    const fatSectors: number[] = [];
+    for (let i = 0; i < 109 && fatSectors.length < numFatSectors; i++) {
+      fatSectors.push(this.view.getUint32(0x4c + i * 4, true));
+    }
+    const entriesPerSector = this.sectorSize / 4;
+    for (let n = 0; n < numDifatSectors && difatSector !== END_OF_CHAIN && difatSector !== FREE_SECT; n++) {
+      const offset = this.getSectorOffset(difatSector);
+      for (let i = 0; i < entriesPerSector - 1 && fatSectors.length < numFatSectors; i++) {
+        fatSectors.push(this.view.getUint32(offset + i * 4, true));
+      }
+      difatSector = this.view.getUint32(offset + (entriesPerSector - 1) * 4, true);
+    }
+
+    // FAT
+    for (const sector of fatSectors) {
+      const offset = this.getSectorOffset(sector);
+      for (let i = 0; i < entriesPerSector; i++) {
+        this.fat.push(this.view.getUint32(offset + i * 4, true));
+      }
+    }
+
+    // 迷你 FAT
+    if (numMiniFatSectors > 0 && firstMiniFatSector !== END_OF_CHAIN) {
+      const miniFatData = this.readChain(firstMiniFatSector);
+      const miniFatView = new DataView(miniFatData.buffer, miniFatData.byteOffset, miniFatData.byteLength);
+      for (let i = 0; i + 4 <= miniFatData.length; i += 4) {
+        this.miniFat.push(miniFatView.getUint32(i, true));
+      }
+    }
+
+    // 目录
+    const dirData = this.readChain(firstDirSector);
+    const dirView = new DataView(dirData.buffer, dirData.byteOffset, dirData.byteLength);
+    for (let offset = 0; offset + 128 <= dirData.length; offset += 128) {
+      this.entries.push(this.readEntry(dirView, offset, majorVersion));
+    }
+
+    // 根目录项的数据即迷你流
+    const root = this.entries[0];
+    if (!root || root.type !== ENTRY_ROOT) {
+      throw new Error('无效的复合文档：缺少根目录');
+    }
+    if (root.size > 0 && root.start !== END_OF_CHAIN) {
+      this.miniStream = this.readChain(root.start, root.size);
+    }
+  }
+
+  /**
+   * 读取目录项
+   */
+  private readEntry(view: DataView, offset: number, majorVersion: number): CfbEntry {
+    const nameLength = view.getUint16(offset + 64, true);
+    let name = '';
+    for (let i = 0; i + 2 < nameLength && i < 64; i += 2) {
+      name += String.fromCharCode(view.getUint16(offset + i, true));
+    }
+
+    const type = view.getUint8(offset + 66);
+    // 版本 3 的高 32 位可能是无效值，忽略
+    const sizeHigh = majorVersion === 4 ? view.getUint32(offset + 124, true) : 0;
+
+    return {
+      name,
+      type: type === ENTRY_STORAGE || type === ENTRY_STREAM || type === ENTRY_ROOT ? type : 0,
+      left: view.getUint32(offset + 68, true),
+      right: view.getUint32(offset + 72, true),
+      child: view.getUint32(offset + 76, true),
+      start: view.getUint32(offset + 116, true),
+      size: view.getUint32(offset + 120, true) + sizeHigh * 0x100000000,
+    };
+  }
+
+  /**
+   * 获取扇区在文件中的偏移
+   */
+  private getSectorOffset(sector: number): number {
+    const offset = (sector + 1) * this.sectorSize;
+    if (offset >= this.data.length) {
+      throw new Error(`无效的复合文档：扇区 ${sector} 超出文件范围`);
+    }
+    return offset;
+  }
+
+  /**
+   * 按 FAT 扇区链读取数据
+   */
+  private readChain(start: number, size?: number): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let sector = start;
+    let count = 0;
+
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECT) {
+      if (count++ > this.fat.length) {
+        throw new Error('无效的复合文档：扇区链存在循环');
+      }
+      const offset = this.getSectorOffset(sector);
+      chunks.push(this.data.subarray(offset, Math.min(offset + this.sectorSize, this.data.length)));
+      sector = this.fat[sector] ?? END_OF_CHAIN;
+    }
+
+    return CfbReader.concat(chunks, size);
+  }
+
+  /**
+   * 按迷你 FAT 扇区链读取数据
+   */
+  private readMiniChain(start: number, size: number): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let sector = start;
+    let count = 0;
+
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECT) {
+      if (count++ > this.miniFat.length) {
+        throw new Error('无效的复合文档：迷你扇区链存在循环');
+      }
+      const offset = sector * this.miniSectorSize;
+      if (offset >= this.miniStream.length) {
+        throw new Error(`无效的复合文档：迷你扇区 ${sector} 超出范围`);
+      }
+      chunks.push(this.miniStream.subarray(offset, offset + this.miniSectorSize));
+      sector = this.miniFat[sector] ?? END_OF_CHAIN;
+    }
+
+    return CfbReader.concat(chunks, size);
+  }
+
+  /**
+   * 合并数据块并截断到指定大小
+   */
+  private static concat(chunks: Uint8Array[], size?: number): Uint8Array {
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const result = new Uint8Array(size !== undefined ? Math.min(size, total) : total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      if (offset >= result.length) {
+        break;
+      }
+      const part = chunk.subarray(0, result.length - offset);
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+}
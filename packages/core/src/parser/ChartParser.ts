@@ -0,0 +1,498 @@
+/**
+ * 图表解析器
+ * @description 解析 DrawingML 图表部件 (xl/charts/chartN.xml)，提取类型、系列、缓存数据、坐标轴和图例
+ */
+import { XmlUtils } from './XmlUtils';
+import { ColorUtils } from '../utils/ColorUtils';
+import type {
+  Chart,
+  ChartAxis,
+  ChartGrouping,
+  ChartSeries,
+  ChartType,
+  Color,
+  Theme,
+  ThemeColors,
+} from '../types';
+
+/**
+ * 绘图区中图表组元素到图表类型的映射
+ */
+const CHART_GROUP_TYPES: Record<string, ChartType> = {
+  barChart: 'column',
+  bar3DChart: 'column',
+  lineChart: 'line',
+  line3DChart: 'line',
+  pieChart: 'pie',
+  pie3DChart: 'pie',
+  ofPieChart: 'pie',
+  doughnutChart: 'doughnut',
+  areaChart: 'area',
+  area3DChart: 'area',
+  scatterChart: 'scatter',
+  bubbleChart: 'bubble',
+  radarChart: 'radar',
+  stockChart: 'stock',
+  surfaceChart: 'surface',
+  surface3DChart: 'surface',
+};
+
+/**
+ * 坐标轴元素到坐标轴类型的映射
+ */
+const AXIS_TYPES: Record<string, ChartAxis['type']> = {
+  catAx: 'category',
+  valAx: 'value',
+  dateAx: 'date',
+  serAx: 'series',
+};
+
+/**
+ * Office 默认主题颜色 (未解析到主题时使用)
+ */
+const DEFAULT_THEME_COLORS: ThemeColors = {
+  dk1: '000000',
+  lt1: 'FFFFFF',
+  dk2: '44546A',
+  lt2: 'E7E6E6',
+  accent1: '4472C4',
+  accent2: 'ED7D31',
+  accent3: 'A5A5A5',
+  accent4: 'FFC000',
+  accent5: '5B9BD5',
+  accent6: '70AD47',
+  hlink: '0563C1',
+  folHlink: '954F72',
+};
+
+/**
+ * 常用预设颜色
+ */
+const PRESET_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  gray: '808080',
+  orange: 'FFA500',
+};
+
+export class ChartParser {
+  private themeColors: ThemeColors;
+
+  constructor(theme: Theme | null = null) {
+    this.themeColors = theme?.colors ?? DEFAULT_THEME_COLORS;
+  }
+
+  /**
+   * 解析图表文档
+   */
+  parse(doc: Document): Chart | null {
+    const chartEl = XmlUtils.getChild(doc.documentElement, 'chart');
+    const plotArea = XmlUtils.getChild(chartEl, 'plotArea');
+    if (!chartEl || !plotArea) {
+      return null;
+    }
+
+    const chart: Chart = {
+      type: 'column',
+      series: [],
+      axes: [],
+    };
+
+    // 图表组 (多个组即组合图)
+    const groupTypes: ChartType[] = [];
+    XmlUtils.forEachChild(plotArea, (groupEl) => {
+      const baseType = CHART_GROUP_TYPES[groupEl.localName];
+      if (!baseType) {
+        return;
+      }
+
+      const type = baseType === 'column' && this.getVal(groupEl, 'barDir') === 'bar' ? 'bar' : baseType;
+      groupTypes.push(type);
+
+      if (groupTypes.length === 1) {
+        const grouping = this.getVal(groupEl, 'grouping');
+        if (grouping) {
+          chart.grouping = grouping as ChartGrouping;
+        }
+        chart.varyColors = this.getVal(groupEl, 'varyColors') === '1';
+        const holeSize = this.getVal(groupEl, 'holeSize');
+        if (holeSize) {
+          chart.holeSize = parseInt(holeSize, 10);
+        }
+      }
+
+      const scatterStyle = this.getVal(groupEl, 'scatterStyle');
+      XmlUtils.forEachChildByTag(groupEl, 'ser', (serEl) => {
+        const series = this.parseSeries(serEl, type);
+        // 散点图 marker 样式默认不连线
+        if (type === 'scatter' && (scatterStyle === 'marker' || scatterStyle === 'none') && !series.line) {
+          series.line = { width: 0 };
+        }
+        chart.series.push(series);
+      });
+    });
+
+    if (groupTypes.length === 0) {
+      return null;
+    }
+    chart.type = groupTypes.every(t => t === groupTypes[0]) ? groupTypes[0] : 'combo';
+
+    // 坐标轴
+    XmlUtils.forEachChild(plotArea, (axisEl) => {
+      const axisType = AXIS_TYPES[axisEl.localName];
+      if (axisType) {
+        chart.axes?.push(this.parseAxis(axisEl, axisType));
+      }
+    });
+
+    // 标题
+    const titleEl = XmlUtils.getChild(chartEl, 'title');
+    if (titleEl) {
+      chart.title = this.parseTitle(titleEl);
+    } else if (this.getVal(chartEl, 'autoTitleDeleted') !== '1' && chart.series.length === 1) {
+      // 单系列图表默认以系列名作为标题
+      chart.title = chart.series[0].name;
+    }
+
+    // 图例
+    const legendEl = XmlUtils.getChild(chartEl, 'legend');
+    if (legendEl) {
+      const legendPos: Record<string, Chart['legendPosition']> = {
+        t: 'top', b: 'bottom', l: 'left', r: 'right', tr: 'right',
+      };
+      chart.legendPosition = legendPos[this.getVal(legendEl, 'legendPos') || 'r'] ?? 'right';
+    } else {
+      chart.legendPosition = 'none';
+    }
+
+    // 样式
+    const styleEl = XmlUtils.getChild(doc.documentElement, 'style');
+    if (styleEl) {
+      chart.style = XmlUtils.getAttrAsInt(styleEl, 'val');
+    }
+
+    // 日期系统 (val 省略时为 true)
+    const date1904El = XmlUtils.getChild(doc.documentElement, 'date1904');
+    if (date1904El) {
+      chart.date1904 = XmlUtils.getAttrAsBool(date1904El, 'val', true);
+    }
+
+    return chart;
+  }
+
+  /**
+   * 解析系列
+   */
+  private parseSeries(serEl: Element, type: ChartType): ChartSeries {
+    const isXY = type === 'scatter' || type === 'bubble';
+    const catEl = XmlUtils.getChild(serEl, isXY ? 'xVal' : 'cat');
+    const valEl = XmlUtils.getChild(serEl, isXY ? 'yVal' : 'val');
+
+    const series: ChartSeries = {
+      type,
+      values: this.getRefFormula(valEl),
+      valueCache: this.parseNumberCache(valEl),
+    };
+
+    // 系列名称
+    const txEl = XmlUtils.getChild(serEl, 'tx');
+    if (txEl) {
+      const vEl = XmlUtils.getChild(txEl, 'v');
+      series.name = vEl ? XmlUtils.getText(vEl) : this.parseStringCache(txEl)[0];
+    }
+
+    // 分类 / X 值
+    if (catEl) {
+      series.categories = this.getRefFormula(catEl) || undefined;
+      series.categoryCache = this.parseStringCache(catEl);
+      if (isXY) {
+        series.xValueCache = this.parseNumberCache(catEl);
+      }
+    }
+
+    // 颜色与线条
+    const spPr = XmlUtils.getChild(serEl, 'spPr');
+    const fill = this.parseFillColor(spPr);
+    if (fill) {
+      series.fill = fill;
+    }
+    const line = this.parseLine(spPr);
+    if (line) {
+      series.line = line;
+    }
+
+    // 数据点单独颜色
+    XmlUtils.forEachChildByTag(serEl, 'dPt', (dPtEl) => {
+      const idx = parseInt(this.getVal(dPtEl, 'idx'), 10);
+      const color = this.parseFillColor(XmlUtils.getChild(dPtEl, 'spPr'));
+      if (!isNaN(idx) && color) {
+        series.pointColors = series.pointColors ?? {};
+        series.pointColors[idx] = color;
+      }
+    });
+
+    if (this.getVal(serEl, 'smooth') === '1') {
+      series.smooth = true;
+    }
+
+    return series;
+  }
+
+  /**
+   * 解析坐标轴
+   */
+  private parseAxis(axisEl: Element, type: ChartAxis['type']): ChartAxis {
+    const axis: ChartAxis = {
+      id: this.getVal(axisEl, 'axId'),
+      type,
+      deleted: this.getVal(axisEl, 'delete') === '1',
+      majorGridlines: XmlUtils.getChild(axisEl, 'majorGridlines') !== null,
+    };
+
+    const axPos = this.getVal(axisEl, 'axPos');
+    if (axPos) {
+      axis.position = axPos as ChartAxis['position'];
+    }
+
+    const titleEl = XmlUtils.getChild(axisEl, 'title');
+    if (titleEl) {
+      axis.title = this.parseTitle(titleEl);
+    }
+
+    const scaling = XmlUtils.getChild(axisEl, 'scaling');
+    const min = this.getVal(scaling, 'min');
+    const max = this.getVal(scaling, 'max');
+    if (min) {
+      axis.min = parseFloat(min);
+    }
+    if (max) {
+      axis.max = parseFloat(max);
+    }
+    if (this.getVal(scaling, 'orientation') === 'maxMin') {
+      axis.reversed = true;
+    }
+
+    const majorUnit = this.getVal(axisEl, 'majorUnit');
+    if (majorUnit) {
+      axis.majorUnit = parseFloat(majorUnit);
+    }
+
+    const numFmtEl = XmlUtils.getChild(axisEl, 'numFmt');
+    if (numFmtEl) {
+      axis.numFmt = XmlUtils.getAttr(numFmtEl, 'formatCode') || undefined;
+    }
+
+    return axis;
+  }
+
+  /**
+   * 解析标题文本
+   */
+  private parseTitle(titleEl: Element): string | undefined {
+    const txEl = XmlUtils.getChild(titleEl, 'tx');
+    if (!txEl) {
+      return undefined;
+    }
+
+    // 富文本标题
+    const richEl = XmlUtils.getChild(txEl, 'rich');
+    if (richEl) {
+      const paragraphs = XmlUtils.getChildren(richEl, 'p').map(p =>
+        XmlUtils.getChildren(p, 'r').map(r => XmlUtils.getText(XmlUtils.getChild(r, 't'))).join(''),
+      );
+      return paragraphs.join('\n') || undefined;
+    }
+
+    // 引用单元格的标题
+    return this.parseStringCache(txEl)[0];
+  }
+
+  /**
+   * 获取数据引用公式
+   */
+  private getRefFormula(el: Element | null): string {
+    const refEl = XmlUtils.getChild(el, 'numRef') ?? XmlUtils.getChild(el, 'strRef') ??
+      XmlUtils.getChild(el, 'multiLvlStrRef');
+    return XmlUtils.getText(XmlUtils.getChild(refEl, 'f'));
+  }
+
+  /**
+   * 获取缓存数据点 (按 idx 排列)
+   */
+  private getCachePoints(el: Element | null): string[] {
+    if (!el) {
+      return [];
+    }
+
+    const refEl = XmlUtils.getChild(el, 'numRef') ?? XmlUtils.getChild(el, 'strRef');
+    const cacheEl = refEl
+      ? XmlUtils.getChild(refEl, 'numCache') ?? XmlUtils.getChild(refEl, 'strCache')
+      : XmlUtils.getChild(el, 'numLit') ?? XmlUtils.getChild(el, 'strLit');
+
+    // 多级分类只取最内层
+    if (!cacheEl) {
+      const multiEl = XmlUtils.getChild(XmlUtils.getChild(el, 'multiLvlStrRef'), 'multiLvlStrCache');
+      const firstLevel = XmlUtils.getChild(multiEl, 'lvl');
+      return firstLevel ? this.readPoints(firstLevel, XmlUtils.getChild(multiEl, 'ptCount')) : [];
+    }
+
+    return this.readPoints(cacheEl, XmlUtils.getChild(cacheEl, 'ptCount'));
+  }
+
+  /**
+   * 读取缓存中的数据点
+   */
+  private readPoints(container: Element, ptCountEl: Element | null): string[] {
+    const points: string[] = [];
+    const count = XmlUtils.getAttrAsInt(ptCountEl, 'val', 0);
+    for (let i = 0; i < count; i++) {
+      points.push('');
+    }
+
+    XmlUtils.forEachChildByTag(container, 'pt', (ptEl) => {
+      const idx = XmlUtils.getAttrAsInt(ptEl, 'idx', points.length);
+      points[idx] = XmlUtils.getText(XmlUtils.getChild(ptEl, 'v'));
+    });
+
+    return points;
+  }
+
+  /**
+   * 解析字符串缓存
+   */
+  private parseStringCache(el: Element | null): string[] {
+    return this.getCachePoints(el);
+  }
+
+  /**
+   * 解析数值缓存 (缺失的数据点为 null)
+   */
+  private parseNumberCache(el: Element | null): Array<number | null> {
+    return this.getCachePoints(el).map((v) => {
+      if (v === '') {
+        return null;
+      }
+      const num = parseFloat(v);
+      return isNaN(num) ? null : num;
+    });
+  }
+
+  /**
+   * 解析填充颜色
+   */
+  private parseFillColor(spPr: Element | null): Color | undefined {
+    const solidFill = XmlUtils.getChild(spPr, 'solidFill');
+    if (solidFill) {
+      return this.parseDrawingColor(solidFill);
+    }
+
+    // 渐变填充取第一个停止点颜色
+    const gsLst = XmlUtils.getChild(XmlUtils.getChild(spPr, 'gradFill'), 'gsLst');
+    const firstStop = XmlUtils.getChild(gsLst, 'gs');
+    return firstStop ? this.parseDrawingColor(firstStop) : undefined;
+  }
+
+  /**
+   * 解析线条
+   */
+  private parseLine(spPr: Element | null): ChartSeries['line'] | undefined {
+    const lnEl = XmlUtils.getChild(spPr, 'ln');
+    if (!lnEl) {
+      return undefined;
+    }
+
+    if (XmlUtils.getChild(lnEl, 'noFill')) {
+      return { width: 0 };
+    }
+
+    const line: NonNullable<ChartSeries['line']> = {};
+    const w = XmlUtils.getAttrAsInt(lnEl, 'w');
+    if (w) {
+      // 线宽单位为 EMU
+      line.width = Math.max(1, Math.round(w / 12700));
+    }
+    const color = this.parseDrawingColor(XmlUtils.getChild(lnEl, 'solidFill'));
+    if (color) {
+      line.color = color;
+    }
+
+    return line;
+  }
+
+  /**
+   * 解析 DrawingML 颜色 (srgbClr / schemeClr / sysClr / prstClr 及亮度调整)
+   */
+  private parseDrawingColor(parent: Element | null): Color | undefined {
+    const colorEl = XmlUtils.getChildren(parent).find(el =>
+      ['srgbClr', 'schemeClr', 'sysClr', 'prstClr'].includes(el.localName),
+    );
+    if (!colorEl) {
+      return undefined;
+    }
+
+    const val = XmlUtils.getAttr(colorEl, 'val');
+    let hex: string;
+    switch (colorEl.localName) {
+      case 'srgbClr':
+        hex = val;
+        break;
+      case 'schemeClr':
+        hex = this.resolveSchemeColor(val);
+        break;
+      case 'sysClr':
+        hex = XmlUtils.getAttr(colorEl, 'lastClr', val === 'window' ? 'FFFFFF' : '000000');
+        break;
+      default:
+        hex = PRESET_COLORS[val] ?? '000000';
+    }
+
+    // 亮度调整
+    const lumMod = XmlUtils.getAttrAsInt(XmlUtils.getChild(colorEl, 'lumMod'), 'val', 100000) / 100000;
+    const lumOff = XmlUtils.getAttrAsInt(XmlUtils.getChild(colorEl, 'lumOff'), 'val', 0) / 100000;
+    if (lumMod !== 1 || lumOff !== 0) {
+      const rgb = ColorUtils.hexToRgb(hex);
+      if (rgb) {
+        const hsl = ColorUtils.rgbToHsl(rgb.r, rgb.g, rgb.b);
+        const l = Math.max(0, Math.min(1, hsl.l * lumMod + lumOff));
+        const adjusted = ColorUtils.hslToRgb(hsl.h, hsl.s, l);
+        hex = ColorUtils.rgbToHex(adjusted.r, adjusted.g, adjusted.b).substring(1);
+      }
+    }
+
+    const shade = XmlUtils.getChild(colorEl, 'shade');
+    if (shade) {
+      hex = ColorUtils.applyTint(hex, XmlUtils.getAttrAsInt(shade, 'val', 100000) / 100000 - 1);
+    }
+    const tint = XmlUtils.getChild(colorEl, 'tint');
+    if (tint) {
+      hex = ColorUtils.applyTint(hex, 1 - XmlUtils.getAttrAsInt(tint, 'val', 100000) / 100000);
+    }
+
+    return { rgb: hex.toUpperCase() };
+  }
+
+  /**
+   * 解析主题配色方案中的颜色
+   */
+  private resolveSchemeColor(name: string): string {
+    const aliases: Record<string, keyof ThemeColors> = {
+      tx1: 'dk1',
+      bg1: 'lt1',
+      tx2: 'dk2',
+      bg2: 'lt2',
+    };
+    const key = (aliases[name] ?? name) as keyof ThemeColors;
+    return this.themeColors[key] ?? DEFAULT_THEME_COLORS.accent1;
+  }
+
+  /**
+   * 获取子元素的 val 属性
+   */
+  private getVal(el: Element | null, childName: string): string {
+    return XmlUtils.getAttr(XmlUtils.getChild(el, childName), 'val');
+  }
+}
@@ -0,0 +1,499 @@
+/**
+ * CSV/TSV 文件解析器
+ * @description 自动检测编码、分隔符和引号，识别数字、百分比、日期和布尔值，输出与 xlsx 相同的工作簿结构
+ */
+import { XmlUtils } from './XmlUtils';
+import { FormatUtils, type ParsedText, type DecimalSeparator } from '../utils/FormatUtils';
+import type { ParseOptions } from './ExcelParser';
+import type { Workbook, Sheet, Cell, CellStyle, NumberFormat } from '../types';
+
+/**
+ * 可自动检测的分隔符
+ */
+const DELIMITERS = [',', '\t', ';', '|'];
+
+/**
+ * 检测分隔符和引号时读取的行数
+ */
+const SAMPLE_LINES = 20;
+
+/**
+ * 检测文本内容时读取的字节数
+ */
+const SAMPLE_BYTES = 4096;
+
+/**
+ * 自动列宽的最大值 (字符)
+ */
+const MAX_COLUMN_WIDTH = 60;
+
+/**
+ * 默认列宽 (字符)
+ */
+const DEFAULT_COLUMN_WIDTH = 8.43;
+
+/**
+ * 自定义数字格式的起始 ID
+ */
+const CUSTOM_NUM_FMT_ID = 164;
+
+/**
+ * 不是 CSV 的文件头：ZIP (PK\x03\x04) 和复合文档 (D0 CF 11 E0)
+ */
+const BINARY_SIGNATURES = [
+  [0x50, 0x4b, 0x03, 0x04],
+  [0xd0, 0xcf, 0x11, 0xe0],
+];
+
+export class CsvParser {
+  private options: ParseOptions;
+
+  constructor(options: ParseOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 检测数据是否可能是 CSV/TSV 文件
+   * @description ZIP 和复合文档 (包括扩展名被改为 .csv 的 xlsx/xls) 不是 CSV；
+   * 其余扩展名为 .csv 或 .tsv 时直接识别，否则按开头内容是否为可打印文本判断
+   * @param fileName 文件名 (可选)
+   */
+  static isCsv(data: ArrayBuffer | Uint8Array, fileName?: string): boolean {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (BINARY_SIGNATURES.some(signature => signature.every((b, i) => bytes[i] === b))) {
+      return false;
+    }
+
+    if (fileName && /\.(csv|tsv)$/i.test(fileName)) {
+      return true;
+    }
+    if (bytes.length === 0) {
+      return false;
+    }
+    if (this.detectBomEncoding(bytes) !== null || this.detectUtf16(bytes) !== null) {
+      return true;
+    }
+    return this.isPrintableText(bytes.subarray(0, SAMPLE_BYTES));
+  }
+
+  /**
+   * 检测字节是否为可打印文本
+   * @description 除制表符和换行外不含控制字符；含非 ASCII 字节时还需能按 UTF-8 或 GB18030 无错解码 (忽略末尾被截断的字符)，
+   * 且包含换行或分隔符，以排除恰好能解码的二进制数据
+   */
+  private static isPrintableText(sample: Uint8Array): boolean {
+    let ascii = true;
+    for (const byte of sample) {
+      if ((byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) || byte === 0x7f) {
+        return false;
+      }
+      ascii = ascii && byte < 0x80;
+    }
+    if (ascii) {
+      return true;
+    }
+
+    return ['utf-8', 'gb18030'].some(encoding => {
+      try {
+        const text = new TextDecoder(encoding).decode(sample);
+        return !text.slice(0, -1).includes('\ufffd') && /[\r\n,\t;|]/.test(text);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * 解析 CSV/TSV 文件
+   */
+  parse(data: ArrayBuffer | Uint8Array): Workbook {
+    this.reportProgress(5, '读取文本...');
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const text = this.decode(bytes);
+
+    const delimiter = this.options.delimiter
+      ?? (this.options.fileName && /\.tsv$/i.test(this.options.fileName) ? '\t' : this.detectDelimiter(text));
+    const quote = this.detectQuote(text, delimiter);
+    this.reportProgress(20, '解析文本完成');
+
+    const records = this.tokenize(text, delimiter, quote);
+    const decimalSeparator = this.options.decimalSeparator ?? this.detectDecimalSeparator(records, delimiter);
+    this.reportProgress(50, '读取记录完成');
+
+    const numFmts: NumberFormat[] = [];
+    const cellXfs: CellStyle[] = [{ numFmtId: 0, numFmt: 'General' }];
+    const sheet = this.createSheet(records, decimalSeparator, numFmts, cellXfs);
+    this.reportProgress(100, '解析完成');
+
+    return {
+      sheets: [sheet],
+      activeSheet: 0,
+      styles: {
+        numFmts,
+        fonts: [],
+        fills: [],
+        borders: [],
+        cellXfs,
+        cellStyleXfs: [],
+        cellStyles: [],
+        dxfs: [],
+      },
+      definedNames: [],
+      properties: {},
+      workbookProperties: {
+        date1904: false,
+      },
+      sharedStrings: [],
+    };
+  }
+
+  /**
+   * 报告进度
+   */
+  private reportProgress(progress: number, message: string): void {
+    if (this.options.onProgress) {
+      this.options.onProgress(progress, message);
+    }
+  }
+
+  /**
+   * 解码文本
+   * @description 优先使用 BOM 和 encoding 选项；否则按 UTF-16 (无 BOM)、UTF-8 的顺序尝试，都不是时按 GB18030 解码
+   */
+  private decode(bytes: Uint8Array): string {
+    const bomEncoding = CsvParser.detectBomEncoding(bytes);
+    if (bomEncoding) {
+      // TextDecoder 默认去掉 BOM
+      return new TextDecoder(bomEncoding).decode(bytes);
+    }
+    if (this.options.encoding) {
+      return new TextDecoder(this.options.encoding).decode(bytes);
+    }
+
+    const utf16 = CsvParser.detectUtf16(bytes);
+    if (utf16) {
+      return new TextDecoder(utf16).decode(bytes);
+    }
+
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      // GB18030 兼容 GBK 和 GB2312
+      try {
+        return new TextDecoder('gb18030').decode(bytes);
+      } catch {
+        return new TextDecoder('utf-8').decode(bytes);
+      }
+    }
+  }
+
+  /**
+   * 根据 BOM 检测编码
+   */
+  private static detectBomEncoding(bytes: Uint8Array): string | null {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+      return 'utf-8';
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      return 'utf-16le';
+    }
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      return 'utf-16be';
+    }
+    return null;
+  }
+
+  /**
+   * 检测无 BOM 的 UTF-16 文本 (ASCII 字符的高字节为 0)
+   */
+  private static detectUtf16(bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null {
+    const length = Math.min(bytes.length, SAMPLE_BYTES) & ~1;
+    if (length < 4) {
+      return null;
+    }
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < length; i += 2) {
+      if (bytes[i] === 0) {
+        evenZeros++;
+      }
+      if (bytes[i + 1] === 0) {
+        oddZeros++;
+      }
+    }
+
+    const pairs = length / 2;
+    if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) {
+      return 'utf-16le';
+    }
+    if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) {
+      return 'utf-16be';
+    }
+    return null;
+  }
+
+  /**
+   * 检测分隔符
+   * @description 取前若干行，选择各行字段数最一致且字段最多的分隔符
+   */
+  private detectDelimiter(text: string): string {
+    let best = ',';
+    let bestScore = 0;
+
+    for (const delimiter of DELIMITERS) {
+      const records = this.tokenize(text, delimiter, '"', SAMPLE_LINES)
+        .filter(record => record.length > 1 || record[0] !== '');
+      if (records.length === 0) {
+        continue;
+      }
+
+      // 字段数的众数及其出现的行数
+      const counts = new Map<number, number>();
+      records.forEach(record => counts.set(record.length, (counts.get(record.length) ?? 0) + 1));
+      let mode = 1;
+      let modeLines = 0;
+      counts.forEach((lines, fields) => {
+        if (lines > modeLines || (lines === modeLines && fields > mode)) {
+          mode = fields;
+          modeLines = lines;
+        }
+      });
+      if (mode < 2) {
+        continue;
+      }
+
+      const score = (modeLines / records.length) * 1000 + mode;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 检测数字的小数点
+   * @description 逗号分隔的文件中逗号只能是千位分隔符；其他分隔符按样本中可以明确判断的数字 (如 3,14、1.234,5、3.14)
+   * 统计，无法判断时分号分隔的文件按欧洲习惯使用逗号作小数点 (与 Excel 按区域设置选择列表分隔符一致)
+   */
+  private detectDecimalSeparator(records: string[][], delimiter: string): DecimalSeparator {
+    if (delimiter === ',') {
+      return '.';
+    }
+
+    let commaVotes = 0;
+    let dotVotes = 0;
+    for (const record of records.slice(0, SAMPLE_LINES * 5)) {
+      for (const field of record) {
+        const text = field.trim().replace(/%$/, '');
+        // 小数部分不是 3 位，或两种符号同时出现时可以确定小数点
+        if (/^[+-]?\d*,(\d{1,2}|\d{4,})$/.test(text) || /^[+-]?\d{1,3}(\.\d{3})+,\d+$/.test(text)) {
+          commaVotes++;
+        } else if (/^[+-]?\d*\.(\d{1,2}|\d{4,})$/.test(text) || /^[+-]?\d{1,3}(,\d{3})+\.\d+$/.test(text)) {
+          dotVotes++;
+        }
+      }
+    }
+
+    if (commaVotes !== dotVotes) {
+      return commaVotes > dotVotes ? ',' : '.';
+    }
+    return delimiter === ';' ? ',' : '.';
+  }
+
+  /**
+   * 检测引号字符
+   * @description 字段以单引号包裹且没有双引号包裹的字段时使用单引号，否则使用双引号
+   */
+  private detectQuote(text: string, delimiter: string): string {
+    const sample = text.split(/\r\n|\n|\r/, SAMPLE_LINES).join('\n');
+    const escaped = delimiter.replace(/[|\\]/g, '\\$&');
+    const count = (quote: string): number => {
+      const pattern = new RegExp(`(^|${escaped})${quote}[^${quote}\\n]*${quote}(?=${escaped}|$)`, 'gm');
+      return sample.match(pattern)?.length ?? 0;
+    };
+    return count('\'') > 0 && count('"') === 0 ? '\'' : '"';
+  }
+
+  /**
+   * 拆分记录和字段
+   * @description 引号内可以包含分隔符和换行，连续两个引号表示一个引号字符；支持 CRLF、LF 和 CR 换行
+   * @param maxRecords 最多读取的记录数
+   */
+  private tokenize(text: string, delimiter: string, quote: string, maxRecords = Infinity): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let i = 0;
+
+    const endRecord = (): void => {
+      record.push(field);
+      records.push(record);
+      field = '';
+      record = [];
+    };
+
+    while (i < text.length && records.length < maxRecords) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === quote) {
+          if (text[i + 1] === quote) {
+            field += quote;
+            i += 2;
+            continue;
+          }
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        i++;
+        continue;
+      }
+
+      if (char === quote && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        record.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        endRecord();
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+      } else {
+        field += char;
+      }
+      i++;
+    }
+
+    if (records.length < maxRecords && (field !== '' || record.length > 0)) {
+      endRecord();
+    }
+    return records;
+  }
+
+  /**
+   * 创建工作表
+   * @description 工作表名称取自文件名；列宽按内容长度自动调整
+   */
+  private createSheet(
+    records: string[][],
+    decimalSeparator: DecimalSeparator,
+    numFmts: NumberFormat[],
+    cellXfs: CellStyle[],
+  ): Sheet {
+    const baseName = this.options.fileName?.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '').slice(0, 31);
+    const name = baseName ? baseName : 'Sheet1';
+    const sheet: Sheet = {
+      id: 'sheet1',
+      name,
+      type: 'worksheet',
+      state: 'visible',
+      index: 0,
+      rows: new Map(),
+      columns: new Map(),
+      cells: new Map(),
+      mergeCells: [],
+      dataValidations: [],
+      conditionalFormats: [],
+      sparklineGroups: [],
+      hyperlinks: new Map(),
+      comments: new Map(),
+      images: [],
+      charts: [],
+      tables: [],
+      pivotTables: [],
+      views: [],
+    };
+
+    const styleIndexes = new Map<string, number>();
+    const columnWidths: number[] = [];
+    let maxCol = -1;
+
+    records.forEach((record, row) => {
+      record.forEach((text, col) => {
+        if (text === '') {
+          return;
+        }
+        const parsed = FormatUtils.parseText(text, decimalSeparator);
+        const cell = this.createCell(row, col, text, parsed);
+
+        const numFmt = parsed?.numFmt;
+        if (numFmt && this.options.parseStyles !== false) {
+          let styleIndex = styleIndexes.get(numFmt);
+          if (styleIndex === undefined) {
+            const numFmtId = CUSTOM_NUM_FMT_ID + numFmts.length;
+            numFmts.push({ id: numFmtId, formatCode: numFmt });
+            styleIndex = cellXfs.length;
+            cellXfs.push({ numFmtId, numFmt });
+            styleIndexes.set(numFmt, styleIndex);
+          }
+          cell.styleIndex = styleIndex;
+          cell.style = cellXfs[styleIndex];
+        }
+
+        sheet.cells.set(cell.address, cell);
+        columnWidths[col] = Math.max(columnWidths[col] ?? 0, this.measureText(text));
+        maxCol = Math.max(maxCol, col);
+      });
+    });
+
+    columnWidths.forEach((textWidth, index) => {
+      const width = Math.min(textWidth + 1, MAX_COLUMN_WIDTH);
+      if (width > DEFAULT_COLUMN_WIDTH) {
+        sheet.columns.set(index, {
+          index,
+          width,
+          pixelWidth: Math.round(width * 7 + 5), // Excel 近似转换
+          hidden: false,
+          customWidth: true,
+        });
+      }
+    });
+
+    if (records.length > 0 && maxCol >= 0) {
+      const start = { row: 0, col: 0 };
+      const end = { row: records.length - 1, col: maxCol };
+      sheet.dimension = {
+        start,
+        end,
+        ref: `${XmlUtils.formatCellAddress(0, 0)}:${XmlUtils.formatCellAddress(end.row, end.col)}`,
+      };
+    }
+
+    return sheet;
+  }
+
+  /**
+   * 创建单元格，显示文本保留文件中的原文，布尔值与 Excel 一致显示为 TRUE/FALSE
+   */
+  private createCell(row: number, col: number, text: string, parsed: ParsedText | null): Cell {
+    const address = XmlUtils.formatCellAddress(row, col);
+    if (!parsed) {
+      return { address, row, col, value: text, type: 'string', text };
+    }
+    if (parsed.type === 'boolean') {
+      return { address, row, col, value: parsed.value, type: 'boolean', text: parsed.value ? 'TRUE' : 'FALSE' };
+    }
+    return { address, row, col, value: parsed.value, type: parsed.type, text: text.trim() };
+  }
+
+  /**
+   * 估算文本宽度 (字符单位，全角字符按两个字符计算)
+   */
+  private measureText(text: string): number {
+    let width = 0;
+    for (const line of text.split(/\r\n|\n|\r/)) {
+      let lineWidth = 0;
+      for (const char of line) {
+        lineWidth += char.charCodeAt(0) > 0xff ? 2 : 1;
+      }
+      width = Math.max(width, lineWidth);
+    }
+    return width;
+  }
+}
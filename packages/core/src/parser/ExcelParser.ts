@@ -1,9 +1,33 @@
 /**
  * Excel 文件解析器
- * @description 解析 xlsx 文件格式，提取工作簿、工作表、样式等数据
+ * @description 解析 xlsx 文件格式，提取工作簿、工作表、样式等数据 (xls 文件交由 XlsParser 解析，
+ * xlsb 的二进制部件交由 XlsbParser 解析)
  */
 import JSZip from 'jszip';
 import { XmlUtils } from './XmlUtils';
+import type { XmlBackend } from './XmlBackend';
+import { ChartParser } from './ChartParser';
+import { XlsParser } from './XlsParser';
+import { XlsbParser } from './XlsbParser';
+import { CsvParser } from './CsvParser';
+import { OdsParser } from './OdsParser';
+import { OfficeCrypto } from './OfficeCrypto';
+import { ParseWorkerClient } from './ParseWorkerClient';
+import type { RawRow, RawCell } from './WorksheetStreamReader';
+import {
+  RowChunkCodec,
+  CHUNK_CELL_TYPES,
+  CHUNK_FORMULA_TYPES,
+  ROW_FLAG_HIDDEN,
+  ROW_FLAG_CUSTOM_HEIGHT,
+  ROW_FLAG_COLLAPSED,
+  type RowChunk,
+} from './RowChunk';
+import { HyperlinkUtils } from '../utils/HyperlinkUtils';
+import { FormatUtils, type DecimalSeparator } from '../utils/FormatUtils';
+import { FormulaUtils } from '../utils/FormulaUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { DataValidationUtils } from '../utils/DataValidationUtils';
 import type {
   Workbook,
   Sheet,
@@ -20,19 +44,38 @@ import type {
   MergeCell,
   Hyperlink,
   Comment,
+  CommentAnchor,
+  CommentReply,
   FreezePane,
   AutoFilter,
+  FilterCriteria,
+  SortState,
   DataValidation,
   ConditionalFormatRule,
+  ConditionalTimePeriod,
+  SparklineGroup,
+  SparklineType,
+  SparklineAxisType,
   Image,
+  ImageType,
+  ImagePositionType,
   Chart,
   Table,
+  TableColumn,
   DefinedName,
   Stylesheet,
   Theme,
   DocumentProperties,
+  CustomProperty,
+  ExternalLink,
+  ParseDiagnostic,
+  ParseDiagnosticSeverity,
   SheetView,
+  SheetProtection,
+  WorkbookProtection,
   PrintOptions,
+  PaperSize,
+  PageBreak,
   CellFormula,
   RichText,
   RichTextRun,
@@ -71,70 +114,187 @@ export interface ParseOptions {
   parseConditionalFormats?: boolean;
   /** 是否解析公式 */
   parseFormulas?: boolean;
+  /** 是否延迟解析工作表 (parse 只读取工作表列表，内容在调用 loadSheet 时解析) */
+  lazySheets?: boolean;
+  /**
+   * 恢复模式
+   * @description 部件缺失或 XML 格式错误时记录诊断信息 (Workbook.diagnostics) 并跳过该部分内容，尽可能继续解析。
+   * 关闭时 (默认) 工作表、样式等部件损坏会使解析失败；找不到工作簿部件时总是解析失败
+   */
+  recover?: boolean;
+  /** 文件名 (用于按扩展名识别 CSV/TSV 文件，并作为 CSV 工作表名称) */
+  fileName?: string;
+  /** CSV 分隔符，默认自动检测 (逗号、制表符、分号或竖线；.tsv 文件为制表符) */
+  delimiter?: string;
+  /** CSV 文本编码 (TextDecoder 支持的编码名，如 gbk)，默认按 BOM 和内容自动检测 */
+  encoding?: string;
+  /** CSV 数字的小数点 (. 或 ,)，默认按分隔符和内容自动检测 */
+  decimalSeparator?: DecimalSeparator;
   /** 进度回调 */
   onProgress?: ParseProgressCallback;
   /** 密码 (用于加密文件) */
   password?: string;
+  /** 解析 Worker 脚本地址 (dist/worker.js)，设置后在 Web Worker 中解压并流式读取工作表 */
+  workerUrl?: string | URL;
+  /** 取消信号 */
+  signal?: AbortSignal;
+  /** XML 解析后端，默认在有 DOMParser 的环境中使用 DOMParser，否则使用内置的无 DOM 实现 (如 Node.js) */
+  xmlBackend?: XmlBackend;
 }
 
 /**
  * 默认解析选项
  */
-const DEFAULT_PARSE_OPTIONS: Required<Omit<ParseOptions, 'onProgress' | 'password'>> = {
+const DEFAULT_PARSE_OPTIONS: Required<Omit<ParseOptions, 'onProgress' | 'password' | 'workerUrl' | 'signal' | 'xmlBackend' | 'fileName' | 'delimiter' | 'encoding' | 'decimalSeparator'>> = {
   parseStyles: true,
   parseImages: true,
   parseCharts: true,
   parseComments: true,
   parseDataValidations: true,
   parseConditionalFormats: true,
-  parseFormulas: true
+  parseFormulas: true,
+  lazySheets: false,
+  recover: false,
+};
+
+/**
+ * 关系定义
+ */
+interface Relationship {
+  /** 目标路径 (内部部件为 ZIP 内的完整路径) */
+  target: string;
+  /** 关系类型 */
+  type: string;
+  /** 目标模式 (External 表示外部链接) */
+  targetMode?: string;
+}
+
+/**
+ * 单元格字段 (来自 c 元素或 Worker 返回的列式数据块)
+ */
+interface CellSource {
+  address: string;
+  row: number;
+  col: number;
+  /** t 属性 */
+  type: string;
+  styleIndex?: number;
+  /** v 元素文本 */
+  value?: string;
+  /** 数值形式的 v 元素 (列式数据块中已转换) */
+  number?: number;
+  /** 内联字符串 */
+  inlineString?: string;
+  formula?: { text: string; type: string; ref?: string; si?: number };
+  /** 单元格元数据索引 (cm 属性) */
+  metadata?: number;
+}
+
+/**
+ * 绘图对象锚点
+ */
+interface DrawingAnchor {
+  positionType: ImagePositionType;
+  from: { col: number; colOff: number; row: number; rowOff: number };
+  to?: { col: number; colOff: number; row: number; rowOff: number };
+  position?: { x: number; y: number };
+  width?: number;
+  height?: number;
+}
+
+/**
+ * EMU 与像素换算 (1 像素 = 9525 EMU)
+ */
+const EMU_PER_PIXEL = 9525;
+
+/**
+ * 图片扩展名到类型的映射
+ */
+const IMAGE_TYPES: Record<string, ImageType> = {
+  png: 'png',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  jpe: 'jpeg',
+  gif: 'gif',
+  bmp: 'bmp',
+  tif: 'tiff',
+  tiff: 'tiff',
+  emf: 'emf',
+  wmf: 'wmf',
 };
 
 /**
- * 内置数字格式
+ * 纸张大小编号 (pageSetup 的 paperSize 属性) 到纸张类型的映射
  */
-const BUILTIN_NUM_FMTS: Record<number, string> = {
-  0: 'General',
-  1: '0',
-  2: '0.00',
-  3: '#,##0',
-  4: '#,##0.00',
-  9: '0%',
-  10: '0.00%',
-  11: '0.00E+00',
-  12: '# ?/?',
-  13: '# ??/??',
-  14: 'mm-dd-yy',
-  15: 'd-mmm-yy',
-  16: 'd-mmm',
-  17: 'mmm-yy',
-  18: 'h:mm AM/PM',
-  19: 'h:mm:ss AM/PM',
-  20: 'h:mm',
-  21: 'h:mm:ss',
-  22: 'm/d/yy h:mm',
-  37: '#,##0 ;(#,##0)',
-  38: '#,##0 ;[Red](#,##0)',
-  39: '#,##0.00;(#,##0.00)',
-  40: '#,##0.00;[Red](#,##0.00)',
-  45: 'mm:ss',
-  46: '[h]:mm:ss',
-  47: 'mmss.0',
-  48: '##0.0E+0',
-  49: '@'
+export const PAPER_SIZES: Record<number, PaperSize> = {
+  1: 'letter',
+  3: 'tabloid',
+  5: 'legal',
+  7: 'executive',
+  8: 'a3',
+  9: 'a4',
+  11: 'a5',
+  12: 'b4',
+  13: 'b5',
+  14: 'folio',
+  15: 'quarto',
 };
 
+/**
+ * 文件解析失败
+ * @description 文件包无法读取或缺少工作簿等必需部件时抛出 (恢复模式下也无法继续)，
+ * diagnostics 包含此前记录的诊断信息和最后的致命错误
+ */
+export class ParseError extends Error {
+  /** 出错的部件路径 (文件包本身无法读取时为文件名) */
+  readonly part: string;
+  readonly diagnostics: ParseDiagnostic[];
+
+  constructor(message: string, part: string, diagnostics: ParseDiagnostic[]) {
+    super(message);
+    this.name = 'ParseError';
+    this.part = part;
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * 文件包本身出错且没有文件名时的部件路径
+ */
+const PACKAGE_PART = '(文件包)';
+
 /**
  * Excel 文件解析器
  */
 export class ExcelParser {
   private zip: JSZip | null = null;
-  private options: Required<Omit<ParseOptions, 'onProgress' | 'password'>> & ParseOptions;
+  /** 解析的 ZIP 文件包数据 (加密文件为解密后的数据) */
+  private packageData: ArrayBuffer | Uint8Array | null = null;
+  /** Worker 模式下解压的部件 */
+  private files: Map<string, Uint8Array> | null = null;
+  /** Worker 模式下流式读取的工作表行数据块 */
+  private streamedRows: Map<string, RowChunk[]> = new Map();
+  private options: Required<Omit<ParseOptions, 'onProgress' | 'password' | 'workerUrl' | 'signal' | 'xmlBackend' | 'fileName' | 'delimiter' | 'encoding' | 'decimalSeparator'>> & ParseOptions;
   private sharedStrings: Array<string | RichText> = [];
   private stylesheet: Stylesheet | null = null;
   private theme: Theme | null = null;
-  private relationships: Map<string, { target: string; type: string }> = new Map();
-  private workbookRelationships: Map<string, { target: string; type: string }> = new Map();
+  private relationships: Map<string, Relationship> = new Map();
+  private workbookRelationships: Map<string, Relationship> = new Map();
+  private workbookPath = 'xl/workbook.xml';
+  private xlsb: XlsbParser | null = null;
+  private persons: Map<string, string> = new Map();
+  /** 是否使用 1904 日期系统 */
+  private date1904 = false;
+  /** 定义名称 (用于读取各工作表的打印区域和打印标题) */
+  private definedNames: DefinedName[] = [];
+  /** 工作表列表 (延迟解析模式下解析工作表后用于补全数据验证的列表选项) */
+  private sheets: Sheet[] = [];
+  /** 表示动态数组公式的单元格元数据索引 (c 元素的 cm 属性，从 1 开始) */
+  private dynamicArrayMetadata: Set<number> = new Set();
+  /** 延迟解析模式下尚未解析的工作表 */
+  private sheetLoaders: Map<Sheet, { load: () => Promise<Sheet>; promise?: Promise<Sheet> }> = new Map();
+  /** 解析诊断信息 (缺失或损坏的部件) */
+  private diagnostics: ParseDiagnostic[] = [];
 
   constructor(options: ParseOptions = {}) {
     this.options = { ...DEFAULT_PARSE_OPTIONS, ...options };
@@ -145,42 +305,198 @@ export class ExcelParser {
    */
   async parse(data: ArrayBuffer | Uint8Array | Blob | File): Promise<Workbook> {
     this.reportProgress(0, '开始解析...');
+    this.diagnostics = [];
+    this.packageData = null;
+
+    // File 对象的文件名用于识别 CSV/TSV 文件
+    const fileName = this.options.fileName ?? ('name' in data && typeof data.name === 'string' ? data.name : undefined);
 
-    // 加载 ZIP 文件
-    if (data instanceof Blob || data instanceof File) {
+    // 加载 ZIP 文件 (不依赖 Blob 全局对象，以便在 Node.js 中使用)
+    if ('arrayBuffer' in data) {
       data = await data.arrayBuffer();
     }
 
-    this.zip = await JSZip.loadAsync(data);
+    // 加密的 xlsx/xlsb 为复合文档，需先解密出 ZIP 包
+    if (OfficeCrypto.isEncrypted(data)) {
+      this.reportProgress(5, '解密文件...');
+      data = await OfficeCrypto.decrypt(data, this.options.password);
+    }
+
+    // xls (BIFF8) 文件使用复合文档容器而非 ZIP
+    if (XlsParser.isXls(data)) {
+      const workbook = new XlsParser(this.options).parse(data);
+      workbook.diagnostics = this.diagnostics;
+      workbook.sheets.forEach(sheet => this.applyPrintNames(sheet, workbook.definedNames));
+      DataValidationUtils.resolveListValues(workbook);
+      this.reportProgress(100, '解析完成');
+      return workbook;
+    }
+
+    // CSV/TSV 文本文件
+    if (CsvParser.isCsv(data, fileName)) {
+      const workbook = new CsvParser({ ...this.options, fileName }).parse(data);
+      workbook.diagnostics = this.diagnostics;
+      return workbook;
+    }
+
+    // 文件包损坏 (如下载不完整) 时无法恢复，记录致命诊断信息后抛出 ParseError
+    // 未提供文件名或文件名为空 (如 new Blob() 或 new File([], '')) 时使用通用名称
+    const packagePart = fileName !== undefined && fileName !== '' ? fileName : PACKAGE_PART;
+    if (this.options.workerUrl) {
+      // Worker 负责解压和工作表分词，主线程只处理部件结构和样式
+      const buffer = data instanceof Uint8Array ? data.slice().buffer : data.slice(0);
+      try {
+        const result = await ParseWorkerClient.run(
+          this.options.workerUrl,
+          buffer,
+          (loaded, total) => this.reportProgress(Math.round((loaded / total) * 10), '解压文件...'),
+          this.options.signal,
+        );
+        this.files = result.files;
+        this.streamedRows = result.rows;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw error;
+        }
+        throw this.fatal(packagePart, error instanceof Error ? error.message : String(error));
+      }
+    } else {
+      try {
+        this.zip = await JSZip.loadAsync(data);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw this.fatal(packagePart, `无效的 Excel 文件：无法读取 ZIP 文件包 (${reason})`);
+      }
+    }
+    this.throwIfAborted();
     this.reportProgress(10, '解压文件完成');
 
+    // OpenDocument 电子表格以 mimetype 部件标识
+    if (OdsParser.isOds(await this.readText('mimetype'))) {
+      return this.parseOds();
+    }
+    this.packageData = data;
+
     // 解析关系文件
     await this.parseRelationships();
     this.reportProgress(15, '解析关系文件完成');
 
+    // xlsb 的工作簿、工作表、样式和共享字符串为 BIFF12 记录流
+    if (this.workbookPath.endsWith('.bin')) {
+      this.xlsb = new XlsbParser(this.options);
+    }
+
     // 解析主题
     if (this.options.parseStyles) {
-      this.theme = await this.parseTheme();
+      this.theme = await this.recoverPart('xl/theme/theme1.xml', '主题颜色和字体', () => this.parseTheme(), () => null);
       this.reportProgress(20, '解析主题完成');
     }
 
     // 解析样式
     if (this.options.parseStyles) {
-      this.stylesheet = await this.parseStylesheet();
+      this.stylesheet = await this.recoverPart(
+        this.xlsb ? 'xl/styles.bin' : 'xl/styles.xml',
+        '单元格样式和数字格式',
+        () => this.parseStylesheet(),
+        () => null,
+      );
       this.reportProgress(25, '解析样式完成');
     }
 
     // 解析共享字符串
-    this.sharedStrings = await this.parseSharedStrings();
+    this.sharedStrings = await this.recoverPart(
+      this.xlsb ? 'xl/sharedStrings.bin' : 'xl/sharedStrings.xml',
+      '共享字符串 (引用共享字符串的单元格为空)',
+      () => this.parseSharedStrings(),
+      () => [],
+    );
     this.reportProgress(30, '解析共享字符串完成');
 
+    // 解析单元格元数据 (动态数组)
+    if (!this.xlsb) {
+      this.dynamicArrayMetadata = await this.recoverPart(
+        'xl/metadata.xml',
+        '动态数组标记',
+        () => this.parseCellMetadata(),
+        () => new Set(),
+      );
+    }
+
     // 解析工作簿
+    this.throwIfAborted();
     const workbook = await this.parseWorkbook();
+    this.sheets = workbook.sheets;
+    DataValidationUtils.resolveListValues(workbook);
     this.reportProgress(100, '解析完成');
 
     return workbook;
   }
 
+  /**
+   * 解析 ods 文件
+   * @description content.xml 缺失时无法恢复；styles.xml、meta.xml 和 settings.xml 损坏时在恢复模式下跳过
+   */
+  private async parseOds(): Promise<Workbook> {
+    const content = await this.readXml('content.xml');
+    if (!content) {
+      throw this.fatal('content.xml', '无效的 ods 文件: 缺少 content.xml');
+    }
+    const readOptional = (path: string, skipped: string): Promise<Document | null> =>
+      this.recoverPart(path, skipped, () => this.readXml(path), () => null);
+
+    const workbook = new OdsParser(this.options).parse({
+      content,
+      styles: await readOptional('styles.xml', '默认单元格样式和命名样式'),
+      meta: await readOptional('meta.xml', '文档属性'),
+      settings: await readOptional('settings.xml', '活动工作表、冻结窗格和缩放'),
+    });
+    workbook.diagnostics = this.diagnostics;
+    workbook.sheets.forEach(sheet => this.applyPrintNames(sheet, workbook.definedNames));
+    this.sheets = workbook.sheets;
+    DataValidationUtils.resolveListValues(workbook);
+    this.reportProgress(100, '解析完成');
+    return workbook;
+  }
+
+  /**
+   * 获取解析的 ZIP 文件包数据 (加密文件为解密后的数据)
+   * @description 传给 ExcelWriter 的 source 选项，写入时复制工作簿模型不包含的图片和图表；xls、ods 和 CSV 文件返回 null
+   */
+  getPackageData(): ArrayBuffer | Uint8Array | null {
+    return this.packageData;
+  }
+
+  /**
+   * 解析延迟加载的工作表
+   * @description 仅在 lazySheets 模式下需要调用。首次调用时解析工作表内容并写入 parse 返回的工作表对象，
+   * 之后直接返回该对象；解析失败时 parseState 为 error，可再次调用重试
+   */
+  async loadSheet(sheet: Sheet): Promise<Sheet> {
+    const loader = this.sheetLoaders.get(sheet);
+    if (!loader) {
+      return sheet;
+    }
+
+    if (!loader.promise) {
+      sheet.parseState = 'parsing';
+      loader.promise = loader.load().then(
+        (parsed) => {
+          Object.assign(sheet, parsed, { parseState: 'parsed' });
+          this.sheetLoaders.delete(sheet);
+          // 列表选项可能引用本工作表或其他已解析的工作表
+          DataValidationUtils.resolveListValues({ sheets: this.sheets, definedNames: this.definedNames });
+          return sheet;
+        },
+        (error: unknown) => {
+          sheet.parseState = 'error';
+          loader.promise = undefined;
+          throw error;
+        },
+      );
+    }
+    return loader.promise;
+  }
+
   /**
    * 报告进度
    */
@@ -190,10 +506,93 @@ export class ExcelParser {
     }
   }
 
+  /**
+   * 记录诊断信息
+   */
+  private addDiagnostic(part: string, severity: ParseDiagnosticSeverity, message: string, skipped?: string): void {
+    const diagnostic: ParseDiagnostic = { part: part.replace(/^\//, ''), severity, message };
+    if (skipped) {
+      diagnostic.skipped = skipped;
+    }
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * 记录致命错误，返回包含全部诊断信息的解析错误
+   */
+  private fatal(part: string, message: string): ParseError {
+    this.addDiagnostic(part, 'fatal', message);
+    return new ParseError(message, part.replace(/^\//, ''), [...this.diagnostics]);
+  }
+
+  /**
+   * 解析部件，恢复模式下失败时记录诊断信息并返回默认值
+   * @param part 部件路径
+   * @param skipped 失败时跳过的内容
+   * @param task 解析任务
+   * @param fallback 失败时的默认值
+   */
+  private async recoverPart<T>(
+    part: string,
+    skipped: string,
+    task: () => Promise<T>,
+    fallback: () => T,
+  ): Promise<T> {
+    try {
+      return await task();
+    } catch (error) {
+      if (!this.options.recover || this.options.signal?.aborted) {
+        throw error;
+      }
+      this.addDiagnostic(part, 'error', error instanceof Error ? error.message : String(error), skipped);
+      return fallback();
+    }
+  }
+
+  /**
+   * 已取消时抛出取消错误
+   */
+  private throwIfAborted(): void {
+    if (this.options.signal?.aborted) {
+      throw ParseWorkerClient.createAbortError();
+    }
+  }
+
   /**
    * 读取 ZIP 文件中的 XML
    */
   private async readXml(path: string): Promise<Document | null> {
+    const content = await this.readText(path);
+    if (content === null) {
+      return null;
+    }
+
+    return XmlUtils.parse(content, this.options.xmlBackend);
+  }
+
+  /**
+   * 读取关系指向的 XML 部件
+   * @description 部件不存在时记录警告；恢复模式下 XML 格式错误时记录错误并返回 null
+   * @param skipped 部件缺失或损坏时缺少的内容
+   */
+  private async readPartXml(path: string, skipped: string): Promise<Document | null> {
+    return this.recoverPart(path, skipped, async () => {
+      const doc = await this.readXml(path);
+      if (!doc) {
+        this.addDiagnostic(path, 'warning', '找不到关系指向的部件', skipped);
+      }
+      return doc;
+    }, () => null);
+  }
+
+  /**
+   * 读取 ZIP 文件中的文本
+   */
+  private async readText(path: string): Promise<string | null> {
+    if (this.files) {
+      const data = await this.readBinary(path);
+      return data ? new TextDecoder('utf-8').decode(data) : null;
+    }
     if (!this.zip) return null;
 
     // 移除开头的斜杠
@@ -202,14 +601,44 @@ export class ExcelParser {
     const file = this.zip.file(path);
     if (!file) return null;
 
-    const content = await file.async('string');
-    return XmlUtils.parse(content);
+    return await file.async('string');
+  }
+
+  /**
+   * 读取 ZIP 文件为 Base64
+   */
+  private async readBase64(path: string): Promise<string | null> {
+    if (this.files) {
+      const data = await this.readBinary(path);
+      if (!data) {
+        return null;
+      }
+      let binary = '';
+      for (let i = 0; i < data.length; i += 0x8000) {
+        binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+      }
+      return btoa(binary);
+    }
+    if (!this.zip) {
+      return null;
+    }
+
+    path = path.replace(/^\//, '');
+    const file = this.zip.file(path);
+    if (!file) {
+      return null;
+    }
+
+    return await file.async('base64');
   }
 
   /**
    * 读取二进制文件
    */
   private async readBinary(path: string): Promise<Uint8Array | null> {
+    if (this.files) {
+      return this.files.get(path.replace(/^\//, '')) ?? null;
+    }
     if (!this.zip) return null;
 
     path = path.replace(/^\//, '');
@@ -234,8 +663,14 @@ export class ExcelParser {
       });
     }
 
+    // 主文档部件 (xlsx 为 workbook.xml，xlsb 为 workbook.bin)
+    const officeDocument = [...this.relationships.values()].find(rel => rel.type.endsWith('/officeDocument'));
+    if (officeDocument) {
+      this.workbookPath = officeDocument.target.replace(/^\//, '');
+    }
+
     // 解析工作簿关系
-    const wbRels = await this.readXml('xl/_rels/workbook.xml.rels');
+    const wbRels = await this.readXml(this.workbookPath.replace(/([^/]+)$/, '_rels/$1.rels'));
     if (wbRels) {
       XmlUtils.forEachChildByTag(wbRels.documentElement, 'Relationship', (rel) => {
         const id = XmlUtils.getAttr(rel, 'Id');
@@ -246,6 +681,74 @@ export class ExcelParser {
     }
   }
 
+  /**
+   * 解析部件关系文件
+   * @param partPath 部件路径，如 xl/worksheets/sheet1.xml
+   * @returns 以关系 ID 为键的关系表，内部目标已解析为 ZIP 内完整路径
+   */
+  private async parsePartRelationships(partPath: string): Promise<Map<string, Relationship>> {
+    const rels = new Map<string, Relationship>();
+    const slashIndex = partPath.lastIndexOf('/');
+    const dir = partPath.substring(0, slashIndex + 1);
+    const fileName = partPath.substring(slashIndex + 1);
+
+    const relsDoc = await this.readXml(`${dir}_rels/${fileName}.rels`);
+    if (!relsDoc) {
+      return rels;
+    }
+
+    XmlUtils.forEachChildByTag(relsDoc.documentElement, 'Relationship', (rel) => {
+      const id = XmlUtils.getAttr(rel, 'Id');
+      const target = XmlUtils.getAttr(rel, 'Target');
+      const type = XmlUtils.getAttr(rel, 'Type');
+      const targetMode = XmlUtils.getAttr(rel, 'TargetMode') || undefined;
+
+      rels.set(id, {
+        target: targetMode === 'External' ? target : this.resolvePartPath(partPath, target),
+        type,
+        targetMode,
+      });
+    });
+
+    return rels;
+  }
+
+  /**
+   * 将关系目标解析为 ZIP 内完整路径
+   */
+  private resolvePartPath(basePath: string, target: string): string {
+    if (target.startsWith('/')) {
+      return target.substring(1);
+    }
+
+    const parts = basePath.split('/');
+    parts.pop();
+
+    for (const segment of target.split('/')) {
+      if (segment === '..') {
+        parts.pop();
+      } else if (segment !== '.' && segment !== '') {
+        parts.push(segment);
+      }
+    }
+
+    return parts.join('/');
+  }
+
+  /**
+   * 查找指定类型的关系
+   * @param typeSuffix 关系类型的结尾部分，如 /comments
+   */
+  private findRelationships(rels: Map<string, Relationship>, typeSuffix: string): Relationship[] {
+    const result: Relationship[] = [];
+    rels.forEach((rel) => {
+      if (rel.type.endsWith(typeSuffix)) {
+        result.push(rel);
+      }
+    });
+    return result;
+  }
+
   /**
    * 解析主题
    */
@@ -312,6 +815,11 @@ export class ExcelParser {
    * 解析样式表
    */
   private async parseStylesheet(): Promise<Stylesheet | null> {
+    if (this.xlsb) {
+      const data = await this.readBinary('xl/styles.bin');
+      return data ? this.xlsb.parseStylesheet(data) : null;
+    }
+
     const stylesDoc = await this.readXml('xl/styles.xml');
     if (!stylesDoc) return null;
 
@@ -366,6 +874,12 @@ export class ExcelParser {
       });
     });
 
+    // 解析差异格式
+    const dxfs: CellStyle[] = [];
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'dxfs'), 'dxf', (el) => {
+      dxfs.push(this.parseDxf(el));
+    });
+
     return {
       numFmts,
       fonts,
@@ -373,7 +887,8 @@ export class ExcelParser {
       borders,
       cellXfs,
       cellStyleXfs,
-      cellStyles
+      cellStyles,
+      dxfs,
     };
   }
 
@@ -533,8 +1048,8 @@ export class ExcelParser {
     const customFmt = numFmts.find(f => f.id === numFmtId);
     if (customFmt) {
       style.numFmt = customFmt.formatCode;
-    } else if (BUILTIN_NUM_FMTS[numFmtId]) {
-      style.numFmt = BUILTIN_NUM_FMTS[numFmtId];
+    } else if (FormatUtils.getBuiltinFormat(numFmtId)) {
+      style.numFmt = FormatUtils.getBuiltinFormat(numFmtId);
     }
 
     // 字体
@@ -579,6 +1094,69 @@ export class ExcelParser {
     return style;
   }
 
+  /**
+   * 解析差异格式
+   * @description 差异格式只包含需要覆盖的部分，直接内嵌字体、填充、边框等元素而不是引用索引
+   */
+  private parseDxf(el: Element): CellStyle {
+    const style: CellStyle = {};
+
+    const numFmtEl = XmlUtils.getChild(el, 'numFmt');
+    if (numFmtEl) {
+      style.numFmtId = XmlUtils.getAttrAsInt(numFmtEl, 'numFmtId', 0);
+      style.numFmt = XmlUtils.getAttr(numFmtEl, 'formatCode') || FormatUtils.getBuiltinFormat(style.numFmtId);
+    }
+
+    const fontEl = XmlUtils.getChild(el, 'font');
+    if (fontEl) {
+      style.font = this.parseFont(fontEl);
+      // 差异格式中 <b val="0"/> 等表示取消原有的粗体、斜体和删除线
+      if (XmlUtils.getAttr(XmlUtils.getChild(fontEl, 'b'), 'val') === '0') {
+        style.font.bold = false;
+      }
+      if (XmlUtils.getAttr(XmlUtils.getChild(fontEl, 'i'), 'val') === '0') {
+        style.font.italic = false;
+      }
+      if (XmlUtils.getAttr(XmlUtils.getChild(fontEl, 'strike'), 'val') === '0') {
+        style.font.strikethrough = false;
+      }
+    }
+
+    const fillEl = XmlUtils.getChild(el, 'fill');
+    if (fillEl) {
+      const fill = this.parseFill(fillEl);
+      const patternFill = XmlUtils.getChild(fillEl, 'patternFill');
+      // 差异格式省略 patternType 表示纯色填充，纯色的颜色保存在 bgColor 中
+      if (patternFill && !XmlUtils.getAttr(patternFill, 'patternType')) {
+        fill.pattern = 'solid';
+      }
+      if (fill.type === 'pattern' && fill.pattern === 'solid' && fill.bgColor) {
+        fill.fgColor = fill.bgColor;
+      }
+      style.fill = fill;
+    }
+
+    const borderEl = XmlUtils.getChild(el, 'border');
+    if (borderEl) {
+      style.border = this.parseBorder(borderEl);
+    }
+
+    const alignment = XmlUtils.getChild(el, 'alignment');
+    if (alignment) {
+      style.alignment = this.parseAlignment(alignment);
+    }
+
+    const protection = XmlUtils.getChild(el, 'protection');
+    if (protection) {
+      style.protection = {
+        locked: XmlUtils.getAttrAsBool(protection, 'locked', true),
+        hidden: XmlUtils.getAttrAsBool(protection, 'hidden', false),
+      };
+    }
+
+    return style;
+  }
+
   /**
    * 解析对齐
    */
@@ -607,6 +1185,11 @@ export class ExcelParser {
    * 解析共享字符串
    */
   private async parseSharedStrings(): Promise<Array<string | RichText>> {
+    if (this.xlsb) {
+      const data = await this.readBinary('xl/sharedStrings.bin');
+      return data ? this.xlsb.parseSharedStrings(data) : [];
+    }
+
     const ssDoc = await this.readXml('xl/sharedStrings.xml');
     if (!ssDoc) return [];
 
@@ -644,13 +1227,61 @@ export class ExcelParser {
     return strings;
   }
 
+  /**
+   * 解析单元格元数据，返回表示动态数组公式的元数据索引
+   */
+  private async parseCellMetadata(): Promise<Set<number>> {
+    const dynamicIndexes = new Set<number>();
+    const rel = this.findRelationships(this.workbookRelationships, '/sheetMetadata')[0];
+    if (!rel) {
+      return dynamicIndexes;
+    }
+
+    const doc = await this.readXml(this.resolvePartPath(this.workbookPath, rel.target));
+    if (!doc) {
+      return dynamicIndexes;
+    }
+
+    const root = doc.documentElement;
+    const typeNames = XmlUtils.getChildren(XmlUtils.getChild(root, 'metadataTypes'), 'metadataType')
+      .map(el => XmlUtils.getAttr(el, 'name'));
+
+    // XLDAPR 类型的未来元数据中 fDynamic 标记动态数组
+    const dynamicFlags: boolean[] = [];
+    for (const futureEl of XmlUtils.getChildren(root, 'futureMetadata')) {
+      if (XmlUtils.getAttr(futureEl, 'name') !== 'XLDAPR') {
+        continue;
+      }
+      XmlUtils.forEachChildByTag(futureEl, 'bk', (bk) => {
+        const props = XmlUtils.getChildren(XmlUtils.getChild(bk, 'extLst'), 'ext')
+          .map(ext => XmlUtils.getChild(ext, 'dynamicArrayProperties'))
+          .find(el => el !== null) ?? null;
+        dynamicFlags.push(XmlUtils.getAttrAsBool(props, 'fDynamic'));
+      });
+    }
+
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'cellMetadata'), 'bk', (bk, index) => {
+      const rc = XmlUtils.getChild(bk, 'rc');
+      const typeName = typeNames[XmlUtils.getAttrAsInt(rc, 't') - 1];
+      if (typeName === 'XLDAPR' && dynamicFlags[XmlUtils.getAttrAsInt(rc, 'v')]) {
+        dynamicIndexes.add(index + 1);
+      }
+    });
+
+    return dynamicIndexes;
+  }
+
   /**
    * 解析工作簿
    */
   private async parseWorkbook(): Promise<Workbook> {
-    const wbDoc = await this.readXml('xl/workbook.xml');
+    if (this.xlsb) {
+      return this.parseBinaryWorkbook(this.xlsb);
+    }
+
+    const wbDoc = await this.readXml(this.workbookPath);
     if (!wbDoc) {
-      throw new Error('无效的 Excel 文件：找不到 workbook.xml');
+      throw this.fatal(this.workbookPath, '无效的 Excel 文件：找不到 workbook.xml');
     }
 
     const root = wbDoc.documentElement;
@@ -660,6 +1291,11 @@ export class ExcelParser {
     const workbookProperties = {
       date1904: XmlUtils.getAttrAsBool(workbookPr, 'date1904')
     };
+    this.date1904 = workbookProperties.date1904;
+
+    // 解析工作簿保护
+    const workbookProtectionEl = XmlUtils.getChild(root, 'workbookProtection');
+    const protection = workbookProtectionEl ? this.parseWorkbookProtection(workbookProtectionEl) : undefined;
 
     // 解析工作表信息
     const sheets: Sheet[] = [];
@@ -675,43 +1311,79 @@ export class ExcelParser {
       });
     });
 
+    // 解析定义名称 (工作表解析时需要读取其中的打印区域)
+    const definedNames: DefinedName[] = [];
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'definedNames'), 'definedName', (el) => {
+      definedNames.push({
+        name: XmlUtils.getAttr(el, 'name'),
+        ref: XmlUtils.getText(el),
+        scope: XmlUtils.getAttr(el, 'localSheetId'),
+        comment: XmlUtils.getAttr(el, 'comment'),
+        hidden: XmlUtils.getAttrAsBool(el, 'hidden'),
+      });
+    });
+    this.definedNames = definedNames;
+
+    // 解析外部链接 (externalReferences 中的顺序即公式中的外部引用编号)
+    const externalLinks = await this.parseExternalLinks(
+      XmlUtils.getChildren(XmlUtils.getChild(root, 'externalReferences'), 'externalReference')
+        .map(el => this.workbookRelationships.get(XmlUtils.getAttr(el, 'r:id') || XmlUtils.getAttr(el, 'id')))
+        .filter((rel): rel is Relationship => rel !== undefined),
+    );
+
+    // 解析线程批注的人员列表
+    if (this.options.parseComments) {
+      this.persons = await this.recoverPart(
+        'xl/persons/person.xml',
+        '线程批注的作者名称',
+        () => this.parsePersons(),
+        () => new Map<string, string>(),
+      );
+    }
+
     // 解析每个工作表
     let progress = 35;
     const progressStep = 50 / Math.max(sheetInfos.length, 1);
 
     for (let i = 0; i < sheetInfos.length; i++) {
       const info = sheetInfos[i];
+      this.throwIfAborted();
       this.reportProgress(progress, `解析工作表: ${info.name}`);
 
       const rel = this.workbookRelationships.get(info.rId);
       if (rel) {
         const sheetPath = `xl/${rel.target.replace(/^\//, '')}`;
-        const sheet = await this.parseSheet(sheetPath, info.name, i, info.state);
-        sheets.push(sheet);
+        const type = this.getSheetType(rel);
+        const load = (): Promise<Sheet> => this.recoverPart(
+          sheetPath,
+          `工作表 ${info.name} 的内容`,
+          () => this.parseSheetPart(type, sheetPath, info.name, i, info.state),
+          () => this.createSheet(info.name, i, info.state, type),
+        );
+        if (this.options.lazySheets) {
+          sheets.push(this.createPendingSheet(info.name, i, info.state, load));
+        } else {
+          sheets.push(await load());
+        }
+      } else {
+        this.addDiagnostic(this.workbookPath, 'error', `找不到工作表关系 ${info.rId}`, `工作表 ${info.name}`);
       }
 
       progress += progressStep;
     }
 
-    // 解析定义名称
-    const definedNames: DefinedName[] = [];
-    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'definedNames'), 'definedName', (el) => {
-      definedNames.push({
-        name: XmlUtils.getAttr(el, 'name'),
-        ref: XmlUtils.getText(el),
-        scope: XmlUtils.getAttr(el, 'localSheetId'),
-        comment: XmlUtils.getAttr(el, 'comment'),
-        hidden: XmlUtils.getAttrAsBool(el, 'hidden')
-      });
-    });
-
     // 解析活动工作表
     const bookViewsEl = XmlUtils.getChild(root, 'bookViews');
     const workbookViewEl = XmlUtils.getChild(bookViewsEl, 'workbookView');
     const activeSheet = XmlUtils.getAttrAsInt(workbookViewEl, 'activeTab', 0);
 
     // 解析文档属性
-    const properties = await this.parseDocumentProperties();
+    const properties = await this.recoverPart(
+      'docProps/core.xml',
+      '文档属性',
+      () => this.parseDocumentProperties(),
+      () => ({}),
+    );
 
     return {
       sheets,
@@ -723,13 +1395,17 @@ export class ExcelParser {
         borders: [],
         cellXfs: [],
         cellStyleXfs: [],
-        cellStyles: []
+        cellStyles: [],
+        dxfs: [],
       },
       definedNames,
       theme: this.theme || undefined,
       properties,
       workbookProperties,
-      sharedStrings: this.sharedStrings
+      protection,
+      sharedStrings: this.sharedStrings,
+      externalLinks,
+      diagnostics: this.diagnostics,
     };
   }
 
@@ -773,6 +1449,16 @@ export class ExcelParser {
         const dateStr = XmlUtils.getText(modifiedEl);
         if (dateStr) properties.modified = new Date(dateStr);
       }
+
+      const categoryEl = XmlUtils.getChild(root, 'category');
+      if (categoryEl) {
+        properties.category = XmlUtils.getText(categoryEl);
+      }
+
+      const contentStatusEl = XmlUtils.getChild(root, 'contentStatus');
+      if (contentStatusEl) {
+        properties.contentStatus = XmlUtils.getText(contentStatusEl);
+      }
     }
 
     // 扩展属性
@@ -788,38 +1474,322 @@ export class ExcelParser {
 
       const appVersionEl = XmlUtils.getChild(root, 'AppVersion');
       if (appVersionEl) properties.appVersion = XmlUtils.getText(appVersionEl);
+
+      const managerEl = XmlUtils.getChild(root, 'Manager');
+      if (managerEl) {
+        properties.manager = XmlUtils.getText(managerEl);
+      }
+    }
+
+    // 自定义属性
+    const customRel = [...this.relationships.values()].find(rel => rel.type.endsWith('/custom-properties'));
+    const customPath = customRel ? customRel.target.replace(/^\//, '') : 'docProps/custom.xml';
+    const custom = await this.recoverPart(customPath, '自定义文档属性', () => this.parseCustomProperties(customPath), () => []);
+    if (custom.length > 0) {
+      properties.custom = custom;
     }
 
     return properties;
   }
 
   /**
-   * 解析工作表
+   * 解析自定义文档属性
+   * @description 属性值为 vt 命名空间下的类型元素，如 vt:lpwstr、vt:i4、vt:bool 和 vt:filetime
    */
-  private async parseSheet(
-    path: string,
-    name: string,
-    index: number,
-    state: SheetState
-  ): Promise<Sheet> {
-    const sheetDoc = await this.readXml(path);
-    if (!sheetDoc) {
-      throw new Error(`无法解析工作表: ${path}`);
+  private async parseCustomProperties(path: string): Promise<CustomProperty[]> {
+    const doc = await this.readXml(path);
+    if (!doc) {
+      return [];
     }
 
-    const root = sheetDoc.documentElement;
-    const sheet: Sheet = {
-      id: `sheet${index + 1}`,
-      name,
-      type: 'worksheet',
-      state,
-      index,
-      rows: new Map(),
-      columns: new Map(),
-      cells: new Map(),
-      mergeCells: [],
-      dataValidations: [],
-      conditionalFormats: [],
+    const properties: CustomProperty[] = [];
+    XmlUtils.forEachChildByTag(doc.documentElement, 'property', (el) => {
+      const name = XmlUtils.getAttr(el, 'name');
+      const valueEl = XmlUtils.getChildren(el)[0];
+      if (!name || !valueEl) {
+        return;
+      }
+
+      const text = XmlUtils.getText(valueEl);
+      switch (valueEl.localName) {
+        case 'bool':
+          properties.push({ name, type: 'boolean', value: text === 'true' || text === '1' });
+          break;
+        case 'filetime':
+        case 'date': {
+          const date = new Date(text);
+          properties.push(isNaN(date.getTime())
+            ? { name, type: 'string', value: text }
+            : { name, type: 'date', value: date });
+          break;
+        }
+        case 'i1':
+        case 'i2':
+        case 'i4':
+        case 'i8':
+        case 'int':
+        case 'ui1':
+        case 'ui2':
+        case 'ui4':
+        case 'ui8':
+        case 'uint':
+        case 'r4':
+        case 'r8':
+        case 'decimal': {
+          const value = parseFloat(text);
+          properties.push(isNaN(value) ? { name, type: 'string', value: text } : { name, type: 'number', value });
+          break;
+        }
+        default:
+          // vt:lpwstr、vt:lpstr、vt:bstr 等字符串类型
+          properties.push({ name, type: 'string', value: text });
+      }
+    });
+    return properties;
+  }
+
+  /**
+   * 解析外部链接
+   * @param rels 外部链接关系 (按公式中的外部引用编号排列)
+   */
+  private async parseExternalLinks(rels: Relationship[]): Promise<ExternalLink[]> {
+    const links: ExternalLink[] = [];
+
+    for (let i = 0; i < rels.length; i++) {
+      const path = this.resolvePartPath(this.workbookPath, rels[i].target);
+      const partRels = await this.parsePartRelationships(path);
+      const link: ExternalLink = { index: i + 1, target: '', sheetNames: [] };
+
+      // xlsb 的外部链接部件为二进制记录，只读取关系中的工作簿路径
+      const doc = path.endsWith('.xml') ? await this.readPartXml(path, '外部链接') : null;
+      const bookEl = XmlUtils.getChild(doc?.documentElement ?? null, 'externalBook');
+      const ddeEl = XmlUtils.getChild(doc?.documentElement ?? null, 'ddeLink');
+      if (bookEl) {
+        link.target = partRels.get(XmlUtils.getAttr(bookEl, 'r:id') || XmlUtils.getAttr(bookEl, 'id'))?.target ?? '';
+        XmlUtils.forEachChildByTag(XmlUtils.getChild(bookEl, 'sheetNames'), 'sheetName', (el) => {
+          link.sheetNames.push(XmlUtils.getAttr(el, 'val'));
+        });
+      } else if (ddeEl) {
+        link.target = `${XmlUtils.getAttr(ddeEl, 'ddeService')}|${XmlUtils.getAttr(ddeEl, 'ddeTopic')}`;
+      }
+      if (!link.target) {
+        link.target = [...partRels.values()].find(rel => rel.targetMode === 'External')?.target ?? '';
+      }
+
+      links.push(link);
+    }
+
+    return links;
+  }
+
+  /**
+   * 解析 xlsb 工作簿
+   */
+  private async parseBinaryWorkbook(xlsb: XlsbParser): Promise<Workbook> {
+    const data = await this.readBinary(this.workbookPath);
+    if (!data) {
+      throw this.fatal(this.workbookPath, '无效的 Excel 文件：找不到 workbook.bin');
+    }
+
+    const info = xlsb.parseWorkbook(data);
+    this.definedNames = info.definedNames;
+    const sheets: Sheet[] = [];
+    let progress = 35;
+    const progressStep = 50 / Math.max(info.sheets.length, 1);
+
+    for (let i = 0; i < info.sheets.length; i++) {
+      const sheetInfo = info.sheets[i];
+      this.throwIfAborted();
+      this.reportProgress(progress, `解析工作表: ${sheetInfo.name}`);
+
+      const rel = this.workbookRelationships.get(sheetInfo.rId);
+      if (rel) {
+        const sheetPath = `xl/${rel.target.replace(/^\//, '')}`;
+        const type = this.getSheetType(rel);
+        const load = (): Promise<Sheet> => this.recoverPart(
+          sheetPath,
+          `工作表 ${sheetInfo.name} 的内容`,
+          () => this.parseSheetPart(type, sheetPath, sheetInfo.name, i, sheetInfo.state),
+          () => this.createSheet(sheetInfo.name, i, sheetInfo.state, type),
+        );
+        if (this.options.lazySheets) {
+          sheets.push(this.createPendingSheet(sheetInfo.name, i, sheetInfo.state, load));
+        } else {
+          sheets.push(await load());
+        }
+      } else {
+        this.addDiagnostic(this.workbookPath, 'error', `找不到工作表关系 ${sheetInfo.rId}`, `工作表 ${sheetInfo.name}`);
+      }
+
+      progress += progressStep;
+    }
+
+    return {
+      sheets,
+      activeSheet: info.activeSheet,
+      styles: this.stylesheet ?? {
+        numFmts: [],
+        fonts: [],
+        fills: [],
+        borders: [],
+        cellXfs: [],
+        cellStyleXfs: [],
+        cellStyles: [],
+        dxfs: [],
+      },
+      definedNames: info.definedNames,
+      theme: this.theme ?? undefined,
+      properties: await this.recoverPart('docProps/core.xml', '文档属性', () => this.parseDocumentProperties(), () => ({})),
+      workbookProperties: { date1904: info.date1904 },
+      protection: info.protection,
+      sharedStrings: this.sharedStrings,
+      externalLinks: await this.parseExternalLinks(this.findRelationships(this.workbookRelationships, '/externalLink')),
+      diagnostics: this.diagnostics,
+    };
+  }
+
+  /**
+   * 解析 xlsb 工作表
+   * @description 单元格等记录位于 sheetN.bin，绘图部件仍为 XML
+   */
+  private async parseBinarySheet(
+    xlsb: XlsbParser,
+    path: string,
+    name: string,
+    index: number,
+    state: SheetState,
+  ): Promise<Sheet> {
+    const data = await this.readBinary(path);
+    if (!data) {
+      throw new Error(`无法解析工作表: ${path}`);
+    }
+
+    const sheetRels = await this.parsePartRelationships(path);
+    const sheet = this.createSheet(name, index, state);
+    xlsb.parseSheet(data, sheet, sheetRels);
+    this.applyPrintNames(sheet);
+
+    // 解析绘图
+    for (const rel of this.findRelationships(sheetRels, '/drawing')) {
+      await this.recoverPart(
+        rel.target,
+        `工作表 ${name} 的图片和图表`,
+        () => this.parseDrawing(rel.target, sheet),
+        () => undefined,
+      );
+    }
+
+    return sheet;
+  }
+
+  /**
+   * 创建待解析的工作表 (延迟解析模式)
+   */
+  private createPendingSheet(
+    name: string,
+    index: number,
+    state: SheetState,
+    load: () => Promise<Sheet>,
+  ): Sheet {
+    const sheet = this.createSheet(name, index, state);
+    sheet.parseState = 'pending';
+    this.sheetLoaders.set(sheet, { load });
+    return sheet;
+  }
+
+  /**
+   * 根据工作簿关系类型判断工作表类型
+   */
+  private getSheetType(rel: Relationship): SheetType {
+    if (rel.type.endsWith('/chartsheet')) {
+      return 'chartsheet';
+    }
+    if (rel.type.endsWith('/dialogsheet')) {
+      return 'dialogsheet';
+    }
+    // 宏表 (xlMacrosheet) 和国际宏表 (xlIntlMacrosheet)
+    if (/\/xl(Intl)?Macrosheet$/i.test(rel.type)) {
+      return 'macrosheet';
+    }
+    return 'worksheet';
+  }
+
+  /**
+   * 按工作表类型解析工作表部件
+   * @description 对话框工作表和宏表不解析内容，只保留标签；记录部件路径供写入时复制绘图
+   */
+  private async parseSheetPart(
+    type: SheetType,
+    path: string,
+    name: string,
+    index: number,
+    state: SheetState,
+  ): Promise<Sheet> {
+    let sheet: Sheet;
+    switch (type) {
+      case 'chartsheet':
+        sheet = await this.parseChartsheet(path, name, index, state);
+        break;
+      case 'dialogsheet':
+      case 'macrosheet':
+        sheet = this.createSheet(name, index, state, type);
+        break;
+      default:
+        sheet = this.xlsb
+          ? await this.parseBinarySheet(this.xlsb, path, name, index, state)
+          : await this.parseSheet(path, name, index, state);
+    }
+    sheet.sourcePart = path;
+    return sheet;
+  }
+
+  /**
+   * 解析图表工作表 (xl/chartsheets/sheetN.xml)
+   * @description 图表位于工作表关系指向的绘图部件中；xlsb 的图表工作表只读取绘图部件
+   */
+  private async parseChartsheet(path: string, name: string, index: number, state: SheetState): Promise<Sheet> {
+    const sheet = this.createSheet(name, index, state, 'chartsheet');
+
+    if (!this.xlsb) {
+      const doc = await this.readXml(path);
+      if (!doc) {
+        throw new Error(`无法解析图表工作表: ${path}`);
+      }
+      XmlUtils.forEachChildByTag(XmlUtils.getChild(doc.documentElement, 'sheetViews'), 'sheetView', (viewEl) => {
+        sheet.views.push(this.parseSheetView(viewEl));
+      });
+    }
+
+    const sheetRels = await this.parsePartRelationships(path);
+    for (const rel of this.findRelationships(sheetRels, '/drawing')) {
+      await this.recoverPart(
+        rel.target,
+        `图表工作表 ${name} 的图表`,
+        () => this.parseDrawing(rel.target, sheet),
+        () => undefined,
+      );
+    }
+
+    return sheet;
+  }
+
+  /**
+   * 创建空工作表
+   */
+  private createSheet(name: string, index: number, state: SheetState, type: SheetType = 'worksheet'): Sheet {
+    return {
+      id: `sheet${index + 1}`,
+      name,
+      type,
+      state,
+      index,
+      rows: new Map(),
+      columns: new Map(),
+      cells: new Map(),
+      mergeCells: [],
+      dataValidations: [],
+      conditionalFormats: [],
+      sparklineGroups: [],
       hyperlinks: new Map(),
       comments: new Map(),
       images: [],
@@ -828,6 +1798,25 @@ export class ExcelParser {
       pivotTables: [],
       views: []
     };
+  }
+
+  /**
+   * 解析工作表
+   */
+  private async parseSheet(
+    path: string,
+    name: string,
+    index: number,
+    state: SheetState,
+  ): Promise<Sheet> {
+    const sheetDoc = await this.readXml(path);
+    if (!sheetDoc) {
+      throw new Error(`无法解析工作表: ${path}`);
+    }
+
+    const root = sheetDoc.documentElement;
+    const sheetRels = await this.parsePartRelationships(path);
+    const sheet = this.createSheet(name, index, state);
 
     // 解析维度
     const dimensionEl = XmlUtils.getChild(root, 'dimension');
@@ -843,183 +1832,979 @@ export class ExcelParser {
       }
     }
 
-    // 解析工作表格式属性
-    const sheetFormatPr = XmlUtils.getChild(root, 'sheetFormatPr');
-    if (sheetFormatPr) {
-      sheet.defaultRowHeight = XmlUtils.getAttrAsNumber(sheetFormatPr, 'defaultRowHeight', 15);
-      sheet.defaultColWidth = XmlUtils.getAttrAsNumber(sheetFormatPr, 'defaultColWidth', 8.43);
+    // 解析工作表格式属性
+    const sheetFormatPr = XmlUtils.getChild(root, 'sheetFormatPr');
+    if (sheetFormatPr) {
+      sheet.defaultRowHeight = XmlUtils.getAttrAsNumber(sheetFormatPr, 'defaultRowHeight', 15);
+      sheet.defaultColWidth = XmlUtils.getAttrAsNumber(sheetFormatPr, 'defaultColWidth', 8.43);
+    }
+
+    // 解析视图
+    const sheetViews = XmlUtils.getChild(root, 'sheetViews');
+    XmlUtils.forEachChildByTag(sheetViews, 'sheetView', (viewEl) => {
+      sheet.views.push(this.parseSheetView(viewEl));
+    });
+
+    // 从视图中提取冻结窗格
+    if (sheet.views.length > 0) {
+      const paneEl = XmlUtils.getChild(
+        XmlUtils.getChildren(sheetViews, 'sheetView')[0],
+        'pane'
+      );
+      if (paneEl) {
+        sheet.freezePane = this.parseFreezePane(paneEl);
+      }
+    }
+
+    // 解析列定义
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'cols'), 'col', (col) => {
+      const min = XmlUtils.getAttrAsInt(col, 'min', 1) - 1;
+      const max = XmlUtils.getAttrAsInt(col, 'max', 1) - 1;
+      const width = XmlUtils.getAttrAsNumber(col, 'width', 8.43);
+      const hidden = XmlUtils.getAttrAsBool(col, 'hidden');
+      const styleIndex = XmlUtils.getAttrAsInt(col, 'style');
+      const customWidth = XmlUtils.getAttrAsBool(col, 'customWidth');
+      const bestFit = XmlUtils.getAttrAsBool(col, 'bestFit');
+      const outlineLevel = XmlUtils.getAttrAsInt(col, 'outlineLevel');
+      const collapsed = XmlUtils.getAttrAsBool(col, 'collapsed');
+
+      for (let i = min; i <= max; i++) {
+        sheet.columns.set(i, {
+          index: i,
+          width,
+          pixelWidth: Math.round(width * 7 + 5), // Excel 近似转换
+          hidden,
+          styleIndex,
+          customWidth,
+          bestFit,
+          outlineLevel,
+          collapsed
+        });
+      }
+    });
+
+    // 解析行和单元格
+    const sheetData = XmlUtils.getChild(root, 'sheetData');
+    XmlUtils.forEachChildByTag(sheetData, 'row', (rowEl) => {
+      this.addRow(sheet, {
+        attrs: XmlUtils.getAttributes(rowEl),
+        cells: XmlUtils.getChildren(rowEl, 'c').map(cellEl => this.readRawCell(cellEl)),
+      });
+    });
+
+    // Worker 模式下 sheetData 已在 Worker 中流式读取，按数据块添加并让出主线程
+    const streamedRows = this.streamedRows.get(path) ?? [];
+    for (let i = 0; i < streamedRows.length; i++) {
+      this.addRowChunk(sheet, streamedRows[i]);
+      if (i % 5 === 4) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        this.throwIfAborted();
+      }
+    }
+    this.streamedRows.delete(path);
+
+    // 展开共享公式，标记数组公式区域
+    this.resolveFormulaGroups(sheet);
+
+    // 解析合并单元格
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'mergeCells'), 'mergeCell', (el) => {
+      const ref = XmlUtils.getAttr(el, 'ref');
+      if (ref) {
+        const range = XmlUtils.parseRange(ref);
+        const mergeCell: MergeCell = {
+          ref,
+          startRow: range.start.row,
+          startCol: range.start.col,
+          endRow: range.end.row,
+          endCol: range.end.col
+        };
+        sheet.mergeCells.push(mergeCell);
+
+        // 标记合并单元格
+        for (let r = range.start.row; r <= range.end.row; r++) {
+          for (let c = range.start.col; c <= range.end.col; c++) {
+            const addr = XmlUtils.formatCellAddress(r, c);
+            const cell = sheet.cells.get(addr);
+            if (cell) {
+              cell.isMerged = true;
+              cell.merge = range;
+              if (r === range.start.row && c === range.start.col) {
+                cell.isMergeOrigin = true;
+              }
+            }
+          }
+        }
+      }
+    });
+
+    // 解析超链接
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'hyperlinks'), 'hyperlink', (el) => {
+      const ref = XmlUtils.getAttr(el, 'ref');
+      const rId = XmlUtils.getAttr(el, 'r:id');
+      const location = XmlUtils.getAttr(el, 'location');
+      const display = XmlUtils.getAttr(el, 'display');
+      const tooltip = XmlUtils.getAttr(el, 'tooltip');
+
+      if (ref) {
+        // 外部链接目标保存在工作表关系文件中，location 为内部位置或外部文档内的锚点
+        const rel = rId ? sheetRels.get(rId) : undefined;
+        const target = rel?.target ?? location;
+        const hyperlink: Hyperlink = {
+          target,
+          type: rel ? HyperlinkUtils.classify(target) : 'internal',
+          tooltip: tooltip || undefined,
+          display: display || undefined,
+          location: location || undefined,
+        };
+
+        // 区域链接 (如 A1:B2) 作用于区域内所有已有单元格
+        const addresses = ref.includes(':') ? this.getCellsInRange(sheet, ref) : [ref];
+        for (const address of addresses) {
+          sheet.hyperlinks.set(address, hyperlink);
+
+          // 更新单元格
+          const cell = sheet.cells.get(address);
+          if (cell) {
+            cell.hyperlink = hyperlink;
+          }
+        }
+      }
+    });
+
+    // 解析批注
+    if (this.options.parseComments) {
+      const comments = await this.parseComments(sheetRels);
+      comments.forEach((comment, ref) => {
+        sheet.comments.set(ref, comment);
+        const cell = sheet.cells.get(ref);
+        if (cell) {
+          cell.comment = comment;
+        }
+      });
+    }
+
+    // 解析绘图
+    for (const rel of this.findRelationships(sheetRels, '/drawing')) {
+      await this.recoverPart(
+        rel.target,
+        `工作表 ${name} 的图片和图表`,
+        () => this.parseDrawing(rel.target, sheet),
+        () => undefined,
+      );
+    }
+
+    // 解析表格
+    for (const rel of this.findRelationships(sheetRels, '/table')) {
+      const table = await this.parseTable(rel.target);
+      if (table) {
+        sheet.tables.push(table);
+      }
+    }
+
+    // 解析自动筛选
+    const autoFilterEl = XmlUtils.getChild(root, 'autoFilter');
+    if (autoFilterEl) {
+      sheet.autoFilter = this.parseAutoFilter(autoFilterEl);
+    }
+
+    // 解析工作表保护
+    const sheetProtectionEl = XmlUtils.getChild(root, 'sheetProtection');
+    if (sheetProtectionEl) {
+      sheet.protection = this.parseSheetProtection(sheetProtectionEl);
+    }
+
+    // 解析数据验证
+    if (this.options.parseDataValidations) {
+      XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'dataValidations'), 'dataValidation', (el) => {
+        sheet.dataValidations.push(this.parseDataValidation(el));
+      });
+    }
+
+    // 解析条件格式
+    if (this.options.parseConditionalFormats) {
+      XmlUtils.forEachChildByTag(root, 'conditionalFormatting', (cfEl) => {
+        const ranges = XmlUtils.getAttr(cfEl, 'sqref').split(' ');
+        XmlUtils.forEachChildByTag(cfEl, 'cfRule', (ruleEl) => {
+          sheet.conditionalFormats.push(this.parseConditionalFormat(ruleEl, ranges));
+        });
+      });
+    }
+
+    // 解析 x14 扩展中的数据验证 (列表来源为其他工作表时保存在扩展中) 和迷你图
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'extLst'), 'ext', (extEl) => {
+      if (this.options.parseDataValidations) {
+        XmlUtils.forEachChildByTag(XmlUtils.getChild(extEl, 'dataValidations'), 'dataValidation', (el) => {
+          sheet.dataValidations.push(this.parseDataValidation(el));
+        });
+      }
+      XmlUtils.forEachChildByTag(XmlUtils.getChild(extEl, 'sparklineGroups'), 'sparklineGroup', (groupEl) => {
+        const group = this.parseSparklineGroup(groupEl);
+        if (group.sparklines.length > 0) {
+          sheet.sparklineGroups.push(group);
+        }
+      });
+    });
+
+    // 解析打印设置
+    const printOptions = this.parsePrintOptions(root);
+    if (printOptions) {
+      sheet.printOptions = printOptions;
+    }
+    this.applyPrintNames(sheet);
+
+    return sheet;
+  }
+
+  /**
+   * 获取区域内已有单元格的地址
+   */
+  private getCellsInRange(sheet: Sheet, ref: string): string[] {
+    let range: ReturnType<typeof XmlUtils.parseRange>;
+    try {
+      range = XmlUtils.parseRange(ref);
+    } catch {
+      return [];
+    }
+
+    const { start, end } = range;
+    const addresses = [XmlUtils.formatCellAddress(start.row, start.col)];
+    sheet.cells.forEach((cell, address) => {
+      if (cell.row >= start.row && cell.row <= end.row && cell.col >= start.col && cell.col <= end.col &&
+        address !== addresses[0]) {
+        addresses.push(address);
+      }
+    });
+    return addresses;
+  }
+
+  /**
+   * 解析表格 (ListObject)
+   */
+  private async parseTable(path: string): Promise<Table | null> {
+    const tableDoc = await this.readPartXml(path, '表格');
+    if (!tableDoc) {
+      return null;
+    }
+
+    const root = tableDoc.documentElement;
+    const ref = XmlUtils.getAttr(root, 'ref');
+    if (!ref) {
+      return null;
+    }
+
+    const name = XmlUtils.getAttr(root, 'name');
+    const table: Table = {
+      id: XmlUtils.getAttrAsInt(root, 'id'),
+      name,
+      displayName: XmlUtils.getAttr(root, 'displayName', name),
+      ref,
+      headerRowCount: XmlUtils.getAttrAsInt(root, 'headerRowCount', 1),
+      totalsRowCount: XmlUtils.getAttrAsInt(root, 'totalsRowCount', 0),
+      totalsRowShown: XmlUtils.getAttrAsBool(root, 'totalsRowShown', true),
+      columns: [],
+    };
+
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'tableColumns'), 'tableColumn', (el) => {
+      const column: TableColumn = {
+        id: XmlUtils.getAttrAsInt(el, 'id'),
+        name: XmlUtils.getAttr(el, 'name'),
+      };
+      const totalsRowLabel = XmlUtils.getAttr(el, 'totalsRowLabel');
+      const totalsRowFunction = XmlUtils.getAttr(el, 'totalsRowFunction');
+      const totalsRowFormula = XmlUtils.getText(XmlUtils.getChild(el, 'totalsRowFormula'));
+      if (totalsRowLabel) {
+        column.totalsRowLabel = totalsRowLabel;
+      }
+      if (totalsRowFunction && totalsRowFunction !== 'none') {
+        column.totalsRowFunction = totalsRowFunction as TableColumn['totalsRowFunction'];
+      }
+      if (totalsRowFormula) {
+        column.totalsRowFormula = totalsRowFormula;
+      }
+      table.columns.push(column);
+    });
+
+    const autoFilterEl = XmlUtils.getChild(root, 'autoFilter');
+    if (autoFilterEl) {
+      table.autoFilter = this.parseAutoFilter(autoFilterEl);
+    }
+
+    // 排序状态可能位于 table 或 autoFilter 下
+    const sortStateEl = XmlUtils.getChild(root, 'sortState') ?? XmlUtils.getChild(autoFilterEl, 'sortState');
+    if (sortStateEl) {
+      table.sortState = this.parseSortState(sortStateEl);
+    }
+
+    const styleEl = XmlUtils.getChild(root, 'tableStyleInfo');
+    if (styleEl) {
+      table.styleInfo = {
+        name: XmlUtils.getAttr(styleEl, 'name') || undefined,
+        showFirstColumn: XmlUtils.getAttrAsBool(styleEl, 'showFirstColumn'),
+        showLastColumn: XmlUtils.getAttrAsBool(styleEl, 'showLastColumn'),
+        showRowStripes: XmlUtils.getAttrAsBool(styleEl, 'showRowStripes'),
+        showColumnStripes: XmlUtils.getAttrAsBool(styleEl, 'showColumnStripes'),
+      };
+    }
+
+    return table;
+  }
+
+  /**
+   * 解析自动筛选
+   */
+  private parseAutoFilter(el: Element): AutoFilter {
+    const autoFilter: AutoFilter = {
+      ref: XmlUtils.getAttr(el, 'ref'),
+    };
+
+    const columns = new Map<number, FilterCriteria>();
+    XmlUtils.forEachChildByTag(el, 'filterColumn', (colEl) => {
+      const criteria = this.parseFilterColumn(colEl);
+      if (criteria) {
+        columns.set(XmlUtils.getAttrAsInt(colEl, 'colId'), criteria);
+      }
+    });
+    if (columns.size > 0) {
+      autoFilter.columns = columns;
+    }
+
+    return autoFilter;
+  }
+
+  /**
+   * 解析筛选列条件
+   */
+  private parseFilterColumn(el: Element): FilterCriteria | null {
+    const filtersEl = XmlUtils.getChild(el, 'filters');
+    if (filtersEl) {
+      const values: string[] = [];
+      XmlUtils.forEachChildByTag(filtersEl, 'filter', (filterEl) => {
+        values.push(XmlUtils.getAttr(filterEl, 'val'));
+      });
+      // blank="1" 表示同时显示空白单元格
+      if (XmlUtils.getAttrAsBool(filtersEl, 'blank')) {
+        values.push('');
+      }
+      return { type: 'value', values };
+    }
+
+    const customFiltersEl = XmlUtils.getChild(el, 'customFilters');
+    if (customFiltersEl) {
+      const customFilters: NonNullable<FilterCriteria['customFilters']> = [];
+      XmlUtils.forEachChildByTag(customFiltersEl, 'customFilter', (filterEl) => {
+        const operator = XmlUtils.getAttr(filterEl, 'operator', 'equal');
+        customFilters.push({
+          operator: operator as NonNullable<FilterCriteria['customFilters']>[number]['operator'],
+          val: XmlUtils.getAttr(filterEl, 'val'),
+        });
+      });
+      return { type: 'custom', customFilters };
+    }
+
+    const dynamicEl = XmlUtils.getChild(el, 'dynamicFilter');
+    if (dynamicEl) {
+      return { type: 'dynamic', dynamicType: XmlUtils.getAttr(dynamicEl, 'type') };
+    }
+
+    const top10El = XmlUtils.getChild(el, 'top10');
+    if (top10El) {
+      return {
+        type: 'top10',
+        top10: {
+          top: XmlUtils.getAttrAsBool(top10El, 'top', true),
+          percent: XmlUtils.getAttrAsBool(top10El, 'percent'),
+          val: XmlUtils.getAttrAsNumber(top10El, 'val', 10),
+        },
+      };
+    }
+
+    if (XmlUtils.getChild(el, 'colorFilter')) {
+      return { type: 'color' };
+    }
+    if (XmlUtils.getChild(el, 'iconFilter')) {
+      return { type: 'icon' };
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析排序状态
+   */
+  private parseSortState(el: Element): SortState {
+    const sortConditions: SortState['sortConditions'] = [];
+    XmlUtils.forEachChildByTag(el, 'sortCondition', (condEl) => {
+      const sortBy = XmlUtils.getAttr(condEl, 'sortBy');
+      sortConditions.push({
+        ref: XmlUtils.getAttr(condEl, 'ref'),
+        descending: XmlUtils.getAttrAsBool(condEl, 'descending'),
+        sortBy: sortBy ? (sortBy as SortState['sortConditions'][number]['sortBy']) : undefined,
+      });
+    });
+
+    return {
+      ref: XmlUtils.getAttr(el, 'ref'),
+      caseSensitive: XmlUtils.getAttrAsBool(el, 'caseSensitive'),
+      sortConditions,
+    };
+  }
+
+  /**
+   * 解析线程批注人员列表
+   */
+  private async parsePersons(): Promise<Map<string, string>> {
+    const persons = new Map<string, string>();
+    const personRel = this.findRelationships(this.workbookRelationships, '/person')[0];
+    const path = personRel
+      ? this.resolvePartPath(this.workbookPath, personRel.target)
+      : 'xl/persons/person.xml';
+
+    const personDoc = await this.readXml(path);
+    if (!personDoc) {
+      return persons;
+    }
+
+    XmlUtils.forEachChildByTag(personDoc.documentElement, 'person', (el) => {
+      persons.set(XmlUtils.getAttr(el, 'id'), XmlUtils.getAttr(el, 'displayName'));
+    });
+
+    return persons;
+  }
+
+  /**
+   * 解析工作表批注
+   * @description 合并传统批注 (commentsN.xml)、VML 锚点和线程批注
+   */
+  private async parseComments(rels: Map<string, Relationship>): Promise<Map<string, Comment>> {
+    const comments = new Map<string, Comment>();
+
+    // 传统批注
+    for (const rel of this.findRelationships(rels, '/comments')) {
+      const commentsDoc = await this.readPartXml(rel.target, '批注');
+      if (!commentsDoc) {
+        continue;
+      }
+
+      const root = commentsDoc.documentElement;
+      const authors: string[] = [];
+      XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'authors'), 'author', (el) => {
+        authors.push(XmlUtils.getText(el));
+      });
+
+      XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'commentList'), 'comment', (el) => {
+        const ref = XmlUtils.getAttr(el, 'ref');
+        if (!ref) {
+          return;
+        }
+
+        comments.set(ref, {
+          ref,
+          author: authors[XmlUtils.getAttrAsInt(el, 'authorId', -1)],
+          text: this.parseCommentText(XmlUtils.getChild(el, 'text')),
+          visible: false,
+        });
+      });
+    }
+
+    // VML 绘图中的批注框位置和可见性
+    if (comments.size > 0) {
+      for (const rel of this.findRelationships(rels, '/vmlDrawing')) {
+        const content = await this.readText(rel.target);
+        if (!content) {
+          continue;
+        }
+
+        this.parseVmlNoteShapes(content).forEach((shape, ref) => {
+          const comment = comments.get(ref);
+          if (comment) {
+            comment.visible = shape.visible;
+            comment.anchor = shape.anchor;
+          }
+        });
+      }
+    }
+
+    // 线程批注 (会覆盖对应单元格的传统批注占位内容)
+    for (const rel of this.findRelationships(rels, '/threadedComment')) {
+      const threadDoc = await this.readPartXml(rel.target, '线程批注');
+      if (!threadDoc) {
+        continue;
+      }
+
+      const threads = new Map<string, Comment>();
+      const replies: Array<{ parentId: string; reply: CommentReply }> = [];
+
+      XmlUtils.forEachChildByTag(threadDoc.documentElement, 'threadedComment', (el) => {
+        const id = XmlUtils.getAttr(el, 'id');
+        const parentId = XmlUtils.getAttr(el, 'parentId');
+        const dateStr = XmlUtils.getAttr(el, 'dT');
+        const author = this.persons.get(XmlUtils.getAttr(el, 'personId'));
+        const text = XmlUtils.getText(XmlUtils.getChild(el, 'text'));
+        const date = dateStr ? new Date(dateStr) : undefined;
+
+        if (parentId) {
+          replies.push({ parentId, reply: { id, author, text, date } });
+          return;
+        }
+
+        const ref = XmlUtils.getAttr(el, 'ref');
+        if (!ref) {
+          return;
+        }
+
+        const legacy = comments.get(ref);
+        const comment: Comment = {
+          ref,
+          author,
+          text,
+          visible: legacy?.visible ?? false,
+          anchor: legacy?.anchor,
+          threaded: true,
+          id,
+          date,
+          done: XmlUtils.getAttrAsBool(el, 'done'),
+          replies: [],
+        };
+        threads.set(id, comment);
+        comments.set(ref, comment);
+      });
+
+      replies.forEach(({ parentId, reply }) => {
+        threads.get(parentId)?.replies?.push(reply);
+      });
+    }
+
+    return comments;
+  }
+
+  /**
+   * 解析批注文本
+   */
+  private parseCommentText(el: Element | null): string | RichText {
+    const runs = XmlUtils.getChildren(el, 'r');
+    if (runs.length === 0) {
+      return XmlUtils.getText(XmlUtils.getChild(el, 't'));
+    }
+
+    return runs.map(r => {
+      const run: RichTextRun = {
+        text: XmlUtils.getText(XmlUtils.getChild(r, 't')),
+      };
+
+      const rPr = XmlUtils.getChild(r, 'rPr');
+      if (rPr) {
+        run.font = this.parseFont(rPr);
+      }
+
+      return run;
+    });
+  }
+
+  /**
+   * 解析 VML 中的批注形状
+   * @description VML 常常不是合法的 XML (如未闭合的 <br>)，因此使用正则提取
+   */
+  private parseVmlNoteShapes(content: string): Map<string, { anchor?: CommentAnchor; visible: boolean }> {
+    const shapes = new Map<string, { anchor?: CommentAnchor; visible: boolean }>();
+    const clientDataRegex = /<x:ClientData\b[^>]*ObjectType=["']Note["'][^>]*>([\s\S]*?)<\/x:ClientData>/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = clientDataRegex.exec(content)) !== null) {
+      const body = match[1];
+      const rowMatch = /<x:Row>\s*(\d+)\s*<\/x:Row>/.exec(body);
+      const colMatch = /<x:Column>\s*(\d+)\s*<\/x:Column>/.exec(body);
+      if (!rowMatch || !colMatch) {
+        continue;
+      }
+
+      const ref = XmlUtils.formatCellAddress(parseInt(rowMatch[1], 10), parseInt(colMatch[1], 10));
+
+      // 锚点格式: 左列, 左偏移, 上行, 上偏移, 右列, 右偏移, 下行, 下偏移
+      let anchor: CommentAnchor | undefined;
+      const anchorMatch = /<x:Anchor>([^<]*)<\/x:Anchor>/.exec(body);
+      if (anchorMatch) {
+        const values = anchorMatch[1].split(',').map(v => parseInt(v.trim(), 10));
+        if (values.length === 8 && values.every(v => !isNaN(v))) {
+          anchor = {
+            from: { col: values[0], colOff: values[1], row: values[2], rowOff: values[3] },
+            to: { col: values[4], colOff: values[5], row: values[6], rowOff: values[7] },
+          };
+        }
+      }
+
+      shapes.set(ref, {
+        anchor,
+        visible: /<x:Visible\s*\/?>/.test(body),
+      });
+    }
+
+    return shapes;
+  }
+
+  /**
+   * 解析绘图部件 (xl/drawings/drawingN.xml)
+   */
+  private async parseDrawing(path: string, sheet: Sheet): Promise<void> {
+    const drawingDoc = await this.readPartXml(path, `工作表 ${sheet.name} 的图片和图表`);
+    if (!drawingDoc) {
+      return;
+    }
+
+    const rels = await this.parsePartRelationships(path);
+
+    for (const anchorEl of XmlUtils.getChildren(drawingDoc.documentElement)) {
+      const anchor = this.parseDrawingAnchor(anchorEl);
+      if (!anchor) {
+        continue;
+      }
+
+      // 图片
+      const picEl = XmlUtils.getChild(anchorEl, 'pic');
+      if (picEl && this.options.parseImages) {
+        const image = await this.parsePicture(picEl, anchor, rels, `${sheet.id}-image${sheet.images.length + 1}`);
+        if (image) {
+          sheet.images.push(image);
+        }
+      }
+
+      // 图表
+      const frameEl = XmlUtils.getChild(anchorEl, 'graphicFrame');
+      if (frameEl && this.options.parseCharts) {
+        const chart = await this.recoverPart(
+          path,
+          '图表',
+          () => this.parseChartFrame(frameEl, anchor, rels, `${sheet.id}-chart${sheet.charts.length + 1}`),
+          () => null,
+        );
+        if (chart) {
+          sheet.charts.push(chart);
+        }
+      }
+    }
+  }
+
+  /**
+   * 解析图表框架并读取对应的图表部件
+   */
+  private async parseChartFrame(
+    frameEl: Element,
+    anchor: DrawingAnchor,
+    rels: Map<string, Relationship>,
+    id: string,
+  ): Promise<Chart | null> {
+    const graphicData = XmlUtils.getChild(XmlUtils.getChild(frameEl, 'graphic'), 'graphicData');
+    const chartRef = XmlUtils.getChild(graphicData, 'chart');
+    const rel = rels.get(XmlUtils.getAttr(chartRef, 'r:id'));
+    if (!rel) {
+      return null;
+    }
+
+    const chartDoc = await this.readPartXml(rel.target, '图表');
+    if (!chartDoc) {
+      return null;
+    }
+
+    const chart = new ChartParser(this.theme).parse(chartDoc);
+    if (!chart) {
+      return null;
+    }
+
+    chart.id = id;
+    // 图表未声明日期系统时沿用工作簿的设置
+    chart.date1904 = chart.date1904 ?? this.date1904;
+    chart.positionType = anchor.positionType;
+    chart.anchor = { from: anchor.from, to: anchor.to };
+    chart.position = anchor.position;
+    chart.width = anchor.width;
+    chart.height = anchor.height;
+
+    return chart;
+  }
+
+  /**
+   * 解析绘图锚点
+   * @description 支持 twoCellAnchor / oneCellAnchor / absoluteAnchor，偏移量由 EMU 转换为像素
+   */
+  private parseDrawingAnchor(el: Element): DrawingAnchor | null {
+    const parseMarker = (markerEl: Element | null): DrawingAnchor['from'] => ({
+      col: parseInt(XmlUtils.getText(XmlUtils.getChild(markerEl, 'col')), 10) || 0,
+      colOff: this.emuToPixel(XmlUtils.getText(XmlUtils.getChild(markerEl, 'colOff'))),
+      row: parseInt(XmlUtils.getText(XmlUtils.getChild(markerEl, 'row')), 10) || 0,
+      rowOff: this.emuToPixel(XmlUtils.getText(XmlUtils.getChild(markerEl, 'rowOff'))),
+    });
+
+    const extEl = XmlUtils.getChild(el, 'ext');
+    const width = extEl ? this.emuToPixel(XmlUtils.getAttr(extEl, 'cx')) : undefined;
+    const height = extEl ? this.emuToPixel(XmlUtils.getAttr(extEl, 'cy')) : undefined;
+
+    switch (el.localName) {
+      case 'twoCellAnchor':
+        return {
+          positionType: 'twoCell',
+          from: parseMarker(XmlUtils.getChild(el, 'from')),
+          to: parseMarker(XmlUtils.getChild(el, 'to')),
+        };
+      case 'oneCellAnchor':
+        return {
+          positionType: 'oneCell',
+          from: parseMarker(XmlUtils.getChild(el, 'from')),
+          width,
+          height,
+        };
+      case 'absoluteAnchor': {
+        const posEl = XmlUtils.getChild(el, 'pos');
+        return {
+          positionType: 'absolute',
+          from: { col: 0, colOff: 0, row: 0, rowOff: 0 },
+          position: {
+            x: this.emuToPixel(XmlUtils.getAttr(posEl, 'x')),
+            y: this.emuToPixel(XmlUtils.getAttr(posEl, 'y')),
+          },
+          width,
+          height,
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 解析图片
+   */
+  private async parsePicture(
+    picEl: Element,
+    anchor: DrawingAnchor,
+    rels: Map<string, Relationship>,
+    id: string,
+  ): Promise<Image | null> {
+    const blipEl = XmlUtils.getChild(XmlUtils.getChild(picEl, 'blipFill'), 'blip');
+    const rel = rels.get(XmlUtils.getAttr(blipEl, 'r:embed'));
+    if (!rel || rel.targetMode === 'External') {
+      return null;
+    }
+
+    const filename = rel.target.substring(rel.target.lastIndexOf('/') + 1);
+    const type = IMAGE_TYPES[filename.substring(filename.lastIndexOf('.') + 1).toLowerCase()];
+    if (!type) {
+      return null;
     }
 
-    // 解析视图
-    const sheetViews = XmlUtils.getChild(root, 'sheetViews');
-    XmlUtils.forEachChildByTag(sheetViews, 'sheetView', (viewEl) => {
-      sheet.views.push(this.parseSheetView(viewEl));
-    });
+    const data = await this.readBase64(rel.target);
+    if (!data) {
+      return null;
+    }
 
-    // 从视图中提取冻结窗格
-    if (sheet.views.length > 0) {
-      const paneEl = XmlUtils.getChild(
-        XmlUtils.getChildren(sheetViews, 'sheetView')[0],
-        'pane'
-      );
-      if (paneEl) {
-        sheet.freezePane = this.parseFreezePane(paneEl);
-      }
+    const cNvPr = XmlUtils.getChild(XmlUtils.getChild(picEl, 'nvPicPr'), 'cNvPr');
+    const xfrm = XmlUtils.getChild(XmlUtils.getChild(picEl, 'spPr'), 'xfrm');
+    const xfrmExt = XmlUtils.getChild(xfrm, 'ext');
+
+    const image: Image = {
+      id,
+      type,
+      data,
+      filename,
+      description: XmlUtils.getAttr(cNvPr, 'descr') || XmlUtils.getAttr(cNvPr, 'name') || undefined,
+      width: anchor.width ?? this.emuToPixel(XmlUtils.getAttr(xfrmExt, 'cx')),
+      height: anchor.height ?? this.emuToPixel(XmlUtils.getAttr(xfrmExt, 'cy')),
+      positionType: anchor.positionType,
+      anchor: { from: anchor.from, to: anchor.to },
+      position: anchor.position,
+    };
+
+    // 旋转角度单位为 1/60000 度
+    const rot = XmlUtils.getAttrAsInt(xfrm, 'rot');
+    if (rot) {
+      image.rotation = rot / 60000;
+    }
+    if (XmlUtils.getAttrAsBool(xfrm, 'flipH')) {
+      image.flipH = true;
+    }
+    if (XmlUtils.getAttrAsBool(xfrm, 'flipV')) {
+      image.flipV = true;
     }
 
-    // 解析列定义
-    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'cols'), 'col', (col) => {
-      const min = XmlUtils.getAttrAsInt(col, 'min', 1) - 1;
-      const max = XmlUtils.getAttrAsInt(col, 'max', 1) - 1;
-      const width = XmlUtils.getAttrAsNumber(col, 'width', 8.43);
-      const hidden = XmlUtils.getAttrAsBool(col, 'hidden');
-      const styleIndex = XmlUtils.getAttrAsInt(col, 'style');
-      const customWidth = XmlUtils.getAttrAsBool(col, 'customWidth');
-      const bestFit = XmlUtils.getAttrAsBool(col, 'bestFit');
-      const outlineLevel = XmlUtils.getAttrAsInt(col, 'outlineLevel');
-      const collapsed = XmlUtils.getAttrAsBool(col, 'collapsed');
+    return image;
+  }
 
-      for (let i = min; i <= max; i++) {
-        sheet.columns.set(i, {
-          index: i,
-          width,
-          pixelWidth: Math.round(width * 7 + 5), // Excel 近似转换
-          hidden,
-          styleIndex,
-          customWidth,
-          bestFit,
-          outlineLevel,
-          collapsed
-        });
-      }
-    });
+  /**
+   * EMU 转像素
+   */
+  private emuToPixel(value: string): number {
+    const emu = parseInt(value, 10);
+    return isNaN(emu) ? 0 : Math.round(emu / EMU_PER_PIXEL);
+  }
 
-    // 解析行和单元格
-    const sheetData = XmlUtils.getChild(root, 'sheetData');
-    XmlUtils.forEachChildByTag(sheetData, 'row', (rowEl) => {
-      const rowIndex = XmlUtils.getAttrAsInt(rowEl, 'r', 1) - 1;
+  /**
+   * 添加行及其单元格
+   */
+  private addRow(sheet: Sheet, raw: RawRow): void {
+    const attrs = raw.attrs;
+    const rowIndex = (parseInt(attrs.r, 10) || 1) - 1;
+
+    // 行属性
+    const row: Row = {
+      index: rowIndex,
+      height: attrs.ht ? parseFloat(attrs.ht) : sheet.defaultRowHeight ?? 15,
+      hidden: attrs.hidden === '1' || attrs.hidden === 'true',
+      styleIndex: attrs.s ? parseInt(attrs.s, 10) : undefined,
+      customHeight: attrs.customHeight === '1' || attrs.customHeight === 'true',
+      outlineLevel: parseInt(attrs.outlineLevel, 10) || 0,
+      collapsed: attrs.collapsed === '1' || attrs.collapsed === 'true',
+    };
+    sheet.rows.set(rowIndex, row);
 
-      // 行属性
-      const row: Row = {
-        index: rowIndex,
-        height: XmlUtils.getAttrAsNumber(rowEl, 'ht', sheet.defaultRowHeight || 15),
-        hidden: XmlUtils.getAttrAsBool(rowEl, 'hidden'),
-        styleIndex: XmlUtils.getAttr(rowEl, 's') ? XmlUtils.getAttrAsInt(rowEl, 's') : undefined,
-        customHeight: XmlUtils.getAttrAsBool(rowEl, 'customHeight'),
-        outlineLevel: XmlUtils.getAttrAsInt(rowEl, 'outlineLevel'),
-        collapsed: XmlUtils.getAttrAsBool(rowEl, 'collapsed')
-      };
-      sheet.rows.set(rowIndex, row);
+    // 单元格
+    for (const rawCell of raw.cells) {
+      const cell = this.parseCell(rawCell);
+      sheet.cells.set(cell.address, cell);
+    }
+  }
 
-      // 单元格
-      XmlUtils.forEachChildByTag(rowEl, 'c', (cellEl) => {
-        const cell = this.parseCell(cellEl);
-        sheet.cells.set(cell.address, cell);
+  /**
+   * 添加列式数据块中的行及其单元格
+   */
+  private addRowChunk(sheet: Sheet, chunk: RowChunk): void {
+    const strings = RowChunkCodec.decodeStrings(chunk);
+    const getString = (index: number): string | undefined => (index >= 0 ? strings[index] : undefined);
+
+    for (let i = 0; i < chunk.rowCount; i++) {
+      const rowIndex = chunk.rowIndexes[i];
+      const flags = chunk.rowFlags[i];
+      sheet.rows.set(rowIndex, {
+        index: rowIndex,
+        height: isNaN(chunk.rowHeights[i]) ? sheet.defaultRowHeight ?? 15 : chunk.rowHeights[i],
+        hidden: (flags & ROW_FLAG_HIDDEN) !== 0,
+        styleIndex: chunk.rowStyles[i] >= 0 ? chunk.rowStyles[i] : undefined,
+        customHeight: (flags & ROW_FLAG_CUSTOM_HEIGHT) !== 0,
+        outlineLevel: chunk.rowOutlineLevels[i],
+        collapsed: (flags & ROW_FLAG_COLLAPSED) !== 0,
       });
-    });
+    }
 
-    // 解析合并单元格
-    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'mergeCells'), 'mergeCell', (el) => {
-      const ref = XmlUtils.getAttr(el, 'ref');
-      if (ref) {
-        const range = XmlUtils.parseRange(ref);
-        const mergeCell: MergeCell = {
-          ref,
-          startRow: range.start.row,
-          startCol: range.start.col,
-          endRow: range.end.row,
-          endCol: range.end.col
-        };
-        sheet.mergeCells.push(mergeCell);
+    for (let i = 0; i < chunk.cellCount; i++) {
+      const row = chunk.cellRows[i];
+      const col = chunk.cellCols[i];
+      const formulaText = getString(chunk.formulaTexts[i]);
+      const cell = this.createCell({
+        address: XmlUtils.formatCellAddress(row, col),
+        row,
+        col,
+        type: CHUNK_CELL_TYPES[chunk.cellTypes[i]],
+        styleIndex: chunk.cellStyles[i] >= 0 ? chunk.cellStyles[i] : undefined,
+        value: getString(chunk.cellValues[i]),
+        number: isNaN(chunk.cellNumbers[i]) ? undefined : chunk.cellNumbers[i],
+        inlineString: getString(chunk.cellInlineStrings[i]),
+        formula: formulaText === undefined ? undefined : {
+          text: formulaText,
+          type: CHUNK_FORMULA_TYPES[chunk.formulaTypes[i]],
+          ref: getString(chunk.formulaRefs[i]),
+          si: chunk.formulaShared[i] >= 0 ? chunk.formulaShared[i] : undefined,
+        },
+        metadata: chunk.cellMetadata[i] >= 0 ? chunk.cellMetadata[i] : undefined,
+      });
+      sheet.cells.set(cell.address, cell);
+    }
+  }
 
-        // 标记合并单元格
-        for (let r = range.start.row; r <= range.end.row; r++) {
-          for (let c = range.start.col; c <= range.end.col; c++) {
-            const addr = XmlUtils.formatCellAddress(r, c);
-            const cell = sheet.cells.get(addr);
-            if (cell) {
-              cell.isMerged = true;
-              cell.merge = range;
-              if (r === range.start.row && c === range.start.col) {
-                cell.isMergeOrigin = true;
-              }
-            }
-          }
-        }
+  /**
+   * 展开共享公式并标记数组公式区域
+   * @description 共享公式只有主单元格保存公式文本，其余单元格按相对主单元格的偏移平移引用
+   */
+  private resolveFormulaGroups(sheet: Sheet): void {
+    const masters = new Map<number, Cell>();
+    const arrays: Cell[] = [];
+
+    sheet.cells.forEach((cell) => {
+      const formula = cell.formula;
+      if (formula?.type === 'shared' && formula.si !== undefined && formula.ref && formula.text) {
+        masters.set(formula.si, cell);
+      } else if (formula?.type === 'array') {
+        arrays.push(cell);
       }
     });
 
-    // 解析超链接
-    XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'hyperlinks'), 'hyperlink', (el) => {
-      const ref = XmlUtils.getAttr(el, 'ref');
-      const rId = XmlUtils.getAttr(el, 'r:id');
-      const location = XmlUtils.getAttr(el, 'location');
-      const display = XmlUtils.getAttr(el, 'display');
-      const tooltip = XmlUtils.getAttr(el, 'tooltip');
-
-      if (ref) {
-        const hyperlink: Hyperlink = {
-          target: location || '',
-          type: location ? 'internal' : 'url',
-          tooltip,
-          display
-        };
-
-        // TODO: 从关系文件中获取外部链接目标
-
-        sheet.hyperlinks.set(ref, hyperlink);
+    if (masters.size > 0) {
+      sheet.cells.forEach((cell) => {
+        const formula = cell.formula;
+        if (formula?.type !== 'shared' || formula.si === undefined || formula.text) {
+          return;
+        }
+        const master = masters.get(formula.si);
+        if (master?.formula) {
+          formula.text = FormulaUtils.shift(master.formula.text, cell.row - master.row, cell.col - master.col);
+        }
+      });
+    }
 
-        // 更新单元格
-        const cell = sheet.cells.get(ref);
+    for (const anchor of arrays) {
+      const range = anchor.formula?.range;
+      if (!range) {
+        continue;
+      }
+      for (const address of this.getCellsInRange(sheet, range)) {
+        const cell = sheet.cells.get(address);
         if (cell) {
-          cell.hyperlink = hyperlink;
+          cell.arrayRange = range;
         }
       }
-    });
-
-    // 解析自动筛选
-    const autoFilterEl = XmlUtils.getChild(root, 'autoFilter');
-    if (autoFilterEl) {
-      sheet.autoFilter = {
-        ref: XmlUtils.getAttr(autoFilterEl, 'ref')
-      };
     }
+  }
 
-    // 解析数据验证
-    if (this.options.parseDataValidations) {
-      XmlUtils.forEachChildByTag(XmlUtils.getChild(root, 'dataValidations'), 'dataValidation', (el) => {
-        sheet.dataValidations.push(this.parseDataValidation(el));
-      });
+  /**
+   * 读取单元格元素的属性和内容
+   */
+  private readRawCell(el: Element): RawCell {
+    const raw: RawCell = { attrs: XmlUtils.getAttributes(el) };
+
+    const vEl = XmlUtils.getChild(el, 'v');
+    if (vEl) {
+      raw.v = XmlUtils.getText(vEl);
     }
 
-    // 解析条件格式
-    if (this.options.parseConditionalFormats) {
-      XmlUtils.forEachChildByTag(root, 'conditionalFormatting', (cfEl) => {
-        const ranges = XmlUtils.getAttr(cfEl, 'sqref').split(' ');
-        XmlUtils.forEachChildByTag(cfEl, 'cfRule', (ruleEl) => {
-          sheet.conditionalFormats.push(this.parseConditionalFormat(ruleEl, ranges));
-        });
-      });
+    const fEl = XmlUtils.getChild(el, 'f');
+    if (fEl) {
+      raw.f = { text: XmlUtils.getText(fEl), attrs: XmlUtils.getAttributes(fEl) };
     }
 
-    // 解析打印设置
-    const printOptionsEl = XmlUtils.getChild(root, 'printOptions');
-    const pageSetupEl = XmlUtils.getChild(root, 'pageSetup');
-    if (printOptionsEl || pageSetupEl) {
-      sheet.printOptions = this.parsePrintOptions(printOptionsEl, pageSetupEl);
+    const isEl = XmlUtils.getChild(el, 'is');
+    if (isEl) {
+      raw.is = XmlUtils.getText(XmlUtils.getChild(isEl, 't'));
     }
 
-    return sheet;
+    return raw;
   }
 
   /**
    * 解析单元格
    */
-  private parseCell(el: Element): Cell {
-    const address = XmlUtils.getAttr(el, 'r');
+  private parseCell(raw: RawCell): Cell {
+    const address = raw.attrs.r ?? '';
     const { row, col } = XmlUtils.parseCellAddress(address);
-    const typeAttr = XmlUtils.getAttr(el, 't');
-    const styleIndex = XmlUtils.getAttr(el, 's') ? XmlUtils.getAttrAsInt(el, 's') : undefined;
+    return this.createCell({
+      address,
+      row,
+      col,
+      type: raw.attrs.t ?? '',
+      styleIndex: raw.attrs.s ? parseInt(raw.attrs.s, 10) : undefined,
+      value: raw.v,
+      inlineString: raw.is,
+      formula: raw.f && {
+        text: raw.f.text,
+        type: raw.f.attrs.t ?? 'normal',
+        ref: raw.f.attrs.ref || undefined,
+        si: raw.f.attrs.si ? parseInt(raw.f.attrs.si, 10) : undefined,
+      },
+      metadata: raw.attrs.cm ? parseInt(raw.attrs.cm, 10) : undefined,
+    });
+  }
+
+  /**
+   * 由单元格字段创建单元格
+   */
+  private createCell(source: CellSource): Cell {
+    const { address, row, col, styleIndex } = source;
+    const typeAttr = source.type;
 
     let value: Cell['value'] = null;
     let type: CellValueType = 'empty';
@@ -1027,20 +2812,22 @@ export class ExcelParser {
     let formula: CellFormula | undefined;
 
     // 解析公式
-    const fEl = XmlUtils.getChild(el, 'f');
-    if (fEl && this.options.parseFormulas) {
+    if (source.formula && this.options.parseFormulas) {
       formula = {
-        text: XmlUtils.getText(fEl),
-        type: (XmlUtils.getAttr(fEl, 't', 'normal') as CellFormula['type']),
-        ref: XmlUtils.getAttr(fEl, 'ref') || undefined,
-        si: XmlUtils.getAttr(fEl, 'si') ? XmlUtils.getAttrAsInt(fEl, 'si') : undefined
+        text: source.formula.text,
+        type: source.formula.type as CellFormula['type'],
+        ref: source.formula.ref,
+        si: source.formula.si,
       };
+      if (formula.type === 'array') {
+        formula.range = formula.ref ?? address;
+        formula.dynamic = source.metadata !== undefined && this.dynamicArrayMetadata.has(source.metadata);
+      }
       type = 'formula';
     }
 
     // 解析值
-    const vEl = XmlUtils.getChild(el, 'v');
-    const vText = XmlUtils.getText(vEl);
+    const vText = source.value ?? (source.number !== undefined ? String(source.number) : '');
 
     switch (typeAttr) {
       case 's': // 共享字符串
@@ -1059,10 +2846,8 @@ export class ExcelParser {
         break;
 
       case 'inlineStr': // 内联字符串
-        const isEl = XmlUtils.getChild(el, 'is');
-        const tEl = XmlUtils.getChild(isEl, 't');
-        value = XmlUtils.getText(tEl);
-        text = value as string;
+        text = source.inlineString ?? '';
+        value = text;
         type = formula ? 'formula' : 'string';
         break;
 
@@ -1086,7 +2871,7 @@ export class ExcelParser {
 
       default: // 数字或空
         if (vText !== '') {
-          const num = parseFloat(vText);
+          const num = source.number ?? parseFloat(vText);
           if (!isNaN(num)) {
             value = num;
             text = vText;
@@ -1097,7 +2882,7 @@ export class ExcelParser {
               const style = this.stylesheet.cellXfs[styleIndex];
               if (style && this.isDateFormat(style.numFmt || '')) {
                 type = formula ? 'formula' : 'date';
-                value = this.excelDateToJS(num);
+                value = DateUtils.excelSerialToDate(num, this.date1904);
                 text = (value as Date).toLocaleDateString();
               }
             }
@@ -1142,28 +2927,6 @@ export class ExcelParser {
     return dateChars.test(cleanFormat);
   }
 
-  /**
-   * Excel 日期转 JS Date
-   */
-  private excelDateToJS(serial: number): Date {
-    // Excel 日期从 1900-01-01 开始 (序列号 1)
-    // 需要考虑 1900 年闰年 bug
-    const utcDays = Math.floor(serial) - 25569;
-    const utcValue = utcDays * 86400;
-    const dateInfo = new Date(utcValue * 1000);
-
-    // 处理小数部分 (时间)
-    const fractionalDay = serial - Math.floor(serial);
-    const totalSeconds = Math.floor(86400 * fractionalDay);
-    const hours = Math.floor(totalSeconds / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-    const seconds = totalSeconds % 60;
-
-    dateInfo.setHours(hours, minutes, seconds);
-
-    return dateInfo;
-  }
-
   /**
    * 解析工作表视图
    */
@@ -1185,6 +2948,46 @@ export class ExcelParser {
     };
   }
 
+  /**
+   * 解析工作表保护
+   * @description 插入、删除、格式、排序等操作默认受保护，对象、方案和选择单元格默认允许
+   */
+  private parseSheetProtection(el: Element): SheetProtection {
+    return {
+      password: XmlUtils.getAttr(el, 'hashValue') || XmlUtils.getAttr(el, 'password') || undefined,
+      algorithmName: XmlUtils.getAttr(el, 'algorithmName') || undefined,
+      sheet: XmlUtils.getAttrAsBool(el, 'sheet'),
+      objects: XmlUtils.getAttrAsBool(el, 'objects'),
+      scenarios: XmlUtils.getAttrAsBool(el, 'scenarios'),
+      formatCells: XmlUtils.getAttrAsBool(el, 'formatCells', true),
+      formatColumns: XmlUtils.getAttrAsBool(el, 'formatColumns', true),
+      formatRows: XmlUtils.getAttrAsBool(el, 'formatRows', true),
+      insertColumns: XmlUtils.getAttrAsBool(el, 'insertColumns', true),
+      insertRows: XmlUtils.getAttrAsBool(el, 'insertRows', true),
+      insertHyperlinks: XmlUtils.getAttrAsBool(el, 'insertHyperlinks', true),
+      deleteColumns: XmlUtils.getAttrAsBool(el, 'deleteColumns', true),
+      deleteRows: XmlUtils.getAttrAsBool(el, 'deleteRows', true),
+      selectLockedCells: XmlUtils.getAttrAsBool(el, 'selectLockedCells'),
+      sort: XmlUtils.getAttrAsBool(el, 'sort', true),
+      autoFilter: XmlUtils.getAttrAsBool(el, 'autoFilter', true),
+      pivotTables: XmlUtils.getAttrAsBool(el, 'pivotTables', true),
+      selectUnlockedCells: XmlUtils.getAttrAsBool(el, 'selectUnlockedCells'),
+    };
+  }
+
+  /**
+   * 解析工作簿保护
+   */
+  private parseWorkbookProtection(el: Element): WorkbookProtection {
+    return {
+      password: XmlUtils.getAttr(el, 'workbookHashValue') || XmlUtils.getAttr(el, 'workbookPassword') || undefined,
+      algorithmName: XmlUtils.getAttr(el, 'workbookAlgorithmName') || undefined,
+      lockStructure: XmlUtils.getAttrAsBool(el, 'lockStructure'),
+      lockWindows: XmlUtils.getAttrAsBool(el, 'lockWindows'),
+      lockRevision: XmlUtils.getAttrAsBool(el, 'lockRevision'),
+    };
+  }
+
   /**
    * 解析冻结窗格
    */
@@ -1200,12 +3003,14 @@ export class ExcelParser {
 
   /**
    * 解析数据验证
+   * @description x14 扩展中的数据验证用 xm:sqref 子元素表示范围，公式位于 formula1/xm:f 中
    */
   private parseDataValidation(el: Element): DataValidation {
+    const sqref = XmlUtils.getAttr(el, 'sqref') || XmlUtils.getText(XmlUtils.getChild(el, 'sqref'));
     return {
       type: XmlUtils.getAttr(el, 'type', 'none') as DataValidation['type'],
       operator: XmlUtils.getAttr(el, 'operator') as DataValidation['operator'],
-      ranges: XmlUtils.getAttr(el, 'sqref', '').split(' '),
+      ranges: sqref.trim().split(/\s+/),
       formula1: XmlUtils.getText(XmlUtils.getChild(el, 'formula1')),
       formula2: XmlUtils.getText(XmlUtils.getChild(el, 'formula2')),
       allowBlank: XmlUtils.getAttrAsBool(el, 'allowBlank'),
@@ -1243,6 +3048,36 @@ export class ExcelParser {
       rule.formula = formulas.map(f => XmlUtils.getText(f));
     }
 
+    // 文本、发生日期、前 N 项和平均值条件
+    const text = XmlUtils.getAttr(el, 'text');
+    if (text) {
+      rule.text = text;
+    }
+    const timePeriod = XmlUtils.getAttr(el, 'timePeriod');
+    if (timePeriod) {
+      rule.timePeriod = timePeriod as ConditionalTimePeriod;
+    }
+    if (rule.type === 'top10') {
+      rule.rank = XmlUtils.getAttrAsInt(el, 'rank', 10);
+      rule.percent = XmlUtils.getAttrAsBool(el, 'percent');
+      rule.bottom = XmlUtils.getAttrAsBool(el, 'bottom');
+    }
+    if (rule.type === 'aboveAverage') {
+      rule.aboveAverage = XmlUtils.getAttrAsBool(el, 'aboveAverage', true);
+      rule.equalAverage = XmlUtils.getAttrAsBool(el, 'equalAverage');
+      rule.stdDev = XmlUtils.getAttrAsInt(el, 'stdDev', 0);
+    }
+
+    // 差异格式
+    const dxfId = XmlUtils.getAttr(el, 'dxfId');
+    if (dxfId) {
+      rule.dxfId = parseInt(dxfId, 10);
+      const style = this.stylesheet?.dxfs[rule.dxfId];
+      if (style) {
+        rule.style = style;
+      }
+    }
+
     // 色阶
     const colorScale = XmlUtils.getChild(el, 'colorScale');
     if (colorScale) {
@@ -1262,6 +3097,10 @@ export class ExcelParser {
     if (dataBar) {
       const colorEl = XmlUtils.getChild(dataBar, 'color');
       rule.dataBar = {
+        cfvo: XmlUtils.getChildren(dataBar, 'cfvo').map(c => ({
+          type: XmlUtils.getAttr(c, 'type'),
+          val: XmlUtils.getAttr(c, 'val'),
+        })),
         minLength: XmlUtils.getAttrAsInt(dataBar, 'minLength', 10),
         maxLength: XmlUtils.getAttrAsInt(dataBar, 'maxLength', 90),
         showValue: XmlUtils.getAttrAsBool(dataBar, 'showValue', true),
@@ -1290,12 +3129,79 @@ export class ExcelParser {
   }
 
   /**
-   * 解析打印设置
+   * 解析迷你图组
    */
-  private parsePrintOptions(
-    printOptionsEl: Element | null,
-    pageSetupEl: Element | null
-  ): PrintOptions {
+  private parseSparklineGroup(el: Element): SparklineGroup {
+    const group: SparklineGroup = {
+      type: XmlUtils.getAttr(el, 'type', 'line') as SparklineType,
+      sparklines: [],
+      lineWeight: XmlUtils.getAttrAsNumber(el, 'lineWeight', 0.75),
+      markers: XmlUtils.getAttrAsBool(el, 'markers'),
+      high: XmlUtils.getAttrAsBool(el, 'high'),
+      low: XmlUtils.getAttrAsBool(el, 'low'),
+      first: XmlUtils.getAttrAsBool(el, 'first'),
+      last: XmlUtils.getAttrAsBool(el, 'last'),
+      negative: XmlUtils.getAttrAsBool(el, 'negative'),
+      displayXAxis: XmlUtils.getAttrAsBool(el, 'displayXAxis'),
+      displayEmptyCellsAs: XmlUtils.getAttr(el, 'displayEmptyCellsAs', 'zero') as SparklineGroup['displayEmptyCellsAs'],
+      displayHidden: XmlUtils.getAttrAsBool(el, 'displayHidden'),
+      minAxisType: XmlUtils.getAttr(el, 'minAxisType', 'individual') as SparklineAxisType,
+      maxAxisType: XmlUtils.getAttr(el, 'maxAxisType', 'individual') as SparklineAxisType,
+      rightToLeft: XmlUtils.getAttrAsBool(el, 'rightToLeft'),
+    };
+
+    if (group.minAxisType === 'custom') {
+      group.manualMin = XmlUtils.getAttrAsNumber(el, 'manualMin', 0);
+    }
+    if (group.maxAxisType === 'custom') {
+      group.manualMax = XmlUtils.getAttrAsNumber(el, 'manualMax', 0);
+    }
+
+    // 颜色
+    const colorNames = [
+      'colorSeries', 'colorNegative', 'colorAxis', 'colorMarkers', 'colorFirst', 'colorLast', 'colorHigh', 'colorLow',
+    ] as const;
+    for (const name of colorNames) {
+      const colorEl = XmlUtils.getChild(el, name);
+      if (colorEl) {
+        group[name] = this.parseColor(colorEl);
+      }
+    }
+
+    // 日期坐标轴范围
+    const dateRange = XmlUtils.getText(XmlUtils.getChild(el, 'f'));
+    if (dateRange) {
+      group.dateRange = dateRange;
+    }
+
+    // 迷你图 (f 为数据范围，sqref 为所在单元格)
+    XmlUtils.forEachChildByTag(XmlUtils.getChild(el, 'sparklines'), 'sparkline', (sparklineEl) => {
+      const ref = XmlUtils.getText(XmlUtils.getChild(sparklineEl, 'f')).trim();
+      const location = XmlUtils.getText(XmlUtils.getChild(sparklineEl, 'sqref')).trim();
+      if (location) {
+        group.sparklines.push({ ref, location });
+      }
+    });
+
+    return group;
+  }
+
+  /**
+   * 解析打印设置 (打印选项、页边距、页面设置、页眉页脚和分页符)
+   * @returns 工作表没有任何打印设置时返回 undefined
+   */
+  private parsePrintOptions(root: Element): PrintOptions | undefined {
+    const printOptionsEl = XmlUtils.getChild(root, 'printOptions');
+    const pageMarginsEl = XmlUtils.getChild(root, 'pageMargins');
+    const pageSetupEl = XmlUtils.getChild(root, 'pageSetup');
+    const headerFooterEl = XmlUtils.getChild(root, 'headerFooter');
+    const rowBreaksEl = XmlUtils.getChild(root, 'rowBreaks');
+    const colBreaksEl = XmlUtils.getChild(root, 'colBreaks');
+    const pageSetUpPrEl = XmlUtils.getChild(XmlUtils.getChild(root, 'sheetPr'), 'pageSetUpPr');
+    if (!printOptionsEl && !pageMarginsEl && !pageSetupEl && !headerFooterEl && !rowBreaksEl && !colBreaksEl) {
+      return undefined;
+    }
+
     const options: PrintOptions = {};
 
     if (printOptionsEl) {
@@ -1305,17 +3211,153 @@ export class ExcelParser {
       options.verticalCentered = XmlUtils.getAttrAsBool(printOptionsEl, 'verticalCentered');
     }
 
+    if (pageMarginsEl) {
+      options.margins = {
+        left: XmlUtils.getAttrAsNumber(pageMarginsEl, 'left', 0.7),
+        right: XmlUtils.getAttrAsNumber(pageMarginsEl, 'right', 0.7),
+        top: XmlUtils.getAttrAsNumber(pageMarginsEl, 'top', 0.75),
+        bottom: XmlUtils.getAttrAsNumber(pageMarginsEl, 'bottom', 0.75),
+        header: XmlUtils.getAttrAsNumber(pageMarginsEl, 'header', 0.3),
+        footer: XmlUtils.getAttrAsNumber(pageMarginsEl, 'footer', 0.3),
+      };
+    }
+
     if (pageSetupEl) {
       const orientation = XmlUtils.getAttr(pageSetupEl, 'orientation');
-      if (orientation) options.orientation = orientation as PrintOptions['orientation'];
+      if (orientation && orientation !== 'default') {
+        options.orientation = orientation as PrintOptions['orientation'];
+      }
+
+      const paperSizeId = XmlUtils.getAttrAsInt(pageSetupEl, 'paperSize', 1);
+      options.paperSizeId = paperSizeId;
+      options.paperSize = PAPER_SIZES[paperSizeId];
 
       options.scale = XmlUtils.getAttrAsInt(pageSetupEl, 'scale', 100);
-      options.fitToWidth = XmlUtils.getAttrAsInt(pageSetupEl, 'fitToWidth');
-      options.fitToHeight = XmlUtils.getAttrAsInt(pageSetupEl, 'fitToHeight');
+      options.fitToWidth = XmlUtils.getAttrAsInt(pageSetupEl, 'fitToWidth', 1);
+      options.fitToHeight = XmlUtils.getAttrAsInt(pageSetupEl, 'fitToHeight', 1);
       options.blackAndWhite = XmlUtils.getAttrAsBool(pageSetupEl, 'blackAndWhite');
       options.draft = XmlUtils.getAttrAsBool(pageSetupEl, 'draft');
+      options.pageOrder = XmlUtils.getAttr(pageSetupEl, 'pageOrder', 'downThenOver') as PrintOptions['pageOrder'];
+      if (XmlUtils.getAttrAsBool(pageSetupEl, 'useFirstPageNumber')) {
+        options.firstPageNumber = XmlUtils.getAttrAsInt(pageSetupEl, 'firstPageNumber', 1);
+      }
+    }
+    options.fitToPage = XmlUtils.getAttrAsBool(pageSetUpPrEl, 'fitToPage');
+
+    if (headerFooterEl) {
+      const common = {
+        differentOddEven: XmlUtils.getAttrAsBool(headerFooterEl, 'differentOddEven'),
+        differentFirst: XmlUtils.getAttrAsBool(headerFooterEl, 'differentFirst'),
+        scaleWithDoc: XmlUtils.getAttrAsBool(headerFooterEl, 'scaleWithDoc', true),
+        alignWithMargins: XmlUtils.getAttrAsBool(headerFooterEl, 'alignWithMargins', true),
+      };
+      const getText = (tagName: string): string | undefined => {
+        const el = XmlUtils.getChild(headerFooterEl, tagName);
+        return el ? XmlUtils.getText(el) : undefined;
+      };
+      options.header = {
+        ...common,
+        oddHeader: getText('oddHeader'),
+        evenHeader: getText('evenHeader'),
+        firstHeader: getText('firstHeader'),
+      };
+      options.footer = {
+        ...common,
+        oddFooter: getText('oddFooter'),
+        evenFooter: getText('evenFooter'),
+        firstFooter: getText('firstFooter'),
+      };
+    }
+
+    if (rowBreaksEl) {
+      options.rowBreaks = this.parsePageBreaks(rowBreaksEl);
+    }
+    if (colBreaksEl) {
+      options.colBreaks = this.parsePageBreaks(colBreaksEl);
     }
 
     return options;
   }
+
+  /**
+   * 解析分页符
+   */
+  private parsePageBreaks(el: Element): PageBreak[] {
+    const breaks: PageBreak[] = [];
+    XmlUtils.forEachChildByTag(el, 'brk', (brkEl) => {
+      breaks.push({
+        index: XmlUtils.getAttrAsInt(brkEl, 'id', 0),
+        manual: XmlUtils.getAttrAsBool(brkEl, 'man'),
+        min: XmlUtils.getAttrAsInt(brkEl, 'min', 0),
+        max: XmlUtils.getAttrAsInt(brkEl, 'max', 0),
+      });
+    });
+    return breaks;
+  }
+
+  /**
+   * 从定义名称读取打印区域和打印标题 (_xlnm.Print_Area、_xlnm.Print_Titles)
+   * @description 引用去掉工作表名和 $ 符号；xls 中整行、整列以完整的区域表示，统一转为 1:2、A:B 形式
+   */
+  private applyPrintNames(sheet: Sheet, definedNames: DefinedName[] = this.definedNames): void {
+    for (const definedName of definedNames) {
+      const name = definedName.name.replace(/^_xlnm\./, '');
+      if (definedName.scope !== String(sheet.index) || (name !== 'Print_Area' && name !== 'Print_Titles')) {
+        continue;
+      }
+
+      const refs = this.splitReferenceList(definedName.ref);
+      const options = sheet.printOptions ?? (sheet.printOptions = {});
+      if (name === 'Print_Area') {
+        options.printArea = refs.join(',');
+        continue;
+      }
+      for (const ref of refs) {
+        if (/^\d+:\d+$/.test(ref)) {
+          options.printTitlesRow = ref;
+        } else if (/^[A-Z]+:[A-Z]+$/.test(ref)) {
+          options.printTitlesColumn = ref;
+        }
+      }
+    }
+  }
+
+  /**
+   * 拆分定义名称中以逗号分隔的引用列表，去掉工作表名和 $ 符号
+   */
+  private splitReferenceList(ref: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const ch of ref) {
+      if (ch === '\'') {
+        quoted = !quoted;
+      }
+      if (ch === ',' && !quoted) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    parts.push(current);
+
+    return parts
+      .map(part => part.slice(part.lastIndexOf('!') + 1).replace(/\$/g, '').trim())
+      .filter(part => part !== '' && part !== '#REF!')
+      .map((part) => {
+        const match = /^([A-Z]+)(\d+):([A-Z]+)(\d+)$/.exec(part);
+        if (!match) {
+          return part;
+        }
+        const [, startCol, startRow, endCol, endRow] = match;
+        if (startCol === 'A' && (endCol === 'IV' || endCol === 'XFD')) {
+          return `${startRow}:${endRow}`;
+        }
+        if (startRow === '1' && (endRow === '65536' || endRow === '1048576')) {
+          return `${startCol}:${endCol}`;
+        }
+        return part;
+      });
+  }
 }
@@ -0,0 +1,1621 @@
+/**
+ * OpenDocument 电子表格 (ods) 解析器
+ * @description 将 content.xml 中的表格、行、单元格和自动样式，以及 styles.xml 中的默认样式和命名样式，
+ * 映射为与 xlsx 相同的工作簿、工作表、单元格和样式结构
+ */
+import { XmlUtils } from './XmlUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { HyperlinkUtils } from '../utils/HyperlinkUtils';
+import { ProtectionUtils } from '../utils/ProtectionUtils';
+import type { ParseOptions } from './ExcelParser';
+import type {
+  Workbook,
+  Sheet,
+  Cell,
+  CellStyle,
+  CellValueType,
+  CellErrorType,
+  CellFormula,
+  Comment,
+  Hyperlink,
+  FontStyle,
+  Border,
+  BorderSide,
+  BorderStyleType,
+  HorizontalAlignment,
+  Color,
+  DefinedName,
+  DocumentProperties,
+  CustomProperty,
+  NumberFormat,
+  SheetView,
+} from '../types';
+
+/**
+ * ods 和 ots (模板) 文件的 mimetype
+ */
+const ODS_MIMETYPES = [
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/vnd.oasis.opendocument.spreadsheet-template',
+];
+
+/**
+ * 工作表的最大行数和列数 (与 Excel 一致，超出范围的重复行列不读取)
+ */
+const MAX_ROWS = 1048576;
+const MAX_COLS = 16384;
+
+/**
+ * 只有样式的空单元格 (列数 × 重复行数) 超过此数量时不创建
+ * @description LibreOffice 以重复的空行和空单元格填满工作表末尾
+ */
+const MAX_EMPTY_CELLS = 1024;
+
+/**
+ * 长度单位与磅的换算
+ */
+const POINTS_PER_UNIT: Record<string, number> = {
+  pt: 1,
+  pc: 12,
+  in: 72,
+  cm: 72 / 2.54,
+  mm: 72 / 25.4,
+  px: 0.75,
+};
+
+/**
+ * 内置数字格式 ID
+ */
+const BUILTIN_NUM_FMTS: Record<string, number> = {
+  'General': 0,
+  '0': 1,
+  '0.00': 2,
+  '#,##0': 3,
+  '#,##0.00': 4,
+  '0%': 9,
+  '0.00%': 10,
+};
+
+/**
+ * 自定义数字格式的起始 ID
+ */
+const CUSTOM_NUM_FMT_ID = 164;
+
+/**
+ * 数据样式 (数字格式) 元素
+ */
+const DATA_STYLE_TAGS = [
+  'number-style',
+  'currency-style',
+  'percentage-style',
+  'date-style',
+  'time-style',
+  'boolean-style',
+  'text-style',
+];
+
+/**
+ * 数字格式中不需要加引号的文本
+ */
+const LITERAL_FORMAT_TEXT = /^[\s$\-+/():!^&'~{}<>=,.%]*$/;
+
+/**
+ * 错误值
+ */
+const ERROR_VALUES: CellErrorType[] = ['#NULL!', '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A'];
+
+/**
+ * ods 文件中的部件
+ */
+export interface OdsDocuments {
+  /** content.xml (表格和自动样式) */
+  content: Document;
+  /** styles.xml (默认样式和命名样式) */
+  styles: Document | null;
+  /** meta.xml (文档属性) */
+  meta: Document | null;
+  /** settings.xml (活动工作表、冻结窗格和缩放) */
+  settings: Document | null;
+}
+
+/**
+ * 行样式
+ */
+interface RowStyle {
+  /** 行高 (磅) */
+  height?: number;
+  /** 是否为最佳行高 (随内容自动调整) */
+  optimal: boolean;
+}
+
+/**
+ * 单元格内容 (重复的单元格共用)
+ */
+interface CellContent {
+  value: Cell['value'];
+  type: CellValueType;
+  text: string;
+  formula?: CellFormula;
+  error?: CellErrorType;
+  hyperlink?: Hyperlink;
+  comment?: Comment;
+}
+
+/**
+ * 行中的单元格元素 (table:table-cell 或 table:covered-table-cell)
+ */
+interface CellBlock {
+  /** 起始列 */
+  col: number;
+  /** 重复列数 */
+  count: number;
+  /** 样式名称 */
+  styleName?: string;
+  /** 内容 (空单元格为 null) */
+  content: CellContent | null;
+  /** 合并的列数 */
+  colSpan: number;
+  /** 合并的行数 */
+  rowSpan: number;
+}
+
+export class OdsParser {
+  private options: ParseOptions;
+  /** 字体名称 (style:font-face 的名称 → 字体族) */
+  private fontFaces: Map<string, string> = new Map();
+  /** 单元格样式 (包括 styles.xml 中的命名样式和 content.xml 中的自动样式) */
+  private cellStyleElements: Map<string, Element> = new Map();
+  /** 单元格默认样式 (style:default-style) */
+  private defaultCellStyle: Element | null = null;
+  /** 数字格式样式 (number:number-style 等) */
+  private dataStyleElements: Map<string, Element> = new Map();
+  /** 列宽 (样式名称 → 磅) */
+  private columnStyles: Map<string, number> = new Map();
+  /** 行样式 */
+  private rowStyles: Map<string, RowStyle> = new Map();
+  /** 表格样式 */
+  private tableStyles: Map<string, { hidden: boolean; tabColor?: Color }> = new Map();
+  /** 样式名称到 cellXfs 索引的映射 */
+  private styleIndexes: Map<string, number> = new Map();
+  private cellXfs: CellStyle[] = [];
+  private numFmts: NumberFormat[] = [];
+  /** 数字格式代码缓存 (数据样式名称 → 格式代码) */
+  private formatCodes: Map<string, string> = new Map();
+
+  constructor(options: ParseOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 根据 mimetype 部件的内容判断是否是 ods 文件
+   */
+  static isOds(mimetype: string | null): boolean {
+    return mimetype !== null && ODS_MIMETYPES.includes(mimetype.trim());
+  }
+
+  /**
+   * 解析 ods 文件
+   */
+  parse(documents: OdsDocuments): Workbook {
+    const root = documents.content.documentElement;
+
+    if (documents.styles) {
+      const stylesRoot = documents.styles.documentElement;
+      this.parseFontFaces(XmlUtils.getChild(stylesRoot, 'font-face-decls'));
+      this.parseStyles(XmlUtils.getChild(stylesRoot, 'styles'));
+    }
+    this.parseFontFaces(XmlUtils.getChild(root, 'font-face-decls'));
+    this.parseStyles(XmlUtils.getChild(root, 'automatic-styles'));
+    this.reportProgress(30, '解析样式完成');
+
+    // 样式索引 0 为默认样式
+    this.cellXfs = [this.resolveCellStyle('Default')];
+    this.styleIndexes.set('Default', 0);
+
+    const spreadsheet = XmlUtils.getChild(XmlUtils.getChild(root, 'body'), 'spreadsheet');
+    if (!spreadsheet) {
+      throw new Error('无效的 ods 文件: content.xml 中缺少电子表格内容');
+    }
+
+    // 日期值直接保存为日期，1904 日期系统仅作为工作簿属性保留
+    const nullDate = XmlUtils.getChild(XmlUtils.getChild(spreadsheet, 'calculation-settings'), 'null-date');
+    const date1904 = XmlUtils.getAttr(nullDate, 'table:date-value').startsWith('1904');
+
+    const tables = XmlUtils.getChildren(spreadsheet, 'table');
+    const definedNames: DefinedName[] = [];
+    this.parseNamedExpressions(XmlUtils.getChild(spreadsheet, 'named-expressions'), definedNames);
+
+    const sheets = tables.map((table, index) => {
+      const sheet = this.parseTable(table, index, definedNames);
+      this.reportProgress(30 + Math.round(((index + 1) / tables.length) * 60), `解析工作表: ${sheet.name}`);
+      return sheet;
+    });
+    this.parseDatabaseRanges(XmlUtils.getChild(spreadsheet, 'database-ranges'), sheets);
+
+    const activeSheet = this.parseSettings(documents.settings, sheets);
+
+    return {
+      sheets,
+      activeSheet,
+      styles: {
+        numFmts: this.numFmts,
+        fonts: [],
+        fills: [],
+        borders: [],
+        cellXfs: this.cellXfs,
+        cellStyleXfs: [],
+        cellStyles: [],
+        dxfs: [],
+      },
+      definedNames,
+      properties: documents.meta ? this.parseMeta(documents.meta) : {},
+      workbookProperties: {
+        date1904,
+      },
+      sharedStrings: [],
+    };
+  }
+
+  /**
+   * 报告进度
+   */
+  private reportProgress(progress: number, message: string): void {
+    if (this.options.onProgress) {
+      this.options.onProgress(progress, message);
+    }
+  }
+
+  // ============ 样式 ============
+
+  /**
+   * 解析字体声明
+   */
+  private parseFontFaces(element: Element | null): void {
+    XmlUtils.forEachChildByTag(element, 'font-face', (fontFace) => {
+      const family = XmlUtils.getAttr(fontFace, 'svg:font-family').replace(/^['"]|['"]$/g, '');
+      this.fontFaces.set(XmlUtils.getAttr(fontFace, 'style:name'), family || XmlUtils.getAttr(fontFace, 'style:name'));
+    });
+  }
+
+  /**
+   * 收集样式元素 (office:styles 或 office:automatic-styles)
+   */
+  private parseStyles(element: Element | null): void {
+    XmlUtils.forEachChild(element, (child) => {
+      const name = XmlUtils.getAttr(child, 'style:name');
+      if (DATA_STYLE_TAGS.includes(child.localName)) {
+        this.dataStyleElements.set(name, child);
+        return;
+      }
+
+      const family = XmlUtils.getAttr(child, 'style:family');
+      if (child.localName === 'default-style') {
+        if (family === 'table-cell') {
+          this.defaultCellStyle = child;
+        }
+        return;
+      }
+      if (child.localName !== 'style') {
+        return;
+      }
+
+      switch (family) {
+        case 'table-cell':
+          this.cellStyleElements.set(name, child);
+          break;
+
+        case 'table-column': {
+          const width = this.toPoints(
+            XmlUtils.getAttr(XmlUtils.getChild(child, 'table-column-properties'), 'style:column-width'),
+          );
+          if (width !== undefined) {
+            this.columnStyles.set(name, width);
+          }
+          break;
+        }
+
+        case 'table-row': {
+          const properties = XmlUtils.getChild(child, 'table-row-properties');
+          this.rowStyles.set(name, {
+            height: this.toPoints(XmlUtils.getAttr(properties, 'style:row-height')),
+            optimal: XmlUtils.getAttrAsBool(properties, 'style:use-optimal-row-height'),
+          });
+          break;
+        }
+
+        case 'table': {
+          const properties = XmlUtils.getChild(child, 'table-properties');
+          const tabColor = XmlUtils.getAttr(properties, 'tableooo:tab-color')
+            || XmlUtils.getAttr(properties, 'table:tab-color');
+          this.tableStyles.set(name, {
+            hidden: XmlUtils.getAttr(properties, 'table:display') === 'false',
+            tabColor: this.parseColor(tabColor),
+          });
+          break;
+        }
+      }
+    });
+  }
+
+  /**
+   * 获取单元格样式在 cellXfs 中的索引
+   * @description 未指定或找不到的样式使用默认样式 (索引 0)
+   */
+  private getStyleIndex(name: string | undefined): number {
+    if (!name || this.options.parseStyles === false || !this.cellStyleElements.has(name)) {
+      return 0;
+    }
+
+    let index = this.styleIndexes.get(name);
+    if (index === undefined) {
+      index = this.cellXfs.length;
+      this.cellXfs.push(this.resolveCellStyle(name));
+      this.styleIndexes.set(name, index);
+    }
+    return index;
+  }
+
+  /**
+   * 合并默认样式和父样式链，得到完整的单元格样式
+   */
+  private resolveCellStyle(name: string): CellStyle {
+    const chain: Element[] = [];
+    const visited = new Set<string>();
+    let current = name;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const element = this.cellStyleElements.get(current);
+      if (!element) {
+        break;
+      }
+      chain.unshift(element);
+      current = XmlUtils.getAttr(element, 'style:parent-style-name');
+    }
+    if (this.defaultCellStyle) {
+      chain.unshift(this.defaultCellStyle);
+    }
+
+    const style: CellStyle = { numFmtId: 0, numFmt: 'General' };
+    for (const element of chain) {
+      this.applyStyleElement(style, element);
+    }
+    return style;
+  }
+
+  /**
+   * 将样式元素中设置的属性写入单元格样式
+   */
+  private applyStyleElement(style: CellStyle, element: Element): void {
+    const dataStyleName = XmlUtils.getAttr(element, 'style:data-style-name');
+    if (dataStyleName) {
+      const numFmt = this.getFormatCode(dataStyleName);
+      style.numFmt = numFmt;
+      style.numFmtId = this.getNumFmtId(numFmt);
+    }
+
+    const textProperties = XmlUtils.getChild(element, 'text-properties');
+    if (textProperties) {
+      style.font = { ...style.font, ...this.parseFont(textProperties) };
+    }
+
+    const alignment = { ...style.alignment };
+    const paragraphProperties = XmlUtils.getChild(element, 'paragraph-properties');
+    const textAlign = XmlUtils.getAttr(paragraphProperties, 'fo:text-align');
+    if (textAlign) {
+      alignment.horizontal = this.parseHorizontalAlignment(textAlign);
+    }
+
+    const cellProperties = XmlUtils.getChild(element, 'table-cell-properties');
+    if (cellProperties) {
+      this.applyCellProperties(style, cellProperties);
+
+      // 按值类型对齐时忽略段落的对齐方式
+      if (XmlUtils.getAttr(cellProperties, 'style:text-align-source') === 'value-type') {
+        alignment.horizontal = undefined;
+      }
+
+      const verticalAlign = XmlUtils.getAttr(cellProperties, 'style:vertical-align');
+      if (verticalAlign === 'top' || verticalAlign === 'bottom') {
+        alignment.vertical = verticalAlign;
+      } else if (verticalAlign === 'middle') {
+        alignment.vertical = 'center';
+      } else if (verticalAlign === 'automatic') {
+        alignment.vertical = undefined;
+      }
+
+      const wrapOption = XmlUtils.getAttr(cellProperties, 'fo:wrap-option');
+      if (wrapOption) {
+        alignment.wrapText = wrapOption === 'wrap';
+      }
+
+      const shrinkToFit = XmlUtils.getAttr(cellProperties, 'style:shrink-to-fit');
+      if (shrinkToFit) {
+        alignment.shrinkToFit = shrinkToFit === 'true';
+      }
+
+      // 旋转角度为逆时针 0-360 度，转换为 -90 到 90 度
+      const rotation = XmlUtils.getAttr(cellProperties, 'style:rotation-angle');
+      if (rotation) {
+        const angle = ((parseFloat(rotation) % 360) + 360) % 360;
+        if (!isNaN(angle)) {
+          alignment.textRotation = angle <= 90 ? angle : angle >= 270 ? angle - 360 : 0;
+        }
+      }
+    }
+
+    if (Object.values(alignment).some(value => value !== undefined)) {
+      style.alignment = alignment;
+    }
+  }
+
+  /**
+   * 解析单元格属性中的填充、边框和保护设置
+   */
+  private applyCellProperties(style: CellStyle, properties: Element): void {
+    const background = XmlUtils.getAttr(properties, 'fo:background-color');
+    if (background === 'transparent') {
+      style.fill = undefined;
+    } else if (background) {
+      const color = this.parseColor(background);
+      if (color) {
+        style.fill = { type: 'pattern', pattern: 'solid', fgColor: color };
+      }
+    }
+
+    const border: Border = { ...style.border };
+    let hasBorder = false;
+    const allSides = XmlUtils.getAttr(properties, 'fo:border');
+    if (allSides) {
+      const side = this.parseBorderSide(allSides);
+      border.left = side;
+      border.right = side;
+      border.top = side;
+      border.bottom = side;
+      hasBorder = true;
+    }
+    for (const name of ['left', 'right', 'top', 'bottom'] as const) {
+      const value = XmlUtils.getAttr(properties, `fo:border-${name}`);
+      if (value) {
+        border[name] = this.parseBorderSide(value);
+        hasBorder = true;
+      }
+    }
+    const diagonalUp = XmlUtils.getAttr(properties, 'style:diagonal-bl-tr');
+    const diagonalDown = XmlUtils.getAttr(properties, 'style:diagonal-tl-br');
+    if (diagonalUp || diagonalDown) {
+      const side = this.parseBorderSide(diagonalUp || diagonalDown);
+      border.diagonal = side;
+      border.diagonalUp = side !== undefined && diagonalUp !== '' && diagonalUp !== 'none';
+      border.diagonalDown = side !== undefined && diagonalDown !== '' && diagonalDown !== 'none';
+      hasBorder = true;
+    }
+    if (hasBorder) {
+      style.border = border;
+    }
+
+    // 保护设置 (none、protected、formula-hidden、hidden-and-protected 的组合)
+    const cellProtect = XmlUtils.getAttr(properties, 'style:cell-protect');
+    if (cellProtect) {
+      const tokens = cellProtect.split(/\s+/);
+      style.protection = {
+        locked: tokens.includes('protected') || tokens.includes('hidden-and-protected'),
+        hidden: tokens.includes('formula-hidden') || tokens.includes('hidden-and-protected'),
+      };
+    }
+  }
+
+  /**
+   * 解析文本属性
+   */
+  private parseFont(properties: Element): FontStyle {
+    const font: FontStyle = {};
+
+    const fontName = XmlUtils.getAttr(properties, 'style:font-name') || XmlUtils.getAttr(properties, 'fo:font-family');
+    if (fontName) {
+      font.name = this.fontFaces.get(fontName) ?? fontName.replace(/^['"]|['"]$/g, '');
+    }
+
+    const size = this.toPoints(XmlUtils.getAttr(properties, 'fo:font-size'));
+    if (size !== undefined) {
+      font.size = size;
+    }
+
+    const weight = XmlUtils.getAttr(properties, 'fo:font-weight');
+    if (weight) {
+      font.bold = weight === 'bold' || parseInt(weight, 10) >= 600;
+    }
+
+    const fontStyle = XmlUtils.getAttr(properties, 'fo:font-style');
+    if (fontStyle) {
+      font.italic = fontStyle === 'italic' || fontStyle === 'oblique';
+    }
+
+    const color = XmlUtils.getAttr(properties, 'fo:color');
+    if (color && XmlUtils.getAttr(properties, 'style:use-window-font-color') !== 'true') {
+      font.color = this.parseColor(color);
+    }
+
+    const underline = XmlUtils.getAttr(properties, 'style:text-underline-style');
+    if (underline) {
+      font.underline = underline === 'none'
+        ? 'none'
+        : XmlUtils.getAttr(properties, 'style:text-underline-type') === 'double' ? 'double' : 'single';
+    }
+
+    const lineThrough = XmlUtils.getAttr(properties, 'style:text-line-through-style');
+    if (lineThrough) {
+      font.strikethrough = lineThrough !== 'none';
+    }
+
+    // 上标/下标 (如 "super 58%"、"-33% 58%")
+    const position = XmlUtils.getAttr(properties, 'style:text-position');
+    if (position) {
+      const offset = position.split(/\s+/)[0];
+      if (offset === 'super' || parseFloat(offset) > 0) {
+        font.vertAlign = 'superscript';
+      } else if (offset === 'sub' || parseFloat(offset) < 0) {
+        font.vertAlign = 'subscript';
+      } else {
+        font.vertAlign = 'baseline';
+      }
+    }
+
+    const shadow = XmlUtils.getAttr(properties, 'fo:text-shadow');
+    if (shadow) {
+      font.shadow = shadow !== 'none';
+    }
+
+    const outline = XmlUtils.getAttr(properties, 'style:text-outline');
+    if (outline) {
+      font.outline = outline === 'true';
+    }
+
+    return font;
+  }
+
+  /**
+   * 解析水平对齐方式
+   */
+  private parseHorizontalAlignment(value: string): HorizontalAlignment | undefined {
+    switch (value) {
+      case 'start':
+      case 'left':
+        return 'left';
+      case 'end':
+      case 'right':
+        return 'right';
+      case 'center':
+        return 'center';
+      case 'justify':
+        return 'justify';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 解析边框 (如 "0.74pt solid #000000")
+   * @returns 无边框时返回 undefined
+   */
+  private parseBorderSide(value: string): BorderSide | undefined {
+    let width = 0.75;
+    let lineStyle = 'solid';
+    let color: Color | undefined;
+
+    for (const token of value.trim().split(/\s+/)) {
+      if (token === 'none' || token === 'hidden') {
+        return undefined;
+      }
+      if (token.startsWith('#')) {
+        color = this.parseColor(token);
+      } else if (token === 'thin' || token === 'medium' || token === 'thick') {
+        width = { thin: 0.75, medium: 1.75, thick: 2.5 }[token];
+      } else if (/^[\d.]+[a-z]*$/.test(token)) {
+        width = this.toPoints(token) ?? width;
+      } else {
+        lineStyle = token;
+      }
+    }
+
+    return { style: this.getBorderStyle(lineStyle, width), color };
+  }
+
+  /**
+   * 根据线型和线宽 (磅) 选择边框样式
+   */
+  private getBorderStyle(lineStyle: string, width: number): BorderStyleType {
+    const heavy = width >= 1.25;
+    switch (lineStyle) {
+      case 'double':
+      case 'double-thin':
+        return 'double';
+      case 'dotted':
+        return heavy ? 'mediumDashDotDot' : 'dotted';
+      case 'dashed':
+      case 'fine-dashed':
+      case 'long-dash':
+        return heavy ? 'mediumDashed' : 'dashed';
+      case 'dash-dot':
+        return heavy ? 'mediumDashDot' : 'dashDot';
+      case 'dash-dot-dot':
+        return heavy ? 'mediumDashDotDot' : 'dashDotDot';
+      default:
+        return width >= 2.25 ? 'thick' : heavy ? 'medium' : 'thin';
+    }
+  }
+
+  /**
+   * 解析颜色 (#RRGGBB)
+   */
+  private parseColor(value: string): Color | undefined {
+    const match = /^#([0-9a-f]{6})$/i.exec(value.trim());
+    return match ? { rgb: match[1].toUpperCase() } : undefined;
+  }
+
+  /**
+   * 长度转换为磅 (如 "0.452cm"、"10pt")
+   */
+  private toPoints(value: string): number | undefined {
+    const match = /^(-?[\d.]+)([a-z]*)$/i.exec(value.trim());
+    if (!match) {
+      return undefined;
+    }
+    const factor = POINTS_PER_UNIT[match[2].toLowerCase() || 'pt'];
+    const num = parseFloat(match[1]);
+    return factor === undefined || isNaN(num) ? undefined : Math.round(num * factor * 100) / 100;
+  }
+
+  // ============ 数字格式 ============
+
+  /**
+   * 获取数据样式对应的数字格式代码
+   */
+  private getFormatCode(name: string): string {
+    let code = this.formatCodes.get(name);
+    if (code === undefined) {
+      // 先占位，避免条件映射循环引用
+      this.formatCodes.set(name, 'General');
+      const element = this.dataStyleElements.get(name);
+      code = element ? this.parseDataStyle(element) : 'General';
+      this.formatCodes.set(name, code);
+    }
+    return code;
+  }
+
+  /**
+   * 获取数字格式 ID (自定义格式追加到 numFmts)
+   */
+  private getNumFmtId(numFmt: string): number {
+    const builtinId = BUILTIN_NUM_FMTS[numFmt];
+    if (builtinId !== undefined) {
+      return builtinId;
+    }
+    const existing = this.numFmts.find(format => format.formatCode === numFmt);
+    if (existing) {
+      return existing.id;
+    }
+    const id = CUSTOM_NUM_FMT_ID + this.numFmts.length;
+    this.numFmts.push({ id, formatCode: numFmt });
+    return id;
+  }
+
+  /**
+   * 将数据样式 (number:number-style、number:date-style 等) 转换为 Excel 数字格式代码
+   * @description style:map 中 value()>=0 或 value()>0 条件映射的样式作为正数部分
+   */
+  private parseDataStyle(element: Element): string {
+    let code = '';
+    const long = (child: Element): boolean => XmlUtils.getAttr(child, 'number:style') === 'long';
+
+    XmlUtils.forEachChild(element, (child) => {
+      switch (child.localName) {
+        case 'number':
+          code += this.formatNumberPart(child);
+          break;
+        case 'scientific-number': {
+          const exponent = '0'.repeat(Math.max(XmlUtils.getAttrAsInt(child, 'number:min-exponent-digits', 2), 1));
+          code += `${this.formatNumberPart(child)}E+${exponent}`;
+          break;
+        }
+        case 'fraction': {
+          const denominator = XmlUtils.getAttr(child, 'number:denominator-value');
+          const digits = Math.max(XmlUtils.getAttrAsInt(child, 'number:min-denominator-digits', 1), 1);
+          code += `# ${'?'.repeat(digits)}/${denominator || '?'.repeat(digits)}`;
+          break;
+        }
+        case 'text':
+        case 'currency-symbol':
+          code += this.quoteFormatText(XmlUtils.getText(child));
+          break;
+        case 'text-content':
+          code += '@';
+          break;
+        case 'boolean':
+          code += 'TRUE;TRUE;FALSE';
+          break;
+        case 'year':
+          code += long(child) ? 'yyyy' : 'yy';
+          break;
+        case 'month':
+          if (XmlUtils.getAttrAsBool(child, 'number:textual')) {
+            code += long(child) ? 'mmmm' : 'mmm';
+          } else {
+            code += long(child) ? 'mm' : 'm';
+          }
+          break;
+        case 'day':
+          code += long(child) ? 'dd' : 'd';
+          break;
+        case 'day-of-week':
+          code += long(child) ? 'dddd' : 'ddd';
+          break;
+        case 'hours': {
+          const hours = long(child) ? 'hh' : 'h';
+          // 时长格式 (超过 24 小时不截断)
+          code += XmlUtils.getAttr(element, 'number:truncate-on-overflow') === 'false' ? `[${hours}]` : hours;
+          break;
+        }
+        case 'minutes':
+          code += long(child) ? 'mm' : 'm';
+          break;
+        case 'seconds': {
+          const decimals = XmlUtils.getAttrAsInt(child, 'number:decimal-places', 0);
+          code += (long(child) ? 'ss' : 's') + (decimals > 0 ? `.${'0'.repeat(decimals)}` : '');
+          break;
+        }
+        case 'am-pm':
+          code += 'AM/PM';
+          break;
+      }
+    });
+
+    if (code === '') {
+      code = 'General';
+    }
+
+    const color = this.parseColor(XmlUtils.getAttr(XmlUtils.getChild(element, 'text-properties'), 'fo:color'));
+    if (color?.rgb === 'FF0000') {
+      code = `[Red]${code}`;
+    }
+
+    // 负数部分由本样式定义，正数部分为条件映射的样式
+    for (const map of XmlUtils.getChildren(element, 'map')) {
+      const condition = XmlUtils.getAttr(map, 'style:condition').replace(/\s/g, '');
+      if (condition === 'value()>=0' || condition === 'value()>0') {
+        code = `${this.getFormatCode(XmlUtils.getAttr(map, 'style:apply-style-name'))};${code}`;
+        break;
+      }
+    }
+
+    return code;
+  }
+
+  /**
+   * 转换数字部分 (整数位数、千位分隔符和小数位数)
+   */
+  private formatNumberPart(element: Element): string {
+    const minIntegerDigits = XmlUtils.getAttrAsInt(element, 'number:min-integer-digits', 1);
+    let integer = '0'.repeat(Math.max(minIntegerDigits, 0)) || '#';
+    if (XmlUtils.getAttrAsBool(element, 'number:grouping')) {
+      integer = integer.length >= 4 ? integer : `#,${'#'.repeat(3 - integer.length)}${integer}`;
+    }
+    const decimals = XmlUtils.getAttrAsInt(element, 'number:decimal-places', 0);
+    return decimals > 0 ? `${integer}.${'0'.repeat(decimals)}` : integer;
+  }
+
+  /**
+   * 数字格式中的文本，含特殊字符时加引号
+   */
+  private quoteFormatText(text: string): string {
+    if (text === '' || LITERAL_FORMAT_TEXT.test(text)) {
+      return text;
+    }
+    return `"${text.replace(/"/g, '')}"`;
+  }
+
+  // ============ 表格 ============
+
+  /**
+   * 解析表格 (table:table)
+   */
+  private parseTable(element: Element, index: number, definedNames: DefinedName[]): Sheet {
+    const tableStyle = this.tableStyles.get(XmlUtils.getAttr(element, 'table:style-name'));
+    const sheet: Sheet = {
+      id: `sheet${index + 1}`,
+      name: XmlUtils.getAttr(element, 'table:name') || `Sheet${index + 1}`,
+      type: 'worksheet',
+      state: tableStyle?.hidden ? 'hidden' : 'visible',
+      index,
+      tabColor: tableStyle?.tabColor,
+      rows: new Map(),
+      columns: new Map(),
+      cells: new Map(),
+      mergeCells: [],
+      dataValidations: [],
+      conditionalFormats: [],
+      sparklineGroups: [],
+      hyperlinks: new Map(),
+      comments: new Map(),
+      images: [],
+      charts: [],
+      tables: [],
+      pivotTables: [],
+      views: [],
+    };
+
+    if (XmlUtils.getAttrAsBool(element, 'table:protected')) {
+      sheet.protection = ProtectionUtils.createSheetProtection();
+    }
+
+    // 列的默认单元格样式 (行和单元格都没有指定样式时使用)
+    const columnStyles: Array<string | undefined> = [];
+    this.parseColumns(sheet, element, 0, 0, columnStyles);
+    this.parseRows(sheet, element, 0, 0, columnStyles);
+    this.applyMergeCells(sheet);
+    this.updateDimension(sheet);
+
+    // 工作表级的命名表达式和打印区域
+    const scoped: DefinedName[] = [];
+    this.parseNamedExpressions(XmlUtils.getChild(element, 'named-expressions'), scoped);
+    const printRanges = XmlUtils.getAttr(element, 'table:print-ranges');
+    if (printRanges) {
+      scoped.push({ name: '_xlnm.Print_Area', ref: this.convertRangeAddress(printRanges) });
+    }
+    scoped.forEach(definedName => definedNames.push({ ...definedName, scope: String(index) }));
+
+    return sheet;
+  }
+
+  /**
+   * 解析列 (包括列组和标题列)
+   * @returns 下一列的列号
+   */
+  private parseColumns(
+    sheet: Sheet,
+    element: Element,
+    start: number,
+    outlineLevel: number,
+    columnStyles: Array<string | undefined>,
+  ): number {
+    let col = start;
+    XmlUtils.forEachChild(element, (child) => {
+      switch (child.localName) {
+        case 'table-column': {
+          const count = Math.min(this.getRepeat(child, 'table:number-columns-repeated'), MAX_COLS - col);
+          const width = this.columnStyles.get(XmlUtils.getAttr(child, 'table:style-name'));
+          const hidden = this.isHidden(child);
+          const defaultStyle = XmlUtils.getAttr(child, 'table:default-cell-style-name');
+          const styleIndex = this.getStyleIndex(defaultStyle);
+
+          // 填满工作表末尾的重复列只推进列号
+          if (count > MAX_EMPTY_CELLS && !hidden) {
+            col += count;
+            break;
+          }
+          for (let i = col; i < col + count; i++) {
+            if (defaultStyle && defaultStyle !== 'Default') {
+              columnStyles[i] = defaultStyle;
+            }
+            if (width === undefined && !hidden && outlineLevel === 0 && styleIndex === 0) {
+              continue;
+            }
+            // 列宽按 Excel 的近似转换 (字符宽 7 像素，边距 5 像素)
+            const pixelWidth = width !== undefined ? Math.round(width * 4 / 3) : 64;
+            sheet.columns.set(i, {
+              index: i,
+              width: Math.max(Math.round((pixelWidth - 5) / 7 * 100) / 100, 0),
+              pixelWidth,
+              hidden,
+              customWidth: width !== undefined,
+              styleIndex: styleIndex !== 0 ? styleIndex : undefined,
+              outlineLevel: outlineLevel > 0 ? outlineLevel : undefined,
+            });
+          }
+          col += count;
+          break;
+        }
+        case 'table-column-group':
+          col = this.parseColumns(sheet, child, col, outlineLevel + 1, columnStyles);
+          break;
+        case 'table-header-columns':
+        case 'table-columns':
+          col = this.parseColumns(sheet, child, col, outlineLevel, columnStyles);
+          break;
+      }
+    });
+    return col;
+  }
+
+  /**
+   * 解析行 (包括行组和标题行)
+   * @returns 下一行的行号
+   */
+  private parseRows(
+    sheet: Sheet,
+    element: Element,
+    start: number,
+    outlineLevel: number,
+    columnStyles: Array<string | undefined>,
+  ): number {
+    let row = start;
+    XmlUtils.forEachChild(element, (child) => {
+      switch (child.localName) {
+        case 'table-row':
+          row += this.parseRow(sheet, child, row, outlineLevel, columnStyles);
+          break;
+        case 'table-row-group':
+          row = this.parseRows(sheet, child, row, outlineLevel + 1, columnStyles);
+          break;
+        case 'table-header-rows':
+        case 'table-rows':
+          row = this.parseRows(sheet, child, row, outlineLevel, columnStyles);
+          break;
+      }
+    });
+    return row;
+  }
+
+  /**
+   * 解析行 (table:table-row)
+   * @returns 行数 (含重复的行)
+   */
+  private parseRow(
+    sheet: Sheet,
+    element: Element,
+    start: number,
+    outlineLevel: number,
+    columnStyles: Array<string | undefined>,
+  ): number {
+    const count = Math.min(this.getRepeat(element, 'table:number-rows-repeated'), MAX_ROWS - start);
+    if (count <= 0) {
+      return 0;
+    }
+
+    const rowStyle = this.rowStyles.get(XmlUtils.getAttr(element, 'table:style-name'));
+    const rowCellStyle = XmlUtils.getAttr(element, 'table:default-cell-style-name') || undefined;
+    const hidden = this.isHidden(element);
+
+    // 重复的行共用同一组单元格
+    const blocks: CellBlock[] = [];
+    let col = 0;
+    XmlUtils.forEachChild(element, (child) => {
+      if (child.localName !== 'table-cell' && child.localName !== 'covered-table-cell') {
+        return;
+      }
+      const colCount = Math.min(this.getRepeat(child, 'table:number-columns-repeated'), MAX_COLS - col);
+      if (colCount <= 0) {
+        return;
+      }
+      blocks.push({
+        col,
+        count: colCount,
+        styleName: XmlUtils.getAttr(child, 'table:style-name') || undefined,
+        content: this.parseCellContent(child),
+        colSpan: XmlUtils.getAttrAsInt(child, 'table:number-columns-spanned', 1),
+        rowSpan: XmlUtils.getAttrAsInt(child, 'table:number-rows-spanned', 1),
+      });
+      col += colCount;
+    });
+
+    // 重复的空行 (如填满工作表末尾的行) 只推进行号
+    const empty = blocks.every(block => !block.content);
+    if (empty && count > MAX_EMPTY_CELLS) {
+      return count;
+    }
+
+    for (let row = start; row < start + count; row++) {
+      if (rowStyle?.height !== undefined || hidden || outlineLevel > 0) {
+        sheet.rows.set(row, {
+          index: row,
+          height: rowStyle?.height ?? sheet.defaultRowHeight ?? 15,
+          hidden,
+          customHeight: rowStyle ? !rowStyle.optimal : undefined,
+          outlineLevel: outlineLevel > 0 ? outlineLevel : undefined,
+        });
+      }
+
+      for (const block of blocks) {
+        if (!block.content && block.count * count > MAX_EMPTY_CELLS) {
+          continue;
+        }
+        for (let c = block.col; c < block.col + block.count; c++) {
+          const styleIndex = this.getStyleIndex(block.styleName ?? rowCellStyle ?? columnStyles[c]);
+          if (!block.content && styleIndex === 0) {
+            continue;
+          }
+          this.addCell(sheet, row, c, block.content, styleIndex);
+
+          if (block.colSpan > 1 || block.rowSpan > 1) {
+            const endRow = Math.min(row + block.rowSpan - 1, MAX_ROWS - 1);
+            const endCol = Math.min(c + block.colSpan - 1, MAX_COLS - 1);
+            sheet.mergeCells.push({
+              ref: `${XmlUtils.formatCellAddress(row, c)}:${XmlUtils.formatCellAddress(endRow, endCol)}`,
+              startRow: row,
+              startCol: c,
+              endRow,
+              endCol,
+            });
+          }
+        }
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * 添加单元格
+   */
+  private addCell(sheet: Sheet, row: number, col: number, content: CellContent | null, styleIndex: number): void {
+    const address = XmlUtils.formatCellAddress(row, col);
+    const cell: Cell = {
+      address,
+      row,
+      col,
+      value: content?.value ?? null,
+      type: content?.type ?? 'empty',
+      text: content?.text ?? '',
+      formula: content?.formula,
+      styleIndex,
+    };
+    if (content?.error) {
+      cell.error = content.error;
+    }
+    if (this.options.parseStyles !== false) {
+      cell.style = this.cellXfs[styleIndex];
+    }
+    if (content?.hyperlink) {
+      cell.hyperlink = content.hyperlink;
+      sheet.hyperlinks.set(address, content.hyperlink);
+    }
+    if (content?.comment && this.options.parseComments !== false) {
+      const comment = { ...content.comment, ref: address };
+      cell.comment = comment;
+      sheet.comments.set(address, comment);
+    }
+    sheet.cells.set(address, cell);
+  }
+
+  /**
+   * 解析单元格内容
+   * @returns 没有值、公式和批注的单元格返回 null
+   */
+  private parseCellContent(element: Element): CellContent | null {
+    const paragraphs = XmlUtils.getChildren(element, 'p');
+    let text = paragraphs.map(p => this.readText(p)).join('\n');
+    const valueType = XmlUtils.getAttr(element, 'office:value-type');
+
+    let value: Cell['value'] = null;
+    let type: CellValueType = 'empty';
+
+    switch (valueType) {
+      case 'float':
+      case 'percentage':
+      case 'currency': {
+        const num = parseFloat(XmlUtils.getAttr(element, 'office:value'));
+        if (!isNaN(num)) {
+          value = num;
+          type = 'number';
+          text = text || String(num);
+        }
+        break;
+      }
+      case 'date': {
+        const date = this.parseDate(XmlUtils.getAttr(element, 'office:date-value'));
+        if (date) {
+          value = date;
+          type = 'date';
+          text = text || date.toLocaleDateString();
+        }
+        break;
+      }
+      case 'time': {
+        const days = this.parseDuration(XmlUtils.getAttr(element, 'office:time-value'));
+        if (days !== null) {
+          value = DateUtils.excelSerialToDate(days);
+          type = 'date';
+          text = text || value.toLocaleTimeString();
+        }
+        break;
+      }
+      case 'boolean':
+        value = XmlUtils.getAttr(element, 'office:boolean-value') === 'true';
+        type = 'boolean';
+        text = text || (value ? 'TRUE' : 'FALSE');
+        break;
+      default:
+        if (valueType === 'string' || text !== '') {
+          value = XmlUtils.getAttr(element, 'office:string-value') || text;
+          text = text || value;
+          type = 'string';
+        }
+        break;
+    }
+
+    const content: CellContent = { value, type, text };
+
+    // 错误值 (LibreOffice 以 calcext:value-type 标记)
+    if (XmlUtils.getAttr(element, 'calcext:value-type') === 'error') {
+      content.type = 'error';
+      content.value = text;
+      content.error = ERROR_VALUES.find(error => error === text);
+    }
+
+    const formula = XmlUtils.getAttr(element, 'table:formula');
+    if (formula && this.options.parseFormulas !== false) {
+      content.formula = { text: OdsParser.convertFormula(formula), type: 'normal' };
+      const matrixCols = XmlUtils.getAttrAsInt(element, 'table:number-matrix-columns-spanned', 0);
+      const matrixRows = XmlUtils.getAttrAsInt(element, 'table:number-matrix-rows-spanned', 0);
+      if (matrixCols > 0 || matrixRows > 0) {
+        content.formula.type = 'array';
+      }
+      if (content.type !== 'error') {
+        content.type = 'formula';
+      }
+    }
+
+    const link = paragraphs.map(p => this.findChild(p, 'a')).find(a => a !== null);
+    if (link) {
+      content.hyperlink = this.parseHyperlink(link);
+    }
+
+    const annotation = XmlUtils.getChild(element, 'annotation');
+    if (annotation) {
+      content.comment = this.parseAnnotation(annotation);
+    }
+
+    if (content.type === 'empty' && !content.formula && !content.comment) {
+      return null;
+    }
+    return content;
+  }
+
+  /**
+   * 读取段落文本 (text:s 为空格，text:tab 为制表符，text:line-break 为换行)
+   */
+  private readText(element: Element): string {
+    let text = '';
+    // DOMParser 的子节点为 Node，轻量解析后端的文本节点为字符串
+    const nodes = element.childNodes as unknown as ArrayLike<ChildNode | string>;
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (typeof node === 'string') {
+        text += node;
+      } else if (node.nodeType === 3 || node.nodeType === 4) {
+        text += node.textContent ?? '';
+      } else if (node.nodeType === 1) {
+        const child = node as Element;
+        switch (child.localName) {
+          case 's':
+            text += ' '.repeat(XmlUtils.getAttrAsInt(child, 'text:c', 1));
+            break;
+          case 'tab':
+            text += '\t';
+            break;
+          case 'line-break':
+            text += '\n';
+            break;
+          case 'annotation':
+          case 'note':
+            break;
+          default:
+            text += this.readText(child);
+            break;
+        }
+      }
+    }
+    return text;
+  }
+
+  /**
+   * 查找后代元素
+   */
+  private findChild(element: Element, localName: string): Element | null {
+    for (const child of XmlUtils.getChildren(element)) {
+      if (child.localName === localName) {
+        return child;
+      }
+      const found = this.findChild(child, localName);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 解析超链接 (text:a)
+   * @description 文档内链接为 "#Sheet1.A1" 形式，转换为 "Sheet1!A1"
+   */
+  private parseHyperlink(element: Element): Hyperlink {
+    const href = XmlUtils.getAttr(element, 'xlink:href');
+    const tooltip = XmlUtils.getAttr(element, 'office:title') || undefined;
+    if (href.startsWith('#')) {
+      const location = this.convertRangeAddress(href.slice(1));
+      return { target: location, type: 'internal', location, tooltip };
+    }
+    return { target: href, type: HyperlinkUtils.classify(href), tooltip };
+  }
+
+  /**
+   * 解析批注 (office:annotation)
+   */
+  private parseAnnotation(element: Element): Comment {
+    const date = this.parseDate(XmlUtils.getText(XmlUtils.getChild(element, 'date')));
+    return {
+      author: XmlUtils.getText(XmlUtils.getChild(element, 'creator')) || undefined,
+      text: XmlUtils.getChildren(element, 'p').map(p => this.readText(p)).join('\n'),
+      visible: XmlUtils.getAttr(element, 'office:display') === 'true',
+      date: date ?? undefined,
+    };
+  }
+
+  /**
+   * 标记合并区域内的单元格
+   */
+  private applyMergeCells(sheet: Sheet): void {
+    for (const mergeCell of sheet.mergeCells) {
+      const range = {
+        start: { row: mergeCell.startRow, col: mergeCell.startCol },
+        end: { row: mergeCell.endRow, col: mergeCell.endCol },
+      };
+      for (let r = range.start.row; r <= range.end.row; r++) {
+        for (let c = range.start.col; c <= range.end.col; c++) {
+          const cell = sheet.cells.get(XmlUtils.formatCellAddress(r, c));
+          if (cell) {
+            cell.isMerged = true;
+            cell.merge = range;
+            if (r === range.start.row && c === range.start.col) {
+              cell.isMergeOrigin = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 根据单元格和合并区域计算工作表维度
+   */
+  private updateDimension(sheet: Sheet): void {
+    let maxRow = -1;
+    let maxCol = -1;
+    for (const cell of sheet.cells.values()) {
+      maxRow = Math.max(maxRow, cell.row);
+      maxCol = Math.max(maxCol, cell.col);
+    }
+    for (const mergeCell of sheet.mergeCells) {
+      maxRow = Math.max(maxRow, mergeCell.endRow);
+      maxCol = Math.max(maxCol, mergeCell.endCol);
+    }
+    if (maxRow < 0) {
+      return;
+    }
+
+    const start = { row: 0, col: 0 };
+    const end = { row: maxRow, col: maxCol };
+    sheet.dimension = {
+      start,
+      end,
+      ref: `A1:${XmlUtils.formatCellAddress(end.row, end.col)}`,
+    };
+  }
+
+  /**
+   * 读取重复次数 (至少为 1)
+   */
+  private getRepeat(element: Element, name: string): number {
+    return Math.max(XmlUtils.getAttrAsInt(element, name, 1), 1);
+  }
+
+  /**
+   * 行或列是否隐藏 (collapse 为折叠隐藏，filter 为被筛选隐藏)
+   */
+  private isHidden(element: Element): boolean {
+    const visibility = XmlUtils.getAttr(element, 'table:visibility');
+    return visibility === 'collapse' || visibility === 'filter';
+  }
+
+  // ============ 公式和引用 ============
+
+  /**
+   * 将 OpenFormula 公式转换为 Excel 公式
+   * @description 去掉命名空间前缀，[.A1:.B2] 形式的引用转换为 A1:B2，参数分隔符 ; 转换为 ,
+   */
+  static convertFormula(formula: string): string {
+    const text = formula.replace(/^[a-z]+:(?==)/i, '').replace(/^=/, '');
+    let result = '';
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"') {
+        // 字符串字面量 ("" 表示引号)
+        let end = i + 1;
+        while (end < text.length && !(text[end] === '"' && text[end + 1] !== '"')) {
+          end += text[end] === '"' ? 2 : 1;
+        }
+        result += text.slice(i, end + 1);
+        i = end + 1;
+      } else if (char === '[') {
+        const end = this.findReferenceEnd(text, i + 1);
+        result += this.convertReference(text.slice(i + 1, end));
+        i = end + 1;
+      } else {
+        result += char === ';' ? ',' : char;
+        i++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 查找引用的结束位置 (工作表名中的 ] 在引号内)
+   */
+  private static findReferenceEnd(text: string, start: number): number {
+    let inQuotes = false;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '\'') {
+        inQuotes = !inQuotes;
+      } else if (text[i] === ']' && !inQuotes) {
+        return i;
+      }
+    }
+    return text.length;
+  }
+
+  /**
+   * 转换单个引用 (如 ".A1"、"$Sheet2.A1:.B3"、"'My Sheet'.A1")
+   * @description 外部文档引用 ('file:///...'#$Sheet1.A1) 保持原样
+   */
+  private static convertReference(reference: string): string {
+    if (/^\$?'[^']*'#/.test(reference)) {
+      return `[${reference}]`;
+    }
+
+    const parts = reference.split(':').map((part) => {
+      const dot = this.findSheetSeparator(part);
+      return {
+        sheet: dot > 0 ? part.slice(0, dot).replace(/^\$/, '') : '',
+        cell: dot >= 0 ? part.slice(dot + 1) : part,
+      };
+    });
+
+    const sheet = parts[0].sheet;
+    const cells = parts.map(part => part.cell).join(':');
+    return sheet ? `${sheet}!${cells}` : cells;
+  }
+
+  /**
+   * 查找工作表名与单元格之间的点 (不在引号内的最后一个点)
+   */
+  private static findSheetSeparator(part: string): number {
+    let inQuotes = false;
+    let index = -1;
+    for (let i = 0; i < part.length; i++) {
+      if (part[i] === '\'') {
+        inQuotes = !inQuotes;
+      } else if (part[i] === '.' && !inQuotes) {
+        index = i;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * 转换范围地址 (如 "$Sheet1.$A$1:.$B$3"，多个范围以引号外的空格分隔)
+   */
+  private convertRangeAddress(address: string): string {
+    const ranges = address.trim().match(/(?:'(?:[^']|'')*'|[^\s'])+/g) ?? [];
+    return ranges.map(range => OdsParser.convertReference(range)).join(',');
+  }
+
+  /**
+   * 解析命名范围和命名表达式
+   */
+  private parseNamedExpressions(element: Element | null, definedNames: DefinedName[]): void {
+    XmlUtils.forEachChild(element, (child) => {
+      const name = XmlUtils.getAttr(child, 'table:name');
+      if (child.localName === 'named-range') {
+        definedNames.push({ name, ref: this.convertRangeAddress(XmlUtils.getAttr(child, 'table:cell-range-address')) });
+      } else if (child.localName === 'named-expression') {
+        definedNames.push({ name, ref: OdsParser.convertFormula(XmlUtils.getAttr(child, 'table:expression')) });
+      }
+    });
+  }
+
+  /**
+   * 解析数据库范围中的自动筛选
+   */
+  private parseDatabaseRanges(element: Element | null, sheets: Sheet[]): void {
+    XmlUtils.forEachChildByTag(element, 'database-range', (range) => {
+      if (!XmlUtils.getAttrAsBool(range, 'table:display-filter-buttons')) {
+        return;
+      }
+      const target = OdsParser.convertReference(XmlUtils.getAttr(range, 'table:target-range-address'));
+      const index = target.lastIndexOf('!');
+      const sheetName = target.slice(0, index).replace(/^'|'$/g, '').replace(/''/g, '\'');
+      const sheet = sheets.find(item => item.name === sheetName);
+      if (sheet && index > 0) {
+        sheet.autoFilter = { ref: target.slice(index + 1).replace(/\$/g, '') };
+      }
+    });
+  }
+
+  // ============ 值 ============
+
+  /**
+   * 解析日期值 (如 "2024-01-05" 或 "2024-01-05T13:45:00")
+   * @description 不带时区的日期按本地时间解析，与 xlsx 日期单元格一致
+   */
+  private parseDate(value: string): Date | null {
+    const match = /^(-?\d{4,})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?$/.exec(value.trim());
+    if (!match) {
+      const date = value ? new Date(value) : null;
+      return date && !isNaN(date.getTime()) ? date : null;
+    }
+
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', fraction = ''] = match;
+    const date = new Date(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds),
+      fraction ? Math.round(parseFloat(fraction) * 1000) : 0,
+    );
+    // Date 构造函数把 0-99 年解释为 1900-1999 年
+    if (Number(year) < 100) {
+      date.setFullYear(Number(year));
+    }
+    return date;
+  }
+
+  /**
+   * 解析时长 (如 "PT13H45M00S")
+   * @returns 天数
+   */
+  private parseDuration(value: string): number | null {
+    const match = /^(-)?P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/.exec(value.trim());
+    if (!match) {
+      return null;
+    }
+    const [, negative, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+    const total = Number(days) + (Number(hours) * 3600 + Number(minutes) * 60 + parseFloat(seconds)) / 86400;
+    return negative ? -total : total;
+  }
+
+  // ============ 设置和文档属性 ============
+
+  /**
+   * 解析视图设置 (活动工作表、冻结窗格、缩放、网格线和活动单元格)
+   * @returns 活动工作表索引
+   */
+  private parseSettings(settings: Document | null, sheets: Sheet[]): number {
+    if (!settings) {
+      return 0;
+    }
+
+    const viewSettings = XmlUtils.getChildren(XmlUtils.getChild(settings.documentElement, 'settings'), 'config-item-set')
+      .find(set => XmlUtils.getAttr(set, 'config:name') === 'ooo:view-settings');
+    const views = XmlUtils.getChildren(viewSettings ?? null, 'config-item-map-indexed')
+      .find(map => XmlUtils.getAttr(map, 'config:name') === 'Views');
+    const view = XmlUtils.getChild(views ?? null, 'config-item-map-entry');
+    if (!view) {
+      return 0;
+    }
+
+    const viewItems = this.getConfigItems(view);
+    const activeSheet = Math.max(sheets.findIndex(sheet => sheet.name === viewItems.get('ActiveTable')), 0);
+
+    const tables = XmlUtils.getChildren(view, 'config-item-map-named')
+      .find(map => XmlUtils.getAttr(map, 'config:name') === 'Tables');
+    XmlUtils.forEachChildByTag(tables ?? null, 'config-item-map-entry', (entry) => {
+      const sheet = sheets.find(item => item.name === XmlUtils.getAttr(entry, 'config:name'));
+      if (!sheet) {
+        return;
+      }
+      const items = this.getConfigItems(entry);
+
+      // 拆分模式为 2 表示冻结，位置为冻结的列数和行数
+      const cols = items.get('HorizontalSplitMode') === '2' ? Number(items.get('HorizontalSplitPosition') ?? 0) : 0;
+      const rows = items.get('VerticalSplitMode') === '2' ? Number(items.get('VerticalSplitPosition') ?? 0) : 0;
+      if (rows > 0 || cols > 0) {
+        sheet.freezePane = { rows, cols, topLeftCell: XmlUtils.formatCellAddress(rows, cols), state: 'frozen' };
+      }
+
+      const sheetView: SheetView = { tabSelected: sheet.index === activeSheet };
+      const showGrid = items.get('ShowGrid') ?? viewItems.get('ShowGrid');
+      if (showGrid !== undefined) {
+        sheetView.showGridLines = showGrid === 'true';
+      }
+      const zoom = Number(items.get('ZoomValue') ?? viewItems.get('ZoomValue'));
+      if (zoom > 0) {
+        sheetView.zoomScale = zoom;
+      }
+      const cursorX = items.get('CursorPositionX');
+      const cursorY = items.get('CursorPositionY');
+      if (cursorX !== undefined && cursorY !== undefined) {
+        sheetView.activeCell = XmlUtils.formatCellAddress(Number(cursorY), Number(cursorX));
+      }
+      sheet.views = [sheetView];
+    });
+
+    return activeSheet;
+  }
+
+  /**
+   * 读取配置项 (config:config-item)
+   */
+  private getConfigItems(element: Element): Map<string, string> {
+    const items = new Map<string, string>();
+    XmlUtils.forEachChildByTag(element, 'config-item', (item) => {
+      items.set(XmlUtils.getAttr(item, 'config:name'), XmlUtils.getText(item).trim());
+    });
+    return items;
+  }
+
+  /**
+   * 解析文档属性 (meta.xml)
+   * @description dc:creator 为最后修改者，meta:initial-creator 为作者
+   */
+  private parseMeta(meta: Document): DocumentProperties {
+    const element = XmlUtils.getChild(meta.documentElement, 'meta');
+    const properties: DocumentProperties = {};
+    if (!element) {
+      return properties;
+    }
+
+    const text = (name: string): string | undefined => XmlUtils.getText(XmlUtils.getChild(element, name)) || undefined;
+    properties.title = text('title');
+    properties.subject = text('subject');
+    properties.description = text('description');
+    properties.creator = text('initial-creator');
+    properties.lastModifiedBy = text('creator');
+    properties.created = this.parseDate(text('creation-date') ?? '') ?? undefined;
+    properties.modified = this.parseDate(text('date') ?? '') ?? undefined;
+
+    const keywords = XmlUtils.getChildren(element, 'keyword').map(keyword => XmlUtils.getText(keyword));
+    if (keywords.length > 0) {
+      properties.keywords = keywords.join(', ');
+    }
+
+    // 生成程序 (如 "LibreOffice/7.6.4.1$Linux_X86_64 ...")
+    const generator = text('generator');
+    if (generator) {
+      const match = /^([^/]+)(?:\/([^$\s]+))?/.exec(generator);
+      properties.application = match?.[1] ?? generator;
+      properties.appVersion = match?.[2];
+    }
+
+    const custom: CustomProperty[] = [];
+    XmlUtils.forEachChildByTag(element, 'user-defined', (item) => {
+      const name = XmlUtils.getAttr(item, 'meta:name');
+      const value = XmlUtils.getText(item);
+      switch (XmlUtils.getAttr(item, 'meta:value-type')) {
+        case 'float':
+        case 'percentage':
+        case 'currency':
+          custom.push({ name, type: 'number', value: parseFloat(value) });
+          break;
+        case 'boolean':
+          custom.push({ name, type: 'boolean', value: value === 'true' });
+          break;
+        case 'date': {
+          const date = this.parseDate(value);
+          custom.push(date ? { name, type: 'date', value: date } : { name, type: 'string', value });
+          break;
+        }
+        default:
+          custom.push({ name, type: 'string', value });
+          break;
+      }
+    });
+    if (custom.length > 0) {
+      properties.custom = custom;
+    }
+
+    return properties;
+  }
+}
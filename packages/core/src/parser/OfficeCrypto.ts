@@ -0,0 +1,371 @@
+/**
+ * Office 文档解密
+ * @description 解密 ECMA-376 加密的 xlsx/xlsb (Agile 和 Standard 加密)，
+ * 加密文件为复合文档，包含 EncryptionInfo 和 EncryptedPackage 流
+ */
+import { CfbReader } from './CfbReader';
+import { XmlUtils } from './XmlUtils';
+
+/**
+ * Agile 加密的块密钥
+ */
+const BLOCK_KEY_VERIFIER_INPUT = new Uint8Array([0xfe, 0xa7, 0xd2, 0x76, 0x3b, 0x4b, 0x9e, 0x79]);
+const BLOCK_KEY_VERIFIER_VALUE = new Uint8Array([0xd7, 0xaa, 0x0f, 0x6d, 0x30, 0x61, 0x34, 0x4e]);
+const BLOCK_KEY_ENCRYPTED_KEY = new Uint8Array([0x14, 0x6e, 0x0b, 0xe7, 0xab, 0xac, 0xd0, 0xd6]);
+
+/**
+ * EncryptedPackage 的分段大小 (Agile)
+ */
+const SEGMENT_SIZE = 4096;
+
+/**
+ * 未设置打开密码时 Excel 使用的默认密码
+ */
+const DEFAULT_PASSWORD = 'VelvetSweatshop';
+
+/**
+ * Standard 加密的算法标识
+ */
+const CALG_AES_128 = 0x660e;
+const CALG_AES_192 = 0x660f;
+const CALG_AES_256 = 0x6610;
+
+/**
+ * 支持的哈希算法 (EncryptionInfo 中的名称)
+ */
+const HASH_ALGORITHMS = ['SHA1', 'SHA256', 'SHA384', 'SHA512'];
+
+/**
+ * 密码错误
+ * @description reason 为 required 表示需要密码，incorrect 表示密码错误
+ */
+export class PasswordError extends Error {
+  readonly reason: 'required' | 'incorrect';
+
+  constructor(reason: 'required' | 'incorrect') {
+    super(reason === 'required' ? '文件已加密，需要密码' : '密码错误');
+    this.name = 'PasswordError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Agile 加密参数 (keyData 或 encryptedKey)
+ */
+interface AgileParams {
+  salt: Uint8Array;
+  hash: string;
+  keyBytes: number;
+  blockSize: number;
+}
+
+/**
+ * Office 文档解密
+ */
+export class OfficeCrypto {
+  /**
+   * 检测数据是否是加密的 Office 文档
+   */
+  static isEncrypted(data: ArrayBuffer | Uint8Array): boolean {
+    if (!CfbReader.isCfb(data)) {
+      return false;
+    }
+    try {
+      const cfb = new CfbReader(data);
+      return cfb.getStream('EncryptionInfo') !== null && cfb.getStream('EncryptedPackage') !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 解密文档，返回 ZIP 包数据
+   * @param password 打开密码，为空时尝试 Excel 的默认密码
+   */
+  static async decrypt(data: ArrayBuffer | Uint8Array, password?: string): Promise<Uint8Array> {
+    const cfb = new CfbReader(data);
+    const info = cfb.getStream('EncryptionInfo');
+    const pkg = cfb.getStream('EncryptedPackage');
+    if (!info || !pkg) {
+      throw new Error('无效的加密文件：找不到 EncryptionInfo 或 EncryptedPackage 流');
+    }
+    if (!globalThis.crypto?.subtle) {
+      throw new Error('当前环境不支持 WebCrypto，无法解密文件');
+    }
+
+    const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+    const major = view.getUint16(0, true);
+    const minor = view.getUint16(2, true);
+
+    let decryptPackage: (candidate: string) => Promise<Uint8Array | null>;
+    if (major === 4 && minor === 4) {
+      decryptPackage = candidate => this.decryptAgile(info, pkg, candidate);
+    } else if ((major === 3 || major === 4) && minor === 2) {
+      decryptPackage = candidate => this.decryptStandard(info, pkg, candidate);
+    } else {
+      throw new Error(`不支持的加密版本: ${major}.${minor}`);
+    }
+
+    const result = await decryptPackage(password ? password : DEFAULT_PASSWORD);
+    if (!result) {
+      throw new PasswordError(password ? 'incorrect' : 'required');
+    }
+    return result;
+  }
+
+  /**
+   * Agile 加密 (EncryptionInfo 为 XML 描述)
+   */
+  private static async decryptAgile(info: Uint8Array, pkg: Uint8Array, password: string): Promise<Uint8Array | null> {
+    const doc = XmlUtils.parse(new TextDecoder('utf-8').decode(info.subarray(8)));
+    const root = doc.documentElement;
+    const keyEncryptors = XmlUtils.getChild(root, 'keyEncryptors');
+    const passwordEncryptor = XmlUtils.getChildren(keyEncryptors, 'keyEncryptor')
+      .find(el => XmlUtils.getAttr(el, 'uri').endsWith('/password'));
+    const encryptedKey = XmlUtils.getChild(passwordEncryptor ?? null, 'encryptedKey');
+    const keyData = XmlUtils.getChild(root, 'keyData');
+    if (!encryptedKey || !keyData) {
+      throw new Error('无效的加密文件：缺少密码密钥信息');
+    }
+    for (const el of [keyData, encryptedKey]) {
+      if (XmlUtils.getAttr(el, 'cipherAlgorithm') !== 'AES' || XmlUtils.getAttr(el, 'cipherChaining') !== 'ChainingModeCBC') {
+        throw new Error(`不支持的加密算法: ${XmlUtils.getAttr(el, 'cipherAlgorithm')}`);
+      }
+    }
+
+    const keyParams = this.parseAgileParams(encryptedKey);
+    const spinCount = XmlUtils.getAttrAsInt(encryptedKey, 'spinCount', 100000);
+    const base = await this.hashPassword(keyParams.hash, keyParams.salt, password, spinCount);
+
+    const deriveKey = async (blockKey: Uint8Array): Promise<CryptoKey> => {
+      const hash = await this.digest(keyParams.hash, base, blockKey);
+      return this.importKey(this.fitLength(hash, keyParams.keyBytes, 0x36));
+    };
+    const decryptValue = async (blockKey: Uint8Array, attr: string): Promise<Uint8Array> =>
+      this.decryptCbc(await deriveKey(blockKey), keyParams.salt, this.base64(XmlUtils.getAttr(encryptedKey, attr)));
+
+    // 校验密码：验证输入的哈希应等于验证哈希值
+    const verifierInput = await decryptValue(BLOCK_KEY_VERIFIER_INPUT, 'encryptedVerifierHashInput');
+    const verifierHash = await decryptValue(BLOCK_KEY_VERIFIER_VALUE, 'encryptedVerifierHashValue');
+    const expected = await this.digest(keyParams.hash, verifierInput.subarray(0, keyParams.salt.length));
+    if (!this.equals(expected, verifierHash.subarray(0, expected.length))) {
+      return null;
+    }
+
+    // 解出数据密钥，再按 4096 字节分段解密，每段的 IV 由 keyData 盐值和段号计算
+    const dataParams = this.parseAgileParams(keyData);
+    const secretKey = await decryptValue(BLOCK_KEY_ENCRYPTED_KEY, 'encryptedKeyValue');
+    const key = await this.importKey(secretKey.subarray(0, dataParams.keyBytes));
+    const size = this.readPackageSize(pkg);
+    const result = new Uint8Array(size);
+
+    for (let segment = 0, offset = 8; offset < pkg.length && segment * SEGMENT_SIZE < size; segment++) {
+      const end = Math.min(offset + SEGMENT_SIZE, pkg.length);
+      const index = new Uint8Array(4);
+      new DataView(index.buffer).setUint32(0, segment, true);
+      const iv = this.fitLength(await this.digest(dataParams.hash, dataParams.salt, index), dataParams.blockSize, 0x36);
+      const chunk = pkg.subarray(offset, offset + Math.floor((end - offset) / 16) * 16);
+      const plain = await this.decryptCbc(key, iv, chunk);
+      result.set(plain.subarray(0, size - segment * SEGMENT_SIZE), segment * SEGMENT_SIZE);
+      offset = end;
+    }
+
+    return result;
+  }
+
+  /**
+   * Standard 加密 (AES-ECB，密钥由 SHA-1 派生)
+   */
+  private static async decryptStandard(
+    info: Uint8Array,
+    pkg: Uint8Array,
+    password: string,
+  ): Promise<Uint8Array | null> {
+    const view = new DataView(info.buffer, info.byteOffset, info.byteLength);
+    const headerSize = view.getUint32(8, true);
+    const algId = view.getUint32(12 + 8, true);
+    if (![CALG_AES_128, CALG_AES_192, CALG_AES_256].includes(algId)) {
+      throw new Error(`不支持的加密算法: 0x${algId.toString(16)}`);
+    }
+    const keyBytes = view.getUint32(12 + 16, true) / 8;
+
+    // EncryptionVerifier
+    const verifierOffset = 12 + headerSize;
+    const saltSize = view.getUint32(verifierOffset, true);
+    const salt = info.subarray(verifierOffset + 4, verifierOffset + 4 + saltSize);
+    const encryptedVerifier = info.subarray(verifierOffset + 4 + saltSize, verifierOffset + 20 + saltSize);
+    const encryptedVerifierHash = info.subarray(verifierOffset + 24 + saltSize, verifierOffset + 56 + saltSize);
+
+    // 派生密钥：迭代哈希后与块号 0 组合，再经 0x36/0x5C 填充扩展
+    const base = await this.hashPassword('SHA1', salt, password, 50000);
+    const hash = await this.digest('SHA1', base, new Uint8Array(4));
+    const pad = (value: number): Uint8Array => {
+      const buffer = new Uint8Array(64).fill(value);
+      hash.forEach((b, i) => (buffer[i] ^= b));
+      return buffer;
+    };
+    const derived = new Uint8Array(40);
+    derived.set(await this.digest('SHA1', pad(0x36)), 0);
+    derived.set(await this.digest('SHA1', pad(0x5c)), 20);
+    const key = await this.importKey(derived.subarray(0, keyBytes));
+
+    // 校验密码：验证数据的 SHA-1 应等于解密的验证哈希
+    const verifier = await this.decryptEcb(key, encryptedVerifier);
+    const verifierHash = await this.decryptEcb(key, encryptedVerifierHash);
+    if (!this.equals(await this.digest('SHA1', verifier), verifierHash.subarray(0, 20))) {
+      return null;
+    }
+
+    const size = this.readPackageSize(pkg);
+    const body = pkg.subarray(8, 8 + Math.floor((pkg.length - 8) / 16) * 16);
+    return (await this.decryptEcb(key, body)).subarray(0, size);
+  }
+
+  /**
+   * 读取 Agile 加密参数
+   */
+  private static parseAgileParams(el: Element): AgileParams {
+    const hashName = XmlUtils.getAttr(el, 'hashAlgorithm');
+    if (!HASH_ALGORITHMS.includes(hashName)) {
+      throw new Error(`不支持的哈希算法: ${hashName}`);
+    }
+    return {
+      salt: this.base64(XmlUtils.getAttr(el, 'saltValue')),
+      hash: hashName,
+      keyBytes: XmlUtils.getAttrAsInt(el, 'keyBits', 128) / 8,
+      blockSize: XmlUtils.getAttrAsInt(el, 'blockSize', 16),
+    };
+  }
+
+  /**
+   * 迭代哈希密码：H0 = H(盐值 + 密码)，Hn = H(迭代序号 + Hn-1)
+   * @description 迭代次数通常为 10 万次，使用 WebCrypto 异步计算，避免长时间阻塞主线程
+   */
+  private static async hashPassword(
+    hashName: string,
+    salt: Uint8Array,
+    password: string,
+    spinCount: number,
+  ): Promise<Uint8Array> {
+    const passwordBytes = new Uint8Array(password.length * 2);
+    for (let i = 0; i < password.length; i++) {
+      const code = password.charCodeAt(i);
+      passwordBytes[i * 2] = code & 0xff;
+      passwordBytes[i * 2 + 1] = code >> 8;
+    }
+
+    let hash = await this.digest(hashName, salt, passwordBytes);
+    const buffer = new Uint8Array(4 + hash.length);
+    const view = new DataView(buffer.buffer);
+    for (let i = 0; i < spinCount; i++) {
+      view.setUint32(0, i, true);
+      buffer.set(hash, 4);
+      hash = await this.digest(hashName, buffer);
+    }
+    return hash;
+  }
+
+  /**
+   * 计算拼接数据的哈希
+   * @param hashName EncryptionInfo 中的算法名称 (SHA1、SHA256 等)，对应 WebCrypto 的 SHA-1、SHA-256
+   */
+  private static async digest(hashName: string, ...parts: Uint8Array[]): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest(`SHA-${hashName.substring(3)}`, this.concat(...parts)));
+  }
+
+  /**
+   * 拼接字节数组
+   */
+  private static concat(...parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const buffer = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      buffer.set(part, offset);
+      offset += part.length;
+    }
+    return buffer;
+  }
+
+  /**
+   * 截断或填充到指定长度
+   */
+  private static fitLength(data: Uint8Array, length: number, padding: number): Uint8Array {
+    const result = new Uint8Array(length).fill(padding);
+    result.set(data.subarray(0, length));
+    return result;
+  }
+
+  /**
+   * 导入 AES 密钥
+   */
+  private static importKey(raw: Uint8Array): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', raw, 'AES-CBC', false, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * AES-CBC 解密 (无填充)
+   * @description WebCrypto 要求 PKCS#7 填充，因此先追加一个加密后的填充块，解密后再去掉
+   */
+  private static async decryptCbc(key: CryptoKey, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+    if (data.length === 0) {
+      return new Uint8Array(0);
+    }
+
+    const lastBlock = data.subarray(data.length - 16);
+    const padding = new Uint8Array(16).fill(16);
+    const padBlock = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: lastBlock }, key, padding));
+
+    const input = new Uint8Array(data.length + 16);
+    input.set(data);
+    input.set(padBlock.subarray(0, 16), data.length);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, key, input));
+  }
+
+  /**
+   * AES-ECB 解密 (无填充)
+   * @description 以全零 IV 做 CBC 解密，再异或前一个密文块即得 ECB 结果
+   */
+  private static async decryptEcb(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+    const result = await this.decryptCbc(key, new Uint8Array(16), data);
+    for (let i = 16; i < result.length; i++) {
+      result[i] ^= data[i - 16];
+    }
+    return result;
+  }
+
+  /**
+   * 读取 EncryptedPackage 开头的明文大小 (8 字节)
+   * @description 明文大小不能超过其后的密文长度，否则文件已损坏
+   */
+  private static readPackageSize(pkg: Uint8Array): number {
+    if (pkg.length < 8) {
+      throw new Error('无效的加密文件：EncryptedPackage 流过短');
+    }
+    const view = new DataView(pkg.buffer, pkg.byteOffset, pkg.byteLength);
+    const size = view.getUint32(0, true) + view.getUint32(4, true) * 0x100000000;
+    if (size > pkg.length - 8) {
+      throw new Error(`无效的加密文件：EncryptedPackage 声明的大小 (${size} 字节) 超过实际数据长度 (${pkg.length - 8} 字节)`);
+    }
+    return size;
+  }
+
+  /**
+   * 解码 Base64
+   */
+  private static base64(value: string): Uint8Array {
+    const binary = atob(value.replace(/\s/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  /**
+   * 比较字节数组
+   */
+  private static equals(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * 解析 Worker 客户端
+ * @description 在主线程中启动解析 Worker (dist/worker.js)，接收解压后的部件和流式读取的工作表行数据
+ */
+import type { RowChunk } from './RowChunk';
+
+/**
+ * 发送给 Worker 的消息
+ */
+export interface ParseWorkerRequest {
+  type: 'parse';
+  /** ZIP 包数据 (以可转移对象发送) */
+  data: ArrayBuffer;
+}
+
+/**
+ * Worker 返回的消息
+ * @description file 为部件内容 (工作表为去掉 sheetData 的 XML 骨架)，rows 为列式的行数据块
+ */
+export type ParseWorkerResponse =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'file'; path: string; data: Uint8Array }
+  | { type: 'rows'; path: string; chunk: RowChunk }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+/**
+ * Worker 解压结果
+ */
+export interface ParseWorkerResult {
+  /** 部件内容，以 ZIP 内路径为键 */
+  files: Map<string, Uint8Array>;
+  /** 工作表行数据块，以工作表路径为键 */
+  rows: Map<string, RowChunk[]>;
+}
+
+/**
+ * 解析 Worker 客户端
+ */
+export class ParseWorkerClient {
+  /**
+   * 在 Worker 中解压并读取工作表
+   * @param workerUrl Worker 脚本地址
+   * @param data ZIP 包数据 (会被转移给 Worker，调用方不应再使用)
+   * @param onProgress 进度回调 (已处理字节数、总字节数)
+   * @param signal 取消信号，取消时终止 Worker
+   */
+  static run(
+    workerUrl: string | URL,
+    data: ArrayBuffer,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal,
+  ): Promise<ParseWorkerResult> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(workerUrl);
+      const result: ParseWorkerResult = { files: new Map(), rows: new Map() };
+
+      const finish = (error?: Error): void => {
+        worker.terminate();
+        signal?.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      };
+      const onAbort = (): void => finish(ParseWorkerClient.createAbortError());
+
+      if (signal?.aborted) {
+        finish(ParseWorkerClient.createAbortError());
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.loaded, message.total);
+            break;
+          case 'file':
+            result.files.set(message.path, message.data);
+            break;
+          case 'rows': {
+            const chunks = result.rows.get(message.path) ?? [];
+            chunks.push(message.chunk);
+            result.rows.set(message.path, chunks);
+            break;
+          }
+          case 'done':
+            finish();
+            break;
+          case 'error':
+            finish(new Error(message.message));
+            break;
+        }
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        finish(new Error(`解析 Worker 出错: ${event.message}`));
+      };
+
+      const request: ParseWorkerRequest = { type: 'parse', data };
+      worker.postMessage(request, [data]);
+    });
+  }
+
+  /**
+   * 创建取消错误
+   */
+  static createAbortError(): Error {
+    const error = new Error('解析已取消');
+    error.name = 'AbortError';
+    return error;
+  }
+}
@@ -0,0 +1,467 @@
+/**
+ * 公式表达式解码器
+ * @description 将 BIFF8 (xls) 和 BIFF12 (xlsb) 中解析后的公式表达式 (Ptg 序列) 还原为公式文本
+ */
+import { XmlUtils } from './XmlUtils';
+import type { CellErrorType } from '../types';
+
+/**
+ * 错误值编码
+ */
+const ERROR_CODES: Record<number, CellErrorType> = {
+  0x00: '#NULL!',
+  0x07: '#DIV/0!',
+  0x0f: '#VALUE!',
+  0x17: '#REF!',
+  0x1d: '#NAME?',
+  0x24: '#NUM!',
+  0x2a: '#N/A',
+  0x2b: '#GETTING_DATA',
+};
+
+/**
+ * 二元运算符标记
+ */
+const BINARY_OPERATORS: Record<number, string> = {
+  0x03: '+',
+  0x04: '-',
+  0x05: '*',
+  0x06: '/',
+  0x07: '^',
+  0x08: '&',
+  0x09: '<',
+  0x0a: '<=',
+  0x0b: '=',
+  0x0c: '>=',
+  0x0d: '>',
+  0x0e: '<>',
+  0x0f: ' ',
+  0x10: ',',
+  0x11: ':',
+};
+
+/**
+ * 内置函数表 (函数编号 → [名称, 固定参数个数，-1 表示可变参数])
+ */
+const FUNCTIONS: Record<number, [string, number]> = {
+  0: ['COUNT', -1], 1: ['IF', -1], 2: ['ISNA', 1], 3: ['ISERROR', 1], 4: ['SUM', -1], 5: ['AVERAGE', -1],
+  6: ['MIN', -1], 7: ['MAX', -1], 8: ['ROW', -1], 9: ['COLUMN', -1], 10: ['NA', 0], 11: ['NPV', -1],
+  12: ['STDEV', -1], 13: ['DOLLAR', -1], 14: ['FIXED', -1], 15: ['SIN', 1], 16: ['COS', 1], 17: ['TAN', 1],
+  18: ['ATAN', 1], 19: ['PI', 0], 20: ['SQRT', 1], 21: ['EXP', 1], 22: ['LN', 1], 23: ['LOG10', 1],
+  24: ['ABS', 1], 25: ['INT', 1], 26: ['SIGN', 1], 27: ['ROUND', 2], 28: ['LOOKUP', -1], 29: ['INDEX', -1],
+  30: ['REPT', 2], 31: ['MID', 3], 32: ['LEN', 1], 33: ['VALUE', 1], 34: ['TRUE', 0], 35: ['FALSE', 0],
+  36: ['AND', -1], 37: ['OR', -1], 38: ['NOT', 1], 39: ['MOD', 2], 40: ['DCOUNT', 3], 41: ['DSUM', 3],
+  42: ['DAVERAGE', 3], 43: ['DMIN', 3], 44: ['DMAX', 3], 45: ['DSTDEV', 3], 46: ['VAR', -1], 47: ['DVAR', 3],
+  48: ['TEXT', 2], 49: ['LINEST', -1], 50: ['TREND', -1], 51: ['LOGEST', -1], 52: ['GROWTH', -1],
+  56: ['PV', -1], 57: ['FV', -1], 58: ['NPER', -1], 59: ['PMT', -1], 60: ['RATE', -1], 61: ['MIRR', 3],
+  62: ['IRR', -1], 63: ['RAND', 0], 64: ['MATCH', -1], 65: ['DATE', 3], 66: ['TIME', 3], 67: ['DAY', 1],
+  68: ['MONTH', 1], 69: ['YEAR', 1], 70: ['WEEKDAY', -1], 71: ['HOUR', 1], 72: ['MINUTE', 1], 73: ['SECOND', 1],
+  74: ['NOW', 0], 75: ['AREAS', 1], 76: ['ROWS', 1], 77: ['COLUMNS', 1], 78: ['OFFSET', -1], 82: ['SEARCH', -1],
+  83: ['TRANSPOSE', 1], 86: ['TYPE', 1], 97: ['ATAN2', 2], 98: ['ASIN', 1], 99: ['ACOS', 1], 100: ['CHOOSE', -1],
+  101: ['HLOOKUP', -1], 102: ['VLOOKUP', -1], 105: ['ISREF', 1], 109: ['LOG', -1], 111: ['CHAR', 1],
+  112: ['LOWER', 1], 113: ['UPPER', 1], 114: ['PROPER', 1], 115: ['LEFT', -1], 116: ['RIGHT', -1],
+  117: ['EXACT', 2], 118: ['TRIM', 1], 119: ['REPLACE', 4], 120: ['SUBSTITUTE', -1], 121: ['CODE', 1],
+  124: ['FIND', -1], 125: ['CELL', -1], 126: ['ISERR', 1], 127: ['ISTEXT', 1], 128: ['ISNUMBER', 1],
+  129: ['ISBLANK', 1], 130: ['T', 1], 131: ['N', 1], 140: ['DATEVALUE', 1], 141: ['TIMEVALUE', 1],
+  142: ['SLN', 3], 143: ['SYD', 4], 144: ['DDB', -1], 148: ['INDIRECT', -1], 162: ['CLEAN', 1],
+  163: ['MDETERM', 1], 164: ['MINVERSE', 1], 165: ['MMULT', 2], 167: ['IPMT', -1], 168: ['PPMT', -1],
+  169: ['COUNTA', -1], 183: ['PRODUCT', -1], 184: ['FACT', 1], 189: ['DPRODUCT', 3], 190: ['ISNONTEXT', 1],
+  193: ['STDEVP', -1], 194: ['VARP', -1], 195: ['DSTDEVP', 3], 196: ['DVARP', 3], 197: ['TRUNC', -1],
+  198: ['ISLOGICAL', 1], 199: ['DCOUNTA', 3], 212: ['ROUNDUP', 2], 213: ['ROUNDDOWN', 2], 216: ['RANK', -1],
+  219: ['ADDRESS', -1], 220: ['DAYS360', -1], 221: ['TODAY', 0], 222: ['VDB', -1], 227: ['MEDIAN', -1],
+  228: ['SUMPRODUCT', -1], 229: ['SINH', 1], 230: ['COSH', 1], 231: ['TANH', 1], 232: ['ASINH', 1],
+  233: ['ACOSH', 1], 234: ['ATANH', 1], 235: ['DGET', 3], 244: ['INFO', 1], 247: ['DB', -1],
+  252: ['FREQUENCY', 2], 261: ['ERROR.TYPE', 1], 269: ['AVEDEV', -1], 270: ['BETADIST', -1],
+  271: ['GAMMALN', 1], 272: ['BETAINV', -1], 273: ['BINOMDIST', 4], 274: ['CHIDIST', 2], 275: ['CHIINV', 2],
+  276: ['COMBIN', 2], 277: ['CONFIDENCE', 3], 278: ['CRITBINOM', 3], 279: ['EVEN', 1], 280: ['EXPONDIST', 3],
+  281: ['FDIST', 3], 282: ['FINV', 3], 283: ['FISHER', 1], 284: ['FISHERINV', 1], 285: ['FLOOR', 2],
+  286: ['GAMMADIST', 4], 287: ['GAMMAINV', 3], 288: ['CEILING', 2], 289: ['HYPGEOMDIST', 4],
+  290: ['LOGNORMDIST', 3], 291: ['LOGINV', 3], 292: ['NEGBINOMDIST', 3], 293: ['NORMDIST', 4],
+  294: ['NORMSDIST', 1], 295: ['NORMINV', 3], 296: ['NORMSINV', 1], 297: ['STANDARDIZE', 3], 298: ['ODD', 1],
+  299: ['PERMUT', 2], 300: ['POISSON', 3], 301: ['TDIST', 3], 302: ['WEIBULL', 4], 303: ['SUMXMY2', 2],
+  304: ['SUMX2MY2', 2], 305: ['SUMX2PY2', 2], 306: ['CHITEST', 2], 307: ['CORREL', 2], 308: ['COVAR', 2],
+  309: ['FORECAST', 3], 310: ['FTEST', 2], 311: ['INTERCEPT', 2], 312: ['PEARSON', 2], 313: ['RSQ', 2],
+  314: ['STEYX', 2], 315: ['SLOPE', 2], 316: ['TTEST', 4], 317: ['PROB', -1], 318: ['DEVSQ', -1],
+  319: ['GEOMEAN', -1], 320: ['HARMEAN', -1], 321: ['SUMSQ', -1], 322: ['KURT', -1], 323: ['SKEW', -1],
+  324: ['ZTEST', -1], 325: ['LARGE', 2], 326: ['SMALL', 2], 327: ['QUARTILE', 2], 328: ['PERCENTILE', 2],
+  329: ['PERCENTRANK', -1], 330: ['MODE', -1], 331: ['TRIMMEAN', 2], 332: ['TINV', 2], 336: ['CONCATENATE', -1],
+  337: ['POWER', 2], 342: ['RADIANS', 1], 343: ['DEGREES', 1], 344: ['SUBTOTAL', -1], 345: ['SUMIF', -1],
+  346: ['COUNTIF', 2], 347: ['COUNTBLANK', 1], 350: ['ISPMT', 4], 351: ['DATEDIF', 3], 354: ['ROMAN', -1],
+  358: ['GETPIVOTDATA', -1], 359: ['HYPERLINK', -1], 360: ['PHONETIC', 1], 361: ['AVERAGEA', -1],
+  362: ['MAXA', -1], 363: ['MINA', -1], 364: ['STDEVPA', -1], 365: ['VARPA', -1], 366: ['STDEVA', -1],
+  367: ['VARA', -1],
+};
+
+/**
+ * 解码上下文 (由具体格式的解析器提供名称和工作表信息)
+ */
+export interface PtgContext {
+  /** 获取定义名称 (索引从 1 开始) */
+  getName(index: number): string | undefined;
+  /** 获取外部名称 (加载项或新版本函数名) */
+  getExternName(ixti: number, index: number): string | undefined;
+  /** 获取三维引用的工作表前缀 (如 "Sheet1!")，外部工作簿引用返回 null */
+  getSheetPrefix(ixti: number): string | null;
+}
+
+/**
+ * 公式表达式解码器
+ */
+export class PtgDecoder {
+  private data: Uint8Array = new Uint8Array(0);
+  private view: DataView = new DataView(new ArrayBuffer(0));
+
+  /**
+   * @param context 解码上下文
+   * @param biff12 是否是 BIFF12 (xlsb) 格式，行号为 4 字节，字符串常量为 UTF-16
+   */
+  constructor(private context: PtgContext, private biff12 = false) {}
+
+  /**
+   * 获取错误值文本
+   */
+  static getErrorText(code: number): CellErrorType {
+    return ERROR_CODES[code] ?? '#N/A';
+  }
+
+  /**
+   * 格式化三维引用的工作表前缀，名称含特殊字符或为多表引用时加引号
+   */
+  static formatSheetPrefix(first: string, last?: string): string {
+    const name = last && last !== first ? `${first}:${last}` : first;
+    if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name)) {
+      return `${name}!`;
+    }
+    return `'${name.replace(/'/g, '\'\'')}'!`;
+  }
+
+  /**
+   * 将表达式还原为公式文本，无法识别时返回 null
+   * @param data 表达式所在数据
+   * @param offset 表达式起始偏移
+   * @param cce 表达式长度
+   * @param baseRow 公式所在行 (用于共享公式中的相对引用)
+   * @param baseCol 公式所在列
+   * @param extraOffset 附加数据 (数组常量、内存区域) 的起始偏移
+   */
+  decode(
+    data: Uint8Array,
+    offset: number,
+    cce: number,
+    baseRow: number,
+    baseCol: number,
+    extraOffset: number = offset + cce,
+  ): string | null {
+    if (offset + cce > data.length) {
+      return null;
+    }
+
+    this.data = data;
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    try {
+      return this.decodeTokens(offset, offset + cce, baseRow, baseCol, extraOffset);
+    } catch {
+      // 数据越界等异常视为无法识别
+      return null;
+    }
+  }
+
+  /**
+   * 逐个解码表达式标记
+   */
+  private decodeTokens(
+    start: number,
+    end: number,
+    baseRow: number,
+    baseCol: number,
+    extraOffset: number,
+  ): string | null {
+    const stack: string[] = [];
+    const refSize = this.biff12 ? 6 : 4;
+    const areaSize = this.biff12 ? 12 : 8;
+    let extra = extraOffset;
+    let pos = start;
+
+    const pop = (): string => stack.pop() ?? '';
+
+    while (pos < end) {
+      const ptg = this.data[pos++];
+      // 引用类标记的高位表示值类别 (引用/值/数组)，统一到引用类别处理
+      const base = ptg >= 0x20 ? (ptg & 0x1f) | 0x20 : ptg;
+
+      if (BINARY_OPERATORS[base]) {
+        const right = pop();
+        const left = pop();
+        stack.push(`${left}${BINARY_OPERATORS[base]}${right}`);
+        continue;
+      }
+
+      switch (base) {
+        case 0x12: // 一元正号
+          stack.push(`+${pop()}`);
+          break;
+        case 0x13: // 一元负号
+          stack.push(`-${pop()}`);
+          break;
+        case 0x14: // 百分号
+          stack.push(`${pop()}%`);
+          break;
+        case 0x15: // 括号
+          stack.push(`(${pop()})`);
+          break;
+        case 0x16: // 缺省参数
+          stack.push('');
+          break;
+        case 0x17: { // 字符串常量
+          const str = this.readString(pos);
+          stack.push(`"${str.text.replace(/"/g, '""')}"`);
+          pos += str.size;
+          break;
+        }
+        case 0x19: { // 特殊属性
+          const attr = this.data[pos];
+          const data = this.view.getUint16(pos + 1, true);
+          pos += 3;
+          if (attr & 0x04) {
+            // CHOOSE 的跳转表
+            pos += (data + 1) * 2;
+          } else if (attr & 0x10) {
+            // 单参数 SUM
+            stack.push(`SUM(${pop()})`);
+          }
+          break;
+        }
+        case 0x1c: // 错误值
+          stack.push(PtgDecoder.getErrorText(this.data[pos++]));
+          break;
+        case 0x1d: // 布尔值
+          stack.push(this.data[pos++] ? 'TRUE' : 'FALSE');
+          break;
+        case 0x1e: // 整数
+          stack.push(String(this.view.getUint16(pos, true)));
+          pos += 2;
+          break;
+        case 0x1f: // 浮点数
+          stack.push(String(this.view.getFloat64(pos, true)));
+          pos += 8;
+          break;
+        case 0x20: { // 数组常量，数据位于表达式之后
+          if (this.biff12) {
+            return null;
+          }
+          pos += 7;
+          const array = this.readArrayConstant(extra);
+          stack.push(array.text);
+          extra += array.size;
+          break;
+        }
+        case 0x21: { // 固定参数函数
+          const fn = FUNCTIONS[this.view.getUint16(pos, true)];
+          pos += 2;
+          if (!fn || fn[1] < 0) {
+            return null;
+          }
+          const args = stack.splice(stack.length - fn[1], fn[1]);
+          stack.push(`${fn[0]}(${args.join(',')})`);
+          break;
+        }
+        case 0x22: { // 可变参数函数
+          const argc = this.data[pos] & 0x7f;
+          const index = this.view.getUint16(pos + 1, true) & 0x7fff;
+          pos += 3;
+          const args = stack.splice(stack.length - argc, argc);
+          // 编号 255 表示加载项或新版本函数，函数名为第一个参数
+          const name = index === 255 ? args.shift() : FUNCTIONS[index]?.[0];
+          if (!name) {
+            return null;
+          }
+          stack.push(`${name}(${args.join(',')})`);
+          break;
+        }
+        case 0x23: // 定义名称
+          stack.push(this.context.getName(this.biff12 ? this.view.getUint32(pos, true) : this.view.getUint16(pos, true)) ?? '#NAME?');
+          pos += 4;
+          break;
+        case 0x24: // 单元格引用
+        case 0x2c: // 相对单元格引用 (共享公式)
+          stack.push(this.formatRef(pos, base === 0x2c, baseRow, baseCol));
+          pos += refSize;
+          break;
+        case 0x25: // 区域引用
+        case 0x2d: // 相对区域引用 (共享公式)
+          stack.push(this.formatArea(pos, base === 0x2d, baseRow, baseCol));
+          pos += areaSize;
+          break;
+        case 0x26: // 内存区域，附加数据中保存区域列表，后续子表达式正常解析
+          extra += this.biff12 ? 4 + this.view.getUint32(extra, true) * 16 : 2 + this.view.getUint16(extra, true) * 8;
+          pos += 6;
+          break;
+        case 0x27:
+        case 0x28:
+          pos += 6;
+          break;
+        case 0x29:
+          pos += 2;
+          break;
+        case 0x2a: // 无效单元格引用
+          stack.push('#REF!');
+          pos += refSize;
+          break;
+        case 0x2b: // 无效区域引用
+          stack.push('#REF!');
+          pos += areaSize;
+          break;
+        case 0x39: { // 外部名称 (加载项函数名)
+          const name = this.context.getExternName(this.view.getUint16(pos, true), this.view.getUint16(pos + 2, true));
+          pos += 6;
+          stack.push(name ?? '#NAME?');
+          break;
+        }
+        case 0x3a: // 三维单元格引用
+        case 0x3c: { // 无效三维单元格引用
+          const prefix = this.context.getSheetPrefix(this.view.getUint16(pos, true));
+          if (prefix === null) {
+            return null;
+          }
+          stack.push(prefix + (base === 0x3a ? this.formatRef(pos + 2, false, 0, 0) : '#REF!'));
+          pos += 2 + refSize;
+          break;
+        }
+        case 0x3b: // 三维区域引用
+        case 0x3d: { // 无效三维区域引用
+          const prefix = this.context.getSheetPrefix(this.view.getUint16(pos, true));
+          if (prefix === null) {
+            return null;
+          }
+          stack.push(prefix + (base === 0x3b ? this.formatArea(pos + 2, false, 0, 0) : '#REF!'));
+          pos += 2 + areaSize;
+          break;
+        }
+        default:
+          // 模拟运算表、共享公式引用、结构化引用等由调用方处理或暂不支持
+          return null;
+      }
+    }
+
+    return stack.length === 1 ? stack[0] : null;
+  }
+
+  /**
+   * 读取字符串常量 (BIFF8 为 1 字节长度加压缩标志，BIFF12 为 2 字节长度加 UTF-16)
+   */
+  private readString(offset: number): { text: string; size: number } {
+    if (this.biff12) {
+      const cch = this.view.getUint16(offset, true);
+      return { text: this.readChars(offset + 2, cch, true), size: 2 + cch * 2 };
+    }
+    const cch = this.data[offset];
+    const highByte = (this.data[offset + 1] & 0x01) !== 0;
+    return { text: this.readChars(offset + 2, cch, highByte), size: 2 + (highByte ? cch * 2 : cch) };
+  }
+
+  /**
+   * 读取字符数据
+   */
+  private readChars(offset: number, cch: number, highByte: boolean): string {
+    let text = '';
+    for (let i = 0; i < cch; i++) {
+      text += String.fromCharCode(highByte ? this.view.getUint16(offset + i * 2, true) : this.data[offset + i]);
+    }
+    return text;
+  }
+
+  /**
+   * 格式化单元格引用
+   */
+  private formatRef(offset: number, relative: boolean, baseRow: number, baseCol: number): string {
+    const row = this.biff12 ? this.view.getInt32(offset, true) : this.view.getUint16(offset, true);
+    const colField = this.view.getUint16(offset + (this.biff12 ? 4 : 2), true);
+    return this.formatCellRef(row, colField, relative, baseRow, baseCol);
+  }
+
+  /**
+   * 格式化区域引用
+   */
+  private formatArea(offset: number, relative: boolean, baseRow: number, baseCol: number): string {
+    const rowSize = this.biff12 ? 4 : 2;
+    const readRow = (p: number): number => this.biff12 ? this.view.getInt32(p, true) : this.view.getUint16(p, true);
+    const firstRow = readRow(offset);
+    const lastRow = readRow(offset + rowSize);
+    const firstCol = this.view.getUint16(offset + rowSize * 2, true);
+    const lastCol = this.view.getUint16(offset + rowSize * 2 + 2, true);
+    const start = this.formatCellRef(firstRow, firstCol, relative, baseRow, baseCol);
+    const end = this.formatCellRef(lastRow, lastCol, relative, baseRow, baseCol);
+    return `${start}:${end}`;
+  }
+
+  /**
+   * 格式化单个引用，共享公式中的相对引用为相对公式所在单元格的偏移
+   * @param colField 列号，高两位为行、列相对标志
+   */
+  private formatCellRef(row: number, colField: number, relative: boolean, baseRow: number, baseCol: number): string {
+    const colRelative = (colField & 0x4000) !== 0;
+    const rowRelative = (colField & 0x8000) !== 0;
+    const maxRows = this.biff12 ? 1048576 : 65536;
+    const maxCols = this.biff12 ? 16384 : 256;
+    let r = row;
+    let c = colField & 0x3fff;
+
+    if (relative) {
+      if (rowRelative) {
+        const offset = this.biff12 ? row : (row << 16) >> 16;
+        r = (baseRow + offset + maxRows) % maxRows;
+      }
+      if (colRelative) {
+        const offset = this.biff12 ? (c << 18) >> 18 : ((c & 0xff) << 24) >> 24;
+        c = (baseCol + offset + maxCols) % maxCols;
+      }
+    }
+
+    const address = XmlUtils.formatCellAddress(r, c);
+    const match = /^([A-Z]+)(\d+)$/.exec(address);
+    if (!match) {
+      return address;
+    }
+    return `${colRelative ? '' : '$'}${match[1]}${rowRelative ? '' : '$'}${match[2]}`;
+  }
+
+  /**
+   * 读取 BIFF8 数组常量 (列数-1 1 字节，行数-1 2 字节，之后为逐个值)
+   */
+  private readArrayConstant(offset: number): { text: string; size: number } {
+    const cols = this.data[offset] + 1;
+    const rows = this.view.getUint16(offset + 1, true) + 1;
+    let pos = offset + 3;
+    const rowTexts: string[] = [];
+
+    for (let r = 0; r < rows; r++) {
+      const values: string[] = [];
+      for (let c = 0; c < cols; c++) {
+        const type = this.data[pos++];
+        if (type === 0x01) {
+          values.push(String(this.view.getFloat64(pos, true)));
+          pos += 8;
+        } else if (type === 0x02) {
+          // XLUnicodeString：2 字节长度
+          const cch = this.view.getUint16(pos, true);
+          const highByte = (this.data[pos + 2] & 0x01) !== 0;
+          values.push(`"${this.readChars(pos + 3, cch, highByte).replace(/"/g, '""')}"`);
+          pos += 3 + (highByte ? cch * 2 : cch);
+        } else if (type === 0x04) {
+          values.push(this.data[pos] ? 'TRUE' : 'FALSE');
+          pos += 8;
+        } else if (type === 0x10) {
+          values.push(PtgDecoder.getErrorText(this.data[pos]));
+          pos += 8;
+        } else {
+          values.push('');
+          pos += 8;
+        }
+      }
+      rowTexts.push(values.join(','));
+    }
+
+    return { text: `{${rowTexts.join(';')}}`, size: pos - offset };
+  }
+}
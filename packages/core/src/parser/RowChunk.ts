@@ -0,0 +1,227 @@
+/**
+ * 列式行数据块
+ * @description Worker 将流式读取的工作表行编码为类型化数组，连同合并的字符串表一起以可转移对象发送给主线程，
+ * 主线程按列直接构建单元格，无需再做 JSON 解析
+ */
+import type { RawRow } from './WorksheetStreamReader';
+
+/**
+ * 单元格类型 (c 元素的 t 属性)，数组下标为编码值；未知类型编码为 0，按数字处理
+ */
+export const CHUNK_CELL_TYPES = ['', 'n', 's', 'str', 'inlineStr', 'b', 'e', 'd'];
+
+/**
+ * 公式类型 (f 元素的 t 属性)
+ */
+export const CHUNK_FORMULA_TYPES = ['normal', 'shared', 'array', 'dataTable'];
+
+/**
+ * 行标志位
+ */
+export const ROW_FLAG_HIDDEN = 1;
+export const ROW_FLAG_CUSTOM_HEIGHT = 2;
+export const ROW_FLAG_COLLAPSED = 4;
+
+/**
+ * 列式行数据块
+ * @description 整数列中 -1 表示未设置，浮点列中 NaN 表示未设置；字符串列保存字符串表中的序号
+ */
+export interface RowChunk {
+  /** 行数 */
+  rowCount: number;
+  /** 单元格数 */
+  cellCount: number;
+
+  /** 行号 (从 0 开始) */
+  rowIndexes: Int32Array;
+  /** 行高 */
+  rowHeights: Float64Array;
+  /** 行样式索引 */
+  rowStyles: Int32Array;
+  /** 行标志位 (ROW_FLAG_*) */
+  rowFlags: Uint8Array;
+  /** 大纲级别 */
+  rowOutlineLevels: Uint8Array;
+  /** 每行第一个单元格的位置，长度为行数 + 1 */
+  rowCellStarts: Uint32Array;
+
+  /** 单元格行号 (从 0 开始) */
+  cellRows: Int32Array;
+  /** 单元格列号 (从 0 开始) */
+  cellCols: Int32Array;
+  /** 单元格样式索引 */
+  cellStyles: Int32Array;
+  /** 单元格类型 (CHUNK_CELL_TYPES 下标) */
+  cellTypes: Uint8Array;
+  /** 数值形式的 v 元素文本 (文本与数值的字符串形式一致时) */
+  cellNumbers: Float64Array;
+  /** 其他 v 元素文本 */
+  cellValues: Int32Array;
+  /** 内联字符串 */
+  cellInlineStrings: Int32Array;
+  /** 单元格元数据索引 (cm 属性) */
+  cellMetadata: Int32Array;
+
+  /** 公式文本 */
+  formulaTexts: Int32Array;
+  /** 公式类型 (CHUNK_FORMULA_TYPES 下标) */
+  formulaTypes: Uint8Array;
+  /** 公式引用范围 (ref 属性) */
+  formulaRefs: Int32Array;
+  /** 共享公式序号 (si 属性) */
+  formulaShared: Int32Array;
+
+  /** 字符串表 (UTF-8 编码的全部字符串) */
+  strings: Uint8Array;
+  /** 各字符串在解码后文本中的起始位置 (UTF-16 单位)，长度为字符串数 + 1 */
+  stringStarts: Uint32Array;
+}
+
+/**
+ * 列式行数据块编解码
+ */
+export class RowChunkCodec {
+  /**
+   * 解析单元格地址 (Worker 中不引入 XmlUtils)
+   */
+  private static parseAddress(address: string): { row: number; col: number } {
+    const match = /^([A-Z]+)(\d+)$/i.exec(address);
+    if (!match) {
+      throw new Error(`无效的单元格地址: ${address}`);
+    }
+    const letters = match[1].toUpperCase();
+    let col = 0;
+    for (let i = 0; i < letters.length; i++) {
+      col = col * 26 + (letters.charCodeAt(i) - 64);
+    }
+    return { row: parseInt(match[2], 10) - 1, col: col - 1 };
+  }
+
+  /**
+   * 解析整数属性，未设置或无效时返回 -1
+   */
+  private static intAttr(value: string | undefined): number {
+    const result = value ? parseInt(value, 10) : NaN;
+    return isNaN(result) ? -1 : result;
+  }
+
+  /**
+   * 解析布尔属性
+   */
+  private static boolAttr(value: string | undefined): boolean {
+    return value === '1' || value === 'true';
+  }
+
+  /**
+   * 将原始行编码为列式数据块
+   */
+  static encode(rows: RawRow[]): RowChunk {
+    const rowCount = rows.length;
+    const cellCount = rows.reduce((sum, row) => sum + row.cells.length, 0);
+    const strings: string[] = [];
+    const addString = (value: string | undefined): number => {
+      if (value === undefined) {
+        return -1;
+      }
+      strings.push(value);
+      return strings.length - 1;
+    };
+
+    const chunk: RowChunk = {
+      rowCount,
+      cellCount,
+      rowIndexes: new Int32Array(rowCount),
+      rowHeights: new Float64Array(rowCount),
+      rowStyles: new Int32Array(rowCount),
+      rowFlags: new Uint8Array(rowCount),
+      rowOutlineLevels: new Uint8Array(rowCount),
+      rowCellStarts: new Uint32Array(rowCount + 1),
+      cellRows: new Int32Array(cellCount),
+      cellCols: new Int32Array(cellCount),
+      cellStyles: new Int32Array(cellCount),
+      cellTypes: new Uint8Array(cellCount),
+      cellNumbers: new Float64Array(cellCount),
+      cellValues: new Int32Array(cellCount),
+      cellInlineStrings: new Int32Array(cellCount),
+      cellMetadata: new Int32Array(cellCount),
+      formulaTexts: new Int32Array(cellCount),
+      formulaTypes: new Uint8Array(cellCount),
+      formulaRefs: new Int32Array(cellCount),
+      formulaShared: new Int32Array(cellCount),
+      strings: new Uint8Array(0),
+      stringStarts: new Uint32Array(0),
+    };
+
+    let cellIndex = 0;
+    rows.forEach((row, rowIndex) => {
+      const attrs = row.attrs;
+      chunk.rowIndexes[rowIndex] = (parseInt(attrs.r, 10) || 1) - 1;
+      chunk.rowHeights[rowIndex] = attrs.ht ? parseFloat(attrs.ht) : NaN;
+      chunk.rowStyles[rowIndex] = this.intAttr(attrs.s);
+      chunk.rowFlags[rowIndex] = (this.boolAttr(attrs.hidden) ? ROW_FLAG_HIDDEN : 0)
+        | (this.boolAttr(attrs.customHeight) ? ROW_FLAG_CUSTOM_HEIGHT : 0)
+        | (this.boolAttr(attrs.collapsed) ? ROW_FLAG_COLLAPSED : 0);
+      chunk.rowOutlineLevels[rowIndex] = parseInt(attrs.outlineLevel, 10) || 0;
+      chunk.rowCellStarts[rowIndex] = cellIndex;
+
+      for (const cell of row.cells) {
+        const { row: cellRow, col } = this.parseAddress(cell.attrs.r ?? '');
+        chunk.cellRows[cellIndex] = cellRow;
+        chunk.cellCols[cellIndex] = col;
+        chunk.cellStyles[cellIndex] = this.intAttr(cell.attrs.s);
+        chunk.cellTypes[cellIndex] = Math.max(CHUNK_CELL_TYPES.indexOf(cell.attrs.t ?? ''), 0);
+        chunk.cellMetadata[cellIndex] = this.intAttr(cell.attrs.cm);
+
+        // 数值按浮点数保存，字符串形式不一致 (如前导零、非数值) 时保存原文
+        const number = cell.v !== undefined ? Number(cell.v) : NaN;
+        if (cell.v !== undefined && Number.isFinite(number) && String(number) === cell.v) {
+          chunk.cellNumbers[cellIndex] = number;
+          chunk.cellValues[cellIndex] = -1;
+        } else {
+          chunk.cellNumbers[cellIndex] = NaN;
+          chunk.cellValues[cellIndex] = addString(cell.v);
+        }
+        chunk.cellInlineStrings[cellIndex] = addString(cell.is);
+
+        chunk.formulaTexts[cellIndex] = addString(cell.f?.text);
+        chunk.formulaTypes[cellIndex] = Math.max(CHUNK_FORMULA_TYPES.indexOf(cell.f?.attrs.t ?? 'normal'), 0);
+        chunk.formulaRefs[cellIndex] = addString(cell.f?.attrs.ref || undefined);
+        chunk.formulaShared[cellIndex] = this.intAttr(cell.f?.attrs.si);
+        cellIndex++;
+      }
+    });
+    chunk.rowCellStarts[rowCount] = cellIndex;
+
+    chunk.stringStarts = new Uint32Array(strings.length + 1);
+    let offset = 0;
+    strings.forEach((value, index) => {
+      chunk.stringStarts[index] = offset;
+      offset += value.length;
+    });
+    chunk.stringStarts[strings.length] = offset;
+    chunk.strings = new TextEncoder().encode(strings.join(''));
+
+    return chunk;
+  }
+
+  /**
+   * 获取数据块中可转移的缓冲区
+   */
+  static getTransferables(chunk: RowChunk): ArrayBuffer[] {
+    return Object.values(chunk)
+      .filter((value): value is ArrayBufferView => ArrayBuffer.isView(value))
+      .map(value => value.buffer as ArrayBuffer);
+  }
+
+  /**
+   * 解码数据块的字符串表
+   */
+  static decodeStrings(chunk: RowChunk): string[] {
+    const text = new TextDecoder('utf-8').decode(chunk.strings);
+    const strings: string[] = new Array<string>(chunk.stringStarts.length - 1);
+    for (let i = 0; i < strings.length; i++) {
+      strings[i] = text.slice(chunk.stringStarts[i], chunk.stringStarts[i + 1]);
+    }
+    return strings;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * 工作表流式读取器
+ * @description 基于 XmlSaxReader 流式读取工作表 XML 的 sheetData，按块输出原始行数据，
+ * sheetData 以外的内容 (列、合并单元格、视图等) 保留为精简的 XML 骨架供 DOM 解析
+ */
+import { XmlSaxReader } from './XmlSaxReader';
+
+/**
+ * 原始单元格 (sheetData 中 c 元素的属性和内容)
+ */
+export interface RawCell {
+  /** c 元素属性 (r、s、t 等) */
+  attrs: Record<string, string>;
+  /** v 元素文本 */
+  v?: string;
+  /** f 元素 */
+  f?: { text: string; attrs: Record<string, string> };
+  /** 内联字符串 (is 元素中全部 t 的文本) */
+  is?: string;
+}
+
+/**
+ * 原始行
+ */
+export interface RawRow {
+  /** row 元素属性 */
+  attrs: Record<string, string>;
+  /** 单元格 */
+  cells: RawCell[];
+}
+
+/**
+ * 每块的行数
+ */
+const ROWS_PER_CHUNK = 1000;
+
+/**
+ * 去掉命名空间前缀
+ */
+function localName(name: string): string {
+  const index = name.indexOf(':');
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+/**
+ * 工作表流式读取器
+ */
+export class WorksheetStreamReader {
+  private sax: XmlSaxReader;
+  private onRows: (rows: RawRow[]) => void;
+  private skeleton: string[] = [];
+  private rows: RawRow[] = [];
+  private row: RawRow | null = null;
+  private cell: RawCell | null = null;
+  private inSheetData = false;
+  private inPhonetic = false;
+  /** 当前收集文本的元素 (v、f 或 is 中的 t) */
+  private textTarget: 'v' | 'f' | 't' | null = null;
+  private text = '';
+
+  /**
+   * @param onRows 每读取一块行数据时回调
+   */
+  constructor(onRows: (rows: RawRow[]) => void) {
+    this.onRows = onRows;
+    this.sax = new XmlSaxReader({
+      onOpenTag: (name, attrs) => this.handleOpen(name, attrs),
+      onCloseTag: name => this.handleClose(name),
+      onText: text => this.handleText(text),
+    });
+  }
+
+  /**
+   * 写入 XML 文本块
+   */
+  write(chunk: string): void {
+    this.sax.write(chunk);
+  }
+
+  /**
+   * 结束读取，输出剩余行
+   */
+  end(): void {
+    this.sax.end();
+    this.flush();
+  }
+
+  /**
+   * 获取 sheetData 以外内容组成的 XML 骨架
+   */
+  getSkeleton(): string {
+    return this.skeleton.join('');
+  }
+
+  /**
+   * 处理开始标签
+   */
+  private handleOpen(name: string, attrs: Record<string, string>): void {
+    const local = localName(name);
+
+    if (!this.inSheetData) {
+      const attrText = Object.entries(attrs).map(([key, value]) => ` ${key}="${XmlSaxReader.escape(value)}"`).join('');
+      this.skeleton.push(`<${name}${attrText}>`);
+      if (local === 'sheetData') {
+        this.inSheetData = true;
+      }
+      return;
+    }
+
+    switch (local) {
+      case 'row':
+        this.row = { attrs, cells: [] };
+        break;
+      case 'c':
+        this.cell = { attrs };
+        break;
+      case 'v':
+        this.startText('v');
+        break;
+      case 'f':
+        if (this.cell) {
+          this.cell.f = { text: '', attrs };
+          this.startText('f');
+        }
+        break;
+      case 'rPh':
+        this.inPhonetic = true;
+        break;
+      case 't':
+        // 内联字符串 (含富文本 r/t) 的文本，忽略注音
+        if (this.cell && !this.inPhonetic) {
+          this.cell.is = this.cell.is ?? '';
+          this.startText('t');
+        }
+        break;
+    }
+  }
+
+  /**
+   * 处理结束标签
+   */
+  private handleClose(name: string): void {
+    const local = localName(name);
+
+    if (!this.inSheetData) {
+      this.skeleton.push(`</${name}>`);
+      return;
+    }
+
+    switch (local) {
+      case 'sheetData':
+        this.inSheetData = false;
+        this.skeleton.push(`</${name}>`);
+        break;
+      case 'row':
+        if (this.row) {
+          this.rows.push(this.row);
+          this.row = null;
+          if (this.rows.length >= ROWS_PER_CHUNK) {
+            this.flush();
+          }
+        }
+        break;
+      case 'c':
+        if (this.row && this.cell) {
+          this.row.cells.push(this.cell);
+        }
+        this.cell = null;
+        break;
+      case 'v':
+        if (this.cell && this.textTarget === 'v') {
+          this.cell.v = this.text;
+        }
+        this.textTarget = null;
+        break;
+      case 'f':
+        if (this.cell?.f && this.textTarget === 'f') {
+          this.cell.f.text = this.text;
+        }
+        this.textTarget = null;
+        break;
+      case 'rPh':
+        this.inPhonetic = false;
+        break;
+      case 't':
+        if (this.cell && this.textTarget === 't') {
+          this.cell.is = (this.cell.is ?? '') + this.text;
+        }
+        this.textTarget = null;
+        break;
+    }
+  }
+
+  /**
+   * 处理文本
+   */
+  private handleText(text: string): void {
+    if (!this.inSheetData) {
+      this.skeleton.push(XmlSaxReader.escape(text));
+    } else if (this.textTarget) {
+      this.text += text;
+    }
+  }
+
+  /**
+   * 开始收集元素文本
+   */
+  private startText(target: 'v' | 'f' | 't'): void {
+    this.textTarget = target;
+    this.text = '';
+  }
+
+  /**
+   * 输出已读取的行
+   */
+  private flush(): void {
+    if (this.rows.length > 0) {
+      this.onRows(this.rows);
+      this.rows = [];
+    }
+  }
+}
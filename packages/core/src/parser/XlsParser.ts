@@ -0,0 +1,1408 @@
+/**
+ * xls 文件解析器
+ * @description 解析 Excel 97-2003 (BIFF8) 工作簿，输出与 xlsx 相同的工作簿、工作表和单元格结构
+ */
+import { CfbReader } from './CfbReader';
+import { XmlUtils } from './XmlUtils';
+import { PtgDecoder } from './PtgDecoder';
+import { FormatUtils } from '../utils/FormatUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { ProtectionUtils, SHEET_PROTECTION_FLAGS } from '../utils/ProtectionUtils';
+import type { ParseOptions } from './ExcelParser';
+import type {
+  Workbook,
+  Sheet,
+  Cell,
+  Row,
+  CellStyle,
+  FontStyle,
+  Fill,
+  Border,
+  BorderSide,
+  Alignment,
+  Color,
+  MergeCell,
+  CellFormula,
+  CellValueType,
+  CellErrorType,
+  RichText,
+  RichTextRun,
+  DefinedName,
+  NumberFormat,
+  SheetView,
+  SheetProtection,
+  WorkbookProtection,
+  FreezePane,
+  SheetState,
+  SheetType,
+  PatternType,
+  BorderStyleType,
+  HorizontalAlignment,
+  VerticalAlignment,
+} from '../types';
+
+/**
+ * BIFF8 记录类型
+ */
+const RT = {
+  FORMULA: 0x0006,
+  EOF: 0x000a,
+  PROTECT: 0x0012,
+  PASSWORD: 0x0013,
+  EXTERNSHEET: 0x0017,
+  LBL: 0x0018,
+  WINDOWPROTECT: 0x0019,
+  DATEMODE: 0x0022,
+  EXTERNNAME: 0x0023,
+  FILEPASS: 0x002f,
+  FONT: 0x0031,
+  CONTINUE: 0x003c,
+  WINDOW1: 0x003d,
+  PANE: 0x0041,
+  DEFCOLWIDTH: 0x0055,
+  COLINFO: 0x007d,
+  BOUNDSHEET8: 0x0085,
+  PALETTE: 0x0092,
+  OBJPROTECT: 0x0063,
+  SCL: 0x00a0,
+  MULRK: 0x00bd,
+  MULBLANK: 0x00be,
+  SCENPROTECT: 0x00dd,
+  RSTRING: 0x00d6,
+  XF: 0x00e0,
+  MERGEDCELLS: 0x00e5,
+  SST: 0x00fc,
+  LABELSST: 0x00fd,
+  SUPBOOK: 0x01ae,
+  DIMENSIONS: 0x0200,
+  BLANK: 0x0201,
+  NUMBER: 0x0203,
+  LABEL: 0x0204,
+  BOOLERR: 0x0205,
+  STRING: 0x0207,
+  ROW: 0x0208,
+  ARRAY: 0x0221,
+  DEFAULTROWHEIGHT: 0x0225,
+  WINDOW2: 0x023e,
+  RK: 0x027e,
+  FORMAT: 0x041e,
+  SHRFMLA: 0x04bc,
+  BOF: 0x0809,
+  FEATHEADR: 0x0867,
+} as const;
+
+/**
+ * 边框样式编码
+ */
+const BORDER_STYLES: BorderStyleType[] = [
+  'none', 'thin', 'medium', 'dashed', 'dotted', 'thick', 'double', 'hair',
+  'mediumDashed', 'dashDot', 'mediumDashDot', 'dashDotDot', 'mediumDashDotDot', 'slantDashDot',
+];
+
+/**
+ * 填充图案编码
+ */
+const PATTERN_TYPES: PatternType[] = [
+  'none', 'solid', 'mediumGray', 'darkGray', 'lightGray',
+  'darkHorizontal', 'darkVertical', 'darkDown', 'darkUp', 'darkGrid', 'darkTrellis',
+  'lightHorizontal', 'lightVertical', 'lightDown', 'lightUp', 'lightGrid', 'lightTrellis',
+  'gray125', 'gray0625',
+];
+
+/**
+ * 水平对齐编码
+ */
+const HORIZONTAL_ALIGNMENTS: HorizontalAlignment[] = [
+  'general', 'left', 'center', 'right', 'fill', 'justify', 'centerContinuous', 'distributed',
+];
+
+/**
+ * 垂直对齐编码
+ */
+const VERTICAL_ALIGNMENTS: VerticalAlignment[] = ['top', 'center', 'bottom', 'justify', 'distributed'];
+
+/**
+ * 内置名称 (xlsx 中带 _xlnm. 前缀)
+ */
+const BUILTIN_NAMES = [
+  'Consolidate_Area', 'Auto_Open', 'Auto_Close', 'Extract', 'Database', 'Criteria', 'Print_Area',
+  'Print_Titles', 'Recorder', 'Data_Form', 'Auto_Activate', 'Auto_Deactivate', 'Sheet_Title', '_FilterDatabase',
+];
+
+/**
+ * 工作表信息 (BOUNDSHEET8)
+ */
+interface BoundSheet {
+  name: string;
+  offset: number;
+  state: SheetState;
+  type: SheetType;
+}
+
+/**
+ * 外部工作表引用 (EXTERNSHEET 中的 XTI)
+ */
+interface ExternSheet {
+  supBook: number;
+  first: number;
+  last: number;
+}
+
+/**
+ * 外部工作簿 (SUPBOOK)
+ */
+interface SupBook {
+  /** 是否是当前工作簿 */
+  internal: boolean;
+  /** 外部名称 (EXTERNNAME)，用于加载项函数 */
+  names: string[];
+}
+
+/**
+ * 公式数据位置
+ */
+interface FormulaData {
+  /** 解析后表达式 (rgce) 的起始偏移 */
+  offset: number;
+  /** 表达式长度 */
+  cce: number;
+}
+
+/**
+ * 共享公式或数组公式 (SHRFMLA / ARRAY)
+ */
+interface FormulaBlock extends FormulaData {
+  type: 'shared' | 'array';
+  ref: string;
+  si: number;
+}
+
+/**
+ * 引用共享公式或数组公式的单元格 (PtgExp)
+ */
+interface PendingFormula {
+  cell: Cell;
+  row: number;
+  col: number;
+}
+
+/**
+ * 记录
+ */
+interface BiffRecord {
+  type: number;
+  offset: number;
+  length: number;
+}
+
+/**
+ * 跨 CONTINUE 记录的字符串读取器 (用于 SST)
+ */
+class ContinueReader {
+  private segment = 0;
+  private pos: number;
+
+  constructor(private data: Uint8Array, private view: DataView, private segments: BiffRecord[]) {
+    this.pos = segments[0].offset;
+  }
+
+  private get end(): number {
+    const seg = this.segments[this.segment];
+    return seg.offset + seg.length;
+  }
+
+  /** 当前段读完时切换到下一段 */
+  private ensure(): void {
+    while (this.pos >= this.end && this.segment < this.segments.length - 1) {
+      this.segment++;
+      this.pos = this.segments[this.segment].offset;
+    }
+  }
+
+  u8(): number {
+    this.ensure();
+    return this.data[this.pos++];
+  }
+
+  u16(): number {
+    this.ensure();
+    const value = this.view.getUint16(this.pos, true);
+    this.pos += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure();
+    const value = this.view.getUint32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  skip(length: number): void {
+    let remaining = length;
+    while (remaining > 0) {
+      this.ensure();
+      const step = Math.min(remaining, this.end - this.pos);
+      if (step <= 0) {
+        return;
+      }
+      this.pos += step;
+      remaining -= step;
+    }
+  }
+
+  /**
+   * 读取 XLUnicodeRichExtendedString
+   */
+  readString(): { text: string; runs: Array<{ ich: number; ifnt: number }> } {
+    const cch = this.u16();
+    const flags = this.u8();
+    let highByte = (flags & 0x01) !== 0;
+    const runCount = flags & 0x08 ? this.u16() : 0;
+    const extLength = flags & 0x04 ? this.u32() : 0;
+
+    let text = '';
+    while (text.length < cch) {
+      // 字符数据跨越 CONTINUE 时，新段首字节为新的压缩标志
+      if (this.pos >= this.end) {
+        if (this.segment >= this.segments.length - 1) {
+          break;
+        }
+        this.segment++;
+        this.pos = this.segments[this.segment].offset;
+        highByte = (this.data[this.pos++] & 0x01) !== 0;
+      }
+      if (highByte) {
+        text += String.fromCharCode(this.view.getUint16(this.pos, true));
+        this.pos += 2;
+      } else {
+        text += String.fromCharCode(this.data[this.pos++]);
+      }
+    }
+
+    const runs: Array<{ ich: number; ifnt: number }> = [];
+    for (let i = 0; i < runCount; i++) {
+      runs.push({ ich: this.u16(), ifnt: this.u16() });
+    }
+    this.skip(extLength);
+
+    return { text, runs };
+  }
+}
+
+/**
+ * xls 文件解析器
+ */
+export class XlsParser {
+  private options: ParseOptions;
+  private data: Uint8Array = new Uint8Array(0);
+  private view: DataView = new DataView(new ArrayBuffer(0));
+  private sharedStrings: Array<string | RichText> = [];
+  private fonts: FontStyle[] = [];
+  private numFmts: NumberFormat[] = [];
+  private fills: Fill[] = [];
+  private borders: Border[] = [];
+  private cellXfs: CellStyle[] = [];
+  private colors: Color[] = [];
+  private palette: string[] | null = null;
+  private date1904 = false;
+  private activeSheet = 0;
+  private workbookProtection: WorkbookProtection | undefined;
+  private boundSheets: BoundSheet[] = [];
+  private supBooks: SupBook[] = [];
+  private externSheets: ExternSheet[] = [];
+  private definedNames: DefinedName[] = [];
+  private nameList: string[] = [];
+  private decoder = new PtgDecoder({
+    getName: index => this.nameList[index - 1],
+    getExternName: (ixti, index) => {
+      const xti = this.externSheets[ixti];
+      return xti ? this.supBooks[xti.supBook]?.names[index - 1] : undefined;
+    },
+    getSheetPrefix: ixti => this.getSheetPrefix(ixti),
+  });
+
+  constructor(options: ParseOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 检测数据是否可能是 xls 文件 (复合文档容器)
+   */
+  static isXls(data: ArrayBuffer | Uint8Array): boolean {
+    return CfbReader.isCfb(data);
+  }
+
+  /**
+   * 解析 xls 文件
+   */
+  parse(data: ArrayBuffer | Uint8Array): Workbook {
+    this.reportProgress(5, '读取复合文档...');
+    const cfb = new CfbReader(data);
+    const stream = cfb.getStream('Workbook') ?? cfb.getStream('Book');
+    if (!stream) {
+      throw new Error('无效的 xls 文件：找不到 Workbook 流');
+    }
+
+    this.data = stream;
+    this.view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+
+    this.parseGlobals();
+    this.applyPalette();
+    this.reportProgress(30, '解析工作簿全局信息完成');
+
+    const sheets: Sheet[] = [];
+    let progress = 35;
+    const progressStep = 60 / Math.max(this.boundSheets.length, 1);
+    this.boundSheets.forEach((info, index) => {
+      this.reportProgress(progress, `解析工作表: ${info.name}`);
+      sheets.push(this.parseSheet(info, index));
+      progress += progressStep;
+    });
+
+    return {
+      sheets,
+      activeSheet: Math.min(this.activeSheet, Math.max(sheets.length - 1, 0)),
+      styles: {
+        numFmts: this.numFmts,
+        fonts: this.fonts,
+        fills: this.fills,
+        borders: this.borders,
+        // xls 中单元格 XF 与样式 XF 共用同一索引空间，cellXfs 按 XF 序号保存全部记录
+        cellXfs: this.cellXfs,
+        cellStyleXfs: [],
+        cellStyles: [],
+        dxfs: [],
+      },
+      definedNames: this.definedNames,
+      properties: {},
+      workbookProperties: {
+        date1904: this.date1904,
+      },
+      protection: this.workbookProtection,
+      sharedStrings: this.sharedStrings,
+    };
+  }
+
+  /**
+   * 报告进度
+   */
+  private reportProgress(progress: number, message: string): void {
+    if (this.options.onProgress) {
+      this.options.onProgress(progress, message);
+    }
+  }
+
+  /**
+   * 读取记录头
+   */
+  private readRecord(pos: number): BiffRecord | null {
+    if (pos + 4 > this.data.length) {
+      return null;
+    }
+    const length = this.view.getUint16(pos + 2, true);
+    return {
+      type: this.view.getUint16(pos, true),
+      offset: pos + 4,
+      length: Math.min(length, this.data.length - pos - 4),
+    };
+  }
+
+  /**
+   * 解析工作簿全局子流
+   */
+  private parseGlobals(): void {
+    const bof = this.readRecord(0);
+    if (!bof || bof.type !== RT.BOF) {
+      throw new Error('无效的 xls 文件：缺少 BOF 记录');
+    }
+    if (this.view.getUint16(bof.offset, true) !== 0x0600) {
+      throw new Error('不支持的 xls 版本：仅支持 Excel 97-2003 (BIFF8) 格式');
+    }
+
+    let pos = bof.offset + bof.length;
+    let record: BiffRecord | null;
+    while ((record = this.readRecord(pos)) !== null) {
+      pos = record.offset + record.length;
+      const { type, offset, length } = record;
+
+      switch (type) {
+        case RT.FILEPASS:
+          throw new Error('不支持加密的 xls 文件');
+
+        case RT.DATEMODE:
+          this.date1904 = this.view.getUint16(offset, true) === 1;
+          break;
+
+        case RT.WINDOW1:
+          this.activeSheet = this.view.getUint16(offset + 10, true);
+          break;
+
+        case RT.PROTECT:
+        case RT.WINDOWPROTECT:
+        case RT.PASSWORD:
+          this.parseWorkbookProtection(type, offset);
+          break;
+
+        case RT.BOUNDSHEET8:
+          this.boundSheets.push(this.parseBoundSheet(offset));
+          break;
+
+        case RT.FONT:
+          this.fonts.push(this.parseFont(offset));
+          break;
+
+        case RT.FORMAT:
+          this.numFmts.push({
+            id: this.view.getUint16(offset, true),
+            formatCode: this.readUnicodeString(offset + 2).text,
+          });
+          break;
+
+        case RT.XF:
+          this.cellXfs.push(this.parseXf(offset));
+          break;
+
+        case RT.PALETTE:
+          this.palette = [];
+          for (let i = 0, count = this.view.getUint16(offset, true); i < count; i++) {
+            const p = offset + 2 + i * 4;
+            this.palette.push(
+              [this.data[p], this.data[p + 1], this.data[p + 2]]
+                .map(v => v.toString(16).padStart(2, '0'))
+                .join('')
+                .toUpperCase(),
+            );
+          }
+          break;
+
+        case RT.SST: {
+          // SST 可能跨越多个 CONTINUE 记录
+          const segments: BiffRecord[] = [record];
+          let next: BiffRecord | null;
+          while ((next = this.readRecord(pos)) !== null && next.type === RT.CONTINUE) {
+            segments.push(next);
+            pos = next.offset + next.length;
+          }
+          this.parseSst(segments);
+          break;
+        }
+
+        case RT.SUPBOOK:
+          this.supBooks.push({
+            internal: length >= 4 && this.view.getUint16(offset + 2, true) === 0x0401,
+            names: [],
+          });
+          break;
+
+        case RT.EXTERNNAME:
+          if (this.supBooks.length > 0 && length > 7) {
+            this.supBooks[this.supBooks.length - 1].names.push(this.readShortString(offset + 6).text);
+          }
+          break;
+
+        case RT.EXTERNSHEET:
+          for (let i = 0, count = this.view.getUint16(offset, true); i < count; i++) {
+            const p = offset + 2 + i * 6;
+            this.externSheets.push({
+              supBook: this.view.getUint16(p, true),
+              first: this.view.getInt16(p + 2, true),
+              last: this.view.getInt16(p + 4, true),
+            });
+          }
+          break;
+
+        case RT.LBL:
+          this.parseName(offset);
+          break;
+
+        case RT.EOF:
+          return;
+      }
+    }
+  }
+
+  /**
+   * 解析工作表信息
+   */
+  private parseBoundSheet(offset: number): BoundSheet {
+    const states: SheetState[] = ['visible', 'hidden', 'veryHidden'];
+    const types: Record<number, SheetType> = { 0: 'worksheet', 1: 'macrosheet', 2: 'chartsheet' };
+    return {
+      offset: this.view.getUint32(offset, true),
+      state: states[this.data[offset + 4] & 0x03] ?? 'visible',
+      type: types[this.data[offset + 5]] ?? 'worksheet',
+      name: this.readShortString(offset + 6).text,
+    };
+  }
+
+  /**
+   * 解析字体
+   */
+  private parseFont(offset: number): FontStyle {
+    const flags = this.view.getUint16(offset + 2, true);
+    const icv = this.view.getUint16(offset + 4, true);
+    const weight = this.view.getUint16(offset + 6, true);
+    const script = this.view.getUint16(offset + 8, true);
+    const underline = this.data[offset + 10];
+    const underlines: Record<number, FontStyle['underline']> = {
+      0x01: 'single',
+      0x02: 'double',
+      0x21: 'singleAccounting',
+      0x22: 'doubleAccounting',
+    };
+
+    const font: FontStyle = {
+      name: this.readShortString(offset + 14).text,
+      size: this.view.getUint16(offset, true) / 20,
+      bold: weight >= 700,
+      italic: (flags & 0x02) !== 0,
+      strikethrough: (flags & 0x08) !== 0,
+      family: this.data[offset + 11],
+      charset: this.data[offset + 12],
+    };
+    if (underlines[underline]) {
+      font.underline = underlines[underline];
+    }
+    if (script === 1 || script === 2) {
+      font.vertAlign = script === 1 ? 'superscript' : 'subscript';
+    }
+    if (flags & 0x10) {
+      font.outline = true;
+    }
+    if (flags & 0x20) {
+      font.shadow = true;
+    }
+    // 0x7FFF 表示自动颜色
+    if (icv !== 0x7fff) {
+      font.color = this.createColor(icv);
+    }
+
+    return font;
+  }
+
+  /**
+   * 解析单元格格式 (XF)
+   */
+  private parseXf(offset: number): CellStyle {
+    const ifnt = this.view.getUint16(offset, true);
+    const ifmt = this.view.getUint16(offset + 2, true);
+    const flags = this.view.getUint16(offset + 4, true);
+    const align = this.data[offset + 6];
+    const rotation = this.data[offset + 7];
+    const indentFlags = this.data[offset + 8];
+    const border1 = this.view.getUint32(offset + 10, true);
+    const border2 = this.view.getUint32(offset + 14, true);
+    const fillColors = this.view.getUint16(offset + 18, true);
+
+    const style: CellStyle = {
+      numFmtId: ifmt,
+      numFmt: this.numFmts.find(f => f.id === ifmt)?.formatCode ?? FormatUtils.getBuiltinFormat(ifmt),
+      protection: {
+        locked: (flags & 0x01) !== 0,
+        hidden: (flags & 0x02) !== 0,
+      },
+    };
+
+    const font = this.getFont(ifnt);
+    if (font) {
+      style.font = { ...font };
+    }
+
+    // 对齐
+    const alignment: Alignment = {};
+    if (align & 0x07) {
+      alignment.horizontal = HORIZONTAL_ALIGNMENTS[align & 0x07];
+    }
+    alignment.vertical = VERTICAL_ALIGNMENTS[(align >> 4) & 0x07] ?? 'bottom';
+    if (align & 0x08) {
+      alignment.wrapText = true;
+    }
+    if (align & 0x80) {
+      alignment.justifyLastLine = true;
+    }
+    if (rotation) {
+      // 91-180 表示向下旋转 1-90 度，255 表示竖排
+      alignment.textRotation = rotation > 90 && rotation <= 180 ? 90 - rotation : rotation;
+    }
+    if (indentFlags & 0x0f) {
+      alignment.indent = indentFlags & 0x0f;
+    }
+    if (indentFlags & 0x10) {
+      alignment.shrinkToFit = true;
+    }
+    style.alignment = alignment;
+
+    // 边框
+    const border: Border = {};
+    const side = (dg: number, icv: number): BorderSide | undefined =>
+      dg > 0 ? { style: BORDER_STYLES[dg] ?? 'thin', color: this.createColor(icv) } : undefined;
+    border.left = side(border1 & 0x0f, (border1 >>> 16) & 0x7f);
+    border.right = side((border1 >>> 4) & 0x0f, (border1 >>> 23) & 0x7f);
+    border.top = side((border1 >>> 8) & 0x0f, border2 & 0x7f);
+    border.bottom = side((border1 >>> 12) & 0x0f, (border2 >>> 7) & 0x7f);
+    const diagonal = side((border2 >>> 21) & 0x0f, (border2 >>> 14) & 0x7f);
+    if (diagonal) {
+      border.diagonal = diagonal;
+      border.diagonalDown = ((border1 >>> 30) & 0x01) !== 0;
+      border.diagonalUp = ((border1 >>> 31) & 0x01) !== 0;
+    }
+    this.borders.push(border);
+    if ([border.left, border.right, border.top, border.bottom, border.diagonal].some(Boolean)) {
+      style.border = border;
+    }
+
+    // 填充
+    const pattern = (border2 >>> 26) & 0x3f;
+    if (pattern > 0) {
+      const fill: Fill = {
+        type: 'pattern',
+        pattern: PATTERN_TYPES[pattern] ?? 'solid',
+        fgColor: this.createColor(fillColors & 0x7f),
+        bgColor: this.createColor((fillColors >>> 7) & 0x7f),
+      };
+      this.fills.push(fill);
+      style.fill = fill;
+    }
+
+    return style;
+  }
+
+  /**
+   * 获取字体 (字体索引 4 不存在，之后的索引需减 1)
+   */
+  private getFont(ifnt: number): FontStyle | undefined {
+    return this.fonts[ifnt >= 4 ? ifnt - 1 : ifnt];
+  }
+
+  /**
+   * 创建索引颜色 (64 及以上为系统颜色，视为自动)
+   */
+  private createColor(icv: number): Color {
+    const color: Color = icv >= 64 ? { auto: true } : { indexed: icv };
+    this.colors.push(color);
+    return color;
+  }
+
+  /**
+   * 应用自定义调色板 (PALETTE 记录位于 XF 之后)
+   */
+  private applyPalette(): void {
+    if (!this.palette) {
+      return;
+    }
+    for (const color of this.colors) {
+      const rgb = color.indexed !== undefined ? this.palette[color.indexed - 8] : undefined;
+      if (rgb) {
+        color.rgb = rgb;
+        delete color.indexed;
+      }
+    }
+  }
+
+  /**
+   * 解析共享字符串表
+   */
+  private parseSst(segments: BiffRecord[]): void {
+    const reader = new ContinueReader(this.data, this.view, segments);
+    reader.u32(); // 总引用次数
+    const count = reader.u32();
+
+    for (let i = 0; i < count; i++) {
+      const { text, runs } = reader.readString();
+      this.sharedStrings.push(runs.length > 0 ? this.createRichText(text, runs) : text);
+    }
+  }
+
+  /**
+   * 根据格式运行创建富文本
+   */
+  private createRichText(text: string, runs: Array<{ ich: number; ifnt: number }>): RichText {
+    const result: RichTextRun[] = [];
+    if (runs[0].ich > 0) {
+      result.push({ text: text.substring(0, runs[0].ich) });
+    }
+    runs.forEach((run, i) => {
+      const end = i + 1 < runs.length ? runs[i + 1].ich : text.length;
+      if (end > run.ich) {
+        const font = this.getFont(run.ifnt);
+        result.push({ text: text.substring(run.ich, end), font: font ? { ...font } : undefined });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 解析定义名称
+   */
+  private parseName(offset: number): void {
+    const flags = this.view.getUint16(offset, true);
+    const cch = this.data[offset + 3];
+    const cce = this.view.getUint16(offset + 4, true);
+    const itab = this.view.getUint16(offset + 8, true);
+    const nameString = this.readCharacters(offset + 15, cch, (this.data[offset + 14] & 0x01) !== 0);
+
+    let name = nameString.text;
+    if (flags & 0x20) {
+      const builtin = BUILTIN_NAMES[name.charCodeAt(0)];
+      name = builtin ? `_xlnm.${builtin}` : name;
+    }
+    this.nameList.push(name);
+
+    const formulaOffset = offset + 15 + nameString.size;
+    const ref = this.decoder.decode(this.data, formulaOffset, cce, 0, 0);
+    this.definedNames.push({
+      name,
+      ref: ref ?? '',
+      scope: itab > 0 ? String(itab - 1) : undefined,
+      hidden: (flags & 0x01) !== 0,
+    });
+  }
+
+  /**
+   * 解析工作表子流
+   */
+  private parseSheet(info: BoundSheet, index: number): Sheet {
+    const sheet: Sheet = {
+      id: `sheet${index + 1}`,
+      name: info.name,
+      type: info.type,
+      state: info.state,
+      index,
+      rows: new Map(),
+      columns: new Map(),
+      cells: new Map(),
+      mergeCells: [],
+      dataValidations: [],
+      conditionalFormats: [],
+      sparklineGroups: [],
+      hyperlinks: new Map(),
+      comments: new Map(),
+      images: [],
+      charts: [],
+      tables: [],
+      pivotTables: [],
+      views: [],
+    };
+
+    const bof = this.readRecord(info.offset);
+    if (!bof || bof.type !== RT.BOF) {
+      return sheet;
+    }
+
+    const blocks = new Map<string, FormulaBlock>();
+    const pending: PendingFormula[] = [];
+    let stringCell: Cell | null = null;
+    let pane: FreezePane | undefined;
+    let frozen = false;
+    let protection: SheetProtection | undefined;
+    let depth = 0;
+    let pos = bof.offset + bof.length;
+    let record: BiffRecord | null;
+
+    while ((record = this.readRecord(pos)) !== null) {
+      pos = record.offset + record.length;
+      const { type, offset, length } = record;
+
+      // 跳过嵌入的子流 (如工作表中的图表)
+      if (type === RT.BOF) {
+        depth++;
+        continue;
+      }
+      if (type === RT.EOF) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+        continue;
+      }
+      if (depth > 0 || info.type === 'chartsheet') {
+        continue;
+      }
+
+      switch (type) {
+        case RT.DIMENSIONS: {
+          const firstRow = this.view.getUint32(offset, true);
+          const lastRow = this.view.getUint32(offset + 4, true) - 1;
+          const firstCol = this.view.getUint16(offset + 8, true);
+          const lastCol = this.view.getUint16(offset + 10, true) - 1;
+          if (lastRow >= firstRow && lastCol >= firstCol) {
+            sheet.dimension = {
+              start: { row: firstRow, col: firstCol },
+              end: { row: lastRow, col: lastCol },
+              ref: `${XmlUtils.formatCellAddress(firstRow, firstCol)}:${XmlUtils.formatCellAddress(lastRow, lastCol)}`,
+            };
+          }
+          break;
+        }
+
+        case RT.DEFAULTROWHEIGHT:
+          sheet.defaultRowHeight = this.view.getUint16(offset + 2, true) / 20;
+          break;
+
+        case RT.DEFCOLWIDTH:
+          // 与 xlsx 默认列宽 8.43 (8 个字符加边距) 对应
+          sheet.defaultColWidth = this.view.getUint16(offset, true) + 0.43;
+          break;
+
+        case RT.COLINFO:
+          this.parseColInfo(offset, sheet);
+          break;
+
+        case RT.ROW:
+          this.parseRow(offset, sheet);
+          break;
+
+        case RT.LABELSST: {
+          this.addCell(sheet, offset, this.sharedStrings[this.view.getUint32(offset + 6, true)] ?? '', 'string');
+          break;
+        }
+
+        case RT.LABEL:
+        case RT.RSTRING:
+          this.addCell(sheet, offset, this.readUnicodeString(offset + 6).text, 'string');
+          break;
+
+        case RT.NUMBER:
+          this.addCell(sheet, offset, this.view.getFloat64(offset + 6, true), 'number');
+          break;
+
+        case RT.RK:
+          this.addCell(sheet, offset, this.decodeRk(this.view.getUint32(offset + 6, true)), 'number');
+          break;
+
+        case RT.MULRK: {
+          const row = this.view.getUint16(offset, true);
+          const firstCol = this.view.getUint16(offset + 2, true);
+          const count = (length - 6) / 6;
+          for (let i = 0; i < count; i++) {
+            const p = offset + 4 + i * 6;
+            const value = this.decodeRk(this.view.getUint32(p + 2, true));
+            this.setCell(sheet, row, firstCol + i, this.view.getUint16(p, true), value, 'number');
+          }
+          break;
+        }
+
+        case RT.BOOLERR: {
+          const value = this.data[offset + 6];
+          if (this.data[offset + 7]) {
+            this.addCell(sheet, offset, PtgDecoder.getErrorText(value), 'error');
+          } else {
+            this.addCell(sheet, offset, value !== 0, 'boolean');
+          }
+          break;
+        }
+
+        case RT.BLANK:
+          this.addCell(sheet, offset, null, 'empty');
+          break;
+
+        case RT.MULBLANK: {
+          const row = this.view.getUint16(offset, true);
+          const firstCol = this.view.getUint16(offset + 2, true);
+          const count = (length - 6) / 2;
+          for (let i = 0; i < count; i++) {
+            this.setCell(sheet, row, firstCol + i, this.view.getUint16(offset + 4 + i * 2, true), null, 'empty');
+          }
+          break;
+        }
+
+        case RT.FORMULA:
+          stringCell = this.parseFormulaCell(offset, sheet, pending);
+          break;
+
+        case RT.STRING:
+          // 紧随公式记录之后，保存字符串类型的缓存结果
+          if (stringCell) {
+            const text = this.readUnicodeString(offset).text;
+            stringCell.value = text;
+            stringCell.text = text;
+            stringCell = null;
+          }
+          break;
+
+        case RT.SHRFMLA:
+        case RT.ARRAY: {
+          const firstRow = this.view.getUint16(offset, true);
+          const lastRow = this.view.getUint16(offset + 2, true);
+          const firstCol = this.data[offset + 4];
+          const lastCol = this.data[offset + 5];
+          const formulaOffset = type === RT.SHRFMLA ? offset + 8 : offset + 12;
+          blocks.set(`${firstRow}:${firstCol}`, {
+            type: type === RT.SHRFMLA ? 'shared' : 'array',
+            offset: formulaOffset + 2,
+            cce: this.view.getUint16(formulaOffset, true),
+            ref: firstRow === lastRow && firstCol === lastCol
+              ? XmlUtils.formatCellAddress(firstRow, firstCol)
+              : `${XmlUtils.formatCellAddress(firstRow, firstCol)}:${XmlUtils.formatCellAddress(lastRow, lastCol)}`,
+            si: blocks.size,
+          });
+          break;
+        }
+
+        case RT.MERGEDCELLS:
+          for (let i = 0, count = this.view.getUint16(offset, true); i < count; i++) {
+            const p = offset + 2 + i * 8;
+            const startRow = this.view.getUint16(p, true);
+            const endRow = this.view.getUint16(p + 2, true);
+            const startCol = this.view.getUint16(p + 4, true);
+            const endCol = this.view.getUint16(p + 6, true);
+            const start = XmlUtils.formatCellAddress(startRow, startCol);
+            const end = XmlUtils.formatCellAddress(endRow, endCol);
+            sheet.mergeCells.push({
+              ref: start === end ? start : `${start}:${end}`,
+              startRow,
+              startCol,
+              endRow,
+              endCol,
+            });
+          }
+          break;
+
+        case RT.WINDOW2:
+          frozen = (this.view.getUint16(offset, true) & 0x0008) !== 0;
+          sheet.views.push(this.parseWindow2(offset, length));
+          break;
+
+        case RT.SCL:
+          if (sheet.views.length > 0 && this.view.getUint16(offset + 2, true) > 0) {
+            const zoom = Math.round(this.view.getUint16(offset, true) / this.view.getUint16(offset + 2, true) * 100);
+            sheet.views[sheet.views.length - 1].zoomScale = zoom;
+          }
+          break;
+
+        case RT.PANE:
+          pane = this.parsePane(offset);
+          break;
+
+        case RT.PROTECT:
+        case RT.OBJPROTECT:
+        case RT.SCENPROTECT:
+        case RT.PASSWORD:
+        case RT.FEATHEADR:
+          protection = protection ?? { ...ProtectionUtils.createSheetProtection(), sheet: false };
+          this.parseSheetProtection(type, offset, length, protection);
+          break;
+      }
+    }
+
+    // PROTECT 记录决定是否启用保护，其余记录只提供选项
+    if (protection?.sheet) {
+      sheet.protection = protection;
+    }
+
+    // 只有 WINDOW2 标记为冻结时 PANE 才表示冻结窗格，否则为拆分窗格
+    if (pane && frozen && (pane.rows > 0 || pane.cols > 0)) {
+      sheet.freezePane = pane;
+    }
+
+    this.resolvePendingFormulas(pending, blocks);
+    this.applyMergeCells(sheet);
+
+    return sheet;
+  }
+
+  /**
+   * 解析工作簿保护记录 (PROTECT、WINDOWPROTECT、PASSWORD)
+   * @description 未保护的工作簿也会写入这些记录 (值为 0)，只在启用保护时创建保护设置
+   */
+  private parseWorkbookProtection(type: number, offset: number): void {
+    const value = this.view.getUint16(offset, true);
+    if (value === 0) {
+      return;
+    }
+    const protection = this.workbookProtection ?? (this.workbookProtection = {});
+    switch (type) {
+      case RT.PROTECT:
+        protection.lockStructure = true;
+        break;
+      case RT.WINDOWPROTECT:
+        protection.lockWindows = true;
+        break;
+      case RT.PASSWORD:
+        protection.password = value.toString(16).toUpperCase();
+        break;
+    }
+  }
+
+  /**
+   * 解析工作表保护记录 (PROTECT、OBJPROTECT、SCENPROTECT、PASSWORD、FEATHEADR)
+   * @description FEATHEADR 增强保护中的操作标志为 1 表示允许，与 OOXML 属性含义相反；
+   * 没有该记录时 (Excel 97 格式) 各操作保持默认值
+   */
+  private parseSheetProtection(type: number, offset: number, length: number, protection: SheetProtection): void {
+    const value = this.view.getUint16(offset, true);
+    switch (type) {
+      case RT.PROTECT:
+        protection.sheet = value !== 0;
+        break;
+      case RT.OBJPROTECT:
+        protection.objects = value !== 0;
+        break;
+      case RT.SCENPROTECT:
+        protection.scenarios = value !== 0;
+        break;
+      case RT.PASSWORD:
+        protection.password = value !== 0 ? value.toString(16).toUpperCase() : undefined;
+        break;
+      case RT.FEATHEADR:
+        // 跳过 FrtHeader (12 字节)，isf 为 2 (ISFPROTECTION) 时 rgbHdrData 为增强保护标志
+        if (length >= 23 && this.view.getUint16(offset + 12, true) === 2) {
+          const flags = this.view.getUint32(offset + 19, true);
+          SHEET_PROTECTION_FLAGS.forEach((flag, i) => {
+            protection[flag] = (flags & (1 << i)) === 0;
+          });
+        }
+        break;
+    }
+  }
+
+  /**
+   * 解析列信息
+   */
+  private parseColInfo(offset: number, sheet: Sheet): void {
+    const first = this.view.getUint16(offset, true);
+    const last = Math.min(this.view.getUint16(offset + 2, true), 255);
+    const width = this.view.getUint16(offset + 4, true) / 256;
+    const ixfe = this.view.getUint16(offset + 6, true);
+    const flags = this.view.getUint16(offset + 8, true);
+
+    for (let i = first; i <= last; i++) {
+      sheet.columns.set(i, {
+        index: i,
+        width,
+        pixelWidth: Math.round(width * 7 + 5), // Excel 近似转换
+        hidden: (flags & 0x01) !== 0,
+        styleIndex: ixfe,
+        customWidth: (flags & 0x02) !== 0,
+        bestFit: (flags & 0x04) !== 0,
+        outlineLevel: (flags >> 8) & 0x07,
+        collapsed: (flags & 0x1000) !== 0,
+      });
+    }
+  }
+
+  /**
+   * 解析行信息
+   */
+  private parseRow(offset: number, sheet: Sheet): void {
+    const index = this.view.getUint16(offset, true);
+    const height = this.view.getUint16(offset + 6, true) & 0x7fff;
+    const flags = this.view.getUint16(offset + 12, true);
+    const xf = this.view.getUint16(offset + 14, true) & 0x0fff;
+
+    const row: Row = {
+      index,
+      height: height / 20,
+      hidden: (flags & 0x20) !== 0,
+      styleIndex: flags & 0x80 ? xf : undefined,
+      customHeight: (flags & 0x40) !== 0,
+      outlineLevel: flags & 0x07,
+      collapsed: (flags & 0x10) !== 0,
+    };
+    sheet.rows.set(index, row);
+  }
+
+  /**
+   * 解析工作表窗口设置
+   */
+  private parseWindow2(offset: number, length: number): SheetView {
+    const flags = this.view.getUint16(offset, true);
+    const view: SheetView = {
+      showFormulas: (flags & 0x0001) !== 0,
+      showGridLines: (flags & 0x0002) !== 0,
+      showRowColHeaders: (flags & 0x0004) !== 0,
+      showZeros: (flags & 0x0010) !== 0,
+      defaultGridColor: (flags & 0x0020) !== 0,
+      rightToLeft: (flags & 0x0040) !== 0,
+      showOutlineSymbols: (flags & 0x0080) !== 0,
+      tabSelected: (flags & 0x0200) !== 0,
+      view: flags & 0x0800 ? 'pageBreakPreview' : 'normal',
+      zoomScale: 100,
+      workbookViewId: 0,
+    };
+    if (length >= 14) {
+      const zoomNormal = this.view.getUint16(offset + 12, true);
+      if (zoomNormal > 0) {
+        view.zoomScaleNormal = zoomNormal;
+      }
+    }
+    return view;
+  }
+
+  /**
+   * 解析窗格 (冻结行列数和右下窗格的左上角单元格)
+   */
+  private parsePane(offset: number): FreezePane {
+    const panes: Array<FreezePane['activePane']> = ['bottomRight', 'topRight', 'bottomLeft', 'topLeft'];
+    const topRow = this.view.getUint16(offset + 4, true);
+    const leftCol = this.view.getUint16(offset + 6, true);
+    return {
+      cols: this.view.getUint16(offset, true),
+      rows: this.view.getUint16(offset + 2, true),
+      topLeftCell: XmlUtils.formatCellAddress(topRow, leftCol),
+      activePane: panes[this.data[offset + 8]],
+      state: 'frozen',
+    };
+  }
+
+  /**
+   * 添加单元格 (记录开头为行、列和 XF 索引)
+   */
+  private addCell(sheet: Sheet, offset: number, value: Cell['value'], type: CellValueType): Cell {
+    return this.setCell(
+      sheet,
+      this.view.getUint16(offset, true),
+      this.view.getUint16(offset + 2, true),
+      this.view.getUint16(offset + 4, true),
+      value,
+      type,
+    );
+  }
+
+  /**
+   * 创建单元格并写入工作表
+   */
+  private setCell(
+    sheet: Sheet,
+    row: number,
+    col: number,
+    ixfe: number,
+    value: Cell['value'],
+    type: CellValueType,
+    formula?: CellFormula,
+  ): Cell {
+    const address = XmlUtils.formatCellAddress(row, col);
+    const style = this.cellXfs[ixfe];
+    let cellValue = value;
+    let cellType: CellValueType = type;
+    let text = '';
+
+    if (typeof value === 'number') {
+      text = String(value);
+      // 检查是否是日期 (需要根据样式判断)
+      if (style && FormatUtils.isDateFormat(style.numFmt ?? '')) {
+        cellValue = DateUtils.excelSerialToDate(value, this.date1904);
+        cellType = 'date';
+        text = cellValue.toLocaleDateString();
+      }
+    } else if (typeof value === 'boolean') {
+      text = value ? 'TRUE' : 'FALSE';
+    } else if (typeof value === 'string') {
+      text = value;
+    } else if (Array.isArray(value)) {
+      text = value.map(r => r.text).join('');
+    }
+
+    const cell: Cell = {
+      address,
+      row,
+      col,
+      value: cellValue,
+      type: formula && cellType !== 'error' ? 'formula' : cellType,
+      text,
+      formula,
+      styleIndex: ixfe,
+    };
+    if (type === 'error') {
+      cell.error = value as CellErrorType;
+    }
+
+    // 应用样式
+    if (style && this.options.parseStyles !== false) {
+      cell.style = style;
+    }
+
+    sheet.cells.set(address, cell);
+    return cell;
+  }
+
+  /**
+   * 解析公式单元格，返回需要等待 STRING 记录的单元格
+   */
+  private parseFormulaCell(offset: number, sheet: Sheet, pending: PendingFormula[]): Cell | null {
+    const row = this.view.getUint16(offset, true);
+    const col = this.view.getUint16(offset + 2, true);
+    const ixfe = this.view.getUint16(offset + 4, true);
+    const cce = this.view.getUint16(offset + 20, true);
+    const parseFormulas = this.options.parseFormulas !== false;
+
+    // 缓存结果：最后两个字节为 0xFFFF 时表示非数字结果
+    let value: Cell['value'] = null;
+    let type: CellValueType = 'empty';
+    let awaitsString = false;
+    if (this.view.getUint16(offset + 12, true) === 0xffff) {
+      const resultType = this.data[offset + 6];
+      if (resultType === 0) {
+        type = 'string';
+        value = '';
+        awaitsString = true;
+      } else if (resultType === 1) {
+        type = 'boolean';
+        value = this.data[offset + 8] !== 0;
+      } else if (resultType === 2) {
+        type = 'error';
+        value = PtgDecoder.getErrorText(this.data[offset + 8]);
+      } else if (resultType === 3) {
+        type = 'string';
+        value = '';
+      }
+    } else {
+      type = 'number';
+      value = this.view.getFloat64(offset + 6, true);
+    }
+
+    let formula: CellFormula | undefined;
+    const isExp = cce === 5 && this.data[offset + 22] === 0x01;
+    if (parseFormulas && !isExp) {
+      const text = this.decoder.decode(this.data, offset + 22, cce, row, col);
+      if (text !== null) {
+        formula = { text, type: 'normal' };
+      }
+    }
+
+    const cell = this.setCell(sheet, row, col, ixfe, value, type, formula);
+    if (parseFormulas && isExp) {
+      // 共享公式或数组公式，SHRFMLA/ARRAY 记录在主单元格之后，全部读取后再解析
+      pending.push({ cell, row: this.view.getUint16(offset + 23, true), col: this.view.getUint16(offset + 25, true) });
+    }
+
+    return awaitsString ? cell : null;
+  }
+
+  /**
+   * 解析引用共享公式或数组公式的单元格
+   */
+  private resolvePendingFormulas(pending: PendingFormula[], blocks: Map<string, FormulaBlock>): void {
+    for (const { cell, row, col } of pending) {
+      const block = blocks.get(`${row}:${col}`);
+      const isOrigin = cell.row === row && cell.col === col;
+      if (!block) {
+        continue;
+      }
+      // 数组公式只在主单元格上保存公式 (与 xlsx 一致)，区域内的单元格记录所在区域
+      if (block.type === 'array') {
+        cell.arrayRange = block.ref;
+        if (!isOrigin) {
+          continue;
+        }
+      }
+
+      const text = this.decoder.decode(this.data, block.offset, block.cce, cell.row, cell.col);
+      if (text === null) {
+        continue;
+      }
+      if (cell.type !== 'error') {
+        cell.type = 'formula';
+      }
+      cell.formula = {
+        text,
+        type: block.type,
+        ref: isOrigin ? block.ref : undefined,
+        si: block.type === 'shared' ? block.si : undefined,
+        range: block.type === 'array' ? block.ref : undefined,
+      };
+    }
+  }
+
+  /**
+   * 标记合并单元格
+   */
+  private applyMergeCells(sheet: Sheet): void {
+    sheet.mergeCells.forEach((mergeCell: MergeCell) => {
+      const range = {
+        start: { row: mergeCell.startRow, col: mergeCell.startCol },
+        end: { row: mergeCell.endRow, col: mergeCell.endCol },
+      };
+      for (let r = range.start.row; r <= range.end.row; r++) {
+        for (let c = range.start.col; c <= range.end.col; c++) {
+          const cell = sheet.cells.get(XmlUtils.formatCellAddress(r, c));
+          if (cell) {
+            cell.isMerged = true;
+            cell.merge = range;
+            if (r === range.start.row && c === range.start.col) {
+              cell.isMergeOrigin = true;
+            }
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * 获取三维引用的工作表前缀，外部工作簿引用返回 null
+   */
+  private getSheetPrefix(ixti: number): string | null {
+    const xti = this.externSheets[ixti];
+    if (!xti || !this.supBooks[xti.supBook]?.internal) {
+      return null;
+    }
+    const first = this.boundSheets[xti.first];
+    if (!first) {
+      return '#REF!';
+    }
+    return PtgDecoder.formatSheetPrefix(first.name, this.boundSheets[xti.last]?.name);
+  }
+
+  /**
+   * 解码 RK 数值
+   */
+  private decodeRk(rk: number): number {
+    let value: number;
+    if (rk & 0x02) {
+      // 30 位有符号整数
+      value = (rk | 0) >> 2;
+    } else {
+      // IEEE 754 浮点数的高 30 位
+      const buffer = new DataView(new ArrayBuffer(8));
+      buffer.setUint32(4, rk & 0xfffffffc, true);
+      value = buffer.getFloat64(0, true);
+    }
+    return rk & 0x01 ? value / 100 : value;
+  }
+
+  /**
+   * 读取 ShortXLUnicodeString (1 字节长度)
+   */
+  private readShortString(offset: number): { text: string; size: number } {
+    const cch = this.data[offset];
+    const result = this.readCharacters(offset + 2, cch, (this.data[offset + 1] & 0x01) !== 0);
+    return { text: result.text, size: result.size + 2 };
+  }
+
+  /**
+   * 读取 XLUnicodeString (2 字节长度，可带富文本和扩展数据)
+   */
+  private readUnicodeString(offset: number): { text: string; size: number } {
+    const cch = this.view.getUint16(offset, true);
+    const flags = this.data[offset + 2];
+    let pos = offset + 3;
+    const runCount = flags & 0x08 ? this.view.getUint16(pos, true) : 0;
+    pos += flags & 0x08 ? 2 : 0;
+    const extLength = flags & 0x04 ? this.view.getUint32(pos, true) : 0;
+    pos += flags & 0x04 ? 4 : 0;
+
+    const result = this.readCharacters(pos, cch, (flags & 0x01) !== 0);
+    pos += result.size + runCount * 4 + extLength;
+    return { text: result.text, size: pos - offset };
+  }
+
+  /**
+   * 读取字符数据 (压缩为单字节或 UTF-16LE)
+   */
+  private readCharacters(offset: number, cch: number, highByte: boolean): { text: string; size: number } {
+    let text = '';
+    const size = highByte ? cch * 2 : cch;
+    const end = Math.min(offset + size, this.data.length);
+    if (highByte) {
+      for (let p = offset; p + 1 < end; p += 2) {
+        text += String.fromCharCode(this.view.getUint16(p, true));
+      }
+    } else {
+      for (let p = offset; p < end; p++) {
+        text += String.fromCharCode(this.data[p]);
+      }
+    }
+    return { text, size };
+  }
+}
@@ -0,0 +1,1166 @@
+/**
+ * xlsb 记录流解析器
+ * @description 解析 BIFF12 二进制部件 (workbook.bin、sheetN.bin、sharedStrings.bin、styles.bin)，
+ * ZIP 容器、关系、主题和绘图等 XML 部件仍由 ExcelParser 处理
+ */
+import { XmlUtils } from './XmlUtils';
+import { PtgDecoder } from './PtgDecoder';
+import { FormatUtils } from '../utils/FormatUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { HyperlinkUtils } from '../utils/HyperlinkUtils';
+import { SHEET_PROTECTION_FLAGS } from '../utils/ProtectionUtils';
+import type { ParseOptions } from './ExcelParser';
+import type {
+  Sheet,
+  Cell,
+  CellStyle,
+  FontStyle,
+  Fill,
+  Border,
+  BorderSide,
+  Alignment,
+  Color,
+  CellFormula,
+  CellValueType,
+  CellErrorType,
+  RichText,
+  RichTextRun,
+  DefinedName,
+  NumberFormat,
+  Stylesheet,
+  SheetView,
+  SheetState,
+  SheetProtection,
+  WorkbookProtection,
+  Hyperlink,
+  PatternType,
+  BorderStyleType,
+  HorizontalAlignment,
+  VerticalAlignment,
+} from '../types';
+
+/**
+ * BIFF12 记录类型
+ */
+const BRT = {
+  ROW_HDR: 0,
+  CELL_BLANK: 1,
+  CELL_RK: 2,
+  CELL_ERROR: 3,
+  CELL_BOOL: 4,
+  CELL_REAL: 5,
+  CELL_ST: 6,
+  CELL_ISST: 7,
+  FMLA_STRING: 8,
+  FMLA_NUM: 9,
+  FMLA_BOOL: 10,
+  FMLA_ERROR: 11,
+  SHORT_BLANK: 12,
+  SHORT_ISST: 18,
+  SST_ITEM: 19,
+  NAME: 39,
+  FONT: 43,
+  FMT: 44,
+  FILL: 45,
+  BORDER: 46,
+  XF: 47,
+  STYLE: 48,
+  COL_INFO: 60,
+  CELL_RSTRING: 62,
+  BEGIN_WS_VIEW: 137,
+  WS_PROP: 147,
+  WS_DIM: 148,
+  PANE: 151,
+  WB_PROP: 153,
+  BUNDLE_SH: 156,
+  BOOK_VIEW: 158,
+  MERGE_CELL: 176,
+  SUP_BOOK_SRC: 355,
+  SUP_SELF: 357,
+  SUP_SAME: 358,
+  EXTERN_SHEET: 362,
+  ARR_FMLA: 426,
+  SHR_FMLA: 427,
+  WS_FMT_INFO: 485,
+  HLINK: 494,
+  BOOK_PROTECTION: 534,
+  SHEET_PROTECTION: 535,
+  BEGIN_CELL_XFS: 617,
+  END_CELL_XFS: 618,
+  SUP_ADDIN: 667,
+} as const;
+
+/**
+ * 边框样式编码
+ */
+const BORDER_STYLES: BorderStyleType[] = [
+  'none', 'thin', 'medium', 'dashed', 'dotted', 'thick', 'double', 'hair',
+  'mediumDashed', 'dashDot', 'mediumDashDot', 'dashDotDot', 'mediumDashDotDot', 'slantDashDot',
+];
+
+/**
+ * 填充图案编码 (0x28 为渐变填充)
+ */
+const PATTERN_TYPES: PatternType[] = [
+  'none', 'solid', 'mediumGray', 'darkGray', 'lightGray',
+  'darkHorizontal', 'darkVertical', 'darkDown', 'darkUp', 'darkGrid', 'darkTrellis',
+  'lightHorizontal', 'lightVertical', 'lightDown', 'lightUp', 'lightGrid', 'lightTrellis',
+  'gray125', 'gray0625',
+];
+
+/**
+ * 水平对齐编码
+ */
+const HORIZONTAL_ALIGNMENTS: HorizontalAlignment[] = [
+  'general', 'left', 'center', 'right', 'fill', 'justify', 'centerContinuous', 'distributed',
+];
+
+/**
+ * 垂直对齐编码
+ */
+const VERTICAL_ALIGNMENTS: VerticalAlignment[] = ['top', 'center', 'bottom', 'justify', 'distributed'];
+
+/**
+ * 工作簿信息
+ */
+export interface XlsbWorkbookInfo {
+  /** 工作表 (关系 ID 指向 sheetN.bin) */
+  sheets: Array<{ name: string; rId: string; state: SheetState }>;
+  /** 定义名称 */
+  definedNames: DefinedName[];
+  /** 是否使用 1904 日期系统 */
+  date1904: boolean;
+  /** 活动工作表索引 */
+  activeSheet: number;
+  /** 工作簿保护 */
+  protection?: WorkbookProtection;
+}
+
+/**
+ * 共享公式或数组公式 (BrtShrFmla / BrtArrFmla)
+ */
+interface FormulaBlock {
+  type: 'shared' | 'array';
+  firstRow: number;
+  lastRow: number;
+  firstCol: number;
+  lastCol: number;
+  offset: number;
+  cce: number;
+  si: number;
+}
+
+/**
+ * 引用共享公式或数组公式的单元格 (PtgExp)
+ */
+interface PendingFormula {
+  cell: Cell;
+  row: number;
+}
+
+/**
+ * xlsb 记录流解析器
+ */
+export class XlsbParser {
+  private options: ParseOptions;
+  private stylesheet: Stylesheet | null = null;
+  private sharedStrings: Array<string | RichText> = [];
+  private date1904 = false;
+  private sheetNames: string[] = [];
+  private supBooks: boolean[] = [];
+  private externSheets: Array<{ supBook: number; first: number; last: number }> = [];
+  private nameList: string[] = [];
+  private decoder = new PtgDecoder({
+    getName: index => this.nameList[index - 1],
+    getExternName: () => undefined,
+    getSheetPrefix: ixti => this.getSheetPrefix(ixti),
+  }, true);
+
+  constructor(options: ParseOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 遍历记录
+   * @description 记录类型和长度均为变长编码，每字节低 7 位有效，最高位表示后续还有字节
+   */
+  private forEachRecord(data: Uint8Array, callback: (type: number, offset: number, length: number) => void): void {
+    let pos = 0;
+    while (pos < data.length) {
+      let type = data[pos++];
+      if (type & 0x80) {
+        type = (type & 0x7f) | ((data[pos++] & 0x7f) << 7);
+      }
+
+      let length = 0;
+      for (let i = 0; i < 4 && pos < data.length; i++) {
+        const byte = data[pos++];
+        length |= (byte & 0x7f) << (7 * i);
+        if (!(byte & 0x80)) {
+          break;
+        }
+      }
+
+      const end = Math.min(pos + length, data.length);
+      callback(type, pos, end - pos);
+      pos = end;
+    }
+  }
+
+  /**
+   * 解析工作簿 (workbook.bin)
+   */
+  parseWorkbook(data: Uint8Array): XlsbWorkbookInfo {
+    const view = this.createView(data);
+    const info: XlsbWorkbookInfo = { sheets: [], definedNames: [], date1904: false, activeSheet: 0 };
+    const states: SheetState[] = ['visible', 'hidden', 'veryHidden'];
+
+    this.forEachRecord(data, (type, offset, length) => {
+      switch (type) {
+        case BRT.WB_PROP:
+          info.date1904 = (view.getUint32(offset, true) & 0x01) !== 0;
+          break;
+
+        case BRT.BOOK_PROTECTION: {
+          const password = view.getUint16(offset, true);
+          info.protection = {
+            password: password !== 0 ? password.toString(16).toUpperCase() : undefined,
+            lockStructure: view.getUint32(offset + 2, true) !== 0,
+            lockWindows: view.getUint32(offset + 6, true) !== 0,
+          };
+          break;
+        }
+
+        case BRT.BOOK_VIEW:
+          if (length >= 28) {
+            info.activeSheet = view.getUint32(offset + 24, true);
+          }
+          break;
+
+        case BRT.BUNDLE_SH: {
+          const relId = this.readWideString(data, view, offset + 8, true);
+          const name = this.readWideString(data, view, offset + 8 + relId.size);
+          info.sheets.push({
+            name: name.text,
+            rId: relId.text,
+            state: states[view.getUint32(offset, true)] ?? 'visible',
+          });
+          this.sheetNames.push(name.text);
+          break;
+        }
+
+        case BRT.SUP_SELF:
+        case BRT.SUP_SAME:
+          this.supBooks.push(true);
+          break;
+
+        case BRT.SUP_BOOK_SRC:
+        case BRT.SUP_ADDIN:
+          this.supBooks.push(false);
+          break;
+
+        case BRT.EXTERN_SHEET:
+          for (let i = 0, count = view.getUint32(offset, true); i < count; i++) {
+            const p = offset + 4 + i * 12;
+            this.externSheets.push({
+              supBook: view.getUint32(p, true),
+              first: view.getInt32(p + 4, true),
+              last: view.getInt32(p + 8, true),
+            });
+          }
+          break;
+
+        case BRT.NAME: {
+          const flags = view.getUint32(offset, true);
+          const itab = view.getUint32(offset + 5, true);
+          const name = this.readWideString(data, view, offset + 9);
+          const formulaOffset = offset + 9 + name.size;
+          const cce = view.getUint32(formulaOffset, true);
+          this.nameList.push(name.text);
+          info.definedNames.push({
+            name: name.text,
+            ref: this.decoder.decode(data, formulaOffset + 4, cce, 0, 0, formulaOffset + 8 + cce) ?? '',
+            scope: itab !== 0xffffffff ? String(itab) : undefined,
+            hidden: (flags & 0x01) !== 0,
+          });
+          break;
+        }
+      }
+    });
+
+    this.date1904 = info.date1904;
+    return info;
+  }
+
+  /**
+   * 解析样式表 (styles.bin)
+   */
+  parseStylesheet(data: Uint8Array): Stylesheet {
+    const view = this.createView(data);
+    const numFmts: NumberFormat[] = [];
+    const fonts: FontStyle[] = [];
+    const fills: Fill[] = [];
+    const borders: Border[] = [];
+    const xfRecords: Array<{ offset: number; cellXf: boolean }> = [];
+    const cellStyles: Stylesheet['cellStyles'] = [];
+    let inCellXfs = false;
+
+    this.forEachRecord(data, (type, offset) => {
+      switch (type) {
+        case BRT.FMT:
+          numFmts.push({
+            id: view.getUint16(offset, true),
+            formatCode: this.readWideString(data, view, offset + 2).text,
+          });
+          break;
+
+        case BRT.FONT:
+          fonts.push(this.parseFont(data, view, offset));
+          break;
+
+        case BRT.FILL:
+          fills.push(this.parseFill(view, offset));
+          break;
+
+        case BRT.BORDER:
+          borders.push(this.parseBorder(data, view, offset));
+          break;
+
+        case BRT.BEGIN_CELL_XFS:
+          inCellXfs = true;
+          break;
+
+        case BRT.END_CELL_XFS:
+          inCellXfs = false;
+          break;
+
+        case BRT.XF:
+          // 字体、填充等记录均位于 XF 之前，但仍在全部读取后再组装样式
+          xfRecords.push({ offset, cellXf: inCellXfs });
+          break;
+
+        case BRT.STYLE:
+          cellStyles.push({
+            name: this.readWideString(data, view, offset + 8).text,
+            xfId: view.getUint32(offset, true),
+            builtinId: data[offset + 6],
+          });
+          break;
+      }
+    });
+
+    const cellXfs: CellStyle[] = [];
+    const cellStyleXfs: CellStyle[] = [];
+    for (const { offset, cellXf } of xfRecords) {
+      const style = this.parseXf(view, offset, { numFmts, fonts, fills, borders });
+      (cellXf ? cellXfs : cellStyleXfs).push(style);
+    }
+
+    this.stylesheet = { numFmts, fonts, fills, borders, cellXfs, cellStyleXfs, cellStyles, dxfs: [] };
+    return this.stylesheet;
+  }
+
+  /**
+   * 解析共享字符串 (sharedStrings.bin)
+   */
+  parseSharedStrings(data: Uint8Array): Array<string | RichText> {
+    const view = this.createView(data);
+    const strings: Array<string | RichText> = [];
+
+    this.forEachRecord(data, (type, offset) => {
+      if (type === BRT.SST_ITEM) {
+        strings.push(this.readRichString(data, view, offset));
+      }
+    });
+
+    this.sharedStrings = strings;
+    return strings;
+  }
+
+  /**
+   * 解析工作表 (sheetN.bin)，结果写入传入的工作表
+   * @param rels 工作表关系，用于解析外部超链接目标
+   */
+  parseSheet(data: Uint8Array, sheet: Sheet, rels: Map<string, { target: string }>): void {
+    const view = this.createView(data);
+    const blocks: FormulaBlock[] = [];
+    const pending: PendingFormula[] = [];
+    let currentRow = 0;
+    let lastCol = -1;
+
+    this.forEachRecord(data, (type, offset, length) => {
+      switch (type) {
+        case BRT.WS_PROP: {
+          const tabColor = this.readColor(data, view, offset + 3);
+          if (!tabColor.auto) {
+            sheet.tabColor = tabColor;
+          }
+          break;
+        }
+
+        case BRT.WS_DIM: {
+          const start = { row: view.getUint32(offset, true), col: view.getUint32(offset + 8, true) };
+          const end = { row: view.getUint32(offset + 4, true), col: view.getUint32(offset + 12, true) };
+          sheet.dimension = {
+            start,
+            end,
+            ref: `${XmlUtils.formatCellAddress(start.row, start.col)}:${XmlUtils.formatCellAddress(end.row, end.col)}`,
+          };
+          break;
+        }
+
+        case BRT.WS_FMT_INFO: {
+          const dxGCol = view.getUint32(offset, true);
+          sheet.defaultColWidth = dxGCol !== 0xffffffff ? dxGCol / 256 : view.getUint16(offset + 4, true) + 0.43;
+          sheet.defaultRowHeight = view.getUint16(offset + 6, true) / 20;
+          break;
+        }
+
+        case BRT.BEGIN_WS_VIEW:
+          sheet.views.push(this.parseSheetView(view, offset));
+          break;
+
+        case BRT.PANE: {
+          const cols = Math.round(view.getFloat64(offset, true));
+          const rows = Math.round(view.getFloat64(offset + 8, true));
+          const panes = ['bottomRight', 'topRight', 'bottomLeft', 'topLeft'] as const;
+          // 只有冻结窗格有效，拆分窗格的值为坐标而非行列数
+          if (data[offset + 28] & 0x01 && (rows > 0 || cols > 0)) {
+            const topRow = view.getUint32(offset + 16, true);
+            const leftCol = view.getUint32(offset + 20, true);
+            sheet.freezePane = {
+              rows,
+              cols,
+              topLeftCell: XmlUtils.formatCellAddress(topRow, leftCol),
+              activePane: panes[view.getUint32(offset + 24, true)],
+              state: 'frozen',
+            };
+          }
+          break;
+        }
+
+        case BRT.COL_INFO: {
+          const first = view.getUint32(offset, true);
+          const last = Math.min(view.getUint32(offset + 4, true), 16383);
+          const width = view.getUint32(offset + 8, true) / 256;
+          const flags = view.getUint16(offset + 16, true);
+          for (let i = first; i <= last; i++) {
+            sheet.columns.set(i, {
+              index: i,
+              width,
+              pixelWidth: Math.round(width * 7 + 5), // Excel 近似转换
+              hidden: (flags & 0x01) !== 0,
+              styleIndex: view.getUint32(offset + 12, true),
+              customWidth: (flags & 0x02) !== 0,
+              bestFit: (flags & 0x04) !== 0,
+              outlineLevel: (flags >> 8) & 0x07,
+              collapsed: (flags & 0x1000) !== 0,
+            });
+          }
+          break;
+        }
+
+        case BRT.ROW_HDR: {
+          currentRow = view.getUint32(offset, true);
+          lastCol = -1;
+          const flags = view.getUint16(offset + 10, true);
+          sheet.rows.set(currentRow, {
+            index: currentRow,
+            height: view.getUint16(offset + 8, true) / 20,
+            hidden: (flags & 0x1000) !== 0,
+            styleIndex: flags & 0x4000 ? view.getUint32(offset + 4, true) : undefined,
+            customHeight: (flags & 0x2000) !== 0,
+            outlineLevel: (flags >> 8) & 0x07,
+            collapsed: (flags & 0x0800) !== 0,
+          });
+          break;
+        }
+
+        case BRT.CELL_BLANK:
+        case BRT.CELL_RK:
+        case BRT.CELL_ERROR:
+        case BRT.CELL_BOOL:
+        case BRT.CELL_REAL:
+        case BRT.CELL_ST:
+        case BRT.CELL_ISST:
+        case BRT.CELL_RSTRING:
+          lastCol = view.getUint32(offset, true);
+          this.parseValueCell(data, view, type, offset + 8, currentRow, lastCol, sheet);
+          break;
+
+        case BRT.FMLA_NUM:
+        case BRT.FMLA_STRING:
+        case BRT.FMLA_BOOL:
+        case BRT.FMLA_ERROR:
+          lastCol = view.getUint32(offset, true);
+          this.parseFormulaCell(data, view, type, offset, currentRow, sheet, pending);
+          break;
+
+        case BRT.SHR_FMLA:
+        case BRT.ARR_FMLA: {
+          // 共享公式的表达式紧随区域之后，数组公式多 1 字节标志
+          const formulaOffset = offset + (type === BRT.SHR_FMLA ? 16 : 17);
+          blocks.push({
+            type: type === BRT.SHR_FMLA ? 'shared' : 'array',
+            firstRow: view.getUint32(offset, true),
+            lastRow: view.getUint32(offset + 4, true),
+            firstCol: view.getUint32(offset + 8, true),
+            lastCol: view.getUint32(offset + 12, true),
+            offset: formulaOffset + 4,
+            cce: view.getUint32(formulaOffset, true),
+            si: blocks.length,
+          });
+          break;
+        }
+
+        case BRT.MERGE_CELL: {
+          const startRow = view.getUint32(offset, true);
+          const endRow = view.getUint32(offset + 4, true);
+          const startCol = view.getUint32(offset + 8, true);
+          const endCol = view.getUint32(offset + 12, true);
+          const start = XmlUtils.formatCellAddress(startRow, startCol);
+          const end = XmlUtils.formatCellAddress(endRow, endCol);
+          sheet.mergeCells.push({ ref: `${start}:${end}`, startRow, startCol, endRow, endCol });
+          break;
+        }
+
+        case BRT.SHEET_PROTECTION:
+          sheet.protection = this.parseSheetProtection(view, offset);
+          break;
+
+        case BRT.HLINK:
+          if (length > 16) {
+            this.parseHyperlink(data, view, offset, sheet, rels);
+          }
+          break;
+
+        default:
+          // 短格式单元格省略列号，列号为同一行上一个单元格加一
+          if (type >= BRT.SHORT_BLANK && type <= BRT.SHORT_ISST) {
+            lastCol++;
+            this.parseValueCell(data, view, type - 11, offset + 4, currentRow, lastCol, sheet);
+          }
+          break;
+      }
+    });
+
+    this.resolvePendingFormulas(data, pending, blocks);
+    this.applyMergeCells(sheet);
+    this.applyHyperlinks(sheet);
+  }
+
+  /**
+   * 解析工作表保护 (BrtSheetProtection)
+   * @description 记录中的操作标志为 1 表示允许，与 OOXML 属性含义相反
+   */
+  private parseSheetProtection(view: DataView, offset: number): SheetProtection {
+    const password = view.getUint16(offset, true);
+    const protection: SheetProtection = {
+      password: password !== 0 ? password.toString(16).toUpperCase() : undefined,
+      sheet: view.getUint32(offset + 2, true) !== 0,
+    };
+    SHEET_PROTECTION_FLAGS.forEach((flag, i) => {
+      protection[flag] = view.getUint32(offset + 6 + i * 4, true) === 0;
+    });
+    return protection;
+  }
+
+  /**
+   * 创建数据视图
+   */
+  private createView(data: Uint8Array): DataView {
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /**
+   * 读取 XLWideString (4 字节长度加 UTF-16 字符)
+   * @param nullable 是否是 XLNullableWideString (长度 0xFFFFFFFF 表示空)
+   */
+  private readWideString(
+    data: Uint8Array,
+    view: DataView,
+    offset: number,
+    nullable = false,
+  ): { text: string; size: number } {
+    const cch = view.getUint32(offset, true);
+    if (nullable && cch === 0xffffffff) {
+      return { text: '', size: 4 };
+    }
+
+    let text = '';
+    const end = Math.min(offset + 4 + cch * 2, data.length);
+    for (let p = offset + 4; p + 1 < end; p += 2) {
+      text += String.fromCharCode(view.getUint16(p, true));
+    }
+    return { text, size: 4 + cch * 2 };
+  }
+
+  /**
+   * 读取 RichStr (共享字符串项和富文本单元格)
+   */
+  private readRichString(data: Uint8Array, view: DataView, offset: number): string | RichText {
+    const flags = data[offset];
+    const str = this.readWideString(data, view, offset + 1);
+    if (!(flags & 0x01)) {
+      return str.text;
+    }
+
+    const runsOffset = offset + 1 + str.size;
+    const count = view.getUint32(runsOffset, true);
+    const runs: Array<{ ich: number; ifnt: number }> = [];
+    for (let i = 0; i < count; i++) {
+      runs.push({
+        ich: view.getUint16(runsOffset + 4 + i * 4, true),
+        ifnt: view.getUint16(runsOffset + 6 + i * 4, true),
+      });
+    }
+    if (runs.length === 0) {
+      return str.text;
+    }
+
+    const result: RichTextRun[] = [];
+    if (runs[0].ich > 0) {
+      result.push({ text: str.text.substring(0, runs[0].ich) });
+    }
+    runs.forEach((run, i) => {
+      const end = i + 1 < runs.length ? runs[i + 1].ich : str.text.length;
+      if (end > run.ich) {
+        const font = this.stylesheet?.fonts[run.ifnt];
+        result.push({ text: str.text.substring(run.ich, end), font: font ? { ...font } : undefined });
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 读取颜色 (BrtColor，8 字节)
+   */
+  private readColor(data: Uint8Array, view: DataView, offset: number): Color {
+    const colorType = data[offset] >> 1;
+    const index = data[offset + 1];
+    const tint = view.getInt16(offset + 2, true) / 32767;
+    const color: Color = {};
+
+    switch (colorType) {
+      case 1:
+        color.indexed = index;
+        break;
+      case 2:
+        color.rgb = [data[offset + 4], data[offset + 5], data[offset + 6]]
+          .map(v => v.toString(16).padStart(2, '0'))
+          .join('')
+          .toUpperCase();
+        break;
+      case 3:
+        color.theme = index;
+        break;
+      default:
+        color.auto = true;
+        break;
+    }
+    if (tint !== 0 && !color.auto) {
+      color.tint = tint;
+    }
+
+    return color;
+  }
+
+  /**
+   * 解析字体
+   */
+  private parseFont(data: Uint8Array, view: DataView, offset: number): FontStyle {
+    const flags = view.getUint16(offset + 2, true);
+    const script = view.getUint16(offset + 6, true);
+    const underlines: Record<number, FontStyle['underline']> = {
+      0x01: 'single',
+      0x02: 'double',
+      0x21: 'singleAccounting',
+      0x22: 'doubleAccounting',
+    };
+    const schemes: Array<FontStyle['scheme']> = ['none', 'major', 'minor'];
+
+    const font: FontStyle = {
+      name: this.readWideString(data, view, offset + 21).text,
+      size: view.getUint16(offset, true) / 20,
+    };
+    if (view.getUint16(offset + 4, true) >= 700) {
+      font.bold = true;
+    }
+    if (flags & 0x02) {
+      font.italic = true;
+    }
+    if (flags & 0x08) {
+      font.strikethrough = true;
+    }
+    if (flags & 0x10) {
+      font.outline = true;
+    }
+    if (flags & 0x20) {
+      font.shadow = true;
+    }
+    if (underlines[data[offset + 8]]) {
+      font.underline = underlines[data[offset + 8]];
+    }
+    if (script === 1 || script === 2) {
+      font.vertAlign = script === 1 ? 'superscript' : 'subscript';
+    }
+    font.family = data[offset + 9];
+    font.charset = data[offset + 10];
+    font.scheme = schemes[data[offset + 20]] ?? 'none';
+
+    const color = this.readColor(data, view, offset + 12);
+    if (!color.auto) {
+      font.color = color;
+    }
+
+    return font;
+  }
+
+  /**
+   * 解析填充
+   */
+  private parseFill(view: DataView, offset: number): Fill {
+    const data = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    const pattern = view.getUint32(offset, true);
+
+    if (pattern === 0x28) {
+      const stops: NonNullable<Fill['stops']> = [];
+      for (let i = 0, count = view.getUint32(offset + 64, true); i < count; i++) {
+        const p = offset + 68 + i * 16;
+        stops.push({ color: this.readColor(data, view, p), position: view.getFloat64(p + 8, true) });
+      }
+      return {
+        type: 'gradient',
+        gradientType: view.getUint32(offset + 20, true) === 1 ? 'path' : 'linear',
+        degree: view.getFloat64(offset + 24, true),
+        stops,
+      };
+    }
+
+    return {
+      type: 'pattern',
+      pattern: PATTERN_TYPES[pattern] ?? 'none',
+      fgColor: this.readColor(data, view, offset + 4),
+      bgColor: this.readColor(data, view, offset + 12),
+    };
+  }
+
+  /**
+   * 解析边框
+   */
+  private parseBorder(data: Uint8Array, view: DataView, offset: number): Border {
+    const side = (p: number): BorderSide | undefined => {
+      const style = data[p];
+      return style > 0 ? { style: BORDER_STYLES[style] ?? 'thin', color: this.readColor(data, view, p + 2) } : undefined;
+    };
+
+    const border: Border = {
+      top: side(offset + 1),
+      bottom: side(offset + 11),
+      left: side(offset + 21),
+      right: side(offset + 31),
+      diagonal: side(offset + 41),
+    };
+    if (data[offset] & 0x01) {
+      border.diagonalDown = true;
+    }
+    if (data[offset] & 0x02) {
+      border.diagonalUp = true;
+    }
+
+    return border;
+  }
+
+  /**
+   * 解析单元格格式 (XF)
+   */
+  private parseXf(
+    view: DataView,
+    offset: number,
+    styles: Pick<Stylesheet, 'numFmts' | 'fonts' | 'fills' | 'borders'>,
+  ): CellStyle {
+    const numFmtId = view.getUint16(offset + 2, true);
+    const fontId = view.getUint16(offset + 4, true);
+    const fillId = view.getUint16(offset + 6, true);
+    const borderId = view.getUint16(offset + 8, true);
+    const rotation = view.getUint8(offset + 10);
+    const indent = view.getUint8(offset + 11);
+    const flags = view.getUint16(offset + 12, true);
+
+    const style: CellStyle = {
+      numFmtId,
+      numFmt: styles.numFmts.find(f => f.id === numFmtId)?.formatCode ?? FormatUtils.getBuiltinFormat(numFmtId),
+    };
+    if (styles.fonts[fontId]) {
+      style.font = { ...styles.fonts[fontId] };
+    }
+    if (styles.fills[fillId]) {
+      style.fill = { ...styles.fills[fillId] };
+    }
+    if (styles.borders[borderId]) {
+      style.border = { ...styles.borders[borderId] };
+    }
+
+    const alignment: Alignment = {
+      wrapText: (flags & 0x40) !== 0,
+      shrinkToFit: (flags & 0x100) !== 0,
+    };
+    if (flags & 0x07) {
+      alignment.horizontal = HORIZONTAL_ALIGNMENTS[flags & 0x07];
+    }
+    alignment.vertical = VERTICAL_ALIGNMENTS[(flags >> 3) & 0x07] ?? 'bottom';
+    if (rotation) {
+      alignment.textRotation = rotation;
+    }
+    if (indent) {
+      alignment.indent = indent;
+    }
+    style.alignment = alignment;
+
+    style.protection = {
+      locked: (flags & 0x1000) !== 0,
+      hidden: (flags & 0x2000) !== 0,
+    };
+    if (flags & 0x8000) {
+      style.quotePrefix = true;
+    }
+
+    return style;
+  }
+
+  /**
+   * 解析工作表视图
+   */
+  private parseSheetView(view: DataView, offset: number): SheetView {
+    const flags = view.getUint16(offset, true);
+    const views: Array<SheetView['view']> = ['normal', 'pageBreakPreview', 'pageLayout'];
+    const zoom = view.getUint16(offset + 16, true);
+
+    return {
+      showFormulas: (flags & 0x0002) !== 0,
+      showGridLines: (flags & 0x0004) !== 0,
+      showRowColHeaders: (flags & 0x0008) !== 0,
+      showZeros: (flags & 0x0010) !== 0,
+      rightToLeft: (flags & 0x0020) !== 0,
+      tabSelected: (flags & 0x0040) !== 0,
+      showOutlineSymbols: (flags & 0x0100) !== 0,
+      defaultGridColor: (flags & 0x0200) !== 0,
+      view: views[view.getUint32(offset + 2, true)] ?? 'normal',
+      zoomScale: zoom || 100,
+      zoomScaleNormal: view.getUint16(offset + 18, true) || 100,
+      zoomScalePageLayoutView: view.getUint16(offset + 22, true) || 100,
+      workbookViewId: view.getUint32(offset + 24, true),
+    };
+  }
+
+  /**
+   * 解析值单元格
+   * @param type 单元格记录类型 (短格式已换算为对应的完整格式)
+   * @param offset 单元格值的偏移，样式索引位于其前 4 字节
+   */
+  private parseValueCell(
+    data: Uint8Array,
+    view: DataView,
+    type: number,
+    offset: number,
+    row: number,
+    col: number,
+    sheet: Sheet,
+  ): void {
+    const styleIndex = view.getUint32(offset - 4, true) & 0xffffff;
+
+    switch (type) {
+      case BRT.CELL_RK:
+        this.addCell(sheet, row, col, styleIndex, this.decodeRk(view.getUint32(offset, true)), 'number');
+        break;
+      case BRT.CELL_REAL:
+        this.addCell(sheet, row, col, styleIndex, view.getFloat64(offset, true), 'number');
+        break;
+      case BRT.CELL_ERROR:
+        this.addCell(sheet, row, col, styleIndex, PtgDecoder.getErrorText(data[offset]), 'error');
+        break;
+      case BRT.CELL_BOOL:
+        this.addCell(sheet, row, col, styleIndex, data[offset] !== 0, 'boolean');
+        break;
+      case BRT.CELL_ST:
+        this.addCell(sheet, row, col, styleIndex, this.readWideString(data, view, offset).text, 'string');
+        break;
+      case BRT.CELL_ISST:
+        this.addCell(sheet, row, col, styleIndex, this.sharedStrings[view.getUint32(offset, true)] ?? '', 'string');
+        break;
+      case BRT.CELL_RSTRING:
+        this.addCell(sheet, row, col, styleIndex, this.readRichString(data, view, offset), 'string');
+        break;
+      default:
+        this.addCell(sheet, row, col, styleIndex, null, 'empty');
+        break;
+    }
+  }
+
+  /**
+   * 添加单元格
+   */
+  private addCell(
+    sheet: Sheet,
+    row: number,
+    col: number,
+    styleIndex: number,
+    value: Cell['value'],
+    type: CellValueType,
+    formula?: CellFormula,
+  ): Cell {
+    const address = XmlUtils.formatCellAddress(row, col);
+    const style = this.stylesheet?.cellXfs[styleIndex];
+    let cellValue = value;
+    let cellType: CellValueType = type;
+    let text = '';
+
+    if (typeof value === 'number') {
+      text = String(value);
+      // 检查是否是日期 (需要根据样式判断)
+      if (style && FormatUtils.isDateFormat(style.numFmt ?? '')) {
+        cellValue = DateUtils.excelSerialToDate(value, this.date1904);
+        cellType = 'date';
+        text = cellValue.toLocaleDateString();
+      }
+    } else if (typeof value === 'boolean') {
+      text = value ? 'TRUE' : 'FALSE';
+    } else if (typeof value === 'string') {
+      text = value;
+    } else if (Array.isArray(value)) {
+      text = value.map(r => r.text).join('');
+    }
+
+    const cell: Cell = {
+      address,
+      row,
+      col,
+      value: cellValue,
+      type: formula && cellType !== 'error' ? 'formula' : cellType,
+      text,
+      formula,
+      styleIndex,
+    };
+    if (type === 'error') {
+      cell.error = value as CellErrorType;
+    }
+
+    // 应用样式
+    if (style) {
+      cell.style = style;
+    }
+
+    sheet.cells.set(address, cell);
+    return cell;
+  }
+
+  /**
+   * 解析公式单元格 (缓存结果之后为 2 字节标志和公式表达式)
+   */
+  private parseFormulaCell(
+    data: Uint8Array,
+    view: DataView,
+    type: number,
+    offset: number,
+    row: number,
+    sheet: Sheet,
+    pending: PendingFormula[],
+  ): void {
+    let value: Cell['value'];
+    let valueType: CellValueType;
+    let formulaOffset: number;
+
+    switch (type) {
+      case BRT.FMLA_NUM:
+        value = view.getFloat64(offset + 8, true);
+        valueType = 'number';
+        formulaOffset = offset + 18;
+        break;
+      case BRT.FMLA_STRING: {
+        const str = this.readWideString(data, view, offset + 8);
+        value = str.text;
+        valueType = 'string';
+        formulaOffset = offset + 8 + str.size + 2;
+        break;
+      }
+      case BRT.FMLA_BOOL:
+        value = data[offset + 8] !== 0;
+        valueType = 'boolean';
+        formulaOffset = offset + 11;
+        break;
+      default:
+        value = PtgDecoder.getErrorText(data[offset + 8]);
+        valueType = 'error';
+        formulaOffset = offset + 11;
+        break;
+    }
+
+    const cce = view.getUint32(formulaOffset, true);
+    const rgce = formulaOffset + 4;
+    const col = view.getUint32(offset, true);
+    const parseFormulas = this.options.parseFormulas !== false;
+    // PtgExp 表示引用共享公式或数组公式，只记录主单元格所在行
+    const isExp = cce === 5 && data[rgce] === 0x01;
+
+    let formula: CellFormula | undefined;
+    if (parseFormulas && !isExp) {
+      const text = this.decoder.decode(data, rgce, cce, row, col, rgce + cce + 4);
+      if (text !== null) {
+        formula = { text, type: 'normal' };
+      }
+    }
+
+    const styleIndex = view.getUint32(offset + 4, true) & 0xffffff;
+    const cell = this.addCell(sheet, row, col, styleIndex, value, valueType, formula);
+    if (parseFormulas && isExp) {
+      pending.push({ cell, row: view.getUint32(rgce + 1, true) });
+    }
+  }
+
+  /**
+   * 解析引用共享公式或数组公式的单元格
+   */
+  private resolvePendingFormulas(data: Uint8Array, pending: PendingFormula[], blocks: FormulaBlock[]): void {
+    for (const { cell, row } of pending) {
+      const block = blocks.find(b => b.firstRow === row && cell.row <= b.lastRow &&
+        cell.col >= b.firstCol && cell.col <= b.lastCol);
+      if (!block) {
+        continue;
+      }
+      const isOrigin = cell.row === block.firstRow && cell.col === block.firstCol;
+      const start = XmlUtils.formatCellAddress(block.firstRow, block.firstCol);
+      const end = XmlUtils.formatCellAddress(block.lastRow, block.lastCol);
+      const range = start === end ? start : `${start}:${end}`;
+      // 数组公式只在主单元格上保存公式 (与 xlsx 一致)，区域内的单元格记录所在区域
+      if (block.type === 'array') {
+        cell.arrayRange = range;
+        if (!isOrigin) {
+          continue;
+        }
+      }
+
+      const text = this.decoder.decode(data, block.offset, block.cce, cell.row, cell.col, block.offset + block.cce + 4);
+      if (text === null) {
+        continue;
+      }
+      if (cell.type !== 'error') {
+        cell.type = 'formula';
+      }
+      cell.formula = {
+        text,
+        type: block.type,
+        ref: isOrigin ? range : undefined,
+        si: block.type === 'shared' ? block.si : undefined,
+        range: block.type === 'array' ? range : undefined,
+      };
+    }
+  }
+
+  /**
+   * 解析超链接 (外部目标保存在工作表关系中)
+   */
+  private parseHyperlink(
+    data: Uint8Array,
+    view: DataView,
+    offset: number,
+    sheet: Sheet,
+    rels: Map<string, { target: string }>,
+  ): void {
+    const firstRow = view.getUint32(offset, true);
+    const lastRow = view.getUint32(offset + 4, true);
+    const firstCol = view.getUint32(offset + 8, true);
+    const lastCol = view.getUint32(offset + 12, true);
+    const relId = this.readWideString(data, view, offset + 16, true);
+    const location = this.readWideString(data, view, offset + 16 + relId.size);
+    const tooltip = this.readWideString(data, view, offset + 16 + relId.size + location.size);
+    const display = this.readWideString(data, view, offset + 16 + relId.size + location.size + tooltip.size);
+
+    const rel = relId.text ? rels.get(relId.text) : undefined;
+    const target = rel?.target ?? location.text;
+    const hyperlink: Hyperlink = {
+      target,
+      type: rel ? HyperlinkUtils.classify(target) : 'internal',
+      tooltip: tooltip.text || undefined,
+      display: display.text || undefined,
+      location: location.text || undefined,
+    };
+
+    for (let r = firstRow; r <= lastRow; r++) {
+      for (let c = firstCol; c <= lastCol; c++) {
+        const address = XmlUtils.formatCellAddress(r, c);
+        // 区域链接作用于区域内已有单元格和左上角单元格
+        if (sheet.cells.has(address) || (r === firstRow && c === firstCol)) {
+          sheet.hyperlinks.set(address, hyperlink);
+        }
+      }
+    }
+  }
+
+  /**
+   * 将超链接关联到单元格
+   */
+  private applyHyperlinks(sheet: Sheet): void {
+    sheet.hyperlinks.forEach((hyperlink, address) => {
+      const cell = sheet.cells.get(address);
+      if (cell) {
+        cell.hyperlink = hyperlink;
+      }
+    });
+  }
+
+  /**
+   * 标记合并单元格
+   */
+  private applyMergeCells(sheet: Sheet): void {
+    for (const mergeCell of sheet.mergeCells) {
+      const range = {
+        start: { row: mergeCell.startRow, col: mergeCell.startCol },
+        end: { row: mergeCell.endRow, col: mergeCell.endCol },
+      };
+      for (let r = range.start.row; r <= range.end.row; r++) {
+        for (let c = range.start.col; c <= range.end.col; c++) {
+          const cell = sheet.cells.get(XmlUtils.formatCellAddress(r, c));
+          if (cell) {
+            cell.isMerged = true;
+            cell.merge = range;
+            if (r === range.start.row && c === range.start.col) {
+              cell.isMergeOrigin = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 获取三维引用的工作表前缀，外部工作簿引用返回 null
+   */
+  private getSheetPrefix(ixti: number): string | null {
+    const xti = this.externSheets[ixti];
+    if (!xti || !this.supBooks[xti.supBook]) {
+      return null;
+    }
+    const first = this.sheetNames[xti.first];
+    if (first === undefined) {
+      return '#REF!';
+    }
+    return PtgDecoder.formatSheetPrefix(first, this.sheetNames[xti.last]);
+  }
+
+  /**
+   * 解码 RK 数值
+   */
+  private decodeRk(rk: number): number {
+    let value: number;
+    if (rk & 0x02) {
+      // 30 位有符号整数
+      value = (rk | 0) >> 2;
+    } else {
+      // IEEE 754 浮点数的高 30 位
+      const buffer = new DataView(new ArrayBuffer(8));
+      buffer.setUint32(4, rk & 0xfffffffc, true);
+      value = buffer.getFloat64(0, true);
+    }
+    return rk & 0x01 ? value / 100 : value;
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * XML 解析后端
+ * @description 浏览器中使用 DOMParser；Node.js、Serverless 等没有 DOM 的环境使用内置的轻量实现，
+ * 该实现基于 XmlSaxReader 构建只读的元素树，提供 XmlUtils 和各解析器用到的 DOM 子集
+ */
+import { XmlSaxReader } from './XmlSaxReader';
+
+/**
+ * XML 解析后端
+ */
+export interface XmlBackend {
+  /** 解析 XML 字符串，格式错误时抛出异常 */
+  parse(xmlString: string): Document;
+}
+
+/**
+ * 基于 DOMParser 的解析后端
+ */
+export class DomXmlBackend implements XmlBackend {
+  private parser: DOMParser | null = null;
+
+  parse(xmlString: string): Document {
+    if (!this.parser) {
+      this.parser = new DOMParser();
+    }
+    const doc = this.parser.parseFromString(xmlString, 'application/xml');
+
+    // 检查解析错误
+    const parseError = doc.querySelector('parsererror');
+    if (parseError) {
+      throw new Error(`XML 解析错误: ${parseError.textContent}`);
+    }
+
+    return doc;
+  }
+}
+
+/**
+ * 轻量实现支持的选择器 (单个标签名，可带命名空间前缀)
+ */
+const TAG_SELECTOR = /^[A-Za-z_][\w.-]*(:[A-Za-z_][\w.-]*)?$/;
+
+/**
+ * 校验选择器，轻量实现只支持标签名选择器，其他选择器抛出异常而不是返回空结果
+ */
+function toTagName(selector: string): string {
+  const tagName = selector.trim();
+  if (!TAG_SELECTOR.test(tagName)) {
+    throw new Error(`轻量 XML 解析后端只支持标签名选择器，不支持: ${selector}`);
+  }
+  return tagName;
+}
+
+/**
+ * 轻量属性节点
+ */
+interface LiteAttr {
+  name: string;
+  value: string;
+}
+
+/**
+ * 轻量元素
+ * @description 只实现解析器用到的只读 DOM 接口
+ */
+class LiteElement {
+  readonly nodeType = 1;
+  readonly tagName: string;
+  readonly localName: string;
+  readonly prefix: string | null;
+  readonly attributes: LiteAttr[];
+  readonly children: LiteElement[] = [];
+  readonly childNodes: Array<LiteElement | string> = [];
+  parentElement: LiteElement | null = null;
+
+  constructor(tagName: string, attrs: Record<string, string>) {
+    const index = tagName.indexOf(':');
+    this.tagName = tagName;
+    this.localName = index === -1 ? tagName : tagName.slice(index + 1);
+    this.prefix = index === -1 ? null : tagName.slice(0, index);
+    this.attributes = Object.entries(attrs).map(([name, value]) => ({ name, value }));
+  }
+
+  get nodeName(): string {
+    return this.tagName;
+  }
+
+  get textContent(): string {
+    let text = '';
+    for (const node of this.childNodes) {
+      text += typeof node === 'string' ? node : node.textContent;
+    }
+    return text;
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.find(attr => attr.name === name)?.value ?? null;
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.getAttribute(name) !== null;
+  }
+
+  /**
+   * 按标签名查找后代元素 (* 匹配全部)
+   */
+  getElementsByTagName(tagName: string): LiteElement[] {
+    const result: LiteElement[] = [];
+    const visit = (element: LiteElement): void => {
+      for (const child of element.children) {
+        if (tagName === '*' || child.tagName === tagName) {
+          result.push(child);
+        }
+        visit(child);
+      }
+    };
+    visit(this);
+    return result;
+  }
+
+  /**
+   * 查找后代元素
+   * @description 仅支持标签名选择器 (匹配本地名或带前缀的完整名)，其他选择器抛出异常
+   */
+  querySelectorAll(selector: string): LiteElement[] {
+    const tagName = toTagName(selector);
+    return this.getElementsByTagName('*').filter(el => el.localName === tagName || el.tagName === tagName);
+  }
+
+  querySelector(selector: string): LiteElement | null {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+}
+
+/**
+ * 轻量文档
+ */
+class LiteDocument {
+  readonly nodeType = 9;
+  readonly documentElement: LiteElement;
+
+  constructor(documentElement: LiteElement) {
+    this.documentElement = documentElement;
+  }
+
+  /**
+   * 查找元素 (含根元素)，选择器限制同 LiteElement.querySelectorAll
+   */
+  querySelectorAll(selector: string): LiteElement[] {
+    const root = this.documentElement;
+    const tagName = toTagName(selector);
+    const matches = root.localName === tagName || root.tagName === tagName ? [root] : [];
+    return matches.concat(root.querySelectorAll(selector));
+  }
+
+  querySelector(selector: string): LiteElement | null {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+}
+
+/**
+ * 无 DOM 的轻量解析后端
+ */
+export class LiteXmlBackend implements XmlBackend {
+  parse(xmlString: string): Document {
+    const roots: LiteElement[] = [];
+    const stack: LiteElement[] = [];
+
+    const reader = new XmlSaxReader({
+      onOpenTag: (name, attrs) => {
+        const element = new LiteElement(name, attrs);
+        const parent = stack[stack.length - 1];
+        if (parent) {
+          element.parentElement = parent;
+          parent.children.push(element);
+          parent.childNodes.push(element);
+        } else if (roots.length > 0) {
+          throw new Error(`XML 解析错误: 存在多个根元素 <${name}>`);
+        } else {
+          roots.push(element);
+        }
+        stack.push(element);
+      },
+      onCloseTag: (name) => {
+        const element = stack.pop();
+        if (element?.tagName !== name) {
+          throw new Error(`XML 解析错误: 结束标签 </${name}> 不匹配`);
+        }
+      },
+      onText: (text) => {
+        const parent = stack[stack.length - 1];
+        if (parent) {
+          parent.childNodes.push(text);
+        }
+      },
+    });
+    reader.write(xmlString);
+    reader.end();
+
+    if (stack.length > 0) {
+      throw new Error(`XML 解析错误: 元素 <${stack[stack.length - 1].tagName}> 未结束`);
+    }
+    if (roots.length === 0) {
+      throw new Error('XML 解析错误: 缺少根元素');
+    }
+
+    return new LiteDocument(roots[0]) as unknown as Document;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * 流式 XML 读取器
+ * @description SAX 风格的增量分词器，不依赖 DOM，可在 Web Worker 中使用。
+ * 数据可分块写入，标签或实体被分块截断时会等待后续数据
+ */
+
+/**
+ * 读取事件处理器
+ */
+export interface SaxHandler {
+  /** 开始标签 (自闭合标签之后会紧跟 onCloseTag) */
+  onOpenTag?(name: string, attrs: Record<string, string>): void;
+  /** 结束标签 */
+  onCloseTag?(name: string): void;
+  /** 文本 (已解码实体，同一段文本可能分多次回调) */
+  onText?(text: string): void;
+}
+
+/**
+ * 预定义实体
+ */
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: '\'',
+};
+
+/**
+ * 属性匹配
+ */
+const ATTR_PATTERN = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * 流式 XML 读取器
+ */
+export class XmlSaxReader {
+  private handler: SaxHandler;
+  private buffer = '';
+
+  constructor(handler: SaxHandler) {
+    this.handler = handler;
+  }
+
+  /**
+   * 解码 XML 实体
+   */
+  static decodeEntities(text: string): string {
+    if (!text.includes('&')) {
+      return text;
+    }
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // 超出 Unicode 范围的字符引用替换为 U+FFFD
+        return code > 0x10ffff ? '\ufffd' : String.fromCodePoint(code);
+      }
+      return ENTITIES[entity] ?? match;
+    });
+  }
+
+  /**
+   * 转义 XML 文本或属性值
+   */
+  static escape(text: string): string {
+    return text.replace(/[<>&"]/g, ch => `&${ch === '<' ? 'lt' : ch === '>' ? 'gt' : ch === '&' ? 'amp' : 'quot'};`);
+  }
+
+  /**
+   * 写入数据块
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.process(false);
+  }
+
+  /**
+   * 结束读取，处理剩余数据
+   */
+  end(): void {
+    this.process(true);
+    this.buffer = '';
+  }
+
+  /**
+   * 处理缓冲区中完整的标记
+   */
+  private process(final: boolean): void {
+    const buffer = this.buffer;
+    let pos = 0;
+
+    while (pos < buffer.length) {
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) {
+        // 文本可能被截断在实体中间，等到下一个标签前再输出
+        if (final) {
+          this.emitText(buffer.slice(pos));
+          pos = buffer.length;
+        }
+        break;
+      }
+      if (lt > pos) {
+        this.emitText(buffer.slice(pos, lt));
+        pos = lt;
+      }
+
+      if (buffer.startsWith('<!--', lt)) {
+        const end = buffer.indexOf('-->', lt + 4);
+        if (end === -1) {
+          break;
+        }
+        pos = end + 3;
+        continue;
+      }
+
+      if (buffer.startsWith('<![CDATA[', lt)) {
+        const end = buffer.indexOf(']]>', lt + 9);
+        if (end === -1) {
+          break;
+        }
+        if (end > lt + 9) {
+          this.handler.onText?.(buffer.slice(lt + 9, end));
+        }
+        pos = end + 3;
+        continue;
+      }
+
+      const end = this.findTagEnd(buffer, lt + 1);
+      if (end === -1) {
+        break;
+      }
+      this.emitTag(buffer.slice(lt + 1, end));
+      pos = end + 1;
+    }
+
+    this.buffer = buffer.slice(pos);
+  }
+
+  /**
+   * 查找标签结束位置 (跳过属性值中的 >)
+   */
+  private findTagEnd(buffer: string, start: number): number {
+    let quote = '';
+    for (let i = start; i < buffer.length; i++) {
+      const ch = buffer[i];
+      if (quote) {
+        if (ch === quote) {
+          quote = '';
+        }
+      } else if (ch === '"' || ch === '\'') {
+        quote = ch;
+      } else if (ch === '>') {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * 输出标签事件
+   */
+  private emitTag(content: string): void {
+    const first = content[0];
+    // 处理指令和文档类型声明
+    if (first === '?' || first === '!') {
+      return;
+    }
+
+    if (first === '/') {
+      this.handler.onCloseTag?.(content.slice(1).trim());
+      return;
+    }
+
+    const selfClosing = content.endsWith('/');
+    const body = selfClosing ? content.slice(0, -1) : content;
+    const nameEnd = body.search(/\s/);
+    const name = nameEnd === -1 ? body : body.slice(0, nameEnd);
+
+    const attrs: Record<string, string> = {};
+    if (nameEnd !== -1) {
+      ATTR_PATTERN.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = ATTR_PATTERN.exec(body)) !== null) {
+        attrs[match[1]] = XmlSaxReader.decodeEntities(match[2] ?? match[3] ?? '');
+      }
+    }
+
+    this.handler.onOpenTag?.(name, attrs);
+    if (selfClosing) {
+      this.handler.onCloseTag?.(name);
+    }
+  }
+
+  /**
+   * 输出文本事件
+   */
+  private emitText(text: string): void {
+    if (text) {
+      this.handler.onText?.(XmlSaxReader.decodeEntities(text));
+    }
+  }
+}
@@ -1,34 +1,28 @@
+import { DomXmlBackend, LiteXmlBackend, type XmlBackend } from './XmlBackend';
+
 /**
  * XML 解析工具类
  * @description 提供 XML 解析和节点操作的工具方法
  */
 export class XmlUtils {
-  private static parser: DOMParser | null = null;
+  private static defaultBackend: XmlBackend | null = null;
 
   /**
-   * 获取 DOMParser 实例
+   * 获取默认解析后端 (有 DOMParser 时使用 DOMParser，否则使用无 DOM 的轻量实现)
    */
-  private static getParser(): DOMParser {
-    if (!this.parser) {
-      this.parser = new DOMParser();
+  static getDefaultBackend(): XmlBackend {
+    if (!this.defaultBackend) {
+      this.defaultBackend = typeof DOMParser === 'undefined' ? new LiteXmlBackend() : new DomXmlBackend();
     }
-    return this.parser;
+    return this.defaultBackend;
   }
 
   /**
    * 解析 XML 字符串
+   * @param backend 解析后端，默认自动选择
    */
-  static parse(xmlString: string): Document {
-    const parser = this.getParser();
-    const doc = parser.parseFromString(xmlString, 'application/xml');
-
-    // 检查解析错误
-    const parseError = doc.querySelector('parsererror');
-    if (parseError) {
-      throw new Error(`XML 解析错误: ${parseError.textContent}`);
-    }
-
-    return doc;
+  static parse(xmlString: string, backend: XmlBackend = this.getDefaultBackend()): Document {
+    return backend.parse(xmlString);
   }
 
   /**
@@ -68,6 +62,22 @@ export class XmlUtils {
     return value === '1' || value === 'true';
   }
 
+  /**
+   * 获取元素全部属性
+   */
+  static getAttributes(element: Element | null): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    if (!element) {
+      return attrs;
+    }
+
+    for (let i = 0; i < element.attributes.length; i++) {
+      const attr = element.attributes[i];
+      attrs[attr.name] = attr.value;
+    }
+    return attrs;
+  }
+
   /**
    * 获取子元素
    */
@@ -109,11 +119,12 @@ export class XmlUtils {
 
   /**
    * 查找元素 (支持命名空间)
+   * @description 轻量解析后端 (LiteXmlBackend) 只支持标签名选择器，其他选择器会抛出异常
    */
   static querySelector(element: Element | Document, selector: string): Element | null {
     // 简单标签名查询
     if (/^[a-zA-Z]+$/.test(selector)) {
-      if (element instanceof Document) {
+      if ('documentElement' in element) {
         return this.getChild(element.documentElement, selector);
       }
       return this.getChild(element, selector);
@@ -123,11 +134,12 @@ export class XmlUtils {
 
   /**
    * 查找所有元素 (支持命名空间)
+   * @description 选择器限制同 querySelector
    */
   static querySelectorAll(element: Element | Document, selector: string): Element[] {
     // 简单标签名查询
     if (/^[a-zA-Z]+$/.test(selector)) {
-      if (element instanceof Document) {
+      if ('documentElement' in element) {
         return this.getChildren(element.documentElement, selector);
       }
       return this.getChildren(element, selector);
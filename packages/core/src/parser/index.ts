@@ -1,2 +1,11 @@
-export { ExcelParser, type ParseOptions, type ParseProgressCallback } from './ExcelParser';
+export { ExcelParser, ParseError, type ParseOptions, type ParseProgressCallback } from './ExcelParser';
 export { XmlUtils } from './XmlUtils';
+export { XmlSaxReader, type SaxHandler } from './XmlSaxReader';
+export { DomXmlBackend, LiteXmlBackend, type XmlBackend } from './XmlBackend';
+export { ChartParser } from './ChartParser';
+export { XlsParser } from './XlsParser';
+export { CsvParser } from './CsvParser';
+export { OdsParser, type OdsDocuments } from './OdsParser';
+export { XlsbParser, type XlsbWorkbookInfo } from './XlsbParser';
+export { CfbReader, type CfbEntry } from './CfbReader';
+export { OfficeCrypto, PasswordError } from './OfficeCrypto';
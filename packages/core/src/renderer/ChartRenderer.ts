@@ -0,0 +1,930 @@
+/**
+ * 图表渲染器
+ * @description 使用 Canvas 原生绘制图表，不依赖第三方图表库
+ */
+import type { Chart, ChartAxis, ChartSeries, ChartType, Color } from '../types';
+import { ColorUtils } from '../utils/ColorUtils';
+import { FormatUtils } from '../utils/FormatUtils';
+
+/**
+ * 图表绘制区域
+ */
+export interface ChartBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 图例项
+ */
+interface LegendItem {
+  label: string;
+  color: string;
+  isLine: boolean;
+}
+
+/**
+ * 数值刻度
+ */
+interface ValueScale {
+  min: number;
+  max: number;
+  ticks: number[];
+}
+
+/**
+ * Office 默认图表配色 (accent1 - accent6)
+ */
+const DEFAULT_PALETTE = ['4472C4', 'ED7D31', 'A5A5A5', 'FFC000', '5B9BD5', '70AD47'];
+
+/**
+ * 默认主题颜色 (按 SpreadsheetML 主题索引)
+ */
+const THEME_COLORS = ['FFFFFF', '000000', 'E7E6E6', '44546A', ...DEFAULT_PALETTE, '0563C1', '954F72'];
+
+const TEXT_COLOR = '#595959';
+const GRID_COLOR = '#D9D9D9';
+const AXIS_COLOR = '#BFBFBF';
+const FONT_FAMILY = 'Calibri, "Microsoft YaHei", Arial, sans-serif';
+
+/**
+ * 图表渲染器
+ */
+export class ChartRenderer {
+  private ctx: CanvasRenderingContext2D;
+  private scale: number = 1;
+  /** 堆积折线 / 面积图的累计基线 (按绘图区缓存，单次渲染内有效) */
+  private stackedBaselines: WeakMap<ChartBounds, number[]> = new WeakMap();
+
+  constructor(ctx: CanvasRenderingContext2D) {
+    this.ctx = ctx;
+  }
+
+  /**
+   * 渲染图表
+   * @param chart 图表定义
+   * @param bounds 绘制区域
+   * @param scale 缩放比例 (影响字号和线宽)
+   */
+  render(chart: Chart, bounds: ChartBounds, scale: number = 1): void {
+    const { ctx } = this;
+    this.scale = scale;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.clip();
+
+    // 背景和边框
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(bounds.x + 0.5, bounds.y + 0.5, bounds.width - 1, bounds.height - 1);
+
+    const padding = 10 * scale;
+    let area: ChartBounds = {
+      x: bounds.x + padding,
+      y: bounds.y + padding,
+      width: bounds.width - padding * 2,
+      height: bounds.height - padding * 2,
+    };
+
+    // 标题
+    if (chart.title) {
+      const fontSize = 14 * scale;
+      ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(chart.title, area.x + area.width / 2, area.y, area.width);
+      area = { ...area, y: area.y + fontSize * 1.6, height: area.height - fontSize * 1.6 };
+    }
+
+    // 图例
+    if (chart.legendPosition && chart.legendPosition !== 'none') {
+      area = this.renderLegend(chart, area);
+    }
+
+    if (area.width > 0 && area.height > 0) {
+      if (chart.type === 'pie' || chart.type === 'doughnut') {
+        this.renderPie(chart, area);
+      } else {
+        this.renderAxisChart(chart, area);
+      }
+    }
+
+    ctx.restore();
+  }
+
+  // ==================== 图例 ====================
+
+  /**
+   * 渲染图例并返回剩余绘图区域
+   */
+  private renderLegend(chart: Chart, area: ChartBounds): ChartBounds {
+    const { ctx, scale } = this;
+    const items = this.getLegendItems(chart);
+    if (items.length === 0) {
+      return area;
+    }
+
+    const fontSize = 11 * scale;
+    const swatch = 8 * scale;
+    const gap = 6 * scale;
+    ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+
+    const itemWidths = items.map(item => swatch + 4 * scale + ctx.measureText(item.label).width);
+    const lineHeight = fontSize * 1.5;
+    const position = chart.legendPosition ?? 'right';
+
+    if (position === 'right' || position === 'left') {
+      const legendWidth = Math.min(Math.max(...itemWidths) + gap * 2, area.width / 3);
+      const legendHeight = items.length * lineHeight;
+      const x = position === 'right' ? area.x + area.width - legendWidth + gap : area.x;
+      let y = area.y + Math.max(0, (area.height - legendHeight) / 2) + lineHeight / 2;
+
+      items.forEach((item) => {
+        this.drawLegendItem(item, x, y, swatch, legendWidth - gap * 2);
+        y += lineHeight;
+      });
+
+      return {
+        x: position === 'left' ? area.x + legendWidth : area.x,
+        y: area.y,
+        width: area.width - legendWidth,
+        height: area.height,
+      };
+    }
+
+    // 上方 / 下方：水平排列
+    const totalWidth = itemWidths.reduce((sum, w) => sum + w + gap * 2, 0);
+    let x = area.x + Math.max(0, (area.width - totalWidth) / 2);
+    const y = position === 'top' ? area.y + lineHeight / 2 : area.y + area.height - lineHeight / 2;
+
+    items.forEach((item, index) => {
+      this.drawLegendItem(item, x, y, swatch, itemWidths[index]);
+      x += itemWidths[index] + gap * 2;
+    });
+
+    return {
+      x: area.x,
+      y: position === 'top' ? area.y + lineHeight : area.y,
+      width: area.width,
+      height: area.height - lineHeight,
+    };
+  }
+
+  /**
+   * 绘制单个图例项
+   */
+  private drawLegendItem(item: LegendItem, x: number, y: number, swatch: number, maxWidth: number): void {
+    const { ctx, scale } = this;
+
+    ctx.fillStyle = item.color;
+    ctx.strokeStyle = item.color;
+    if (item.isLine) {
+      ctx.lineWidth = 2 * scale;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + swatch, y);
+      ctx.stroke();
+    } else {
+      ctx.fillRect(x, y - swatch / 2, swatch, swatch);
+    }
+
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText(item.label, x + swatch + 4 * scale, y, Math.max(0, maxWidth - swatch - 4 * scale));
+  }
+
+  /**
+   * 获取图例项 (饼图按数据点，其他按系列)
+   */
+  private getLegendItems(chart: Chart): LegendItem[] {
+    const first = chart.series[0];
+    if (first && (chart.type === 'pie' || chart.type === 'doughnut' || (chart.varyColors && chart.series.length === 1))) {
+      const count = first.valueCache?.length ?? 0;
+      return Array.from({ length: count }, (_, i) => ({
+        label: first.categoryCache?.[i] ?? String(i + 1),
+        color: this.getPointColor(first, i),
+        isLine: false,
+      }));
+    }
+
+    return chart.series.map((series, index) => {
+      const type = series.type ?? chart.type;
+      return {
+        label: series.name ?? `系列${index + 1}`,
+        color: this.getSeriesColor(series, index),
+        isLine: type === 'line' || type === 'scatter' || type === 'radar' || type === 'stock',
+      };
+    });
+  }
+
+  // ==================== 饼图 / 圆环图 ====================
+
+  /**
+   * 渲染饼图或圆环图 (仅第一个系列)
+   */
+  private renderPie(chart: Chart, area: ChartBounds): void {
+    const { ctx, scale } = this;
+    const series = chart.series[0];
+    const values = (series?.valueCache ?? []).map(v => (v !== null && v > 0 ? v : 0));
+    const total = values.reduce((sum, v) => sum + v, 0);
+    if (!series || total <= 0) {
+      return;
+    }
+
+    const cx = area.x + area.width / 2;
+    const cy = area.y + area.height / 2;
+    const radius = Math.max(0, Math.min(area.width, area.height) / 2 - 4 * scale);
+    let angle = -Math.PI / 2;
+
+    values.forEach((value, index) => {
+      if (value === 0) {
+        return;
+      }
+      const sweep = (value / total) * Math.PI * 2;
+      ctx.beginPath();
+      ctx.moveTo(cx, cy);
+      ctx.arc(cx, cy, radius, angle, angle + sweep);
+      ctx.closePath();
+      ctx.fillStyle = this.getPointColor(series, index);
+      ctx.fill();
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = Math.max(1, scale);
+      ctx.stroke();
+      angle += sweep;
+    });
+
+    // 圆环图挖空中心
+    if (chart.type === 'doughnut') {
+      const holeSize = (chart.holeSize ?? 50) / 100;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius * holeSize, 0, Math.PI * 2);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fill();
+    }
+  }
+
+  // ==================== 坐标轴图表 ====================
+
+  /**
+   * 渲染带坐标轴的图表 (柱形图、条形图、折线图、面积图、散点图及组合图)
+   */
+  private renderAxisChart(chart: Chart, area: ChartBounds): void {
+    const { ctx, scale } = this;
+    const isHorizontal = chart.type === 'bar';
+    const isXY = chart.type === 'scatter' || chart.type === 'bubble';
+    const isPercent = chart.grouping === 'percentStacked';
+    const isStacked = chart.grouping === 'stacked' || isPercent;
+
+    const valueAxis = chart.axes?.find(a => a.type === 'value' && !this.isXAxis(a, chart));
+    const categoryAxis = chart.axes?.find(a => a !== valueAxis && (a.type !== 'value' || isXY));
+    const categories = this.getCategories(chart);
+    const valueScale = this.computeValueScale(chart, valueAxis, isStacked, isPercent);
+    const xScale = isXY ? this.computeXScale(chart, categoryAxis) : null;
+
+    const fontSize = 10 * scale;
+    ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+    const date1904 = chart.date1904 ?? false;
+    const formatValue = (v: number): string =>
+      this.formatAxisValue(v, isPercent ? '0%' : valueAxis?.numFmt, isPercent, date1904);
+    const formatX = (v: number): string => this.formatAxisValue(v, categoryAxis?.numFmt, false, date1904);
+
+    // 计算标签占用空间
+    const valueLabels = valueScale.ticks.map(formatValue);
+    const showValueAxis = !valueAxis?.deleted;
+    const showCategoryAxis = !categoryAxis?.deleted;
+    const valueLabelWidth = showValueAxis && !isHorizontal
+      ? Math.max(...valueLabels.map(l => ctx.measureText(l).width)) + 6 * scale
+      : 0;
+    const categoryLabelWidth = showCategoryAxis && isHorizontal
+      ? Math.min(area.width / 3, Math.max(0, ...categories.map(c => ctx.measureText(c).width)) + 6 * scale)
+      : 0;
+    const bottomLabelHeight = showValueAxis || showCategoryAxis ? fontSize * 1.8 : 0;
+
+    // 坐标轴标题
+    const axisTitleSize = fontSize * 1.8;
+    const leftTitle = isHorizontal ? categoryAxis?.title : valueAxis?.title;
+    const bottomTitle = isHorizontal ? valueAxis?.title : categoryAxis?.title;
+
+    const plot: ChartBounds = {
+      x: area.x + (leftTitle ? axisTitleSize : 0) + valueLabelWidth + categoryLabelWidth,
+      y: area.y + fontSize / 2,
+      width: 0,
+      height: 0,
+    };
+    plot.width = area.x + area.width - plot.x - 4 * scale;
+    plot.height = area.y + area.height - plot.y - bottomLabelHeight - (bottomTitle ? axisTitleSize : 0);
+    if (plot.width <= 0 || plot.height <= 0) {
+      return;
+    }
+
+    this.renderAxisTitles(area, plot, leftTitle, bottomTitle, axisTitleSize);
+
+    // 网格线与数值标签
+    ctx.textBaseline = 'middle';
+    ctx.lineWidth = 1;
+    valueScale.ticks.forEach((tick, index) => {
+      const pos = this.valueToPixel(tick, valueScale, plot, isHorizontal);
+      ctx.strokeStyle = GRID_COLOR;
+      ctx.beginPath();
+      if (isHorizontal) {
+        ctx.moveTo(Math.round(pos) + 0.5, plot.y);
+        ctx.lineTo(Math.round(pos) + 0.5, plot.y + plot.height);
+      } else {
+        ctx.moveTo(plot.x, Math.round(pos) + 0.5);
+        ctx.lineTo(plot.x + plot.width, Math.round(pos) + 0.5);
+      }
+      if (valueAxis?.majorGridlines !== false) {
+        ctx.stroke();
+      }
+
+      if (showValueAxis) {
+        ctx.fillStyle = TEXT_COLOR;
+        if (isHorizontal) {
+          ctx.textAlign = 'center';
+          ctx.fillText(valueLabels[index], pos, plot.y + plot.height + fontSize);
+        } else {
+          ctx.textAlign = 'right';
+          ctx.fillText(valueLabels[index], plot.x - 4 * scale, pos);
+        }
+      }
+    });
+
+    // 散点图 X 轴
+    if (xScale) {
+      xScale.ticks.forEach((tick) => {
+        const x = plot.x + ((tick - xScale.min) / (xScale.max - xScale.min || 1)) * plot.width;
+        if (showCategoryAxis) {
+          ctx.fillStyle = TEXT_COLOR;
+          ctx.textAlign = 'center';
+          ctx.fillText(formatX(tick), x, plot.y + plot.height + fontSize);
+        }
+      });
+    } else if (showCategoryAxis) {
+      this.renderCategoryLabels(categories, plot, isHorizontal, fontSize);
+    }
+
+    // 坐标轴线 (位于 0 值处)
+    ctx.strokeStyle = AXIS_COLOR;
+    ctx.beginPath();
+    const zero = Math.round(this.valueToPixel(this.clampValue(0, valueScale), valueScale, plot, isHorizontal)) + 0.5;
+    if (isHorizontal) {
+      ctx.moveTo(zero, plot.y);
+      ctx.lineTo(zero, plot.y + plot.height);
+    } else {
+      ctx.moveTo(plot.x, zero);
+      ctx.lineTo(plot.x + plot.width, zero);
+    }
+    ctx.stroke();
+
+    // 数据系列
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(plot.x - 4 * scale, plot.y - 4 * scale, plot.width + 8 * scale, plot.height + 8 * scale);
+    ctx.clip();
+
+    const stackBase = new Map<number, { pos: number; neg: number }>();
+    const totals = isPercent ? this.getCategoryTotals(chart) : null;
+    const barSeries = chart.series.filter(s => this.isBarType(s.type ?? chart.type));
+
+    // 先绘制柱形和面积，再绘制折线和散点
+    const drawOrder = [...chart.series.keys()].sort((a, b) =>
+      this.getDrawPriority(chart.series[a].type ?? chart.type) -
+      this.getDrawPriority(chart.series[b].type ?? chart.type),
+    );
+
+    for (const seriesIndex of drawOrder) {
+      const series = chart.series[seriesIndex];
+      const type = series.type ?? chart.type;
+      const values = (series.valueCache ?? []).map((v, i) => {
+        if (v === null || !totals) {
+          return v;
+        }
+        return totals[i] ? (v / totals[i]) * 100 : 0;
+      });
+
+      if (this.isBarType(type)) {
+        this.renderBars(chart, series, seriesIndex, values, barSeries.indexOf(series), barSeries.length,
+          categories.length, valueScale, plot, type === 'bar', isStacked, stackBase);
+      } else if (type === 'scatter' || type === 'bubble') {
+        this.renderScatter(series, seriesIndex, values, xScale, valueScale, plot);
+      } else {
+        this.renderLine(series, seriesIndex, values, categories.length, valueScale, plot,
+          type === 'area', isStacked && type !== 'radar' && type !== 'stock');
+      }
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * 渲染坐标轴标题
+   */
+  private renderAxisTitles(
+    area: ChartBounds,
+    plot: ChartBounds,
+    leftTitle: string | undefined,
+    bottomTitle: string | undefined,
+    titleSize: number,
+  ): void {
+    const { ctx } = this;
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    if (leftTitle) {
+      ctx.save();
+      ctx.translate(area.x + titleSize / 2, plot.y + plot.height / 2);
+      ctx.rotate(-Math.PI / 2);
+      ctx.fillText(leftTitle, 0, 0, plot.height);
+      ctx.restore();
+    }
+
+    if (bottomTitle) {
+      ctx.fillText(bottomTitle, plot.x + plot.width / 2, area.y + area.height - titleSize / 2, plot.width);
+    }
+  }
+
+  /**
+   * 渲染分类标签 (标签过密时按间隔跳过)
+   */
+  private renderCategoryLabels(categories: string[], plot: ChartBounds, isHorizontal: boolean, fontSize: number): void {
+    const { ctx, scale } = this;
+    const count = categories.length;
+    if (count === 0) {
+      return;
+    }
+
+    ctx.fillStyle = TEXT_COLOR;
+    if (isHorizontal) {
+      const step = Math.max(1, Math.ceil((fontSize * 1.2 * count) / plot.height));
+      const band = plot.height / count;
+      ctx.textAlign = 'right';
+      for (let i = 0; i < count; i += step) {
+        // 条形图分类自下而上排列
+        ctx.fillText(categories[i], plot.x - 4 * scale, plot.y + plot.height - band * (i + 0.5));
+      }
+      return;
+    }
+
+    const band = plot.width / count;
+    const maxLabelWidth = Math.max(...categories.map(c => ctx.measureText(c).width));
+    const step = Math.max(1, Math.ceil((maxLabelWidth + 4 * scale) / band));
+    ctx.textAlign = 'center';
+    for (let i = 0; i < count; i += step) {
+      ctx.fillText(categories[i], plot.x + band * (i + 0.5), plot.y + plot.height + fontSize, band * step);
+    }
+  }
+
+  /**
+   * 渲染柱形 / 条形系列
+   */
+  private renderBars(
+    chart: Chart,
+    series: ChartSeries,
+    seriesIndex: number,
+    values: Array<number | null>,
+    barIndex: number,
+    barCount: number,
+    categoryCount: number,
+    valueScale: ValueScale,
+    plot: ChartBounds,
+    isHorizontal: boolean,
+    isStacked: boolean,
+    stackBase: Map<number, { pos: number; neg: number }>,
+  ): void {
+    const { ctx } = this;
+    const count = Math.max(categoryCount, values.length, 1);
+    const band = (isHorizontal ? plot.height : plot.width) / count;
+
+    // 默认间距为柱宽的 150%
+    const slots = isStacked ? 1 : Math.max(barCount, 1);
+    const barSize = band / (slots + 1.5);
+    const groupOffset = (band - barSize * slots) / 2;
+
+    values.forEach((value, i) => {
+      if (value === null) {
+        return;
+      }
+
+      let start = 0;
+      let end = value;
+      if (isStacked) {
+        const base = stackBase.get(i) ?? { pos: 0, neg: 0 };
+        start = value >= 0 ? base.pos : base.neg;
+        end = start + value;
+        if (value >= 0) {
+          base.pos = end;
+        } else {
+          base.neg = end;
+        }
+        stackBase.set(i, base);
+      }
+
+      const p1 = this.valueToPixel(this.clampValue(start, valueScale), valueScale, plot, isHorizontal);
+      const p2 = this.valueToPixel(this.clampValue(end, valueScale), valueScale, plot, isHorizontal);
+      const offset = groupOffset + (isStacked ? 0 : barIndex * barSize);
+
+      ctx.fillStyle = chart.varyColors && chart.series.length === 1
+        ? this.getPointColor(series, i)
+        : this.getPointColor(series, i, this.getSeriesColor(series, seriesIndex));
+
+      if (isHorizontal) {
+        // 条形图第一个分类在底部
+        const y = plot.y + plot.height - band * (i + 1) + offset;
+        ctx.fillRect(Math.min(p1, p2), y, Math.abs(p2 - p1), barSize);
+      } else {
+        const x = plot.x + band * i + offset;
+        ctx.fillRect(x, Math.min(p1, p2), barSize, Math.abs(p2 - p1));
+      }
+    });
+  }
+
+  /**
+   * 渲染折线 / 面积系列
+   */
+  private renderLine(
+    series: ChartSeries,
+    seriesIndex: number,
+    values: Array<number | null>,
+    categoryCount: number,
+    valueScale: ValueScale,
+    plot: ChartBounds,
+    isArea: boolean,
+    isStacked: boolean,
+  ): void {
+    const { ctx, scale } = this;
+    const count = Math.max(categoryCount, values.length, 1);
+    const band = plot.width / count;
+    const color = this.getSeriesColor(series, seriesIndex);
+
+    // 堆积时累加到每个分类的基线上
+    const baseline = isStacked ? this.stackedBaselines.get(plot) ?? new Array<number>(count).fill(0) : null;
+    const points: Array<{ x: number; y: number; base: number } | null> = values.map((value, i) => {
+      if (value === null) {
+        return null;
+      }
+      const base = baseline ? baseline[i] ?? 0 : 0;
+      const top = base + value;
+      if (baseline) {
+        baseline[i] = top;
+      }
+      return {
+        x: plot.x + band * (i + 0.5),
+        y: this.valueToPixel(top, valueScale, plot, false),
+        base: this.valueToPixel(isArea ? base : 0, valueScale, plot, false),
+      };
+    });
+    if (baseline) {
+      this.stackedBaselines.set(plot, baseline);
+    }
+
+    const valid = points.filter((p): p is { x: number; y: number; base: number } => p !== null);
+    if (valid.length === 0) {
+      return;
+    }
+
+    if (isArea) {
+      const zeroY = this.valueToPixel(this.clampValue(0, valueScale), valueScale, plot, false);
+      ctx.beginPath();
+      ctx.moveTo(valid[0].x, isStacked ? valid[0].base : zeroY);
+      valid.forEach(p => ctx.lineTo(p.x, p.y));
+      for (let i = valid.length - 1; i >= 0; i--) {
+        ctx.lineTo(valid[i].x, isStacked ? valid[i].base : zeroY);
+      }
+      ctx.closePath();
+      ctx.fillStyle = color;
+      ctx.globalAlpha = 0.85;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      return;
+    }
+
+    const lineWidth = series.line?.width ?? 2;
+    if (lineWidth > 0) {
+      ctx.strokeStyle = series.line?.color ? this.resolveColor(series.line.color) : color;
+      ctx.lineWidth = lineWidth * scale;
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      let started = false;
+      points.forEach((p) => {
+        // 空值处断开
+        if (!p) {
+          started = false;
+          return;
+        }
+        if (started) {
+          ctx.lineTo(p.x, p.y);
+        } else {
+          ctx.moveTo(p.x, p.y);
+          started = true;
+        }
+      });
+      ctx.stroke();
+    }
+
+    this.drawMarkers(valid, color);
+  }
+
+  /**
+   * 渲染散点系列
+   */
+  private renderScatter(
+    series: ChartSeries,
+    seriesIndex: number,
+    values: Array<number | null>,
+    xScale: ValueScale | null,
+    valueScale: ValueScale,
+    plot: ChartBounds,
+  ): void {
+    const { ctx, scale } = this;
+    const color = this.getSeriesColor(series, seriesIndex);
+    const points: Array<{ x: number; y: number }> = [];
+
+    values.forEach((value, i) => {
+      const xValue = series.xValueCache?.[i] ?? i + 1;
+      if (value === null || xValue === null) {
+        return;
+      }
+      const x = xScale
+        ? plot.x + ((xValue - xScale.min) / (xScale.max - xScale.min || 1)) * plot.width
+        : plot.x + (plot.width / Math.max(values.length, 1)) * (i + 0.5);
+      points.push({ x, y: this.valueToPixel(value, valueScale, plot, false) });
+    });
+
+    const lineWidth = series.line?.width ?? 2;
+    if (lineWidth > 0 && points.length > 1) {
+      ctx.strokeStyle = series.line?.color ? this.resolveColor(series.line.color) : color;
+      ctx.lineWidth = lineWidth * scale;
+      ctx.beginPath();
+      points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+    }
+
+    this.drawMarkers(points, color);
+  }
+
+  /**
+   * 绘制数据点标记
+   */
+  private drawMarkers(points: Array<{ x: number; y: number }>, color: string): void {
+    const { ctx, scale } = this;
+    const radius = 3 * scale;
+    ctx.fillStyle = color;
+    points.forEach((p) => {
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+
+  // ==================== 数值计算 ====================
+
+  /**
+   * 获取分类标签
+   */
+  private getCategories(chart: Chart): string[] {
+    const withCategories = chart.series.find(s => s.categoryCache && s.categoryCache.length > 0);
+    if (withCategories?.categoryCache) {
+      return withCategories.categoryCache;
+    }
+    const count = Math.max(0, ...chart.series.map(s => s.valueCache?.length ?? 0));
+    return Array.from({ length: count }, (_, i) => String(i + 1));
+  }
+
+  /**
+   * 计算每个分类的合计 (百分比堆积图)
+   */
+  private getCategoryTotals(chart: Chart): number[] {
+    const totals: number[] = [];
+    chart.series.forEach((series) => {
+      series.valueCache?.forEach((v, i) => {
+        totals[i] = (totals[i] ?? 0) + Math.abs(v ?? 0);
+      });
+    });
+    return totals;
+  }
+
+  /**
+   * 计算数值轴刻度
+   */
+  private computeValueScale(
+    chart: Chart,
+    axis: ChartAxis | undefined,
+    isStacked: boolean,
+    isPercent: boolean,
+  ): ValueScale {
+    let min = Infinity;
+    let max = -Infinity;
+
+    if (isPercent) {
+      min = 0;
+      max = 100;
+      chart.series.forEach(s => s.valueCache?.forEach((v) => {
+        if (v !== null && v < 0) {
+          min = -100;
+        }
+      }));
+    } else if (isStacked) {
+      const pos: number[] = [];
+      const neg: number[] = [];
+      chart.series.forEach(s => s.valueCache?.forEach((v, i) => {
+        if (v === null) {
+          return;
+        }
+        if (v >= 0) {
+          pos[i] = (pos[i] ?? 0) + v;
+        } else {
+          neg[i] = (neg[i] ?? 0) + v;
+        }
+      }));
+      min = Math.min(0, ...neg.filter(v => v !== undefined));
+      max = Math.max(0, ...pos.filter(v => v !== undefined));
+    } else {
+      chart.series.forEach(s => s.valueCache?.forEach((v) => {
+        if (v !== null) {
+          min = Math.min(min, v);
+          max = Math.max(max, v);
+        }
+      }));
+      // 柱形、条形和面积图从 0 开始
+      const fromZero = chart.series.some(s => {
+        const type = s.type ?? chart.type;
+        return this.isBarType(type) || type === 'area';
+      });
+      if (fromZero || !isFinite(min)) {
+        min = Math.min(0, isFinite(min) ? min : 0);
+        max = Math.max(0, isFinite(max) ? max : 0);
+      }
+    }
+
+    return this.niceScale(min, max, axis);
+  }
+
+  /**
+   * 计算散点图 X 轴刻度
+   */
+  private computeXScale(chart: Chart, axis: ChartAxis | undefined): ValueScale {
+    let min = Infinity;
+    let max = -Infinity;
+    chart.series.forEach((s) => {
+      const xs = s.xValueCache ?? (s.valueCache ?? []).map((_, i) => i + 1);
+      xs.forEach((v) => {
+        if (v !== null) {
+          min = Math.min(min, v);
+          max = Math.max(max, v);
+        }
+      });
+    });
+    if (!isFinite(min)) {
+      min = 0;
+      max = 1;
+    }
+    return this.niceScale(Math.min(min, 0), max, axis);
+  }
+
+  /**
+   * 生成美观的刻度
+   */
+  private niceScale(min: number, max: number, axis: ChartAxis | undefined): ValueScale {
+    if (axis?.min !== undefined) {
+      min = axis.min;
+    }
+    if (axis?.max !== undefined) {
+      max = axis.max;
+    }
+    if (min === max) {
+      max = min === 0 ? 1 : min + Math.abs(min);
+    }
+
+    const range = max - min;
+    let step = axis?.majorUnit;
+    if (!step || step <= 0) {
+      const rough = range / 5;
+      const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+      const residual = rough / magnitude;
+      step = (residual <= 1 ? 1 : residual <= 2 ? 2 : residual <= 5 ? 5 : 10) * magnitude;
+    }
+
+    const niceMin = axis?.min !== undefined ? min : Math.floor(min / step) * step;
+    const niceMax = axis?.max !== undefined ? max : Math.ceil(max / step) * step;
+    const ticks: number[] = [];
+    for (let v = niceMin; v <= niceMax + step / 1e6 && ticks.length < 100; v += step) {
+      ticks.push(parseFloat(v.toPrecision(12)));
+    }
+
+    return { min: niceMin, max: niceMax, ticks };
+  }
+
+  /**
+   * 数值转像素坐标
+   */
+  private valueToPixel(value: number, scale: ValueScale, plot: ChartBounds, isHorizontal: boolean): number {
+    const ratio = (value - scale.min) / (scale.max - scale.min || 1);
+    return isHorizontal ? plot.x + ratio * plot.width : plot.y + plot.height - ratio * plot.height;
+  }
+
+  /**
+   * 将数值限制在刻度范围内
+   */
+  private clampValue(value: number, scale: ValueScale): number {
+    return Math.max(scale.min, Math.min(scale.max, value));
+  }
+
+  /**
+   * 格式化坐标轴数值
+   */
+  private formatAxisValue(value: number, numFmt: string | undefined, isPercent: boolean, date1904: boolean): string {
+    if (isPercent) {
+      return `${Math.round(value)}%`;
+    }
+    if (numFmt && numFmt !== 'General') {
+      return FormatUtils.formatValue(value, numFmt, date1904);
+    }
+    return FormatUtils.formatGeneral(value);
+  }
+
+  /**
+   * 判断坐标轴是否为散点图的 X 轴
+   */
+  private isXAxis(axis: ChartAxis, chart: Chart): boolean {
+    if (chart.type !== 'scatter' && chart.type !== 'bubble') {
+      return false;
+    }
+    return axis.position === 'b' || axis.position === 't';
+  }
+
+  private isBarType(type: ChartType): boolean {
+    return type === 'bar' || type === 'column';
+  }
+
+  private getDrawPriority(type: ChartType): number {
+    if (type === 'area') {
+      return 0;
+    }
+    return this.isBarType(type) ? 1 : 2;
+  }
+
+  // ==================== 颜色 ====================
+
+  /**
+   * 获取系列颜色
+   */
+  private getSeriesColor(series: ChartSeries, index: number): string {
+    if (series.fill) {
+      return this.resolveColor(series.fill);
+    }
+    if (series.line?.color) {
+      return this.resolveColor(series.line.color);
+    }
+    return this.getPaletteColor(index);
+  }
+
+  /**
+   * 获取数据点颜色
+   */
+  private getPointColor(series: ChartSeries, index: number, fallback?: string): string {
+    const color = series.pointColors?.[index];
+    if (color) {
+      return this.resolveColor(color);
+    }
+    return fallback ?? this.getPaletteColor(index);
+  }
+
+  /**
+   * 默认配色 (超过 6 种颜色时依次加深 / 变浅)
+   */
+  private getPaletteColor(index: number): string {
+    const base = DEFAULT_PALETTE[index % DEFAULT_PALETTE.length];
+    const round = Math.floor(index / DEFAULT_PALETTE.length);
+    if (round === 0) {
+      return `#${base}`;
+    }
+    const tint = round % 2 === 1 ? -0.25 * Math.ceil(round / 2) : 0.3 * (round / 2);
+    return `#${ColorUtils.applyTint(base, Math.max(-0.75, Math.min(0.75, tint)))}`;
+  }
+
+  /**
+   * 解析颜色
+   */
+  private resolveColor(color: Color): string {
+    if (color.rgb) {
+      return `#${color.rgb.length === 8 ? color.rgb.substring(2) : color.rgb}`;
+    }
+    if (color.theme !== undefined) {
+      const base = THEME_COLORS[color.theme] ?? '000000';
+      return `#${color.tint ? ColorUtils.applyTint(base, color.tint) : base}`;
+    }
+    if (color.indexed !== undefined) {
+      return ColorUtils.getIndexedColor(color.indexed);
+    }
+    return '#000000';
+  }
+}
@@ -2,9 +2,22 @@
  * DOM 表格渲染器
  * 使用 HTML 表格渲染 Excel，提供更好的文字清晰度和合并单元格支持
  */
-import type { Sheet, Cell, CellStyle } from '../types';
+import type { Sheet, Cell, CellStyle, Color, Comment, Image, Chart, ChartSeries, ChartType, Theme, TableCellFormat, Hyperlink, ConditionalCellFormat, ConditionalIcon } from '../types';
 import { SelectionManager } from '../core/selection/SelectionManager';
 import { ContextMenu, createDefaultContextMenuItems, MenuItem } from '../core/ui/ContextMenu';
+import { CommentPopover } from '../core/ui/CommentPopover';
+import { ImageUtils } from '../utils/ImageUtils';
+import { FormatUtils } from '../utils/FormatUtils';
+import { ColorUtils } from '../utils/ColorUtils';
+import { TableStyleUtils } from '../utils/TableStyleUtils';
+import { HyperlinkUtils } from '../utils/HyperlinkUtils';
+import { FormulaUtils } from '../utils/FormulaUtils';
+import { ProtectionUtils, type ProtectedAction } from '../utils/ProtectionUtils';
+import { ConditionalFormatUtils } from '../utils/ConditionalFormatUtils';
+import { SparklineUtils, type SparklineShape, type SparklineSheetResolver } from '../utils/SparklineUtils';
+import { XmlUtils } from '../parser/XmlUtils';
+import { Dialog } from '../core/ui/Dialog';
+import { ChartRenderer } from './ChartRenderer';
 
 export interface DomRendererOptions {
   /** 默认列宽 */
@@ -39,10 +52,23 @@ const DEFAULT_OPTIONS: DomRendererOptions = {
   frozenPaneBackground: '#f8f9fa'
 };
 
+/**
+ * 工具栏数字格式对应的格式代码
+ */
+const NUMBER_FORMAT_CODES: Record<'percent' | 'currency' | 'date', string> = {
+  percent: '0.00%',
+  currency: '"¥"#,##0.00',
+  date: 'yyyy-mm-dd',
+};
+
 export class DomRenderer {
   private container: HTMLElement;
   private options: DomRendererOptions;
   private sheet: Sheet | null = null;
+  private workbookTheme: Theme | undefined;
+  private cellStyles: CellStyle[] = [];
+  private date1904 = false;
+  private sheetResolver: SparklineSheetResolver | undefined;
   private tableContainer: HTMLElement | null = null;
   private table: HTMLTableElement | null = null;
   private editingCell: { row: number; col: number; td: HTMLTableCellElement; input: HTMLInputElement } | null = null;
@@ -61,6 +87,12 @@ export class DomRenderer {
   // 右键菜单
   private contextMenu: ContextMenu | null = null;
 
+  // 批注浮层
+  private commentPopover: CommentPopover | null = null;
+
+  // 浮动对象层 (图片等)
+  private floatingLayer: HTMLElement | null = null;
+
   // 记录已渲染的合并单元格
   private renderedMerges: Set<string> = new Set();
 
@@ -90,9 +122,14 @@ export class DomRenderer {
     format: Partial<CellStyle>;
   }> = [];
 
+  // 工作表条件格式是否等待刷新
+  private conditionalFormatRefreshPending = false;
+
   // 回调
   public onCellChange?: (row: number, col: number, value: string, oldValue: string) => void;
   public onContextMenuAction?: (action: string, selection: any) => void;
+  public onLinkClick?: (hyperlink: Hyperlink, cell: Cell, event: MouseEvent) => void;
+  public onActiveCellChange?: (row: number, col: number) => void;
 
   constructor(container: HTMLElement, options: Partial<DomRendererOptions> = {}) {
     this.container = container;
@@ -135,6 +172,28 @@ export class DomRenderer {
         outline: 2px solid #1a73e8;
         outline-offset: -2px;
       }
+      .excel-dom-renderer td.excel-hyperlink {
+        cursor: pointer;
+      }
+      .excel-dom-renderer td[data-cf-icon]::before {
+        content: attr(data-cf-icon);
+        color: var(--cf-icon-color);
+        margin-right: 4px;
+      }
+      .excel-dom-renderer td.excel-sparkline-cell {
+        position: relative;
+        z-index: 0;
+      }
+      .excel-dom-renderer svg.excel-sparkline {
+        position: absolute;
+        left: 3px;
+        top: 3px;
+        width: calc(100% - 6px);
+        height: calc(100% - 6px);
+        z-index: -1;
+        overflow: visible;
+        pointer-events: none;
+      }
     `;
     document.head.appendChild(style);
   }
@@ -185,6 +244,9 @@ export class DomRenderer {
       items: createDefaultContextMenuItems()
     });
 
+    // 初始化批注浮层
+    this.commentPopover = new CommentPopover();
+
     // 绑定事件
     this.bindEvents();
   }
@@ -277,6 +339,21 @@ export class DomRenderer {
       });
     }
 
+    // 悬停显示批注
+    this.tableContainer.addEventListener('mouseover', (e) => {
+      const td = (e.target as HTMLElement).closest('td');
+      const comment = td?.dataset.address ? this.getComment(td.dataset.address) : undefined;
+      if (td && comment) {
+        this.commentPopover?.show(comment, td.getBoundingClientRect());
+      } else {
+        this.commentPopover?.hide();
+      }
+    });
+
+    this.tableContainer.addEventListener('mouseleave', () => {
+      this.commentPopover?.hide();
+    });
+
     // 右键菜单
     this.tableContainer.addEventListener('contextmenu', (e) => {
       e.preventDefault();
@@ -472,6 +549,9 @@ export class DomRenderer {
       case 'insertImage':
         this.showInsertImageDialog();
         break;
+      case 'insertChart':
+        this.showInsertChartDialog();
+        break;
 
       // 清除
       case 'clearComments':
@@ -514,6 +594,9 @@ export class DomRenderer {
   private clearSelectedCells(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds || !this.sheet) return;
+    if (!this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     for (let row = bounds.start.row; row <= Math.min(bounds.end.row, 1000); row++) {
       for (let col = bounds.start.col; col <= Math.min(bounds.end.col, 100); col++) {
@@ -525,6 +608,7 @@ export class DomRenderer {
         }
       }
     }
+    this.scheduleConditionalFormatRefresh();
   }
 
   private updateSelectionHighlight(): void {
@@ -573,16 +657,85 @@ export class DomRenderer {
       activeTd.style.boxShadow = '';
     }
 
+    // 活动单元格位于动态数组溢出区域时绘制溢出边框
+    const spill = this.sheet ? FormulaUtils.getSpillRange(this.sheet, activeCell.row, activeCell.col) : null;
+    if (spill) {
+      this.renderSpillBorder(spill);
+    }
+
     // 更新填充柄位置
     this.updateFillHandlePosition();
+
+    this.onActiveCellChange?.(activeCell.row, activeCell.col);
+  }
+
+  /**
+   * 绘制动态数组溢出区域边框
+   */
+  private renderSpillBorder(range: { start: { row: number; col: number }; end: { row: number; col: number } }): void {
+    const { start, end } = range;
+    for (let row = start.row; row <= Math.min(end.row, 1000); row++) {
+      for (let col = start.col; col <= Math.min(end.col, 100); col++) {
+        const td = this.cellElements.get(this.formatAddress(row, col));
+        if (!td) {
+          continue;
+        }
+
+        const shadows = td.style.boxShadow ? [td.style.boxShadow] : [];
+        if (row === start.row) {
+          shadows.push('inset 0 1px 0 #1a73e8');
+        }
+        if (row === end.row) {
+          shadows.push('inset 0 -1px 0 #1a73e8');
+        }
+        if (col === start.col) {
+          shadows.push('inset 1px 0 0 #1a73e8');
+        }
+        if (col === end.col) {
+          shadows.push('inset -1px 0 0 #1a73e8');
+        }
+        td.style.boxShadow = shadows.join(', ');
+      }
+    }
   }
 
   setSheet(sheet: Sheet): void {
     this.sheet = sheet;
     this.renderedMerges.clear();
+    ConditionalFormatUtils.invalidate(sheet);
+    SparklineUtils.invalidate(sheet);
+    this.commentPopover?.hide();
     this.render();
   }
 
+  /**
+   * 设置工作簿主题 (用于解析主题颜色和表格样式)
+   */
+  setWorkbookTheme(theme: Theme | undefined): void {
+    this.workbookTheme = theme;
+  }
+
+  /**
+   * 设置工作簿的单元格样式 (空白单元格沿用行、列或默认样式的保护设置)
+   */
+  setCellStyles(styles: CellStyle[]): void {
+    this.cellStyles = styles;
+  }
+
+  /**
+   * 设置工作簿的日期系统
+   */
+  setDate1904(date1904: boolean): void {
+    this.date1904 = date1904;
+  }
+
+  /**
+   * 设置按名称查找工作表的方法 (用于读取迷你图引用的其他工作表数据)
+   */
+  setSheetResolver(resolver: SparklineSheetResolver | undefined): void {
+    this.sheetResolver = resolver;
+  }
+
   setZoom(zoom: number): void {
     this.options.zoom = zoom;
     // 使用 CSS zoom 属性（不破坏 sticky 定位）
@@ -750,13 +903,14 @@ export class DomRenderer {
         }
 
         // 应用样式
-        this.applyCellStyle(td, cell, rowHeight);
+        const colors = this.workbookTheme?.colors;
+        const tableFormat = TableStyleUtils.getCellFormat(this.sheet.tables, row, col, colors);
+        const cfFormat = ConditionalFormatUtils.getCellFormat(this.sheet, row, col, colors, this.date1904);
+        this.applyCellStyle(td, cell, rowHeight, tableFormat, cfFormat);
 
         // 设置内容
-        if (cell) {
-          const displayText = cell.formattedValue ?? cell.text ?? '';
-          td.textContent = displayText;
-        }
+        this.setCellContent(td, cell, cfFormat);
+        this.renderSparkline(td, SparklineUtils.getShape(this.sheet, row, col, colors, this.sheetResolver));
 
         // 存储单元格元素引用
         const cellAddress = this.formatAddress(row, col);
@@ -765,10 +919,25 @@ export class DomRenderer {
         td.dataset.col = String(col);
         td.dataset.address = cellAddress;
 
+        // 批注标记
+        if (this.getComment(cellAddress)) {
+          this.addCommentIndicator(td);
+        }
+
+        // 超链接
+        const hyperlink = cell?.hyperlink ?? this.sheet.hyperlinks.get(cellAddress);
+        if (hyperlink) {
+          td.classList.add('excel-hyperlink');
+          td.title = hyperlink.tooltip ?? HyperlinkUtils.toUrl(hyperlink);
+        }
+
         // 添加点击事件 - 选中
         td.addEventListener('click', (e) => {
           e.stopPropagation();
           this.handleCellClick(row, col, cell, td);
+          if (hyperlink && cell) {
+            this.handleLinkClick(hyperlink, cell, e);
+          }
         });
 
         // 添加双击事件 - 编辑
@@ -785,9 +954,227 @@ export class DomRenderer {
 
     this.table.appendChild(tbody);
     this.tableContainer.appendChild(this.table);
+
+    // 列表验证的下拉指示器
+    this.renderValidationDropdowns(maxRow, maxCol);
+
+    // 渲染浮动对象
+    this.renderFloatingLayer();
   }
 
-  private applyCellStyle(td: HTMLTableCellElement, cell: Cell | undefined, rowHeight: number): void {
+  /**
+   * 渲染浮动对象层
+   * @description 浮动层放在滚动容器内，随表格一起滚动和缩放
+   */
+  private renderFloatingLayer(): void {
+    if (!this.sheet || !this.tableContainer || !this.table) {
+      return;
+    }
+
+    this.floatingLayer = document.createElement('div');
+    this.floatingLayer.className = 'excel-floating-layer';
+    this.floatingLayer.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 0;
+      height: 0;
+      z-index: 4;
+      pointer-events: none;
+    `;
+    this.tableContainer.appendChild(this.floatingLayer);
+
+    if (this.sheet.images.length === 0 && this.sheet.charts.length === 0) {
+      return;
+    }
+
+    const grid = this.measureGrid();
+    for (const image of this.sheet.images) {
+      this.floatingLayer.appendChild(this.createImageElement(image, grid));
+    }
+    for (const chart of this.sheet.charts) {
+      const element = this.createChartElement(chart, grid);
+      if (element) {
+        this.floatingLayer.appendChild(element);
+      }
+    }
+  }
+
+  /**
+   * 测量表格中每列左边界和每行上边界 (相对滚动容器)
+   */
+  private measureGrid(): { colLefts: number[]; rowTops: number[] } {
+    const colLefts: number[] = [];
+    const rowTops: number[] = [];
+    if (!this.table) {
+      return { colLefts, rowTops };
+    }
+
+    const originX = this.table.offsetLeft;
+    const originY = this.table.offsetTop;
+
+    // 列：优先使用列头位置，否则按列宽累加
+    const headers = Array.from(this.table.querySelectorAll<HTMLElement>('thead th[data-col]'));
+    if (headers.length > 0) {
+      headers.forEach((th) => colLefts.push(originX + th.offsetLeft));
+      const lastHeader = headers[headers.length - 1];
+      colLefts.push(originX + lastHeader.offsetLeft + lastHeader.offsetWidth);
+    } else {
+      let x = originX + (this.options.showRowHeaders ? 50 : 0);
+      const cols = Array.from(this.table.querySelectorAll<HTMLElement>('colgroup col'));
+      cols.slice(this.options.showRowHeaders ? 1 : 0).forEach((col) => {
+        colLefts.push(x);
+        x += parseFloat(col.style.width) || this.options.defaultColWidth;
+      });
+      colLefts.push(x);
+    }
+
+    // 行：隐藏行与下一行重合
+    const rows = Array.from(this.table.tBodies[0]?.rows ?? []);
+    let bottom = originY;
+    if (rows.length > 0) {
+      const lastRow = rows[rows.length - 1];
+      bottom = originY + lastRow.offsetTop + lastRow.offsetHeight;
+    }
+    rowTops[rows.length] = bottom;
+    for (let i = rows.length - 1; i >= 0; i--) {
+      rowTops[i] = rows[i].style.display === 'none' ? rowTops[i + 1] : originY + rows[i].offsetTop;
+    }
+
+    return { colLefts, rowTops };
+  }
+
+  /**
+   * 计算浮动对象 (图片或图表) 相对滚动容器的位置
+   */
+  private getFloatingRect(
+    object: Image | Chart,
+    grid: { colLefts: number[]; rowTops: number[] },
+  ): { left: number; top: number; width: number; height: number } | null {
+    const colX = (col: number): number => {
+      const last = grid.colLefts.length - 1;
+      return col <= last ? grid.colLefts[col] : grid.colLefts[last] + (col - last) * this.options.defaultColWidth;
+    };
+    const rowY = (row: number): number => {
+      const last = grid.rowTops.length - 1;
+      return row <= last ? grid.rowTops[row] : grid.rowTops[last] + (row - last) * this.options.defaultRowHeight;
+    };
+
+    const width = object.width ?? 0;
+    const height = object.height ?? 0;
+
+    if (object.positionType === 'absolute' && object.position) {
+      return { left: colX(0) + object.position.x, top: rowY(0) + object.position.y, width, height };
+    }
+    if (!object.anchor) {
+      return null;
+    }
+
+    const { from, to } = object.anchor;
+    const left = colX(from.col) + from.colOff;
+    const top = rowY(from.row) + from.rowOff;
+    if ((object.positionType ?? 'twoCell') === 'twoCell' && to) {
+      return {
+        left,
+        top,
+        width: colX(to.col) + to.colOff - left,
+        height: rowY(to.row) + to.rowOff - top,
+      };
+    }
+
+    return { left, top, width, height };
+  }
+
+  /**
+   * 创建图表元素
+   */
+  private createChartElement(chart: Chart, grid: { colLefts: number[]; rowTops: number[] }): HTMLElement | null {
+    const rect = this.getFloatingRect(chart, grid);
+    if (!rect || rect.width <= 0 || rect.height <= 0) {
+      return null;
+    }
+
+    // 按设备像素比绘制，避免高分屏模糊
+    const ratio = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(rect.width * ratio);
+    canvas.height = Math.round(rect.height * ratio);
+    canvas.className = 'excel-floating-chart';
+    if (chart.id) {
+      canvas.dataset.chartId = chart.id;
+    }
+    canvas.style.position = 'absolute';
+    canvas.style.left = `${rect.left}px`;
+    canvas.style.top = `${rect.top}px`;
+    canvas.style.width = `${rect.width}px`;
+    canvas.style.height = `${rect.height}px`;
+
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.scale(ratio, ratio);
+      new ChartRenderer(ctx).render(chart, { x: 0, y: 0, width: rect.width, height: rect.height });
+    }
+
+    return canvas;
+  }
+
+  /**
+   * 创建图片元素
+   */
+  private createImageElement(image: Image, grid: { colLefts: number[]; rowTops: number[] }): HTMLElement {
+    const { left, top, width, height } = this.getFloatingRect(image, grid) ?? { left: 0, top: 0, width: 0, height: 0 };
+
+    let element: HTMLElement;
+    if (ImageUtils.isBrowserRenderable(image.type)) {
+      const img = document.createElement('img');
+      img.src = ImageUtils.toDataUrl(image.type, image.data);
+      img.alt = image.description ?? image.filename ?? '';
+      img.draggable = false;
+      element = img;
+    } else {
+      // 浏览器无法解码的格式显示占位框
+      element = document.createElement('div');
+      element.textContent = image.filename ?? '';
+      element.style.cssText = `
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        border: 1px solid #c0c0c0;
+        color: #999;
+        font-size: 11px;
+        box-sizing: border-box;
+      `;
+    }
+
+    const transforms: string[] = [];
+    if (image.rotation) {
+      transforms.push(`rotate(${image.rotation}deg)`);
+    }
+    if (image.flipH || image.flipV) {
+      transforms.push(`scale(${image.flipH ? -1 : 1}, ${image.flipV ? -1 : 1})`);
+    }
+
+    element.classList.add('excel-floating-image');
+    element.dataset.imageId = image.id;
+    element.style.position = 'absolute';
+    element.style.left = `${left}px`;
+    element.style.top = `${top}px`;
+    element.style.width = `${Math.max(0, width)}px`;
+    element.style.height = `${Math.max(0, height)}px`;
+    if (transforms.length > 0) {
+      element.style.transform = transforms.join(' ');
+    }
+
+    return element;
+  }
+
+  private applyCellStyle(
+    td: HTMLTableCellElement,
+    cell: Cell | undefined,
+    rowHeight: number,
+    tableFormat: TableCellFormat | null = null,
+    cfFormat: ConditionalCellFormat | null = null,
+  ): void {
     const style = cell?.style;
 
     let cssText = `
@@ -800,6 +1187,31 @@ export class DomRenderer {
       vertical-align: middle;
     `;
 
+    // 表格样式 (优先级低于单元格自身格式，写在前面以便被覆盖)
+    if (tableFormat) {
+      if (tableFormat.fill) {
+        cssText += `background-color: ${tableFormat.fill};`;
+      }
+      if (tableFormat.fontColor) {
+        cssText += `color: ${tableFormat.fontColor};`;
+      }
+      if (tableFormat.bold) {
+        cssText += 'font-weight: bold;';
+      }
+      if (tableFormat.borderTop) {
+        cssText += `border-top: 1px solid ${tableFormat.borderTop};`;
+      }
+      if (tableFormat.borderRight) {
+        cssText += `border-right: 1px solid ${tableFormat.borderRight};`;
+      }
+      if (tableFormat.borderBottom) {
+        cssText += `border-bottom: 1px solid ${tableFormat.borderBottom};`;
+      }
+      if (tableFormat.borderLeft) {
+        cssText += `border-left: 1px solid ${tableFormat.borderLeft};`;
+      }
+    }
+
     // 背景色
     if (style?.fill) {
       if (style.fill.pattern !== 'none') {
@@ -819,7 +1231,9 @@ export class DomRenderer {
       if (font.strikethrough) cssText += 'text-decoration: line-through;';
       if (font.size) cssText += `font-size: ${font.size}px;`;
       if (font.name) cssText += `font-family: "${font.name}", ${this.options.defaultFont}, Arial, sans-serif;`;
-      if (font.color) {
+      // 表格内的默认文字颜色由表格样式决定
+      const isDefaultColor = font.color?.auto || (font.color?.theme === 1 && !font.color.tint);
+      if (font.color && !(tableFormat?.fontColor && isDefaultColor)) {
         const color = this.resolveColor(font.color);
         cssText += `color: ${color};`;
       }
@@ -849,7 +1263,246 @@ export class DomRenderer {
       if (border.left) cssText += `border-left: ${this.getBorderStyle(border.left)};`;
     }
 
+    // 条件格式 (优先级最高，写在最后)
+    if (cfFormat) {
+      cssText += this.getConditionalFormatCss(cfFormat);
+    }
+
     td.style.cssText = cssText;
+    if (cfFormat?.icon) {
+      td.dataset.cfIcon = this.getIconGlyph(cfFormat.icon);
+      td.style.setProperty('--cf-icon-color', cfFormat.icon.color);
+    } else {
+      delete td.dataset.cfIcon;
+    }
+  }
+
+  /**
+   * 生成条件格式的 CSS
+   */
+  private getConditionalFormatCss(format: ConditionalCellFormat): string {
+    let cssText = '';
+    if (format.fill) {
+      cssText += `background-color: ${format.fill};`;
+    }
+    if (format.fontColor) {
+      cssText += `color: ${format.fontColor};`;
+    }
+    if (format.bold !== undefined) {
+      cssText += `font-weight: ${format.bold ? 'bold' : 'normal'};`;
+    }
+    if (format.italic !== undefined) {
+      cssText += `font-style: ${format.italic ? 'italic' : 'normal'};`;
+    }
+    if (format.underline !== undefined || format.strikethrough !== undefined) {
+      const lines = [format.underline && 'underline', format.strikethrough && 'line-through'].filter(Boolean);
+      cssText += `text-decoration: ${lines.length > 0 ? lines.join(' ') : 'none'};`;
+    }
+    if (format.borderTop) {
+      cssText += `border-top: 1px solid ${format.borderTop};`;
+    }
+    if (format.borderRight) {
+      cssText += `border-right: 1px solid ${format.borderRight};`;
+    }
+    if (format.borderBottom) {
+      cssText += `border-bottom: 1px solid ${format.borderBottom};`;
+    }
+    if (format.borderLeft) {
+      cssText += `border-left: 1px solid ${format.borderLeft};`;
+    }
+
+    // 数据条使用不重复的背景图绘制，长度由 background-size 控制
+    const bar = format.dataBar;
+    if (bar) {
+      const light = ColorUtils.blendColors(bar.color, '#FFFFFF', 0.9);
+      const end = bar.gradient ? light : bar.color;
+      const direction = bar.rightToLeft ? 'to left' : 'to right';
+      cssText += `background-image: linear-gradient(${direction}, ${bar.color}, ${end});`;
+      cssText += `background-size: ${(bar.length * 100).toFixed(1)}% calc(100% - 4px);`;
+      cssText += `background-position: ${bar.rightToLeft ? 'right' : 'left'} center;`;
+      cssText += 'background-repeat: no-repeat;';
+      if (bar.borderColor) {
+        cssText += `box-shadow: inset 0 0 0 1px ${bar.borderColor};`;
+      }
+    }
+
+    // 不显示值时保留文本内容 (复制、筛选等仍使用单元格值)，只隐藏显示
+    if (format.hideValue) {
+      cssText += 'color: transparent;';
+    }
+    return cssText;
+  }
+
+  /**
+   * 获取条件格式图标对应的字符
+   */
+  private getIconGlyph(icon: ConditionalIcon): string {
+    const level = icon.level ?? 0;
+    switch (icon.shape) {
+      case 'arrowUp': return '\u2191';
+      case 'arrowUpRight': return '\u2197';
+      case 'arrowRight': return '\u2192';
+      case 'arrowDownRight': return '\u2198';
+      case 'arrowDown': return '\u2193';
+      case 'circle': return '\u25CF';
+      case 'diamond': return '\u25C6';
+      case 'triangle': return '\u25B2';
+      case 'check': return '\u2714';
+      case 'cross': return '\u2716';
+      case 'exclamation': return '!';
+      case 'flag': return '\u2691';
+      case 'rating': return '\u2582\u2584\u2586\u2588'.slice(0, Math.max(1, Math.round(level * 4)));
+      case 'quarter': return ['\u25CB', '\u25D4', '\u25D1', '\u25D5', '\u25CF'][Math.round(level * 4)];
+      default: return '';
+    }
+  }
+
+  /**
+   * 设置单元格显示内容 (条件格式的数字格式优先于单元格格式)
+   */
+  private setCellContent(
+    td: HTMLTableCellElement,
+    cell: Cell | undefined,
+    cfFormat: ConditionalCellFormat | null,
+  ): void {
+    if (!cell) {
+      return;
+    }
+    if (cfFormat?.numFmt && (typeof cell.value === 'number' || cell.value instanceof Date)) {
+      td.textContent = FormatUtils.formatValue(cell.value, cfFormat.numFmt, this.date1904);
+    } else {
+      td.textContent = cell.formattedValue ?? cell.text ?? '';
+    }
+  }
+
+  /**
+   * 绘制单元格中的迷你图 (SVG 位于文本下方，坐标使用百分比以适应单元格大小)
+   */
+  private renderSparkline(td: HTMLTableCellElement, shape: SparklineShape | null): void {
+    td.querySelector('svg.excel-sparkline')?.remove();
+    td.classList.toggle('excel-sparkline-cell', shape !== null);
+    if (!shape) {
+      return;
+    }
+
+    const ns = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(ns, 'svg');
+    svg.setAttribute('class', 'excel-sparkline');
+    const percent = (value: number): string => `${(value * 100).toFixed(2)}%`;
+    const append = (tag: string, attrs: Record<string, string>): void => {
+      const el = document.createElementNS(ns, tag);
+      for (const [name, value] of Object.entries(attrs)) {
+        el.setAttribute(name, value);
+      }
+      svg.appendChild(el);
+    };
+
+    for (const bar of shape.bars) {
+      append('rect', {
+        x: percent(bar.x),
+        y: percent(bar.y),
+        width: percent(bar.width),
+        height: percent(bar.height),
+        fill: bar.color,
+      });
+    }
+
+    if (shape.axis) {
+      append('line', {
+        x1: '0',
+        x2: '100%',
+        y1: percent(shape.axis.y),
+        y2: percent(shape.axis.y),
+        stroke: shape.axis.color,
+        'stroke-width': '1',
+      });
+    }
+
+    // 磅转换为像素
+    const lineWidth = Math.max((shape.line?.weight ?? 0.75) * 96 / 72, 1);
+    if (shape.line) {
+      // 百分比坐标不能用于 polyline，逐段绘制
+      const points = shape.line.points;
+      for (let i = 1; i < points.length; i++) {
+        const from = points[i - 1];
+        const to = points[i];
+        if (!from || !to) {
+          continue;
+        }
+        append('line', {
+          x1: percent(from.x),
+          y1: percent(from.y),
+          x2: percent(to.x),
+          y2: percent(to.y),
+          stroke: shape.line.color,
+          'stroke-width': String(lineWidth),
+          'stroke-linecap': 'round',
+        });
+      }
+    }
+
+    const radius = String(Math.max(lineWidth * 1.5, 2));
+    for (const marker of shape.markers) {
+      append('circle', { cx: percent(marker.x), cy: percent(marker.y), r: radius, fill: marker.color });
+    }
+
+    td.appendChild(svg);
+  }
+
+  /**
+   * 安排重新应用条件格式和迷你图 (同一帧内的多次修改只刷新一次)
+   */
+  private scheduleConditionalFormatRefresh(): void {
+    const sheet = this.sheet;
+    if (this.conditionalFormatRefreshPending || (!sheet?.conditionalFormats.length && !sheet?.sparklineGroups.length)) {
+      return;
+    }
+    this.conditionalFormatRefreshPending = true;
+    requestAnimationFrame(() => {
+      this.conditionalFormatRefreshPending = false;
+      this.refreshConditionalFormats();
+    });
+  }
+
+  /**
+   * 重新应用条件格式和迷你图
+   * @description 单元格值修改后，平均值、前 N 项、重复值等规则的结果和迷你图的数据可能变化，
+   * 重新计算规则范围内的单元格并重新绘制迷你图
+   */
+  private refreshConditionalFormats(): void {
+    const sheet = this.sheet;
+    if (!sheet) {
+      return;
+    }
+
+    ConditionalFormatUtils.invalidate(sheet);
+    const colors = this.workbookTheme?.colors;
+    this.cellElements.forEach((td, address) => {
+      const row = Number(td.dataset.row);
+      const col = Number(td.dataset.col);
+      const inRange = ConditionalFormatUtils.isInRange(sheet, row, col);
+      const hasSparkline = SparklineUtils.getSparkline(sheet, row, col) !== null;
+      if ((!inRange && !hasSparkline) || td === this.editingCell?.td) {
+        return;
+      }
+
+      const cell = sheet.cells.get(address);
+      const rowHeight = sheet.rows.get(row)?.height ?? this.options.defaultRowHeight;
+      const tableFormat = TableStyleUtils.getCellFormat(sheet.tables, row, col, colors);
+      const cfFormat = ConditionalFormatUtils.getCellFormat(sheet, row, col, colors, this.date1904);
+
+      // 保留选区高亮
+      const { outline, outlineOffset, boxShadow } = td.style;
+      this.applyCellStyle(td, cell, rowHeight, tableFormat, cfFormat);
+      this.setCellContent(td, cell, cfFormat);
+      this.renderSparkline(td, SparklineUtils.getShape(sheet, row, col, colors, this.sheetResolver));
+      td.style.outline = outline;
+      td.style.outlineOffset = outlineOffset;
+      if (td.classList.contains('selected')) {
+        td.style.boxShadow = boxShadow;
+      }
+      delete td.dataset.originalBg;
+    });
   }
 
   private getBorderStyle(border: { style?: string; color?: any }): string {
@@ -894,7 +1547,7 @@ export class DomRenderer {
     return null;
   }
 
-  private resolveColor(color: any): string {
+  private resolveColor(color: Color | undefined): string {
     if (!color) return '#333';
 
     if (color.rgb) {
@@ -909,22 +1562,10 @@ export class DomRenderer {
       return `#${rgb}`;
     }
     if (color.theme !== undefined) {
-      // Excel 主题色 - Office 2013+ 默认主题
+      // Excel 主题色 - 工作簿主题 (未设置时为 Office 2013+ 默认主题)
       // 0: lt1 (背景1), 1: dk1 (文字1), 2: lt2 (背景2), 3: dk2 (文字2)
       // 4: accent1, 5: accent2, 6: accent3, 7: accent4, 8: accent5, 9: accent6
-      const themeColors = [
-        '#FFFFFF', // 0: lt1 - 浅色背景
-        '#000000', // 1: dk1 - 深色文字
-        '#E7E6E6', // 2: lt2 - 浅色背景2
-        '#44546A', // 3: dk2 - 深色文字2
-        '#4472C4', // 4: accent1 - 蓝色
-        '#ED7D31', // 5: accent2 - 橙色
-        '#A5A5A5', // 6: accent3 - 灰色
-        '#FFC000', // 7: accent4 - 黄色
-        '#5B9BD5', // 8: accent5 - 浅蓝色
-        '#70AD47'  // 9: accent6 - 绿色
-      ];
-      let baseColor = themeColors[color.theme] ?? '#333333';
+      let baseColor = `#${ColorUtils.getThemeColor(color.theme, this.workbookTheme?.colors)}`;
 
       // 处理 tint（色调调整）
       if (color.tint !== undefined && color.tint !== 0) {
@@ -1000,12 +1641,40 @@ export class DomRenderer {
     this.container.dispatchEvent(event);
   }
 
+  /**
+   * 处理超链接点击 (拖拽选中多个单元格时不触发)
+   */
+  private handleLinkClick(hyperlink: Hyperlink, cell: Cell, event: MouseEvent): void {
+    const bounds = this.selectionManager.getSelectionBounds();
+    if (bounds && (bounds.start.row !== bounds.end.row || bounds.start.col !== bounds.end.col)) {
+      return;
+    }
+
+    if (this.onLinkClick) {
+      // 由外部统一处理跳转，阻止单元格内 <a> 的默认导航
+      event.preventDefault();
+      this.onLinkClick(hyperlink, cell, event);
+    }
+  }
+
+  /**
+   * 滚动到指定单元格
+   */
+  scrollToCell(row: number, col: number): void {
+    const td = this.cellElements.get(this.formatAddress(row, col));
+    td?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }
+
   private startEditing(row: number, col: number, td: HTMLTableCellElement, cell: Cell | undefined): void {
     // 如果已在编辑，先结束
     if (this.editingCell) {
       this.finishEditing();
     }
 
+    if (!this.ensureCellsEditable({ start: { row, col }, end: { row, col } })) {
+      return;
+    }
+
     const oldValue = cell?.text ?? td.textContent ?? '';
 
     // 创建输入框
@@ -1058,6 +1727,7 @@ export class DomRenderer {
           cellData.text = newValue;
           cellData.formattedValue = newValue;
         }
+        this.scheduleConditionalFormatRefresh();
       }
 
       // 触发回调
@@ -1094,6 +1764,47 @@ export class DomRenderer {
     }
   }
 
+  /**
+   * 检查区域内的单元格是否都可编辑，存在被工作表保护锁定的单元格时提示并返回 false
+   */
+  private ensureCellsEditable(
+    bounds: { start: { row: number; col: number }; end: { row: number; col: number } },
+  ): boolean {
+    if (!this.sheet) {
+      return true;
+    }
+    const locked = ProtectionUtils.isRangeLocked(this.sheet.protection, bounds, {
+      cells: this.sheet.cells,
+      rows: this.sheet.rows,
+      columns: this.sheet.columns,
+      getCellProtection: cell => cell.style?.protection,
+      getStyleProtection: styleIndex => this.cellStyles[styleIndex]?.protection,
+    });
+    if (locked) {
+      this.showProtectionMessage(ProtectionUtils.LOCKED_CELL_MESSAGE);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 检查工作表保护是否允许操作，不允许时提示并返回 false
+   */
+  private ensureActionAllowed(action: ProtectedAction): boolean {
+    if (ProtectionUtils.isActionAllowed(this.sheet?.protection, action)) {
+      return true;
+    }
+    this.showProtectionMessage(ProtectionUtils.getActionMessage(action));
+    return false;
+  }
+
+  /**
+   * 显示工作表保护提示
+   */
+  private showProtectionMessage(message: string): void {
+    void Dialog.alert({ title: '工作表受保护', content: message });
+  }
+
   setSelection(startRow: number, startCol: number, endRow: number, endCol: number): void {
     this.selectionManager.selectRange({
       start: { row: startRow, col: startCol },
@@ -1110,7 +1821,12 @@ export class DomRenderer {
       this.contextMenu.destroy();
       this.contextMenu = null;
     }
+    if (this.commentPopover) {
+      this.commentPopover.destroy();
+      this.commentPopover = null;
+    }
     this.table = null;
+    this.floatingLayer = null;
     this.sheet = null;
     this.cellElements.clear();
   }
@@ -1141,6 +1857,9 @@ export class DomRenderer {
   // 设置单元格值
   setCellValue(row: number, col: number, value: string): void {
     if (!this.sheet) return;
+    if (!this.ensureCellsEditable({ start: { row, col }, end: { row, col } })) {
+      return;
+    }
 
     const address = this.formatAddress(row, col);
     let cell = this.sheet.cells.get(address);
@@ -1166,6 +1885,7 @@ export class DomRenderer {
     if (td) {
       td.textContent = value;
     }
+    this.scheduleConditionalFormatRefresh();
   }
 
   // 获取总尺寸
@@ -1189,6 +1909,9 @@ export class DomRenderer {
 
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     // 获取源单元格的值
     const sourceAddress = this.formatAddress(this.fillStartCell.row, this.fillStartCell.col);
@@ -1246,6 +1969,9 @@ export class DomRenderer {
   private copySelectedCells(cut: boolean): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds || !this.sheet) return;
+    if (cut && !this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     this.clipboardData = {
       cells: new Map(),
@@ -1327,6 +2053,22 @@ export class DomRenderer {
     const targetRows = isTranspose ? colCount : rowCount;
     const targetCols = isTranspose ? rowCount : colCount;
 
+    // 目标区域 (剪切时还有源区域) 不能包含锁定单元格，粘贴格式需要允许设置单元格格式
+    const target = {
+      start: activeCell,
+      end: { row: activeCell.row + targetRows - 1, col: activeCell.col + targetCols - 1 },
+    };
+    const source = {
+      start: { row: bounds.startRow, col: bounds.startCol },
+      end: { row: bounds.endRow, col: bounds.endCol },
+    };
+    if (mode === 'formats' ? !this.ensureActionAllowed('formatCells') : !this.ensureCellsEditable(target)) {
+      return;
+    }
+    if (isCut && !this.ensureCellsEditable(source)) {
+      return;
+    }
+
     for (let row = 0; row < targetRows; row++) {
       for (let col = 0; col < targetCols; col++) {
         const sourceKey = isTranspose ? `${col},${row}` : `${row},${col}`;
@@ -1381,6 +2123,7 @@ export class DomRenderer {
         }
       }
       this.clipboardData = null;
+      this.scheduleConditionalFormatRefresh();
     }
   }
 
@@ -1405,6 +2148,9 @@ export class DomRenderer {
   private clearSelectedFormats(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
 
     for (let row = bounds.start.row; row <= Math.min(bounds.end.row, 1000); row++) {
       for (let col = bounds.start.col; col <= Math.min(bounds.end.col, 100); col++) {
@@ -1424,6 +2170,9 @@ export class DomRenderer {
   // 插入行
   private insertRows(rowIndex: number, count: number, position: 'above' | 'below'): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('insertRows')) {
+      return;
+    }
     const insertAt = position === 'above' ? rowIndex : rowIndex + 1;
 
     // 移动现有数据
@@ -1445,6 +2194,9 @@ export class DomRenderer {
   // 插入列
   private insertCols(colIndex: number, count: number, position: 'left' | 'right'): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('insertColumns')) {
+      return;
+    }
     const insertAt = position === 'left' ? colIndex : colIndex + 1;
 
     const newCells = new Map<string, typeof this.sheet.cells extends Map<string, infer V> ? V : never>();
@@ -1464,6 +2216,9 @@ export class DomRenderer {
   // 删除行
   private deleteRows(startRow: number, count: number): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('deleteRows')) {
+      return;
+    }
 
     const newCells = new Map<string, typeof this.sheet.cells extends Map<string, infer V> ? V : never>();
     this.sheet.cells.forEach((cell, address) => {
@@ -1483,6 +2238,9 @@ export class DomRenderer {
   // 删除列
   private deleteCols(startCol: number, count: number): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('deleteColumns')) {
+      return;
+    }
 
     const newCells = new Map<string, typeof this.sheet.cells extends Map<string, infer V> ? V : never>();
     this.sheet.cells.forEach((cell, address) => {
@@ -1513,6 +2271,9 @@ export class DomRenderer {
 
   // 隐藏行
   private hideRows(startRow: number, endRow: number): void {
+    if (!this.ensureActionAllowed('formatRows')) {
+      return;
+    }
     for (let row = startRow; row <= endRow; row++) {
       this.hiddenRows.add(row);
     }
@@ -1521,6 +2282,9 @@ export class DomRenderer {
 
   // 隐藏列
   private hideCols(startCol: number, endCol: number): void {
+    if (!this.ensureActionAllowed('formatColumns')) {
+      return;
+    }
     for (let col = startCol; col <= endCol; col++) {
       this.hiddenCols.add(col);
     }
@@ -1529,12 +2293,18 @@ export class DomRenderer {
 
   // 显示所有行
   private showAllRows(): void {
+    if (!this.ensureActionAllowed('formatRows')) {
+      return;
+    }
     this.hiddenRows.clear();
     this.render();
   }
 
   // 显示所有列
   private showAllCols(): void {
+    if (!this.ensureActionAllowed('formatColumns')) {
+      return;
+    }
     this.hiddenCols.clear();
     this.render();
   }
@@ -1542,6 +2312,9 @@ export class DomRenderer {
   // 排序范围
   private sortRange(bounds: { start: { row: number; col: number }; end: { row: number; col: number } }, order: 'asc' | 'desc'): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('sort') || !this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     // 收集数据
     const rows: Array<{ row: number; values: string[] }> = [];
@@ -1579,14 +2352,19 @@ export class DomRenderer {
   // 合并单元格
   private mergeCells(bounds: { start: { row: number; col: number }; end: { row: number; col: number } }): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
 
     const mergeKey = this.formatAddress(bounds.start.row, bounds.start.col);
-    this.mergedCells.set(mergeKey, {
+    const merge = {
       startRow: bounds.start.row,
       startCol: bounds.start.col,
       endRow: bounds.end.row,
       endCol: bounds.end.col
-    });
+    };
+    this.mergedCells.set(mergeKey, merge);
+    this.syncMergeCells(merge, true);
 
     // 获取左上角单元格元素
     const firstAddress = this.formatAddress(bounds.start.row, bounds.start.col);
@@ -1611,8 +2389,14 @@ export class DomRenderer {
 
   // 取消合并单元格
   private unmergeCells(bounds: { start: { row: number; col: number }; end: { row: number; col: number } }): void {
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
     const mergeKey = this.formatAddress(bounds.start.row, bounds.start.col);
-    const merge = this.mergedCells.get(mergeKey);
+    // 文件中的合并区域只记录在工作表数据中
+    const merge = this.mergedCells.get(mergeKey) ?? this.sheet?.mergeCells.find(
+      (item) => item.startRow === bounds.start.row && item.startCol === bounds.start.col,
+    );
     if (!merge) return;
 
     const firstTd = this.cellElements.get(mergeKey);
@@ -1632,6 +2416,47 @@ export class DomRenderer {
     }
 
     this.mergedCells.delete(mergeKey);
+    this.syncMergeCells(merge, false);
+  }
+
+  /**
+   * 同步工作表数据中的合并区域和单元格的合并标记
+   */
+  private syncMergeCells(
+    merge: { startRow: number; startCol: number; endRow: number; endCol: number },
+    merged: boolean,
+  ): void {
+    if (!this.sheet) {
+      return;
+    }
+    const { startRow, startCol, endRow, endCol } = merge;
+
+    this.sheet.mergeCells = this.sheet.mergeCells.filter(
+      (item) => item.startRow !== startRow || item.startCol !== startCol,
+    );
+    if (merged) {
+      const ref = `${this.formatAddress(startRow, startCol)}:${this.formatAddress(endRow, endCol)}`;
+      this.sheet.mergeCells.push({ ref, startRow, startCol, endRow, endCol });
+    }
+
+    const range = { start: { row: startRow, col: startCol }, end: { row: endRow, col: endCol } };
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        const cell = this.sheet.cells.get(this.formatAddress(row, col));
+        if (!cell) {
+          continue;
+        }
+        if (merged) {
+          cell.isMerged = true;
+          cell.merge = range;
+          cell.isMergeOrigin = row === startRow && col === startCol ? true : undefined;
+        } else {
+          cell.isMerged = undefined;
+          cell.merge = undefined;
+          cell.isMergeOrigin = undefined;
+        }
+      }
+    }
   }
 
   // ==================== 工具栏功能 ====================
@@ -1642,6 +2467,9 @@ export class DomRenderer {
   applyFormat(property: string, value: string): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
 
     // 将 camelCase 转换为 kebab-case
     const cssProperty = property.replace(/([A-Z])/g, '-$1').toLowerCase();
@@ -1652,11 +2480,9 @@ export class DomRenderer {
         if (td) {
           // 切换样式（如果已有则移除）
           const currentValue = td.style.getPropertyValue(cssProperty) || (td.style as unknown as Record<string, string>)[property];
-          if (currentValue === value) {
-            (td.style as unknown as Record<string, string>)[property] = '';
-          } else {
-            (td.style as unknown as Record<string, string>)[property] = value;
-          }
+          const newValue = currentValue === value ? '' : value;
+          (td.style as unknown as Record<string, string>)[property] = newValue;
+          this.updateCellStyle(row, col, property, newValue);
         }
       }
     }
@@ -1668,6 +2494,9 @@ export class DomRenderer {
   applyNumberFormat(format: 'percent' | 'currency' | 'date'): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds || !this.sheet) return;
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
 
     for (let row = bounds.start.row; row <= Math.min(bounds.end.row, 1000); row++) {
       for (let col = bounds.start.col; col <= Math.min(bounds.end.col, 100); col++) {
@@ -1688,18 +2517,89 @@ export class DomRenderer {
               case 'date':
                 // Excel 日期序列号转换
                 if (num > 0) {
-                  const date = new Date((num - 25569) * 86400 * 1000);
+                  const date = FormatUtils.excelSerialToDate(num, this.date1904);
                   formatted = date.toLocaleDateString('zh-CN');
                 }
                 break;
             }
             td.textContent = formatted;
+            this.updateCellStyle(row, col, 'numFmt', NUMBER_FORMAT_CODES[format]);
           }
         }
       }
     }
   }
 
+  /**
+   * 将工具栏设置的格式写入单元格样式 (保存文件时写入)
+   * @description 样式对象可能被多个单元格共享，修改时复制
+   * @param property CSS 属性名 (camelCase) 或 numFmt，值为空表示清除
+   */
+  private updateCellStyle(row: number, col: number, property: string, value: string): void {
+    if (!this.sheet) {
+      return;
+    }
+    const address = this.formatAddress(row, col);
+    let cell = this.sheet.cells.get(address);
+    if (!cell) {
+      if (!value) {
+        return;
+      }
+      cell = { address, row, col, value: null, type: 'empty', text: '' };
+      this.sheet.cells.set(address, cell);
+    }
+
+    const style: CellStyle = { ...cell.style };
+    const font = { ...style.font };
+    const alignment = { ...style.alignment };
+    const rgb = /^#?([0-9a-f]{6})$/i.exec(value)?.[1]?.toUpperCase();
+
+    switch (property) {
+      case 'fontWeight':
+        font.bold = value === 'bold';
+        break;
+      case 'fontStyle':
+        font.italic = value === 'italic';
+        break;
+      case 'textDecoration':
+        font.underline = value.includes('underline') ? 'single' : 'none';
+        font.strikethrough = value.includes('line-through');
+        break;
+      case 'color':
+        font.color = rgb ? { rgb } : undefined;
+        break;
+      case 'fontFamily':
+        font.name = value || undefined;
+        break;
+      case 'fontSize':
+        font.size = value ? parseFloat(value) : undefined;
+        break;
+      case 'textAlign':
+        alignment.horizontal = value ? value as NonNullable<typeof alignment.horizontal> : undefined;
+        break;
+      case 'verticalAlign':
+        if (value === 'middle') {
+          alignment.vertical = 'center';
+        } else {
+          alignment.vertical = value ? value as NonNullable<typeof alignment.vertical> : undefined;
+        }
+        break;
+      case 'backgroundColor':
+        style.fill = rgb ? { type: 'pattern', pattern: 'solid', fgColor: { rgb } } : undefined;
+        break;
+      case 'numFmt':
+        style.numFmt = value;
+        style.numFmtId = undefined;
+        break;
+      default:
+        return;
+    }
+
+    style.font = font;
+    style.alignment = alignment;
+    cell.style = style;
+  }
+
   /**
    * 合并选中的单元格
    */
@@ -1714,11 +2614,34 @@ export class DomRenderer {
    * 插入链接
    */
   insertLink(url: string): void {
+    if (!this.ensureActionAllowed('insertHyperlinks')) {
+      return;
+    }
     const activeCell = this.selectionManager.getActiveCell();
-    const td = this.cellElements.get(this.formatAddress(activeCell.row, activeCell.col));
+    const address = this.formatAddress(activeCell.row, activeCell.col);
+    const td = this.cellElements.get(address);
+    const type = HyperlinkUtils.classify(url);
+    const hyperlink: Hyperlink = type === 'internal'
+      ? { target: url.replace(/^#/, ''), type, location: url.replace(/^#/, '') }
+      : { target: url, type };
+
+    // 写入工作表数据
+    if (this.sheet) {
+      this.sheet.hyperlinks.set(address, hyperlink);
+      const cell = this.sheet.cells.get(address);
+      if (cell) {
+        cell.hyperlink = hyperlink;
+      }
+    }
+
     if (td) {
       const link = document.createElement('a');
-      link.href = url;
+      // 不安全的链接不设置 href，避免点击时执行
+      if (type === 'internal') {
+        link.href = url;
+      } else if (type !== 'unsafe') {
+        link.href = HyperlinkUtils.toUrl(hyperlink);
+      }
       link.textContent = td.textContent || url;
       link.target = '_blank';
       link.style.color = '#1a73e8';
@@ -1743,39 +2666,200 @@ export class DomRenderer {
     }
   }
 
+  /**
+   * 根据选区数据插入图表
+   * @description 首行为文本时作为系列名称，首列为文本时作为分类标签，图表放在选区右侧
+   */
+  insertChart(type: ChartType): void {
+    const bounds = this.selectionManager.getSelectionBounds();
+    if (!bounds || !this.sheet) {
+      return;
+    }
+
+    const startRow = bounds.start.row;
+    const startCol = bounds.start.col;
+    const endRow = Math.min(bounds.end.row, startRow + 1000);
+    const endCol = Math.min(bounds.end.col, startCol + 100);
+
+    const getNumber = (row: number, col: number): number | null => {
+      const value = this.sheet?.cells.get(this.formatAddress(row, col))?.value;
+      if (typeof value === 'number') {
+        return value;
+      }
+      if (value instanceof Date) {
+        return FormatUtils.dateToExcelSerial(value);
+      }
+      return null;
+    };
+    const getText = (row: number, col: number): string =>
+      this.sheet?.cells.get(this.formatAddress(row, col))?.text ?? '';
+    const isTextCell = (row: number, col: number): boolean =>
+      getText(row, col) !== '' && getNumber(row, col) === null;
+
+    // 判断是否包含标题行和分类列
+    let hasHeaderRow = false;
+    for (let col = startCol; col <= endCol; col++) {
+      if (isTextCell(startRow, col)) {
+        hasHeaderRow = true;
+        break;
+      }
+    }
+    const dataStartRow = hasHeaderRow && endRow > startRow ? startRow + 1 : startRow;
+    let hasCategoryCol = false;
+    if (endCol > startCol) {
+      for (let row = dataStartRow; row <= endRow; row++) {
+        if (isTextCell(row, startCol)) {
+          hasCategoryCol = true;
+          break;
+        }
+      }
+      // 散点图的首列作为 X 值
+      if (type === 'scatter') {
+        hasCategoryCol = true;
+      }
+    }
+    const dataStartCol = hasCategoryCol ? startCol + 1 : startCol;
+
+    const categoryCache: string[] = [];
+    const xValueCache: Array<number | null> = [];
+    for (let row = dataStartRow; row <= endRow; row++) {
+      categoryCache.push(hasCategoryCol ? getText(row, startCol) : String(row - dataStartRow + 1));
+      xValueCache.push(hasCategoryCol ? getNumber(row, startCol) : row - dataStartRow + 1);
+    }
+
+    const series: ChartSeries[] = [];
+    for (let col = dataStartCol; col <= endCol; col++) {
+      const valueCache: Array<number | null> = [];
+      for (let row = dataStartRow; row <= endRow; row++) {
+        valueCache.push(getNumber(row, col));
+      }
+      series.push({
+        name: hasHeaderRow ? getText(startRow, col) : `系列${col - dataStartCol + 1}`,
+        values: '',
+        categoryCache,
+        valueCache,
+        xValueCache: type === 'scatter' ? xValueCache : undefined,
+      });
+    }
+    if (series.length === 0) {
+      return;
+    }
+
+    const isPie = type === 'pie' || type === 'doughnut';
+    const chart: Chart = {
+      id: `${this.sheet.id}-chart${this.sheet.charts.length + 1}`,
+      type,
+      title: series.length === 1 ? series[0].name : undefined,
+      series: isPie ? series.slice(0, 1) : series,
+      varyColors: isPie,
+      legendPosition: isPie ? 'right' : series.length > 1 ? 'bottom' : 'none',
+      positionType: 'oneCell',
+      anchor: {
+        from: { col: endCol + 2, colOff: 0, row: startRow, rowOff: 0 },
+      },
+      width: 480,
+      height: 288,
+    };
+    if (type === 'scatter') {
+      chart.series.forEach(s => {
+        s.line = { width: 0 };
+      });
+    }
+
+    this.sheet.charts.push(chart);
+    this.render();
+  }
+
+  /**
+   * 显示插入图表对话框
+   */
+  showInsertChartDialog(): void {
+    this.createDialog('插入图表', `
+      <div>
+        <label style="display: block; margin-bottom: 4px; font-weight: 500;">图表类型:</label>
+        <select id="chartType" style="width: 100%; padding: 8px; border: 1px solid #ddd; border-radius: 4px;">
+          <option value="column">柱形图</option>
+          <option value="bar">条形图</option>
+          <option value="line">折线图</option>
+          <option value="area">面积图</option>
+          <option value="pie">饼图</option>
+          <option value="doughnut">圆环图</option>
+          <option value="scatter">散点图</option>
+        </select>
+      </div>
+    `, () => {
+      const type = (document.getElementById('chartType') as HTMLSelectElement).value as ChartType;
+      this.insertChart(type);
+    });
+  }
+
   /**
    * 插入批注
    */
   insertComment(): void {
-    const comment = prompt('请输入批注内容:');
-    if (!comment) return;
+    const text = prompt('请输入批注内容:');
+    if (!text) {
+      return;
+    }
 
     const activeCell = this.selectionManager.getActiveCell();
-    const td = this.cellElements.get(this.formatAddress(activeCell.row, activeCell.col));
-    if (td) {
-      td.title = comment;
-      // 添加批注标记
-      const marker = document.createElement('div');
-      marker.style.cssText = `
-        position: absolute;
-        top: 0;
-        right: 0;
-        width: 0;
-        height: 0;
-        border-left: 6px solid transparent;
-        border-top: 6px solid #ff6b6b;
-      `;
-      td.style.position = 'relative';
-      td.appendChild(marker);
+    const address = this.formatAddress(activeCell.row, activeCell.col);
+    const comment: Comment = { ref: address, text };
+
+    // 写入工作表数据
+    if (this.sheet) {
+      this.sheet.comments.set(address, comment);
+      const cell = this.sheet.cells.get(address);
+      if (cell) {
+        cell.comment = comment;
+      }
+    }
+
+    const td = this.cellElements.get(address);
+    if (td && !td.querySelector('.excel-comment-indicator')) {
+      this.addCommentIndicator(td);
     }
   }
 
+  /**
+   * 获取单元格批注
+   */
+  private getComment(address: string): Comment | undefined {
+    if (!this.sheet) {
+      return undefined;
+    }
+    return this.sheet.cells.get(address)?.comment ?? this.sheet.comments.get(address);
+  }
+
+  /**
+   * 添加批注标记 (右上角红色三角)
+   */
+  private addCommentIndicator(td: HTMLTableCellElement): void {
+    const marker = document.createElement('div');
+    marker.className = 'excel-comment-indicator';
+    marker.style.cssText = `
+      position: absolute;
+      top: 0;
+      right: 0;
+      width: 0;
+      height: 0;
+      border-left: 6px solid transparent;
+      border-top: 6px solid #ff0000;
+      pointer-events: none;
+    `;
+    td.style.position = 'relative';
+    td.appendChild(marker);
+  }
+
   /**
    * 切换筛选
    */
   toggleFilter(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('autoFilter')) {
+      return;
+    }
 
     // 在第一行添加筛选下拉按钮
     for (let col = bounds.start.col; col <= Math.min(bounds.end.col, 100); col++) {
@@ -1848,6 +2932,9 @@ export class DomRenderer {
   showSortDialog(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('sort') || !this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     const order = confirm('点击"确定"升序排列，点击"取消"降序排列') ? 'asc' : 'desc';
     this.sortRange(bounds, order);
@@ -1859,6 +2946,9 @@ export class DomRenderer {
    * 横向合并（每行单独合并）
    */
   private mergeHorizontal(bounds: { start: { row: number; col: number }; end: { row: number; col: number } }): void {
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
     for (let row = bounds.start.row; row <= bounds.end.row; row++) {
       this.mergeCells({
         start: { row, col: bounds.start.col },
@@ -1871,6 +2961,9 @@ export class DomRenderer {
    * 纵向合并（每列单独合并）
    */
   private mergeVertical(bounds: { start: { row: number; col: number }; end: { row: number; col: number } }): void {
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
     for (let col = bounds.start.col; col <= bounds.end.col; col++) {
       this.mergeCells({
         start: { row: bounds.start.row, col },
@@ -1906,6 +2999,9 @@ export class DomRenderer {
   private showRowHeightDialog(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('formatRows')) {
+      return;
+    }
 
     const currentHeight = this.options.defaultRowHeight;
     const input = prompt(`设置行高 (当前: ${currentHeight}px):`, String(currentHeight));
@@ -1949,6 +3045,9 @@ export class DomRenderer {
   private showColumnWidthDialog(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('formatColumns')) {
+      return;
+    }
 
     const currentWidth = this.options.defaultColWidth;
     const input = prompt(`设置列宽 (当前: ${currentWidth}px):`, String(currentWidth));
@@ -1969,6 +3068,9 @@ export class DomRenderer {
    * 清除所有筛选
    */
   private clearAllFilters(): void {
+    if (!this.ensureActionAllowed('autoFilter')) {
+      return;
+    }
     const filterBtns = this.tableContainer?.querySelectorAll('.filter-btn');
     filterBtns?.forEach(btn => btn.remove());
 
@@ -1982,6 +3084,9 @@ export class DomRenderer {
   private showFormatCellsDialog(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('formatCells')) {
+      return;
+    }
 
     const dialog = this.createDialog('设置单元格格式', `
       <div style="display: flex; flex-direction: column; gap: 12px;">
@@ -2077,6 +3182,9 @@ export class DomRenderer {
    * 显示插入链接对话框
    */
   private showInsertLinkDialog(): void {
+    if (!this.ensureActionAllowed('insertHyperlinks')) {
+      return;
+    }
     const dialog = this.createDialog('插入链接', `
       <div style="display: flex; flex-direction: column; gap: 12px;">
         <div>
@@ -2248,6 +3356,36 @@ export class DomRenderer {
     });
   }
 
+  /**
+   * 为工作表中的列表验证添加下拉指示器
+   * @description 只处理已渲染的单元格 (整列范围按实际数据范围裁剪)
+   */
+  private renderValidationDropdowns(maxRow: number, maxCol: number): void {
+    if (!this.sheet) {
+      return;
+    }
+
+    for (const validation of this.sheet.dataValidations) {
+      const values = validation.listValues;
+      if (validation.type !== 'list' || validation.showDropDown === false || !values?.length) {
+        continue;
+      }
+      for (const ref of validation.ranges) {
+        let range: ReturnType<typeof XmlUtils.parseRange>;
+        try {
+          range = XmlUtils.parseRange(ref.replace(/\$/g, ''));
+        } catch {
+          continue;
+        }
+        for (let row = range.start.row; row <= Math.min(range.end.row, maxRow); row++) {
+          for (let col = range.start.col; col <= Math.min(range.end.col, maxCol); col++) {
+            this.addDropdownIndicator(row, col, values);
+          }
+        }
+      }
+    }
+  }
+
   /**
    * 添加下拉指示器
    */
@@ -2529,6 +3667,9 @@ export class DomRenderer {
   private showCustomSortDialog(): void {
     const bounds = this.selectionManager.getSelectionBounds();
     if (!bounds) return;
+    if (!this.ensureActionAllowed('sort') || !this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     const colCount = bounds.end.col - bounds.start.col + 1;
     let colOptions = '';
@@ -2577,6 +3718,9 @@ export class DomRenderer {
    */
   private sortRangeByColumn(bounds: { start: { row: number; col: number }; end: { row: number; col: number } }, sortCol: number, order: 'asc' | 'desc'): void {
     if (!this.sheet) return;
+    if (!this.ensureActionAllowed('sort') || !this.ensureCellsEditable(bounds)) {
+      return;
+    }
 
     const rows: { row: number; values: string[]; sortValue: string }[] = [];
 
@@ -12,11 +12,26 @@ import type {
   FreezePane,
   RenderOptions,
   RenderTheme,
-  Color
+  Color,
+  Comment,
+  Image,
+  Chart,
+  Theme,
+  TableCellFormat,
+  ConditionalCellFormat,
+  ConditionalIcon,
 } from '../types';
 import { DEFAULT_RENDER_OPTIONS, RENDER_THEMES } from '../types';
 import { ColorUtils } from '../utils/ColorUtils';
 import { FormatUtils } from '../utils/FormatUtils';
+import { ImageUtils } from '../utils/ImageUtils';
+import { TableStyleUtils } from '../utils/TableStyleUtils';
+import { FormulaUtils } from '../utils/FormulaUtils';
+import { ProtectionUtils } from '../utils/ProtectionUtils';
+import { ConditionalFormatUtils } from '../utils/ConditionalFormatUtils';
+import { SparklineUtils, type SparklineShape, type SparklineSheetResolver } from '../utils/SparklineUtils';
+import { CommentPopover } from '../core/ui/CommentPopover';
+import { ChartRenderer } from './ChartRenderer';
 
 /**
  * 视口信息
@@ -93,9 +108,24 @@ export class SheetRenderer {
   // 悬停
   private hoverCell: { row: number; col: number } | null = null;
 
+  // 工作簿主题
+  private workbookTheme: Theme | undefined;
+
+  // 是否使用 1904 日期系统 (条件格式中的日期比较和数字格式)
+  private date1904 = false;
+
   // 主题颜色缓存
   private themeColors: Map<number, string> = new Map();
 
+  // 按名称查找工作表 (迷你图引用其他工作表的数据)
+  private sheetResolver: SparklineSheetResolver | undefined;
+
+  // 批注浮层
+  private commentPopover: CommentPopover | null = null;
+
+  // 图片元素缓存
+  private imageCache: Map<string, HTMLImageElement> = new Map();
+
   constructor(canvas: HTMLCanvasElement, options: Partial<RenderOptions> = {}) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d');
@@ -161,9 +191,35 @@ export class SheetRenderer {
    */
   setSheet(sheet: Sheet): void {
     this.sheet = sheet;
+    this.imageCache.clear();
+    ConditionalFormatUtils.invalidate(sheet);
+    SparklineUtils.invalidate(sheet);
+    this.commentPopover?.hide();
     this.calculateDimensions();
   }
 
+  /**
+   * 设置工作簿主题 (用于解析主题颜色和表格样式)
+   */
+  setWorkbookTheme(theme: Theme | undefined): void {
+    this.workbookTheme = theme;
+    this.themeColors.clear();
+  }
+
+  /**
+   * 设置工作簿的日期系统
+   */
+  setDate1904(date1904: boolean): void {
+    this.date1904 = date1904;
+  }
+
+  /**
+   * 设置按名称查找工作表的方法 (用于读取迷你图引用的其他工作表数据)
+   */
+  setSheetResolver(resolver: SparklineSheetResolver | undefined): void {
+    this.sheetResolver = resolver;
+  }
+
   /**
    * 更新选项
    */
@@ -201,6 +257,20 @@ export class SheetRenderer {
       if (cell.col > maxCol) maxCol = cell.col;
     });
 
+    // 浮动图片和图表所在区域也需要可以滚动到
+    const anchors = [
+      ...this.sheet.images.map(image => image.anchor),
+      ...this.sheet.charts.map(chart => chart.anchor),
+    ];
+    anchors.forEach((anchor) => {
+      if (!anchor) {
+        return;
+      }
+      const end = anchor.to ?? anchor.from;
+      maxRow = Math.max(maxRow, end.row);
+      maxCol = Math.max(maxCol, end.col);
+    });
+
     // 至少显示一定数量的行列
     maxRow = Math.max(maxRow, 50);
     maxCol = Math.max(maxCol, 20);
@@ -353,7 +423,11 @@ export class SheetRenderer {
    * 设置悬停单元格
    */
   setHoverCell(row: number, col: number): void {
+    if (this.hoverCell?.row === row && this.hoverCell?.col === col) {
+      return;
+    }
     this.hoverCell = { row, col };
+    this.updateCommentPopover();
   }
 
   /**
@@ -361,23 +435,52 @@ export class SheetRenderer {
    */
   clearHoverCell(): void {
     this.hoverCell = null;
+    this.commentPopover?.hide();
   }
 
   /**
-   * 渲染
+   * 获取单元格批注
    */
-  render(): void {
-    if (!this.sheet) return;
+  getComment(row: number, col: number): Comment | undefined {
+    if (!this.sheet) {
+      return undefined;
+    }
+    const address = this.formatAddress(row, col);
+    return this.sheet.cells.get(address)?.comment ?? this.sheet.comments.get(address);
+  }
 
+  /**
+   * 根据悬停单元格显示或隐藏批注浮层
+   */
+  private updateCommentPopover(): void {
+    const comment = this.hoverCell ? this.getComment(this.hoverCell.row, this.hoverCell.col) : undefined;
+    if (!this.hoverCell || !comment) {
+      this.commentPopover?.hide();
+      return;
+    }
+
+    const { row, col } = this.hoverCell;
+    const bounds = this.getCellBounds(this.createRenderContext(), row, col, false, false);
     const rect = this.canvas.getBoundingClientRect();
-    const width = rect.width;
-    const height = rect.height;
 
-    // 确保每次渲染时重置变换矩阵
-    this.ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+    if (!this.commentPopover) {
+      this.commentPopover = new CommentPopover();
+    }
+    this.commentPopover.show(comment, {
+      left: rect.left + bounds.x,
+      top: rect.top + bounds.y,
+      right: rect.left + bounds.x + bounds.width,
+      bottom: rect.top + bounds.y + bounds.height,
+    });
+  }
 
-    const frozenRows = this.sheet.freezePane?.rows ?? 0;
-    const frozenCols = this.sheet.freezePane?.cols ?? 0;
+  /**
+   * 创建渲染上下文
+   */
+  private createRenderContext(): RenderContext {
+    const rect = this.canvas.getBoundingClientRect();
+    const frozenRows = this.sheet?.freezePane?.rows ?? 0;
+    const frozenCols = this.sheet?.freezePane?.cols ?? 0;
     const { zoom } = this.options;
 
     let frozenRowsHeight = 0;
@@ -390,19 +493,37 @@ export class SheetRenderer {
       frozenColsWidth += this.colWidths.get(i) ?? this.options.defaultColWidth * zoom;
     }
 
-    const renderCtx: RenderContext = {
+    return {
       ctx: this.ctx,
       dpr: this.dpr,
-      width,
-      height,
+      width: rect.width,
+      height: rect.height,
       theme: this.theme,
       options: this.options,
       viewport: this.viewport,
       rowPositions: this.rowPositions,
       colPositions: this.colPositions,
       frozenRowsHeight,
-      frozenColsWidth
+      frozenColsWidth,
     };
+  }
+
+  /**
+   * 渲染
+   */
+  render(): void {
+    if (!this.sheet) {
+      return;
+    }
+
+    // 确保每次渲染时重置变换矩阵
+    this.ctx.setTransform(this.dpr, 0, 0, this.dpr, 0, 0);
+
+    const frozenRows = this.sheet.freezePane?.rows ?? 0;
+    const frozenCols = this.sheet.freezePane?.cols ?? 0;
+
+    const renderCtx = this.createRenderContext();
+    const { width, height } = renderCtx;
 
     // 清空画布（使用CSS尺寸，因为已经应用了dpr缩放）
     this.ctx.fillStyle = this.theme.backgroundColor;
@@ -431,6 +552,11 @@ export class SheetRenderer {
       this.renderGridLines(renderCtx);
     }
 
+    // 渲染浮动图片和图表
+    if (this.sheet.images.length > 0 || this.sheet.charts.length > 0) {
+      this.renderImages(renderCtx, frozenRows, frozenCols);
+    }
+
     // 渲染选区
     if (this.selection) {
       this.renderSelection(renderCtx);
@@ -555,7 +681,16 @@ export class SheetRenderer {
           );
         }
 
-        this.renderCell(renderCtx, cell, cellBounds);
+        const colors = this.workbookTheme?.colors;
+        const tableFormat = TableStyleUtils.getCellFormat(this.sheet.tables, row, col, colors);
+        const cfFormat = ConditionalFormatUtils.getCellFormat(this.sheet, row, col, colors, this.date1904);
+        const sparkline = SparklineUtils.getShape(this.sheet, row, col, colors, this.sheetResolver);
+        this.renderCell(renderCtx, cell, cellBounds, tableFormat, cfFormat, sparkline);
+
+        // 渲染批注标记
+        if (cell?.comment ?? this.sheet.comments.get(address)) {
+          this.renderCommentIndicator(ctx, cellBounds, options.zoom);
+        }
       }
     }
 
@@ -568,45 +703,72 @@ export class SheetRenderer {
   private renderCell(
     renderCtx: RenderContext,
     cell: Cell | undefined,
-    bounds: CellBounds
+    bounds: CellBounds,
+    tableFormat: TableCellFormat | null = null,
+    cfFormat: ConditionalCellFormat | null = null,
+    sparkline: SparklineShape | null = null,
   ): void {
     const { ctx, theme, options } = renderCtx;
     const { cellPadding } = options;
 
-    // 渲染背景
-    if (cell?.style?.fill && cell.style.fill.pattern !== 'none') {
-      const bgColor = this.resolveFillColor(cell.style.fill);
-      if (bgColor) {
-        ctx.fillStyle = bgColor;
-        ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    // 渲染背景 (条件格式优先于单元格自身填充，单元格自身填充优先于表格样式)
+    const cellFill = cell?.style?.fill && cell.style.fill.pattern !== 'none'
+      ? this.resolveFillColor(cell.style.fill)
+      : null;
+    const bgColor = cfFormat?.fill ?? cellFill ?? tableFormat?.fill;
+    if (bgColor) {
+      ctx.fillStyle = bgColor;
+      ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    }
+
+    // 渲染数据条和图标
+    if (cfFormat?.dataBar) {
+      this.renderDataBar(ctx, bounds, cfFormat.dataBar, options.zoom);
+    }
+    let iconWidth = 0;
+    if (cfFormat?.icon) {
+      const size = Math.min(bounds.height - 4 * options.zoom, 16 * options.zoom, bounds.width);
+      if (size > 0) {
+        const iconY = bounds.y + (bounds.height - size) / 2;
+        this.renderConditionalIcon(ctx, cfFormat.icon, bounds.x + 2 * options.zoom, iconY, size);
+        iconWidth = size + 2 * options.zoom;
       }
     }
 
+    // 渲染迷你图 (位于文本下方)
+    if (sparkline) {
+      this.renderSparkline(ctx, bounds, sparkline, options.zoom);
+    }
+
     // 渲染文本
-    if (cell && cell.text) {
+    if (cell?.text && !cfFormat?.hideValue) {
       const style = cell.style;
       const font = style?.font;
 
       // 设置字体 - 使用整数字体大小以保持清晰
       const fontSize = Math.round((font?.size ?? options.defaultFontSize) * options.zoom);
       const fontFamily = font?.name ?? options.defaultFont;
-      const fontWeight = font?.bold ? 'bold' : 'normal';
-      const fontStyle = font?.italic ? 'italic' : 'normal';
+      const fontWeight = cfFormat?.bold ?? (font?.bold === true || tableFormat?.bold === true) ? 'bold' : 'normal';
+      const fontStyle = cfFormat?.italic ?? font?.italic ? 'italic' : 'normal';
 
       ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px "${fontFamily}", Arial, sans-serif`;
       ctx.textBaseline = 'middle';
 
-      // 设置颜色
-      if (font?.color) {
+      // 设置颜色 (默认字体颜色时使用表格样式颜色)
+      if (cfFormat?.fontColor) {
+        ctx.fillStyle = cfFormat.fontColor;
+      } else if (tableFormat?.fontColor && (!font?.color || this.isDefaultFontColor(font.color))) {
+        ctx.fillStyle = tableFormat.fontColor;
+      } else if (font?.color) {
         ctx.fillStyle = this.resolveColor(font.color);
       } else {
         ctx.fillStyle = theme.defaultTextColor;
       }
 
       // 计算文本位置 - 使用像素对齐（取整）
-      const textX = Math.round(bounds.x + cellPadding);
+      const textX = Math.round(bounds.x + cellPadding + iconWidth);
       const textY = Math.round(bounds.y + bounds.height / 2);
-      const maxWidth = bounds.width - cellPadding * 2;
+      const maxWidth = bounds.width - cellPadding * 2 - iconWidth;
 
       // 对齐
       const alignment = style?.alignment;
@@ -622,15 +784,19 @@ export class SheetRenderer {
         ctx.textAlign = 'left';
       }
 
-      // 渲染文本
-      const displayText = options.showFormulas && cell.formula
-        ? `=${cell.formula.text}`
+      // 渲染文本 (受保护工作表中隐藏的公式显示计算结果)
+      const formulaHidden = ProtectionUtils.isFormulaHidden(this.sheet?.protection, style?.protection);
+      let displayText = options.showFormulas && cell.formula && !formulaHidden
+        ? FormulaUtils.toDisplayText(cell.formula)
         : (cell.formattedValue ?? cell.text);
+      if (cfFormat?.numFmt && !options.showFormulas && (typeof cell.value === 'number' || cell.value instanceof Date)) {
+        displayText = FormatUtils.formatValue(cell.value, cfFormat.numFmt, this.date1904);
+      }
 
       ctx.fillText(displayText, x, textY, maxWidth);
 
       // 渲染下划线
-      if (font?.underline && font.underline !== 'none') {
+      if (cfFormat?.underline ?? (font?.underline && font.underline !== 'none')) {
         const metrics = ctx.measureText(displayText);
         const textWidth = Math.min(metrics.width, maxWidth);
         let lineX = x;
@@ -647,7 +813,7 @@ export class SheetRenderer {
       }
 
       // 渲染删除线
-      if (font?.strikethrough) {
+      if (cfFormat?.strikethrough ?? font?.strikethrough) {
         const metrics = ctx.measureText(displayText);
         const textWidth = Math.min(metrics.width, maxWidth);
         let lineX = x;
@@ -668,9 +834,523 @@ export class SheetRenderer {
     }
 
     // 渲染边框
+    if (tableFormat) {
+      this.renderTableBorder(ctx, bounds, tableFormat);
+    }
     if (cell?.style?.border) {
       this.renderCellBorder(ctx, bounds, cell.style.border);
     }
+    if (cfFormat) {
+      this.renderTableBorder(ctx, bounds, cfFormat);
+    }
+  }
+
+  /**
+   * 渲染条件格式数据条
+   */
+  private renderDataBar(
+    ctx: CanvasRenderingContext2D,
+    bounds: CellBounds,
+    dataBar: NonNullable<ConditionalCellFormat['dataBar']>,
+    zoom: number,
+  ): void {
+    const padding = 2 * zoom;
+    const width = (bounds.width - padding * 2) * dataBar.length;
+    const height = bounds.height - padding * 2;
+    if (width <= 0 || height <= 0) {
+      return;
+    }
+
+    const x = dataBar.rightToLeft ? bounds.x + bounds.width - padding - width : bounds.x + padding;
+    const y = bounds.y + padding;
+
+    ctx.save();
+    if (dataBar.gradient) {
+      // 渐变数据条从实色过渡到接近白色 (从右向左时方向相反)
+      const light = ColorUtils.blendColors(dataBar.color, '#FFFFFF', 0.9);
+      const gradient = ctx.createLinearGradient(x, 0, x + width, 0);
+      gradient.addColorStop(0, dataBar.rightToLeft ? light : dataBar.color);
+      gradient.addColorStop(1, dataBar.rightToLeft ? dataBar.color : light);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = dataBar.color;
+    }
+    ctx.fillRect(x, y, width, height);
+
+    if (dataBar.borderColor) {
+      ctx.strokeStyle = dataBar.borderColor;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * 渲染迷你图
+   */
+  private renderSparkline(
+    ctx: CanvasRenderingContext2D,
+    bounds: CellBounds,
+    shape: SparklineShape,
+    zoom: number,
+  ): void {
+    const padding = 3 * zoom;
+    const x = bounds.x + padding;
+    const y = bounds.y + padding;
+    const width = bounds.width - padding * 2;
+    const height = bounds.height - padding * 2;
+    if (width <= 0 || height <= 0) {
+      return;
+    }
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.clip();
+
+    for (const bar of shape.bars) {
+      ctx.fillStyle = bar.color;
+      ctx.fillRect(x + bar.x * width, y + bar.y * height, bar.width * width, Math.max(bar.height * height, 1));
+    }
+
+    if (shape.axis) {
+      const axisY = Math.round(y + shape.axis.y * height) + 0.5;
+      ctx.strokeStyle = shape.axis.color;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, axisY);
+      ctx.lineTo(x + width, axisY);
+      ctx.stroke();
+    }
+
+    // 磅转换为像素
+    const lineWidth = Math.max((shape.line?.weight ?? 0.75) * 96 / 72 * zoom, 1);
+    if (shape.line) {
+      ctx.strokeStyle = shape.line.color;
+      ctx.lineWidth = lineWidth;
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      let drawing = false;
+      for (const point of shape.line.points) {
+        if (!point) {
+          drawing = false;
+          continue;
+        }
+        if (drawing) {
+          ctx.lineTo(x + point.x * width, y + point.y * height);
+        } else {
+          ctx.moveTo(x + point.x * width, y + point.y * height);
+          drawing = true;
+        }
+      }
+      ctx.stroke();
+    }
+
+    const radius = Math.max(lineWidth * 1.5, 2 * zoom);
+    for (const marker of shape.markers) {
+      ctx.fillStyle = marker.color;
+      ctx.beginPath();
+      ctx.arc(x + marker.x * width, y + marker.y * height, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * 渲染条件格式图标
+   * @param x 图标左上角 x
+   * @param y 图标左上角 y
+   * @param size 图标边长
+   */
+  private renderConditionalIcon(
+    ctx: CanvasRenderingContext2D,
+    icon: ConditionalIcon,
+    x: number,
+    y: number,
+    size: number,
+  ): void {
+    const cx = x + size / 2;
+    const cy = y + size / 2;
+    const r = size / 2;
+    const level = icon.level ?? 0;
+
+    ctx.save();
+    ctx.fillStyle = icon.color;
+    ctx.strokeStyle = icon.color;
+    ctx.lineWidth = Math.max(1, size / 8);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (icon.shape) {
+      case 'arrowUp':
+      case 'arrowUpRight':
+      case 'arrowRight':
+      case 'arrowDownRight':
+      case 'arrowDown': {
+        // 以向上箭头为基准旋转
+        const angles = { arrowUp: 0, arrowUpRight: 45, arrowRight: 90, arrowDownRight: 135, arrowDown: 180 };
+        ctx.translate(cx, cy);
+        ctx.rotate((angles[icon.shape] * Math.PI) / 180);
+        ctx.beginPath();
+        ctx.moveTo(0, -r);
+        ctx.lineTo(r * 0.8, -r * 0.1);
+        ctx.lineTo(r * 0.3, -r * 0.1);
+        ctx.lineTo(r * 0.3, r);
+        ctx.lineTo(-r * 0.3, r);
+        ctx.lineTo(-r * 0.3, -r * 0.1);
+        ctx.lineTo(-r * 0.8, -r * 0.1);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+      case 'circle':
+        ctx.beginPath();
+        ctx.arc(cx, cy, r * 0.85, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'diamond':
+        ctx.beginPath();
+        ctx.moveTo(cx, y);
+        ctx.lineTo(x + size, cy);
+        ctx.lineTo(cx, y + size);
+        ctx.lineTo(x, cy);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'triangle':
+        ctx.beginPath();
+        ctx.moveTo(cx, y + size * 0.1);
+        ctx.lineTo(x + size, y + size * 0.9);
+        ctx.lineTo(x, y + size * 0.9);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'check':
+      case 'cross':
+      case 'exclamation': {
+        // 带圆形底的符号用白色绘制
+        if (icon.circled) {
+          ctx.beginPath();
+          ctx.arc(cx, cy, r, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.strokeStyle = '#FFFFFF';
+          ctx.fillStyle = '#FFFFFF';
+        }
+        const k = icon.circled ? r * 0.5 : r * 0.8;
+        ctx.lineWidth = Math.max(1.5, size / 6);
+        ctx.beginPath();
+        if (icon.shape === 'check') {
+          ctx.moveTo(cx - k, cy);
+          ctx.lineTo(cx - k * 0.25, cy + k * 0.7);
+          ctx.lineTo(cx + k, cy - k * 0.7);
+          ctx.stroke();
+        } else if (icon.shape === 'cross') {
+          ctx.moveTo(cx - k * 0.8, cy - k * 0.8);
+          ctx.lineTo(cx + k * 0.8, cy + k * 0.8);
+          ctx.moveTo(cx + k * 0.8, cy - k * 0.8);
+          ctx.lineTo(cx - k * 0.8, cy + k * 0.8);
+          ctx.stroke();
+        } else {
+          ctx.moveTo(cx, cy - k);
+          ctx.lineTo(cx, cy + k * 0.3);
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(cx, cy + k * 0.85, ctx.lineWidth / 2, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        break;
+      }
+      case 'flag':
+        ctx.lineWidth = Math.max(1, size / 10);
+        ctx.beginPath();
+        ctx.moveTo(x + size * 0.2, y + size);
+        ctx.lineTo(x + size * 0.2, y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(x + size * 0.2, y);
+        ctx.lineTo(x + size * 0.95, y + size * 0.25);
+        ctx.lineTo(x + size * 0.2, y + size * 0.5);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      case 'rating': {
+        // 四格信号条，按填充程度着色
+        const barWidth = size / 5;
+        for (let i = 0; i < 4; i++) {
+          const barHeight = size * (i + 1) / 4;
+          ctx.fillStyle = i < Math.round(level * 4) ? icon.color : '#D9D9D9';
+          ctx.fillRect(x + i * barWidth * 1.3, y + size - barHeight, barWidth, barHeight);
+        }
+        break;
+      }
+      case 'quarter':
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(cx, cy, r * 0.9, 0, Math.PI * 2);
+        ctx.stroke();
+        if (level > 0) {
+          ctx.beginPath();
+          ctx.moveTo(cx, cy);
+          ctx.arc(cx, cy, r * 0.9, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * level);
+          ctx.closePath();
+          ctx.fill();
+        }
+        break;
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * 渲染表格样式或条件格式的边框
+   */
+  private renderTableBorder(ctx: CanvasRenderingContext2D, bounds: CellBounds, format: TableCellFormat): void {
+    const { x, y, width, height } = bounds;
+    const sides: Array<[string | undefined, number, number, number, number]> = [
+      [format.borderTop, x, y, x + width, y],
+      [format.borderBottom, x, y + height, x + width, y + height],
+      [format.borderLeft, x, y, x, y + height],
+      [format.borderRight, x + width, y, x + width, y + height],
+    ];
+
+    ctx.lineWidth = 1;
+    for (const [color, x1, y1, x2, y2] of sides) {
+      if (!color) {
+        continue;
+      }
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+    }
+  }
+
+  /**
+   * 是否为默认字体颜色 (自动或主题文字颜色)
+   */
+  private isDefaultFontColor(color: Color): boolean {
+    if (color.auto) {
+      return true;
+    }
+    if (color.theme === 1 && !color.tint) {
+      return true;
+    }
+    return color.rgb === 'FF000000' || color.rgb === '000000';
+  }
+
+  /**
+   * 渲染批注标记 (单元格右上角红色三角)
+   */
+  private renderCommentIndicator(
+    ctx: CanvasRenderingContext2D,
+    bounds: CellBounds,
+    zoom: number,
+  ): void {
+    const size = Math.min(6 * zoom, bounds.width / 2, bounds.height / 2);
+    const right = bounds.x + bounds.width;
+
+    ctx.fillStyle = '#FF0000';
+    ctx.beginPath();
+    ctx.moveTo(right - size, bounds.y);
+    ctx.lineTo(right, bounds.y);
+    ctx.lineTo(right, bounds.y + size);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  /**
+   * 渲染浮动图片和图表
+   * @description 按窗格分别裁剪绘制，冻结区域内的部分不随滚动移动
+   */
+  private renderImages(renderCtx: RenderContext, frozenRows: number, frozenCols: number): void {
+    if (!this.sheet) {
+      return;
+    }
+
+    const { ctx, viewport, options } = renderCtx;
+    const headerWidth = options.rowHeaderWidth * options.zoom;
+    const headerHeight = options.colHeaderHeight * options.zoom;
+
+    // 窗格: [是否冻结行区域, 是否冻结列区域]
+    const panes: Array<[boolean, boolean]> = [[false, false]];
+    if (frozenRows > 0) {
+      panes.push([true, false]);
+    }
+    if (frozenCols > 0) {
+      panes.push([false, true]);
+    }
+    if (frozenRows > 0 && frozenCols > 0) {
+      panes.push([true, true]);
+    }
+
+    for (const [isFrozenRow, isFrozenCol] of panes) {
+      const clipX = isFrozenCol ? headerWidth : headerWidth + renderCtx.frozenColsWidth;
+      const clipY = isFrozenRow ? headerHeight : headerHeight + renderCtx.frozenRowsHeight;
+      const clipWidth = isFrozenCol ? renderCtx.frozenColsWidth : renderCtx.width - clipX;
+      const clipHeight = isFrozenRow ? renderCtx.frozenRowsHeight : renderCtx.height - clipY;
+      const offsetX = isFrozenCol ? 0 : viewport.scrollLeft;
+      const offsetY = isFrozenRow ? 0 : viewport.scrollTop;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(clipX, clipY, clipWidth, clipHeight);
+      ctx.clip();
+
+      const isVisible = (bounds: CellBounds): boolean =>
+        bounds.x + bounds.width >= clipX && bounds.x <= clipX + clipWidth &&
+        bounds.y + bounds.height >= clipY && bounds.y <= clipY + clipHeight;
+
+      for (const image of this.sheet.images) {
+        const rect = this.getImageRect(image);
+        if (!rect) {
+          continue;
+        }
+        const bounds: CellBounds = {
+          x: rect.x - offsetX,
+          y: rect.y - offsetY,
+          width: rect.width,
+          height: rect.height,
+        };
+
+        // 跳过不在当前窗格内的图片
+        if (isVisible(bounds)) {
+          this.drawImage(ctx, image, bounds);
+        }
+      }
+
+      for (const chart of this.sheet.charts) {
+        const rect = this.getImageRect(chart);
+        if (!rect) {
+          continue;
+        }
+        const bounds: CellBounds = {
+          x: rect.x - offsetX,
+          y: rect.y - offsetY,
+          width: rect.width,
+          height: rect.height,
+        };
+
+        if (isVisible(bounds) && bounds.width > 0 && bounds.height > 0) {
+          new ChartRenderer(ctx).render(chart, bounds, options.zoom);
+        }
+      }
+
+      ctx.restore();
+    }
+  }
+
+  /**
+   * 计算图片或图表在未滚动状态下的画布坐标
+   */
+  private getImageRect(image: Image | Chart): CellBounds | null {
+    const { zoom, rowHeaderWidth, colHeaderHeight } = this.options;
+    const width = image.width ?? 0;
+    const height = image.height ?? 0;
+
+    if (image.positionType === 'absolute' && image.position) {
+      return {
+        x: rowHeaderWidth * zoom + image.position.x * zoom,
+        y: colHeaderHeight * zoom + image.position.y * zoom,
+        width: width * zoom,
+        height: height * zoom,
+      };
+    }
+
+    if (!image.anchor) {
+      return null;
+    }
+    const { from, to } = image.anchor;
+
+    const x = this.getColumnX(from.col) + from.colOff * zoom;
+    const y = this.getRowY(from.row) + from.rowOff * zoom;
+
+    if ((image.positionType ?? 'twoCell') === 'twoCell' && to) {
+      return {
+        x,
+        y,
+        width: this.getColumnX(to.col) + to.colOff * zoom - x,
+        height: this.getRowY(to.row) + to.rowOff * zoom - y,
+      };
+    }
+
+    return { x, y, width: width * zoom, height: height * zoom };
+  }
+
+  /**
+   * 获取列左边界 (超出已计算范围时按默认列宽推算)
+   */
+  private getColumnX(col: number): number {
+    const last = this.colPositions.length - 1;
+    if (col <= last) {
+      return this.colPositions[col] ?? 0;
+    }
+    return (this.colPositions[last] ?? 0) + (col - last) * this.options.defaultColWidth * this.options.zoom;
+  }
+
+  /**
+   * 获取行上边界 (超出已计算范围时按默认行高推算)
+   */
+  private getRowY(row: number): number {
+    const last = this.rowPositions.length - 1;
+    if (row <= last) {
+      return this.rowPositions[row] ?? 0;
+    }
+    return (this.rowPositions[last] ?? 0) + (row - last) * this.options.defaultRowHeight * this.options.zoom;
+  }
+
+  /**
+   * 绘制单张图片 (含旋转和翻转)
+   */
+  private drawImage(ctx: CanvasRenderingContext2D, image: Image, bounds: CellBounds): void {
+    const element = this.getImageElement(image);
+    const halfWidth = bounds.width / 2;
+    const halfHeight = bounds.height / 2;
+
+    ctx.save();
+    ctx.translate(bounds.x + halfWidth, bounds.y + halfHeight);
+    if (image.rotation) {
+      ctx.rotate((image.rotation * Math.PI) / 180);
+    }
+    ctx.scale(image.flipH ? -1 : 1, image.flipV ? -1 : 1);
+
+    if (element?.complete && element.naturalWidth > 0) {
+      ctx.drawImage(element, -halfWidth, -halfHeight, bounds.width, bounds.height);
+    } else {
+      // 无法解码或尚未加载完成的图片显示占位框
+      ctx.strokeStyle = '#C0C0C0';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(-halfWidth, -halfHeight, bounds.width, bounds.height);
+      if (image.filename) {
+        ctx.fillStyle = '#999999';
+        ctx.font = `${Math.round(11 * this.options.zoom)}px Arial, sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.fillText(image.filename, 0, 0, bounds.width - 4);
+        ctx.textAlign = 'left';
+      }
+    }
+
+    ctx.restore();
+  }
+
+  /**
+   * 获取 (并缓存) 图片元素，加载完成后重新渲染
+   */
+  private getImageElement(image: Image): HTMLImageElement | null {
+    if (!ImageUtils.isBrowserRenderable(image.type)) {
+      return null;
+    }
+
+    let element = this.imageCache.get(image.id);
+    if (!element) {
+      element = new window.Image();
+      element.onload = () => this.render();
+      element.src = ImageUtils.toDataUrl(image.type, image.data);
+      this.imageCache.set(image.id, element);
+    }
+    return element;
   }
 
   /**
@@ -879,6 +1559,21 @@ export class SheetRenderer {
       ctx.strokeStyle = theme.selectionBorderColor;
       ctx.lineWidth = 2;
       ctx.strokeRect(activeBounds.x, activeBounds.y, activeBounds.width, activeBounds.height);
+
+      // 活动单元格位于动态数组溢出区域时绘制溢出边框
+      const { row, col } = this.activeCell;
+      const spill = this.sheet ? FormulaUtils.getSpillRange(this.sheet, row, col) : null;
+      if (spill) {
+        const spillStart = this.getCellBounds(renderCtx, spill.start.row, spill.start.col, false, false);
+        const spillEnd = this.getCellBounds(renderCtx, spill.end.row, spill.end.col, false, false);
+        ctx.lineWidth = 1;
+        ctx.strokeRect(
+          spillStart.x + 0.5,
+          spillStart.y + 0.5,
+          spillEnd.x + spillEnd.width - spillStart.x - 1,
+          spillEnd.y + spillEnd.height - spillStart.y - 1,
+        );
+      }
     }
   }
 
@@ -1143,23 +1838,8 @@ export class SheetRenderer {
       return this.themeColors.get(cacheKey)!;
     }
 
-    // 默认主题颜色映射
-    const themeColorMap: Record<number, string> = {
-      0: 'FFFFFF', // lt1
-      1: '000000', // dk1
-      2: 'E7E6E6', // lt2
-      3: '44546A', // dk2
-      4: '4472C4', // accent1
-      5: 'ED7D31', // accent2
-      6: 'A5A5A5', // accent3
-      7: 'FFC000', // accent4
-      8: '5B9BD5', // accent5
-      9: '70AD47', // accent6
-      10: '0563C1', // hlink
-      11: '954F72'  // folHlink
-    };
-
-    let baseColor = themeColorMap[themeIndex] || '000000';
+    // 优先使用工作簿主题，否则使用 Office 默认主题
+    let baseColor = ColorUtils.getThemeColor(themeIndex, this.workbookTheme?.colors);
 
     if (tint !== undefined && tint !== 0) {
       baseColor = ColorUtils.applyTint(baseColor, tint);
@@ -1184,6 +1864,19 @@ export class SheetRenderer {
     return this.totalHeight;
   }
 
+  /**
+   * 获取使单元格位于滚动区域左上角的滚动位置 (冻结区域内的行列不需要滚动)
+   */
+  getScrollPositionForCell(row: number, col: number): { scrollLeft: number; scrollTop: number } {
+    const frozenRows = this.sheet?.freezePane?.rows ?? 0;
+    const frozenCols = this.sheet?.freezePane?.cols ?? 0;
+
+    return {
+      scrollLeft: col < frozenCols ? 0 : Math.max(0, this.getColumnX(col) - this.getColumnX(frozenCols)),
+      scrollTop: row < frozenRows ? 0 : Math.max(0, this.getRowY(row) - this.getRowY(frozenRows)),
+    };
+  }
+
   /**
    * 根据坐标获取单元格
    */
@@ -1,2 +1,3 @@
 export { SheetRenderer, type Viewport } from './SheetRenderer';
 export { DomRenderer, type DomRendererOptions } from './DomRenderer';
+export { ChartRenderer, type ChartBounds } from './ChartRenderer';
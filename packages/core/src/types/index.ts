@@ -294,8 +294,10 @@ export interface CellFormula {
   ref?: string;
   /** 共享公式索引 */
   si?: number;
-  /** 数组公式范围 */
+  /** 数组公式范围 (动态数组为溢出区域) */
   range?: string;
+  /** 是否是动态数组公式 */
+  dynamic?: boolean;
 }
 
 /**
@@ -304,8 +306,8 @@ export interface CellFormula {
 export interface Hyperlink {
   /** 链接地址 */
   target: string;
-  /** 链接类型 */
-  type: 'url' | 'email' | 'internal' | 'file';
+  /** 链接类型 (unsafe 为不允许打开的协议，如 javascript:) */
+  type: 'url' | 'email' | 'internal' | 'file' | 'unsafe';
   /** 提示文本 */
   tooltip?: string;
   /** 显示文本 */
@@ -350,6 +352,8 @@ export interface Cell {
   isMergeOrigin?: boolean;
   /** 是否被合并 */
   isMerged?: boolean;
+  /** 所在数组公式区域 (含动态数组溢出区域) */
+  arrayRange?: string;
 }
 
 // ============ 行列定义 ============
@@ -425,6 +429,8 @@ export interface MergeCell {
  * 批注
  */
 export interface Comment {
+  /** 单元格引用 (如 "A1") */
+  ref?: string;
   /** 作者 */
   author?: string;
   /** 批注内容 */
@@ -433,6 +439,30 @@ export interface Comment {
   visible?: boolean;
   /** 位置 */
   anchor?: CommentAnchor;
+  /** 是否为线程批注 */
+  threaded?: boolean;
+  /** 线程批注 ID */
+  id?: string;
+  /** 创建时间 */
+  date?: Date;
+  /** 是否已解决 */
+  done?: boolean;
+  /** 回复列表 */
+  replies?: CommentReply[];
+}
+
+/**
+ * 线程批注回复
+ */
+export interface CommentReply {
+  /** 回复 ID */
+  id?: string;
+  /** 作者 */
+  author?: string;
+  /** 回复内容 */
+  text: string;
+  /** 回复时间 */
+  date?: Date;
 }
 
 /**
@@ -508,6 +538,21 @@ export type IconSetType =
   | '5Rating'
   | '5Quarters';
 
+/**
+ * 发生日期条件的时间段
+ */
+export type ConditionalTimePeriod =
+  | 'today'
+  | 'yesterday'
+  | 'tomorrow'
+  | 'last7Days'
+  | 'thisWeek'
+  | 'lastWeek'
+  | 'nextWeek'
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'nextMonth';
+
 /**
  * 条件格式规则
  */
@@ -522,7 +567,25 @@ export interface ConditionalFormatRule {
   operator?: ConditionalOperator;
   /** 公式/值 */
   formula?: string[];
-  /** 样式 */
+  /** 文本条件 (containsText、beginsWith 等) 的文本 */
+  text?: string;
+  /** 发生日期条件的时间段 */
+  timePeriod?: ConditionalTimePeriod;
+  /** 前 N 项/后 N 项的数量 (percent 为 true 时表示百分比) */
+  rank?: number;
+  /** rank 是否为百分比 */
+  percent?: boolean;
+  /** 是否为后 N 项 */
+  bottom?: boolean;
+  /** 是否为高于平均值 (false 表示低于平均值) */
+  aboveAverage?: boolean;
+  /** 是否包含等于平均值 */
+  equalAverage?: boolean;
+  /** 标准偏差倍数 */
+  stdDev?: number;
+  /** 差异格式索引 (对应样式表中的 dxfs) */
+  dxfId?: number;
+  /** 样式 (由差异格式解析得到，只包含需要覆盖的部分) */
   style?: CellStyle;
   /** 色阶 */
   colorScale?: {
@@ -531,6 +594,7 @@ export interface ConditionalFormatRule {
   };
   /** 数据条 */
   dataBar?: {
+    cfvo?: Array<{ type: string; val?: string }>;
     minLength?: number;
     maxLength?: number;
     showValue?: boolean;
@@ -551,6 +615,158 @@ export interface ConditionalFormatRule {
   stopIfTrue?: boolean;
 }
 
+/**
+ * 条件格式图标形状
+ */
+export type ConditionalIconShape =
+  | 'arrowUp'
+  | 'arrowUpRight'
+  | 'arrowRight'
+  | 'arrowDownRight'
+  | 'arrowDown'
+  | 'circle'
+  | 'diamond'
+  | 'triangle'
+  | 'check'
+  | 'exclamation'
+  | 'cross'
+  | 'flag'
+  | 'rating'
+  | 'quarter';
+
+/**
+ * 条件格式图标
+ */
+export interface ConditionalIcon {
+  shape: ConditionalIconShape;
+  /** 图标颜色 (#RRGGBB) */
+  color: string;
+  /** 填充程度 (0-1，用于等级和四分图标) */
+  level?: number;
+  /** 是否带圆形底 (3Symbols 图标集) */
+  circled?: boolean;
+}
+
+/**
+ * 条件格式应用到单元格后的格式 (颜色为 #RRGGBB)
+ */
+export interface ConditionalCellFormat {
+  /** 背景色 */
+  fill?: string;
+  /** 字体颜色 */
+  fontColor?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  /** 边框颜色 */
+  borderTop?: string;
+  borderBottom?: string;
+  borderLeft?: string;
+  borderRight?: string;
+  /** 数字格式 */
+  numFmt?: string;
+  /** 数据条 */
+  dataBar?: {
+    /** 长度 (占单元格宽度的比例，0-1) */
+    length: number;
+    color: string;
+    gradient: boolean;
+    borderColor?: string;
+    /** 是否从右向左绘制 */
+    rightToLeft?: boolean;
+  };
+  /** 图标 */
+  icon?: ConditionalIcon;
+  /** 是否隐藏单元格值 (数据条、图标集设置了不显示值) */
+  hideValue?: boolean;
+}
+
+// ============ 迷你图 ============
+
+/**
+ * 迷你图类型 (stacked 为盈亏图)
+ */
+export type SparklineType = 'line' | 'column' | 'stacked';
+
+/**
+ * 迷你图纵坐标轴最小值/最大值的计算方式
+ */
+export type SparklineAxisType = 'individual' | 'group' | 'custom';
+
+/**
+ * 迷你图空单元格的显示方式
+ */
+export type SparklineEmptyCellsAs = 'gap' | 'zero' | 'span';
+
+/**
+ * 迷你图
+ */
+export interface Sparkline {
+  /** 数据范围 (可包含工作表名，如 Sheet1!A1:E1) */
+  ref: string;
+  /** 所在单元格 */
+  location: string;
+}
+
+/**
+ * 迷你图组 (同一组的迷你图共享类型、颜色和坐标轴设置)
+ */
+export interface SparklineGroup {
+  /** 类型 */
+  type: SparklineType;
+  /** 迷你图 */
+  sparklines: Sparkline[];
+  /** 数据系列颜色 */
+  colorSeries?: Color;
+  /** 负值颜色 */
+  colorNegative?: Color;
+  /** 横坐标轴颜色 */
+  colorAxis?: Color;
+  /** 标记颜色 */
+  colorMarkers?: Color;
+  /** 首点颜色 */
+  colorFirst?: Color;
+  /** 尾点颜色 */
+  colorLast?: Color;
+  /** 高点颜色 */
+  colorHigh?: Color;
+  /** 低点颜色 */
+  colorLow?: Color;
+  /** 折线粗细 (磅) */
+  lineWeight: number;
+  /** 显示标记 (仅折线图) */
+  markers?: boolean;
+  /** 突出显示高点 */
+  high?: boolean;
+  /** 突出显示低点 */
+  low?: boolean;
+  /** 突出显示首点 */
+  first?: boolean;
+  /** 突出显示尾点 */
+  last?: boolean;
+  /** 突出显示负点 */
+  negative?: boolean;
+  /** 显示横坐标轴 */
+  displayXAxis?: boolean;
+  /** 空单元格的显示方式 */
+  displayEmptyCellsAs: SparklineEmptyCellsAs;
+  /** 显示隐藏行列中的数据 */
+  displayHidden?: boolean;
+  /** 纵坐标轴最小值的计算方式 */
+  minAxisType: SparklineAxisType;
+  /** 纵坐标轴最大值的计算方式 */
+  maxAxisType: SparklineAxisType;
+  /** 自定义最小值 */
+  manualMin?: number;
+  /** 自定义最大值 */
+  manualMax?: number;
+  /** 从右向左绘制 */
+  rightToLeft?: boolean;
+  /** 日期坐标轴范围 (按日期间隔排列数据点) */
+  dateRange?: string;
+}
+
 // ============ 数据验证 ============
 
 /**
@@ -598,6 +814,8 @@ export interface DataValidation {
   formula1?: string;
   /** 公式2 (用于 between 等操作) */
   formula2?: string;
+  /** 列表选项 (由 formula1 中的列表、单元格范围或定义名称解析得到；来源工作表尚未解析时未设置) */
+  listValues?: string[];
   /** 允许空值 */
   allowBlank?: boolean;
   /** 显示下拉箭头 */
@@ -694,32 +912,102 @@ export type ChartType =
  * 图表系列
  */
 export interface ChartSeries {
+  /** 系列名称 */
   name?: string;
+  /** 分类引用 (散点图为 X 值引用) */
   categories?: string;
+  /** 值引用 */
   values: string;
+  /** 缓存的分类数据 */
+  categoryCache?: string[];
+  /** 缓存的值数据 */
+  valueCache?: Array<number | null>;
+  /** 缓存的 X 值数据 (散点图、气泡图) */
+  xValueCache?: Array<number | null>;
+  /** 系列图表类型 (组合图中各系列类型可能不同) */
+  type?: ChartType;
+  /** 填充颜色 */
   fill?: Color;
+  /** 线条 (width 为 0 表示无线条) */
   line?: { color?: Color; width?: number };
+  /** 是否平滑曲线 */
+  smooth?: boolean;
+  /** 数据点单独设置的颜色 (饼图等) */
+  pointColors?: Record<number, Color>;
 }
 
+/**
+ * 图表坐标轴
+ */
+export interface ChartAxis {
+  /** 坐标轴 ID */
+  id: string;
+  /** 坐标轴类型 */
+  type: 'category' | 'value' | 'date' | 'series';
+  /** 位置 */
+  position?: 'l' | 'r' | 't' | 'b';
+  /** 标题 */
+  title?: string;
+  /** 最小值 */
+  min?: number;
+  /** 最大值 */
+  max?: number;
+  /** 主刻度单位 */
+  majorUnit?: number;
+  /** 数字格式 */
+  numFmt?: string;
+  /** 是否隐藏 */
+  deleted?: boolean;
+  /** 是否显示主网格线 */
+  majorGridlines?: boolean;
+  /** 是否反向 */
+  reversed?: boolean;
+}
+
+/**
+ * 图表分组方式
+ */
+export type ChartGrouping = 'clustered' | 'stacked' | 'percentStacked' | 'standard';
+
 /**
  * 图表定义
  */
 export interface Chart {
+  /** 图表 ID */
+  id?: string;
   /** 图表类型 */
   type: ChartType;
   /** 标题 */
   title?: string;
   /** 系列数据 */
   series: ChartSeries[];
+  /** 分组方式 */
+  grouping?: ChartGrouping;
+  /** 坐标轴 */
+  axes?: ChartAxis[];
+  /** 每个数据点使用不同颜色 */
+  varyColors?: boolean;
+  /** 圆环图内径百分比 */
+  holeSize?: number;
   /** 图例位置 */
   legendPosition?: 'top' | 'bottom' | 'left' | 'right' | 'none';
-  /** 锚点位置 */
+  /** 定位类型 */
+  positionType?: ImagePositionType;
+  /** 锚点位置 (偏移量单位为像素) */
   anchor?: {
     from: { col: number; colOff: number; row: number; rowOff: number };
-    to: { col: number; colOff: number; row: number; rowOff: number };
+    to?: { col: number; colOff: number; row: number; rowOff: number };
   };
+  /** 绝对定位坐标 (像素) */
+  position?: { x: number; y: number };
+  /** 宽度 (像素，oneCell/absolute 定位) */
+  width?: number;
+  /** 高度 (像素，oneCell/absolute 定位) */
+  height?: number;
   /** 样式 */
   style?: number;
+  /** 是否使用 1904 日期系统 (日期格式的坐标轴标签) */
+  date1904?: boolean;
 }
 
 // ============ 图片 ============
@@ -754,11 +1042,13 @@ export interface Image {
   height: number;
   /** 定位类型 */
   positionType: ImagePositionType;
-  /** 锚点 */
+  /** 锚点 (偏移量单位为像素) */
   anchor: {
     from: { col: number; colOff: number; row: number; rowOff: number };
     to?: { col: number; colOff: number; row: number; rowOff: number };
   };
+  /** 绝对定位坐标 (像素，仅 absolute 定位) */
+  position?: { x: number; y: number };
   /** 旋转角度 */
   rotation?: number;
   /** 翻转 */
@@ -840,6 +1130,23 @@ export interface Table {
   styleInfo?: TableStyleInfo;
 }
 
+/**
+ * 表格样式应用到单元格后的格式 (颜色为 #RRGGBB)
+ */
+export interface TableCellFormat {
+  /** 背景色 */
+  fill?: string;
+  /** 字体颜色 */
+  fontColor?: string;
+  /** 加粗 */
+  bold?: boolean;
+  /** 边框颜色 */
+  borderTop?: string;
+  borderBottom?: string;
+  borderLeft?: string;
+  borderRight?: string;
+}
+
 /**
  * 排序状态
  */
@@ -896,19 +1203,25 @@ export interface PrintOptions {
   orientation?: PageOrientation;
   /** 纸张大小 */
   paperSize?: PaperSize;
+  /** 纸张大小编号 (OOXML paperSize，包括 PaperSize 未列出的纸张) */
+  paperSizeId?: number;
   /** 缩放比例 */
   scale?: number;
-  /** 适合页宽 */
+  /** 是否按页数缩放 (为 true 时使用 fitToWidth、fitToHeight 而不是 scale) */
+  fitToPage?: boolean;
+  /** 适合页宽 (0 表示不限制) */
   fitToWidth?: number;
-  /** 适合页高 */
+  /** 适合页高 (0 表示不限制) */
   fitToHeight?: number;
+  /** 起始页码 (未设置时从 1 开始自动编号) */
+  firstPageNumber?: number;
   /** 页边距 */
   margins?: PageMargins;
-  /** 打印区域 */
+  /** 打印区域 (不含工作表名，多个区域以逗号分隔，如 A1:F40,H1:J40) */
   printArea?: string;
-  /** 打印标题行 */
+  /** 打印标题行 (如 1:2) */
   printTitlesRow?: string;
-  /** 打印标题列 */
+  /** 打印标题列 (如 A:B) */
   printTitlesColumn?: string;
   /** 黑白打印 */
   blackAndWhite?: boolean;
@@ -924,14 +1237,19 @@ export interface PrintOptions {
   verticalCentered?: boolean;
   /** 页面顺序 */
   pageOrder?: 'downThenOver' | 'overThenDown';
-  /** 页眉 */
+  /** 页眉 (只包含 *Header 字段) */
   header?: HeaderFooter;
-  /** 页脚 */
+  /** 页脚 (只包含 *Footer 字段) */
   footer?: HeaderFooter;
+  /** 水平分页符 (新页第一行的索引，从 0 开始) */
+  rowBreaks?: PageBreak[];
+  /** 垂直分页符 (新页第一列的索引，从 0 开始) */
+  colBreaks?: PageBreak[];
 }
 
 /**
  * 页眉页脚
+ * @description 文本包含 Excel 的格式代码，如 &L、&C、&R 分节，&P 页码，&N 总页数
  */
 export interface HeaderFooter {
   oddHeader?: string;
@@ -942,6 +1260,24 @@ export interface HeaderFooter {
   firstFooter?: string;
   differentOddEven?: boolean;
   differentFirst?: boolean;
+  /** 随文档缩放 */
+  scaleWithDoc?: boolean;
+  /** 与页边距对齐 */
+  alignWithMargins?: boolean;
+}
+
+/**
+ * 分页符
+ */
+export interface PageBreak {
+  /** 新页第一行 (或第一列) 的索引 */
+  index: number;
+  /** 是否为手动分页符 */
+  manual: boolean;
+  /** 分页符起始位置 (水平分页符为列，垂直分页符为行) */
+  min?: number;
+  /** 分页符结束位置 */
+  max?: number;
 }
 
 // ============ 工作表视图 ============
@@ -991,9 +1327,14 @@ export interface SheetView {
 
 /**
  * 工作表保护设置
+ * @description 与 OOXML 的 sheetProtection 一致，各操作为 true 表示受保护 (不允许)，false 表示允许
  */
 export interface SheetProtection {
+  /** 密码哈希 (旧版 16 位哈希或 hashValue) */
   password?: string;
+  /** 哈希算法 (如 SHA-512)，旧版哈希时为空 */
+  algorithmName?: string;
+  /** 是否启用工作表保护 */
   sheet?: boolean;
   objects?: boolean;
   scenarios?: boolean;
@@ -1012,6 +1353,22 @@ export interface SheetProtection {
   selectUnlockedCells?: boolean;
 }
 
+/**
+ * 工作簿保护设置
+ */
+export interface WorkbookProtection {
+  /** 密码哈希 (旧版 16 位哈希或 hashValue) */
+  password?: string;
+  /** 哈希算法 (如 SHA-512)，旧版哈希时为空 */
+  algorithmName?: string;
+  /** 锁定结构 (不允许增删、移动、重命名、隐藏工作表) */
+  lockStructure?: boolean;
+  /** 锁定窗口 */
+  lockWindows?: boolean;
+  /** 锁定修订 */
+  lockRevision?: boolean;
+}
+
 // ============ 工作表 ============
 
 /**
@@ -1024,6 +1381,11 @@ export type SheetType = 'worksheet' | 'chartsheet' | 'dialogsheet' | 'macrosheet
  */
 export type SheetState = 'visible' | 'hidden' | 'veryHidden';
 
+/**
+ * 工作表解析状态 (延迟解析模式)
+ */
+export type SheetParseState = 'pending' | 'parsing' | 'parsed' | 'error';
+
 /**
  * 工作表定义
  */
@@ -1056,6 +1418,8 @@ export interface Sheet {
   dataValidations: DataValidation[];
   /** 条件格式 */
   conditionalFormats: ConditionalFormatRule[];
+  /** 迷你图组 */
+  sparklineGroups: SparklineGroup[];
   /** 超链接 */
   hyperlinks: Map<string, Hyperlink>;
   /** 批注 */
@@ -1089,6 +1453,10 @@ export interface Sheet {
   defaultRowHeight?: number;
   /** 默认列宽 */
   defaultColWidth?: number;
+  /** 解析状态 (仅延迟解析模式下设置) */
+  parseState?: SheetParseState;
+  /** 原 xlsx/xlsb 文件包中的工作表部件路径 (如 xl/worksheets/sheet1.xml)，写入时据此复制图片和图表 */
+  sourcePart?: string;
 }
 
 // ============ 命名范围 ============
@@ -1104,6 +1472,20 @@ export interface DefinedName {
   hidden?: boolean;
 }
 
+// ============ 外部链接 ============
+
+/**
+ * 外部链接 (公式引用的其他工作簿)
+ */
+export interface ExternalLink {
+  /** 公式中的外部引用编号 (如 [1]Sheet1!A1 中的 1) */
+  index: number;
+  /** 外部工作簿路径 */
+  target: string;
+  /** 被引用的工作表名称 */
+  sheetNames: string[];
+}
+
 // ============ 样式表 ============
 
 /**
@@ -1129,6 +1511,8 @@ export interface Stylesheet {
     xfId: number;
     builtinId?: number;
   }>;
+  /** 差异格式 (条件格式、表格样式等引用的部分样式) */
+  dxfs: CellStyle[];
 }
 
 // ============ 工作簿属性 ============
@@ -1142,6 +1526,25 @@ export interface WorkbookProperties {
   filterPrivacy?: boolean;
 }
 
+/**
+ * 自定义属性值类型
+ * @description string 对应 vt:lpwstr 等字符串类型，number 对应 vt:i4、vt:r8 等数值类型，
+ * boolean 对应 vt:bool，date 对应 vt:filetime
+ */
+export type CustomPropertyType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * 自定义文档属性 (docProps/custom.xml)
+ */
+export interface CustomProperty {
+  /** 属性名 */
+  name: string;
+  /** 值类型 */
+  type: CustomPropertyType;
+  /** 属性值 */
+  value: string | number | boolean | Date;
+}
+
 /**
  * 文档属性
  */
@@ -1161,6 +1564,8 @@ export interface DocumentProperties {
   manager?: string;
   application?: string;
   appVersion?: string;
+  /** 自定义属性 */
+  custom?: CustomProperty[];
 }
 
 // ============ 主题 ============
@@ -1200,6 +1605,28 @@ export interface Theme {
   fonts: ThemeFonts;
 }
 
+// ============ 解析诊断 ============
+
+/**
+ * 诊断信息的严重程度 (fatal 表示文件无法解析，error 表示内容已丢失，warning 表示内容可能不完整)
+ */
+export type ParseDiagnosticSeverity = 'fatal' | 'error' | 'warning';
+
+/**
+ * 解析诊断信息
+ * @description 记录文件包中缺失或损坏的部件，以及因此跳过的内容
+ */
+export interface ParseDiagnostic {
+  /** 部件路径 (如 xl/worksheets/sheet1.xml)，文件包本身无法读取时为文件名 */
+  part: string;
+  /** 严重程度 */
+  severity: ParseDiagnosticSeverity;
+  /** 说明 */
+  message: string;
+  /** 跳过的内容 */
+  skipped?: string;
+}
+
 // ============ 工作簿 ============
 
 /**
@@ -1220,8 +1647,14 @@ export interface Workbook {
   properties: DocumentProperties;
   /** 工作簿属性 */
   workbookProperties: WorkbookProperties;
+  /** 工作簿保护 */
+  protection?: WorkbookProtection;
   /** 共享字符串 */
   sharedStrings: Array<string | RichText>;
+  /** 外部链接 */
+  externalLinks?: ExternalLink[];
+  /** 解析诊断信息 (延迟解析模式下解析工作表时继续追加) */
+  diagnostics?: ParseDiagnostic[];
 }
 
 // ============ 渲染选项 ============
@@ -1411,6 +1844,8 @@ export interface LoadEvent extends BaseEventData {
   type: 'load';
   workbook: Workbook;
   loadTime: number;
+  /** 解析诊断信息 */
+  diagnostics: ParseDiagnostic[];
 }
 
 /**
@@ -1593,7 +2028,7 @@ export interface ToolbarConfig {
   showZoom?: boolean;
   /** 是否显示全屏按钮 */
   showFullscreen?: boolean;
-  /** 是否显示导出按钮 */
+  /** 是否显示下载 xlsx 按钮 */
   showExport?: boolean;
   /** 是否显示打印按钮 */
   showPrint?: boolean;
@@ -1633,6 +2068,12 @@ export interface ExcelViewerOptions {
   locale?: string;
   /** 本地化文本 */
   localeTexts?: Record<string, string>;
+  /** 解析 Worker 脚本地址 (dist/worker.js)，设置后在 Web Worker 中解析文件 */
+  workerUrl?: string | URL;
+  /** 是否延迟解析工作表 (首次切换到工作表时才解析其内容) */
+  lazySheets?: boolean;
+  /** 恢复模式 (部件缺失或损坏时跳过该部分内容继续解析，跳过的内容见 load 事件中的诊断信息) */
+  recover?: boolean;
   /** 事件回调 */
   on?: Partial<Record<EventType, (data: EventData) => void>>;
 }
@@ -2,6 +2,7 @@
  * 颜色工具类
  * @description 提供颜色转换、混合、索引颜色等功能
  */
+import type { ThemeColors } from '../types';
 
 /**
  * 索引颜色表 (Excel 默认调色板)
@@ -18,6 +19,33 @@ const INDEXED_COLORS: string[] = [
   '000000', 'FFFFFF' // 64, 65 - 系统颜色
 ];
 
+/**
+ * 主题颜色索引顺序 (SpreadsheetML 中 lt1/dk1 与 dk1/lt1 顺序相反)
+ */
+const THEME_COLOR_KEYS: Array<keyof ThemeColors> = [
+  'lt1', 'dk1', 'lt2', 'dk2',
+  'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6',
+  'hlink', 'folHlink',
+];
+
+/**
+ * Office 2013+ 默认主题颜色
+ */
+const DEFAULT_THEME_COLORS: ThemeColors = {
+  lt1: 'FFFFFF',
+  dk1: '000000',
+  lt2: 'E7E6E6',
+  dk2: '44546A',
+  accent1: '4472C4',
+  accent2: 'ED7D31',
+  accent3: 'A5A5A5',
+  accent4: 'FFC000',
+  accent5: '5B9BD5',
+  accent6: '70AD47',
+  hlink: '0563C1',
+  folHlink: '954F72',
+};
+
 export class ColorUtils {
   /**
    * 获取索引颜色
@@ -29,6 +57,20 @@ export class ColorUtils {
     return '#000000';
   }
 
+  /**
+   * 获取主题颜色
+   * @param index 主题颜色索引
+   * @param colors 工作簿主题颜色，未提供时使用 Office 默认主题
+   * @returns 十六进制颜色 (不带 #)
+   */
+  static getThemeColor(index: number, colors?: ThemeColors): string {
+    const key = THEME_COLOR_KEYS[index];
+    if (!key) {
+      return '000000';
+    }
+    return colors?.[key] ?? DEFAULT_THEME_COLORS[key];
+  }
+
   /**
    * 应用色调调整 (Tint)
    * @param hex 十六进制颜色 (不带 #)
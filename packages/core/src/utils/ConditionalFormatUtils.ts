@@ -0,0 +1,970 @@
+/**
+ * 条件格式工具类
+ * @description 按解析得到的条件格式规则计算单元格的格式 (差异格式、色阶、数据条和图标集)。
+ * 规则按优先级依次应用，多条规则设置同一属性时优先级高的生效；满足 stopIfTrue 的规则之后不再应用其他规则
+ */
+import type {
+  Cell,
+  CellStyle,
+  Color,
+  ConditionalCellFormat,
+  ConditionalFormatRule,
+  ConditionalIcon,
+  ConditionalTimePeriod,
+  IconSetType,
+  Sheet,
+  ThemeColors,
+} from '../types';
+import { ColorUtils } from './ColorUtils';
+import { DateUtils } from './DateUtils';
+import { FormulaUtils } from './FormulaUtils';
+import { XmlUtils } from '../parser/XmlUtils';
+import { getFormulaEngine, type FormulaContext } from '../core/formula/FormulaEngine';
+
+/**
+ * 参与条件判断的单元格值 (日期转为序列号)
+ */
+type CellScalar = number | string | boolean | null;
+
+/**
+ * 单元格范围
+ */
+interface Area {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/**
+ * 规则范围内的数值统计
+ */
+interface RangeStats {
+  /** 数值 (升序) */
+  numbers: number[];
+  average: number;
+  stdDev: number;
+  /** 各个值出现的次数 (用于重复值和唯一值) */
+  counts: Map<string, number>;
+}
+
+/**
+ * 预处理后的规则
+ */
+interface CompiledRule {
+  rule: ConditionalFormatRule;
+  areas: Area[];
+  /** 相对引用的基准单元格 (第一个范围的左上角) */
+  origin: { row: number; col: number };
+  stats?: RangeStats;
+  /** 色阶、数据条和图标集的阈值 */
+  thresholds?: Array<number | null>;
+}
+
+/**
+ * 工作表的规则缓存
+ */
+interface SheetRules {
+  source: ConditionalFormatRule[];
+  count: number;
+  rules: CompiledRule[];
+  /** 单元格数据的最大行号和列号 (用于裁剪公式中的整列引用) */
+  extent: { row: number; col: number };
+}
+
+/**
+ * 单次计算的上下文
+ */
+interface EvaluationScope {
+  sheet: Sheet;
+  extent: { row: number; col: number };
+  colors?: ThemeColors;
+  date1904: boolean;
+}
+
+const RED = '#E0393E';
+const YELLOW = '#F4B400';
+const GREEN = '#2E9E4F';
+const GRAY = '#808080';
+const BLACK = '#404040';
+const PINK = '#F4A0A0';
+const BLUE = '#4472C4';
+
+/**
+ * 图标集中的图标 (按值从低到高)
+ */
+const ICON_SETS: Record<IconSetType, ConditionalIcon[]> = {
+  '3Arrows': [
+    { shape: 'arrowDown', color: RED },
+    { shape: 'arrowRight', color: YELLOW },
+    { shape: 'arrowUp', color: GREEN },
+  ],
+  '3ArrowsGray': [
+    { shape: 'arrowDown', color: GRAY },
+    { shape: 'arrowRight', color: GRAY },
+    { shape: 'arrowUp', color: GRAY },
+  ],
+  '3Flags': [
+    { shape: 'flag', color: RED },
+    { shape: 'flag', color: YELLOW },
+    { shape: 'flag', color: GREEN },
+  ],
+  '3TrafficLights1': [
+    { shape: 'circle', color: RED },
+    { shape: 'circle', color: YELLOW },
+    { shape: 'circle', color: GREEN },
+  ],
+  '3TrafficLights2': [
+    { shape: 'circle', color: RED },
+    { shape: 'circle', color: YELLOW },
+    { shape: 'circle', color: GREEN },
+  ],
+  '3Signs': [
+    { shape: 'diamond', color: RED },
+    { shape: 'triangle', color: YELLOW },
+    { shape: 'circle', color: GREEN },
+  ],
+  '3Symbols': [
+    { shape: 'cross', color: RED, circled: true },
+    { shape: 'exclamation', color: YELLOW, circled: true },
+    { shape: 'check', color: GREEN, circled: true },
+  ],
+  '3Symbols2': [
+    { shape: 'cross', color: RED },
+    { shape: 'exclamation', color: YELLOW },
+    { shape: 'check', color: GREEN },
+  ],
+  '4Arrows': [
+    { shape: 'arrowDown', color: RED },
+    { shape: 'arrowDownRight', color: YELLOW },
+    { shape: 'arrowUpRight', color: YELLOW },
+    { shape: 'arrowUp', color: GREEN },
+  ],
+  '4ArrowsGray': [
+    { shape: 'arrowDown', color: GRAY },
+    { shape: 'arrowDownRight', color: GRAY },
+    { shape: 'arrowUpRight', color: GRAY },
+    { shape: 'arrowUp', color: GRAY },
+  ],
+  '4RedToBlack': [
+    { shape: 'circle', color: BLACK },
+    { shape: 'circle', color: GRAY },
+    { shape: 'circle', color: PINK },
+    { shape: 'circle', color: RED },
+  ],
+  '4Rating': [
+    { shape: 'rating', color: BLUE, level: 0.25 },
+    { shape: 'rating', color: BLUE, level: 0.5 },
+    { shape: 'rating', color: BLUE, level: 0.75 },
+    { shape: 'rating', color: BLUE, level: 1 },
+  ],
+  '4TrafficLights': [
+    { shape: 'circle', color: BLACK },
+    { shape: 'circle', color: RED },
+    { shape: 'circle', color: YELLOW },
+    { shape: 'circle', color: GREEN },
+  ],
+  '5Arrows': [
+    { shape: 'arrowDown', color: RED },
+    { shape: 'arrowDownRight', color: YELLOW },
+    { shape: 'arrowRight', color: YELLOW },
+    { shape: 'arrowUpRight', color: YELLOW },
+    { shape: 'arrowUp', color: GREEN },
+  ],
+  '5ArrowsGray': [
+    { shape: 'arrowDown', color: GRAY },
+    { shape: 'arrowDownRight', color: GRAY },
+    { shape: 'arrowRight', color: GRAY },
+    { shape: 'arrowUpRight', color: GRAY },
+    { shape: 'arrowUp', color: GRAY },
+  ],
+  '5Rating': [
+    { shape: 'rating', color: BLUE, level: 0 },
+    { shape: 'rating', color: BLUE, level: 0.25 },
+    { shape: 'rating', color: BLUE, level: 0.5 },
+    { shape: 'rating', color: BLUE, level: 0.75 },
+    { shape: 'rating', color: BLUE, level: 1 },
+  ],
+  '5Quarters': [
+    { shape: 'quarter', color: BLACK, level: 0 },
+    { shape: 'quarter', color: BLACK, level: 0.25 },
+    { shape: 'quarter', color: BLACK, level: 0.5 },
+    { shape: 'quarter', color: BLACK, level: 0.75 },
+    { shape: 'quarter', color: BLACK, level: 1 },
+  ],
+};
+
+export class ConditionalFormatUtils {
+  private static sheetCache: WeakMap<Sheet, SheetRules> = new WeakMap();
+
+  /**
+   * 计算单元格的条件格式
+   * @param sheet 工作表
+   * @param row 行号 (0-based)
+   * @param col 列号 (0-based)
+   * @param colors 工作簿主题颜色
+   * @param date1904 是否使用 1904 日期系统
+   * @returns 单元格不满足任何规则时返回 null
+   */
+  static getCellFormat(
+    sheet: Sheet,
+    row: number,
+    col: number,
+    colors?: ThemeColors,
+    date1904 = false,
+  ): ConditionalCellFormat | null {
+    if (sheet.conditionalFormats.length === 0) {
+      return null;
+    }
+
+    const { rules, extent } = this.getRules(sheet);
+    const scope: EvaluationScope = { sheet, extent, colors, date1904 };
+    const cell = sheet.cells.get(XmlUtils.formatCellAddress(row, col));
+
+    const format: ConditionalCellFormat = {};
+    let matched = false;
+    for (const compiled of rules) {
+      if (!this.contains(compiled.areas, row, col)) {
+        continue;
+      }
+
+      const result = this.evaluateRule(scope, compiled, cell, row, col);
+      if (!result) {
+        continue;
+      }
+
+      // 已由优先级更高的规则设置的属性保持不变
+      Object.assign(format, { ...result, ...format });
+      matched = true;
+      if (compiled.rule.stopIfTrue) {
+        break;
+      }
+    }
+
+    return matched ? format : null;
+  }
+
+  /**
+   * 单元格是否在任一条件格式规则的应用范围内
+   */
+  static isInRange(sheet: Sheet, row: number, col: number): boolean {
+    if (sheet.conditionalFormats.length === 0) {
+      return false;
+    }
+    return this.getRules(sheet).rules.some(compiled => this.contains(compiled.areas, row, col));
+  }
+
+  /**
+   * 清除工作表的规则缓存
+   * @description 单元格值或条件格式规则修改后调用，统计数据 (平均值、前 N 项、重复值等) 会重新计算
+   */
+  static invalidate(sheet: Sheet): void {
+    this.sheetCache.delete(sheet);
+  }
+
+  /**
+   * 获取 (并缓存) 按优先级排序的规则
+   */
+  private static getRules(sheet: Sheet): SheetRules {
+    const cached = this.sheetCache.get(sheet);
+    if (cached && cached.source === sheet.conditionalFormats && cached.count === sheet.conditionalFormats.length) {
+      return cached;
+    }
+
+    const rules: CompiledRule[] = [];
+    for (const rule of sheet.conditionalFormats) {
+      const areas = this.parseAreas(rule.ranges);
+      if (areas.length > 0) {
+        rules.push({ rule, areas, origin: { row: areas[0].top, col: areas[0].left } });
+      }
+    }
+    rules.sort((a, b) => a.rule.priority - b.rule.priority);
+
+    const extent = { row: 0, col: 0 };
+    sheet.cells.forEach((cell) => {
+      extent.row = Math.max(extent.row, cell.row);
+      extent.col = Math.max(extent.col, cell.col);
+    });
+
+    const entry: SheetRules = {
+      source: sheet.conditionalFormats,
+      count: sheet.conditionalFormats.length,
+      rules,
+      extent,
+    };
+    this.sheetCache.set(sheet, entry);
+    return entry;
+  }
+
+  /**
+   * 解析规则的应用范围
+   */
+  private static parseAreas(ranges: string[]): Area[] {
+    const areas: Area[] = [];
+    for (const ref of ranges) {
+      if (!ref) {
+        continue;
+      }
+      try {
+        const range = XmlUtils.parseRange(ref.replace(/\$/g, ''));
+        areas.push({
+          top: Math.min(range.start.row, range.end.row),
+          bottom: Math.max(range.start.row, range.end.row),
+          left: Math.min(range.start.col, range.end.col),
+          right: Math.max(range.start.col, range.end.col),
+        });
+      } catch {
+        // 忽略无法解析的范围
+      }
+    }
+    return areas;
+  }
+
+  /**
+   * 单元格是否在范围内
+   */
+  private static contains(areas: Area[], row: number, col: number): boolean {
+    return areas.some(area => row >= area.top && row <= area.bottom && col >= area.left && col <= area.right);
+  }
+
+  /**
+   * 计算单条规则的效果
+   * @returns 规则不满足时返回 null
+   */
+  private static evaluateRule(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    cell: Cell | undefined,
+    row: number,
+    col: number,
+  ): ConditionalCellFormat | null {
+    const { rule } = compiled;
+    const value = this.getCellValue(cell, scope.date1904);
+
+    switch (rule.type) {
+      case 'colorScale':
+        return this.evaluateColorScale(scope, compiled, value);
+      case 'dataBar':
+        return this.evaluateDataBar(scope, compiled, value);
+      case 'iconSet':
+        return this.evaluateIconSet(scope, compiled, value);
+      default:
+        if (!this.matches(scope, compiled, cell, value, row, col)) {
+          return null;
+        }
+        return this.getStyleFormat(rule.style, scope.colors);
+    }
+  }
+
+  /**
+   * 单元格是否满足规则条件
+   */
+  private static matches(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    cell: Cell | undefined,
+    value: CellScalar,
+    row: number,
+    col: number,
+  ): boolean {
+    const { rule } = compiled;
+    const text = (cell?.formattedValue ?? cell?.text ?? '').toLowerCase();
+    const search = rule.text?.toLowerCase();
+
+    switch (rule.type) {
+      case 'cellIs':
+        return this.matchCellIs(scope, compiled, value, row, col);
+      case 'expression': {
+        const result = this.evaluateFormula(scope, compiled, rule.formula?.[0], row, col);
+        return result === true || (typeof result === 'number' && result !== 0);
+      }
+      case 'top10':
+        return this.matchTop10(rule, value, this.getStats(scope, compiled));
+      case 'aboveAverage':
+        return this.matchAboveAverage(rule, value, this.getStats(scope, compiled));
+      case 'duplicateValues':
+      case 'uniqueValues': {
+        const key = this.getValueKey(value);
+        if (key === null) {
+          return false;
+        }
+        const count = this.getStats(scope, compiled).counts.get(key) ?? 0;
+        return rule.type === 'duplicateValues' ? count > 1 : count === 1;
+      }
+      case 'containsText':
+        return search !== undefined && text.includes(search);
+      case 'notContainsText':
+        return search !== undefined && !text.includes(search);
+      case 'beginsWith':
+        return search !== undefined && text.startsWith(search);
+      case 'endsWith':
+        return search !== undefined && text.endsWith(search);
+      case 'containsBlanks':
+        return text.trim() === '';
+      case 'notContainsBlanks':
+        return text.trim() !== '';
+      case 'containsErrors':
+        return this.isError(cell);
+      case 'notContainsErrors':
+        return !this.isError(cell);
+      case 'timePeriod':
+        return this.matchTimePeriod(value, rule.timePeriod, scope.date1904);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 单元格值条件 (大于、介于等)
+   */
+  private static matchCellIs(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    value: CellScalar,
+    row: number,
+    col: number,
+  ): boolean {
+    const { rule } = compiled;
+    const operands = (rule.formula ?? []).map(f => this.toScalar(this.evaluateFormula(scope, compiled, f, row, col)));
+    if (!rule.operator || operands.length === 0) {
+      return false;
+    }
+
+    const first = this.compare(value, operands[0]);
+    switch (rule.operator) {
+      case 'equal':
+        return first === 0;
+      case 'notEqual':
+        return first !== 0;
+      case 'greaterThan':
+        return first > 0;
+      case 'greaterThanOrEqual':
+        return first >= 0;
+      case 'lessThan':
+        return first < 0;
+      case 'lessThanOrEqual':
+        return first <= 0;
+      case 'between':
+      case 'notBetween': {
+        const second = operands.length > 1 ? this.compare(value, operands[1]) : first;
+        // 两个边界的顺序不限
+        const inside = (first >= 0 && second <= 0) || (first <= 0 && second >= 0);
+        return rule.operator === 'between' ? inside : !inside;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 前 N 项/后 N 项条件
+   */
+  private static matchTop10(rule: ConditionalFormatRule, value: CellScalar, stats: RangeStats): boolean {
+    const { numbers } = stats;
+    if (typeof value !== 'number' || numbers.length === 0) {
+      return false;
+    }
+
+    const rank = rule.rank ?? 10;
+    const count = rule.percent
+      ? Math.max(1, Math.floor(numbers.length * rank / 100))
+      : Math.min(rank, numbers.length);
+    if (count <= 0) {
+      return false;
+    }
+    return rule.bottom ? value <= numbers[count - 1] : value >= numbers[numbers.length - count];
+  }
+
+  /**
+   * 高于/低于平均值条件
+   */
+  private static matchAboveAverage(rule: ConditionalFormatRule, value: CellScalar, stats: RangeStats): boolean {
+    if (typeof value !== 'number' || stats.numbers.length === 0) {
+      return false;
+    }
+
+    const deviation = (rule.stdDev ?? 0) * stats.stdDev;
+    if (rule.aboveAverage !== false) {
+      const threshold = stats.average + deviation;
+      return rule.equalAverage ? value >= threshold : value > threshold;
+    }
+    const threshold = stats.average - deviation;
+    return rule.equalAverage ? value <= threshold : value < threshold;
+  }
+
+  /**
+   * 发生日期条件 (一周从星期日开始)
+   */
+  private static matchTimePeriod(
+    value: CellScalar,
+    period: ConditionalTimePeriod | undefined,
+    date1904: boolean,
+  ): boolean {
+    if (typeof value !== 'number' || !period) {
+      return false;
+    }
+
+    const now = new Date();
+    const day = Math.floor(value);
+    const today = DateUtils.toDateSerial(now, date1904);
+
+    switch (period) {
+      case 'today':
+        return day === today;
+      case 'yesterday':
+        return day === today - 1;
+      case 'tomorrow':
+        return day === today + 1;
+      case 'last7Days':
+        return day <= today && day > today - 7;
+      case 'thisWeek':
+      case 'lastWeek':
+      case 'nextWeek': {
+        const offset = period === 'thisWeek' ? 0 : period === 'lastWeek' ? -7 : 7;
+        const weekStart = today - now.getDay() + offset;
+        return day >= weekStart && day < weekStart + 7;
+      }
+      default: {
+        const offset = period === 'thisMonth' ? 0 : period === 'lastMonth' ? -1 : 1;
+        const date = DateUtils.excelSerialToDate(day, date1904);
+        return date.getFullYear() * 12 + date.getMonth() === now.getFullYear() * 12 + now.getMonth() + offset;
+      }
+    }
+  }
+
+  /**
+   * 色阶
+   */
+  private static evaluateColorScale(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    value: CellScalar,
+  ): ConditionalCellFormat | null {
+    const scale = compiled.rule.colorScale;
+    if (!scale || typeof value !== 'number' || scale.cfvo.length < 2 || scale.color.length < scale.cfvo.length) {
+      return null;
+    }
+
+    const points = this.getThresholds(scope, compiled, scale.cfvo);
+    if (points.some(point => point === null)) {
+      return null;
+    }
+
+    const colors = scale.color.map(color => this.resolveColor(color, scope.colors));
+    return { fill: this.interpolateColor(value, points as number[], colors) };
+  }
+
+  /**
+   * 数据条
+   */
+  private static evaluateDataBar(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    value: CellScalar,
+  ): ConditionalCellFormat | null {
+    const bar = compiled.rule.dataBar;
+    if (!bar || typeof value !== 'number') {
+      return null;
+    }
+
+    const cfvo = bar.cfvo?.length === 2 ? bar.cfvo : [{ type: 'min' }, { type: 'max' }];
+    const [low, high] = this.getThresholds(scope, compiled, cfvo);
+    if (low === null || high === null) {
+      return null;
+    }
+
+    const ratio = high > low ? Math.min(Math.max((value - low) / (high - low), 0), 1) : (value >= high ? 1 : 0);
+    const minLength = (bar.minLength ?? 10) / 100;
+    const maxLength = (bar.maxLength ?? 90) / 100;
+
+    const dataBar: NonNullable<ConditionalCellFormat['dataBar']> = {
+      length: minLength + (maxLength - minLength) * ratio,
+      color: this.resolveColor(bar.color, scope.colors),
+      gradient: bar.gradient !== false,
+      rightToLeft: bar.direction === 'rightToLeft',
+    };
+    if (bar.borderColor) {
+      dataBar.borderColor = this.resolveColor(bar.borderColor, scope.colors);
+    }
+
+    const format: ConditionalCellFormat = { dataBar };
+    if (bar.showValue === false) {
+      format.hideValue = true;
+    }
+    return format;
+  }
+
+  /**
+   * 图标集
+   */
+  private static evaluateIconSet(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    value: CellScalar,
+  ): ConditionalCellFormat | null {
+    const iconSet = compiled.rule.iconSet;
+    if (!iconSet || typeof value !== 'number') {
+      return null;
+    }
+
+    const icons = ICON_SETS[iconSet.iconSet] ?? ICON_SETS['3TrafficLights1'];
+    const thresholds = this.getThresholds(scope, compiled, iconSet.cfvo);
+
+    // 第一个阈值对应最低的图标，不参与比较
+    let index = 0;
+    for (let i = Math.min(icons.length, thresholds.length) - 1; i >= 1; i--) {
+      const threshold = thresholds[i];
+      if (threshold !== null && (iconSet.cfvo[i].gte === false ? value > threshold : value >= threshold)) {
+        index = i;
+        break;
+      }
+    }
+    if (iconSet.reverse) {
+      index = icons.length - 1 - index;
+    }
+
+    const format: ConditionalCellFormat = { icon: icons[index] };
+    if (iconSet.showValue === false) {
+      format.hideValue = true;
+    }
+    return format;
+  }
+
+  /**
+   * 获取 (并缓存) 规则的阈值
+   */
+  private static getThresholds(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    cfvo: Array<{ type: string; val?: string }>,
+  ): Array<number | null> {
+    if (!compiled.thresholds) {
+      compiled.thresholds = cfvo.map(item => this.getThreshold(scope, compiled, item));
+    }
+    return compiled.thresholds;
+  }
+
+  /**
+   * 计算阈值 (最小值、最大值、数字、百分比、百分点值或公式)
+   */
+  private static getThreshold(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    cfvo: { type: string; val?: string },
+  ): number | null {
+    const { numbers } = this.getStats(scope, compiled);
+    if (numbers.length === 0) {
+      return null;
+    }
+
+    const min = numbers[0];
+    const max = numbers[numbers.length - 1];
+    const { row, col } = compiled.origin;
+    const val = cfvo.val ? this.toNumber(this.evaluateFormula(scope, compiled, cfvo.val, row, col)) : NaN;
+
+    switch (cfvo.type) {
+      case 'min':
+        return min;
+      case 'max':
+        return max;
+      case 'num':
+      case 'formula':
+        return isNaN(val) ? null : val;
+      case 'percent':
+        return isNaN(val) ? null : min + (max - min) * val / 100;
+      case 'percentile':
+        return isNaN(val) ? null : this.percentile(numbers, val / 100);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 百分点值 (与 PERCENTILE.INC 一致)
+   * @param sorted 升序排列的数值
+   * @param p 0 - 1
+   */
+  private static percentile(sorted: number[], p: number): number {
+    const position = (sorted.length - 1) * Math.min(Math.max(p, 0), 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  /**
+   * 按阈值在颜色之间插值
+   */
+  private static interpolateColor(value: number, points: number[], colors: string[]): string {
+    if (value <= points[0]) {
+      return colors[0];
+    }
+    for (let i = 1; i < points.length; i++) {
+      if (value <= points[i]) {
+        const span = points[i] - points[i - 1];
+        const ratio = span > 0 ? (value - points[i - 1]) / span : 1;
+        return ColorUtils.blendColors(colors[i - 1], colors[i], ratio);
+      }
+    }
+    return colors[points.length - 1];
+  }
+
+  /**
+   * 获取 (并缓存) 规则范围内的统计数据
+   */
+  private static getStats(scope: EvaluationScope, compiled: CompiledRule): RangeStats {
+    if (compiled.stats) {
+      return compiled.stats;
+    }
+
+    const numbers: number[] = [];
+    const counts = new Map<string, number>();
+    scope.sheet.cells.forEach((cell) => {
+      if (!this.contains(compiled.areas, cell.row, cell.col)) {
+        return;
+      }
+      const value = this.getCellValue(cell, scope.date1904);
+      if (typeof value === 'number') {
+        numbers.push(value);
+      }
+      const key = this.getValueKey(value);
+      if (key !== null) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    });
+    numbers.sort((a, b) => a - b);
+
+    const average = numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : 0;
+    const variance = numbers.length > 0
+      ? numbers.reduce((sum, n) => sum + (n - average) ** 2, 0) / numbers.length
+      : 0;
+
+    compiled.stats = { numbers, average, stdDev: Math.sqrt(variance), counts };
+    return compiled.stats;
+  }
+
+  /**
+   * 计算规则中的公式
+   * @description 相对引用按单元格相对于范围左上角的偏移平移，计算失败时返回 null
+   */
+  private static evaluateFormula(
+    scope: EvaluationScope,
+    compiled: CompiledRule,
+    formula: string | undefined,
+    row: number,
+    col: number,
+  ): unknown {
+    if (!formula) {
+      return null;
+    }
+
+    // 常量不需要经过公式引擎
+    const trimmed = formula.trim();
+    if (/^-?\d+(\.\d+)?(E[+-]?\d+)?$/i.test(trimmed)) {
+      return parseFloat(trimmed);
+    }
+
+    const shifted = FormulaUtils.shift(trimmed, row - compiled.origin.row, col - compiled.origin.col);
+    // 公式引擎不识别 $，去掉字符串以外的 $
+    const expr = shifted.replace(/"(?:[^"]|"")*"|\$/g, match => (match === '$' ? '' : match));
+    const result = getFormulaEngine().evaluate(expr, this.createFormulaContext(scope));
+    return result.type === 'error' ? null : result.value;
+  }
+
+  /**
+   * 创建公式计算上下文
+   */
+  private static createFormulaContext(scope: EvaluationScope): FormulaContext {
+    const { sheet, extent, date1904 } = scope;
+    return {
+      getCellValue: (address: string) => this.getCellValue(sheet.cells.get(address), date1904) ?? '',
+      getRangeValues: (ref: string) => {
+        const range = XmlUtils.parseRange(ref);
+        const values: CellScalar[][] = [];
+        for (let r = range.start.row; r <= Math.min(range.end.row, extent.row); r++) {
+          const rowValues: CellScalar[] = [];
+          for (let c = range.start.col; c <= Math.min(range.end.col, extent.col); c++) {
+            rowValues.push(this.getCellValue(sheet.cells.get(XmlUtils.formatCellAddress(r, c)), date1904));
+          }
+          values.push(rowValues);
+        }
+        return values;
+      },
+      date1904,
+    };
+  }
+
+  /**
+   * 获取参与条件判断的单元格值
+   * @description 日期转为序列号，富文本取文本；编辑后以文本保存的数字仍按数字处理
+   */
+  private static getCellValue(cell: Cell | undefined, date1904: boolean): CellScalar {
+    if (!cell) {
+      return null;
+    }
+    const value = cell.value;
+    if (value === null || value === '') {
+      return null;
+    }
+    if (value instanceof Date) {
+      return DateUtils.dateToExcelSerial(value, date1904);
+    }
+    if (typeof value === 'object') {
+      return cell.text;
+    }
+    if (typeof value === 'string' && (cell.type === 'number' || cell.type === 'date')) {
+      const num = Number(value);
+      return value.trim() !== '' && !isNaN(num) ? num : value;
+    }
+    return value;
+  }
+
+  /**
+   * 将公式结果转为可比较的值
+   */
+  private static toScalar(value: unknown): CellScalar {
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    if (value instanceof Date) {
+      return DateUtils.dateToExcelSerial(value);
+    }
+    return null;
+  }
+
+  /**
+   * 将公式结果转为数字
+   */
+  private static toNumber(value: unknown): number {
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+      return Number(value);
+    }
+    return NaN;
+  }
+
+  /**
+   * 比较两个值 (与 Excel 一致：数字 < 文本 < 逻辑值，文本不区分大小写，空单元格视为 0 或空文本)
+   * @returns 负数表示 a < b，0 表示相等，正数表示 a > b
+   */
+  private static compare(a: CellScalar, b: CellScalar): number {
+    const left = a ?? (typeof b === 'string' ? '' : 0);
+    const right = b ?? (typeof left === 'string' ? '' : 0);
+    const rank = (v: number | string | boolean): number => (typeof v === 'number' ? 0 : typeof v === 'string' ? 1 : 2);
+
+    if (rank(left) !== rank(right)) {
+      return rank(left) - rank(right);
+    }
+    if (typeof left === 'string') {
+      const l = left.toLowerCase();
+      const r = String(right).toLowerCase();
+      return l === r ? 0 : l < r ? -1 : 1;
+    }
+    return Number(left) - Number(right);
+  }
+
+  /**
+   * 获取用于统计重复值的键 (文本不区分大小写)
+   */
+  private static getValueKey(value: CellScalar): string | null {
+    if (value === null) {
+      return null;
+    }
+    return typeof value === 'string' ? `s:${value.toLowerCase()}` : `${typeof value}:${value}`;
+  }
+
+  /**
+   * 单元格是否为错误值
+   */
+  private static isError(cell: Cell | undefined): boolean {
+    return cell?.type === 'error' || cell?.error !== undefined;
+  }
+
+  /**
+   * 将差异格式转为单元格格式
+   */
+  private static getStyleFormat(style: CellStyle | undefined, colors?: ThemeColors): ConditionalCellFormat {
+    const format: ConditionalCellFormat = {};
+    if (!style) {
+      return format;
+    }
+
+    const fill = style.fill;
+    if (fill?.type === 'gradient') {
+      const stop = fill.stops?.[0];
+      if (stop) {
+        format.fill = this.resolveColor(stop.color, colors);
+      }
+    } else if (fill && fill.pattern !== 'none') {
+      const color = fill.fgColor ?? fill.bgColor;
+      if (color) {
+        format.fill = this.resolveColor(color, colors);
+      }
+    }
+
+    const font = style.font;
+    if (font?.color) {
+      format.fontColor = this.resolveColor(font.color, colors);
+    }
+    if (font?.bold !== undefined) {
+      format.bold = font.bold;
+    }
+    if (font?.italic !== undefined) {
+      format.italic = font.italic;
+    }
+    if (font?.underline !== undefined) {
+      format.underline = font.underline !== 'none';
+    }
+    if (font?.strikethrough !== undefined) {
+      format.strikethrough = font.strikethrough;
+    }
+
+    const border = style.border;
+    const side = (value: { color?: Color } | undefined): string | undefined => {
+      if (!value) {
+        return undefined;
+      }
+      return value.color ? this.resolveColor(value.color, colors) : '#000000';
+    };
+    const top = side(border?.top);
+    const bottom = side(border?.bottom);
+    const left = side(border?.left);
+    const right = side(border?.right);
+    if (top) {
+      format.borderTop = top;
+    }
+    if (bottom) {
+      format.borderBottom = bottom;
+    }
+    if (left) {
+      format.borderLeft = left;
+    }
+    if (right) {
+      format.borderRight = right;
+    }
+
+    if (style.numFmt) {
+      format.numFmt = style.numFmt;
+    }
+
+    return format;
+  }
+
+  /**
+   * 解析颜色为 #RRGGBB
+   */
+  private static resolveColor(color: Color, colors?: ThemeColors): string {
+    if (color.rgb) {
+      return `#${color.rgb.length === 8 ? color.rgb.substring(2) : color.rgb}`;
+    }
+    if (color.theme !== undefined) {
+      const base = ColorUtils.getThemeColor(color.theme, colors);
+      return `#${color.tint ? ColorUtils.applyTint(base, color.tint) : base}`;
+    }
+    if (color.indexed !== undefined) {
+      return ColorUtils.getIndexedColor(color.indexed);
+    }
+    return '#000000';
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * 数据验证工具类
+ * @description 将列表验证的来源 (逗号分隔的列表、单元格范围、其他工作表的范围和定义名称) 解析为具体的选项
+ */
+import type { DataValidation, DefinedName, Sheet, Workbook } from '../types';
+import { XmlUtils } from '../parser/XmlUtils';
+
+/**
+ * 解析列表来源需要的工作簿内容
+ */
+export type ValidationWorkbook = Pick<Workbook, 'sheets' | 'definedNames'>;
+
+/**
+ * 定义名称引用定义名称时的最大深度
+ */
+const MAX_NAME_DEPTH = 8;
+
+export class DataValidationUtils {
+  /**
+   * 获取单元格的数据验证规则
+   * @returns 单元格不在任何规则范围内时返回 null
+   */
+  static getValidation(sheet: Sheet, row: number, col: number): DataValidation | null {
+    for (const validation of sheet.dataValidations) {
+      if (validation.ranges.some(ref => this.inRange(ref, row, col))) {
+        return validation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 解析列表验证的选项
+   * @description 单元格范围按行读取显示文本，空单元格不作为选项
+   * @param validation 数据验证规则
+   * @param sheet 规则所在的工作表
+   * @param workbook 工作簿 (用于查找其他工作表和定义名称)
+   * @returns 不是列表验证、来源无法解析 (如 INDIRECT 等公式) 或来源工作表尚未解析时返回 null
+   */
+  static getListValues(validation: DataValidation, sheet: Sheet, workbook: ValidationWorkbook): string[] | null {
+    if (validation.type !== 'list' || !validation.formula1) {
+      return null;
+    }
+    return this.resolveSource(validation.formula1.trim().replace(/^=/, ''), sheet, workbook, 0);
+  }
+
+  /**
+   * 为工作簿中已解析工作表的列表验证设置选项 (listValues)
+   * @description 已设置选项的规则不再解析；延迟解析模式下每解析一个工作表调用一次，
+   * 来源工作表解析后，之前未能解析的选项随之补全
+   */
+  static resolveListValues(workbook: ValidationWorkbook): void {
+    for (const sheet of workbook.sheets) {
+      if (this.isPending(sheet)) {
+        continue;
+      }
+      for (const validation of sheet.dataValidations) {
+        if (validation.type === 'list' && !validation.listValues) {
+          const values = this.getListValues(validation, sheet, workbook);
+          if (values) {
+            validation.listValues = values;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 获取尚未解析选项的列表验证引用的其他工作表名称
+   * @description 延迟解析模式下用于在显示下拉列表前加载来源工作表
+   */
+  static getReferencedSheets(sheet: Sheet, workbook: ValidationWorkbook): string[] {
+    const names = new Set<string>();
+    for (const validation of sheet.dataValidations) {
+      if (validation.type !== 'list' || validation.listValues !== undefined || !validation.formula1) {
+        continue;
+      }
+      let source = validation.formula1.trim().replace(/^=/, '');
+      for (let depth = 0; depth < MAX_NAME_DEPTH && !source.startsWith('"'); depth++) {
+        const { sheetName, range } = this.splitRef(source);
+        if (sheetName) {
+          if (sheetName.toLowerCase() !== sheet.name.toLowerCase()) {
+            names.add(sheetName);
+          }
+          break;
+        }
+        const definedName = this.findDefinedName(workbook.definedNames, range, sheet);
+        if (!definedName) {
+          break;
+        }
+        source = definedName.ref.trim().replace(/^=/, '');
+      }
+    }
+    return [...names];
+  }
+
+  /**
+   * 解析列表来源
+   */
+  private static resolveSource(
+    source: string,
+    sheet: Sheet,
+    workbook: ValidationWorkbook,
+    depth: number,
+  ): string[] | null {
+    // 逗号分隔的列表 ("a,b,c")
+    if (source.startsWith('"')) {
+      const text = source.endsWith('"') && source.length > 1 ? source.slice(1, -1) : source.slice(1);
+      return text
+        .replace(/""/g, '"')
+        .split(',')
+        .map(value => value.trim())
+        .filter(value => value !== '');
+    }
+
+    const { sheetName, range } = this.splitRef(source);
+    if (/^\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?$/i.test(range)) {
+      const target = sheetName ? this.findSheet(workbook, sheetName) : sheet;
+      if (!target || this.isPending(target)) {
+        return null;
+      }
+      return this.readRange(target, range.replace(/\$/g, ''));
+    }
+
+    // 定义名称 (工作表级名称优先于工作簿级名称)
+    if (!sheetName && /^[A-Z_\\][\w.\\]*$/i.test(range) && depth < MAX_NAME_DEPTH) {
+      const definedName = this.findDefinedName(workbook.definedNames, range, sheet);
+      if (definedName) {
+        return this.resolveSource(definedName.ref.trim().replace(/^=/, ''), sheet, workbook, depth + 1);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 读取范围内单元格的显示文本
+   */
+  private static readRange(sheet: Sheet, ref: string): string[] | null {
+    let range: ReturnType<typeof XmlUtils.parseRange>;
+    try {
+      range = XmlUtils.parseRange(ref);
+    } catch {
+      return null;
+    }
+
+    const values: string[] = [];
+    for (let row = Math.min(range.start.row, range.end.row); row <= Math.max(range.start.row, range.end.row); row++) {
+      for (let col = Math.min(range.start.col, range.end.col); col <= Math.max(range.start.col, range.end.col); col++) {
+        const cell = sheet.cells.get(XmlUtils.formatCellAddress(row, col));
+        const text = cell?.formattedValue ?? cell?.text ?? '';
+        if (text !== '') {
+          values.push(text);
+        }
+      }
+    }
+    return values;
+  }
+
+  /**
+   * 查找定义名称
+   */
+  private static findDefinedName(definedNames: DefinedName[], name: string, sheet: Sheet): DefinedName | undefined {
+    const lowerName = name.toLowerCase();
+    const matches = definedNames.filter(definedName => definedName.name.toLowerCase() === lowerName);
+    return matches.find(definedName => definedName.scope === String(sheet.index))
+      ?? matches.find(definedName => !definedName.scope);
+  }
+
+  /**
+   * 按名称查找工作表 (不区分大小写)
+   */
+  private static findSheet(workbook: ValidationWorkbook, name: string): Sheet | undefined {
+    const lowerName = name.toLowerCase();
+    return workbook.sheets.find(sheet => sheet.name.toLowerCase() === lowerName);
+  }
+
+  /**
+   * 工作表是否尚未解析 (延迟解析模式)
+   */
+  private static isPending(sheet: Sheet): boolean {
+    return sheet.parseState !== undefined && sheet.parseState !== 'parsed';
+  }
+
+  /**
+   * 单元格是否在范围引用内
+   */
+  private static inRange(ref: string, row: number, col: number): boolean {
+    try {
+      const { start, end } = XmlUtils.parseRange(ref.replace(/\$/g, ''));
+      return row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 拆分引用中的工作表名和范围 (工作表名可以带单引号)
+   */
+  private static splitRef(ref: string): { sheetName?: string; range: string } {
+    const index = ref.lastIndexOf('!');
+    if (index < 0) {
+      return { range: ref.trim() };
+    }
+
+    let sheetName = ref.substring(0, index).trim();
+    if (sheetName.startsWith('\'') && sheetName.endsWith('\'')) {
+      sheetName = sheetName.slice(1, -1).replace(/''/g, '\'');
+    }
+    return { sheetName, range: ref.substring(index + 1).trim() };
+  }
+}
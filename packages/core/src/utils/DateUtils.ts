@@ -0,0 +1,82 @@
+/**
+ * 日期工具类
+ * @description Excel 日期序列号与 JS Date 的相互转换，支持 1900 和 1904 日期系统。
+ * 序列号表示不带时区的日期时间，转换得到的 Date 的本地时间字段 (年、月、日、时、分、秒) 与 Excel 中显示的一致，
+ * 不会因为运行环境的时区不同而偏移
+ */
+
+/**
+ * 每天的毫秒数
+ */
+const MS_PER_DAY = 86400000;
+
+/**
+ * 1900 日期系统的起点 (序列号 0，已计入 Excel 把 1900 年当作闰年的错误)
+ */
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+
+/**
+ * 1904 日期系统的起点 (序列号 0 为 1904-01-01)
+ */
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+/**
+ * 1900 日期系统中 1900-03-01 的序列号，之前的日期受闰年错误影响偏移一天
+ */
+const SERIAL_1900_MARCH_1 = 61;
+
+export class DateUtils {
+  /**
+   * Excel 序列号转日期
+   * @param serial 序列号 (整数部分为日期，小数部分为时间)
+   * @param date1904 是否使用 1904 日期系统
+   * @description 1900 日期系统中不存在的 1900-02-29 (序列号 60) 转为 1900-02-28
+   */
+  static excelSerialToDate(serial: number, date1904 = false): Date {
+    let days = Math.floor(serial);
+    const time = Math.round((serial - days) * MS_PER_DAY);
+    if (!date1904 && days < SERIAL_1900_MARCH_1 - 1) {
+      days += 1;
+    }
+
+    const utc = new Date((date1904 ? EPOCH_1904 : EPOCH_1900) + days * MS_PER_DAY + time);
+    const date = new Date(
+      utc.getUTCFullYear(),
+      utc.getUTCMonth(),
+      utc.getUTCDate(),
+      utc.getUTCHours(),
+      utc.getUTCMinutes(),
+      utc.getUTCSeconds(),
+      utc.getUTCMilliseconds(),
+    );
+    // Date 构造函数把 0-99 年解释为 1900-1999 年
+    if (utc.getUTCFullYear() < 100) {
+      date.setFullYear(utc.getUTCFullYear());
+    }
+    return date;
+  }
+
+  /**
+   * 日期转 Excel 序列号
+   * @param date 日期 (使用其本地时间字段)
+   * @param date1904 是否使用 1904 日期系统
+   */
+  static dateToExcelSerial(date: Date, date1904 = false): number {
+    const utc = new Date(0);
+    utc.setUTCFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+    utc.setUTCHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+
+    if (date1904) {
+      return (utc.getTime() - EPOCH_1904) / MS_PER_DAY;
+    }
+    const serial = (utc.getTime() - EPOCH_1900) / MS_PER_DAY;
+    return serial < SERIAL_1900_MARCH_1 ? serial - 1 : serial;
+  }
+
+  /**
+   * 获取日期部分的序列号 (不含时间)
+   */
+  static toDateSerial(date: Date, date1904 = false): number {
+    return Math.floor(this.dateToExcelSerial(date, date1904));
+  }
+}
@@ -2,6 +2,7 @@
  * 格式化工具类
  * @description 处理 Excel 数字格式化
  */
+import { DateUtils } from './DateUtils';
 
 /**
  * 日期格式化选项
@@ -24,11 +25,90 @@ interface FormatResult {
   color?: string;
 }
 
+/**
+ * 小数点字符
+ */
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * 文本识别结果
+ */
+export interface ParsedText {
+  /** 识别出的值 */
+  value: number | boolean | Date;
+  /** 值类型 */
+  type: 'number' | 'boolean' | 'date';
+  /** 与原文本写法对应的数字格式 (如 0.0%、#,##0、yyyy-mm-dd) */
+  numFmt?: string;
+}
+
+/**
+ * 数字文本 (可带千位分隔符和科学计数法)，按小数点区分：小数点为 . 时千位分隔符为 ,，小数点为 , 时千位分隔符为 .
+ */
+const NUMBER_PATTERNS: Record<DecimalSeparator, RegExp> = {
+  '.': /^([+-]?)(\d{1,3}(?:,\d{3})+|\d+)?(?:\.(\d+))?(?:[eE][+-]?\d+)?$/,
+  ',': /^([+-]?)(\d{1,3}(?:\.\d{3})+|\d+)?(?:,(\d+))?(?:[eE][+-]?\d+)?$/,
+};
+
+/**
+ * 日期文本 (年-月-日、年/月/日或年.月.日，可带时间) 和中文日期 (2024年1月5日)
+ */
+const DATE_PATTERN = /^(\d{4})([-/.])(\d{1,2})\2(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const CN_DATE_PATTERN = /^(\d{4})年(\d{1,2})月(\d{1,2})日$/;
+
+/**
+ * 超过此位数的整数按文本保留 (如身份证号、订单号，避免丢失精度)
+ */
+const MAX_NUMBER_DIGITS = 15;
+
+/**
+ * 内置数字格式
+ */
+const BUILTIN_NUM_FMTS: Record<number, string> = {
+  0: 'General',
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  11: '0.00E+00',
+  12: '# ?/?',
+  13: '# ??/??',
+  14: 'mm-dd-yy',
+  15: 'd-mmm-yy',
+  16: 'd-mmm',
+  17: 'mmm-yy',
+  18: 'h:mm AM/PM',
+  19: 'h:mm:ss AM/PM',
+  20: 'h:mm',
+  21: 'h:mm:ss',
+  22: 'm/d/yy h:mm',
+  37: '#,##0 ;(#,##0)',
+  38: '#,##0 ;[Red](#,##0)',
+  39: '#,##0.00;(#,##0.00)',
+  40: '#,##0.00;[Red](#,##0.00)',
+  45: 'mm:ss',
+  46: '[h]:mm:ss',
+  47: 'mmss.0',
+  48: '##0.0E+0',
+  49: '@',
+};
+
 export class FormatUtils {
+  /**
+   * 获取内置数字格式代码
+   * @param id 数字格式 ID
+   */
+  static getBuiltinFormat(id: number): string | undefined {
+    return BUILTIN_NUM_FMTS[id];
+  }
+
   /**
    * 格式化单元格值
+   * @param date1904 是否使用 1904 日期系统 (数字按日期格式显示时使用)
    */
-  static formatValue(value: unknown, format: string | undefined): string {
+  static formatValue(value: unknown, format: string | undefined, date1904 = false): string {
     if (value === null || value === undefined) return '';
 
     if (!format || format === 'General') {
@@ -40,7 +120,7 @@ export class FormatUtils {
     }
 
     if (typeof value === 'number') {
-      return this.formatNumber(value, format);
+      return this.formatNumber(value, format, date1904);
     }
 
     return String(value);
@@ -72,8 +152,9 @@ export class FormatUtils {
 
   /**
    * 格式化数字
+   * @param date1904 是否使用 1904 日期系统 (日期格式时使用)
    */
-  static formatNumber(value: number, format: string): string {
+  static formatNumber(value: number, format: string, date1904 = false): string {
     // 解析条件格式
     const sections = this.parseFormatSections(format);
 
@@ -93,7 +174,7 @@ export class FormatUtils {
 
     // 检查是否是日期格式
     if (this.isDateFormat(section)) {
-      const date = this.excelSerialToDate(value);
+      const date = DateUtils.excelSerialToDate(value, date1904);
       return this.formatDate(date, section);
     }
 
@@ -228,47 +309,18 @@ export class FormatUtils {
 
   /**
    * Excel 序列号转日期
+   * @see DateUtils.excelSerialToDate
    */
-  static excelSerialToDate(serial: number): Date {
-    // Excel 日期从 1900-01-01 开始 (序列号 1)
-    // 需要考虑 1900 年闰年 bug (Excel 错误地认为 1900 是闰年)
-    const utcDays = Math.floor(serial) - 25569;
-    const utcValue = utcDays * 86400;
-    const date = new Date(utcValue * 1000);
-
-    // 处理小数部分 (时间)
-    const fractionalDay = serial - Math.floor(serial);
-    const totalSeconds = Math.floor(86400 * fractionalDay);
-    date.setUTCHours(
-      Math.floor(totalSeconds / 3600),
-      Math.floor((totalSeconds % 3600) / 60),
-      totalSeconds % 60
-    );
-
-    return date;
+  static excelSerialToDate(serial: number, date1904 = false): Date {
+    return DateUtils.excelSerialToDate(serial, date1904);
   }
 
   /**
    * 日期转 Excel 序列号
+   * @see DateUtils.dateToExcelSerial
    */
-  static dateToExcelSerial(date: Date): number {
-    const utcValue = Date.UTC(
-      date.getFullYear(),
-      date.getMonth(),
-      date.getDate(),
-      date.getHours(),
-      date.getMinutes(),
-      date.getSeconds()
-    );
-
-    const utcDays = Math.floor(utcValue / 86400000);
-    const serial = utcDays + 25569;
-
-    // 添加时间部分
-    const timeSerial =
-      (date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()) / 86400;
-
-    return serial + timeSerial;
+  static dateToExcelSerial(date: Date, date1904 = false): number {
+    return DateUtils.dateToExcelSerial(date, date1904);
   }
 
   /**
@@ -467,6 +519,102 @@ export class FormatUtils {
     return a;
   }
 
+  /**
+   * 识别文本中的数字、百分比、日期和布尔值 (类似在 Excel 中输入单元格内容时的自动识别)
+   * @description 以 0 开头的整数 (如邮编、工号) 和超过 15 位的整数不识别为数字
+   * @param decimalSeparator 小数点字符，千位分隔符为另一个字符 (如 , 对应 1.234,5)
+   * @returns 无法识别时返回 null，应按文本处理
+   */
+  static parseText(text: string, decimalSeparator: DecimalSeparator = '.'): ParsedText | null {
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      return null;
+    }
+
+    if (/^(true|false)$/i.test(trimmed)) {
+      return { value: trimmed.toLowerCase() === 'true', type: 'boolean' };
+    }
+
+    // 百分比
+    if (trimmed.endsWith('%')) {
+      const number = this.parseNumberText(trimmed.slice(0, -1).trim(), decimalSeparator);
+      if (!number) {
+        return null;
+      }
+      const decimals = number.decimals > 0 ? `.${'0'.repeat(number.decimals)}` : '';
+      return { value: number.value / 100, type: 'number', numFmt: `0${decimals}%` };
+    }
+
+    const number = this.parseNumberText(trimmed, decimalSeparator);
+    if (number) {
+      const decimals = number.decimals > 0 ? `.${'0'.repeat(number.decimals)}` : '';
+      return number.grouped
+        ? { value: number.value, type: 'number', numFmt: `#,##0${decimals}` }
+        : { value: number.value, type: 'number' };
+    }
+
+    return this.parseDateText(trimmed);
+  }
+
+  /**
+   * 识别数字文本
+   */
+  private static parseNumberText(
+    text: string,
+    decimalSeparator: DecimalSeparator,
+  ): { value: number; decimals: number; grouped: boolean } | null {
+    const match = NUMBER_PATTERNS[decimalSeparator].exec(text);
+    if (!match || (match[2] === undefined && match[3] === undefined)) {
+      return null;
+    }
+
+    const groupSeparator = decimalSeparator === '.' ? ',' : '.';
+    const integer = match[2] ?? '';
+    const digits = integer.split(groupSeparator).join('');
+    if ((digits.length > 1 && digits.startsWith('0')) || digits.length > MAX_NUMBER_DIGITS) {
+      return null;
+    }
+
+    const value = parseFloat(text.split(groupSeparator).join('').replace(decimalSeparator, '.'));
+    if (!isFinite(value)) {
+      return null;
+    }
+    return { value, decimals: match[3]?.length ?? 0, grouped: integer.includes(groupSeparator) };
+  }
+
+  /**
+   * 识别日期文本
+   */
+  private static parseDateText(text: string): ParsedText | null {
+    const match = DATE_PATTERN.exec(text);
+    const cnMatch = match ? null : CN_DATE_PATTERN.exec(text);
+    if (!match && !cnMatch) {
+      return null;
+    }
+
+    const [year, month, day] = match
+      ? [Number(match[1]), Number(match[3]), Number(match[4])]
+      : [Number(cnMatch?.[1]), Number(cnMatch?.[2]), Number(cnMatch?.[3])];
+    const hasTime = match?.[5] !== undefined;
+    const hours = hasTime ? Number(match?.[5]) : 0;
+    const minutes = hasTime ? Number(match?.[6]) : 0;
+    const seconds = match?.[7] !== undefined ? Number(match[7]) : 0;
+
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+    if (
+      date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day ||
+      hours > 23 || minutes > 59 || seconds > 59
+    ) {
+      return null;
+    }
+
+    let numFmt = cnMatch ? 'yyyy"年"m"月"d"日"' : `yyyy${match?.[2]}mm${match?.[2]}dd`;
+    if (hasTime) {
+      numFmt += match?.[7] !== undefined ? ' hh:mm:ss' : ' hh:mm';
+    }
+    return { value: date, type: 'date', numFmt };
+  }
+
   /**
    * 格式化货币
    */
@@ -0,0 +1,302 @@
+/**
+ * 公式工具类
+ * @description 提供共享公式引用平移、工作表引用重命名、公式显示文本和数组公式区域查询等功能
+ */
+import type { Cell, CellFormula, Sheet } from '../types';
+import { XmlUtils } from '../parser/XmlUtils';
+
+/**
+ * 最大行数和列数 (XFD1048576)
+ */
+const MAX_ROWS = 1048576;
+const MAX_COLS = 16384;
+
+/**
+ * 引用匹配：单元格 (A1)、整列范围 (A:C)、整行范围 (1:3)
+ */
+const REFERENCE_PATTERN = new RegExp([
+  /(\$?)([A-Za-z]{1,3})(\$?)(\d+)/.source,
+  /(\$?)([A-Za-z]{1,3}):(\$?)([A-Za-z]{1,3})/.source,
+  /(\$?)(\d+):(\$?)(\d+)/.source,
+].join('|'), 'g');
+
+/**
+ * 不带引号的工作表引用 (Sheet1!、Sheet1:Sheet3!)
+ */
+const UNQUOTED_SHEET_PATTERN = /([A-Za-z_\u00a1-\uffff][\w.\u00a1-\uffff]*)(?::([A-Za-z_\u00a1-\uffff][\w.\u00a1-\uffff]*))?!/g;
+
+export class FormulaUtils {
+  /**
+   * 平移公式中的相对引用 (用于展开共享公式)
+   * @param formula 公式文本 (不含 =)
+   * @param rowOffset 行偏移
+   * @param colOffset 列偏移
+   * @returns 平移后的公式，超出工作表范围的引用替换为 #REF!
+   */
+  static shift(formula: string, rowOffset: number, colOffset: number): string {
+    if (rowOffset === 0 && colOffset === 0) {
+      return formula;
+    }
+
+    // 字符串、带引号的工作表名和方括号 (结构化引用、外部工作簿) 中的内容保持不变
+    let result = '';
+    let plainStart = 0;
+    let i = 0;
+    while (i < formula.length) {
+      const ch = formula[i];
+      if (ch === '"' || ch === '\'' || ch === '[') {
+        const end = this.findLiteralEnd(formula, i);
+        result += this.shiftReferences(formula.slice(plainStart, i), rowOffset, colOffset) + formula.slice(i, end);
+        plainStart = end;
+        i = end;
+      } else {
+        i++;
+      }
+    }
+    return result + this.shiftReferences(formula.slice(plainStart), rowOffset, colOffset);
+  }
+
+  /**
+   * 重命名公式中引用的工作表
+   * @param formula 公式或引用文本 (如 SUM('Q1 数据'!A1:B2)、Sheet1:Sheet3!A1)
+   * @param renames 原工作表名称 (小写) 到新名称的映射
+   * @description 字符串和外部工作簿引用 ([1]Sheet1!A1) 保持不变；新名称需要时加引号
+   */
+  static renameSheets(formula: string, renames: Map<string, string>): string {
+    if (renames.size === 0) {
+      return formula;
+    }
+
+    let result = '';
+    let plainStart = 0;
+    let i = 0;
+    while (i < formula.length) {
+      const ch = formula[i];
+      if (ch !== '"' && ch !== '\'' && ch !== '[') {
+        i++;
+        continue;
+      }
+
+      const end = this.findLiteralEnd(formula, i);
+      let literal = formula.slice(i, end);
+      if (ch === '\'' && formula[end] === '!' && !literal.startsWith('\'[')) {
+        const names = literal.slice(1, -1).replace(/''/g, '\'').split(':');
+        if (names.some(name => renames.has(name.toLowerCase()))) {
+          literal = this.formatSheetReference(names.map(name => renames.get(name.toLowerCase()) ?? name));
+        }
+      }
+      result += this.renameUnquotedSheets(formula, plainStart, i, renames) + literal;
+      plainStart = end;
+      i = end;
+    }
+    return result + this.renameUnquotedSheets(formula, plainStart, formula.length, renames);
+  }
+
+  /**
+   * 格式化工作表引用前缀 (不含 !)，名称不是普通标识符或与单元格引用混淆时加引号
+   */
+  static formatSheetReference(names: string[]): string {
+    const plain = names.every(name => (
+      /^[A-Za-z_\u00a1-\uffff][\w.\u00a1-\uffff]*$/.test(name)
+      && !/^[A-Za-z]{1,3}\d+$/.test(name)
+      && !/^[Rr]\d*[Cc]\d*$/.test(name)
+      && !/^(true|false)$/i.test(name)
+    ));
+    const text = names.join(':');
+    return plain ? text : `'${text.replace(/'/g, '\'\'')}'`;
+  }
+
+  /**
+   * 获取公式的显示文本 (普通数组公式显示为 {=…})
+   */
+  static toDisplayText(formula: CellFormula): string {
+    return formula.type === 'array' && !formula.dynamic ? `{=${formula.text}}` : `=${formula.text}`;
+  }
+
+  /**
+   * 获取单元格在公式栏中显示的公式
+   * @description 数组公式区域和动态数组溢出区域中的单元格显示左上角单元格的公式
+   * @returns 不含公式时返回 null
+   */
+  static getDisplayFormula(sheet: Sheet, cell: Cell): string | null {
+    const formula = this.getArrayAnchor(sheet, cell)?.formula ?? cell.formula;
+    return formula?.text ? this.toDisplayText(formula) : null;
+  }
+
+  /**
+   * 获取单元格所在的动态数组溢出区域
+   */
+  static getSpillRange(
+    sheet: Sheet,
+    row: number,
+    col: number,
+  ): { start: { row: number; col: number }; end: { row: number; col: number } } | null {
+    const cell = sheet.cells.get(XmlUtils.formatCellAddress(row, col));
+    const formula = cell ? this.getArrayAnchor(sheet, cell)?.formula : undefined;
+    if (!formula?.dynamic || !formula.range) {
+      return null;
+    }
+    try {
+      return XmlUtils.parseRange(formula.range);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 获取单元格所在数组公式的左上角单元格
+   */
+  private static getArrayAnchor(sheet: Sheet, cell: Cell): Cell | undefined {
+    if (cell.formula?.type === 'array') {
+      return cell;
+    }
+    if (!cell.arrayRange) {
+      return undefined;
+    }
+    return sheet.cells.get(cell.arrayRange.split(':')[0]);
+  }
+
+  /**
+   * 查找字符串、带引号名称或方括号内容的结束位置
+   */
+  private static findLiteralEnd(text: string, start: number): number {
+    const open = text[start];
+    if (open === '[') {
+      let depth = 0;
+      for (let i = start; i < text.length; i++) {
+        if (text[i] === '[') {
+          depth++;
+        } else if (text[i] === ']' && --depth === 0) {
+          return i + 1;
+        }
+      }
+      return text.length;
+    }
+
+    // 连续两个引号表示引号本身
+    for (let i = start + 1; i < text.length; i++) {
+      if (text[i] === open) {
+        if (text[i + 1] !== open) {
+          return i + 1;
+        }
+        i++;
+      }
+    }
+    return text.length;
+  }
+
+  /**
+   * 重命名一段普通公式文本中不带引号的工作表引用
+   */
+  private static renameUnquotedSheets(formula: string, start: number, end: number, renames: Map<string, string>): string {
+    const text = formula.slice(start, end);
+    return text.replace(UNQUOTED_SHEET_PATTERN, (match: string, first: string, last: string | undefined, offset: number) => {
+      // 名称的一部分或外部工作簿引用 ([1]Sheet1!) 不重命名
+      if (/[\w.\u00a1-\uffff\]]/.test(formula[start + offset - 1] ?? '')) {
+        return match;
+      }
+      const names = last !== undefined ? [first, last] : [first];
+      if (!names.some(name => renames.has(name.toLowerCase()))) {
+        return match;
+      }
+      return `${this.formatSheetReference(names.map(name => renames.get(name.toLowerCase()) ?? name))}!`;
+    });
+  }
+
+  /**
+   * 平移一段普通公式文本中的引用
+   */
+  private static shiftReferences(text: string, rowOffset: number, colOffset: number): string {
+    let result = '';
+    let last = 0;
+    let match: RegExpExecArray | null;
+
+    REFERENCE_PATTERN.lastIndex = 0;
+    while ((match = REFERENCE_PATTERN.exec(text)) !== null) {
+      // 名称或函数名的一部分 (如 LOG10(、Sheet1!、TAX2023) 不是引用
+      const before = text[match.index - 1] ?? '';
+      const after = text[match.index + match[0].length] ?? '';
+      if (/[A-Za-z0-9_.]/.test(before) || /[A-Za-z0-9_.(!]/.test(after)) {
+        continue;
+      }
+
+      const shifted = this.shiftReference(match, rowOffset, colOffset);
+      if (shifted !== null) {
+        result += text.slice(last, match.index) + shifted;
+        last = match.index + match[0].length;
+      }
+    }
+    return result + text.slice(last);
+  }
+
+  /**
+   * 平移单个引用
+   * @returns 平移后的引用，不是有效引用时返回 null
+   */
+  private static shiftReference(match: RegExpExecArray, rowOffset: number, colOffset: number): string | null {
+    // 单元格
+    if (match[2] !== undefined) {
+      const col = this.shiftCol(match[1], match[2], colOffset);
+      const row = this.shiftRow(match[3], match[4], rowOffset);
+      if (col === null || row === null) {
+        return null;
+      }
+      return col === '' || row === '' ? '#REF!' : `${col}${row}`;
+    }
+
+    // 整列范围
+    if (match[6] !== undefined) {
+      const start = this.shiftCol(match[5], match[6], colOffset);
+      const end = this.shiftCol(match[7], match[8], colOffset);
+      if (start === null || end === null) {
+        return null;
+      }
+      return start === '' || end === '' ? '#REF!' : `${start}:${end}`;
+    }
+
+    // 整行范围
+    const start = this.shiftRow(match[9], match[10], rowOffset);
+    const end = this.shiftRow(match[11], match[12], rowOffset);
+    if (start === null || end === null) {
+      return null;
+    }
+    return start === '' || end === '' ? '#REF!' : `${start}:${end}`;
+  }
+
+  /**
+   * 平移列 (绝对引用不变)
+   * @returns 平移后的列 (含 $)，超出范围时返回空字符串，不是有效列时返回 null
+   */
+  private static shiftCol(absolute: string, letters: string, offset: number): string | null {
+    let index = 0;
+    for (const ch of letters.toUpperCase()) {
+      index = index * 26 + (ch.charCodeAt(0) - 64);
+    }
+    if (index > MAX_COLS) {
+      return null;
+    }
+
+    const col = absolute ? index - 1 : index - 1 + offset;
+    if (col < 0 || col >= MAX_COLS) {
+      return '';
+    }
+    return absolute + XmlUtils.formatCellAddress(0, col).replace(/\d+$/, '');
+  }
+
+  /**
+   * 平移行 (绝对引用不变)
+   * @returns 平移后的行 (含 $)，超出范围时返回空字符串，不是有效行时返回 null
+   */
+  private static shiftRow(absolute: string, digits: string, offset: number): string | null {
+    const index = parseInt(digits, 10);
+    if (index < 1 || index > MAX_ROWS) {
+      return null;
+    }
+
+    const row = absolute ? index : index + offset;
+    if (row < 1 || row > MAX_ROWS) {
+      return '';
+    }
+    return `${absolute}${row}`;
+  }
+}
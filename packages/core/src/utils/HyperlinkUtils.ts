@@ -0,0 +1,95 @@
+/**
+ * 超链接工具类
+ * @description 提供超链接类型识别、内部位置解析和外部地址拼接等功能
+ */
+import type { Hyperlink } from '../types';
+
+export class HyperlinkUtils {
+  /**
+   * 根据目标地址识别链接类型
+   * @description 只允许 http、https、ftp、mailto 和 file 协议，其他协议 (如 javascript:、data:) 识别为 unsafe
+   * @param target 外部目标地址或内部位置
+   */
+  static classify(target: string): Hyperlink['type'] {
+    const value = target.trim();
+
+    if (value === '' || value.startsWith('#')) {
+      return 'internal';
+    }
+
+    // 浏览器解析协议时会忽略控制字符和空白 (如 "java\tscript:")
+    const normalized = Array.from(value).filter(ch => ch > ' ' && ch !== '\u007f').join('');
+    const scheme = /^([a-z][a-z\d+.-]*):/i.exec(normalized)?.[1].toLowerCase();
+    // 单个字母视为盘符 (如 C:\docs)
+    if (scheme && scheme.length > 1) {
+      switch (scheme) {
+        case 'http':
+        case 'https':
+        case 'ftp':
+          return 'url';
+        case 'mailto':
+          return 'email';
+        case 'file':
+          return 'file';
+        default:
+          return 'unsafe';
+      }
+    }
+
+    if (/^www\./i.test(value)) {
+      return 'url';
+    }
+    // UNC 路径 (\\server\share)、盘符路径或相对路径
+    return 'file';
+  }
+
+  /**
+   * 解析内部位置 (如 "Sheet1!A1"、"'My Sheet'!$B$2:$C$3"、"A1"、"#Sheet2!A1")
+   * @returns 工作表名称 (未指定时为 undefined) 和区域引用，无法识别为单元格引用时 ref 为 undefined
+   */
+  static parseLocation(location: string): { sheetName?: string; ref?: string; name?: string } {
+    let value = location.trim();
+    if (value.startsWith('#')) {
+      value = value.substring(1);
+    }
+
+    let sheetName: string | undefined;
+    let refPart = value;
+    const bang = value.lastIndexOf('!');
+    if (bang >= 0) {
+      sheetName = value.substring(0, bang);
+      refPart = value.substring(bang + 1);
+      // 带引号的工作表名，'' 表示单引号
+      if (sheetName.startsWith('\'') && sheetName.endsWith('\'') && sheetName.length >= 2) {
+        sheetName = sheetName.substring(1, sheetName.length - 1).replace(/''/g, '\'');
+      }
+    }
+
+    const ref = refPart.replace(/\$/g, '');
+    if (/^[A-Z]{1,3}\d+(:[A-Z]{1,3}\d+)?$/i.test(ref)) {
+      return { sheetName, ref: ref.toUpperCase() };
+    }
+
+    // 不是单元格引用，可能是定义名称
+    return { sheetName, name: refPart || undefined };
+  }
+
+  /**
+   * 获取可在浏览器中打开的地址
+   * @description 外部链接的 location 为文档内锚点，需要拼接到地址后；不安全的链接返回空字符串
+   */
+  static toUrl(hyperlink: Hyperlink): string {
+    let url = hyperlink.target;
+    // 按地址重新识别，避免 type 与 target 不一致时打开不安全的协议
+    if (hyperlink.type === 'unsafe' || (hyperlink.type !== 'internal' && HyperlinkUtils.classify(url) === 'unsafe')) {
+      return '';
+    }
+    if (hyperlink.type === 'url' && /^www\./i.test(url)) {
+      url = `http://${url}`;
+    }
+    if (hyperlink.type !== 'internal' && hyperlink.location) {
+      url += `#${hyperlink.location}`;
+    }
+    return url;
+  }
+}
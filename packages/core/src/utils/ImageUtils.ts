@@ -0,0 +1,44 @@
+/**
+ * 图片工具类
+ * @description 提供图片 MIME 类型、Data URL 转换等功能
+ */
+import type { ImageType } from '../types';
+
+/**
+ * 图片类型到 MIME 类型的映射
+ */
+const MIME_TYPES: Record<ImageType, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  emf: 'image/x-emf',
+  wmf: 'image/x-wmf',
+};
+
+export class ImageUtils {
+  /**
+   * 获取 MIME 类型
+   */
+  static getMimeType(type: ImageType): string {
+    return MIME_TYPES[type] ?? 'application/octet-stream';
+  }
+
+  /**
+   * 转换为 Data URL
+   * @param type 图片类型
+   * @param base64 Base64 数据
+   */
+  static toDataUrl(type: ImageType, base64: string): string {
+    return `data:${this.getMimeType(type)};base64,${base64}`;
+  }
+
+  /**
+   * 浏览器是否可以直接显示该类型
+   * @description EMF/WMF/TIFF 为 Windows 矢量或专有格式，浏览器无法原生解码
+   */
+  static isBrowserRenderable(type: ImageType): boolean {
+    return type !== 'emf' && type !== 'wmf' && type !== 'tiff';
+  }
+}
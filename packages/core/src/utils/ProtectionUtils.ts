@@ -0,0 +1,200 @@
+/**
+ * 保护工具类
+ * @description 根据工作表保护和单元格保护设置判断编辑操作是否允许。
+ * 只依赖保护设置本身，查看器 (Sheet) 和电子表格核心 (SheetData) 都可以使用
+ */
+import type { Protection, SheetProtection } from '../types';
+import { XmlUtils } from '../parser/XmlUtils';
+
+/**
+ * 受工作表保护限制的操作
+ */
+export type ProtectedAction =
+  | 'formatCells'
+  | 'formatColumns'
+  | 'formatRows'
+  | 'insertColumns'
+  | 'insertRows'
+  | 'insertHyperlinks'
+  | 'deleteColumns'
+  | 'deleteRows'
+  | 'sort'
+  | 'autoFilter';
+
+/**
+ * 工作表保护中的操作标志 (按 OOXML 属性和二进制记录中的顺序)
+ */
+export const SHEET_PROTECTION_FLAGS = [
+  'objects', 'scenarios', 'formatCells', 'formatColumns', 'formatRows', 'insertColumns', 'insertRows',
+  'insertHyperlinks', 'deleteColumns', 'deleteRows', 'selectLockedCells', 'sort', 'autoFilter', 'pivotTables',
+  'selectUnlockedCells',
+] as const;
+
+/**
+ * 检查区域锁定所需的工作表数据
+ * @description 查看器的 Sheet 和电子表格核心的 SheetData 结构不同，由调用方提供单元格和样式的保护设置
+ */
+export interface ProtectionRangeSource<T> {
+  /** 已有单元格，以地址为键 */
+  cells: Map<string, T>;
+  /** 行信息 (带样式的行，空白单元格沿用行样式) */
+  rows: Map<number, { styleIndex?: number }>;
+  /** 列信息 (行没有样式时，空白单元格沿用列样式) */
+  columns: Map<number, { styleIndex?: number }>;
+  /** 单元格的保护设置 */
+  getCellProtection(cell: T): Protection | undefined;
+  /** 样式的保护设置 (样式 0 为默认样式) */
+  getStyleProtection(styleIndex: number): Protection | undefined;
+}
+
+/**
+ * 操作名称 (用于提示信息)
+ */
+const ACTION_NAMES: Record<ProtectedAction, string> = {
+  formatCells: '设置单元格格式',
+  formatColumns: '设置列格式',
+  formatRows: '设置行格式',
+  insertColumns: '插入列',
+  insertRows: '插入行',
+  insertHyperlinks: '插入超链接',
+  deleteColumns: '删除列',
+  deleteRows: '删除行',
+  sort: '排序',
+  autoFilter: '使用自动筛选',
+};
+
+export class ProtectionUtils {
+  /**
+   * 修改锁定单元格时的提示信息
+   */
+  static readonly LOCKED_CELL_MESSAGE = '您试图更改的单元格位于受保护的工作表中。若要进行更改，请取消工作表保护。';
+
+  /**
+   * 创建默认的工作表保护设置 (与 Excel 保护工作表时的默认选项一致，只允许选择单元格)
+   */
+  static createSheetProtection(): SheetProtection {
+    const protection: SheetProtection = { sheet: true };
+    for (const flag of SHEET_PROTECTION_FLAGS) {
+      protection[flag] = flag !== 'selectLockedCells' && flag !== 'selectUnlockedCells';
+    }
+    return protection;
+  }
+
+  /**
+   * 工作表是否受保护
+   */
+  static isSheetProtected(protection: SheetProtection | undefined): boolean {
+    return protection?.sheet === true;
+  }
+
+  /**
+   * 单元格是否锁定 (工作表受保护且单元格未取消锁定)
+   * @param protection 工作表保护设置
+   * @param cellProtection 单元格样式中的保护设置，未设置时默认锁定
+   */
+  static isCellLocked(protection: SheetProtection | undefined, cellProtection: Protection | undefined): boolean {
+    return this.isSheetProtected(protection) && cellProtection?.locked !== false;
+  }
+
+  /**
+   * 区域内是否存在锁定的单元格
+   * @description 区域较小时逐个位置检查，空白位置依次按行样式、列样式、默认样式判断；
+   * 区域大于已有单元格数时只遍历已有单元格，再检查区域内的行样式、列样式和默认样式，
+   * 其中任一锁定即视为区域内有锁定的空白单元格。不限制区域大小，整行、整列选区也会完整检查
+   */
+  static isRangeLocked<T>(
+    protection: SheetProtection | undefined,
+    range: { start: { row: number; col: number }; end: { row: number; col: number } },
+    source: ProtectionRangeSource<T>,
+  ): boolean {
+    if (!this.isSheetProtected(protection)) {
+      return false;
+    }
+
+    const { start, end } = range;
+    const rowCount = end.row - start.row + 1;
+    const colCount = end.col - start.col + 1;
+    if (rowCount <= 0 || colCount <= 0) {
+      return false;
+    }
+    const isLocked = (cellProtection: Protection | undefined): boolean => cellProtection?.locked !== false;
+
+    if (rowCount * colCount <= source.cells.size) {
+      for (let row = start.row; row <= end.row; row++) {
+        const rowStyle = source.rows.get(row)?.styleIndex;
+        for (let col = start.col; col <= end.col; col++) {
+          const cell = source.cells.get(XmlUtils.formatCellAddress(row, col));
+          const blankStyle = rowStyle ?? source.columns.get(col)?.styleIndex ?? 0;
+          const cellProtection = cell !== undefined
+            ? source.getCellProtection(cell)
+            : source.getStyleProtection(blankStyle);
+          if (isLocked(cellProtection)) {
+            return true;
+          }
+        }
+      }
+      return false;
+    }
+
+    // 已有单元格
+    let existing = 0;
+    for (const [address, cell] of source.cells) {
+      const { row, col } = XmlUtils.parseCellAddress(address);
+      if (row >= start.row && row <= end.row && col >= start.col && col <= end.col) {
+        existing++;
+        if (isLocked(source.getCellProtection(cell))) {
+          return true;
+        }
+      }
+    }
+    if (existing >= rowCount * colCount) {
+      return false;
+    }
+
+    // 空白位置：带样式的行沿用行样式，其余行沿用列样式或默认样式
+    let styledRows = 0;
+    for (const [row, info] of source.rows) {
+      if (row >= start.row && row <= end.row && info.styleIndex !== undefined) {
+        styledRows++;
+        if (isLocked(source.getStyleProtection(info.styleIndex))) {
+          return true;
+        }
+      }
+    }
+    if (styledRows >= rowCount) {
+      return false;
+    }
+    let styledColumns = 0;
+    for (const [col, info] of source.columns) {
+      if (col >= start.col && col <= end.col && info.styleIndex !== undefined) {
+        styledColumns++;
+        if (isLocked(source.getStyleProtection(info.styleIndex))) {
+          return true;
+        }
+      }
+    }
+    return styledColumns < colCount && isLocked(source.getStyleProtection(0));
+  }
+
+  /**
+   * 单元格公式是否隐藏 (工作表受保护且单元格设置了隐藏)
+   */
+  static isFormulaHidden(protection: SheetProtection | undefined, cellProtection: Protection | undefined): boolean {
+    return this.isSheetProtected(protection) && cellProtection?.hidden === true;
+  }
+
+  /**
+   * 操作是否允许
+   * @description 工作表受保护时，只有明确设置为 false 的操作才允许
+   */
+  static isActionAllowed(protection: SheetProtection | undefined, action: ProtectedAction): boolean {
+    return !this.isSheetProtected(protection) || protection?.[action] === false;
+  }
+
+  /**
+   * 获取操作被禁止时的提示信息
+   */
+  static getActionMessage(action: ProtectedAction): string {
+    return `工作表受保护，不允许${ACTION_NAMES[action]}。若要进行更改，请取消工作表保护。`;
+  }
+}
@@ -0,0 +1,527 @@
+/**
+ * 迷你图工具类
+ * @description 读取迷你图的数据范围，计算折线、柱形和盈亏图在单元格内的图形。
+ * 图形坐标为占单元格的比例 (0-1，原点在左上角)，由渲染器换算为像素后绘制
+ */
+import type {
+  Color,
+  Sheet,
+  Sparkline,
+  SparklineGroup,
+  SparklineType,
+  ThemeColors,
+} from '../types';
+import { ColorUtils } from './ColorUtils';
+import { DateUtils } from './DateUtils';
+import { XmlUtils } from '../parser/XmlUtils';
+
+/**
+ * 迷你图中的点
+ */
+export interface SparklinePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 迷你图柱形
+ */
+export interface SparklineBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+}
+
+/**
+ * 迷你图标记
+ */
+export interface SparklineMarker extends SparklinePoint {
+  color: string;
+}
+
+/**
+ * 迷你图图形 (颜色为 #RRGGBB)
+ */
+export interface SparklineShape {
+  type: SparklineType;
+  /** 折线 (null 表示在此处断开) */
+  line?: {
+    points: Array<SparklinePoint | null>;
+    color: string;
+    /** 线宽 (磅) */
+    weight: number;
+  };
+  /** 柱形 (柱形图和盈亏图) */
+  bars: SparklineBar[];
+  /** 数据点标记 (折线图) */
+  markers: SparklineMarker[];
+  /** 横坐标轴 */
+  axis?: {
+    y: number;
+    color: string;
+  };
+}
+
+/**
+ * 按名称查找工作表 (用于引用其他工作表的数据范围)
+ */
+export type SparklineSheetResolver = (name: string) => Sheet | undefined;
+
+/**
+ * 单元格中的迷你图
+ */
+interface SparklineEntry {
+  group: SparklineGroup;
+  sparkline: Sparkline;
+}
+
+/**
+ * 工作表的迷你图位置缓存
+ */
+interface SheetSparklines {
+  source: SparklineGroup[];
+  count: number;
+  locations: Map<string, SparklineEntry>;
+}
+
+/**
+ * 未设置颜色时的默认颜色 (与 Excel 新建迷你图的默认样式一致)
+ */
+const DEFAULT_SERIES_COLOR = '#376092';
+const DEFAULT_NEGATIVE_COLOR = '#D00000';
+const DEFAULT_AXIS_COLOR = '#000000';
+
+/**
+ * 柱形图中柱子占每个数据点宽度的比例
+ */
+const BAR_WIDTH_RATIO = 0.8;
+
+/**
+ * 柱形图中最小值柱子的最小高度 (纵坐标轴不包含 0 时，最小值的柱子仍然可见)
+ */
+const MIN_BAR_HEIGHT = 0.05;
+
+export class SparklineUtils {
+  private static sheetCache: WeakMap<Sheet, SheetSparklines> = new WeakMap();
+
+  /**
+   * 获取单元格中的迷你图
+   * @param sheet 工作表
+   * @param row 行号 (0-based)
+   * @param col 列号 (0-based)
+   * @returns 单元格没有迷你图时返回 null
+   */
+  static getSparkline(sheet: Sheet, row: number, col: number): SparklineEntry | null {
+    if (sheet.sparklineGroups.length === 0) {
+      return null;
+    }
+    return this.getLocations(sheet).get(XmlUtils.formatCellAddress(row, col)) ?? null;
+  }
+
+  /**
+   * 计算单元格中迷你图的图形
+   * @param sheet 工作表
+   * @param row 行号 (0-based)
+   * @param col 列号 (0-based)
+   * @param colors 工作簿主题颜色
+   * @param resolveSheet 按名称查找工作表，未设置时只能读取当前工作表的数据
+   * @returns 单元格没有迷你图或没有可绘制的数据时返回 null
+   */
+  static getShape(
+    sheet: Sheet,
+    row: number,
+    col: number,
+    colors?: ThemeColors,
+    resolveSheet?: SparklineSheetResolver,
+  ): SparklineShape | null {
+    const entry = this.getSparkline(sheet, row, col);
+    if (!entry) {
+      return null;
+    }
+
+    const { group, sparkline } = entry;
+    const values = this.getValues(sheet, sparkline.ref, group, resolveSheet);
+    if (values.length === 0 || values.every(value => value === null)) {
+      return null;
+    }
+
+    const positions = this.getPositions(sheet, group, values.length, resolveSheet);
+    const color = (value: Color | undefined, fallback: string): string =>
+      value ? this.resolveColor(value, colors) : fallback;
+    const seriesColor = color(group.colorSeries, DEFAULT_SERIES_COLOR);
+    const pointColors = this.getPointColors(group, values, seriesColor, colors);
+    const shape: SparklineShape = { type: group.type, bars: [], markers: [] };
+
+    if (group.type === 'stacked') {
+      // 盈亏图：正值向上、负值向下，高度相同
+      const width = BAR_WIDTH_RATIO / values.length;
+      values.forEach((value, i) => {
+        if (value === null || value === 0) {
+          return;
+        }
+        shape.bars.push({
+          x: positions[i] - width / 2,
+          y: value > 0 ? 0 : 0.5,
+          width,
+          height: 0.5,
+          color: pointColors[i] ?? seriesColor,
+        });
+      });
+      if (group.displayXAxis) {
+        shape.axis = { y: 0.5, color: color(group.colorAxis, DEFAULT_AXIS_COLOR) };
+      }
+      return shape;
+    }
+
+    const { min, max } = this.getAxisRange(sheet, group, values, resolveSheet);
+    const span = max - min;
+    const toY = (value: number): number => {
+      if (span === 0) {
+        return 0.5;
+      }
+      return 1 - (Math.min(Math.max(value, min), max) - min) / span;
+    };
+
+    if (group.type === 'column') {
+      // 纵坐标轴包含 0 时从 0 开始绘制，否则从靠近最小值的一端开始绘制
+      const baseline = min <= 0 && max >= 0 ? toY(0) : (max < 0 ? 0 : 1);
+      const width = BAR_WIDTH_RATIO / values.length;
+      values.forEach((value, i) => {
+        if (value === null || (value === 0 && baseline !== 0 && baseline !== 1)) {
+          return;
+        }
+        const top = Math.min(toY(value), baseline);
+        const bottom = Math.max(toY(value), baseline);
+        const height = Math.max(bottom - top, MIN_BAR_HEIGHT);
+        shape.bars.push({
+          x: positions[i] - width / 2,
+          y: baseline === 1 || (baseline > 0 && value >= 0) ? bottom - height : top,
+          width,
+          height,
+          color: pointColors[i] ?? seriesColor,
+        });
+      });
+    } else {
+      const points: Array<SparklinePoint | null> = [];
+      values.forEach((value, i) => {
+        if (value === null) {
+          // 以空距显示时断开折线，用直线连接数据点时跳过
+          if (group.displayEmptyCellsAs === 'gap' && points.length > 0 && points[points.length - 1] !== null) {
+            points.push(null);
+          }
+          return;
+        }
+        const point = { x: positions[i], y: toY(value) };
+        points.push(point);
+        const markerColor = pointColors[i] ?? (group.markers ? color(group.colorMarkers, seriesColor) : undefined);
+        if (markerColor) {
+          shape.markers.push({ ...point, color: markerColor });
+        }
+      });
+      shape.line = { points, color: seriesColor, weight: group.lineWeight };
+    }
+
+    // 纵坐标轴范围包含 0 时才显示横坐标轴
+    if (group.displayXAxis && min <= 0 && max >= 0 && span > 0) {
+      shape.axis = { y: toY(0), color: color(group.colorAxis, DEFAULT_AXIS_COLOR) };
+    }
+
+    return shape;
+  }
+
+  /**
+   * 获取迷你图引用的其他工作表名称
+   * @description 延迟解析模式下用于在绘制前加载数据所在的工作表
+   */
+  static getReferencedSheets(sheet: Sheet): string[] {
+    const names = new Set<string>();
+    for (const group of sheet.sparklineGroups) {
+      const refs = group.sparklines.map(sparkline => sparkline.ref);
+      if (group.dateRange) {
+        refs.push(group.dateRange);
+      }
+      for (const ref of refs) {
+        const name = this.splitRef(ref).sheetName;
+        if (name && name.toLowerCase() !== sheet.name.toLowerCase()) {
+          names.add(name);
+        }
+      }
+    }
+    return [...names];
+  }
+
+  /**
+   * 清除工作表的迷你图位置缓存
+   */
+  static invalidate(sheet: Sheet): void {
+    this.sheetCache.delete(sheet);
+  }
+
+  /**
+   * 获取 (并缓存) 迷你图所在单元格到迷你图的映射
+   */
+  private static getLocations(sheet: Sheet): Map<string, SparklineEntry> {
+    const cached = this.sheetCache.get(sheet);
+    if (cached && cached.source === sheet.sparklineGroups && cached.count === sheet.sparklineGroups.length) {
+      return cached.locations;
+    }
+
+    const locations = new Map<string, SparklineEntry>();
+    for (const group of sheet.sparklineGroups) {
+      for (const sparkline of group.sparklines) {
+        const location = sparkline.location.replace(/\$/g, '').toUpperCase();
+        locations.set(location, { group, sparkline });
+      }
+    }
+
+    this.sheetCache.set(sheet, {
+      source: sheet.sparklineGroups,
+      count: sheet.sparklineGroups.length,
+      locations,
+    });
+    return locations;
+  }
+
+  /**
+   * 读取数据范围中的值
+   * @description 非数值视为空单元格；隐藏行列中的数据只在设置了显示隐藏数据时读取。
+   * 空单元格按零值显示时转为 0，其他情况为 null
+   */
+  private static getValues(
+    sheet: Sheet,
+    ref: string,
+    group: SparklineGroup,
+    resolveSheet?: SparklineSheetResolver,
+  ): Array<number | null> {
+    const source = this.resolveRef(sheet, ref, resolveSheet);
+    if (!source) {
+      return [];
+    }
+
+    const { target, start, end } = source;
+    const values: Array<number | null> = [];
+    for (let row = start.row; row <= end.row; row++) {
+      if (!group.displayHidden && target.rows.get(row)?.hidden) {
+        continue;
+      }
+      for (let col = start.col; col <= end.col; col++) {
+        if (!group.displayHidden && target.columns.get(col)?.hidden) {
+          continue;
+        }
+        const value = this.getNumber(target, row, col);
+        values.push(value ?? (group.displayEmptyCellsAs === 'zero' ? 0 : null));
+      }
+    }
+    return values;
+  }
+
+  /**
+   * 获取单元格的数值 (日期转为序列号)
+   */
+  private static getNumber(sheet: Sheet, row: number, col: number): number | null {
+    const cell = sheet.cells.get(XmlUtils.formatCellAddress(row, col));
+    const value = cell?.value;
+    if (typeof value === 'number') {
+      return isFinite(value) ? value : null;
+    }
+    if (value instanceof Date) {
+      return DateUtils.dateToExcelSerial(value);
+    }
+    // 编辑后以文本保存的数字
+    if (typeof value === 'string' && (cell?.type === 'number' || cell?.type === 'date') && value.trim() !== '') {
+      const num = Number(value);
+      return isNaN(num) ? null : num;
+    }
+    return null;
+  }
+
+  /**
+   * 计算每个数据点的横坐标 (数据点中心)
+   * @description 设置了日期坐标轴时按日期间隔排列，否则均匀排列
+   */
+  private static getPositions(
+    sheet: Sheet,
+    group: SparklineGroup,
+    count: number,
+    resolveSheet?: SparklineSheetResolver,
+  ): number[] {
+    const half = BAR_WIDTH_RATIO / count / 2;
+    const first = group.type === 'line' ? 0 : half;
+    const last = group.type === 'line' ? 1 : 1 - half;
+    let ratios: number[] = [];
+
+    if (group.dateRange) {
+      const dates = this.getValues(sheet, group.dateRange, { ...group, displayEmptyCellsAs: 'gap' }, resolveSheet);
+      const valid = dates.filter((date): date is number => date !== null);
+      const min = Math.min(...valid);
+      const max = Math.max(...valid);
+      if (dates.length === count && valid.length === count && max > min) {
+        ratios = dates.map(date => ((date ?? min) - min) / (max - min));
+      }
+    }
+    if (ratios.length === 0) {
+      ratios = Array.from({ length: count }, (_, i) => (count > 1 ? i / (count - 1) : 0.5));
+    }
+
+    return ratios.map((ratio) => {
+      const x = first + (last - first) * ratio;
+      return group.rightToLeft ? 1 - x : x;
+    });
+  }
+
+  /**
+   * 计算纵坐标轴的最小值和最大值
+   */
+  private static getAxisRange(
+    sheet: Sheet,
+    group: SparklineGroup,
+    values: Array<number | null>,
+    resolveSheet?: SparklineSheetResolver,
+  ): { min: number; max: number } {
+    let own: number[] = values.filter((value): value is number => value !== null);
+    let all: number[] | undefined;
+    const getGroupValues = (): number[] => {
+      all ??= group.sparklines.flatMap(sparkline =>
+        this.getValues(sheet, sparkline.ref, group, resolveSheet)
+          .filter((value): value is number => value !== null));
+      return all;
+    };
+
+    if (own.length === 0) {
+      own = [0];
+    }
+    let min = group.minAxisType === 'custom' && group.manualMin !== undefined
+      ? group.manualMin
+      : Math.min(...(group.minAxisType === 'group' ? getGroupValues() : own));
+    let max = group.maxAxisType === 'custom' && group.manualMax !== undefined
+      ? group.manualMax
+      : Math.max(...(group.maxAxisType === 'group' ? getGroupValues() : own));
+
+    if (!isFinite(min) || !isFinite(max)) {
+      min = Math.min(...own);
+      max = Math.max(...own);
+    }
+    return min <= max ? { min, max } : { min: max, max: min };
+  }
+
+  /**
+   * 计算突出显示的数据点颜色
+   * @description 后设置的颜色优先：负点、低点、高点、首点、尾点
+   * @returns 不需要突出显示的数据点为 undefined
+   */
+  private static getPointColors(
+    group: SparklineGroup,
+    values: Array<number | null>,
+    seriesColor: string,
+    colors?: ThemeColors,
+  ): Array<string | undefined> {
+    const result: Array<string | undefined> = values.map(() => undefined);
+    const indexes = values
+      .map((value, i) => (value === null ? -1 : i))
+      .filter(i => i >= 0);
+    if (indexes.length === 0) {
+      return result;
+    }
+
+    const color = (value: Color | undefined): string => (value ? this.resolveColor(value, colors) : seriesColor);
+    const numbers = indexes.map(i => values[i] as number);
+    const high = Math.max(...numbers);
+    const low = Math.min(...numbers);
+
+    if (group.negative) {
+      const negativeColor = group.colorNegative
+        ? this.resolveColor(group.colorNegative, colors)
+        : DEFAULT_NEGATIVE_COLOR;
+      indexes.forEach((i) => {
+        if ((values[i] as number) < 0) {
+          result[i] = negativeColor;
+        }
+      });
+    }
+    if (group.low) {
+      indexes.forEach((i) => {
+        if (values[i] === low) {
+          result[i] = color(group.colorLow);
+        }
+      });
+    }
+    if (group.high) {
+      indexes.forEach((i) => {
+        if (values[i] === high) {
+          result[i] = color(group.colorHigh);
+        }
+      });
+    }
+    if (group.first) {
+      result[indexes[0]] = color(group.colorFirst);
+    }
+    if (group.last) {
+      result[indexes[indexes.length - 1]] = color(group.colorLast);
+    }
+    return result;
+  }
+
+  /**
+   * 解析数据范围引用
+   * @returns 引用无效或工作表不存在时返回 null
+   */
+  private static resolveRef(
+    sheet: Sheet,
+    ref: string,
+    resolveSheet?: SparklineSheetResolver,
+  ): { target: Sheet; start: { row: number; col: number }; end: { row: number; col: number } } | null {
+    const { sheetName, range } = this.splitRef(ref);
+    const target = !sheetName || sheetName.toLowerCase() === sheet.name.toLowerCase()
+      ? sheet
+      : resolveSheet?.(sheetName);
+    if (!target || !range) {
+      return null;
+    }
+
+    try {
+      const { start, end } = XmlUtils.parseRange(range.replace(/\$/g, ''));
+      return {
+        target,
+        start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+        end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 拆分引用中的工作表名和范围 (工作表名可以带单引号)
+   */
+  private static splitRef(ref: string): { sheetName?: string; range: string } {
+    const index = ref.lastIndexOf('!');
+    if (index < 0) {
+      return { range: ref.trim() };
+    }
+
+    let sheetName = ref.substring(0, index).trim();
+    if (sheetName.startsWith('\'') && sheetName.endsWith('\'')) {
+      sheetName = sheetName.slice(1, -1).replace(/''/g, '\'');
+    }
+    return { sheetName, range: ref.substring(index + 1).trim() };
+  }
+
+  /**
+   * 解析颜色为 #RRGGBB
+   */
+  private static resolveColor(color: Color, colors?: ThemeColors): string {
+    if (color.rgb) {
+      return `#${color.rgb.length === 8 ? color.rgb.substring(2) : color.rgb}`;
+    }
+    if (color.theme !== undefined) {
+      const base = ColorUtils.getThemeColor(color.theme, colors);
+      return `#${color.tint ? ColorUtils.applyTint(base, color.tint) : base}`;
+    }
+    if (color.indexed !== undefined) {
+      return ColorUtils.getIndexedColor(color.indexed);
+    }
+    return DEFAULT_SERIES_COLOR;
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * 表格样式工具类
+ * @description 按工作簿主题生成内置表格样式 (TableStyleLight/Medium/Dark)，计算表格内单元格的条纹、强调列等格式
+ */
+import type { Table, TableCellFormat, ThemeColors } from '../types';
+import { ColorUtils } from './ColorUtils';
+import { XmlUtils } from '../parser/XmlUtils';
+
+/**
+ * 表格样式元素类型
+ */
+type TableStyleElementType =
+  | 'wholeTable'
+  | 'columnStripe'
+  | 'rowStripe'
+  | 'firstColumn'
+  | 'lastColumn'
+  | 'headerRow'
+  | 'totalRow';
+
+/**
+ * 表格样式元素
+ */
+interface TableStyleElement {
+  fill?: string;
+  fontColor?: string;
+  bold?: boolean;
+  /** 区域外边框 (四边) */
+  border?: string;
+  borderTop?: string;
+  borderBottom?: string;
+  borderLeft?: string;
+  borderRight?: string;
+  /** 区域内部横线 */
+  innerHorizontal?: string;
+  /** 区域内部竖线 */
+  innerVertical?: string;
+}
+
+type TableStyleDefinition = Partial<Record<TableStyleElementType, TableStyleElement>>;
+
+/**
+ * 单元格范围
+ */
+interface Area {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+/**
+ * 样式元素叠加顺序 (靠后的优先)
+ */
+const ELEMENT_ORDER: TableStyleElementType[] = [
+  'wholeTable',
+  'columnStripe',
+  'rowStripe',
+  'firstColumn',
+  'lastColumn',
+  'headerRow',
+  'totalRow',
+];
+
+/**
+ * 每组内置样式的颜色顺序：dk1、accent1 - accent6
+ */
+const STYLE_COLOR_INDEXES = [1, 4, 5, 6, 7, 8, 9];
+
+export class TableStyleUtils {
+  private static definitionCache: Map<string, TableStyleDefinition | null> = new Map();
+  private static rangeCache: WeakMap<Table, { ref: string; area: Area | null }> = new WeakMap();
+
+  /**
+   * 是否为内置表格样式
+   */
+  static isBuiltInStyle(name: string): boolean {
+    return this.parseStyleName(name) !== null;
+  }
+
+  /**
+   * 查找包含指定单元格的表格
+   */
+  static findTable(tables: Table[], row: number, col: number): Table | null {
+    for (const table of tables) {
+      const area = this.getArea(table);
+      if (area && row >= area.top && row <= area.bottom && col >= area.left && col <= area.right) {
+        return table;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 计算单元格的表格样式格式
+   * @param tables 工作表中的表格
+   * @param row 行号 (0-based)
+   * @param col 列号 (0-based)
+   * @param colors 工作簿主题颜色
+   * @returns 不在表格内或样式未知时返回 null
+   */
+  static getCellFormat(tables: Table[], row: number, col: number, colors?: ThemeColors): TableCellFormat | null {
+    if (tables.length === 0) {
+      return null;
+    }
+
+    const table = this.findTable(tables, row, col);
+    const area = table ? this.getArea(table) : null;
+    const styleName = table?.styleInfo?.name;
+    if (!table || !area || !styleName) {
+      return null;
+    }
+
+    const definition = this.getDefinition(styleName, colors);
+    if (!definition) {
+      return null;
+    }
+
+    const styleInfo = table.styleInfo ?? {};
+    const headerRows = table.headerRowCount ?? 1;
+    const totalsRows = table.totalsRowCount ?? 0;
+    const bodyTop = area.top + headerRows;
+    const bodyBottom = area.bottom - totalsRows;
+    const isBody = row >= bodyTop && row <= bodyBottom;
+
+    // 每个样式元素作用的区域
+    const regions: Partial<Record<TableStyleElementType, Area>> = {
+      wholeTable: area,
+    };
+    if (row < bodyTop) {
+      regions.headerRow = { ...area, bottom: bodyTop - 1 };
+    }
+    if (row > bodyBottom) {
+      regions.totalRow = { ...area, top: bodyBottom + 1 };
+    }
+    if (isBody && styleInfo.showRowStripes && (row - bodyTop) % 2 === 0) {
+      regions.rowStripe = { ...area, top: row, bottom: row };
+    }
+    if (isBody && styleInfo.showColumnStripes && (col - area.left) % 2 === 0) {
+      regions.columnStripe = { top: bodyTop, bottom: bodyBottom, left: col, right: col };
+    }
+    if (styleInfo.showFirstColumn && col === area.left) {
+      regions.firstColumn = { ...area, right: col };
+    }
+    if (styleInfo.showLastColumn && col === area.right) {
+      regions.lastColumn = { ...area, left: col };
+    }
+
+    const format: TableCellFormat = {};
+    for (const type of ELEMENT_ORDER) {
+      const element = definition[type];
+      const region = regions[type];
+      if (element && region) {
+        this.applyElement(format, element, region, row, col);
+      }
+    }
+
+    return format;
+  }
+
+  /**
+   * 叠加样式元素
+   */
+  private static applyElement(
+    format: TableCellFormat,
+    element: TableStyleElement,
+    region: Area,
+    row: number,
+    col: number,
+  ): void {
+    if (element.fill) {
+      format.fill = element.fill;
+    }
+    if (element.fontColor) {
+      format.fontColor = element.fontColor;
+    }
+    if (element.bold) {
+      format.bold = true;
+    }
+
+    const top = row === region.top ? element.borderTop ?? element.border : element.innerHorizontal;
+    const bottom = row === region.bottom ? element.borderBottom ?? element.border : element.innerHorizontal;
+    const left = col === region.left ? element.borderLeft ?? element.border : element.innerVertical;
+    const right = col === region.right ? element.borderRight ?? element.border : element.innerVertical;
+
+    if (top) {
+      format.borderTop = top;
+    }
+    if (bottom) {
+      format.borderBottom = bottom;
+    }
+    if (left) {
+      format.borderLeft = left;
+    }
+    if (right) {
+      format.borderRight = right;
+    }
+  }
+
+  /**
+   * 获取表格范围
+   */
+  private static getArea(table: Table): Area | null {
+    const cached = this.rangeCache.get(table);
+    if (cached && cached.ref === table.ref) {
+      return cached.area;
+    }
+
+    let area: Area | null = null;
+    try {
+      const range = XmlUtils.parseRange(table.ref);
+      area = { top: range.start.row, bottom: range.end.row, left: range.start.col, right: range.end.col };
+    } catch {
+      area = null;
+    }
+
+    this.rangeCache.set(table, { ref: table.ref, area });
+    return area;
+  }
+
+  /**
+   * 解析内置样式名称 (如 TableStyleMedium2)
+   */
+  private static parseStyleName(name: string): { family: 'Light' | 'Medium' | 'Dark'; index: number } | null {
+    const match = name.match(/^TableStyle(Light|Medium|Dark)(\d+)$/);
+    if (!match) {
+      return null;
+    }
+
+    const family = match[1] as 'Light' | 'Medium' | 'Dark';
+    const index = parseInt(match[2], 10);
+    const max = family === 'Light' ? 21 : family === 'Medium' ? 28 : 11;
+    return index >= 1 && index <= max ? { family, index } : null;
+  }
+
+  /**
+   * 获取 (并缓存) 样式定义
+   */
+  private static getDefinition(name: string, colors?: ThemeColors): TableStyleDefinition | null {
+    const cacheKey = colors ? `${name}:${Object.values(colors).join(',')}` : name;
+    if (this.definitionCache.has(cacheKey)) {
+      return this.definitionCache.get(cacheKey) ?? null;
+    }
+
+    const parsed = this.parseStyleName(name);
+    const definition = parsed ? this.buildDefinition(parsed.family, parsed.index, colors) : null;
+    this.definitionCache.set(cacheKey, definition);
+    return definition;
+  }
+
+  /**
+   * 生成内置样式定义
+   * @description 内置样式每 7 个一组 (Dark8 - Dark11 为双色组)，同组结构相同，仅主色不同
+   */
+  private static buildDefinition(
+    family: 'Light' | 'Medium' | 'Dark',
+    index: number,
+    colors?: ThemeColors,
+  ): TableStyleDefinition {
+    const theme = (themeIndex: number): string => ColorUtils.getThemeColor(themeIndex, colors);
+    const dark = `#${theme(1)}`;
+    const light = `#${theme(0)}`;
+
+    // Dark8 - Dark11：表头与主体使用两种颜色
+    if (family === 'Dark' && index >= 8) {
+      const pair = index - 8;
+      const mainHex = pair === 0 ? theme(1) : theme(2 + pair * 2);
+      const second = pair === 0 ? dark : `#${theme(3 + pair * 2)}`;
+      const tint = (value: number): string => `#${ColorUtils.applyTint(mainHex, value)}`;
+      return {
+        wholeTable: { fill: tint(0.8) },
+        headerRow: { fill: second, fontColor: light, bold: true },
+        totalRow: { bold: true, borderTop: dark },
+        firstColumn: { bold: true },
+        lastColumn: { bold: true },
+        rowStripe: { fill: tint(0.6) },
+        columnStripe: { fill: tint(0.6) },
+      };
+    }
+
+    const group = Math.floor((index - 1) / 7);
+    const colorIndex = (index - 1) % 7;
+    const mainHex = theme(STYLE_COLOR_INDEXES[colorIndex]);
+    const main = `#${mainHex}`;
+    const tint = (value: number): string => `#${ColorUtils.applyTint(mainHex, value)}`;
+    const isNeutral = colorIndex === 0;
+
+    if (family === 'Light') {
+      switch (group) {
+        case 0:
+          return {
+            wholeTable: { fontColor: isNeutral ? dark : tint(-0.25), borderTop: main, borderBottom: main },
+            headerRow: { bold: true, borderBottom: main },
+            totalRow: { bold: true, borderTop: main },
+            firstColumn: { bold: true },
+            lastColumn: { bold: true },
+            rowStripe: { fill: tint(0.8) },
+            columnStripe: { fill: tint(0.8) },
+          };
+        case 1:
+          return {
+            wholeTable: { border: main },
+            headerRow: { fill: main, fontColor: light, bold: true },
+            totalRow: { bold: true, borderTop: main },
+            firstColumn: { bold: true },
+            lastColumn: { bold: true },
+            rowStripe: { borderTop: main, borderBottom: main },
+            columnStripe: { borderLeft: main, borderRight: main },
+          };
+        default:
+          return {
+            wholeTable: { border: main, innerHorizontal: main, innerVertical: main },
+            headerRow: { bold: true, borderBottom: main },
+            totalRow: { bold: true, borderTop: main },
+            firstColumn: { bold: true },
+            lastColumn: { bold: true },
+            rowStripe: { fill: tint(0.8) },
+            columnStripe: { fill: tint(0.8) },
+          };
+      }
+    }
+
+    if (family === 'Medium') {
+      switch (group) {
+        case 0:
+          return {
+            wholeTable: { border: tint(0.4), innerHorizontal: tint(0.4) },
+            headerRow: { fill: main, fontColor: light, bold: true },
+            totalRow: { bold: true, borderTop: main },
+            firstColumn: { bold: true },
+            lastColumn: { bold: true },
+            rowStripe: { fill: tint(0.8) },
+            columnStripe: { fill: tint(0.8) },
+          };
+        case 1:
+          return {
+            wholeTable: { fill: tint(0.8), border: light, innerHorizontal: light, innerVertical: light },
+            headerRow: { fill: main, fontColor: light, bold: true },
+            totalRow: { fill: main, fontColor: light, bold: true },
+            firstColumn: { fill: main, fontColor: light, bold: true },
+            lastColumn: { fill: main, fontColor: light, bold: true },
+            rowStripe: { fill: tint(0.6) },
+            columnStripe: { fill: tint(0.6) },
+          };
+        case 2:
+          return {
+            wholeTable: { border: dark, innerHorizontal: tint(0.4), innerVertical: tint(0.4) },
+            headerRow: { fill: dark, fontColor: light, bold: true },
+            totalRow: { bold: true, borderTop: dark },
+            firstColumn: { fill: main, fontColor: light, bold: true },
+            lastColumn: { fill: main, fontColor: light, bold: true },
+            rowStripe: { fill: tint(0.8) },
+            columnStripe: { fill: tint(0.8) },
+          };
+        default:
+          return {
+            wholeTable: { fill: tint(0.8), border: tint(0.4), innerHorizontal: tint(0.4), innerVertical: tint(0.4) },
+            headerRow: { bold: true, borderBottom: main },
+            totalRow: { bold: true, borderTop: main },
+            firstColumn: { bold: true },
+            lastColumn: { bold: true },
+            rowStripe: { fill: tint(0.6) },
+            columnStripe: { fill: tint(0.6) },
+          };
+      }
+    }
+
+    // Dark1 - Dark7：深色主体，白色文字
+    const body = isNeutral ? tint(0.35) : main;
+    const stripe = isNeutral ? tint(0.25) : tint(-0.25);
+    return {
+      wholeTable: { fill: body, fontColor: light },
+      headerRow: { fill: dark, fontColor: light, bold: true, borderBottom: light },
+      totalRow: { fill: isNeutral ? dark : tint(-0.5), fontColor: light, bold: true, borderTop: light },
+      firstColumn: { fill: stripe, bold: true },
+      lastColumn: { fill: stripe, bold: true },
+      rowStripe: { fill: stripe },
+      columnStripe: { fill: stripe },
+    };
+  }
+}
@@ -1,2 +1,18 @@
 export { ColorUtils } from './ColorUtils';
-export { FormatUtils } from './FormatUtils';
+export { FormatUtils, type ParsedText, type DecimalSeparator } from './FormatUtils';
+export { ImageUtils } from './ImageUtils';
+export { TableStyleUtils } from './TableStyleUtils';
+export { HyperlinkUtils } from './HyperlinkUtils';
+export { FormulaUtils } from './FormulaUtils';
+export { DateUtils } from './DateUtils';
+export { ProtectionUtils, type ProtectedAction, type ProtectionRangeSource } from './ProtectionUtils';
+export { ConditionalFormatUtils } from './ConditionalFormatUtils';
+export {
+  SparklineUtils,
+  type SparklinePoint,
+  type SparklineBar,
+  type SparklineMarker,
+  type SparklineShape,
+  type SparklineSheetResolver,
+} from './SparklineUtils';
+export { DataValidationUtils, type ValidationWorkbook } from './DataValidationUtils';
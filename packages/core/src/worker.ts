@@ -0,0 +1,111 @@
+/**
+ * 解析 Worker 入口
+ * @description 构建为 dist/worker.js，通过 ParseOptions.workerUrl 启用。
+ * 在 Worker 中流式解压 ZIP 包，工作表 XML 边解压边分词，行数据编码为列式的类型化数组块，以可转移对象返回主线程
+ */
+import { Unzip, UnzipInflate, DecodeUTF8 } from 'fflate';
+import { WorksheetStreamReader } from './parser/WorksheetStreamReader';
+import { RowChunkCodec } from './parser/RowChunk';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parser/ParseWorkerClient';
+
+/**
+ * 工作表部件路径
+ */
+const WORKSHEET_PATH = /^xl\/worksheets\/[^/]+\.xml$/;
+
+/**
+ * 每次推入解压流的字节数
+ */
+const PUSH_SIZE = 1024 * 1024;
+
+const scope = self as unknown as Worker;
+const encoder = new TextEncoder();
+
+/**
+ * 发送消息
+ */
+function post(message: ParseWorkerResponse, transfer: Transferable[] = []): void {
+  scope.postMessage(message, transfer);
+}
+
+/**
+ * 合并数据块
+ */
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * 读取工作表：sheetData 按块返回，其余内容作为骨架 XML 返回
+ */
+function readWorksheet(path: string): (chunk: Uint8Array, final: boolean) => void {
+  const reader = new WorksheetStreamReader(rows => {
+    const chunk = RowChunkCodec.encode(rows);
+    post({ type: 'rows', path, chunk }, RowChunkCodec.getTransferables(chunk));
+  });
+  const decoder = new DecodeUTF8((text, final) => {
+    reader.write(text);
+    if (final) {
+      reader.end();
+      const data = encoder.encode(reader.getSkeleton());
+      post({ type: 'file', path, data }, [data.buffer]);
+    }
+  });
+  return (chunk, final) => decoder.push(chunk, final);
+}
+
+/**
+ * 读取其他部件
+ */
+function readFile(path: string): (chunk: Uint8Array, final: boolean) => void {
+  const chunks: Uint8Array[] = [];
+  return (chunk, final) => {
+    chunks.push(chunk);
+    if (final) {
+      const data = concat(chunks);
+      post({ type: 'file', path, data }, [data.buffer]);
+    }
+  };
+}
+
+/**
+ * 解压并读取 ZIP 包
+ */
+function parse(buffer: ArrayBuffer): void {
+  const data = new Uint8Array(buffer);
+
+  const unzip = new Unzip(file => {
+    const push = WORKSHEET_PATH.test(file.name) ? readWorksheet(file.name) : readFile(file.name);
+    file.ondata = (error, chunk, final) => {
+      if (error) {
+        throw error;
+      }
+      push(chunk, final);
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  try {
+    for (let offset = 0; offset < data.length; offset += PUSH_SIZE) {
+      const end = Math.min(offset + PUSH_SIZE, data.length);
+      unzip.push(data.subarray(offset, end), end === data.length);
+      post({ type: 'progress', loaded: end, total: data.length });
+    }
+    post({ type: 'done' });
+  } catch (error) {
+    post({ type: 'error', message: `无效的 Excel 文件：${(error as Error).message}` });
+  }
+}
+
+scope.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  if (event.data.type === 'parse') {
+    parse(event.data.data);
+  }
+};
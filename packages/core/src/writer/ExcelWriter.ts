@@ -0,0 +1,2048 @@
+/**
+ * xlsx 文件写入器
+ * @description 将工作簿序列化为 OOXML 文件包：共享字符串、去重的样式表 (含自定义数字格式)、合并单元格、列宽和行高、
+ * 冻结窗格、超链接 (外部链接写入工作表关系)、数据验证、条件格式、迷你图、批注、表格、打印设置、定义名称和文档属性。
+ * 图片和图表从原文件包 (source 选项) 中原样复制；数据透视表和主题不写入
+ */
+import JSZip from 'jszip';
+import { XmlUtils } from '../parser/XmlUtils';
+import { XmlSaxReader } from '../parser/XmlSaxReader';
+import { PAPER_SIZES } from '../parser/ExcelParser';
+import { FormatUtils } from '../utils/FormatUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { FormulaUtils } from '../utils/FormulaUtils';
+import { SHEET_PROTECTION_FLAGS } from '../utils/ProtectionUtils';
+import { SourcePackage, type PackageRelationship, type PartTransform } from './SourcePackage';
+import type {
+  Workbook,
+  Sheet,
+  Cell,
+  CellStyle,
+  FontStyle,
+  Fill,
+  Border,
+  BorderSide,
+  Alignment,
+  Protection,
+  Color,
+  RichText,
+  Hyperlink,
+  Comment,
+  Table,
+  SparklineGroup,
+  PrintOptions,
+  PageBreak,
+  ConditionalFormatRule,
+  DataValidation,
+  CustomProperty,
+} from '../types';
+
+/**
+ * 写入选项
+ */
+export interface WriteOptions {
+  /** 是否压缩文件包 (默认 true) */
+  compression?: boolean;
+  /**
+   * 原 xlsx/xlsb 文件包 (ExcelParser.getPackageData() 的返回值)
+   * @description 提供时从中复制工作表的绘图 (图片和图表) 和图表工作表；不提供时这些内容不写入
+   */
+  source?: ArrayBuffer | Uint8Array;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * 命名空间
+ */
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_RELS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const NS_VT = 'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes';
+
+/**
+ * 关系类型
+ */
+const REL_TYPES = {
+  officeDocument: `${NS_R}/officeDocument`,
+  worksheet: `${NS_R}/worksheet`,
+  chartsheet: `${NS_R}/chartsheet`,
+  styles: `${NS_R}/styles`,
+  sharedStrings: `${NS_R}/sharedStrings`,
+  hyperlink: `${NS_R}/hyperlink`,
+  drawing: `${NS_R}/drawing`,
+  comments: `${NS_R}/comments`,
+  vmlDrawing: `${NS_R}/vmlDrawing`,
+  table: `${NS_R}/table`,
+  coreProperties: `${NS_RELS}/metadata/core-properties`,
+  extendedProperties: `${NS_R}/extended-properties`,
+  customProperties: `${NS_R}/custom-properties`,
+};
+
+/**
+ * 部件内容类型
+ */
+const CONTENT_TYPES = {
+  workbook: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml',
+  worksheet: 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml',
+  chartsheet: 'application/vnd.openxmlformats-officedocument.spreadsheetml.chartsheet+xml',
+  comments: 'application/vnd.openxmlformats-officedocument.spreadsheetml.comments+xml',
+  table: 'application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml',
+  vmlDrawing: 'application/vnd.openxmlformats-officedocument.vmlDrawing',
+  styles: 'application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml',
+  sharedStrings: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml',
+  coreProperties: 'application/vnd.openxmlformats-package.core-properties+xml',
+  extendedProperties: 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+  customProperties: 'application/vnd.openxmlformats-officedocument.custom-properties+xml',
+};
+
+/**
+ * 迷你图扩展 (x14:sparklineGroups) 的 URI 和命名空间
+ */
+const SPARKLINE_EXT_URI = '{05C60535-1F16-4fd2-B633-F4F36F0B64E0}';
+const NS_X14 = 'http://schemas.microsoft.com/office/spreadsheetml/2009/9/main';
+const NS_XM = 'http://schemas.microsoft.com/office/excel/2006/main';
+
+/**
+ * 迷你图颜色元素 (按架构顺序)
+ */
+const SPARKLINE_COLORS = [
+  'colorSeries', 'colorNegative', 'colorAxis', 'colorMarkers', 'colorFirst', 'colorLast', 'colorHigh', 'colorLow',
+] as const;
+
+/**
+ * 默认页边距 (英寸)
+ */
+const DEFAULT_PAGE_MARGINS = 'left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"';
+
+/**
+ * 自定义属性的格式 ID (FMTID_UserDefinedProperties)
+ */
+const CUSTOM_PROPERTY_FMTID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}';
+
+/**
+ * 自定义数字格式的起始 ID
+ */
+const CUSTOM_NUM_FMT_ID = 164;
+
+/**
+ * 内置数字格式的最大 ID
+ */
+const MAX_BUILTIN_NUM_FMT_ID = 49;
+
+/**
+ * 默认字体 (工作簿没有字体定义时使用，如 CSV 导入的工作簿)
+ */
+const DEFAULT_FONT: FontStyle = { name: 'Calibri', size: 11, family: 2, scheme: 'minor' };
+
+/**
+ * 日期值没有日期格式时使用的格式
+ */
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+/**
+ * 工作表名称中不允许的字符
+ */
+const INVALID_SHEET_NAME_CHARS = /[\\/?*:[\]]/g;
+
+/**
+ * 工作表名称的最大长度
+ */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * XML 中不允许的字符 (C0 控制字符中除制表符、换行和回车以外的字符)
+ */
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+/**
+ * 单元格文本中需要编码为 _xHHHH_ 的字符：XML 中不允许的字符，以及原本就形如 _xHHHH_ 的文本开头的下划线
+ */
+const ENCODED_TEXT_CHARS = /_(?=x[\dA-Fa-f]{4}_)|[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+/**
+ * 按 XML 内容去重的样式部件列表 (字体、填充、边框、单元格格式、差异格式)
+ */
+interface StylePart {
+  items: string[];
+  indexes: Map<string, number>;
+}
+
+export class ExcelWriter {
+  private options: Required<Omit<WriteOptions, 'source'>> & Pick<WriteOptions, 'source'>;
+  private workbook: Workbook | null = null;
+  private defaultFont: FontStyle = DEFAULT_FONT;
+
+  // 写入的文件包，以及部件路径 (不含开头的 /) 到内容类型的映射
+  private zip = new JSZip();
+  private contentTypes = new Map<string, string>();
+  // 表格 ID 和批注 VML 绘图编号在工作簿内唯一
+  private tableCount = 0;
+  private vmlDrawingCount = 0;
+
+  // 写入过程中收集的样式和共享字符串
+  private numFmts = new Map<string, number>();
+  private fonts: StylePart = ExcelWriter.createStylePart();
+  private fills: StylePart = ExcelWriter.createStylePart();
+  private borders: StylePart = ExcelWriter.createStylePart();
+  private cellXfs: StylePart = ExcelWriter.createStylePart();
+  private dxfs: StylePart = ExcelWriter.createStylePart();
+  private styleCache = new Map<CellStyle, number>();
+  private dateStyles = new Map<CellStyle | undefined, CellStyle>();
+  private sharedStrings: StylePart = ExcelWriter.createStylePart();
+  private sharedStringCount = 0;
+  // 写入的工作表名称，以及名称变化的工作表 (原名称小写) 到新名称的映射
+  private sheetNames = new Map<Sheet, string>();
+  private sheetRenames = new Map<string, string>();
+
+  constructor(options: WriteOptions = {}) {
+    this.options = {
+      compression: options.compression ?? true,
+      source: options.source,
+    };
+  }
+
+  /**
+   * 将工作簿写入为 xlsx 文件
+   * @description 写入普通工作表，以及原文件包中有绘图的图表工作表；延迟解析模式下尚未解析的工作表
+   * 需要先通过 ExcelParser.loadSheet 解析
+   */
+  async write(workbook: Workbook): Promise<Uint8Array> {
+    // 工作表部件路径到原文件包中绘图部件的映射 (图表工作表的图表也在绘图中)
+    const source = this.options.source ? await SourcePackage.load(this.options.source) : null;
+    const drawings = new Map<Sheet, PackageRelationship>();
+    if (source) {
+      for (const sheet of workbook.sheets) {
+        const rels = sheet.sourcePart ? await source.getRelationships(sheet.sourcePart) : [];
+        const drawing = rels.find(rel => rel.type.endsWith('/drawing') && !rel.external);
+        if (drawing) {
+          drawings.set(sheet, drawing);
+        }
+      }
+    }
+
+    const sheets = workbook.sheets.filter(sheet => (
+      sheet.type === 'worksheet' || (sheet.type === 'chartsheet' && drawings.has(sheet))
+    ));
+    if (sheets.length === 0) {
+      throw new Error('工作簿中没有可写入的工作表');
+    }
+    const pending = sheets.find(sheet => sheet.parseState === 'pending' || sheet.parseState === 'parsing');
+    if (pending) {
+      throw new Error(`工作表 "${pending.name}" 尚未解析，无法写入`);
+    }
+
+    this.reset(workbook);
+    this.assignSheetNames(sheets);
+    // [Content_Types].xml 放在文件包开头，内容在所有部件写入后生成
+    this.addPart('[Content_Types].xml', '');
+
+    // 先复制绘图及其引用的图片和图表，生成的批注和表格部件不与之重名
+    const drawingPaths = new Map<Sheet, string>();
+    if (source) {
+      const transform = this.createChartTransform();
+      for (const sheet of sheets) {
+        const drawing = drawings.get(sheet);
+        if (drawing && await source.copyPart(drawing.target, this.zip, this.contentTypes, transform)) {
+          drawingPaths.set(sheet, drawing.target);
+        }
+      }
+    }
+
+    // 原工作表索引到写入后索引的映射 (定义名称的作用域和活动工作表)
+    const sheetIndexes = new Map<number, number>();
+    workbook.sheets.forEach((sheet, index) => {
+      const writtenIndex = sheets.indexOf(sheet);
+      if (writtenIndex >= 0) {
+        sheetIndexes.set(index, writtenIndex);
+      }
+    });
+    const activeTab = sheetIndexes.get(workbook.activeSheet) ?? 0;
+
+    // 先写入工作表，单元格引用的样式和共享字符串在此过程中登记
+    const sheetPaths = sheets.map((sheet, index) => {
+      const drawingPath = drawingPaths.get(sheet);
+      const chartsheet = sheet.type === 'chartsheet';
+      const path = chartsheet ? `xl/chartsheets/sheet${index + 1}.xml` : `xl/worksheets/sheet${index + 1}.xml`;
+      const { xml, rels } = chartsheet
+        ? this.writeChartsheet(sheet, index === activeTab, drawingPath)
+        : this.writeWorksheet(sheet, index === activeTab, drawingPath);
+      this.addPart(path, xml, chartsheet ? CONTENT_TYPES.chartsheet : CONTENT_TYPES.worksheet);
+      if (rels) {
+        this.addPart(ExcelWriter.getRelsPath(path), rels);
+      }
+      return path;
+    });
+
+    const custom = workbook.properties.custom ?? [];
+    this.addPart('_rels/.rels', this.writeRootRels(custom.length > 0));
+    this.addPart('xl/workbook.xml', this.writeWorkbookXml(sheets, sheetIndexes, activeTab), CONTENT_TYPES.workbook);
+    this.addPart('xl/_rels/workbook.xml.rels', this.writeWorkbookRels(sheets, sheetPaths));
+    this.addPart('xl/styles.xml', this.writeStylesXml(), CONTENT_TYPES.styles);
+    this.addPart('xl/sharedStrings.xml', this.writeSharedStringsXml(), CONTENT_TYPES.sharedStrings);
+
+    this.addPart('docProps/core.xml', this.writeCoreProperties(), CONTENT_TYPES.coreProperties);
+    this.addPart('docProps/app.xml', this.writeAppProperties(sheets), CONTENT_TYPES.extendedProperties);
+    if (custom.length > 0) {
+      this.addPart('docProps/custom.xml', this.writeCustomProperties(custom), CONTENT_TYPES.customProperties);
+    }
+    this.addPart('[Content_Types].xml', this.writeContentTypes());
+
+    const zip = this.zip;
+    this.workbook = null;
+    this.zip = new JSZip();
+    this.contentTypes = new Map();
+    return zip.generateAsync({
+      type: 'uint8array',
+      compression: this.options.compression ? 'DEFLATE' : 'STORE',
+    });
+  }
+
+  /**
+   * 添加部件 (文件包中只包含部件，不创建目录项)
+   * @param contentType 内容类型，关系部件使用默认类型时省略
+   */
+  private addPart(path: string, content: string, contentType?: string): void {
+    this.zip.file(path, content, { createFolders: false });
+    if (contentType) {
+      this.contentTypes.set(path, contentType);
+    }
+  }
+
+  /**
+   * 分配未使用的部件路径 (如 xl/tables/table1.xml)，避开从原文件包复制的部件
+   */
+  private allocatePartPath(prefix: string, extension: string): string {
+    for (let n = 1; ; n++) {
+      const path = `${prefix}${n}.${extension}`;
+      if (!this.contentTypes.has(path) && !this.zip.file(path)) {
+        return path;
+      }
+    }
+  }
+
+  /**
+   * 创建复制图表部件时的转换：改写系列公式 (c:f 元素) 中名称有变化的工作表
+   */
+  private createChartTransform(): PartTransform | undefined {
+    if (this.sheetRenames.size === 0) {
+      return undefined;
+    }
+    return (xml, _path, contentType) => {
+      if (!contentType.includes('chart')) {
+        return xml;
+      }
+      const formulaPattern = /(<(?:\w+:)?f(?:\s[^>]*)?>)([^<]*)(<\/(?:\w+:)?f>)/g;
+      return xml.replace(formulaPattern, (_match: string, open: string, text: string, close: string) => (
+        `${open}${this.escape(this.renameSheets(XmlSaxReader.decodeEntities(text)))}${close}`
+      ));
+    };
+  }
+
+  private static createStylePart(...items: string[]): StylePart {
+    return {
+      items,
+      indexes: new Map(items.map((item, index) => [item, index])),
+    };
+  }
+
+  /**
+   * 重置写入状态并登记默认样式
+   * @description 字体 0 为工作簿的默认字体，填充 0 和 1 为 Excel 保留的 none 和 gray125，单元格格式 0 为默认样式
+   */
+  private reset(workbook: Workbook): void {
+    this.workbook = workbook;
+    this.zip = new JSZip();
+    this.contentTypes = new Map();
+    this.tableCount = 0;
+    this.vmlDrawingCount = 0;
+    this.numFmts = new Map();
+    this.styleCache = new Map();
+    this.dateStyles = new Map();
+    this.sharedStringCount = 0;
+    this.sharedStrings = ExcelWriter.createStylePart();
+    this.dxfs = ExcelWriter.createStylePart();
+    this.cellXfs = ExcelWriter.createStylePart();
+
+    const defaultStyle = workbook.styles.cellXfs[0];
+    this.defaultFont = workbook.styles.fonts[0] ?? defaultStyle?.font ?? DEFAULT_FONT;
+    this.fonts = ExcelWriter.createStylePart(this.writeFont(this.defaultFont));
+    this.fills = ExcelWriter.createStylePart(
+      '<fill><patternFill patternType="none"/></fill>',
+      '<fill><patternFill patternType="gray125"/></fill>',
+    );
+    this.borders = ExcelWriter.createStylePart('<border><left/><right/><top/><bottom/><diagonal/></border>');
+    this.registerStyle(defaultStyle ?? {});
+  }
+
+  /**
+   * 登记样式部件，内容相同时返回已有的索引
+   */
+  private register(part: StylePart, xml: string): number {
+    let index = part.indexes.get(xml);
+    if (index === undefined) {
+      index = part.items.length;
+      part.items.push(xml);
+      part.indexes.set(xml, index);
+    }
+    return index;
+  }
+
+  // ============ 工作簿 ============
+
+  private writeWorkbookXml(sheets: Sheet[], sheetIndexes: Map<number, number>, activeTab: number): string {
+    const workbook = this.getWorkbook();
+    let xml = `${XML_HEADER}<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`;
+
+    xml += workbook.workbookProperties.date1904 ? '<workbookPr date1904="1"/>' : '<workbookPr/>';
+
+    const protection = workbook.protection;
+    if (protection && [protection.lockStructure, protection.lockWindows, protection.lockRevision].includes(true)) {
+      const attrs: string[] = [];
+      // 新版哈希缺少盐值和迭代次数，无法写回，只保留旧版 16 位哈希
+      if (protection.password && !protection.algorithmName) {
+        attrs.push(`workbookPassword="${this.escape(protection.password)}"`);
+      }
+      if (protection.lockStructure) {
+        attrs.push('lockStructure="1"');
+      }
+      if (protection.lockWindows) {
+        attrs.push('lockWindows="1"');
+      }
+      if (protection.lockRevision) {
+        attrs.push('lockRevision="1"');
+      }
+      xml += `<workbookProtection ${attrs.join(' ')}/>`;
+    }
+
+    xml += `<bookViews><workbookView${activeTab > 0 ? ` activeTab="${activeTab}"` : ''}/></bookViews>`;
+
+    xml += '<sheets>';
+    sheets.forEach((sheet, index) => {
+      const state = sheet.state !== 'visible' ? ` state="${sheet.state}"` : '';
+      const name = this.escape(this.getSheetName(sheet));
+      xml += `<sheet name="${name}" sheetId="${index + 1}"${state} r:id="rId${index + 1}"/>`;
+    });
+    xml += '</sheets>';
+
+    const definedNames: string[] = [];
+    for (const definedName of workbook.definedNames) {
+      const attrs = [`name="${this.escape(definedName.name)}"`];
+      if (definedName.scope !== undefined && definedName.scope !== '') {
+        const localSheetId = sheetIndexes.get(Number(definedName.scope));
+        if (localSheetId === undefined) {
+          // 作用域工作表没有写入
+          continue;
+        }
+        attrs.push(`localSheetId="${localSheetId}"`);
+      }
+      if (definedName.hidden) {
+        attrs.push('hidden="1"');
+      }
+      if (definedName.comment) {
+        attrs.push(`comment="${this.escape(definedName.comment)}"`);
+      }
+      const ref = this.renameSheets(definedName.ref);
+      definedNames.push(`<definedName ${attrs.join(' ')}>${this.escape(ref)}</definedName>`);
+    }
+    if (definedNames.length > 0) {
+      xml += `<definedNames>${definedNames.join('')}</definedNames>`;
+    }
+
+    // 编辑后公式的缓存值可能已过期，打开时重新计算
+    xml += '<calcPr calcId="191029" fullCalcOnLoad="1"/>';
+    return `${xml}</workbook>`;
+  }
+
+  private writeWorkbookRels(sheets: Sheet[], sheetPaths: string[]): string {
+    const rels = sheets.map((sheet, index) => {
+      const type = sheet.type === 'chartsheet' ? REL_TYPES.chartsheet : REL_TYPES.worksheet;
+      return this.writeRelationship(`rId${index + 1}`, type, sheetPaths[index].replace(/^xl\//, ''));
+    });
+    const sheetCount = sheets.length;
+    rels.push(this.writeRelationship(`rId${sheetCount + 1}`, REL_TYPES.styles, 'styles.xml'));
+    rels.push(this.writeRelationship(`rId${sheetCount + 2}`, REL_TYPES.sharedStrings, 'sharedStrings.xml'));
+    return this.writeRelationships(rels);
+  }
+
+  private writeRootRels(hasCustomProperties: boolean): string {
+    const rels = [
+      this.writeRelationship('rId1', REL_TYPES.officeDocument, 'xl/workbook.xml'),
+      this.writeRelationship('rId2', REL_TYPES.coreProperties, 'docProps/core.xml'),
+      this.writeRelationship('rId3', REL_TYPES.extendedProperties, 'docProps/app.xml'),
+    ];
+    if (hasCustomProperties) {
+      rels.push(this.writeRelationship('rId4', REL_TYPES.customProperties, 'docProps/custom.xml'));
+    }
+    return this.writeRelationships(rels);
+  }
+
+  private writeRelationship(id: string, type: string, target: string, external = false): string {
+    const mode = external ? ' TargetMode="External"' : '';
+    return `<Relationship Id="${id}" Type="${type}" Target="${this.escape(target)}"${mode}/>`;
+  }
+
+  private writeRelationships(rels: string[]): string {
+    return `${XML_HEADER}<Relationships xmlns="${NS_RELS}">${rels.join('')}</Relationships>`;
+  }
+
+  /**
+   * 写入内容类型，每个部件 (包括复制的图片) 都以 Override 声明
+   */
+  private writeContentTypes(): string {
+    let xml = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`;
+    xml += '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>';
+    xml += '<Default Extension="xml" ContentType="application/xml"/>';
+    this.contentTypes.forEach((type, path) => {
+      xml += `<Override PartName="/${this.escape(path)}" ContentType="${this.escape(type)}"/>`;
+    });
+    return `${xml}</Types>`;
+  }
+
+  // ============ 文档属性 ============
+
+  private writeCoreProperties(): string {
+    const properties = this.getWorkbook().properties;
+    const element = (tag: string, value: string | undefined): string => {
+      return value ? `<${tag}>${this.escape(value)}</${tag}>` : '';
+    };
+    const date = (tag: string, value: Date | undefined): string => {
+      return value && !isNaN(value.getTime())
+        ? `<${tag} xsi:type="dcterms:W3CDTF">${ExcelWriter.formatIsoDate(value)}</${tag}>`
+        : '';
+    };
+
+    let xml = `${XML_HEADER}<cp:coreProperties`
+      + ' xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+      + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"'
+      + ' xmlns:dcmitype="http://purl.org/dc/dcmitype/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">';
+    xml += element('dc:title', properties.title);
+    xml += element('dc:subject', properties.subject);
+    xml += element('dc:creator', properties.creator);
+    xml += element('cp:keywords', properties.keywords);
+    xml += element('dc:description', properties.description);
+    xml += element('cp:lastModifiedBy', properties.lastModifiedBy);
+    xml += element('cp:revision', properties.revision);
+    xml += date('dcterms:created', properties.created);
+    // 修改时间为保存时间
+    xml += date('dcterms:modified', new Date());
+    xml += element('cp:category', properties.category);
+    xml += element('cp:contentStatus', properties.contentStatus);
+    return `${xml}</cp:coreProperties>`;
+  }
+
+  private writeAppProperties(sheets: Sheet[]): string {
+    const properties = this.getWorkbook().properties;
+    const element = (tag: string, value: string | undefined): string => {
+      return value ? `<${tag}>${this.escape(value)}</${tag}>` : '';
+    };
+
+    let xml = `${XML_HEADER}<Properties`
+      + ' xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"'
+      + ` xmlns:vt="${NS_VT}">`;
+    xml += element('Application', properties.application ?? 'Microsoft Excel');
+    // 标题按工作表和图表工作表分组
+    const groups = [
+      { name: 'Worksheets', sheets: sheets.filter(sheet => sheet.type !== 'chartsheet') },
+      { name: 'Charts', sheets: sheets.filter(sheet => sheet.type === 'chartsheet') },
+    ].filter(group => group.sheets.length > 0);
+    xml += `<HeadingPairs><vt:vector size="${groups.length * 2}" baseType="variant">`;
+    for (const group of groups) {
+      xml += `<vt:variant><vt:lpstr>${group.name}</vt:lpstr></vt:variant>`
+        + `<vt:variant><vt:i4>${group.sheets.length}</vt:i4></vt:variant>`;
+    }
+    xml += '</vt:vector></HeadingPairs>';
+    xml += `<TitlesOfParts><vt:vector size="${sheets.length}" baseType="lpstr">`;
+    for (const group of groups) {
+      for (const sheet of group.sheets) {
+        xml += `<vt:lpstr>${this.escape(this.getSheetName(sheet))}</vt:lpstr>`;
+      }
+    }
+    xml += '</vt:vector></TitlesOfParts>';
+    xml += element('Manager', properties.manager);
+    xml += element('Company', properties.company);
+    // AppVersion 必须为 XX.YYYY 格式，否则 Excel 认为文件损坏
+    if (properties.appVersion && /^\d{1,2}\.\d{4}$/.test(properties.appVersion)) {
+      xml += element('AppVersion', properties.appVersion);
+    }
+    return `${xml}</Properties>`;
+  }
+
+  private writeCustomProperties(custom: CustomProperty[]): string {
+    let xml = `${XML_HEADER}<Properties`
+      + ' xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties"'
+      + ` xmlns:vt="${NS_VT}">`;
+    custom.forEach((property, index) => {
+      // pid 从 2 开始 (0 和 1 为保留值)
+      xml += `<property fmtid="${CUSTOM_PROPERTY_FMTID}" pid="${index + 2}" name="${this.escape(property.name)}">`;
+      xml += this.writeCustomPropertyValue(property);
+      xml += '</property>';
+    });
+    return `${xml}</Properties>`;
+  }
+
+  private writeCustomPropertyValue(property: CustomProperty): string {
+    const { type, value } = property;
+    if (type === 'boolean') {
+      return `<vt:bool>${value ? 'true' : 'false'}</vt:bool>`;
+    }
+    if (type === 'number' && typeof value === 'number') {
+      const isInt = Number.isInteger(value) && value >= -2147483648 && value <= 2147483647;
+      return isInt ? `<vt:i4>${value}</vt:i4>` : `<vt:r8>${value}</vt:r8>`;
+    }
+    if (type === 'date' && value instanceof Date && !isNaN(value.getTime())) {
+      return `<vt:filetime>${ExcelWriter.formatIsoDate(value)}</vt:filetime>`;
+    }
+    return `<vt:lpwstr>${this.escape(String(value))}</vt:lpwstr>`;
+  }
+
+  // ============ 工作表 ============
+
+  /**
+   * 写入工作表
+   * @param drawingPath 从原文件包复制的绘图部件路径
+   * @returns 工作表 XML 和工作表关系 (没有关系时为 null)
+   */
+  private writeWorksheet(
+    sheet: Sheet,
+    tabSelected: boolean,
+    drawingPath: string | undefined,
+  ): { xml: string; rels: string | null } {
+    const rels: string[] = [];
+    let xml = `${XML_HEADER}<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`;
+
+    xml += this.writeSheetPr(sheet);
+    xml += `<dimension ref="${this.getDimension(sheet)}"/>`;
+    xml += this.writeSheetViews(sheet, tabSelected);
+    xml += this.writeSheetFormatPr(sheet);
+    xml += this.writeCols(sheet);
+    xml += this.writeSheetData(sheet);
+    xml += this.writeSheetProtection(sheet);
+
+    if (sheet.autoFilter?.ref) {
+      xml += `<autoFilter ref="${this.escape(sheet.autoFilter.ref)}"/>`;
+    }
+
+    if (sheet.mergeCells.length > 0) {
+      xml += `<mergeCells count="${sheet.mergeCells.length}">`;
+      for (const merge of sheet.mergeCells) {
+        xml += `<mergeCell ref="${this.escape(merge.ref)}"/>`;
+      }
+      xml += '</mergeCells>';
+    }
+
+    xml += this.writeConditionalFormats(sheet.conditionalFormats);
+    xml += this.writeDataValidations(sheet.dataValidations);
+    xml += this.writeHyperlinks(sheet, rels);
+    xml += this.writePrintSettings(sheet.printOptions);
+
+    if (drawingPath) {
+      const id = `rId${rels.length + 1}`;
+      rels.push(this.writeRelationship(id, REL_TYPES.drawing, `/${drawingPath}`));
+      xml += `<drawing r:id="${id}"/>`;
+    }
+    xml += this.writeComments(sheet, rels);
+    xml += this.writeTables(sheet.tables, rels);
+    xml += this.writeSparklineGroups(sheet.sparklineGroups);
+    xml += '</worksheet>';
+
+    return { xml, rels: rels.length > 0 ? this.writeRelationships(rels) : null };
+  }
+
+  /**
+   * 写入图表工作表 (图表位于复制的绘图部件中)
+   */
+  private writeChartsheet(
+    sheet: Sheet,
+    tabSelected: boolean,
+    drawingPath: string | undefined,
+  ): { xml: string; rels: string | null } {
+    let xml = `${XML_HEADER}<chartsheet xmlns="${NS_MAIN}" xmlns:r="${NS_R}">`;
+    if (sheet.tabColor) {
+      xml += `<sheetPr>${this.writeColor('tabColor', sheet.tabColor)}</sheetPr>`;
+    }
+
+    const attrs: string[] = [];
+    if (tabSelected) {
+      attrs.push('tabSelected="1"');
+    }
+    const zoomScale = sheet.views[0]?.zoomScale;
+    if (zoomScale && zoomScale !== 100) {
+      attrs.push(`zoomScale="${zoomScale}"`);
+    }
+    attrs.push('workbookViewId="0"');
+    xml += `<sheetViews><sheetView ${attrs.join(' ')}/></sheetViews>`;
+    xml += this.writePageMargins(sheet.printOptions);
+
+    if (!drawingPath) {
+      return { xml: `${xml}</chartsheet>`, rels: null };
+    }
+    xml += '<drawing r:id="rId1"/></chartsheet>';
+    const rels = this.writeRelationships([this.writeRelationship('rId1', REL_TYPES.drawing, `/${drawingPath}`)]);
+    return { xml, rels };
+  }
+
+  private writeSheetPr(sheet: Sheet): string {
+    let children = '';
+    if (sheet.tabColor) {
+      children += this.writeColor('tabColor', sheet.tabColor);
+    }
+    const outline = sheet.outlineProperties;
+    if (outline && (outline.summaryBelow === false || outline.summaryRight === false)) {
+      const attrs: string[] = [];
+      if (outline.summaryBelow === false) {
+        attrs.push('summaryBelow="0"');
+      }
+      if (outline.summaryRight === false) {
+        attrs.push('summaryRight="0"');
+      }
+      children += `<outlinePr ${attrs.join(' ')}/>`;
+    }
+    if (sheet.printOptions?.fitToPage) {
+      children += '<pageSetUpPr fitToPage="1"/>';
+    }
+    return children ? `<sheetPr>${children}</sheetPr>` : '';
+  }
+
+  /**
+   * 根据单元格和合并区域计算使用范围
+   */
+  private getDimension(sheet: Sheet): string {
+    let minRow = Infinity;
+    let minCol = Infinity;
+    let maxRow = -1;
+    let maxCol = -1;
+    const extend = (startRow: number, startCol: number, endRow: number, endCol: number): void => {
+      minRow = Math.min(minRow, startRow);
+      minCol = Math.min(minCol, startCol);
+      maxRow = Math.max(maxRow, endRow);
+      maxCol = Math.max(maxCol, endCol);
+    };
+
+    sheet.cells.forEach(cell => extend(cell.row, cell.col, cell.row, cell.col));
+    sheet.mergeCells.forEach(merge => extend(merge.startRow, merge.startCol, merge.endRow, merge.endCol));
+
+    if (maxRow < 0) {
+      return 'A1';
+    }
+    const start = XmlUtils.formatCellAddress(minRow, minCol);
+    const end = XmlUtils.formatCellAddress(maxRow, maxCol);
+    return start === end ? start : `${start}:${end}`;
+  }
+
+  private writeSheetViews(sheet: Sheet, tabSelected: boolean): string {
+    const view = sheet.views[0] ?? {};
+    const attrs: string[] = [];
+    if (tabSelected) {
+      attrs.push('tabSelected="1"');
+    }
+    if (view.showGridLines === false) {
+      attrs.push('showGridLines="0"');
+    }
+    if (view.showRowColHeaders === false) {
+      attrs.push('showRowColHeaders="0"');
+    }
+    if (view.showZeros === false) {
+      attrs.push('showZeros="0"');
+    }
+    if (view.showFormulas) {
+      attrs.push('showFormulas="1"');
+    }
+    if (view.rightToLeft) {
+      attrs.push('rightToLeft="1"');
+    }
+    if (view.view && view.view !== 'normal') {
+      attrs.push(`view="${view.view}"`);
+    }
+    if (view.zoomScale && view.zoomScale !== 100) {
+      attrs.push(`zoomScale="${view.zoomScale}"`);
+    }
+    attrs.push('workbookViewId="0"');
+
+    let children = '';
+    let selectionPane = '';
+    const freeze = sheet.freezePane;
+    if (freeze && freeze.state !== 'split' && (freeze.rows > 0 || freeze.cols > 0)) {
+      const activePane = freeze.activePane
+        ?? (freeze.rows > 0 && freeze.cols > 0 ? 'bottomRight' : freeze.rows > 0 ? 'bottomLeft' : 'topRight');
+      const topLeftCell = freeze.topLeftCell ?? XmlUtils.formatCellAddress(freeze.rows, freeze.cols);
+      const paneAttrs: string[] = [];
+      if (freeze.cols > 0) {
+        paneAttrs.push(`xSplit="${freeze.cols}"`);
+      }
+      if (freeze.rows > 0) {
+        paneAttrs.push(`ySplit="${freeze.rows}"`);
+      }
+      paneAttrs.push(`topLeftCell="${topLeftCell}"`, `activePane="${activePane}"`, 'state="frozen"');
+      children += `<pane ${paneAttrs.join(' ')}/>`;
+      selectionPane = ` pane="${activePane}"`;
+    }
+
+    if (view.activeCell) {
+      const activeCell = this.escape(view.activeCell);
+      const sqref = this.escape(view.selection?.[0]?.sqref ?? view.activeCell);
+      children += `<selection${selectionPane} activeCell="${activeCell}" sqref="${sqref}"/>`;
+    }
+
+    return children
+      ? `<sheetViews><sheetView ${attrs.join(' ')}>${children}</sheetView></sheetViews>`
+      : `<sheetViews><sheetView ${attrs.join(' ')}/></sheetViews>`;
+  }
+
+  private writeSheetFormatPr(sheet: Sheet): string {
+    const attrs: string[] = [];
+    if (sheet.defaultColWidth !== undefined && sheet.defaultColWidth !== 8.43) {
+      attrs.push(`defaultColWidth="${sheet.defaultColWidth}"`);
+    }
+    attrs.push(`defaultRowHeight="${sheet.defaultRowHeight ?? 15}"`);
+
+    let outlineLevelRow = 0;
+    let outlineLevelCol = 0;
+    sheet.rows.forEach(row => {
+      outlineLevelRow = Math.max(outlineLevelRow, row.outlineLevel ?? 0);
+    });
+    sheet.columns.forEach(col => {
+      outlineLevelCol = Math.max(outlineLevelCol, col.outlineLevel ?? 0);
+    });
+    if (outlineLevelRow > 0) {
+      attrs.push(`outlineLevelRow="${outlineLevelRow}"`);
+    }
+    if (outlineLevelCol > 0) {
+      attrs.push(`outlineLevelCol="${outlineLevelCol}"`);
+    }
+
+    return `<sheetFormatPr ${attrs.join(' ')}/>`;
+  }
+
+  /**
+   * 写入列定义，属性相同的相邻列合并为一个 col 元素
+   */
+  private writeCols(sheet: Sheet): string {
+    const columns = [...sheet.columns.values()].sort((a, b) => a.index - b.index);
+    const cols: Array<{ min: number; max: number; attrs: string }> = [];
+
+    for (const column of columns) {
+      const attrs = [`width="${column.width}"`];
+      const styleId = this.registerStyle(this.getStyle(column.styleIndex));
+      if (styleId > 0) {
+        attrs.push(`style="${styleId}"`);
+      }
+      if (column.hidden) {
+        attrs.push('hidden="1"');
+      }
+      if (column.bestFit) {
+        attrs.push('bestFit="1"');
+      }
+      if (column.customWidth) {
+        attrs.push('customWidth="1"');
+      }
+      if (column.outlineLevel) {
+        attrs.push(`outlineLevel="${column.outlineLevel}"`);
+      }
+      if (column.collapsed) {
+        attrs.push('collapsed="1"');
+      }
+
+      const last = cols[cols.length - 1];
+      const attrText = attrs.join(' ');
+      if (last && last.max === column.index && last.attrs === attrText) {
+        last.max = column.index + 1;
+      } else {
+        cols.push({ min: column.index + 1, max: column.index + 1, attrs: attrText });
+      }
+    }
+
+    if (cols.length === 0) {
+      return '';
+    }
+    return `<cols>${cols.map(col => `<col min="${col.min}" max="${col.max}" ${col.attrs}/>`).join('')}</cols>`;
+  }
+
+  private writeSheetData(sheet: Sheet): string {
+    // 按行分组单元格
+    const rowCells = new Map<number, Cell[]>();
+    sheet.cells.forEach(cell => {
+      const cells = rowCells.get(cell.row);
+      if (cells) {
+        cells.push(cell);
+      } else {
+        rowCells.set(cell.row, [cell]);
+      }
+    });
+
+    const rowIndexes = [...new Set([...rowCells.keys(), ...sheet.rows.keys()])].sort((a, b) => a - b);
+    const defaultHeight = sheet.defaultRowHeight ?? 15;
+    let xml = '<sheetData>';
+
+    for (const rowIndex of rowIndexes) {
+      const cellsXml = (rowCells.get(rowIndex) ?? [])
+        .sort((a, b) => a.col - b.col)
+        .map(cell => this.writeCell(cell))
+        .join('');
+
+      const row = sheet.rows.get(rowIndex);
+      const attrs = [`r="${rowIndex + 1}"`];
+      if (row) {
+        const styleId = this.registerStyle(this.getStyle(row.styleIndex));
+        if (styleId > 0) {
+          attrs.push(`s="${styleId}"`, 'customFormat="1"');
+        }
+        if (row.customHeight === true || row.height !== defaultHeight) {
+          attrs.push(`ht="${row.height}"`);
+        }
+        if (row.customHeight) {
+          attrs.push('customHeight="1"');
+        }
+        if (row.hidden) {
+          attrs.push('hidden="1"');
+        }
+        if (row.outlineLevel) {
+          attrs.push(`outlineLevel="${row.outlineLevel}"`);
+        }
+        if (row.collapsed) {
+          attrs.push('collapsed="1"');
+        }
+        if (row.thickTop) {
+          attrs.push('thickTop="1"');
+        }
+        if (row.thickBot) {
+          attrs.push('thickBot="1"');
+        }
+      }
+
+      if (cellsXml) {
+        xml += `<row ${attrs.join(' ')}>${cellsXml}</row>`;
+      } else if (attrs.length > 1) {
+        xml += `<row ${attrs.join(' ')}/>`;
+      }
+    }
+
+    return `${xml}</sheetData>`;
+  }
+
+  /**
+   * 写入单元格
+   * @description 字符串和富文本写入共享字符串，日期写入序列号 (样式没有日期格式时补充默认日期格式)；
+   * 没有值、公式和样式的单元格不写入
+   */
+  private writeCell(cell: Cell): string {
+    let style = cell.style ?? this.getStyle(cell.styleIndex);
+    const { value, formula } = cell;
+    let inner = '';
+    let type = '';
+    let v: string | undefined;
+
+    if (formula?.text) {
+      const text = this.escape(this.renameSheets(formula.text.replace(/^=/, '')));
+      if (formula.type === 'array') {
+        inner += `<f t="array" ref="${this.escape(formula.range ?? formula.ref ?? cell.address)}">${text}</f>`;
+      } else {
+        inner += `<f>${text}</f>`;
+      }
+    }
+
+    if (cell.type === 'error' || cell.error) {
+      type = 'e';
+      v = cell.error ?? String(value ?? '#N/A');
+    } else if (value instanceof Date) {
+      if (!isNaN(value.getTime())) {
+        const serial = DateUtils.dateToExcelSerial(value, this.getWorkbook().workbookProperties.date1904 ?? false);
+        v = String(serial);
+        style = this.getDateStyle(style, serial);
+      }
+    } else if (typeof value === 'number') {
+      if (isFinite(value)) {
+        v = String(value);
+      }
+    } else if (typeof value === 'boolean') {
+      type = 'b';
+      v = value ? '1' : '0';
+    } else if (typeof value === 'string' || Array.isArray(value)) {
+      // 公式的字符串结果直接写入单元格
+      if (formula?.text) {
+        type = 'str';
+        v = this.encodeText(typeof value === 'string' ? value : value.map(run => run.text).join(''));
+      } else {
+        type = 's';
+        v = String(this.registerSharedString(value));
+      }
+    }
+
+    if (!inner && v === undefined && !style) {
+      return '';
+    }
+
+    // 引用默认样式的单元格同样写入 s，重新解析时保留单元格样式
+    const attrs = [`r="${cell.address}"`];
+    if (style) {
+      attrs.push(`s="${this.registerStyle(style)}"`);
+    }
+    if (type) {
+      attrs.push(`t="${type}"`);
+    }
+    if (v !== undefined) {
+      inner += `<v>${this.escape(v)}</v>`;
+    }
+    return inner ? `<c ${attrs.join(' ')}>${inner}</c>` : `<c ${attrs.join(' ')}/>`;
+  }
+
+  private writeSheetProtection(sheet: Sheet): string {
+    const protection = sheet.protection;
+    if (!protection?.sheet) {
+      return '';
+    }
+
+    const attrs: string[] = [];
+    // 新版哈希缺少盐值和迭代次数，无法写回，只保留旧版 16 位哈希
+    if (protection.password && !protection.algorithmName) {
+      attrs.push(`password="${this.escape(protection.password)}"`);
+    }
+    attrs.push('sheet="1"');
+    for (const flag of SHEET_PROTECTION_FLAGS) {
+      const value = protection[flag];
+      if (value !== undefined) {
+        attrs.push(`${flag}="${value ? 1 : 0}"`);
+      }
+    }
+    return `<sheetProtection ${attrs.join(' ')}/>`;
+  }
+
+  /**
+   * 写入条件格式，应用范围相同的规则写入同一个 conditionalFormatting 元素
+   */
+  private writeConditionalFormats(rules: ConditionalFormatRule[]): string {
+    const groups = new Map<string, string[]>();
+    for (const rule of rules) {
+      const sqref = rule.ranges.join(' ');
+      if (!sqref) {
+        continue;
+      }
+      const ruleXml = this.writeConditionalFormatRule(rule);
+      const group = groups.get(sqref);
+      if (group) {
+        group.push(ruleXml);
+      } else {
+        groups.set(sqref, [ruleXml]);
+      }
+    }
+
+    let xml = '';
+    groups.forEach((ruleXmls, sqref) => {
+      xml += `<conditionalFormatting sqref="${this.escape(sqref)}">${ruleXmls.join('')}</conditionalFormatting>`;
+    });
+    return xml;
+  }
+
+  private writeConditionalFormatRule(rule: ConditionalFormatRule): string {
+    const attrs = [`type="${rule.type}"`];
+    const style = rule.style ?? (rule.dxfId !== undefined ? this.getWorkbook().styles.dxfs[rule.dxfId] : undefined);
+    if (style) {
+      attrs.push(`dxfId="${this.registerDxf(style)}"`);
+    }
+    attrs.push(`priority="${rule.priority}"`);
+    if (rule.stopIfTrue) {
+      attrs.push('stopIfTrue="1"');
+    }
+    if (rule.aboveAverage === false) {
+      attrs.push('aboveAverage="0"');
+    }
+    if (rule.percent) {
+      attrs.push('percent="1"');
+    }
+    if (rule.bottom) {
+      attrs.push('bottom="1"');
+    }
+    if (rule.operator) {
+      attrs.push(`operator="${rule.operator}"`);
+    }
+    if (rule.text !== undefined) {
+      attrs.push(`text="${this.escape(rule.text)}"`);
+    }
+    if (rule.timePeriod) {
+      attrs.push(`timePeriod="${rule.timePeriod}"`);
+    }
+    if (rule.rank !== undefined) {
+      attrs.push(`rank="${rule.rank}"`);
+    }
+    if (rule.stdDev) {
+      attrs.push(`stdDev="${rule.stdDev}"`);
+    }
+    if (rule.equalAverage) {
+      attrs.push('equalAverage="1"');
+    }
+
+    let children = (rule.formula ?? [])
+      .map(formula => `<formula>${this.escape(this.renameSheets(formula))}</formula>`)
+      .join('');
+    const cfvo = (item: { type: string; val?: string; gte?: boolean }): string => {
+      const val = item.val !== undefined ? ` val="${this.escape(item.val)}"` : '';
+      const gte = item.gte === false ? ' gte="0"' : '';
+      return `<cfvo type="${item.type}"${val}${gte}/>`;
+    };
+
+    if (rule.colorScale) {
+      children += '<colorScale>';
+      children += rule.colorScale.cfvo.map(cfvo).join('');
+      children += rule.colorScale.color.map(color => this.writeColor('color', color)).join('');
+      children += '</colorScale>';
+    }
+    if (rule.dataBar) {
+      const dataBar = rule.dataBar;
+      const barAttrs: string[] = [];
+      if (dataBar.minLength !== undefined) {
+        barAttrs.push(`minLength="${dataBar.minLength}"`);
+      }
+      if (dataBar.maxLength !== undefined) {
+        barAttrs.push(`maxLength="${dataBar.maxLength}"`);
+      }
+      if (dataBar.showValue === false) {
+        barAttrs.push('showValue="0"');
+      }
+      const cfvos = dataBar.cfvo ?? [{ type: 'min' }, { type: 'max' }];
+      children += `<dataBar${barAttrs.map(attr => ` ${attr}`).join('')}>`;
+      children += cfvos.map(cfvo).join('');
+      children += `${this.writeColor('color', dataBar.color)}</dataBar>`;
+    }
+    if (rule.iconSet) {
+      const iconSet = rule.iconSet;
+      const setAttrs = [`iconSet="${iconSet.iconSet}"`];
+      if (iconSet.showValue === false) {
+        setAttrs.push('showValue="0"');
+      }
+      if (iconSet.reverse) {
+        setAttrs.push('reverse="1"');
+      }
+      children += `<iconSet ${setAttrs.join(' ')}>${iconSet.cfvo.map(cfvo).join('')}</iconSet>`;
+    }
+
+    return children ? `<cfRule ${attrs.join(' ')}>${children}</cfRule>` : `<cfRule ${attrs.join(' ')}/>`;
+  }
+
+  private writeDataValidations(validations: DataValidation[]): string {
+    const items = validations.filter(validation => validation.ranges.length > 0);
+    if (items.length === 0) {
+      return '';
+    }
+
+    let xml = `<dataValidations count="${items.length}">`;
+    for (const validation of items) {
+      const attrs: string[] = [];
+      if (validation.type !== 'none') {
+        attrs.push(`type="${validation.type}"`);
+      }
+      if (validation.errorStyle && validation.errorStyle !== 'stop') {
+        attrs.push(`errorStyle="${validation.errorStyle}"`);
+      }
+      if (validation.operator) {
+        attrs.push(`operator="${validation.operator}"`);
+      }
+      if (validation.allowBlank) {
+        attrs.push('allowBlank="1"');
+      }
+      // Excel 中 showDropDown 为 1 表示隐藏下拉箭头
+      if (validation.showDropDown === false) {
+        attrs.push('showDropDown="1"');
+      }
+      if (validation.showInputMessage) {
+        attrs.push('showInputMessage="1"');
+      }
+      if (validation.showErrorMessage) {
+        attrs.push('showErrorMessage="1"');
+      }
+      if (validation.errorTitle) {
+        attrs.push(`errorTitle="${this.escape(validation.errorTitle)}"`);
+      }
+      if (validation.error) {
+        attrs.push(`error="${this.escape(validation.error)}"`);
+      }
+      if (validation.promptTitle) {
+        attrs.push(`promptTitle="${this.escape(validation.promptTitle)}"`);
+      }
+      if (validation.prompt) {
+        attrs.push(`prompt="${this.escape(validation.prompt)}"`);
+      }
+      attrs.push(`sqref="${this.escape(validation.ranges.join(' '))}"`);
+
+      let children = '';
+      // 空公式元素不符合架构，Excel 认为文件损坏
+      if (validation.formula1) {
+        children += `<formula1>${this.escape(this.renameSheets(validation.formula1))}</formula1>`;
+      }
+      if (validation.formula2) {
+        children += `<formula2>${this.escape(this.renameSheets(validation.formula2))}</formula2>`;
+      }
+      xml += children
+        ? `<dataValidation ${attrs.join(' ')}>${children}</dataValidation>`
+        : `<dataValidation ${attrs.join(' ')}/>`;
+    }
+    return `${xml}</dataValidations>`;
+  }
+
+  /**
+   * 写入超链接
+   * @description 内部链接写入 location，外部链接的目标写入工作表关系 (rels 中追加关系)
+   */
+  private writeHyperlinks(sheet: Sheet, rels: string[]): string {
+    const links = new Map<string, Hyperlink>(sheet.hyperlinks);
+    sheet.cells.forEach(cell => {
+      if (cell.hyperlink && !links.has(cell.address)) {
+        links.set(cell.address, cell.hyperlink);
+      }
+    });
+    if (links.size === 0) {
+      return '';
+    }
+
+    let xml = '<hyperlinks>';
+    links.forEach((link, ref) => {
+      const attrs = [`ref="${this.escape(ref)}"`];
+      if (link.type === 'internal') {
+        attrs.push(`location="${this.escape(this.renameSheets(link.location ?? link.target))}"`);
+      } else {
+        const id = `rId${rels.length + 1}`;
+        rels.push(this.writeRelationship(id, REL_TYPES.hyperlink, link.target, true));
+        attrs.push(`r:id="${id}"`);
+        if (link.location) {
+          attrs.push(`location="${this.escape(this.renameSheets(link.location))}"`);
+        }
+      }
+      if (link.display) {
+        attrs.push(`display="${this.escape(link.display)}"`);
+      }
+      if (link.tooltip) {
+        attrs.push(`tooltip="${this.escape(link.tooltip)}"`);
+      }
+      xml += `<hyperlink ${attrs.join(' ')}/>`;
+    });
+    return `${xml}</hyperlinks>`;
+  }
+
+  // ============ 打印设置 ============
+
+  /**
+   * 写入打印选项、页边距、页面设置、页眉页脚和分页符 (打印区域和打印标题保存在定义名称中)
+   */
+  private writePrintSettings(options: PrintOptions | undefined): string {
+    if (!options) {
+      return this.writePageMargins(options);
+    }
+
+    let xml = '';
+    const printAttrs: string[] = [];
+    if (options.horizontalCentered) {
+      printAttrs.push('horizontalCentered="1"');
+    }
+    if (options.verticalCentered) {
+      printAttrs.push('verticalCentered="1"');
+    }
+    if (options.headings) {
+      printAttrs.push('headings="1"');
+    }
+    if (options.gridLines) {
+      printAttrs.push('gridLines="1"');
+    }
+    if (printAttrs.length > 0) {
+      xml += `<printOptions ${printAttrs.join(' ')}/>`;
+    }
+
+    xml += this.writePageMargins(options);
+    xml += this.writePageSetup(options);
+    xml += this.writeHeaderFooter(options);
+    xml += this.writePageBreaks('rowBreaks', options.rowBreaks);
+    xml += this.writePageBreaks('colBreaks', options.colBreaks);
+    return xml;
+  }
+
+  private writePageMargins(options: PrintOptions | undefined): string {
+    const margins = options?.margins;
+    if (!margins) {
+      return `<pageMargins ${DEFAULT_PAGE_MARGINS}/>`;
+    }
+    return `<pageMargins left="${margins.left}" right="${margins.right}" top="${margins.top}"`
+      + ` bottom="${margins.bottom}" header="${margins.header}" footer="${margins.footer}"/>`;
+  }
+
+  private writePageSetup(options: PrintOptions): string {
+    const attrs: string[] = [];
+    const paperSizeId = options.paperSizeId ?? Object.entries(PAPER_SIZES)
+      .find(([, paperSize]) => paperSize === options.paperSize)?.[0];
+    if (paperSizeId !== undefined && Number(paperSizeId) !== 1) {
+      attrs.push(`paperSize="${paperSizeId}"`);
+    }
+    if (options.scale !== undefined && options.scale !== 100) {
+      attrs.push(`scale="${options.scale}"`);
+    }
+    if (options.firstPageNumber !== undefined) {
+      attrs.push(`firstPageNumber="${options.firstPageNumber}"`);
+    }
+    if (options.fitToWidth !== undefined && options.fitToWidth !== 1) {
+      attrs.push(`fitToWidth="${options.fitToWidth}"`);
+    }
+    if (options.fitToHeight !== undefined && options.fitToHeight !== 1) {
+      attrs.push(`fitToHeight="${options.fitToHeight}"`);
+    }
+    if (options.pageOrder === 'overThenDown') {
+      attrs.push('pageOrder="overThenDown"');
+    }
+    if (options.orientation) {
+      attrs.push(`orientation="${options.orientation}"`);
+    }
+    if (options.blackAndWhite) {
+      attrs.push('blackAndWhite="1"');
+    }
+    if (options.draft) {
+      attrs.push('draft="1"');
+    }
+    if (options.firstPageNumber !== undefined) {
+      attrs.push('useFirstPageNumber="1"');
+    }
+    return attrs.length > 0 ? `<pageSetup ${attrs.join(' ')}/>` : '';
+  }
+
+  /**
+   * 写入页眉页脚 (解析时拆分为 header 和 footer，两者的公共属性相同)
+   */
+  private writeHeaderFooter(options: PrintOptions): string {
+    const header = options.header ?? {};
+    const footer = options.footer ?? {};
+    const common = options.header ?? options.footer;
+    if (!common) {
+      return '';
+    }
+
+    const attrs: string[] = [];
+    if (common.differentOddEven) {
+      attrs.push('differentOddEven="1"');
+    }
+    if (common.differentFirst) {
+      attrs.push('differentFirst="1"');
+    }
+    if (common.scaleWithDoc === false) {
+      attrs.push('scaleWithDoc="0"');
+    }
+    if (common.alignWithMargins === false) {
+      attrs.push('alignWithMargins="0"');
+    }
+
+    const element = (tag: string, text: string | undefined): string => (
+      text ? `<${tag}>${this.escape(text)}</${tag}>` : ''
+    );
+    const children = element('oddHeader', header.oddHeader)
+      + element('oddFooter', footer.oddFooter)
+      + element('evenHeader', header.evenHeader)
+      + element('evenFooter', footer.evenFooter)
+      + element('firstHeader', header.firstHeader)
+      + element('firstFooter', footer.firstFooter);
+    const attrText = attrs.map(attr => ` ${attr}`).join('');
+    return children ? `<headerFooter${attrText}>${children}</headerFooter>` : `<headerFooter${attrText}/>`;
+  }
+
+  private writePageBreaks(tag: 'rowBreaks' | 'colBreaks', breaks: PageBreak[] | undefined): string {
+    if (!breaks?.length) {
+      return '';
+    }
+    const manualCount = breaks.filter(pageBreak => pageBreak.manual).length;
+    let xml = `<${tag} count="${breaks.length}" manualBreakCount="${manualCount}">`;
+    for (const pageBreak of breaks) {
+      const attrs = [`id="${pageBreak.index}"`];
+      if (pageBreak.min) {
+        attrs.push(`min="${pageBreak.min}"`);
+      }
+      if (pageBreak.max) {
+        attrs.push(`max="${pageBreak.max}"`);
+      }
+      if (pageBreak.manual) {
+        attrs.push('man="1"');
+      }
+      xml += `<brk ${attrs.join(' ')}/>`;
+    }
+    return `${xml}</${tag}>`;
+  }
+
+  // ============ 批注 ============
+
+  /**
+   * 写入批注部件和批注框的 VML 绘图
+   * @description 线程批注写入为传统批注，回复按 "作者: 内容" 追加到批注文本后
+   * @returns 工作表中引用 VML 绘图的 legacyDrawing 元素
+   */
+  private writeComments(sheet: Sheet, rels: string[]): string {
+    const comments = [...sheet.comments.entries()]
+      .map(([ref, comment]) => ({ ...XmlUtils.parseCellAddress(comment.ref ?? ref), comment }))
+      .filter(({ row, col }) => row >= 0 && col >= 0)
+      .sort((a, b) => a.row - b.row || a.col - b.col);
+    if (comments.length === 0) {
+      return '';
+    }
+
+    const authors: string[] = [];
+    let commentsXml = '';
+    for (const { row, col, comment } of comments) {
+      const author = comment.author ?? '';
+      let authorId = authors.indexOf(author);
+      if (authorId < 0) {
+        authorId = authors.push(author) - 1;
+      }
+      const ref = XmlUtils.formatCellAddress(row, col);
+      commentsXml += `<comment ref="${ref}" authorId="${authorId}"><text>${this.writeCommentText(comment)}</text></comment>`;
+    }
+
+    const commentsPath = this.allocatePartPath('xl/comments', 'xml');
+    this.addPart(
+      commentsPath,
+      `${XML_HEADER}<comments xmlns="${NS_MAIN}"><authors>`
+        + `${authors.map(author => `<author>${this.escape(author)}</author>`).join('')}</authors>`
+        + `<commentList>${commentsXml}</commentList></comments>`,
+      CONTENT_TYPES.comments,
+    );
+    rels.push(this.writeRelationship(`rId${rels.length + 1}`, REL_TYPES.comments, `/${commentsPath}`));
+
+    const vmlPath = this.allocatePartPath('xl/drawings/vmlDrawing', 'vml');
+    this.addPart(vmlPath, this.writeCommentsVml(comments), CONTENT_TYPES.vmlDrawing);
+    const id = `rId${rels.length + 1}`;
+    rels.push(this.writeRelationship(id, REL_TYPES.vmlDrawing, `/${vmlPath}`));
+    return `<legacyDrawing r:id="${id}"/>`;
+  }
+
+  private writeCommentText(comment: Comment): string {
+    const replies = (comment.replies ?? [])
+      .map(reply => `\n${reply.author ? `${reply.author}: ` : ''}${reply.text}`)
+      .join('');
+    if (typeof comment.text === 'string') {
+      return this.writeText(comment.text + replies);
+    }
+
+    let xml = comment.text.map(run => {
+      const rPr = run.font ? this.writeFont(run.font, 'rPr') : '';
+      return `<r>${rPr}${this.writeText(run.text)}</r>`;
+    }).join('');
+    if (replies) {
+      xml += `<r>${this.writeText(replies)}</r>`;
+    }
+    return xml;
+  }
+
+  /**
+   * 写入批注框的 VML 绘图 (位置和可见性)
+   * @description 形状 ID 按绘图编号分块 (每个绘图 1024 个)，没有锚点的批注框放在单元格右侧
+   */
+  private writeCommentsVml(comments: Array<{ row: number; col: number; comment: Comment }>): string {
+    const drawingId = ++this.vmlDrawingCount;
+    let xml = '<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office"'
+      + ' xmlns:x="urn:schemas-microsoft-com:office:excel">'
+      + `<o:shapelayout v:ext="edit"><o:idmap v:ext="edit" data="${drawingId}"/></o:shapelayout>`
+      + '<v:shapetype id="_x0000_t202" coordsize="21600,21600" o:spt="202" path="m,l,21600r21600,l21600,xe">'
+      + '<v:stroke joinstyle="miter"/><v:path gradientshapeok="t" o:connecttype="rect"/></v:shapetype>';
+
+    comments.forEach(({ row, col, comment }, index) => {
+      const anchor = comment.anchor
+        ? [
+          comment.anchor.from.col, comment.anchor.from.colOff, comment.anchor.from.row, comment.anchor.from.rowOff,
+          comment.anchor.to.col, comment.anchor.to.colOff, comment.anchor.to.row, comment.anchor.to.rowOff,
+        ]
+        : [col + 1, 15, Math.max(row - 1, 0), 10, col + 3, 15, row + 3, 4];
+      const visibility = comment.visible ? 'visible' : 'hidden';
+      xml += `<v:shape id="_x0000_s${drawingId * 1024 + index + 1}" type="#_x0000_t202"`
+        + ` style="position:absolute;width:108pt;height:59.25pt;z-index:${index + 1};visibility:${visibility}"`
+        + ' fillcolor="#ffffe1" o:insetmode="auto"><v:fill color2="#ffffe1"/>'
+        + '<v:shadow on="t" color="black" obscured="t"/><v:path o:connecttype="none"/>'
+        + '<v:textbox style="mso-direction-alt:auto"><div style="text-align:left"></div></v:textbox>'
+        + '<x:ClientData ObjectType="Note"><x:MoveWithCells/><x:SizeWithCells/>'
+        + `<x:Anchor>${anchor.join(', ')}</x:Anchor><x:AutoFill>False</x:AutoFill>`
+        + `<x:Row>${row}</x:Row><x:Column>${col}</x:Column>${comment.visible ? '<x:Visible/>' : ''}`
+        + '</x:ClientData></v:shape>';
+    });
+    return `${xml}</xml>`;
+  }
+
+  // ============ 表格 ============
+
+  /**
+   * 写入表格部件
+   * @returns 工作表中的 tableParts 元素
+   */
+  private writeTables(tables: Table[], rels: string[]): string {
+    if (tables.length === 0) {
+      return '';
+    }
+
+    let xml = `<tableParts count="${tables.length}">`;
+    for (const table of tables) {
+      const path = this.allocatePartPath('xl/tables/table', 'xml');
+      this.addPart(path, this.writeTable(table, ++this.tableCount), CONTENT_TYPES.table);
+      const id = `rId${rels.length + 1}`;
+      rels.push(this.writeRelationship(id, REL_TYPES.table, `/${path}`));
+      xml += `<tablePart r:id="${id}"/>`;
+    }
+    return `${xml}</tableParts>`;
+  }
+
+  /**
+   * 写入表格定义
+   * @param id 表格 ID (工作簿内唯一，原 ID 可能因工作表未写入而不连续，因此重新编号)
+   */
+  private writeTable(table: Table, id: number): string {
+    const attrs = [
+      `id="${id}"`,
+      `name="${this.escape(table.name)}"`,
+      `displayName="${this.escape(table.displayName)}"`,
+      `ref="${this.escape(table.ref)}"`,
+    ];
+    if (table.headerRowCount === 0) {
+      attrs.push('headerRowCount="0"');
+    }
+    if (table.totalsRowCount) {
+      attrs.push(`totalsRowCount="${table.totalsRowCount}"`);
+    }
+    if (table.totalsRowShown === false) {
+      attrs.push('totalsRowShown="0"');
+    }
+
+    let xml = `${XML_HEADER}<table xmlns="${NS_MAIN}" ${attrs.join(' ')}>`;
+    if (table.autoFilter?.ref && table.headerRowCount !== 0) {
+      xml += `<autoFilter ref="${this.escape(table.autoFilter.ref)}"/>`;
+    }
+
+    xml += `<tableColumns count="${table.columns.length}">`;
+    table.columns.forEach((column, index) => {
+      const columnAttrs = [`id="${column.id || index + 1}"`, `name="${this.escape(column.name)}"`];
+      if (column.totalsRowLabel) {
+        columnAttrs.push(`totalsRowLabel="${this.escape(column.totalsRowLabel)}"`);
+      }
+      if (column.totalsRowFunction) {
+        columnAttrs.push(`totalsRowFunction="${column.totalsRowFunction}"`);
+      }
+      xml += column.totalsRowFormula
+        ? `<tableColumn ${columnAttrs.join(' ')}><totalsRowFormula>`
+          + `${this.escape(this.renameSheets(column.totalsRowFormula))}</totalsRowFormula></tableColumn>`
+        : `<tableColumn ${columnAttrs.join(' ')}/>`;
+    });
+    xml += '</tableColumns>';
+
+    const style = table.styleInfo;
+    if (style) {
+      const flag = (value: boolean | undefined): number => (value ? 1 : 0);
+      const name = style.name ? ` name="${this.escape(style.name)}"` : '';
+      xml += `<tableStyleInfo${name} showFirstColumn="${flag(style.showFirstColumn)}"`
+        + ` showLastColumn="${flag(style.showLastColumn)}" showRowStripes="${flag(style.showRowStripes)}"`
+        + ` showColumnStripes="${flag(style.showColumnStripes)}"/>`;
+    }
+    return `${xml}</table>`;
+  }
+
+  // ============ 迷你图 ============
+
+  /**
+   * 写入迷你图组 (x14 扩展)
+   */
+  private writeSparklineGroups(groups: SparklineGroup[]): string {
+    const items = groups.filter(group => group.sparklines.length > 0);
+    if (items.length === 0) {
+      return '';
+    }
+
+    let xml = `<extLst><ext uri="${SPARKLINE_EXT_URI}" xmlns:x14="${NS_X14}">`
+      + `<x14:sparklineGroups xmlns:xm="${NS_XM}">`;
+    for (const group of items) {
+      xml += this.writeSparklineGroup(group);
+    }
+    return `${xml}</x14:sparklineGroups></ext></extLst>`;
+  }
+
+  private writeSparklineGroup(group: SparklineGroup): string {
+    const attrs: string[] = [];
+    if (group.minAxisType === 'custom' && group.manualMin !== undefined) {
+      attrs.push(`manualMin="${group.manualMin}"`);
+    }
+    if (group.maxAxisType === 'custom' && group.manualMax !== undefined) {
+      attrs.push(`manualMax="${group.manualMax}"`);
+    }
+    if (group.lineWeight !== 0.75) {
+      attrs.push(`lineWeight="${group.lineWeight}"`);
+    }
+    if (group.type !== 'line') {
+      attrs.push(`type="${group.type}"`);
+    }
+    if (group.dateRange) {
+      attrs.push('dateAxis="1"');
+    }
+    if (group.displayEmptyCellsAs !== 'zero') {
+      attrs.push(`displayEmptyCellsAs="${group.displayEmptyCellsAs}"`);
+    }
+    const flags = [
+      'markers', 'high', 'low', 'first', 'last', 'negative', 'displayXAxis', 'displayHidden',
+    ] as const;
+    for (const flag of flags) {
+      if (group[flag]) {
+        attrs.push(`${flag}="1"`);
+      }
+    }
+    if (group.minAxisType !== 'individual') {
+      attrs.push(`minAxisType="${group.minAxisType}"`);
+    }
+    if (group.maxAxisType !== 'individual') {
+      attrs.push(`maxAxisType="${group.maxAxisType}"`);
+    }
+    if (group.rightToLeft) {
+      attrs.push('rightToLeft="1"');
+    }
+
+    let xml = attrs.length > 0 ? `<x14:sparklineGroup ${attrs.join(' ')}>` : '<x14:sparklineGroup>';
+    for (const name of SPARKLINE_COLORS) {
+      xml += this.writeColor(`x14:${name}`, group[name]);
+    }
+    if (group.dateRange) {
+      xml += `<xm:f>${this.escape(this.renameSheets(group.dateRange))}</xm:f>`;
+    }
+    xml += '<x14:sparklines>';
+    for (const sparkline of group.sparklines) {
+      xml += '<x14:sparkline>';
+      if (sparkline.ref) {
+        xml += `<xm:f>${this.escape(this.renameSheets(sparkline.ref))}</xm:f>`;
+      }
+      xml += `<xm:sqref>${this.escape(sparkline.location)}</xm:sqref></x14:sparkline>`;
+    }
+    return `${xml}</x14:sparklines></x14:sparklineGroup>`;
+  }
+
+  // ============ 共享字符串 ============
+
+  private registerSharedString(value: string | RichText): number {
+    this.sharedStringCount++;
+    if (typeof value === 'string') {
+      return this.register(this.sharedStrings, `<si>${this.writeText(value)}</si>`);
+    }
+
+    const runs = value.map(run => {
+      const rPr = run.font ? this.writeFont(run.font, 'rPr') : '';
+      return `<r>${rPr}${this.writeText(run.text)}</r>`;
+    });
+    return this.register(this.sharedStrings, `<si>${runs.join('')}</si>`);
+  }
+
+  private writeText(text: string): string {
+    // 首尾空白和换行需要保留
+    const space = /^\s|\s$|\n/.test(text) ? ' xml:space="preserve"' : '';
+    return `<t${space}>${this.escape(this.encodeText(text))}</t>`;
+  }
+
+  /**
+   * 将控制字符编码为 _xHHHH_ (如 \x01 写为 _x0001_)，原有的 _xHHHH_ 文本写为 _x005F_xHHHH_
+   * @description 直接写入会被 escape 删除，编码后 Excel 读取时还原
+   */
+  private encodeText(text: string): string {
+    return text.replace(ENCODED_TEXT_CHARS, ch => `_x${ch.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}_`);
+  }
+
+  private writeSharedStringsXml(): string {
+    const { items } = this.sharedStrings;
+    return `${XML_HEADER}<sst xmlns="${NS_MAIN}" count="${this.sharedStringCount}" uniqueCount="${items.length}">`
+      + `${items.join('')}</sst>`;
+  }
+
+  // ============ 样式 ============
+
+  private getStyle(styleIndex: number | undefined): CellStyle | undefined {
+    return styleIndex !== undefined ? this.getWorkbook().styles.cellXfs[styleIndex] : undefined;
+  }
+
+  /**
+   * 获取日期值使用的样式，样式没有日期格式时补充默认日期格式 (有时间部分时包含时间)
+   * @param serial 写入的日期序列号，按 DateUtils 的转换结果判断是否有时间部分，与运行环境的时区无关
+   */
+  private getDateStyle(style: CellStyle | undefined, serial: number): CellStyle | undefined {
+    if (style?.numFmt && FormatUtils.isDateFormat(style.numFmt)) {
+      return style;
+    }
+    const hasTime = !Number.isInteger(serial);
+    const numFmt = hasTime ? DATE_TIME_FORMAT : DATE_FORMAT;
+    const cached = this.dateStyles.get(style);
+    if (cached?.numFmt === numFmt) {
+      return cached;
+    }
+    const dateStyle: CellStyle = { ...style, numFmt, numFmtId: undefined };
+    this.dateStyles.set(style, dateStyle);
+    return dateStyle;
+  }
+
+  /**
+   * 登记单元格样式，返回 cellXfs 中的索引 (没有样式时为 0)
+   */
+  private registerStyle(style: CellStyle | undefined): number {
+    if (!style) {
+      return 0;
+    }
+    const cached = this.styleCache.get(style);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const numFmtId = this.registerNumFmt(style.numFmt, style.numFmtId);
+    // 只设置了部分属性的字体 (如编辑时设置粗体) 使用默认字体的名称和字号
+    const font = style.font && {
+      ...style.font,
+      name: style.font.name ?? this.defaultFont.name,
+      size: style.font.size ?? this.defaultFont.size,
+    };
+    const fontId = font ? this.register(this.fonts, this.writeFont(font)) : 0;
+    const fillId = style.fill ? this.register(this.fills, this.writeFill(style.fill)) : 0;
+    const borderId = style.border ? this.register(this.borders, this.writeBorder(style.border)) : 0;
+    const alignment = this.writeAlignment(style.alignment);
+    const protection = this.writeProtection(style.protection);
+
+    const attrs = [
+      `numFmtId="${numFmtId}"`, `fontId="${fontId}"`, `fillId="${fillId}"`, `borderId="${borderId}"`, 'xfId="0"',
+    ];
+    if (style.quotePrefix) {
+      attrs.push('quotePrefix="1"');
+    }
+    if (numFmtId > 0) {
+      attrs.push('applyNumberFormat="1"');
+    }
+    if (fontId > 0) {
+      attrs.push('applyFont="1"');
+    }
+    if (fillId > 0) {
+      attrs.push('applyFill="1"');
+    }
+    if (borderId > 0) {
+      attrs.push('applyBorder="1"');
+    }
+    if (alignment) {
+      attrs.push('applyAlignment="1"');
+    }
+    if (protection) {
+      attrs.push('applyProtection="1"');
+    }
+
+    const children = alignment + protection;
+    const xml = children ? `<xf ${attrs.join(' ')}>${children}</xf>` : `<xf ${attrs.join(' ')}/>`;
+    const index = this.register(this.cellXfs, xml);
+    this.styleCache.set(style, index);
+    return index;
+  }
+
+  /**
+   * 登记数字格式
+   * @description 内置格式保留原 ID，其他格式按格式代码分配 164 开始的自定义 ID
+   */
+  private registerNumFmt(numFmt: string | undefined, numFmtId: number | undefined): number {
+    if (
+      numFmtId !== undefined
+      && numFmtId < CUSTOM_NUM_FMT_ID
+      && (numFmt === undefined || FormatUtils.getBuiltinFormat(numFmtId) === numFmt)
+    ) {
+      return numFmtId;
+    }
+    if (!numFmt || numFmt === 'General') {
+      return 0;
+    }
+    for (let id = 1; id <= MAX_BUILTIN_NUM_FMT_ID; id++) {
+      if (FormatUtils.getBuiltinFormat(id) === numFmt) {
+        return id;
+      }
+    }
+
+    let id = this.numFmts.get(numFmt);
+    if (id === undefined) {
+      id = CUSTOM_NUM_FMT_ID + this.numFmts.size;
+      this.numFmts.set(numFmt, id);
+    }
+    return id;
+  }
+
+  /**
+   * 登记差异格式 (条件格式引用)
+   */
+  private registerDxf(style: CellStyle): number {
+    let xml = '';
+    if (style.font) {
+      xml += this.writeFont(style.font, 'font', true);
+    }
+    if (style.numFmt && style.numFmt !== 'General') {
+      const numFmtId = this.registerNumFmt(style.numFmt, style.numFmtId);
+      xml += `<numFmt numFmtId="${numFmtId}" formatCode="${this.escape(style.numFmt)}"/>`;
+    }
+    if (style.fill) {
+      xml += this.writeFill(style.fill, true);
+    }
+    xml += this.writeAlignment(style.alignment);
+    if (style.border) {
+      xml += this.writeBorder(style.border);
+    }
+    xml += this.writeProtection(style.protection);
+    return this.register(this.dxfs, `<dxf>${xml}</dxf>`);
+  }
+
+  /**
+   * 写入字体
+   * @param tag 元素名 (富文本片段中为 rPr，字体名称元素为 rFont)
+   * @param differential 是否为差异格式 (显式写入关闭的粗体、斜体和删除线)
+   */
+  private writeFont(font: FontStyle, tag: 'font' | 'rPr' = 'font', differential = false): string {
+    const flag = (name: string, value: boolean | undefined): string => {
+      if (value) {
+        return `<${name}/>`;
+      }
+      return differential && value === false ? `<${name} val="0"/>` : '';
+    };
+
+    let xml = '';
+    xml += flag('b', font.bold);
+    xml += flag('i', font.italic);
+    xml += flag('strike', font.strikethrough ?? font.strike);
+    xml += flag('outline', font.outline);
+    xml += flag('shadow', font.shadow);
+    if (font.underline && font.underline !== 'none') {
+      xml += font.underline === 'single' ? '<u/>' : `<u val="${font.underline}"/>`;
+    }
+    if (font.vertAlign && font.vertAlign !== 'baseline') {
+      xml += `<vertAlign val="${font.vertAlign}"/>`;
+    }
+    if (font.size !== undefined) {
+      xml += `<sz val="${font.size}"/>`;
+    }
+    xml += this.writeColor('color', font.color);
+    if (font.name) {
+      xml += `<${tag === 'rPr' ? 'rFont' : 'name'} val="${this.escape(font.name)}"/>`;
+    }
+    if (font.family !== undefined) {
+      xml += `<family val="${font.family}"/>`;
+    }
+    if (font.charset !== undefined) {
+      xml += `<charset val="${font.charset}"/>`;
+    }
+    if (font.scheme && font.scheme !== 'none') {
+      xml += `<scheme val="${font.scheme}"/>`;
+    }
+    return `<${tag}>${xml}</${tag}>`;
+  }
+
+  /**
+   * 写入填充
+   * @param differential 是否为差异格式 (纯色填充的颜色写入 bgColor)
+   */
+  private writeFill(fill: Fill, differential = false): string {
+    if (fill.type === 'gradient') {
+      const attrs = fill.gradientType === 'path'
+        ? ' type="path"'
+        : fill.degree ? ` degree="${fill.degree}"` : '';
+      const stops = (fill.stops ?? [])
+        .map(stop => `<stop position="${stop.position}">${this.writeColor('color', stop.color)}</stop>`)
+        .join('');
+      return `<fill><gradientFill${attrs}>${stops}</gradientFill></fill>`;
+    }
+
+    const pattern = fill.pattern ?? 'none';
+    const solidDxf = differential && pattern === 'solid';
+    const colors = this.writeColor('fgColor', solidDxf ? undefined : fill.fgColor)
+      + this.writeColor('bgColor', solidDxf ? fill.bgColor ?? fill.fgColor : fill.bgColor);
+    return colors
+      ? `<fill><patternFill patternType="${pattern}">${colors}</patternFill></fill>`
+      : `<fill><patternFill patternType="${pattern}"/></fill>`;
+  }
+
+  private writeBorder(border: Border): string {
+    const side = (tag: string, value: BorderSide | undefined): string => {
+      if (!value?.style || value.style === 'none') {
+        return `<${tag}/>`;
+      }
+      const color = this.writeColor('color', value.color);
+      return color ? `<${tag} style="${value.style}">${color}</${tag}>` : `<${tag} style="${value.style}"/>`;
+    };
+
+    const attrs = (border.diagonalUp ? ' diagonalUp="1"' : '') + (border.diagonalDown ? ' diagonalDown="1"' : '');
+    return `<border${attrs}>${side('left', border.left)}${side('right', border.right)}`
+      + `${side('top', border.top)}${side('bottom', border.bottom)}${side('diagonal', border.diagonal)}</border>`;
+  }
+
+  private writeAlignment(alignment: Alignment | undefined): string {
+    if (!alignment) {
+      return '';
+    }
+
+    const attrs: string[] = [];
+    if (alignment.horizontal && alignment.horizontal !== 'general') {
+      attrs.push(`horizontal="${alignment.horizontal}"`);
+    }
+    if (alignment.vertical && alignment.vertical !== 'bottom') {
+      attrs.push(`vertical="${alignment.vertical}"`);
+    }
+    if (alignment.textRotation) {
+      // 负角度 (向下旋转) 在 OOXML 中表示为 91-180
+      const rotation = alignment.textRotation < 0 ? 90 - alignment.textRotation : alignment.textRotation;
+      attrs.push(`textRotation="${rotation}"`);
+    }
+    if (alignment.wrapText) {
+      attrs.push('wrapText="1"');
+    }
+    if (alignment.indent) {
+      attrs.push(`indent="${alignment.indent}"`);
+    }
+    if (alignment.justifyLastLine) {
+      attrs.push('justifyLastLine="1"');
+    }
+    if (alignment.shrinkToFit) {
+      attrs.push('shrinkToFit="1"');
+    }
+    if (alignment.readingOrder === 'leftToRight') {
+      attrs.push('readingOrder="1"');
+    }
+    if (alignment.readingOrder === 'rightToLeft') {
+      attrs.push('readingOrder="2"');
+    }
+
+    return attrs.length > 0 ? `<alignment ${attrs.join(' ')}/>` : '';
+  }
+
+  private writeProtection(protection: Protection | undefined): string {
+    if (!protection) {
+      return '';
+    }
+    const attrs: string[] = [];
+    if (protection.locked === false) {
+      attrs.push('locked="0"');
+    }
+    if (protection.hidden) {
+      attrs.push('hidden="1"');
+    }
+    return attrs.length > 0 ? `<protection ${attrs.join(' ')}/>` : '';
+  }
+
+  private writeColor(tag: string, color: Color | undefined): string {
+    if (!color) {
+      return '';
+    }
+    if (color.auto) {
+      return `<${tag} auto="1"/>`;
+    }
+    if (color.rgb) {
+      const rgb = color.rgb.replace(/^#/, '').toUpperCase();
+      return `<${tag} rgb="${rgb.length === 6 ? `FF${rgb}` : rgb}"/>`;
+    }
+    if (color.theme !== undefined) {
+      const tint = color.tint ? ` tint="${color.tint}"` : '';
+      return `<${tag} theme="${color.theme}"${tint}/>`;
+    }
+    if (color.indexed !== undefined) {
+      return `<${tag} indexed="${color.indexed}"/>`;
+    }
+    return '';
+  }
+
+  private writeStylesXml(): string {
+    let xml = `${XML_HEADER}<styleSheet xmlns="${NS_MAIN}">`;
+
+    if (this.numFmts.size > 0) {
+      xml += `<numFmts count="${this.numFmts.size}">`;
+      this.numFmts.forEach((id, code) => {
+        xml += `<numFmt numFmtId="${id}" formatCode="${this.escape(code)}"/>`;
+      });
+      xml += '</numFmts>';
+    }
+
+    const list = (tag: string, items: string[]): string => `<${tag} count="${items.length}">${items.join('')}</${tag}>`;
+    xml += list('fonts', this.fonts.items);
+    xml += list('fills', this.fills.items);
+    xml += list('borders', this.borders.items);
+    xml += '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>';
+    xml += list('cellXfs', this.cellXfs.items);
+    xml += '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>';
+    xml += list('dxfs', this.dxfs.items);
+
+    return `${xml}</styleSheet>`;
+  }
+
+  // ============ 辅助方法 ============
+
+  private getWorkbook(): Workbook {
+    if (!this.workbook) {
+      throw new Error('没有正在写入的工作簿');
+    }
+    return this.workbook;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(INVALID_XML_CHARS, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * 确定写入的工作表名称
+   * @description 工作表名称最多 31 个字符、不能包含 \ / ? * : [ ] 且不区分大小写地唯一。
+   * 替换字符和截断后重名的工作表追加 (2)、(3) 等后缀，名称变化的工作表在公式、定义名称、数据验证、
+   * 条件格式、超链接和迷你图中的引用随之重命名
+   */
+  private assignSheetNames(sheets: Sheet[]): void {
+    this.sheetNames = new Map();
+    this.sheetRenames = new Map();
+    const used = new Set<string>();
+    const originalCounts = new Map<string, number>();
+    sheets.forEach(sheet => {
+      const key = sheet.name.toLowerCase();
+      originalCounts.set(key, (originalCounts.get(key) ?? 0) + 1);
+    });
+
+    // 先保留本身有效且不重名的名称，再为其他工作表分配名称
+    const sanitized = sheets.map(sheet => (
+      sheet.name.replace(INVALID_SHEET_NAME_CHARS, '_').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet'
+    ));
+    sheets.forEach((sheet, index) => {
+      if (sanitized[index] === sheet.name && !used.has(sheet.name.toLowerCase())) {
+        used.add(sheet.name.toLowerCase());
+        this.sheetNames.set(sheet, sheet.name);
+      }
+    });
+
+    sheets.forEach((sheet, index) => {
+      if (this.sheetNames.has(sheet)) {
+        return;
+      }
+      const base = sanitized[index];
+      let name = base;
+      for (let n = 2; used.has(name.toLowerCase()); n++) {
+        const suffix = ` (${n})`;
+        name = `${base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length)}${suffix}`;
+      }
+      used.add(name.toLowerCase());
+      this.sheetNames.set(sheet, name);
+
+      // 原名称重复时无法确定引用指向哪个工作表，保持引用不变
+      const key = sheet.name.toLowerCase();
+      if (originalCounts.get(key) === 1) {
+        this.sheetRenames.set(key, name);
+      }
+    });
+  }
+
+  private getSheetName(sheet: Sheet): string {
+    return this.sheetNames.get(sheet) ?? sheet.name;
+  }
+
+  /**
+   * 重命名公式或引用中名称有变化的工作表
+   */
+  private renameSheets(formula: string): string {
+    return FormulaUtils.renameSheets(formula, this.sheetRenames);
+  }
+
+  /**
+   * 获取部件的关系文件路径 (xl/worksheets/sheet1.xml 对应 xl/worksheets/_rels/sheet1.xml.rels)
+   */
+  private static getRelsPath(partPath: string): string {
+    const slashIndex = partPath.lastIndexOf('/');
+    return `${partPath.substring(0, slashIndex + 1)}_rels/${partPath.substring(slashIndex + 1)}.rels`;
+  }
+
+  /**
+   * 格式化为 W3CDTF 时间 (不含毫秒)
+   */
+  private static formatIsoDate(date: Date): string {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * 原文件包
+ * @description 写入时从原 xlsx/xlsb 文件包中复制工作簿模型不包含的部件 (工作表和图表工作表的绘图，
+ * 以及绘图引用的图片、图表及其样式)。部件内容和关系原样复制，只有图表中的工作表引用随工作表重命名而改写
+ */
+import JSZip from 'jszip';
+import { XmlUtils } from '../parser/XmlUtils';
+
+/**
+ * 部件关系
+ */
+export interface PackageRelationship {
+  id: string;
+  type: string;
+  /** 内部目标为 ZIP 内完整路径，外部目标保持原文 */
+  target: string;
+  external: boolean;
+}
+
+/**
+ * 复制部件时对 XML 内容的转换 (如改写图表公式中的工作表名)
+ * @param path 部件路径
+ * @param contentType 部件内容类型
+ */
+export type PartTransform = (xml: string, path: string, contentType: string) => string;
+
+export class SourcePackage {
+  private zip: JSZip;
+  /** 按部件路径 (不含开头的 /) 指定的内容类型 */
+  private overrides = new Map<string, string>();
+  /** 按扩展名 (小写) 指定的内容类型 */
+  private defaults = new Map<string, string>();
+  private relationships = new Map<string, PackageRelationship[]>();
+
+  private constructor(zip: JSZip) {
+    this.zip = zip;
+  }
+
+  /**
+   * 读取原文件包
+   * @throws 数据不是 ZIP 文件包时抛出错误
+   */
+  static async load(data: ArrayBuffer | Uint8Array): Promise<SourcePackage> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(data);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`无法读取原文件包 (${reason})`);
+    }
+
+    const source = new SourcePackage(zip);
+    await source.readContentTypes();
+    return source;
+  }
+
+  /**
+   * 读取部件关系
+   * @param partPath 部件路径，如 xl/worksheets/sheet1.xml
+   */
+  async getRelationships(partPath: string): Promise<PackageRelationship[]> {
+    const cached = this.relationships.get(partPath);
+    if (cached) {
+      return cached;
+    }
+
+    const rels: PackageRelationship[] = [];
+    const content = await this.zip.file(SourcePackage.getRelsPath(partPath))?.async('string');
+    if (content) {
+      XmlUtils.forEachChildByTag(XmlUtils.parse(content).documentElement, 'Relationship', (el) => {
+        const target = XmlUtils.getAttr(el, 'Target');
+        const external = XmlUtils.getAttr(el, 'TargetMode') === 'External';
+        rels.push({
+          id: XmlUtils.getAttr(el, 'Id'),
+          type: XmlUtils.getAttr(el, 'Type'),
+          target: external ? target : SourcePackage.resolvePath(partPath, target),
+          external,
+        });
+      });
+    }
+    this.relationships.set(partPath, rels);
+    return rels;
+  }
+
+  /**
+   * 复制部件及其关系引用的全部内部部件
+   * @param path 部件路径
+   * @param zip 写入的文件包 (部件保持原路径)
+   * @param contentTypes 收集复制部件的内容类型 (以部件路径为键)
+   * @param transform XML 部件的内容转换
+   * @returns 部件不存在时返回 false
+   */
+  async copyPart(
+    path: string,
+    zip: JSZip,
+    contentTypes: Map<string, string>,
+    transform?: PartTransform,
+  ): Promise<boolean> {
+    if (contentTypes.has(path)) {
+      return true;
+    }
+    const file = this.zip.file(path);
+    if (!file) {
+      return false;
+    }
+
+    const contentType = this.getContentType(path);
+    contentTypes.set(path, contentType);
+    if (transform && /xml$/i.test(contentType)) {
+      zip.file(path, transform(await file.async('string'), path, contentType), { createFolders: false });
+    } else {
+      zip.file(path, await file.async('uint8array'), { createFolders: false });
+    }
+
+    const relsPath = SourcePackage.getRelsPath(path);
+    const rels = this.zip.file(relsPath);
+    if (rels) {
+      zip.file(relsPath, await rels.async('uint8array'), { createFolders: false });
+      for (const rel of await this.getRelationships(path)) {
+        if (!rel.external) {
+          await this.copyPart(rel.target, zip, contentTypes, transform);
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 获取部件的内容类型 ([Content_Types].xml 中没有声明时为 application/octet-stream)
+   */
+  getContentType(path: string): string {
+    const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+    return this.overrides.get(path) ?? this.defaults.get(extension) ?? 'application/octet-stream';
+  }
+
+  private async readContentTypes(): Promise<void> {
+    const content = await this.zip.file('[Content_Types].xml')?.async('string');
+    if (!content) {
+      return;
+    }
+
+    const root = XmlUtils.parse(content).documentElement;
+    XmlUtils.forEachChildByTag(root, 'Default', (el) => {
+      this.defaults.set(XmlUtils.getAttr(el, 'Extension').toLowerCase(), XmlUtils.getAttr(el, 'ContentType'));
+    });
+    XmlUtils.forEachChildByTag(root, 'Override', (el) => {
+      this.overrides.set(XmlUtils.getAttr(el, 'PartName').replace(/^\//, ''), XmlUtils.getAttr(el, 'ContentType'));
+    });
+  }
+
+  /**
+   * 获取部件的关系文件路径 (xl/drawings/drawing1.xml 对应 xl/drawings/_rels/drawing1.xml.rels)
+   */
+  private static getRelsPath(partPath: string): string {
+    const slashIndex = partPath.lastIndexOf('/');
+    return `${partPath.substring(0, slashIndex + 1)}_rels/${partPath.substring(slashIndex + 1)}.rels`;
+  }
+
+  /**
+   * 将关系目标解析为 ZIP 内完整路径
+   */
+  private static resolvePath(basePath: string, target: string): string {
+    if (target.startsWith('/')) {
+      return target.substring(1);
+    }
+
+    const parts = basePath.split('/');
+    parts.pop();
+    for (const segment of target.split('/')) {
+      if (segment === '..') {
+        parts.pop();
+      } else if (segment !== '.' && segment !== '') {
+        parts.push(segment);
+      }
+    }
+    return parts.join('/');
+  }
+}
@@ -0,0 +1 @@
+export { ExcelWriter, type WriteOptions } from './ExcelWriter';